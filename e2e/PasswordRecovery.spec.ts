@@ -0,0 +1,138 @@
+import { test, expect, type Page } from "@playwright/test";
+import { TEST_TIMEOUTS } from "./test-config";
+
+/**
+ * E2E Tests for Password Recovery and Email Verification
+ *
+ * Tests cover the forgot password, reset password and auth callback routes.
+ *
+ * - RECOVERY-01: Request a reset link
+ * - RECOVERY-02: Open the reset page without or with an invalid token
+ * - RECOVERY-03: Open an invalid verification link
+ * - RECOVERY-04: Reset a password with the link from the email
+ *
+ * Prerequisites:
+ * - Application must be running at BASE_URL
+ * - RECOVERY-04 reads the email from the local Supabase mail catcher; set INBUCKET_URL
+ *   (http://127.0.0.1:54324 with `supabase start`) to run it
+ *
+ * To run: pnpm test:e2e --grep "Password Recovery"
+ */
+
+const INBUCKET_URL = process.env.INBUCKET_URL;
+
+/**
+ * Submits the forgot password form
+ */
+async function requestResetLink(page: Page, email: string): Promise<void> {
+  await page.goto("/forgot-password");
+  await page.waitForLoadState("networkidle");
+  await page.locator("input#email").fill(email);
+  await page.locator('button[type="submit"]').click();
+}
+
+/**
+ * Returns the first link of the newest email in a mailbox of the local mail catcher
+ */
+async function latestEmailLink(page: Page, email: string): Promise<string> {
+  const mailbox = email.split("@")[0];
+  let messages: { id: string }[] = [];
+
+  await expect
+    .poll(
+      async () => {
+        const response = await page.request.get(`${INBUCKET_URL}/api/v1/mailbox/${mailbox}`);
+        messages = await response.json();
+        return messages.length;
+      },
+      { timeout: TEST_TIMEOUTS.navigation }
+    )
+    .toBeGreaterThan(0);
+
+  const response = await page.request.get(
+    `${INBUCKET_URL}/api/v1/mailbox/${mailbox}/${messages[messages.length - 1].id}`
+  );
+  const message = (await response.json()) as { body: { html: string } };
+  const href = message.body.html.match(/href="([^"]+)"/)?.[1];
+  if (!href) {
+    throw new Error(`No link in the latest email to ${email}`);
+  }
+  return href.replace(/&amp;/g, "&");
+}
+
+test.describe("Password Recovery", () => {
+  test.describe("RECOVERY-01: Request Reset Link", () => {
+    test("should confirm the request without revealing whether the account exists", async ({ page }) => {
+      await requestResetLink(page, `nobody-${Date.now()}@example.com`);
+
+      await page.waitForURL(/\/forgot-password\?success=true/, { timeout: TEST_TIMEOUTS.navigation });
+      await expect(page.locator('[role="status"]')).toBeVisible({ timeout: TEST_TIMEOUTS.formSubmission });
+    });
+  });
+
+  test.describe("RECOVERY-02: Invalid Reset Links", () => {
+    test("should send users without a token back to the forgot password page", async ({ page }) => {
+      await page.goto("/reset-password");
+
+      await page.waitForURL(/\/forgot-password\?error=invalid_token/, { timeout: TEST_TIMEOUTS.navigation });
+      await expect(page.locator('[role="alert"]')).toBeVisible();
+    });
+
+    test("should reject an invalid token when the new password is submitted", async ({ page }) => {
+      await page.goto("/reset-password?token=not-a-real-token");
+      await page.waitForLoadState("networkidle");
+
+      await page.locator("input#password").fill("NewPassword123!");
+      await page.locator("input#confirmPassword").fill("NewPassword123!");
+      await page.locator('button[type="submit"]').click();
+
+      await page.waitForURL(/\/forgot-password\?error=invalid_token/, { timeout: TEST_TIMEOUTS.navigation });
+      await expect(page.locator('[role="alert"]')).toBeVisible();
+    });
+  });
+
+  test.describe("RECOVERY-03: Invalid Verification Links", () => {
+    test("should show an error for a verification link without a valid token", async ({ page }) => {
+      await page.goto("/api/auth/callback?token_hash=not-a-real-token&type=signup");
+
+      await page.waitForURL(/\/login\?error=invalid_verification_link/, { timeout: TEST_TIMEOUTS.navigation });
+      await expect(page.locator('[role="alert"]')).toBeVisible();
+    });
+  });
+
+  test.describe("RECOVERY-04: Reset Password From Email", () => {
+    test.skip(!INBUCKET_URL, "Set INBUCKET_URL to read emails from the local Supabase mail catcher");
+
+    test("should set a new password with the emailed link and sign in with it", async ({ page }) => {
+      const email = `recovery-${Date.now()}@example.com`;
+
+      // Register a fresh account so other tests keep their passwords
+      await page.goto("/register");
+      await page.waitForLoadState("networkidle");
+      await page.locator("input#email").fill(email);
+      await page.locator("input#password").fill("OldPassword123!");
+      await page.locator("input#confirmPassword").fill("OldPassword123!");
+      await page.locator('button[type="submit"]').click();
+      await page.waitForURL(/\/verify-email/, { timeout: TEST_TIMEOUTS.navigation });
+      await page.context().clearCookies();
+
+      // Request the reset link and follow it
+      await requestResetLink(page, email);
+      await page.waitForURL(/\/forgot-password\?success=true/, { timeout: TEST_TIMEOUTS.navigation });
+      await page.goto(await latestEmailLink(page, email));
+      await page.waitForURL(/\/reset-password\?token=/, { timeout: TEST_TIMEOUTS.navigation });
+
+      // Set the new password
+      await page.locator("input#password").fill("NewPassword123!");
+      await page.locator("input#confirmPassword").fill("NewPassword123!");
+      await page.locator('button[type="submit"]').click();
+      await page.waitForURL(/\/login\?message=password_reset_success/, { timeout: TEST_TIMEOUTS.navigation });
+
+      // Sign in with the new password
+      await page.locator("input#email").fill(email);
+      await page.locator("input#password").fill("NewPassword123!");
+      await page.locator('button[type="submit"]').click();
+      await page.waitForURL("/", { timeout: TEST_TIMEOUTS.navigation });
+    });
+  });
+});
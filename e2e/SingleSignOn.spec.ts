@@ -0,0 +1,52 @@
+import { test, expect } from "@playwright/test";
+import { TEST_TIMEOUTS } from "./test-config";
+
+/**
+ * E2E Tests for Enterprise Single Sign-On
+ *
+ * Tests cover the SSO sign-in routes with the generic OIDC provider.
+ *
+ * - SSO-01: Start sign-in with a provider that is not enabled
+ * - SSO-02: Sign in through a mock OIDC identity provider
+ *
+ * Prerequisites:
+ * - Application must be running at BASE_URL
+ * - SSO-02 needs the app configured against a local mock IdP (see README "Single sign-on"):
+ *   docker run --rm -p 8080:8080 ghcr.io/navikt/mock-oauth2-server:2.1.10
+ *   with SSO_OIDC_ISSUER=http://localhost:8080/default; set SSO_MOCK_IDP=true to run it
+ *
+ * To run: pnpm test:e2e --grep "Single Sign-On"
+ */
+
+const SSO_MOCK_IDP = process.env.SSO_MOCK_IDP === "true";
+
+test.describe("Single Sign-On", () => {
+  test.describe("SSO-01: Unknown Provider", () => {
+    test("should send the user back to login with an error", async ({ page }) => {
+      await page.goto("/api/auth/sso/not-a-provider");
+
+      await page.waitForURL(/\/login\?error=sso_unavailable/, { timeout: TEST_TIMEOUTS.navigation });
+      await expect(page.locator('[role="alert"]')).toBeVisible();
+    });
+  });
+
+  test.describe("SSO-02: Sign In Through the Mock IdP", () => {
+    test.skip(!SSO_MOCK_IDP, "Set SSO_MOCK_IDP=true with the app configured against the mock OIDC provider");
+
+    test("should create the account on first sign-in and open the dashboard", async ({ page }) => {
+      const email = `sso-${Date.now()}@example.com`;
+
+      await page.goto("/login");
+      await page.waitForLoadState("networkidle");
+      await page.locator('a[href^="/api/auth/sso/oidc"]').click();
+
+      // Mock IdP login form: any subject, claims as JSON
+      await page.locator('input[name="username"]').fill(email);
+      await page.locator('textarea[name="claims"]').fill(JSON.stringify({ email, name: "SSO Tester", groups: [] }));
+      await page.locator('input[type="submit"]').click();
+
+      await page.waitForURL("/", { timeout: TEST_TIMEOUTS.navigation });
+      await expect(page.getByRole("button", { name: "User menu" })).toBeVisible();
+    });
+  });
+});
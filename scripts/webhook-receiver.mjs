@@ -0,0 +1,59 @@
+/* global process, console, Buffer */
+/* eslint-disable no-console */
+/**
+ * Local webhook receiver for trying out Badger webhooks
+ *
+ * Prints every delivery and checks its X-Badger-Signature against WEBHOOK_SECRET.
+ *
+ *   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs
+ *
+ * Environment:
+ * - PORT: port to listen on (default 4000)
+ * - WEBHOOK_SECRET: secret shown when the webhook was created; signatures are not checked without it
+ * - RESPOND_STATUS: status to answer with (default 200), e.g. 500 to watch the retries
+ */
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 4000);
+const secret = process.env.WEBHOOK_SECRET;
+const respondStatus = Number(process.env.RESPOND_STATUS ?? 200);
+
+// Signatures older than this are rejected as replays
+const TOLERANCE_SECONDS = 300;
+
+function verifySignature(body, header) {
+  const parts = Object.fromEntries((header ?? "").split(",").map((part) => part.split("=", 2)));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isInteger(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest();
+  const received = Buffer.from(parts.v1, "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+createServer((request, response) => {
+  const chunks = [];
+  request.on("data", (chunk) => chunks.push(chunk));
+  request.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const signature = secret
+      ? verifySignature(body, request.headers["x-badger-signature"])
+        ? "valid"
+        : "INVALID"
+      : "not checked";
+
+    console.log(
+      `${new Date().toISOString()} ${request.headers["x-badger-event"]} delivery=${request.headers["x-badger-delivery"]} signature=${signature}`
+    );
+    console.log(body);
+
+    const status = signature === "INVALID" ? 401 : respondStatus;
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ received: status < 300 }));
+  });
+}).listen(port, () => {
+  console.log(`Listening for webhooks on http://localhost:${port}`);
+});
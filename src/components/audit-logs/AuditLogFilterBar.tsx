@@ -0,0 +1,146 @@
+import React from "react";
+import type { AuditLogFilterBarProps, AuditEventTypeType, AuditResourceTypeType } from "@/types";
+import { AuditEventType, AuditResourceType } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { X, ArrowUpDown } from "lucide-react";
+
+const SELECT_CLASS_NAME =
+  "h-9 rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors hover:bg-accent hover:text-accent-foreground focus:outline-none focus:ring-1 focus:ring-ring";
+
+/**
+ * AuditLogFilterBar Component
+ *
+ * Filtering interface for the audit log browser: event type, resource type,
+ * date range and sort order. Actor and resource ID filters are set by clicking
+ * entries in the table and shown here as removable chips.
+ */
+export function AuditLogFilterBar(props: AuditLogFilterBarProps) {
+  const { filters, onFilterChange, resultCount, hasActiveFilters } = props;
+
+  const handleClearFilters = () => {
+    onFilterChange({
+      actor_id: undefined,
+      event_type: undefined,
+      resource_type: undefined,
+      resource_id: undefined,
+      from: undefined,
+      to: undefined,
+      order: "desc",
+      offset: 0,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2 flex-wrap">
+        <select
+          value={filters.event_type ?? ""}
+          onChange={(e) => onFilterChange({ event_type: (e.target.value || undefined) as AuditEventTypeType })}
+          className={SELECT_CLASS_NAME}
+          aria-label="Event type"
+        >
+          <option value="">All events</option>
+          {Object.values(AuditEventType).map((eventType) => (
+            <option key={eventType} value={eventType}>
+              {eventType}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={filters.resource_type ?? ""}
+          onChange={(e) =>
+            onFilterChange({
+              resource_type: (e.target.value || undefined) as AuditResourceTypeType,
+              resource_id: undefined,
+            })
+          }
+          className={SELECT_CLASS_NAME}
+          aria-label="Resource type"
+        >
+          <option value="">All resources</option>
+          {Object.values(AuditResourceType).map((resourceType) => (
+            <option key={resourceType} value={resourceType}>
+              {resourceType}
+            </option>
+          ))}
+        </select>
+
+        <Input
+          type="date"
+          value={filters.from ?? ""}
+          onChange={(e) => onFilterChange({ from: e.target.value || undefined })}
+          className="w-auto"
+          aria-label="From date"
+        />
+        <Input
+          type="date"
+          value={filters.to ?? ""}
+          onChange={(e) => onFilterChange({ to: e.target.value || undefined })}
+          className="w-auto"
+          aria-label="To date"
+        />
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onFilterChange({ order: filters.order === "asc" ? "desc" : "asc" })}
+          className="h-9 px-3"
+          aria-label={`Sort ${filters.order === "asc" ? "ascending" : "descending"}`}
+        >
+          <ArrowUpDown className="h-4 w-4 mr-2" />
+          {filters.order === "asc" ? "Oldest" : "Newest"}
+        </Button>
+      </div>
+
+      {/* Result Count and Clear Filters */}
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <div>
+          <span className="font-medium text-foreground">{resultCount}</span>
+          {resultCount === 1 ? " entry" : " entries"}
+        </div>
+
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={handleClearFilters} className="h-8 px-2 text-xs">
+            <X className="h-3 w-3 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {/* Active Filters Display */}
+      {(filters.actor_id || filters.resource_id) && (
+        <div className="flex flex-wrap gap-2">
+          {filters.actor_id && (
+            <div className="inline-flex items-center gap-1 rounded-md bg-secondary px-2 py-1 text-xs">
+              <span className="text-muted-foreground">Actor:</span>
+              <span className="font-medium">{filters.actor_id.substring(0, 8)}...</span>
+              <button
+                onClick={() => onFilterChange({ actor_id: undefined })}
+                className="ml-1 hover:text-destructive"
+                aria-label="Remove actor filter"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          )}
+
+          {filters.resource_id && (
+            <div className="inline-flex items-center gap-1 rounded-md bg-secondary px-2 py-1 text-xs">
+              <span className="text-muted-foreground">Resource:</span>
+              <span className="font-medium">{filters.resource_id.substring(0, 8)}...</span>
+              <button
+                onClick={() => onFilterChange({ resource_id: undefined })}
+                className="ml-1 hover:text-destructive"
+                aria-label="Remove resource filter"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
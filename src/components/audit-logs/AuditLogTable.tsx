@@ -0,0 +1,91 @@
+import React from "react";
+import type { AuditLogTableProps, AuditResourceTypeType } from "@/types";
+
+/**
+ * AuditLogTable Component
+ *
+ * Displays audit log entries as a table (time, event, actor, resource, details).
+ * Clicking an actor or resource narrows the list to that actor/resource.
+ */
+export function AuditLogTable(props: AuditLogTableProps) {
+  const { entries, isLoading, onActorClick, onResourceClick } = props;
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg border border-border bg-card p-8 text-center">
+        <div className="animate-pulse space-y-4">
+          <div className="h-10 bg-muted rounded" />
+          <div className="h-10 bg-muted rounded" />
+          <div className="h-10 bg-muted rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="rounded-lg border border-border bg-card p-8 text-center">
+        <p className="text-muted-foreground">No audit log entries match the current filters</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-border bg-card">
+      <table className="w-full text-sm">
+        <thead className="border-b border-border bg-muted/50 text-left text-xs uppercase text-muted-foreground">
+          <tr>
+            <th className="px-4 py-2 font-medium">Time</th>
+            <th className="px-4 py-2 font-medium">Event</th>
+            <th className="px-4 py-2 font-medium">Actor</th>
+            <th className="px-4 py-2 font-medium">Resource</th>
+            <th className="px-4 py-2 font-medium">Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.id} className="border-b border-border last:border-0 align-top">
+              <td className="px-4 py-2 whitespace-nowrap text-muted-foreground">
+                {new Date(entry.created_at).toLocaleString()}
+              </td>
+              <td className="px-4 py-2 font-mono text-xs">{entry.event_type}</td>
+              <td className="px-4 py-2">
+                {entry.actor ? (
+                  <button
+                    onClick={() => onActorClick?.(entry.actor?.id ?? "")}
+                    className="text-left hover:underline"
+                    title={entry.actor.email}
+                  >
+                    {entry.actor.display_name}
+                  </button>
+                ) : (
+                  <span className="text-muted-foreground">System</span>
+                )}
+              </td>
+              <td className="px-4 py-2">
+                {entry.resource_type && entry.resource_id ? (
+                  <button
+                    onClick={() =>
+                      onResourceClick?.(entry.resource_type as AuditResourceTypeType, entry.resource_id ?? "")
+                    }
+                    className="text-left font-mono text-xs hover:underline"
+                    title={entry.resource_id}
+                  >
+                    {entry.resource_type}:{entry.resource_id.substring(0, 8)}
+                  </button>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </td>
+              <td className="px-4 py-2">
+                <pre className="max-w-md whitespace-pre-wrap break-all font-mono text-xs text-muted-foreground">
+                  {JSON.stringify(entry.payload)}
+                </pre>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useCallback } from "react";
+import type { AuditLogViewProps, AuditResourceTypeType } from "@/types";
+import { useAuditLogs } from "@/hooks/useAuditLogs";
+import { AuditLogFilterBar } from "./AuditLogFilterBar";
+import { AuditLogTable } from "./AuditLogTable";
+import { Pagination } from "./Pagination";
+
+/**
+ * AuditLogView Component
+ *
+ * Main interactive component for the admin audit log browser. Lists audit trail
+ * entries (who did what, to which resource, and when) with filtering by actor,
+ * event type, resource and date range.
+ */
+export function AuditLogView(props: AuditLogViewProps) {
+  const { initialData } = props;
+
+  const { entries, pagination, filters, isLoading, error, updateFilters, goToPage, refetch } = useAuditLogs({
+    initialData,
+  });
+
+  const handleActorClick = useCallback(
+    (actorId: string) => {
+      updateFilters({ actor_id: actorId });
+    },
+    [updateFilters]
+  );
+
+  const handleResourceClick = useCallback(
+    (resourceType: AuditResourceTypeType, resourceId: string) => {
+      updateFilters({ resource_type: resourceType, resource_id: resourceId });
+    },
+    [updateFilters]
+  );
+
+  const hasActiveFilters = !!(
+    filters.actor_id ||
+    filters.event_type ||
+    filters.resource_type ||
+    filters.resource_id ||
+    filters.from ||
+    filters.to
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+        <p className="text-muted-foreground mt-1">History of review decisions, promotions and catalog changes</p>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4">
+          <p className="text-sm font-medium text-destructive">Error loading audit logs</p>
+          <p className="text-sm text-destructive/80">{error}</p>
+          <button
+            onClick={() => refetch()}
+            className="mt-2 text-sm font-medium text-destructive underline hover:no-underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      <AuditLogFilterBar
+        filters={filters}
+        onFilterChange={updateFilters}
+        resultCount={pagination.total}
+        hasActiveFilters={hasActiveFilters}
+      />
+
+      <AuditLogTable
+        entries={entries}
+        isLoading={isLoading}
+        onActorClick={handleActorClick}
+        onResourceClick={handleResourceClick}
+      />
+
+      {pagination.total > 0 && <Pagination pagination={pagination} onPageChange={goToPage} />}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React from "react";
+import type { PaginationMetadata } from "@/types";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+export interface PaginationProps {
+  pagination: PaginationMetadata;
+  onPageChange: (offset: number) => void;
+}
+
+/**
+ * Pagination Component
+ *
+ * Previous/next controls for paging through audit log entries.
+ */
+export function Pagination(props: PaginationProps) {
+  const { pagination, onPageChange } = props;
+
+  const currentPage = Math.floor(pagination.offset / pagination.limit) + 1;
+  const totalPages = Math.ceil(pagination.total / pagination.limit);
+
+  const isFirstPage = pagination.offset === 0;
+  const isLastPage = !pagination.has_more;
+
+  return (
+    <div className="flex items-center justify-between">
+      <div className="text-sm text-muted-foreground">
+        Showing <span className="font-medium text-foreground">{pagination.offset + 1}</span>
+        {" - "}
+        <span className="font-medium text-foreground">
+          {Math.min(pagination.offset + pagination.limit, pagination.total)}
+        </span>
+        {" of "}
+        <span className="font-medium text-foreground">{pagination.total}</span>
+        {" entries"}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(Math.max(0, pagination.offset - pagination.limit))}
+          disabled={isFirstPage}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </Button>
+
+        <div className="text-sm text-muted-foreground">
+          Page {currentPage} of {totalPages}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(pagination.offset + pagination.limit)}
+          disabled={isLastPage}
+        >
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -15,7 +15,7 @@ const errorMessages: Record<string, { title: string; message: string }> = {
   },
   weak_password: {
     title: "Weak Password",
-    message: "Password must be at least 8 characters long.",
+    message: "Password must be between 8 and 72 characters long.",
   },
   passwords_dont_match: {
     title: "Passwords Don't Match",
@@ -25,6 +25,18 @@ const errorMessages: Record<string, { title: string; message: string }> = {
     title: "Invalid Reset Link",
     message: "This reset link is invalid or has expired. Please request a new one.",
   },
+  same_password: {
+    title: "Password Unchanged",
+    message: "The new password must differ from your current one. Request a new reset link to try again.",
+  },
+  too_many_requests: {
+    title: "Too Many Requests",
+    message: "Too many password reset requests. Please wait an hour before trying again.",
+  },
+  invalid_verification_link: {
+    title: "Invalid Verification Link",
+    message: "This verification link is invalid or has expired. Sign in to request a new one.",
+  },
   email_not_confirmed: {
     title: "Email Not Verified",
     message: "Please verify your email address before signing in. Check your inbox.",
@@ -37,6 +49,26 @@ const errorMessages: Record<string, { title: string; message: string }> = {
     title: "Account Not Found",
     message: "No account found with this email address.",
   },
+  account_deactivated: {
+    title: "Account Deactivated",
+    message: "Your account has been deactivated. Contact an administrator if you need access.",
+  },
+  registration_disabled: {
+    title: "Registration Disabled",
+    message: "Accounts are created through single sign-on. Sign in with your company account.",
+  },
+  sso_failed: {
+    title: "Single Sign-On Failed",
+    message: "We couldn't sign you in with your company account. Please try again.",
+  },
+  sso_domain_not_allowed: {
+    title: "Domain Not Allowed",
+    message: "Your email domain is not allowed to sign in. Contact an administrator if you need access.",
+  },
+  sso_unavailable: {
+    title: "Single Sign-On Unavailable",
+    message: "This sign-in method is not enabled. Please use another way to sign in.",
+  },
   server_error: {
     title: "Server Error",
     message: "An unexpected error occurred. Please try again later.",
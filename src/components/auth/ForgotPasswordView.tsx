@@ -34,8 +34,7 @@ export function ForgotPasswordView({ error, success }: ForgotPasswordViewProps)
 
     setIsLoading(true);
 
-    // Form submission will be handled by native form action in the future
-    // For now, this is just UI - backend integration comes later
+    // Native form submission to /api/auth/forgot-password, which redirects back with the outcome
     const form = e.target as HTMLFormElement;
     form.submit();
   };
@@ -10,9 +10,19 @@ interface LoginViewProps {
   error?: string;
   message?: string;
   redirectUrl?: string;
+  // Enabled SSO providers, shown as buttons above the password form
+  ssoProviders?: { id: string; label: string }[];
+  // Hidden when self-registration is disabled for the deployment
+  allowRegistration?: boolean;
 }
 
-export function LoginView({ error, message, redirectUrl }: LoginViewProps) {
+export function LoginView({
+  error,
+  message,
+  redirectUrl,
+  ssoProviders = [],
+  allowRegistration = true,
+}: LoginViewProps) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
@@ -82,6 +92,26 @@ export function LoginView({ error, message, redirectUrl }: LoginViewProps) {
               </div>
             )}
 
+            {/* SSO Providers */}
+            {ssoProviders.length > 0 && (
+              <>
+                <div className="space-y-2">
+                  {ssoProviders.map((provider) => (
+                    <Button key={provider.id} variant="outline" className="w-full" asChild>
+                      <a href={`/api/auth/sso/${provider.id}?redirect=${encodeURIComponent(redirectUrl || "/")}`}>
+                        {provider.label}
+                      </a>
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <div className="h-px flex-1 bg-border" />
+                  <span>or sign in with email</span>
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+              </>
+            )}
+
             {/* Login Form */}
             <form onSubmit={handleSubmit} method="POST" action="/api/auth/login" className="space-y-4">
               {/* Hidden redirect field */}
@@ -155,15 +185,17 @@ export function LoginView({ error, message, redirectUrl }: LoginViewProps) {
             </form>
 
             {/* Registration Link */}
-            <div className="text-center text-sm">
-              <span className="text-muted-foreground">Don&apos;t have an account? </span>
-              <a
-                href="/register"
-                className="text-primary hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded-sm"
-              >
-                Register
-              </a>
-            </div>
+            {allowRegistration && (
+              <div className="text-center text-sm">
+                <span className="text-muted-foreground">Don&apos;t have an account? </span>
+                <a
+                  href="/register"
+                  className="text-primary hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded-sm"
+                >
+                  Register
+                </a>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -51,6 +51,11 @@ export function ResetPasswordView({ token, error }: ResetPasswordViewProps) {
       return;
     }
 
+    if (password.length > 72) {
+      setValidationError("Password must be at most 72 characters long");
+      return;
+    }
+
     if (password !== confirmPassword) {
       setValidationError("Passwords do not match");
       return;
@@ -58,8 +63,7 @@ export function ResetPasswordView({ token, error }: ResetPasswordViewProps) {
 
     setIsLoading(true);
 
-    // Form submission will be handled by native form action in the future
-    // For now, this is just UI - backend integration comes later
+    // Native form submission to /api/auth/reset-password, which redirects back with the outcome
     const form = e.target as HTMLFormElement;
     form.submit();
   };
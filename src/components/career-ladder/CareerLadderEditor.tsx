@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ApiError, CareerLadderVersionDto, CreateCareerLadderVersionCommand } from "@/types";
+
+/**
+ * Formats a ladder's positions for editing
+ */
+function formatPositions(version: CareerLadderVersionDto): string {
+  return JSON.stringify(version.positions, null, 2);
+}
+
+/**
+ * Describes when a version takes (or took) effect
+ */
+function describeEffectiveFrom(version: CareerLadderVersionDto): string {
+  if (!version.effective_from) return "Bundled with the application";
+  const date = new Date(version.effective_from);
+  const label = date.toLocaleString();
+  return date.getTime() > Date.now() ? `Scheduled for ${label}` : `Effective since ${label}`;
+}
+
+/**
+ * CareerLadderEditor Component
+ *
+ * Admin editor for the career ladder. Shows the ladder in force as JSON (same shape as
+ * src/config/position-levels.json) and records edits as a new version taking effect
+ * at the chosen date. The server rejects ladders whose next_level chains are
+ * incomplete or cyclic and lists the problems.
+ */
+export function CareerLadderEditor() {
+  const [current, setCurrent] = useState<CareerLadderVersionDto | null>(null);
+  const [versions, setVersions] = useState<CareerLadderVersionDto[]>([]);
+  const [positions, setPositions] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [note, setNote] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Loads the ladder in force and the recorded versions
+   */
+  const loadLadder = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [currentResponse, versionsResponse] = await Promise.all([
+        fetch("/api/position-levels"),
+        fetch("/api/position-levels/versions"),
+      ]);
+
+      if (currentResponse.status === 401 || versionsResponse.status === 401) {
+        window.location.href = "/login?return=/admin/career-ladder";
+        return;
+      }
+      if (!currentResponse.ok || !versionsResponse.ok) {
+        const errorData: ApiError = await (currentResponse.ok ? versionsResponse : currentResponse).json();
+        throw new Error(errorData.message || "Failed to load the career ladder");
+      }
+
+      const ladder: CareerLadderVersionDto = await currentResponse.json();
+      setCurrent(ladder);
+      setVersions(await versionsResponse.json());
+      setPositions(formatPositions(ladder));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load the career ladder");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLadder();
+  }, [loadLadder]);
+
+  /**
+   * Validates the JSON locally and records it as a new version
+   */
+  const handleSave = async () => {
+    let parsed: CreateCareerLadderVersionCommand["positions"];
+    try {
+      parsed = JSON.parse(positions);
+    } catch {
+      setErrors(["The ladder is not valid JSON"]);
+      return;
+    }
+
+    const command: CreateCareerLadderVersionCommand = {
+      positions: parsed,
+      effective_from: effectiveFrom ? new Date(effectiveFrom).toISOString() : undefined,
+      note: note.trim() || undefined,
+    };
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch("/api/position-levels", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        const details = Array.isArray(errorData.details)
+          ? (errorData.details as { field: string; message: string }[])
+          : [];
+        setErrors(
+          details.length > 0
+            ? details.map((detail) => (detail.field ? `${detail.field}: ${detail.message}` : detail.message))
+            : [errorData.message || "Failed to save the career ladder"]
+        );
+        return;
+      }
+
+      const created: CareerLadderVersionDto = await response.json();
+      toast.success(`Career ladder version ${created.version} saved`, { description: describeEffectiveFrom(created) });
+      setEffectiveFrom("");
+      setNote("");
+      await loadLadder();
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : "An unexpected error occurred"]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Career Ladder</h1>
+        <p className="text-muted-foreground mt-1">
+          Levels and badge requirements per career path. Saving records a new version; earlier versions stay in force
+          until its effective date.
+        </p>
+      </div>
+
+      {isLoading && !current ? (
+        <p className="text-sm text-muted-foreground">Loading career ladder…</p>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+          {/* Editor */}
+          <div className="rounded-lg border border-border bg-card p-6 space-y-4">
+            <div className="space-y-1">
+              <label htmlFor="ladder-positions" className="text-sm font-medium text-foreground">
+                Positions (JSON)
+              </label>
+              <p className="text-xs text-muted-foreground">
+                {current?.version
+                  ? `Editing version ${current.version}, in force now.`
+                  : "Editing the bundled ladder; no version has been saved yet."}{" "}
+                Each path is one chain of levels linked by next_level.
+              </p>
+              <textarea
+                id="ladder-positions"
+                value={positions}
+                onChange={(e) => setPositions(e.target.value)}
+                spellCheck={false}
+                rows={24}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs shadow-sm focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <label htmlFor="ladder-effective-from" className="text-sm font-medium text-foreground">
+                  Effective from (optional)
+                </label>
+                <Input
+                  id="ladder-effective-from"
+                  type="datetime-local"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Defaults to now; future dates schedule the change.</p>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="ladder-note" className="text-sm font-medium text-foreground">
+                  Note (optional)
+                </label>
+                <Input
+                  id="ladder-note"
+                  value={note}
+                  maxLength={500}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g. Raise S3 gold requirement"
+                />
+              </div>
+            </div>
+
+            {errors.length > 0 && (
+              <div className="rounded-lg border border-destructive bg-destructive/10 p-4" role="alert">
+                <ul className="space-y-1 text-sm text-destructive">
+                  {errors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => current && setPositions(formatPositions(current))}
+                disabled={isSaving || !current}
+              >
+                Reset
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving || !positions.trim()}>
+                {isSaving ? "Saving..." : "Save as new version"}
+              </Button>
+            </div>
+          </div>
+
+          {/* Versions */}
+          <div className="rounded-lg border border-border bg-card p-6 space-y-3">
+            <h2 className="text-sm font-medium text-foreground">Versions</h2>
+            {versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No versions yet; the bundled ladder is in force.</p>
+            ) : (
+              <ul className="space-y-3">
+                {versions.map((version) => (
+                  <li key={version.version} className="rounded-md border border-input p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">
+                        Version {version.version}
+                        {current?.version === version.version && (
+                          <span className="ml-2 text-xs text-green-700 dark:text-green-400">in force</span>
+                        )}
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => setPositions(formatPositions(version))}>
+                        Load
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{describeEffectiveFrom(version)}</p>
+                    {version.note && <p className="text-xs text-foreground">{version.note}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,25 +4,30 @@
  * Displays action buttons for the badge:
  * - Apply (all users, when badge is active)
  * - Edit (admin only)
- * - Deactivate (admin only, when badge is active)
+ * - Deactivate/Archive (admin only, when badge is active)
+ * - Reactivate/Archive (admin only, when badge is inactive)
  *
  * Actions are displayed in a sticky card on desktop.
  */
 
-import { Edit, Ban, CheckCircle } from "lucide-react";
+import { Edit, Ban, CheckCircle, RotateCcw } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import type { CatalogBadgeStatusType } from "@/types";
 
 interface BadgeActionsProps {
   active: boolean;
+  status: CatalogBadgeStatusType;
   onApply: () => void;
   onEdit: () => void;
   onDeactivate: () => void;
+  onReactivate: () => void;
   isAdmin: boolean;
 }
 
 export function BadgeActions(props: BadgeActionsProps) {
-  const { active, onApply, onEdit, onDeactivate, isAdmin } = props;
+  const { active, status, onApply, onEdit, onDeactivate, onReactivate, isAdmin } = props;
+  const isArchived = status === "archived";
 
   return (
     <Card className="lg:sticky lg:top-4">
@@ -52,33 +57,49 @@ export function BadgeActions(props: BadgeActionsProps) {
             <div className="border-t pt-4 mt-4">
               <p className="text-xs font-semibold text-muted-foreground mb-3">Admin Actions</p>
 
-              {/* Edit button */}
-              <Button onClick={onEdit} variant="outline" size="default" className="w-full mb-2">
-                <Edit className="h-4 w-4 mr-2" />
-                Edit Badge
-              </Button>
-
-              {/* Deactivate button */}
-              {active ? (
-                <Button
-                  onClick={onDeactivate}
-                  variant="destructive"
-                  size="default"
-                  className="w-full"
-                  aria-label="Deactivate this badge"
-                >
-                  <Ban className="h-4 w-4 mr-2" />
-                  Deactivate Badge
-                </Button>
-              ) : (
+              {isArchived ? (
                 <div className="text-xs text-muted-foreground italic p-2 text-center bg-muted rounded">
-                  Badge is inactive
+                  Badge is archived
                 </div>
+              ) : (
+                <>
+                  {/* Edit button */}
+                  <Button onClick={onEdit} variant="outline" size="default" className="w-full mb-2">
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit Badge
+                  </Button>
+
+                  {/* Reactivate button */}
+                  {!active && (
+                    <Button
+                      onClick={onReactivate}
+                      variant="outline"
+                      size="default"
+                      className="w-full mb-2"
+                      aria-label="Reactivate this badge"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Reactivate Badge
+                    </Button>
+                  )}
+
+                  {/* Deactivate / archive button (opens the impact report) */}
+                  <Button
+                    onClick={onDeactivate}
+                    variant="destructive"
+                    size="default"
+                    className="w-full"
+                    aria-label={active ? "Deactivate this badge" : "Archive this badge"}
+                  >
+                    <Ban className="h-4 w-4 mr-2" />
+                    {active ? "Deactivate Badge" : "Archive Badge"}
+                  </Button>
+                </>
               )}
             </div>
 
             <p className="text-xs text-muted-foreground">
-              Deactivating prevents new applications but preserves existing ones
+              Deactivating prevents new applications but preserves existing ones. Archiving is permanent.
             </p>
           </>
         )}
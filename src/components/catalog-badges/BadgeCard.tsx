@@ -10,7 +10,7 @@ import { Button } from "@/components/ui/button";
 import type { BadgeCardProps } from "@/types";
 
 export function BadgeCard({ badge, isAdmin, onClick, onEdit, onDeactivate }: BadgeCardProps) {
-  const isInactive = badge.status === "inactive";
+  const isInactive = badge.status !== "active";
 
   const getCategoryColor = (category: string) => {
     switch (category) {
@@ -63,7 +63,7 @@ export function BadgeCard({ badge, isAdmin, onClick, onEdit, onDeactivate }: Bad
       {isInactive && (
         <div className="absolute top-4 right-4">
           <Badge variant="secondary" className="bg-muted text-muted-foreground">
-            Inactive
+            {badge.status === "archived" ? "Archived" : "Inactive"}
           </Badge>
         </div>
       )}
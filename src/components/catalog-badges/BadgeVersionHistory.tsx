@@ -0,0 +1,224 @@
+/**
+ * BadgeVersionHistory Component
+ *
+ * Shows the version timeline of a catalog badge and a field-by-field diff
+ * between any two versions. Text fields are diffed word by word.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { CatalogBadgeVersionDto } from "@/types";
+
+interface BadgeVersionHistoryProps {
+  versions: CatalogBadgeVersionDto[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface DiffPart {
+  value: string;
+  type: "same" | "added" | "removed";
+}
+
+const DIFF_FIELDS = [
+  { key: "title", label: "Title" },
+  { key: "description", label: "Description" },
+  { key: "category", label: "Category" },
+  { key: "level", label: "Level" },
+  { key: "metadata", label: "Metadata" },
+] as const;
+
+/**
+ * Word-level diff based on the longest common subsequence of tokens
+ */
+function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (value: string, type: DiffPart["type"]) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ value, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], "same");
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+
+  return parts;
+}
+
+function fieldValue(version: CatalogBadgeVersionDto, key: (typeof DIFF_FIELDS)[number]["key"]): string {
+  if (key === "metadata") {
+    return version.metadata ? JSON.stringify(version.metadata) : "{}";
+  }
+  return version[key] ?? "";
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function BadgeVersionHistory({ versions, isLoading, error }: BadgeVersionHistoryProps) {
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+
+  // Default comparison: previous version -> current version
+  useEffect(() => {
+    if (versions.length >= 2) {
+      setToVersion(versions[0].version);
+      setFromVersion(versions[1].version);
+    }
+  }, [versions]);
+
+  const diff = useMemo(() => {
+    const from = versions.find((v) => v.version === fromVersion);
+    const to = versions.find((v) => v.version === toVersion);
+    if (!from || !to) return [];
+
+    return DIFF_FIELDS.map(({ key, label }) => {
+      const before = fieldValue(from, key);
+      const after = fieldValue(to, key);
+      return { key, label, changed: before !== after, parts: diffWords(before, after) };
+    }).filter((field) => field.changed);
+  }, [versions, fromVersion, toVersion]);
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Version History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Version History</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Timeline */}
+        <ol className="relative space-y-4 border-l border-border pl-4">
+          {versions.map((version) => (
+            <li key={version.version} className="text-sm">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-muted-foreground" />
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Version {version.version}</span>
+                {version.is_current && <Badge variant="secondary">Current</Badge>}
+              </div>
+              <p className="text-muted-foreground">
+                {formatDate(version.authored_at)}
+                {version.authored_by ? ` by ${version.authored_by.display_name}` : ""}
+              </p>
+              <p className="truncate">{version.title}</p>
+            </li>
+          ))}
+        </ol>
+
+        {/* Diff */}
+        {versions.length >= 2 ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Compare</span>
+              <select
+                value={fromVersion ?? ""}
+                onChange={(e) => setFromVersion(Number(e.target.value))}
+                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                aria-label="Base version"
+              >
+                {versions.map((v) => (
+                  <option key={v.version} value={v.version}>
+                    v{v.version}
+                  </option>
+                ))}
+              </select>
+              <span className="text-muted-foreground">with</span>
+              <select
+                value={toVersion ?? ""}
+                onChange={(e) => setToVersion(Number(e.target.value))}
+                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                aria-label="Compared version"
+              >
+                {versions.map((v) => (
+                  <option key={v.version} value={v.version}>
+                    v{v.version}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {diff.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No differences between the selected versions.</p>
+            ) : (
+              <dl className="space-y-3">
+                {diff.map((field) => (
+                  <div key={field.key}>
+                    <dt className="text-sm font-medium text-muted-foreground mb-1">{field.label}</dt>
+                    <dd className="whitespace-pre-wrap break-words rounded-md bg-muted/50 p-2 text-sm">
+                      {field.parts.map((part, index) =>
+                        part.type === "same" ? (
+                          <span key={index}>{part.value}</span>
+                        ) : part.type === "added" ? (
+                          <ins key={index} className="bg-green-500/20 no-underline">
+                            {part.value}
+                          </ins>
+                        ) : (
+                          <del key={index} className="bg-red-500/20 text-muted-foreground">
+                            {part.value}
+                          </del>
+                        )
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This badge has not been edited since it was created.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
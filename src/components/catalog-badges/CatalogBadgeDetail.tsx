@@ -7,16 +7,18 @@
 
 import { useState } from "react";
 import { useCatalogBadge } from "@/hooks/useCatalogBadge";
+import { useCatalogBadgeVersions } from "@/hooks/useCatalogBadgeVersions";
 import { useUser } from "@/hooks/useUser";
 import { DetailHeader } from "./DetailHeader";
 import { BadgeOverviewCard } from "./BadgeOverviewCard";
 import { BadgeMetadata } from "./BadgeMetadata";
 import { BadgeRequirementsList } from "./BadgeRequirementsList";
 import { BadgeActions } from "./BadgeActions";
+import { BadgeVersionHistory } from "./BadgeVersionHistory";
 import { ConfirmDeactivateModal } from "./ConfirmDeactivateModal";
 import { Skeleton } from "@/components/ui/skeleton";
 import { BadgeFormModal } from "./BadgeFormModal";
-import type { CatalogBadgeDto } from "@/types";
+import type { CatalogBadgeDto, CatalogBadgeStatusType } from "@/types";
 
 interface CatalogBadgeDetailProps {
   badge: CatalogBadgeDto;
@@ -28,10 +30,11 @@ export function CatalogBadgeDetail(props: CatalogBadgeDetailProps) {
   const { badge: initialBadge, isAdmin } = props;
 
   // State management via custom hook
-  const { badge, isLoading, error, refresh, deactivate } = useCatalogBadge({
+  const { badge, isLoading, error, refresh, deactivate, reactivate, archive } = useCatalogBadge({
     badgeId: initialBadge.id,
     initialBadge,
   });
+  const versionHistory = useCatalogBadgeVersions(initialBadge.id);
 
   // Determine admin flag: prefer prop if provided, else use client-side auth
   const user = useUser();
@@ -57,13 +60,22 @@ export function CatalogBadgeDetail(props: CatalogBadgeDetailProps) {
     setSelectedBadge(badge || undefined);
   };
 
-  // Handle deactivate action (admin only)
+  // Handle deactivate/archive action (admin only)
   const handleDeactivate = () => {
     setIsConfirmDeactivateOpen(true);
   };
 
-  // Confirm deactivate
-  const handleConfirmDeactivate = async (badgeId: string) => {
+  // Handle reactivate action (admin only)
+  const handleReactivate = async () => {
+    try {
+      await reactivate();
+    } catch {
+      // Error already handled by hook
+    }
+  };
+
+  // Confirm deactivate or archive
+  const handleConfirmDeactivate = async (badgeId: string, action: "deactivate" | "archive") => {
     try {
       // If badge ids mismatch, refresh to ensure consistency
       if (badge && badge.id !== badgeId) {
@@ -71,7 +83,11 @@ export function CatalogBadgeDetail(props: CatalogBadgeDetailProps) {
         return;
       }
 
-      await deactivate();
+      if (action === "archive") {
+        await archive();
+      } else {
+        await deactivate();
+      }
       setIsConfirmDeactivateOpen(false);
     } catch {
       // Error already handled by hook
@@ -115,7 +131,13 @@ export function CatalogBadgeDetail(props: CatalogBadgeDetailProps) {
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
-      <DetailHeader title={badge.title} active={badge.active} badgeId={badge.id} onApply={handleApply} />
+      <DetailHeader
+        title={badge.title}
+        active={badge.active}
+        status={badge.status as CatalogBadgeStatusType}
+        badgeId={badge.id}
+        onApply={handleApply}
+      />
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-8">
@@ -147,15 +169,22 @@ export function CatalogBadgeDetail(props: CatalogBadgeDetailProps) {
             )}
           </div>
 
-          {/* Right column - Actions */}
-          <div className="lg:col-span-1">
+          {/* Right column - Actions and version history */}
+          <div className="lg:col-span-1 space-y-6">
             <BadgeActions
               active={badge.active}
+              status={badge.status as CatalogBadgeStatusType}
               onApply={handleApply}
               onEdit={handleEdit}
               onDeactivate={handleDeactivate}
+              onReactivate={handleReactivate}
               isAdmin={isAdminFinal}
             />
+            <BadgeVersionHistory
+              versions={versionHistory.versions}
+              isLoading={versionHistory.isLoading}
+              error={versionHistory.error}
+            />
           </div>
         </div>
       </div>
@@ -176,7 +205,7 @@ export function CatalogBadgeDetail(props: CatalogBadgeDetailProps) {
           setSelectedBadge(undefined);
         }}
         onSuccess={async () => {
-          await refresh();
+          await Promise.all([refresh(), versionHistory.refresh()]);
           setIsFormModalOpen(false);
           setSelectedBadge(undefined);
         }}
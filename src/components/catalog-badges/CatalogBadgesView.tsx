@@ -13,15 +13,17 @@ import { BadgeGrid } from "./BadgeGrid";
 import { Pagination } from "../badge-applications/Pagination";
 import { BadgeFormModal } from "./BadgeFormModal";
 import { ConfirmDeactivateModal } from "./ConfirmDeactivateModal";
+import { ImportCatalogModal } from "./ImportCatalogModal";
 import type { CatalogBadgesViewProps, CatalogBadgeListItemDto } from "@/types";
 
 export function CatalogBadgesView(props: CatalogBadgesViewProps) {
   const { initialData, isAdmin } = props;
 
-  const { badges, pagination, filters, isLoading, updateFilters, goToPage, refetch } = useCatalogBadges({
-    initialData,
-    isAdmin,
-  });
+  const { badges, pagination, filters, isLoading, updateFilters, goToPage, refetch, deactivateBadge, archiveBadge } =
+    useCatalogBadges({
+      initialData,
+      isAdmin,
+    });
 
   // Modal states
   const [isFormModalOpen, setIsFormModalOpen] = useState(false);
@@ -29,6 +31,7 @@ export function CatalogBadgesView(props: CatalogBadgesViewProps) {
   const [selectedBadge, setSelectedBadge] = useState<CatalogBadgeListItemDto | undefined>(undefined);
   const [isDeactivateModalOpen, setIsDeactivateModalOpen] = useState(false);
   const [badgeToDeactivate, setBadgeToDeactivate] = useState<CatalogBadgeListItemDto | null>(null);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
 
   /**
    * Handle badge card click - navigate to application form
@@ -94,7 +97,12 @@ export function CatalogBadgesView(props: CatalogBadgesViewProps) {
   return (
     <div className="container mx-auto px-4 py-8 space-y-6">
       {/* Page Header */}
-      <CatalogPageHeader title="Badge Catalog" isAdmin={isAdmin} onCreateClick={handleCreateClick} />
+      <CatalogPageHeader
+        title="Badge Catalog"
+        isAdmin={isAdmin}
+        onCreateClick={handleCreateClick}
+        onImportClick={() => setIsImportModalOpen(true)}
+      />
 
       {/* Filter Bar */}
       <CatalogFilterBar
@@ -129,12 +137,22 @@ export function CatalogBadgesView(props: CatalogBadgesViewProps) {
       <ConfirmDeactivateModal
         isOpen={isDeactivateModalOpen}
         badge={badgeToDeactivate}
-        onConfirm={async () => {
-          await refetch();
-          handleDeactivateModalClose();
+        onConfirm={async (badgeId, action) => {
+          try {
+            if (action === "archive") {
+              await archiveBadge(badgeId);
+            } else {
+              await deactivateBadge(badgeId);
+            }
+            handleDeactivateModalClose();
+          } catch {
+            // Error already handled by hook
+          }
         }}
         onCancel={handleDeactivateModalClose}
       />
+
+      <ImportCatalogModal isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} onSuccess={refetch} />
     </div>
   );
 }
@@ -86,6 +86,7 @@ export function CatalogFilterBar({ filters, onFilterChange, resultCount, isAdmin
               <TabsTrigger value="all">All</TabsTrigger>
               <TabsTrigger value="active">Active</TabsTrigger>
               <TabsTrigger value="inactive">Inactive</TabsTrigger>
+              <TabsTrigger value="archived">Archived</TabsTrigger>
             </TabsList>
           </Tabs>
         </div>
@@ -1,13 +1,13 @@
 /**
  * CatalogPageHeader Component
  *
- * Page header with breadcrumb navigation and conditional "Create Badge" button for admins
+ * Page header with breadcrumb navigation and admin-only "Create Badge", CSV import and export actions
  */
 
 import { Button } from "@/components/ui/button";
 import type { CatalogPageHeaderProps } from "@/types";
 
-export function CatalogPageHeader({ title, isAdmin, onCreateClick }: CatalogPageHeaderProps) {
+export function CatalogPageHeader({ title, isAdmin, onCreateClick, onImportClick }: CatalogPageHeaderProps) {
   return (
     <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
       <div>
@@ -24,11 +24,23 @@ export function CatalogPageHeader({ title, isAdmin, onCreateClick }: CatalogPage
         <h1 className="text-3xl font-bold text-foreground">{title}</h1>
       </div>
 
-      {/* Create Badge Button (Admin Only) */}
+      {/* Admin Actions: CSV import/export and Create Badge */}
       {isAdmin && (
-        <Button onClick={onCreateClick} size="default">
-          Create Badge
-        </Button>
+        <div className="flex flex-wrap gap-2">
+          <Button asChild variant="outline" size="default">
+            <a href="/api/catalog-badges/export" download>
+              Export CSV
+            </a>
+          </Button>
+          {onImportClick && (
+            <Button onClick={onImportClick} variant="outline" size="default">
+              Import CSV
+            </Button>
+          )}
+          <Button onClick={onCreateClick} size="default">
+            Create Badge
+          </Button>
+        </div>
       )}
     </div>
   );
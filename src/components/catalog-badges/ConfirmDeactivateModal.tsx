@@ -1,11 +1,12 @@
 /**
  * ConfirmDeactivateModal Component
  *
- * Confirmation dialog for deactivating badges.
- * Shows warning and requires explicit confirmation.
+ * Confirmation dialog for deactivating or archiving badges.
+ * Loads the impact report (open applications and draft promotions that
+ * reference the badge) and requires explicit confirmation.
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   AlertDialog,
   AlertDialogContent,
@@ -16,35 +17,161 @@ import {
   AlertDialogCancel,
   AlertDialogAction,
 } from "@/components/ui/alert-dialog";
-import type { ConfirmDeactivateModalProps } from "@/types";
+import type { ApiError, CatalogBadgeImpactDto, ConfirmDeactivateModalProps } from "@/types";
+
+type RetireAction = "deactivate" | "archive";
+
+// Number of affected items listed before collapsing into a "+N more" line
+const MAX_LISTED_ITEMS = 5;
 
 export function ConfirmDeactivateModal({ isOpen, badge, onConfirm, onCancel }: ConfirmDeactivateModalProps) {
   const [isConfirming, setIsConfirming] = useState(false);
+  const [action, setAction] = useState<RetireAction>("deactivate");
+  const [impact, setImpact] = useState<CatalogBadgeImpactDto | null>(null);
+  const [impactError, setImpactError] = useState<string | null>(null);
+
+  const isInactive = badge?.status === "inactive";
+
+  // Load the impact report whenever the dialog opens for a badge
+  useEffect(() => {
+    if (!isOpen || !badge) return;
+
+    let cancelled = false;
+    setImpact(null);
+    setImpactError(null);
+    setAction(badge.status === "inactive" ? "archive" : "deactivate");
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/catalog-badges/${badge.id}/impact`);
+        if (!response.ok) {
+          const errorData: ApiError = await response.json();
+          throw new Error(errorData.message || "Failed to load impact report");
+        }
+        const data: CatalogBadgeImpactDto = await response.json();
+        if (!cancelled) setImpact(data);
+      } catch (err) {
+        if (!cancelled) setImpactError(err instanceof Error ? err.message : "Failed to load impact report");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, badge]);
 
   const handleConfirm = async () => {
     if (!badge) return;
 
     setIsConfirming(true);
     try {
-      await onConfirm(badge.id);
+      await onConfirm(badge.id, action);
     } finally {
       setIsConfirming(false);
     }
   };
 
+  const actionLabel = action === "archive" ? "Archive" : "Deactivate";
+
   return (
     <AlertDialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
       <AlertDialogContent>
         <AlertDialogHeader>
-          <AlertDialogTitle>Deactivate Badge?</AlertDialogTitle>
-          <AlertDialogDescription className="space-y-2">
-            <p>
-              Are you sure you want to deactivate <span className="font-semibold">{badge?.title}</span>?
-            </p>
-            <p className="text-muted-foreground">
-              This badge will no longer be available for new applications. Existing applications using this badge will
-              not be affected.
-            </p>
+          <AlertDialogTitle>{actionLabel} Badge?</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-3 text-sm text-muted-foreground">
+              <p className="text-foreground">
+                Are you sure you want to {action} <span className="font-semibold">{badge?.title}</span>?
+              </p>
+
+              {/* Action choice */}
+              <fieldset className="space-y-2">
+                {!isInactive && (
+                  <label className="flex items-start gap-2">
+                    <input
+                      type="radio"
+                      name="retire-action"
+                      checked={action === "deactivate"}
+                      onChange={() => setAction("deactivate")}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-medium text-foreground">Deactivate</span> - hide from new applications. Can
+                      be reactivated later.
+                    </span>
+                  </label>
+                )}
+                <label className="flex items-start gap-2">
+                  <input
+                    type="radio"
+                    name="retire-action"
+                    checked={action === "archive"}
+                    onChange={() => setAction("archive")}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium text-foreground">Archive</span> - retire permanently. The badge can no
+                    longer be edited or reactivated.
+                  </span>
+                </label>
+              </fieldset>
+
+              {/* Impact report */}
+              <div className="rounded-md border border-border p-3 space-y-2">
+                <p className="font-medium text-foreground">Impact</p>
+                {impactError ? (
+                  <p className="text-destructive">{impactError}</p>
+                ) : !impact ? (
+                  <p>Checking open applications and draft promotions...</p>
+                ) : impact.open_applications.length === 0 && impact.draft_promotions.length === 0 ? (
+                  <p>No open applications or draft promotions use this badge.</p>
+                ) : (
+                  <>
+                    {impact.open_applications.length > 0 && (
+                      <div>
+                        <p>
+                          {impact.open_applications.length} open application
+                          {impact.open_applications.length === 1 ? "" : "s"} (drafts can no longer be submitted):
+                        </p>
+                        <ul className="list-disc pl-5">
+                          {impact.open_applications.slice(0, MAX_LISTED_ITEMS).map((app) => (
+                            <li key={app.id}>
+                              <a href={`/applications/${app.id}`} className="underline hover:no-underline">
+                                {app.applicant?.display_name ?? "Unknown applicant"}
+                              </a>{" "}
+                              ({app.status})
+                            </li>
+                          ))}
+                          {impact.open_applications.length > MAX_LISTED_ITEMS && (
+                            <li>+{impact.open_applications.length - MAX_LISTED_ITEMS} more</li>
+                          )}
+                        </ul>
+                      </div>
+                    )}
+                    {impact.draft_promotions.length > 0 && (
+                      <div>
+                        <p>
+                          {impact.draft_promotions.length} draft promotion
+                          {impact.draft_promotions.length === 1 ? "" : "s"} include this badge:
+                        </p>
+                        <ul className="list-disc pl-5">
+                          {impact.draft_promotions.slice(0, MAX_LISTED_ITEMS).map((promotion) => (
+                            <li key={promotion.id}>
+                              <a href={`/promotions/${promotion.id}`} className="underline hover:no-underline">
+                                {promotion.path} {promotion.from_level} → {promotion.to_level}
+                              </a>
+                            </li>
+                          ))}
+                          {impact.draft_promotions.length > MAX_LISTED_ITEMS && (
+                            <li>+{impact.draft_promotions.length - MAX_LISTED_ITEMS} more</li>
+                          )}
+                        </ul>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
@@ -56,7 +183,7 @@ export function ConfirmDeactivateModal({ isOpen, badge, onConfirm, onCancel }: C
             disabled={isConfirming}
             className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
           >
-            {isConfirming ? "Deactivating..." : "Deactivate"}
+            {isConfirming ? (action === "archive" ? "Archiving..." : "Deactivating...") : actionLabel}
           </AlertDialogAction>
         </AlertDialogFooter>
       </AlertDialogContent>
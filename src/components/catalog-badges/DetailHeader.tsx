@@ -4,23 +4,26 @@
  * Displays the badge detail page header with:
  * - Back link to catalog
  * - Badge title
- * - Active/Inactive status pill
+ * - Active/Inactive/Archived status pill
  * - Primary Apply button
  */
 
 import { ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import type { CatalogBadgeStatusType } from "@/types";
 
 interface DetailHeaderProps {
   title: string;
   active: boolean;
+  status?: CatalogBadgeStatusType;
   badgeId: string;
   onApply?: () => void;
 }
 
 export function DetailHeader(props: DetailHeaderProps) {
-  const { title, active, badgeId, onApply } = props;
+  const { title, active, status, badgeId, onApply } = props;
+  const statusLabel = active ? "Active" : status === "archived" ? "Archived" : "Inactive";
 
   const handleApply = () => {
     if (onApply) {
@@ -47,7 +50,7 @@ export function DetailHeader(props: DetailHeaderProps) {
           <div className="flex flex-col sm:flex-row sm:items-center gap-3">
             <h1 className="text-3xl font-bold tracking-tight">{title}</h1>
             <Badge variant={active ? "default" : "secondary"} className="w-fit">
-              {active ? "Active" : "Inactive"}
+              {statusLabel}
             </Badge>
           </div>
 
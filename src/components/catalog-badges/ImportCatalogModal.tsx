@@ -0,0 +1,201 @@
+/**
+ * ImportCatalogModal Component
+ *
+ * Modal dialog for bulk-importing catalog badges from CSV.
+ * Runs a dry run first and shows the per-row report (errors and duplicates);
+ * the import can only be committed once every row is valid.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { ApiError, CatalogBadgeImportReportDto, ImportCatalogModalProps, ImportRowResult } from "@/types";
+
+const ROW_STATUS_STYLES: Record<ImportRowResult["status"], string> = {
+  valid: "text-green-700 dark:text-green-400",
+  invalid: "text-destructive",
+  duplicate: "text-muted-foreground",
+};
+
+/**
+ * Describes why a row was skipped as a duplicate
+ */
+function describeDuplicate(row: ImportRowResult): string {
+  if (row.duplicate_of?.id) return "Already in the catalog";
+  if (row.duplicate_of?.row) return `Same as row ${row.duplicate_of.row}`;
+  return "Duplicate";
+}
+
+export function ImportCatalogModal({ isOpen, onClose, onSuccess }: ImportCatalogModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<string | null>(null);
+  const [report, setReport] = useState<CatalogBadgeImportReportDto | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset state whenever the dialog is (re)opened
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null);
+      setCsv(null);
+      setReport(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  /**
+   * Sends the CSV to the import endpoint
+   */
+  const runImport = async (content: string, dryRun: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/catalog-badges/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv: content, dry_run: dryRun }),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        const details = errorData.details as { report?: CatalogBadgeImportReportDto } | undefined;
+        if (details?.report) {
+          setReport(details.report);
+        }
+        throw new Error(errorData.message || "Failed to import badges");
+      }
+
+      const data: CatalogBadgeImportReportDto = await response.json();
+      setReport(data);
+
+      if (data.committed) {
+        await onSuccess();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Reads the selected file and runs a dry run
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setReport(null);
+    const content = await file.text();
+    setCsv(content);
+    await runImport(content, true);
+  };
+
+  const canCommit =
+    !!csv && !!report && !report.committed && report.invalid_rows === 0 && report.valid_rows > 0 && !isSubmitting;
+  const listedRows = report?.rows.filter((row) => row.status !== "valid") ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Import Badges from CSV</DialogTitle>
+          <DialogDescription>
+            Use the same columns as the catalog export. Title, category and level are required; rows are checked before
+            anything is imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* File picker */}
+          <div className="space-y-2">
+            <label htmlFor="catalog-csv" className="text-sm font-medium text-foreground">
+              CSV file
+            </label>
+            <input
+              id="catalog-csv"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              disabled={isSubmitting}
+              className="block w-full text-sm text-muted-foreground file:mr-4 file:rounded-md file:border-0 file:bg-secondary file:px-4 file:py-2 file:text-sm file:font-medium file:text-secondary-foreground"
+            />
+            {fileName && <p className="text-xs text-muted-foreground">{fileName}</p>}
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          {/* Report */}
+          {report && (
+            <div className="rounded-md border border-border p-3 space-y-3 text-sm">
+              <p className="font-medium text-foreground">
+                {report.committed
+                  ? `Imported ${report.imported_ids.length} badge${report.imported_ids.length === 1 ? "" : "s"}`
+                  : "Dry run"}
+              </p>
+              <ul className="flex flex-wrap gap-4 text-muted-foreground">
+                <li>{report.total_rows} rows</li>
+                <li className={ROW_STATUS_STYLES.valid}>{report.valid_rows} valid</li>
+                <li className={ROW_STATUS_STYLES.invalid}>{report.invalid_rows} invalid</li>
+                <li>{report.duplicate_rows} duplicates (skipped)</li>
+              </ul>
+
+              {listedRows.length > 0 && (
+                <div className="max-h-64 overflow-y-auto">
+                  <table className="w-full text-left">
+                    <thead className="text-xs uppercase text-muted-foreground">
+                      <tr>
+                        <th className="py-1 pr-2">Row</th>
+                        <th className="py-1 pr-2">Title</th>
+                        <th className="py-1">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {listedRows.map((row) => (
+                        <tr key={row.row} className="border-t border-border align-top">
+                          <td className="py-1 pr-2">{row.row}</td>
+                          <td className="py-1 pr-2">{row.label ?? "—"}</td>
+                          <td className={`py-1 ${ROW_STATUS_STYLES[row.status]}`}>
+                            {row.status === "duplicate"
+                              ? describeDuplicate(row)
+                              : row.errors.map((err) => `${err.field}: ${err.message}`).join("; ")}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            {report?.committed ? "Close" : "Cancel"}
+          </Button>
+          {!report?.committed && (
+            <Button type="button" onClick={() => csv && runImport(csv, false)} disabled={!canCommit}>
+              {isSubmitting
+                ? "Working..."
+                : `Import ${report?.valid_rows ?? 0} badge${report?.valid_rows === 1 ? "" : "s"}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
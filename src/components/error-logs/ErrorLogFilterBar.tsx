@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import type { ErrorLogFilterBarProps } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { X, ArrowUpDown, Search } from "lucide-react";
+
+/**
+ * ErrorLogFilterBar Component
+ *
+ * Filtering interface for the error log browser: route, error code and request ID
+ * (applied on submit), date range and sort order.
+ */
+export function ErrorLogFilterBar(props: ErrorLogFilterBarProps) {
+  const { filters, onFilterChange, resultCount, hasActiveFilters } = props;
+
+  // Text filters are edited locally and applied together, so typing does not refetch
+  const [route, setRoute] = useState(filters.route ?? "");
+  const [errorCode, setErrorCode] = useState(filters.error_code ?? "");
+  const [requestId, setRequestId] = useState(filters.request_id ?? "");
+
+  // Keep the inputs in sync when filters change elsewhere (table clicks, clear)
+  const [appliedFilters, setAppliedFilters] = useState(filters);
+  if (appliedFilters !== filters) {
+    setAppliedFilters(filters);
+    setRoute(filters.route ?? "");
+    setErrorCode(filters.error_code ?? "");
+    setRequestId(filters.request_id ?? "");
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onFilterChange({
+      route: route.trim() || undefined,
+      error_code: errorCode.trim() || undefined,
+      request_id: requestId.trim() || undefined,
+    });
+  };
+
+  const handleClearFilters = () => {
+    onFilterChange({
+      route: undefined,
+      error_code: undefined,
+      request_id: undefined,
+      from: undefined,
+      to: undefined,
+      order: "desc",
+      offset: 0,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <form className="flex items-end gap-2 flex-wrap" onSubmit={handleSubmit}>
+        <Input
+          value={route}
+          onChange={(e) => setRoute(e.target.value)}
+          placeholder="Route (e.g. /api/promotions)"
+          className="w-64"
+          aria-label="Route"
+        />
+        <Input
+          value={errorCode}
+          onChange={(e) => setErrorCode(e.target.value)}
+          placeholder="Error code"
+          className="w-44"
+          aria-label="Error code"
+        />
+        <Input
+          value={requestId}
+          onChange={(e) => setRequestId(e.target.value)}
+          placeholder="Request ID"
+          className="w-72 font-mono"
+          aria-label="Request ID"
+        />
+        <Button type="submit" variant="outline" size="sm" className="h-9 px-3">
+          <Search className="h-4 w-4 mr-2" />
+          Search
+        </Button>
+
+        <Input
+          type="date"
+          value={filters.from ?? ""}
+          onChange={(e) => onFilterChange({ from: e.target.value || undefined })}
+          className="w-auto"
+          aria-label="From date"
+        />
+        <Input
+          type="date"
+          value={filters.to ?? ""}
+          onChange={(e) => onFilterChange({ to: e.target.value || undefined })}
+          className="w-auto"
+          aria-label="To date"
+        />
+
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onFilterChange({ order: filters.order === "asc" ? "desc" : "asc" })}
+          className="h-9 px-3"
+          aria-label={`Sort ${filters.order === "asc" ? "ascending" : "descending"}`}
+        >
+          <ArrowUpDown className="h-4 w-4 mr-2" />
+          {filters.order === "asc" ? "Oldest" : "Newest"}
+        </Button>
+      </form>
+
+      {/* Result Count and Clear Filters */}
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <div>
+          <span className="font-medium text-foreground">{resultCount}</span>
+          {resultCount === 1 ? " error" : " errors"}
+        </div>
+
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={handleClearFilters} className="h-8 px-2 text-xs">
+            <X className="h-3 w-3 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import React from "react";
+import type { ErrorLogTableProps } from "@/types";
+
+/**
+ * ErrorLogTable Component
+ *
+ * Displays error log entries as a table (time, route, status, error, requester,
+ * request ID, details). Clicking a route, error code or request ID narrows the list.
+ */
+export function ErrorLogTable(props: ErrorLogTableProps) {
+  const { entries, isLoading, onRouteClick, onErrorCodeClick, onRequestIdClick } = props;
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg border border-border bg-card p-8 text-center">
+        <div className="animate-pulse space-y-4">
+          <div className="h-10 bg-muted rounded" />
+          <div className="h-10 bg-muted rounded" />
+          <div className="h-10 bg-muted rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="rounded-lg border border-border bg-card p-8 text-center">
+        <p className="text-muted-foreground">No errors match the current filters</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-border bg-card">
+      <table className="w-full text-sm">
+        <thead className="border-b border-border bg-muted/50 text-left text-xs uppercase text-muted-foreground">
+          <tr>
+            <th className="px-4 py-2 font-medium">Time</th>
+            <th className="px-4 py-2 font-medium">Route</th>
+            <th className="px-4 py-2 font-medium">Error</th>
+            <th className="px-4 py-2 font-medium">Requester</th>
+            <th className="px-4 py-2 font-medium">Request ID</th>
+            <th className="px-4 py-2 font-medium">Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.id} className="border-b border-border last:border-0 align-top">
+              <td className="px-4 py-2 whitespace-nowrap text-muted-foreground">
+                {new Date(entry.created_at).toLocaleString()}
+              </td>
+              <td className="px-4 py-2 font-mono text-xs">
+                {entry.method && <span className="text-muted-foreground mr-1">{entry.method}</span>}
+                <button onClick={() => onRouteClick?.(entry.route)} className="text-left hover:underline">
+                  {entry.route}
+                </button>
+                {entry.status !== null && <span className="text-destructive ml-1">{entry.status}</span>}
+              </td>
+              <td className="px-4 py-2">
+                <button
+                  onClick={() => onErrorCodeClick?.(entry.error_code)}
+                  className="text-left font-mono text-xs hover:underline"
+                >
+                  {entry.error_code}
+                </button>
+                <p className="text-xs text-muted-foreground">{entry.message}</p>
+              </td>
+              <td className="px-4 py-2">
+                {entry.requester ? (
+                  <span title={entry.requester.email}>{entry.requester.display_name}</span>
+                ) : (
+                  <span className="text-muted-foreground">Anonymous</span>
+                )}
+              </td>
+              <td className="px-4 py-2">
+                {entry.request_id ? (
+                  <button
+                    onClick={() => onRequestIdClick?.(entry.request_id ?? "")}
+                    className="text-left font-mono text-xs hover:underline"
+                    title={entry.request_id}
+                  >
+                    {entry.request_id.substring(0, 8)}
+                  </button>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </td>
+              <td className="px-4 py-2">
+                {entry.payload !== null && (
+                  <pre className="max-w-md whitespace-pre-wrap break-all font-mono text-xs text-muted-foreground">
+                    {JSON.stringify(entry.payload)}
+                  </pre>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useCallback } from "react";
+import type { ErrorLogViewProps } from "@/types";
+import { useErrorLogs } from "@/hooks/useErrorLogs";
+import { Pagination } from "@/components/audit-logs/Pagination";
+import { ErrorLogFilterBar } from "./ErrorLogFilterBar";
+import { ErrorLogTable } from "./ErrorLogTable";
+
+/**
+ * ErrorLogView Component
+ *
+ * Main interactive component for the admin error log browser. Lists server errors
+ * recorded by the API with filtering by route, error code, request ID and date range.
+ */
+export function ErrorLogView(props: ErrorLogViewProps) {
+  const { initialData } = props;
+
+  const { entries, pagination, filters, isLoading, error, updateFilters, goToPage, refetch } = useErrorLogs({
+    initialData,
+  });
+
+  const handleRouteClick = useCallback(
+    (route: string) => {
+      updateFilters({ route });
+    },
+    [updateFilters]
+  );
+
+  const handleErrorCodeClick = useCallback(
+    (errorCode: string) => {
+      updateFilters({ error_code: errorCode });
+    },
+    [updateFilters]
+  );
+
+  const handleRequestIdClick = useCallback(
+    (requestId: string) => {
+      updateFilters({ request_id: requestId });
+    },
+    [updateFilters]
+  );
+
+  const hasActiveFilters = !!(filters.route || filters.error_code || filters.request_id || filters.from || filters.to);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Error Log</h1>
+        <p className="text-muted-foreground mt-1">Server errors by route, error code and request ID</p>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4">
+          <p className="text-sm font-medium text-destructive">Error loading error logs</p>
+          <p className="text-sm text-destructive/80">{error}</p>
+          <button
+            onClick={() => refetch()}
+            className="mt-2 text-sm font-medium text-destructive underline hover:no-underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      <ErrorLogFilterBar
+        filters={filters}
+        onFilterChange={updateFilters}
+        resultCount={pagination.total}
+        hasActiveFilters={hasActiveFilters}
+      />
+
+      <ErrorLogTable
+        entries={entries}
+        isLoading={isLoading}
+        onRouteClick={handleRouteClick}
+        onErrorCodeClick={handleErrorCodeClick}
+        onRequestIdClick={handleRequestIdClick}
+      />
+
+      {pagination.total > 0 && <Pagination pagination={pagination} onPageChange={goToPage} />}
+    </div>
+  );
+}
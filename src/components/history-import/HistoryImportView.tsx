@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { ApiError, HistoryImportReportDto, ImportRowResult } from "@/types";
+
+/**
+ * Columns understood by the importer, shown as a reference next to the upload
+ */
+const CSV_COLUMNS: { name: string; description: string }[] = [
+  { name: "applicant_email", description: "User who earned the badge (required)" },
+  { name: "badge_id / badge_title", description: "Catalog badge, by id or unique title (one required)" },
+  { name: "date_of_application", description: "YYYY-MM-DD (required)" },
+  { name: "date_of_fulfillment", description: "YYYY-MM-DD" },
+  { name: "reviewer_email", description: "Admin who accepted the badge (required)" },
+  { name: "accepted_at", description: "Review date; defaults to the fulfillment or application date" },
+  { name: "reason", description: "Justification text" },
+  { name: "promotion_ref", description: "Any label; rows sharing it form one historical promotion" },
+  {
+    name: "promotion_path, promotion_from_level, promotion_to_level, promotion_approved_at",
+    description: "Required with promotion_ref; must match an existing template",
+  },
+  { name: "promotion_approver_email", description: "Admin who approved the promotion" },
+];
+
+const ROW_STATUS_STYLES: Record<ImportRowResult["status"], string> = {
+  valid: "text-green-700 dark:text-green-400",
+  invalid: "text-destructive",
+  duplicate: "text-muted-foreground",
+};
+
+/**
+ * Describes why a row was skipped as a duplicate
+ */
+function describeDuplicate(row: ImportRowResult): string {
+  if (row.duplicate_of?.id) return "Badge already recorded for this user";
+  if (row.duplicate_of?.row) return `Same as row ${row.duplicate_of.row}`;
+  return "Duplicate";
+}
+
+/**
+ * HistoryImportView Component
+ *
+ * Admin tool for backfilling already-earned badges and approved promotions from a
+ * spreadsheet export. Uploading a file runs a dry run; the import is committed only
+ * after the report shows no invalid rows.
+ */
+export function HistoryImportView() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<string | null>(null);
+  const [report, setReport] = useState<HistoryImportReportDto | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Sends the CSV to the history import endpoint
+   */
+  const runImport = async (content: string, dryRun: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/history-import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv: content, dry_run: dryRun }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = "/login?return=/admin/history-import";
+          return;
+        }
+
+        const errorData: ApiError = await response.json();
+        const details = errorData.details as { report?: HistoryImportReportDto } | undefined;
+        if (details?.report) {
+          setReport(details.report);
+        }
+        throw new Error(errorData.message || "Failed to import history");
+      }
+
+      const data: HistoryImportReportDto = await response.json();
+      setReport(data);
+
+      if (data.committed) {
+        toast.success("History imported", {
+          description: `${data.imported_application_ids.length} badges and ${data.imported_promotion_ids.length} promotions created`,
+        });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Reads the selected file and runs a dry run
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setReport(null);
+    const content = await file.text();
+    setCsv(content);
+    await runImport(content, true);
+  };
+
+  const canCommit =
+    !!csv && !!report && !report.committed && report.invalid_rows === 0 && report.valid_rows > 0 && !isSubmitting;
+  const listedRows = report?.rows.filter((row) => row.status !== "valid") ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Import History</h1>
+        <p className="text-muted-foreground mt-1">
+          Backfill badges and promotions that were earned before Badger. Imported records are marked in the audit log.
+        </p>
+      </div>
+
+      {/* Upload */}
+      <div className="rounded-lg border border-border bg-card p-6 space-y-4">
+        <div className="space-y-2">
+          <label htmlFor="history-csv" className="text-sm font-medium text-foreground">
+            CSV file (one row per earned badge)
+          </label>
+          <input
+            id="history-csv"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            disabled={isSubmitting}
+            className="block w-full text-sm text-muted-foreground file:mr-4 file:rounded-md file:border-0 file:bg-secondary file:px-4 file:py-2 file:text-sm file:font-medium file:text-secondary-foreground"
+          />
+          {fileName && <p className="text-xs text-muted-foreground">{fileName}</p>}
+        </div>
+
+        <details className="text-sm">
+          <summary className="cursor-pointer font-medium text-foreground">Expected columns</summary>
+          <dl className="mt-2 grid grid-cols-1 gap-x-4 gap-y-1 sm:grid-cols-[max-content_1fr]">
+            {CSV_COLUMNS.map((column) => (
+              <div key={column.name} className="contents">
+                <dt className="font-mono text-xs text-foreground">{column.name}</dt>
+                <dd className="text-muted-foreground">{column.description}</dd>
+              </div>
+            ))}
+          </dl>
+        </details>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4" role="alert">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      {/* Report */}
+      {report && (
+        <div className="rounded-lg border border-border bg-card p-6 space-y-4 text-sm">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <p className="font-medium text-foreground">{report.committed ? "Import complete" : "Dry run"}</p>
+              <ul className="mt-1 flex flex-wrap gap-4 text-muted-foreground">
+                <li>{report.total_rows} rows</li>
+                <li className={ROW_STATUS_STYLES.valid}>{report.valid_rows} valid</li>
+                <li className={ROW_STATUS_STYLES.invalid}>{report.invalid_rows} invalid</li>
+                <li>{report.duplicate_rows} duplicates (skipped)</li>
+                <li>{report.promotion_count} promotions</li>
+              </ul>
+            </div>
+
+            {report.committed ? (
+              <Button asChild variant="outline">
+                <a href="/admin/audit-logs?event_type=badge_application.imported">View in audit log</a>
+              </Button>
+            ) : (
+              <Button onClick={() => csv && runImport(csv, false)} disabled={!canCommit}>
+                {isSubmitting ? "Importing..." : `Import ${report.valid_rows} badges`}
+              </Button>
+            )}
+          </div>
+
+          {listedRows.length > 0 && (
+            <div className="max-h-96 overflow-y-auto">
+              <table className="w-full text-left">
+                <thead className="text-xs uppercase text-muted-foreground">
+                  <tr>
+                    <th className="py-1 pr-2">Row</th>
+                    <th className="py-1 pr-2">Badge</th>
+                    <th className="py-1">Problem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {listedRows.map((row) => (
+                    <tr key={row.row} className="border-t border-border align-top">
+                      <td className="py-1 pr-2">{row.row}</td>
+                      <td className="py-1 pr-2">{row.label ?? "—"}</td>
+                      <td className={`py-1 ${ROW_STATUS_STYLES[row.status]}`}>
+                        {row.status === "duplicate"
+                          ? describeDuplicate(row)
+                          : row.errors.map((err) => `${err.field}: ${err.message}`).join("; ")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
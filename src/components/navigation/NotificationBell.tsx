@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState } from "react";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { NotificationDto, NotificationListResponse } from "@/types";
+
+/**
+ * How often the unread count is refreshed while the page is open
+ */
+const POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Formats a timestamp relative to now ("5m ago", "3h ago", "2d ago")
+ */
+export function timeAgo(timestamp: string): string {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * NotificationBell Component
+ *
+ * Bell button with an unread badge that opens the latest in-app notifications.
+ * Opening a notification marks it as read and follows its link.
+ */
+export function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<NotificationDto[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications?limit=10");
+      if (!response.ok) return;
+      const data: NotificationListResponse = await response.json();
+      setNotifications(data.data);
+      setUnreadCount(data.unread_count);
+    } catch {
+      // Keep the last known state; the next poll retries
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = window.setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const handleToggle = async () => {
+    const next = !isOpen;
+    setIsOpen(next);
+    if (next) {
+      setIsLoading(true);
+      await fetchNotifications();
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Marks the given notifications (or all when omitted) as read
+   */
+  const markAsRead = async (ids?: string[]) => {
+    const response = await fetch("/api/notifications/read", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(ids ? { ids } : {}),
+      // Opening a notification navigates away; let the request finish anyway
+      keepalive: true,
+    });
+    if (!response.ok) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((item) => (!ids || ids.includes(item.id) ? { ...item, read_at: item.read_at ?? readAt } : item))
+    );
+    setUnreadCount((count) => (ids ? Math.max(0, count - ids.length) : 0));
+  };
+
+  const handleOpenNotification = (notification: NotificationDto) => {
+    if (!notification.read_at) {
+      markAsRead([notification.id]);
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleToggle}
+        className="relative size-9 rounded-full"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <Bell className="size-5" aria-hidden="true" />
+        {unreadCount > 0 && (
+          <span className="bg-destructive text-destructive-foreground absolute -right-0.5 -top-0.5 flex min-w-4 items-center justify-center rounded-full px-1 text-[10px] font-semibold leading-4">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} aria-hidden="true" />
+
+          <div
+            className="bg-card border-border absolute right-0 top-full z-50 mt-2 w-80 rounded-lg border shadow-lg"
+            role="menu"
+            aria-orientation="vertical"
+          >
+            <div className="border-border flex items-center justify-between border-b px-4 py-3">
+              <p className="text-foreground text-sm font-medium">Notifications</p>
+              {unreadCount > 0 && (
+                <button className="text-primary text-xs hover:underline" onClick={() => markAsRead()}>
+                  Mark all as read
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto py-1">
+              {notifications.length === 0 ? (
+                <p className="text-muted-foreground px-4 py-6 text-center text-sm">
+                  {isLoading ? "Loading..." : "You're all caught up"}
+                </p>
+              ) : (
+                notifications.map((notification) => (
+                  <a
+                    key={notification.id}
+                    href={notification.link ?? "#"}
+                    className="hover:bg-accent flex w-full gap-3 px-4 py-2 text-left transition-colors"
+                    role="menuitem"
+                    onClick={() => handleOpenNotification(notification)}
+                  >
+                    <span
+                      className={`mt-1.5 size-2 shrink-0 rounded-full ${notification.read_at ? "bg-transparent" : "bg-primary"}`}
+                      aria-hidden="true"
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className="text-foreground block truncate text-sm font-medium">{notification.title}</span>
+                      {notification.body && (
+                        <span className="text-muted-foreground line-clamp-2 block text-xs">{notification.body}</span>
+                      )}
+                      <span className="text-muted-foreground block text-xs">{timeAgo(notification.created_at)}</span>
+                    </span>
+                  </a>
+                ))
+              )}
+            </div>
+
+            <div className="border-border border-t">
+              <a
+                href="/settings/notifications"
+                className="text-muted-foreground hover:bg-accent block px-4 py-2 text-xs transition-colors"
+                role="menuitem"
+              >
+                Notification settings
+              </a>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { Monitor } from "lucide-react";
+import type { UserSessionDto } from "@/types";
+import { timeAgo } from "./NotificationBell";
+
+/**
+ * SessionsSection Component
+ *
+ * Lists the devices the user is signed in on (loaded when the user menu opens)
+ * and lets them sign out of every device except this one.
+ */
+export function SessionsSection() {
+  const [sessions, setSessions] = useState<UserSessionDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch("/api/auth/sessions");
+        if (!response.ok) throw new Error("Failed to load sessions");
+        setSessions(await response.json());
+      } catch {
+        setError("Could not load sessions");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchSessions();
+  }, []);
+
+  const handleSignOutOthers = async () => {
+    setIsRevoking(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/sessions", { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to sign out other sessions");
+      setSessions((current) => current.filter((session) => session.current));
+    } catch {
+      setError("Could not sign out other sessions");
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <div className="py-1">
+      <p className="text-muted-foreground px-4 py-1 text-xs font-medium">Sessions</p>
+
+      {isLoading ? (
+        <p className="text-muted-foreground px-4 py-2 text-xs">Loading...</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-start gap-3 px-4 py-1.5">
+              <Monitor className="text-muted-foreground mt-0.5 size-4 shrink-0" aria-hidden="true" />
+              <span className="min-w-0 flex-1">
+                <span className="text-foreground block truncate text-sm" title={session.user_agent ?? undefined}>
+                  {session.device}
+                </span>
+                <span className="text-muted-foreground block text-xs">
+                  {session.current ? "This device" : `Last active ${timeAgo(session.last_seen_at)}`}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-destructive px-4 py-1 text-xs">{error}</p>}
+
+      {hasOtherSessions && (
+        <button
+          className="text-primary px-4 py-1 text-xs hover:underline disabled:opacity-50"
+          onClick={handleSignOutOthers}
+          disabled={isRevoking}
+        >
+          {isRevoking ? "Signing out..." : "Sign out other sessions"}
+        </button>
+      )}
+    </div>
+  );
+}
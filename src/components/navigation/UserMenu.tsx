@@ -1,7 +1,21 @@
 import { useState } from "react";
-import { User, Settings, LogOut, Shield } from "lucide-react";
+import {
+  User,
+  Settings,
+  LogOut,
+  Shield,
+  ScrollText,
+  History,
+  Bug,
+  Users,
+  TrendingUp,
+  KeyRound,
+  Webhook,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { NotificationBell } from "./NotificationBell";
+import { SessionsSection } from "./SessionsSection";
 
 interface UserMenuProps {
   user: {
@@ -9,9 +23,11 @@ interface UserMenuProps {
     email: string;
     is_admin: boolean;
   };
+  // Reviewer role without admin rights: only the review queue is shown
+  canReview?: boolean;
 }
 
-export function UserMenu({ user }: UserMenuProps) {
+export function UserMenu({ user, canReview = false }: UserMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
 
   // Get initials from display name (with fallback to email)
@@ -31,104 +47,194 @@ export function UserMenu({ user }: UserMenuProps) {
   const initials = getInitials();
 
   return (
-    <div className="relative">
-      {/* User Avatar Button */}
-      <Button
-        variant="ghost"
-        size="icon"
-        onClick={() => setIsOpen(!isOpen)}
-        className="relative size-9 rounded-full"
-        aria-label="User menu"
-        aria-expanded={isOpen}
-        aria-haspopup="true"
-      >
-        <div className="bg-primary text-primary-foreground flex size-9 items-center justify-center rounded-full text-sm font-medium">
-          {initials}
-        </div>
-      </Button>
-
-      {/* Dropdown Menu */}
-      {isOpen && (
-        <>
-          {/* Backdrop */}
-          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} aria-hidden="true" />
-
-          {/* Menu Content */}
-          <div
-            className="bg-card border-border absolute right-0 top-full z-50 mt-2 w-64 rounded-lg border shadow-lg"
-            role="menu"
-            aria-orientation="vertical"
-          >
-            {/* User Info Section */}
-            <div className="border-border border-b px-4 py-3">
-              <p className="text-foreground truncate font-medium text-sm">{user.display_name || user.email}</p>
-              <p className="text-muted-foreground truncate text-xs">{user.email}</p>
-            </div>
+    <div className="flex items-center gap-1">
+      {/* Notifications */}
+      <NotificationBell />
+
+      <div className="relative">
+        {/* User Avatar Button */}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsOpen(!isOpen)}
+          className="relative size-9 rounded-full"
+          aria-label="User menu"
+          aria-expanded={isOpen}
+          aria-haspopup="true"
+        >
+          <div className="bg-primary text-primary-foreground flex size-9 items-center justify-center rounded-full text-sm font-medium">
+            {initials}
+          </div>
+        </Button>
+
+        {/* Dropdown Menu */}
+        {isOpen && (
+          <>
+            {/* Backdrop */}
+            <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} aria-hidden="true" />
 
-            {/* Menu Items */}
-            <div className="py-1">
-              <a
-                href="/"
-                className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
-                role="menuitem"
-                onClick={() => setIsOpen(false)}
-              >
-                <User className="size-4" aria-hidden="true" />
-                <span>Dashboard</span>
-              </a>
-
-              {/* Settings (Future) */}
-              <button
-                className="text-muted-foreground hover:bg-accent flex w-full items-center gap-3 px-4 py-2 text-left text-sm transition-colors"
-                role="menuitem"
-                disabled
-                title="Coming soon"
-              >
-                <Settings className="size-4" aria-hidden="true" />
-                <span>Settings</span>
-              </button>
-
-              {/* Theme Toggle */}
-              <div className="hover:bg-accent flex items-center justify-between px-4 py-2 text-sm transition-colors">
-                <span>Theme</span>
-                <ThemeToggle />
+            {/* Menu Content */}
+            <div
+              className="bg-card border-border absolute right-0 top-full z-50 mt-2 w-64 rounded-lg border shadow-lg"
+              role="menu"
+              aria-orientation="vertical"
+            >
+              {/* User Info Section */}
+              <div className="border-border border-b px-4 py-3">
+                <p className="text-foreground truncate font-medium text-sm">{user.display_name || user.email}</p>
+                <p className="text-muted-foreground truncate text-xs">{user.email}</p>
               </div>
-            </div>
 
-            {/* Admin Section */}
-            {user.is_admin && (
-              <>
-                <div className="border-border border-t" />
-                <div className="py-1">
-                  <a
-                    href="/admin/review"
-                    className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
-                    role="menuitem"
-                    onClick={() => setIsOpen(false)}
-                  >
-                    <Shield className="size-4" aria-hidden="true" />
-                    <span>Admin Review</span>
-                  </a>
+              {/* Menu Items */}
+              <div className="py-1">
+                <a
+                  href="/"
+                  className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                  role="menuitem"
+                  onClick={() => setIsOpen(false)}
+                >
+                  <User className="size-4" aria-hidden="true" />
+                  <span>Dashboard</span>
+                </a>
+
+                <a
+                  href="/settings/notifications"
+                  className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                  role="menuitem"
+                  onClick={() => setIsOpen(false)}
+                >
+                  <Settings className="size-4" aria-hidden="true" />
+                  <span>Notification Settings</span>
+                </a>
+
+                <a
+                  href="/settings/api-tokens"
+                  className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                  role="menuitem"
+                  onClick={() => setIsOpen(false)}
+                >
+                  <KeyRound className="size-4" aria-hidden="true" />
+                  <span>API Tokens</span>
+                </a>
+
+                {/* Theme Toggle */}
+                <div className="hover:bg-accent flex items-center justify-between px-4 py-2 text-sm transition-colors">
+                  <span>Theme</span>
+                  <ThemeToggle />
                 </div>
-              </>
-            )}
-
-            {/* Sign Out */}
-            <div className="border-border border-t" />
-            <div className="py-1">
-              <a
-                href="/logout"
-                className="text-destructive hover:bg-destructive/10 flex items-center gap-3 px-4 py-2 text-sm transition-colors"
-                role="menuitem"
-                onClick={() => setIsOpen(false)}
-              >
-                <LogOut className="size-4" aria-hidden="true" />
-                <span>Sign Out</span>
-              </a>
+              </div>
+
+              {/* Reviewer Section */}
+              {!user.is_admin && canReview && (
+                <>
+                  <div className="border-border border-t" />
+                  <div className="py-1">
+                    <a
+                      href="/admin/review"
+                      className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                      role="menuitem"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      <Shield className="size-4" aria-hidden="true" />
+                      <span>Review Queue</span>
+                    </a>
+                  </div>
+                </>
+              )}
+
+              {/* Admin Section */}
+              {user.is_admin && (
+                <>
+                  <div className="border-border border-t" />
+                  <div className="py-1">
+                    <a
+                      href="/admin/review"
+                      className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                      role="menuitem"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      <Shield className="size-4" aria-hidden="true" />
+                      <span>Admin Review</span>
+                    </a>
+                    <a
+                      href="/admin/users"
+                      className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                      role="menuitem"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      <Users className="size-4" aria-hidden="true" />
+                      <span>User Management</span>
+                    </a>
+                    <a
+                      href="/admin/career-ladder"
+                      className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                      role="menuitem"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      <TrendingUp className="size-4" aria-hidden="true" />
+                      <span>Career Ladder</span>
+                    </a>
+                    <a
+                      href="/admin/audit-logs"
+                      className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                      role="menuitem"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      <ScrollText className="size-4" aria-hidden="true" />
+                      <span>Audit Log</span>
+                    </a>
+                    <a
+                      href="/admin/error-logs"
+                      className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                      role="menuitem"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      <Bug className="size-4" aria-hidden="true" />
+                      <span>Error Log</span>
+                    </a>
+                    <a
+                      href="/admin/history-import"
+                      className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                      role="menuitem"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      <History className="size-4" aria-hidden="true" />
+                      <span>Import History</span>
+                    </a>
+                    <a
+                      href="/admin/webhooks"
+                      className="hover:bg-accent flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                      role="menuitem"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      <Webhook className="size-4" aria-hidden="true" />
+                      <span>Webhooks</span>
+                    </a>
+                  </div>
+                </>
+              )}
+
+              {/* Sessions Section */}
+              <div className="border-border border-t" />
+              <SessionsSection />
+
+              {/* Sign Out */}
+              <div className="border-border border-t" />
+              <div className="py-1">
+                <a
+                  href="/logout"
+                  className="text-destructive hover:bg-destructive/10 flex items-center gap-3 px-4 py-2 text-sm transition-colors"
+                  role="menuitem"
+                  onClick={() => setIsOpen(false)}
+                >
+                  <LogOut className="size-4" aria-hidden="true" />
+                  <span>Sign Out</span>
+                </a>
+              </div>
             </div>
-          </div>
-        </>
-      )}
+          </>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,212 @@
+/**
+ * LadderSyncModal Component
+ *
+ * Previews syncing promotion templates from the career ladder: templates flagged by
+ * the consistency check and the changes a sync would make. Applies the changes on
+ * confirmation.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import type {
+  ApiError,
+  LadderSyncModalProps,
+  TemplateConsistencyReportDto,
+  TemplateSyncAction,
+  TemplateSyncResultDto,
+} from "@/types";
+
+const ACTION_LABELS: Record<TemplateSyncAction, string> = {
+  create: "Create",
+  update: "Update",
+  deactivate: "Deactivate",
+  unchanged: "Unchanged",
+};
+
+export function LadderSyncModal({ isOpen, onClose, onSynced }: LadderSyncModalProps) {
+  const [preview, setPreview] = useState<TemplateSyncResultDto | null>(null);
+  const [consistency, setConsistency] = useState<TemplateConsistencyReportDto | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  /**
+   * Fetch the consistency report and the planned changes (dry run)
+   */
+  const loadPreview = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [consistencyResponse, previewResponse] = await Promise.all([
+        fetch("/api/promotion-templates/consistency"),
+        fetch("/api/promotion-templates/sync", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ dry_run: true }),
+        }),
+      ]);
+
+      if (!consistencyResponse.ok || !previewResponse.ok) {
+        const errorData: ApiError = await (consistencyResponse.ok ? previewResponse : consistencyResponse).json();
+        throw new Error(errorData.message || "Failed to preview the sync");
+      }
+
+      setConsistency(await consistencyResponse.json());
+      setPreview(await previewResponse.json());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to preview the sync";
+      toast.error(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPreview();
+    } else {
+      setPreview(null);
+      setConsistency(null);
+    }
+  }, [isOpen, loadPreview]);
+
+  /**
+   * Apply the planned changes
+   */
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const response = await fetch("/api/promotion-templates/sync", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dry_run: false }),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to sync templates");
+      }
+
+      const result: TemplateSyncResultDto = await response.json();
+      toast.success(
+        `Templates synced: ${result.summary.create} created, ${result.summary.update} updated, ${result.summary.deactivate} deactivated`
+      );
+      await onSynced();
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to sync templates";
+      toast.error(message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const pendingChanges = (preview?.changes ?? []).filter((change) => change.action !== "unchanged");
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sync Templates from Career Ladder</DialogTitle>
+          <DialogDescription>
+            Makes the promotion templates match the career ladder: one active template per level, with the ladder&apos;s
+            badge requirements.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !preview ? (
+          <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading preview...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Consistency Check */}
+            {consistency && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-foreground">
+                  Consistency check ({consistency.checked} active template{consistency.checked === 1 ? "" : "s"})
+                </p>
+                {consistency.consistent ? (
+                  <p className="text-sm text-muted-foreground">All active templates match the ladder.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {consistency.issues.map((issue, idx) => (
+                      <li key={idx} className="text-yellow-700 dark:text-yellow-300">
+                        <span className="font-medium">{issue.name}</span>: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Planned Changes */}
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm font-medium text-foreground">
+                Planned changes: {preview.summary.create} to create, {preview.summary.update} to update,{" "}
+                {preview.summary.deactivate} to deactivate, {preview.summary.unchanged} unchanged
+              </p>
+              {pendingChanges.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Templates are already in sync.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {pendingChanges.map((change, idx) => (
+                    <li key={idx} className="rounded-md border border-input p-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={change.action === "deactivate" ? "destructive" : "outline"}>
+                          {ACTION_LABELS[change.action]}
+                        </Badge>
+                        <span className="font-medium">{change.name}</span>
+                        <span className="text-muted-foreground capitalize">
+                          {change.path} {change.from_level} → {change.to_level}
+                        </span>
+                      </div>
+                      {change.reasons.length > 0 && (
+                        <ul className="mt-1 ml-2 text-xs text-muted-foreground">
+                          {change.reasons.map((reason) => (
+                            <li key={reason}>• {reason}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleApply}
+            disabled={isLoading || isApplying || pendingChanges.length === 0}
+            aria-busy={isApplying}
+          >
+            {isApplying ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Syncing...
+              </>
+            ) : (
+              "Apply Changes"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
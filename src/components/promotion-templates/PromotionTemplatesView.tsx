@@ -14,6 +14,7 @@ import { TemplateGrid } from "./TemplateGrid";
 import { Pagination } from "./Pagination";
 import { TemplateFormModal } from "./TemplateFormModal";
 import { ConfirmDeactivateModal } from "./ConfirmDeactivateModal";
+import { LadderSyncModal } from "./LadderSyncModal";
 import type {
   PromotionTemplatesViewProps,
   PromotionTemplateListItemDto,
@@ -54,6 +55,7 @@ export function PromotionTemplatesView(props: PromotionTemplatesViewProps) {
   const [selectedTemplate, setSelectedTemplate] = useState<PromotionTemplateListItemDto | null>(null);
   const [isDeactivateModalOpen, setIsDeactivateModalOpen] = useState(false);
   const [templateToDeactivate, setTemplateToDeactivate] = useState<PromotionTemplateListItemDto | null>(null);
+  const [isSyncModalOpen, setIsSyncModalOpen] = useState(false);
 
   // Track if we should refetch on filter/sort/pagination changes
   const [shouldRefetch, setShouldRefetch] = useState(false);
@@ -289,7 +291,11 @@ export function PromotionTemplatesView(props: PromotionTemplatesViewProps) {
   return (
     <div className="container mx-auto px-4 py-8 space-y-6">
       {/* Header */}
-      <TemplateListHeader isAdmin={isAdmin} onCreateClick={handleCreateClick} />
+      <TemplateListHeader
+        isAdmin={isAdmin}
+        onCreateClick={handleCreateClick}
+        onSyncClick={() => setIsSyncModalOpen(true)}
+      />
 
       {/* Filter Bar */}
       <TemplateFilterBar
@@ -334,6 +340,9 @@ export function PromotionTemplatesView(props: PromotionTemplatesViewProps) {
         onConfirm={handleDeactivateConfirm}
         onCancel={handleDeactivateModalClose}
       />
+
+      {/* Ladder Sync Modal */}
+      <LadderSyncModal isOpen={isSyncModalOpen} onClose={() => setIsSyncModalOpen(false)} onSynced={fetchTemplates} />
     </div>
   );
 }
@@ -2,11 +2,12 @@
  * RulesList Component
  *
  * Displays a list of promotion template rules with color-coded badges
- * for categories and levels. Supports both compact and detailed display modes.
+ * for categories and levels, including alternatives and per-badge limits.
+ * Supports both compact and detailed display modes.
  */
 
 import { Badge } from "@/components/ui/badge";
-import type { RulesListProps, PromotionTemplateRule } from "@/types";
+import type { RulesListProps, PromotionRuleCondition, PromotionTemplateRule } from "@/types";
 import { cn } from "@/lib/utils";
 
 /**
@@ -56,6 +57,26 @@ function formatLevel(level: string): string {
   return level.charAt(0).toUpperCase() + level.slice(1);
 }
 
+/**
+ * Format a rule condition, e.g. "3x Technical Silver or higher"
+ */
+function formatCondition(condition: PromotionRuleCondition): string {
+  return `${condition.count}x ${formatCategory(condition.category)} ${formatLevel(condition.level)}${
+    condition.or_higher ? " or higher" : ""
+  }`;
+}
+
+/**
+ * Format what else a rule accepts: alternatives and the per-badge limit
+ */
+function formatRuleExtras(rule: PromotionTemplateRule): string[] {
+  const extras = (rule.alternatives ?? []).map((alternative) => `or ${formatCondition(alternative)}`);
+  if (rule.max_per_badge) {
+    extras.push(rule.max_per_badge === 1 ? "distinct badges" : `max ${rule.max_per_badge} of the same badge`);
+  }
+  return extras;
+}
+
 export function RulesList({ rules, isCompact = false, className }: RulesListProps) {
   // If no rules, show empty state
   if (!rules || rules.length === 0) {
@@ -66,16 +87,19 @@ export function RulesList({ rules, isCompact = false, className }: RulesListProp
   if (isCompact) {
     return (
       <div className={cn("flex flex-wrap gap-1.5", className)}>
-        {rules.map((rule: PromotionTemplateRule, index: number) => (
-          <Badge
-            key={index}
-            variant="outline"
-            className={cn("text-xs", getCategoryColorClass(rule.category))}
-            title={`${rule.minimum_required}x ${formatCategory(rule.category)} ${formatLevel(rule.level)}`}
-          >
-            {rule.minimum_required}x {formatCategory(rule.category)} {formatLevel(rule.level)}
-          </Badge>
-        ))}
+        {rules.map((rule: PromotionTemplateRule, index: number) => {
+          const label = [formatCondition(rule), ...formatRuleExtras(rule)].join(", ");
+          return (
+            <Badge
+              key={index}
+              variant="outline"
+              className={cn("text-xs", getCategoryColorClass(rule.category))}
+              title={label}
+            >
+              {label}
+            </Badge>
+          );
+        })}
       </div>
     );
   }
@@ -84,14 +108,22 @@ export function RulesList({ rules, isCompact = false, className }: RulesListProp
   return (
     <div className={cn("space-y-2", className)}>
       {rules.map((rule: PromotionTemplateRule, index: number) => (
-        <div key={index} className="flex items-center gap-2 text-sm">
-          <span className="font-medium text-foreground">{rule.minimum_required}×</span>
-          <Badge variant="outline" className={cn("capitalize", getCategoryColorClass(rule.category))}>
-            {formatCategory(rule.category)}
-          </Badge>
-          <Badge variant="outline" className={cn("capitalize", getLevelColorClass(rule.level))}>
-            {formatLevel(rule.level)}
-          </Badge>
+        <div key={index} className="text-sm">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-foreground">{rule.count}×</span>
+            <Badge variant="outline" className={cn("capitalize", getCategoryColorClass(rule.category))}>
+              {formatCategory(rule.category)}
+            </Badge>
+            <Badge variant="outline" className={cn("capitalize", getLevelColorClass(rule.level))}>
+              {formatLevel(rule.level)}
+              {rule.or_higher && " or higher"}
+            </Badge>
+          </div>
+          {formatRuleExtras(rule).map((extra) => (
+            <div key={extra} className="ml-6 text-xs text-muted-foreground">
+              {extra}
+            </div>
+          ))}
         </div>
       ))}
     </div>
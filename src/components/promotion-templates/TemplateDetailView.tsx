@@ -11,8 +11,10 @@ import { TemplateDetailHeader } from "./TemplateDetailHeader";
 import { TemplateOverviewCard } from "./TemplateOverviewCard";
 import { TemplateRulesDetailCard } from "./TemplateRulesDetailCard";
 import { UseTemplateCard } from "./UseTemplateCard";
+import { TemplateVersionHistory } from "./TemplateVersionHistory";
 import { TemplateFormModal } from "./TemplateFormModal";
 import { ConfirmDeactivateModal } from "./ConfirmDeactivateModal";
+import { usePromotionTemplateVersions } from "@/hooks/usePromotionTemplateVersions";
 
 export function TemplateDetailView(props: TemplateDetailViewProps) {
   const { initialTemplate, isAdmin } = props;
@@ -22,6 +24,12 @@ export function TemplateDetailView(props: TemplateDetailViewProps) {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeactivateModalOpen, setIsDeactivateModalOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const {
+    versions,
+    isLoading: isLoadingVersions,
+    error: versionsError,
+    refresh: refreshVersions,
+  } = usePromotionTemplateVersions(initialTemplate.id);
 
   // Handlers
   const handleEditClick = useCallback(() => setIsEditModalOpen(true), []);
@@ -76,6 +84,7 @@ export function TemplateDetailView(props: TemplateDetailViewProps) {
         setTemplate(updatedTemplate);
         toast.success("Template updated successfully");
         setIsEditModalOpen(false);
+        await refreshVersions();
       } catch (error) {
         const message = error instanceof Error ? error.message : "Failed to update template";
         toast.error(message);
@@ -83,7 +92,7 @@ export function TemplateDetailView(props: TemplateDetailViewProps) {
         setIsLoading(false);
       }
     },
-    [template.id]
+    [template.id, refreshVersions]
   );
 
   const handleDeactivateConfirm = useCallback(async () => {
@@ -157,7 +166,7 @@ export function TemplateDetailView(props: TemplateDetailViewProps) {
           <TemplateRulesDetailCard rules={template.rules} />
         </div>
 
-        <div className="lg:col-span-1">
+        <div className="lg:col-span-1 space-y-6">
           <UseTemplateCard
             templateId={template.id}
             templateName={template.name}
@@ -169,6 +178,7 @@ export function TemplateDetailView(props: TemplateDetailViewProps) {
             isLoading={isLoading}
             onUseTemplate={handleUseTemplate}
           />
+          <TemplateVersionHistory versions={versions} isLoading={isLoadingVersions} error={versionsError} />
         </div>
       </div>
 
@@ -2,7 +2,8 @@
  * TemplateFormModal Component
  *
  * Modal dialog for creating new promotion templates or editing existing ones.
- * Includes dynamic rules management and form validation.
+ * Includes dynamic rules management (level-or-higher conditions, alternatives and
+ * per-badge limits) and form validation.
  */
 
 import { useState, useEffect } from "react";
@@ -44,7 +45,7 @@ export function TemplateFormModal({ isOpen, mode, template, onClose, onSubmit }:
   const [newRule, setNewRule] = useState<PromotionTemplateRule>({
     category: "technical",
     level: "gold",
-    minimum_required: 1,
+    count: 1,
   });
 
   // Initialize form data when template changes (edit mode)
@@ -125,8 +126,8 @@ export function TemplateFormModal({ isOpen, mode, template, onClose, onSubmit }:
    * Add a new rule
    */
   const handleAddRule = () => {
-    if (newRule.minimum_required < 1) {
-      toast.error("Minimum required must be at least 1");
+    if (newRule.count < 1) {
+      toast.error("Quantity must be at least 1");
       return;
     }
 
@@ -139,7 +140,7 @@ export function TemplateFormModal({ isOpen, mode, template, onClose, onSubmit }:
     setNewRule({
       category: "technical",
       level: "gold",
-      minimum_required: 1,
+      count: 1,
     });
 
     // Clear rules error if it exists
@@ -148,6 +149,47 @@ export function TemplateFormModal({ isOpen, mode, template, onClose, onSubmit }:
     }
   };
 
+  /**
+   * Add the condition of the new rule form as an alternative of an existing rule
+   * (the rule is then met by its own condition or by any alternative)
+   */
+  const handleAddAlternative = (index: number) => {
+    if (newRule.count < 1) {
+      toast.error("Quantity must be at least 1");
+      return;
+    }
+
+    const { category, level, count, or_higher } = newRule;
+    setFormData((prev) => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) =>
+        i === index
+          ? {
+              ...rule,
+              alternatives: [
+                ...(rule.alternatives ?? []),
+                { category, level, count, ...(or_higher ? { or_higher } : {}) },
+              ],
+            }
+          : rule
+      ),
+    }));
+  };
+
+  /**
+   * Remove an alternative from a rule
+   */
+  const handleRemoveAlternative = (index: number, alternativeIndex: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) => {
+        if (i !== index) return rule;
+        const alternatives = (rule.alternatives ?? []).filter((_, j) => j !== alternativeIndex);
+        return { ...rule, alternatives: alternatives.length > 0 ? alternatives : undefined };
+      }),
+    }));
+  };
+
   /**
    * Remove a rule
    */
@@ -361,23 +403,55 @@ export function TemplateFormModal({ isOpen, mode, template, onClose, onSubmit }:
             {formData.rules.length > 0 && (
               <div className="space-y-2 mb-3">
                 {formData.rules.map((rule, index) => (
-                  <div key={index} className="flex items-center gap-2 p-2 rounded-md border border-input bg-muted/30">
-                    <span className="font-medium text-sm">{rule.minimum_required}×</span>
-                    <Badge variant="outline" className="capitalize">
-                      {rule.category}
-                    </Badge>
-                    <Badge variant="outline" className="capitalize">
-                      {rule.level}
-                    </Badge>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleRemoveRule(index)}
-                      className="ml-auto"
-                    >
-                      Remove
-                    </Button>
+                  <div key={index} className="p-2 rounded-md border border-input bg-muted/30 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm">{rule.count}×</span>
+                      <Badge variant="outline" className="capitalize">
+                        {rule.category}
+                      </Badge>
+                      <Badge variant="outline" className="capitalize">
+                        {rule.level}
+                        {rule.or_higher && " or higher"}
+                      </Badge>
+                      {rule.max_per_badge && (
+                        <span className="text-xs text-muted-foreground">max {rule.max_per_badge} per badge</span>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleAddAlternative(index)}
+                        className="ml-auto"
+                        title="Add the requirement below as an alternative to this one"
+                      >
+                        Add alternative
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => handleRemoveRule(index)}>
+                        Remove
+                      </Button>
+                    </div>
+                    {(rule.alternatives ?? []).map((alternative, alternativeIndex) => (
+                      <div key={alternativeIndex} className="flex items-center gap-2 pl-4 text-sm">
+                        <span className="text-xs text-muted-foreground">or</span>
+                        <span className="font-medium">{alternative.count}×</span>
+                        <Badge variant="outline" className="capitalize">
+                          {alternative.category}
+                        </Badge>
+                        <Badge variant="outline" className="capitalize">
+                          {alternative.level}
+                          {alternative.or_higher && " or higher"}
+                        </Badge>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveAlternative(index, alternativeIndex)}
+                          className="ml-auto"
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    ))}
                   </div>
                 ))}
               </div>
@@ -387,19 +461,17 @@ export function TemplateFormModal({ isOpen, mode, template, onClose, onSubmit }:
             <div className="border border-input rounded-md p-4 bg-muted/10">
               <p className="text-sm font-medium text-foreground mb-3">Add Badge Requirement</p>
               <div className="grid grid-cols-4 gap-3">
-                {/* Minimum Required */}
+                {/* Quantity */}
                 <div>
-                  <label htmlFor="minimum_required" className="text-xs text-muted-foreground mb-1 block">
+                  <label htmlFor="rule_count" className="text-xs text-muted-foreground mb-1 block">
                     Quantity
                   </label>
                   <input
                     type="number"
-                    id="minimum_required"
+                    id="rule_count"
                     min="1"
-                    value={newRule.minimum_required}
-                    onChange={(e) =>
-                      setNewRule((prev) => ({ ...prev, minimum_required: parseInt(e.target.value) || 1 }))
-                    }
+                    value={newRule.count}
+                    onChange={(e) => setNewRule((prev) => ({ ...prev, count: parseInt(e.target.value) || 1 }))}
                     className="flex h-9 w-full rounded-md border border-input bg-background px-2 py-1 text-sm"
                   />
                 </div>
@@ -412,12 +484,15 @@ export function TemplateFormModal({ isOpen, mode, template, onClose, onSubmit }:
                   <select
                     id="rule_category"
                     value={newRule.category}
-                    onChange={(e) => setNewRule((prev) => ({ ...prev, category: e.target.value as BadgeCategoryType }))}
+                    onChange={(e) =>
+                      setNewRule((prev) => ({ ...prev, category: e.target.value as BadgeCategoryType | "any" }))
+                    }
                     className="flex h-9 w-full rounded-md border border-input bg-background px-2 py-1 text-sm"
                   >
                     <option value="technical">Technical</option>
                     <option value="organizational">Organizational</option>
                     <option value="softskilled">Soft Skilled</option>
+                    <option value="any">Any Category</option>
                   </select>
                 </div>
 
@@ -445,6 +520,34 @@ export function TemplateFormModal({ isOpen, mode, template, onClose, onSubmit }:
                   </Button>
                 </div>
               </div>
+              <div className="mt-3 flex flex-wrap items-center gap-4">
+                {/* Level or Higher */}
+                <label htmlFor="rule_or_higher" className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    id="rule_or_higher"
+                    checked={newRule.or_higher ?? false}
+                    onChange={(e) => setNewRule((prev) => ({ ...prev, or_higher: e.target.checked || undefined }))}
+                  />
+                  Higher levels count too
+                </label>
+
+                {/* Max per Catalog Badge */}
+                <label htmlFor="rule_max_per_badge" className="flex items-center gap-2 text-xs text-muted-foreground">
+                  Max of the same badge
+                  <input
+                    type="number"
+                    id="rule_max_per_badge"
+                    min="1"
+                    value={newRule.max_per_badge ?? ""}
+                    placeholder="No limit"
+                    onChange={(e) =>
+                      setNewRule((prev) => ({ ...prev, max_per_badge: parseInt(e.target.value) || undefined }))
+                    }
+                    className="flex h-8 w-24 rounded-md border border-input bg-background px-2 py-1 text-sm"
+                  />
+                </label>
+              </div>
             </div>
           </div>
 
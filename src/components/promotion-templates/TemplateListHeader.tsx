@@ -2,14 +2,14 @@
  * TemplateListHeader Component
  *
  * Page header for promotion templates list with breadcrumb navigation
- * and conditional "Create Template" button for admins.
+ * and conditional "Sync from Ladder" and "Create Template" buttons for admins.
  */
 
 import { Button } from "@/components/ui/button";
 import type { TemplateListHeaderProps } from "@/types";
-import { Plus } from "lucide-react";
+import { Plus, RefreshCw } from "lucide-react";
 
-export function TemplateListHeader({ isAdmin, onCreateClick }: TemplateListHeaderProps) {
+export function TemplateListHeader({ isAdmin, onCreateClick, onSyncClick }: TemplateListHeaderProps) {
   return (
     <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
       <div className="flex-1">
@@ -32,12 +32,20 @@ export function TemplateListHeader({ isAdmin, onCreateClick }: TemplateListHeade
         </p>
       </div>
 
-      {/* Create Template Button (Admin Only) */}
+      {/* Sync and Create Template Buttons (Admin Only) */}
       {isAdmin && (
-        <Button onClick={onCreateClick} size="default" className="shrink-0">
-          <Plus />
-          Create Template
-        </Button>
+        <div className="flex shrink-0 gap-2">
+          {onSyncClick && (
+            <Button onClick={onSyncClick} variant="outline" size="default">
+              <RefreshCw />
+              Sync from Ladder
+            </Button>
+          )}
+          <Button onClick={onCreateClick} size="default">
+            <Plus />
+            Create Template
+          </Button>
+        </div>
       )}
     </div>
   );
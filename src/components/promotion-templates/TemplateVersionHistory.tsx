@@ -0,0 +1,97 @@
+/**
+ * TemplateVersionHistory Component
+ *
+ * Shows the version timeline of a promotion template with the number of promotions
+ * created against each version. Promotions keep the rules of their version, so
+ * earlier versions can be expanded to see the requirements they are judged by.
+ */
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RulesList } from "./RulesList";
+import type { TemplateVersionHistoryProps } from "@/types";
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function TemplateVersionHistory({ versions, isLoading, error }: TemplateVersionHistoryProps) {
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Version History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Version History</CardTitle>
+        <CardDescription>
+          Promotions are validated and approved against the version they were created from.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="relative space-y-4 border-l border-border pl-4">
+          {versions.map((version) => (
+            <li key={version.version} className="text-sm">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-muted-foreground" />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">Version {version.version}</span>
+                {version.is_current && <Badge variant="secondary">Current</Badge>}
+                <Badge variant="outline">
+                  {version.promotion_count} promotion{version.promotion_count === 1 ? "" : "s"}
+                </Badge>
+                {!version.is_current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7"
+                    onClick={() => setExpandedVersion(expandedVersion === version.version ? null : version.version)}
+                    aria-expanded={expandedVersion === version.version}
+                  >
+                    {expandedVersion === version.version ? "Hide rules" : "Show rules"}
+                  </Button>
+                )}
+              </div>
+              <p className="text-muted-foreground">
+                {formatDate(version.authored_at)}
+                {version.authored_by ? ` by ${version.authored_by.display_name}` : ""}
+              </p>
+              {!version.is_current && expandedVersion === version.version && (
+                <div className="mt-2 space-y-1">
+                  <p className="text-muted-foreground">{version.name}</p>
+                  <RulesList rules={version.rules} isCompact />
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+        {versions.length === 1 && (
+          <p className="mt-4 text-sm text-muted-foreground">This template has not been edited since it was created.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@
  * Features:
  * - Real-time validation against template requirements
  * - Add/remove badge applications
+ * - Auto-fill the draft with the smallest set of badges covering the template
  * - Submit promotion for review
  * - Handle reservation conflicts (409 errors)
  * - Support both builder (draft) and detail (read-only) modes
@@ -22,11 +23,13 @@ import type {
   PromotionBuilderViewProps,
   ReservationConflictError,
   ApiError,
+  PromotionAutoFillResponse,
 } from "@/types";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { BadgePicker } from "./promotion-builder/BadgePicker";
 import { EligibilityPreview } from "./promotion-builder/EligibilityPreview";
+import { AutoFillSummary } from "./promotion-builder/AutoFillSummary";
 
 export function PromotionBuilderView({ initialPromotion, userId, isAdmin }: PromotionBuilderViewProps) {
   // =========================================================================
@@ -43,6 +46,8 @@ export function PromotionBuilderView({ initialPromotion, userId, isAdmin }: Prom
   // Loading states for async operations
   const [isAdding, setIsAdding] = useState(false);
   const [isRemoving, setIsRemoving] = useState(false);
+  const [isAutoFilling, setIsAutoFilling] = useState(false);
+  const [autoFillResult, setAutoFillResult] = useState<PromotionAutoFillResponse | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -196,6 +201,61 @@ export function PromotionBuilderView({ initialPromotion, userId, isAdmin }: Prom
     [promotion, canEdit]
   );
 
+  // =========================================================================
+  // API Integration: Auto-fill Badges
+  // =========================================================================
+
+  /**
+   * Let the server pick the badges covering the template rules
+   * Handles success, conflicts (409), and other errors
+   */
+  const handleAutoFill = useCallback(async () => {
+    if (!promotion || !isDraft || !isOwner) return;
+
+    setIsAutoFilling(true);
+    try {
+      const res = await fetch(`/api/promotions/${promotion.id}/auto-fill`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+
+      if (!res.ok) {
+        // Handle 409 Conflict (badge reserved by another promotion meanwhile)
+        if (res.status === 409) {
+          const conflictError: ReservationConflictError = await res.json();
+          setConflictModal({
+            isOpen: true,
+            error: conflictError,
+          });
+          return;
+        }
+
+        const err: ApiError = await res
+          .json()
+          .catch(() => ({ error: "unknown", message: "Failed to auto-fill badges" }));
+        throw new Error(err.message || "Failed to auto-fill badges");
+      }
+
+      const result: PromotionAutoFillResponse = await res.json();
+      setAutoFillResult(result);
+
+      // Refetch promotion to get updated badge list
+      const updated = await (await fetch(`/api/promotions/${promotion.id}`)).json();
+      setPromotion(updated);
+      if (result.is_complete) {
+        toast.success("Badges selected for all requirements");
+      } else {
+        toast.warning("Not enough badges to cover all requirements");
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to auto-fill badges";
+      toast.error(message);
+    } finally {
+      setIsAutoFilling(false);
+    }
+  }, [promotion, isDraft, isOwner]);
+
   // =========================================================================
   // API Integration: Submit Promotion
   // =========================================================================
@@ -380,7 +440,19 @@ export function PromotionBuilderView({ initialPromotion, userId, isAdmin }: Prom
           {/* Badge Picker (Draft Only) */}
           {canEdit && (
             <div className="rounded-lg border border-border bg-card p-6">
-              <h2 className="text-lg font-semibold mb-3">Add Badges</h2>
+              <div className="flex items-center justify-between gap-2 mb-3">
+                <h2 className="text-lg font-semibold">Add Badges</h2>
+                {isOwner && (
+                  <Button variant="outline" size="sm" onClick={handleAutoFill} disabled={isAutoFilling || isAdding}>
+                    {isAutoFilling ? "Selecting…" : "Auto-fill"}
+                  </Button>
+                )}
+              </div>
+              {autoFillResult && (
+                <div className="mb-4">
+                  <AutoFillSummary result={autoFillResult} onDismiss={() => setAutoFillResult(null)} />
+                </div>
+              )}
               <BadgePicker
                 userId={userId}
                 existingBadgeIds={promotion.badge_applications?.map((ba) => ba.id) || []}
@@ -395,7 +467,11 @@ export function PromotionBuilderView({ initialPromotion, userId, isAdmin }: Prom
         <aside className="lg:col-span-1">
           <div className="rounded-lg border border-border bg-card p-6 sticky top-6 space-y-4">
             <h3 className="text-lg font-semibold mb-3">Eligibility Preview</h3>
-            <EligibilityPreview validationResult={validationResult} isLoading={isValidating} />
+            <EligibilityPreview
+              validationResult={validationResult}
+              isLoading={isValidating}
+              badgeApplications={promotion.badge_applications}
+            />
 
             {/* Validation Summary */}
             <div>
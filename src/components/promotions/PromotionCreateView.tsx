@@ -1,11 +1,109 @@
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
+import { isTemplateAvailableForPosition } from "@/lib/position-levels";
+import type {
+  CareerLadderVersionDto,
+  CurrentPosition,
+  PaginatedResponse,
+  PromotionTemplateListItemDto,
+  UserPositionResponse,
+} from "@/types";
 
 interface Props {
   templateId?: string;
+  userId: string;
 }
 
-export function PromotionCreateView({ templateId }: Props) {
+/**
+ * Lists the active templates the user can start a promotion from: templates starting at
+ * their current path and level, or entry-level templates if no position is recorded yet.
+ */
+function TemplatePicker({ userId }: { userId: string }) {
+  const [position, setPosition] = useState<CurrentPosition | null>(null);
+  const [templates, setTemplates] = useState<PromotionTemplateListItemDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const positionResponse = await fetch(`/api/users/${userId}/position`);
+        if (!positionResponse.ok) {
+          throw new Error("Failed to load your current position");
+        }
+        const { current }: UserPositionResponse = await positionResponse.json();
+
+        // Entry levels come from the career ladder in force
+        const ladderResponse = await fetch("/api/position-levels");
+        if (!ladderResponse.ok) {
+          throw new Error("Failed to load the career ladder");
+        }
+        const ladder: CareerLadderVersionDto = await ladderResponse.json();
+
+        const params = new URLSearchParams({ is_active: "true", limit: "100" });
+        if (current) {
+          params.set("path", current.path);
+          params.set("from_level", current.level);
+        }
+
+        const templatesResponse = await fetch(`/api/promotion-templates?${params.toString()}`);
+        if (!templatesResponse.ok) {
+          throw new Error("Failed to load templates");
+        }
+        const { data }: PaginatedResponse<PromotionTemplateListItemDto> = await templatesResponse.json();
+
+        setPosition(current);
+        setTemplates(data.filter((template) => isTemplateAvailableForPosition(template, current, ladder)));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load templates");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTemplates();
+  }, [userId]);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="rounded-lg border border-border bg-card p-6">
+        <h2 className="text-lg font-semibold mb-1">Choose a promotion template</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          {position ? (
+            <>
+              Your current position is{" "}
+              <span className="font-medium capitalize">
+                {position.path} {position.level}
+              </span>
+              .
+            </>
+          ) : (
+            "No position is recorded for you yet, so only entry-level templates are available."
+          )}
+        </p>
+        {isLoading && <p className="text-sm text-muted-foreground">Loading templates…</p>}
+        {error && <p className="text-sm text-destructive">Error: {error}</p>}
+        {!isLoading && !error && templates.length === 0 && (
+          <p className="text-sm text-muted-foreground">No active templates start at your current level.</p>
+        )}
+        <ul className="divide-y divide-border">
+          {templates.map((template) => (
+            <li key={template.id} className="py-2">
+              <a href={`/promotions/new?template_id=${template.id}`} className="text-primary hover:underline">
+                {template.name}
+              </a>
+              <span className="ml-2 text-xs text-muted-foreground capitalize">
+                {template.path}: {template.from_level} → {template.to_level}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export function PromotionCreateView({ templateId, userId }: Props) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -42,9 +140,7 @@ export function PromotionCreateView({ templateId }: Props) {
   }, [templateId]);
 
   if (!templateId) {
-    return (
-      <div className="container mx-auto px-4 py-8">No template selected. Please go back and choose a template.</div>
-    );
+    return <TemplatePicker userId={userId} />;
   }
 
   return (
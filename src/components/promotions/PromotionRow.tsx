@@ -40,8 +40,9 @@ export function PromotionRow({
 }: PromotionRowProps) {
   const isOwner = promotion.created_by === userId;
   const canDelete = promotion.status === "draft" && isOwner;
-  const canApprove = isAdmin && promotion.status === "submitted";
-  const canReject = isAdmin && promotion.status === "submitted";
+  // Nobody decides on their own promotion
+  const canApprove = isAdmin && !isOwner && promotion.status === "submitted";
+  const canReject = isAdmin && !isOwner && promotion.status === "submitted";
 
   /**
    * Handle keyboard navigation
@@ -0,0 +1,61 @@
+/**
+ * AutoFillSummary Component
+ *
+ * Explains the last auto-fill: which badges count toward each template rule, what
+ * changed in the draft and which requirements no available badge could meet.
+ */
+
+import React from "react";
+import type { AutoFillSummaryProps } from "@/types";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, XCircle } from "lucide-react";
+
+export function AutoFillSummary({ result, onDismiss }: AutoFillSummaryProps) {
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium">
+          {result.is_complete ? "All requirements covered" : "Some requirements could not be covered"}
+        </p>
+        <Button variant="ghost" size="sm" onClick={onDismiss}>
+          Dismiss
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {result.selected_badge_application_ids.length} badge(s) selected, {result.added_badge_application_ids.length}{" "}
+        added, {result.removed_badge_application_ids.length} removed
+      </p>
+
+      <ul className="space-y-2">
+        {result.assignments.map((assignment, idx) => (
+          <li key={idx} className="rounded-md border p-2">
+            <div className="flex items-center justify-between gap-2 font-medium">
+              <span>
+                {assignment.condition.count}×{" "}
+                {assignment.condition.category === "any" ? "Any Category" : assignment.condition.category} •{" "}
+                {assignment.condition.level}
+                {assignment.condition.or_higher && " or higher"}
+              </span>
+              {assignment.satisfied ? (
+                <CheckCircle className="h-4 w-4 text-green-600" aria-label="Covered" />
+              ) : (
+                <XCircle className="h-4 w-4 text-yellow-600" aria-label="Not covered" />
+              )}
+            </div>
+            {assignment.badges.length > 0 ? (
+              <ul className="mt-1 text-xs text-muted-foreground">
+                {assignment.badges.map((badge) => (
+                  <li key={badge.badge_application_id}>
+                    {badge.title} ({badge.category} • {badge.level})
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-1 text-xs text-muted-foreground">No matching badges available</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
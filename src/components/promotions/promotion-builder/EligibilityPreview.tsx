@@ -2,15 +2,15 @@
  * EligibilityPreview Component
  *
  * Displays real-time validation status showing which template requirements
- * are satisfied and which are missing. Updates automatically when badges
- * are added/removed.
+ * are satisfied, which badges fill each of them and which are missing. Updates
+ * automatically when badges are added/removed.
  */
 
 import React from "react";
 import type { EligibilityPreviewProps } from "@/types";
 import { CheckCircle, XCircle, Loader2 } from "lucide-react";
 
-export function EligibilityPreview({ validationResult, isLoading }: EligibilityPreviewProps) {
+export function EligibilityPreview({ validationResult, isLoading, badgeApplications = [] }: EligibilityPreviewProps) {
   // =========================================================================
   // Loading State
   // =========================================================================
@@ -72,10 +72,18 @@ export function EligibilityPreview({ validationResult, isLoading }: EligibilityP
             <div className="flex-1">
               <div className="font-medium text-foreground">
                 {req.required}× {req.category === "any" ? "Any Category" : req.category} • {req.level}
+                {req.or_higher && " or higher"}
               </div>
               <div className="text-xs text-muted-foreground">
                 {req.current} / {req.required} assigned
               </div>
+              {req.assigned_badge_application_ids.length > 0 && (
+                <ul className="mt-1 text-xs text-muted-foreground">
+                  {req.assigned_badge_application_ids.map((id) => (
+                    <li key={id}>• {badgeApplications.find((ba) => ba.id === id)?.catalog_badge.title ?? id}</li>
+                  ))}
+                </ul>
+              )}
             </div>
             <div className="ml-2">
               {req.satisfied ? (
@@ -96,6 +104,7 @@ export function EligibilityPreview({ validationResult, isLoading }: EligibilityP
             {validationResult.missing.map((m, idx) => (
               <li key={idx}>
                 • {m.count}× {m.category === "any" ? "Any Category" : m.category} • {m.level}
+                {m.or_higher && " or higher"}
               </li>
             ))}
           </ul>
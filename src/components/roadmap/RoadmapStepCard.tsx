@@ -0,0 +1,87 @@
+import React from "react";
+import { CheckCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { RoadmapStepCardProps } from "@/types";
+
+/**
+ * RoadmapStepCard Component
+ *
+ * One promotion on the career roadmap: a progress bar per rule and, for unmet rules,
+ * catalog badges that would close the gap.
+ */
+export function RoadmapStepCard({ step, isNext }: RoadmapStepCardProps) {
+  const satisfiedCount = step.requirements.filter((req) => req.satisfied).length;
+
+  return (
+    <Card className={isNext ? "border-primary" : undefined}>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2">
+          {step.from_level} → {step.to_level}
+          {isNext && <Badge variant="secondary">Next step</Badge>}
+          {step.is_ready && <Badge className="bg-green-600 text-white">Ready for promotion</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {satisfiedCount} / {step.requirements.length} requirements met
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {step.requirements.map((req, idx) => {
+          const percent = req.required > 0 ? Math.min(100, Math.round((req.current / req.required) * 100)) : 100;
+
+          return (
+            <div key={idx} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="capitalize">
+                  {req.category === "any" ? "Any Category" : req.category} • {req.level}
+                  {req.or_higher && " or higher"}
+                </span>
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  {req.current} / {req.required}
+                  {req.satisfied && <CheckCircle className="h-4 w-4 text-green-600" aria-label="Met" />}
+                </span>
+              </div>
+              <div
+                className="h-2 w-full overflow-hidden rounded-full bg-muted"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={req.required}
+                aria-valuenow={Math.min(req.current, req.required)}
+              >
+                <div
+                  className={`h-full rounded-full ${req.satisfied ? "bg-green-600" : "bg-primary"}`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              {!req.satisfied && (
+                <div className="text-xs text-muted-foreground">
+                  {req.suggested_badges.length > 0 ? (
+                    <>
+                      {req.required - req.current} more needed, e.g.{" "}
+                      {req.suggested_badges.map((badge, badgeIdx) => (
+                        <span key={badge.id}>
+                          {badgeIdx > 0 && ", "}
+                          <a href={`/catalog/${badge.id}`} className="underline hover:no-underline">
+                            {badge.title}
+                          </a>
+                        </span>
+                      ))}
+                    </>
+                  ) : (
+                    <>{req.required - req.current} more needed, no matching catalog badges available</>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {isNext && step.is_ready && (
+          <a href="/promotions/new" className="inline-flex items-center text-sm text-primary hover:underline">
+            Start a promotion →
+          </a>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
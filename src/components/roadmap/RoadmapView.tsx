@@ -0,0 +1,52 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import type { RoadmapViewProps } from "@/types";
+import { RoadmapStepCard } from "./RoadmapStepCard";
+
+/**
+ * RoadmapView Component
+ *
+ * Career roadmap: where the user stands on their path and what every remaining level
+ * still needs, counted from their unused accepted badges.
+ */
+export function RoadmapView({ roadmap, isOwnRoadmap }: RoadmapViewProps) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">
+          {isOwnRoadmap ? "My Roadmap" : `${roadmap.user.display_name}'s Roadmap`}
+        </h1>
+        <p className="text-muted-foreground mt-1">Progress toward every remaining level on the career path</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="secondary" className="capitalize">
+          {roadmap.path}
+        </Badge>
+        <span>
+          Current level: <span className="font-medium">{roadmap.current_level}</span>
+        </span>
+        <span className="text-muted-foreground">• {roadmap.accepted_badge_count} unused accepted badges</span>
+      </div>
+
+      {!roadmap.position_recorded && (
+        <div className="rounded-lg border border-border bg-muted/50 p-4 text-sm text-muted-foreground">
+          No position is recorded yet, so the current level is taken from past promotions or the entry level of the
+          path. Ask an admin to record it.
+        </div>
+      )}
+
+      {roadmap.steps.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card p-8 text-center">
+          <p className="text-muted-foreground">Top of the career path reached</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {roadmap.steps.map((step, idx) => (
+            <RoadmapStepCard key={step.from_level} step={step} isNext={idx === 0} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
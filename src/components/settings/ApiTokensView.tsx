@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Copy, KeyRound } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { timeAgo } from "@/components/navigation/NotificationBell";
+import type { ApiError, ApiTokenCreatedResponse, ApiTokenDto } from "@/types";
+import { CreateApiTokenModal, SCOPE_LABELS } from "./CreateApiTokenModal";
+
+interface ApiTokensViewProps {
+  isAdmin: boolean;
+}
+
+/**
+ * Status of a token for display: revoked tokens stay listed, expired tokens are refused
+ */
+function getTokenStatus(token: ApiTokenDto): { label: string; variant: "secondary" | "outline" | "destructive" } {
+  if (token.revoked_at) return { label: "Revoked", variant: "destructive" };
+  if (new Date(token.expires_at).getTime() <= Date.now()) return { label: "Expired", variant: "outline" };
+  return { label: "Active", variant: "secondary" };
+}
+
+/**
+ * ApiTokensView Component
+ *
+ * Lists the user's API tokens and lets them create and revoke tokens. A new token's
+ * secret is shown once, right after it is created. Admins can switch to every
+ * user's tokens and revoke any of them.
+ */
+export function ApiTokensView({ isAdmin }: ApiTokensViewProps) {
+  const [tokens, setTokens] = useState<ApiTokenDto[] | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [createdToken, setCreatedToken] = useState<ApiTokenCreatedResponse | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/api-tokens${showAll ? "?all=true" : ""}`);
+      if (response.status === 401) {
+        window.location.href = "/login?return=/settings/api-tokens";
+        return;
+      }
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to load API tokens");
+      }
+      setTokens(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    }
+  }, [showAll]);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const handleCreated = (token: ApiTokenCreatedResponse) => {
+    setIsCreateOpen(false);
+    setCreatedToken(token);
+    loadTokens();
+  };
+
+  const handleRevoke = async (token: ApiTokenDto) => {
+    setRevokingId(token.id);
+    try {
+      const response = await fetch(`/api/api-tokens/${token.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to revoke token");
+      }
+      const revoked: ApiTokenDto = await response.json();
+      setTokens((current) => current?.map((item) => (item.id === revoked.id ? revoked : item)) ?? null);
+      toast.success(`Token "${token.name}" revoked`);
+    } catch (err) {
+      toast.error("Could not revoke token", {
+        description: err instanceof Error ? err.message : "An unexpected error occurred",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken.token);
+      toast.success("Token copied to clipboard");
+    } catch {
+      toast.error("Could not copy the token; select and copy it manually");
+    }
+  };
+
+  return (
+    <div className="max-w-4xl space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">API Tokens</h1>
+          <p className="text-muted-foreground mt-1">
+            Tokens let scripts and integrations call the Badger API as you. Every request made with a token is recorded
+            in the audit log.
+          </p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <KeyRound className="size-4" aria-hidden="true" />
+          New token
+        </Button>
+      </div>
+
+      {createdToken && (
+        <div className="rounded-lg border border-primary bg-primary/5 p-4 space-y-2" role="status">
+          <p className="text-sm font-medium">
+            Token &quot;{createdToken.name}&quot; created. Copy it now; it will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 break-all rounded-md bg-muted px-3 py-2 text-sm">{createdToken.token}</code>
+            <Button variant="outline" size="sm" onClick={handleCopy} aria-label="Copy token">
+              <Copy className="size-4" aria-hidden="true" />
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setCreatedToken(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {isAdmin && (
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+          Show every user&apos;s tokens
+        </label>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4" role="alert">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      {tokens && tokens.length === 0 && <p className="text-sm text-muted-foreground">No API tokens yet.</p>}
+
+      {tokens && tokens.length > 0 && (
+        <div className="rounded-lg border border-border bg-card overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-muted-foreground">
+              <tr>
+                <th className="px-4 py-3">Name</th>
+                {showAll && <th className="px-4 py-3">Owner</th>}
+                <th className="px-4 py-3">Scope</th>
+                <th className="px-4 py-3">Last used</th>
+                <th className="px-4 py-3">Expires</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {tokens.map((token) => {
+                const status = getTokenStatus(token);
+                return (
+                  <tr key={token.id} className="border-t border-border">
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-foreground">{token.name}</div>
+                      <code className="text-xs text-muted-foreground">{token.token_prefix}…</code>
+                      {token.kind === "service" && (
+                        <Badge variant="outline" className="ml-2">
+                          Service
+                        </Badge>
+                      )}
+                    </td>
+                    {showAll && <td className="px-4 py-3">{token.user?.display_name ?? "—"}</td>}
+                    <td className="px-4 py-3">{SCOPE_LABELS[token.scope]}</td>
+                    <td className="px-4 py-3 text-muted-foreground">
+                      {token.last_used_at ? timeAgo(token.last_used_at) : "Never"}
+                    </td>
+                    <td className="px-4 py-3 text-muted-foreground">
+                      {new Date(token.expires_at).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3">
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {!token.revoked_at && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRevoke(token)}
+                          disabled={revokingId === token.id}
+                        >
+                          {revokingId === token.id ? "Revoking..." : "Revoke"}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <CreateApiTokenModal
+        isOpen={isCreateOpen}
+        isAdmin={isAdmin}
+        onCreated={handleCreated}
+        onCancel={() => setIsCreateOpen(false)}
+      />
+    </div>
+  );
+}
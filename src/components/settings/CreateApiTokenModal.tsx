@@ -0,0 +1,225 @@
+/**
+ * CreateApiTokenModal Component
+ *
+ * Dialog for creating an API token: name, scope and lifetime. Admins may also pick
+ * another account as the owner, which makes it a service token.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type {
+  ApiError,
+  ApiTokenCreatedResponse,
+  ApiTokenScopeType,
+  CreateApiTokenCommand,
+  PaginatedResponse,
+  UserListItemDto,
+} from "@/types";
+import { ApiTokenScope } from "@/types";
+
+const SELECT_CLASS_NAME =
+  "h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm focus:outline-none focus:ring-1 focus:ring-ring";
+
+export const SCOPE_LABELS: Record<ApiTokenScopeType, string> = {
+  read: "Read only",
+  review: "Review",
+  admin: "Admin",
+};
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScopeType, string> = {
+  read: "Read data (GET requests only).",
+  review: "Read data, review badge applications and approve promotions.",
+  admin: "Everything the owner can do in Badger.",
+};
+
+const LIFETIMES = [30, 90, 180, 365];
+
+interface CreateApiTokenModalProps {
+  isOpen: boolean;
+  isAdmin: boolean;
+  onCreated: (token: ApiTokenCreatedResponse) => void;
+  onCancel: () => void;
+}
+
+export function CreateApiTokenModal({ isOpen, isAdmin, onCreated, onCancel }: CreateApiTokenModalProps) {
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiTokenScopeType>(ApiTokenScope.Read);
+  const [lifetime, setLifetime] = useState(90);
+  const [ownerId, setOwnerId] = useState("");
+  const [users, setUsers] = useState<UserListItemDto[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from a blank form whenever the dialog is (re)opened
+  useEffect(() => {
+    if (isOpen) {
+      setName("");
+      setScope(ApiTokenScope.Read);
+      setLifetime(90);
+      setOwnerId("");
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Admins choose the owner of service tokens among active accounts, loaded when the dialog first opens
+  useEffect(() => {
+    if (!isOpen || !isAdmin || users) return;
+
+    const loadUsers = async () => {
+      try {
+        const response = await fetch("/api/users?status=active&limit=100");
+        if (!response.ok) throw new Error("Failed to load users");
+        const data: PaginatedResponse<UserListItemDto> = await response.json();
+        setUsers(data.data);
+      } catch {
+        setUsers([]);
+      }
+    };
+
+    loadUsers();
+  }, [isOpen, isAdmin, users]);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const command: CreateApiTokenCommand = {
+        name: name.trim(),
+        scope,
+        expires_in_days: lifetime,
+        ...(ownerId ? { user_id: ownerId } : {}),
+      };
+      const response = await fetch("/api/api-tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(command),
+      });
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to create token");
+      }
+      onCreated(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create token");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const scopes = Object.values(ApiTokenScope).filter((value) => isAdmin || value !== ApiTokenScope.Admin);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create API Token</DialogTitle>
+          <DialogDescription>
+            Scripts send the token as <code>Authorization: Bearer &lt;token&gt;</code>. It can never do more than its
+            owner&apos;s roles allow.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <label htmlFor="api-token-name" className="text-sm font-medium">
+              Name
+            </label>
+            <Input
+              id="api-token-name"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. HRIS sync"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label htmlFor="api-token-scope" className="text-sm font-medium">
+                Scope
+              </label>
+              <select
+                id="api-token-scope"
+                value={scope}
+                onChange={(e) => setScope(e.target.value as ApiTokenScopeType)}
+                className={SELECT_CLASS_NAME}
+              >
+                {scopes.map((value) => (
+                  <option key={value} value={value}>
+                    {SCOPE_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="api-token-lifetime" className="text-sm font-medium">
+                Expires after
+              </label>
+              <select
+                id="api-token-lifetime"
+                value={lifetime}
+                onChange={(e) => setLifetime(Number(e.target.value))}
+                className={SELECT_CLASS_NAME}
+              >
+                {LIFETIMES.map((days) => (
+                  <option key={days} value={days}>
+                    {days} days
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</p>
+
+          {isAdmin && (
+            <div className="space-y-1">
+              <label htmlFor="api-token-owner" className="text-sm font-medium">
+                Owner
+              </label>
+              <select
+                id="api-token-owner"
+                value={ownerId}
+                onChange={(e) => setOwnerId(e.target.value)}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">Me (personal token)</option>
+                {users?.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {user.display_name} ({user.email})
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                Service tokens act as the selected account, e.g. a dedicated integration user.
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={isSaving || !name.trim()}>
+            {isSaving ? "Creating..." : "Create token"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
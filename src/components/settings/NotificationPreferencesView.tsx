@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Switch } from "@/components/ui/switch";
+import type {
+  ApiError,
+  NotificationChannelType,
+  NotificationEventTypeType,
+  NotificationPreferenceDto,
+  NotificationPreferencesResponse,
+} from "@/types";
+import { NotificationChannel, NotificationEventType } from "@/types";
+
+/**
+ * Labels for each event type; adminOnly events are only sent to admins
+ */
+const EVENT_LABELS: { type: NotificationEventTypeType; label: string; adminOnly: boolean }[] = [
+  { type: NotificationEventType.BadgeApplicationAccepted, label: "My badge application is accepted", adminOnly: false },
+  { type: NotificationEventType.BadgeApplicationRejected, label: "My badge application is rejected", adminOnly: false },
+  { type: NotificationEventType.PromotionApproved, label: "My promotion is approved", adminOnly: false },
+  { type: NotificationEventType.PromotionRejected, label: "My promotion is rejected", adminOnly: false },
+  { type: NotificationEventType.BadgeApplicationSubmitted, label: "A badge application needs review", adminOnly: true },
+  { type: NotificationEventType.PromotionSubmitted, label: "A promotion needs review", adminOnly: true },
+];
+
+const CHANNEL_LABELS: { channel: NotificationChannelType; label: string }[] = [
+  { channel: NotificationChannel.InApp, label: "In-app" },
+  { channel: NotificationChannel.Email, label: "Email" },
+];
+
+interface NotificationPreferencesViewProps {
+  isAdmin: boolean;
+}
+
+/**
+ * NotificationPreferencesView Component
+ *
+ * Table of switches, one per event type and channel. Each change is saved
+ * immediately and rolled back if the request fails.
+ */
+export function NotificationPreferencesView({ isAdmin }: NotificationPreferencesViewProps) {
+  const [preferences, setPreferences] = useState<NotificationPreferenceDto[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch("/api/notifications/preferences");
+        if (response.status === 401) {
+          window.location.href = "/login?return=/settings/notifications";
+          return;
+        }
+        if (!response.ok) {
+          const errorData: ApiError = await response.json();
+          throw new Error(errorData.message || "Failed to load preferences");
+        }
+        const data: NotificationPreferencesResponse = await response.json();
+        setPreferences(data.preferences);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An unexpected error occurred");
+      }
+    };
+    load();
+  }, []);
+
+  const isEnabled = (eventType: NotificationEventTypeType, channel: NotificationChannelType) =>
+    preferences?.find((pref) => pref.event_type === eventType && pref.channel === channel)?.enabled ?? true;
+
+  /**
+   * Saves one switch optimistically
+   */
+  const handleChange = async (
+    eventType: NotificationEventTypeType,
+    channel: NotificationChannelType,
+    enabled: boolean
+  ) => {
+    const previous = preferences;
+    setPreferences(
+      (current) =>
+        current?.map((pref) =>
+          pref.event_type === eventType && pref.channel === channel ? { ...pref, enabled } : pref
+        ) ?? null
+    );
+
+    try {
+      const response = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ preferences: [{ event_type: eventType, channel, enabled }] }),
+      });
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to save preference");
+      }
+    } catch (err) {
+      setPreferences(previous);
+      toast.error("Could not save preference", {
+        description: err instanceof Error ? err.message : "An unexpected error occurred",
+      });
+    }
+  };
+
+  const events = EVENT_LABELS.filter((event) => isAdmin || !event.adminOnly);
+
+  return (
+    <div className="max-w-2xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Notification Settings</h1>
+        <p className="text-muted-foreground mt-1">Choose which updates reach you in Badger and by email.</p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4" role="alert">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      {preferences && (
+        <div className="rounded-lg border border-border bg-card">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-muted-foreground">
+              <tr>
+                <th className="px-4 py-3">Event</th>
+                {CHANNEL_LABELS.map((channel) => (
+                  <th key={channel.channel} className="px-4 py-3 text-center">
+                    {channel.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event.type} className="border-t border-border">
+                  <td className="px-4 py-3 text-foreground">{event.label}</td>
+                  {CHANNEL_LABELS.map((channel) => (
+                    <td key={channel.channel} className="px-4 py-3 text-center">
+                      <Switch
+                        checked={isEnabled(event.type, channel.channel)}
+                        onCheckedChange={(checked) => handleChange(event.type, channel.channel, checked)}
+                        aria-label={`${event.label} (${channel.label})`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React from "react";
+import { CheckCircle, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { TeamMemberCardProps } from "@/types";
+
+/**
+ * TeamMemberCard Component
+ *
+ * Shows one report on the "My team" dashboard: current path and level, the next
+ * level and how many of its badge requirements are already met.
+ */
+export function TeamMemberCard({ member }: TeamMemberCardProps) {
+  const { user, path, current_level, next_level, requirements } = member;
+  const satisfiedCount = requirements.filter((req) => req.satisfied).length;
+  const isReady = requirements.length > 0 && satisfiedCount === requirements.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2">
+          {user.display_name}
+          {user.team && <Badge variant="outline">{user.team}</Badge>}
+        </CardTitle>
+        <CardDescription>{user.email}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {/* Position */}
+        <div className="flex flex-wrap items-center gap-2">
+          {path ? (
+            <>
+              <Badge variant="secondary" className="capitalize">
+                {path}
+              </Badge>
+              <span className="text-muted-foreground">
+                {current_level} → {next_level ?? "top level"}
+              </span>
+            </>
+          ) : (
+            <span className="text-muted-foreground">No promotions yet, level unknown</span>
+          )}
+          {isReady && <Badge className="bg-green-600 text-white">Ready for promotion</Badge>}
+        </div>
+
+        {/* Requirements */}
+        {requirements.length > 0 && (
+          <div className="space-y-2">
+            <p className="font-medium">
+              {satisfiedCount} / {requirements.length} requirements met for {next_level}
+            </p>
+            <ul className="space-y-1">
+              {requirements.map((req, idx) => (
+                <li key={idx} className="flex items-center justify-between gap-2">
+                  <span>
+                    {req.category === "any" ? "Any Category" : req.category} • {req.level}
+                  </span>
+                  <span className="flex items-center gap-1 text-muted-foreground">
+                    {req.current} / {req.required}
+                    {req.satisfied ? (
+                      <CheckCircle className="h-4 w-4 text-green-600" aria-label="Met" />
+                    ) : (
+                      <XCircle className="h-4 w-4 text-yellow-600" aria-label="Not met" />
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Activity */}
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+          <span>{member.accepted_badge_count} unused accepted badges</span>
+          <span>{member.pending_application_count} awaiting review</span>
+          <span>{member.open_promotion_count} open promotions</span>
+          <a href={`/applications?applicant_id=${user.id}`} className="underline hover:no-underline">
+            View applications
+          </a>
+          <a href={`/roadmap?user_id=${user.id}`} className="underline hover:no-underline">
+            View roadmap
+          </a>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
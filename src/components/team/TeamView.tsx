@@ -0,0 +1,32 @@
+import React from "react";
+import type { TeamViewProps } from "@/types";
+import { TeamMemberCard } from "./TeamMemberCard";
+
+/**
+ * TeamView Component
+ *
+ * "My team" dashboard for managers: one card per direct or indirect report with
+ * their progress toward the next position level.
+ */
+export function TeamView({ members }: TeamViewProps) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">My Team</h1>
+        <p className="text-muted-foreground mt-1">Your reports&apos; progress toward their next level</p>
+      </div>
+
+      {members.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card p-8 text-center">
+          <p className="text-muted-foreground">Nobody reports to you yet</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {members.map((member) => (
+            <TeamMemberCard key={member.user.id} member={member} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
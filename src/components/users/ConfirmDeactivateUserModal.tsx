@@ -0,0 +1,57 @@
+/**
+ * ConfirmDeactivateUserModal Component
+ *
+ * Confirmation dialog for deactivating a user account.
+ */
+
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogCancel,
+  AlertDialogAction,
+} from "@/components/ui/alert-dialog";
+import type { ConfirmDeactivateUserModalProps } from "@/types";
+
+export function ConfirmDeactivateUserModal({ isOpen, user, onConfirm, onCancel }: ConfirmDeactivateUserModalProps) {
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsConfirming(true);
+    try {
+      await onConfirm();
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Deactivate Account?</AlertDialogTitle>
+          <AlertDialogDescription>
+            <span className="font-semibold">{user?.display_name}</span> ({user?.email}) will no longer be able to sign
+            in or open pages. Their badges and promotions are kept, and the account can be reactivated later.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel} disabled={isConfirming}>
+            Cancel
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={isConfirming}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isConfirming ? "Deactivating..." : "Deactivate"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
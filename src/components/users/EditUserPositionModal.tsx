@@ -0,0 +1,168 @@
+/**
+ * EditUserPositionModal Component
+ *
+ * Dialog for recording a user's current career path and level (e.g. when onboarding
+ * an engineer). The previous position stays in the user's history; approved
+ * promotions advance the position automatically.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { CareerLadderVersionDto, EditUserPositionModalProps, PromotionPathType } from "@/types";
+import { PromotionPath } from "@/types";
+
+const SELECT_CLASS_NAME =
+  "h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm focus:outline-none focus:ring-1 focus:ring-ring";
+
+const PATH_LABELS: Record<PromotionPathType, string> = {
+  technical: "Technical",
+  financial: "Financial",
+  management: "Management",
+};
+
+export function EditUserPositionModal({ isOpen, user, onSave, onCancel }: EditUserPositionModalProps) {
+  const [path, setPath] = useState<PromotionPathType>(PromotionPath.Technical);
+  const [level, setLevel] = useState("");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [ladder, setLadder] = useState<CareerLadderVersionDto | null>(null);
+  const [ladderError, setLadderError] = useState<string | null>(null);
+
+  // Levels come from the career ladder in force, loaded when the dialog first opens
+  useEffect(() => {
+    if (!isOpen || ladder) return;
+
+    const loadLadder = async () => {
+      try {
+        const response = await fetch("/api/position-levels");
+        if (!response.ok) {
+          throw new Error("Failed to load the career ladder");
+        }
+        setLadder(await response.json());
+        setLadderError(null);
+      } catch (err) {
+        setLadderError(err instanceof Error ? err.message : "Failed to load the career ladder");
+      }
+    };
+
+    loadLadder();
+  }, [isOpen, ladder]);
+
+  // Start from the user's current position whenever the dialog is (re)opened
+  useEffect(() => {
+    if (isOpen && user && ladder) {
+      const currentPath = (user.current_path as PromotionPathType | null) ?? PromotionPath.Technical;
+      setPath(currentPath);
+      setLevel(user.current_level ?? Object.keys(ladder.positions[currentPath] ?? {})[0] ?? "");
+      setNote("");
+    }
+  }, [isOpen, user, ladder]);
+
+  const levels = Object.keys(ladder?.positions[path] ?? {});
+
+  const handlePathChange = (value: PromotionPathType) => {
+    setPath(value);
+    setLevel(Object.keys(ladder?.positions[value] ?? {})[0] ?? "");
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ path, level, note: note.trim() || undefined });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isUnchanged = user?.current_path === path && user?.current_level === level;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Set Position</DialogTitle>
+          <DialogDescription>
+            Career path and level of <span className="font-semibold">{user?.display_name}</span> ({user?.email}).
+            Promotions can only start from this level.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label htmlFor="position-path" className="text-sm font-medium">
+                Path
+              </label>
+              <select
+                id="position-path"
+                value={path}
+                onChange={(e) => handlePathChange(e.target.value as PromotionPathType)}
+                className={SELECT_CLASS_NAME}
+              >
+                {Object.values(PromotionPath).map((value) => (
+                  <option key={value} value={value}>
+                    {PATH_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="position-level" className="text-sm font-medium">
+                Level
+              </label>
+              <select
+                id="position-level"
+                value={level}
+                onChange={(e) => setLevel(e.target.value)}
+                className={SELECT_CLASS_NAME}
+              >
+                {levels.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor="position-note" className="text-sm font-medium">
+              Note (optional)
+            </label>
+            <Input
+              id="position-note"
+              value={note}
+              maxLength={500}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Hired as senior engineer"
+            />
+          </div>
+
+          {ladderError && (
+            <p className="text-sm text-destructive" role="alert">
+              {ladderError}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !level || isUnchanged}>
+            {isSaving ? "Saving..." : "Save position"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * EditUserRolesModal Component
+ *
+ * Dialog for granting roles to a user. Reviewers can be limited to badge
+ * categories; with no category selected they review every category.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { BadgeCategoryType, EditUserRolesModalProps, UserRoleAssignment, UserRoleType } from "@/types";
+import { BadgeCategory, UserRole } from "@/types";
+
+const ROLE_OPTIONS: { role: UserRoleType; label: string; description: string }[] = [
+  {
+    role: UserRole.Reviewer,
+    label: "Reviewer",
+    description: "Accepts and rejects submitted badge applications",
+  },
+  {
+    role: UserRole.CatalogManager,
+    label: "Catalog manager",
+    description: "Edits the badge catalog and promotion templates",
+  },
+  {
+    role: UserRole.PromotionApprover,
+    label: "Promotion approver",
+    description: "Approves and rejects submitted promotions",
+  },
+];
+
+const CATEGORY_LABELS: Record<BadgeCategoryType, string> = {
+  technical: "Technical",
+  organizational: "Organizational",
+  softskilled: "Soft Skilled",
+};
+
+export function EditUserRolesModal({ isOpen, user, onSave, onCancel }: EditUserRolesModalProps) {
+  const [selectedRoles, setSelectedRoles] = useState<UserRoleType[]>([]);
+  const [reviewerCategories, setReviewerCategories] = useState<BadgeCategoryType[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load the user's current roles whenever the dialog is (re)opened
+  useEffect(() => {
+    if (isOpen && user) {
+      setSelectedRoles(user.roles.map((assignment) => assignment.role));
+      setReviewerCategories(user.roles.find((assignment) => assignment.role === UserRole.Reviewer)?.categories ?? []);
+    }
+  }, [isOpen, user]);
+
+  const toggleRole = (role: UserRoleType) => {
+    setSelectedRoles((current) => (current.includes(role) ? current.filter((r) => r !== role) : [...current, role]));
+  };
+
+  const toggleCategory = (category: BadgeCategoryType) => {
+    setReviewerCategories((current) =>
+      current.includes(category) ? current.filter((c) => c !== category) : [...current, category]
+    );
+  };
+
+  const handleSave = async () => {
+    const roles: UserRoleAssignment[] = selectedRoles.map((role) => ({
+      role,
+      categories: role === UserRole.Reviewer && reviewerCategories.length > 0 ? reviewerCategories : null,
+    }));
+
+    setIsSaving(true);
+    try {
+      await onSave(roles);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Roles</DialogTitle>
+          <DialogDescription>
+            Roles for <span className="font-semibold">{user?.display_name}</span> ({user?.email}).
+            {user?.is_admin && " Admins already hold every permission; roles take effect if admin rights are removed."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-3">
+          {ROLE_OPTIONS.map((option) => (
+            <li key={option.role} className="rounded-md border p-3">
+              <div className="flex items-start gap-3">
+                <input
+                  id={`role-${option.role}`}
+                  type="checkbox"
+                  checked={selectedRoles.includes(option.role)}
+                  onChange={() => toggleRole(option.role)}
+                  className="mt-0.5 h-4 w-4 rounded border-input"
+                />
+                <div>
+                  <label htmlFor={`role-${option.role}`} className="block text-sm font-medium">
+                    {option.label}
+                  </label>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </div>
+              </div>
+
+              {option.role === UserRole.Reviewer && selectedRoles.includes(UserRole.Reviewer) && (
+                <fieldset className="mt-3 ml-7 space-y-1">
+                  <legend className="text-xs text-muted-foreground">
+                    Limit to categories (none selected = all categories)
+                  </legend>
+                  {Object.values(BadgeCategory).map((category) => (
+                    <label key={category} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={reviewerCategories.includes(category)}
+                        onChange={() => toggleCategory(category)}
+                        className="h-4 w-4 rounded border-input"
+                      />
+                      {CATEGORY_LABELS[category]}
+                    </label>
+                  ))}
+                </fieldset>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save roles"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * ImportOrgChartModal Component
+ *
+ * Modal dialog for importing managers and teams from CSV.
+ * Runs a dry run first and shows the per-row report (errors and unchanged rows);
+ * the import can only be committed once every row is valid.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { ApiError, ImportOrgChartModalProps, ImportRowResult, OrgChartImportReportDto } from "@/types";
+
+const ROW_STATUS_STYLES: Record<ImportRowResult["status"], string> = {
+  valid: "text-green-700 dark:text-green-400",
+  invalid: "text-destructive",
+  duplicate: "text-muted-foreground",
+};
+
+export function ImportOrgChartModal({ isOpen, onClose, onSuccess }: ImportOrgChartModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<string | null>(null);
+  const [report, setReport] = useState<OrgChartImportReportDto | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset state whenever the dialog is (re)opened
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null);
+      setCsv(null);
+      setReport(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  /**
+   * Sends the CSV to the import endpoint
+   */
+  const runImport = async (content: string, dryRun: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/users/org-chart", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv: content, dry_run: dryRun }),
+      });
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        const details = errorData.details as { report?: OrgChartImportReportDto } | undefined;
+        if (details?.report) {
+          setReport(details.report);
+        }
+        throw new Error(errorData.message || "Failed to import org chart");
+      }
+
+      const data: OrgChartImportReportDto = await response.json();
+      setReport(data);
+
+      if (data.committed) {
+        await onSuccess();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Reads the selected file and runs a dry run
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setReport(null);
+    const content = await file.text();
+    setCsv(content);
+    await runImport(content, true);
+  };
+
+  const canCommit =
+    !!csv && !!report && !report.committed && report.invalid_rows === 0 && report.valid_rows > 0 && !isSubmitting;
+  const listedRows = report?.rows.filter((row) => row.status !== "valid") ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Import Org Chart from CSV</DialogTitle>
+          <DialogDescription>
+            Columns: email, manager_email and optionally team. An empty manager_email removes the manager; rows are
+            checked (including reporting cycles) before anything is changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* File picker */}
+          <div className="space-y-2">
+            <label htmlFor="org-chart-csv" className="text-sm font-medium text-foreground">
+              CSV file
+            </label>
+            <input
+              id="org-chart-csv"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              disabled={isSubmitting}
+              className="block w-full text-sm text-muted-foreground file:mr-4 file:rounded-md file:border-0 file:bg-secondary file:px-4 file:py-2 file:text-sm file:font-medium file:text-secondary-foreground"
+            />
+            {fileName && <p className="text-xs text-muted-foreground">{fileName}</p>}
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          {/* Report */}
+          {report && (
+            <div className="rounded-md border border-border p-3 space-y-3 text-sm">
+              <p className="font-medium text-foreground">
+                {report.committed
+                  ? `Updated ${report.updated_user_ids.length} user${report.updated_user_ids.length === 1 ? "" : "s"}`
+                  : "Dry run"}
+              </p>
+              <ul className="flex flex-wrap gap-4 text-muted-foreground">
+                <li>{report.total_rows} rows</li>
+                <li className={ROW_STATUS_STYLES.valid}>{report.valid_rows} valid</li>
+                <li className={ROW_STATUS_STYLES.invalid}>{report.invalid_rows} invalid</li>
+                <li>{report.duplicate_rows} unchanged (skipped)</li>
+              </ul>
+
+              {listedRows.length > 0 && (
+                <div className="max-h-64 overflow-y-auto">
+                  <table className="w-full text-left">
+                    <thead className="text-xs uppercase text-muted-foreground">
+                      <tr>
+                        <th className="py-1 pr-2">Row</th>
+                        <th className="py-1 pr-2">Email</th>
+                        <th className="py-1">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {listedRows.map((row) => (
+                        <tr key={row.row} className="border-t border-border align-top">
+                          <td className="py-1 pr-2">{row.row}</td>
+                          <td className="py-1 pr-2">{row.label ?? "—"}</td>
+                          <td className={`py-1 ${ROW_STATUS_STYLES[row.status]}`}>
+                            {row.status === "duplicate"
+                              ? "Manager and team already set"
+                              : row.errors.map((err) => `${err.field}: ${err.message}`).join("; ")}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            {report?.committed ? "Close" : "Cancel"}
+          </Button>
+          {!report?.committed && (
+            <Button type="button" onClick={() => csv && runImport(csv, false)} disabled={!canCommit}>
+              {isSubmitting
+                ? "Working..."
+                : `Update ${report?.valid_rows ?? 0} user${report?.valid_rows === 1 ? "" : "s"}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
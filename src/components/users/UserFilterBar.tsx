@@ -0,0 +1,92 @@
+import React, { useState } from "react";
+import type { UserFilterBarProps, UserStatusType } from "@/types";
+import { UserStatus } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { X, Search } from "lucide-react";
+
+const SELECT_CLASS_NAME =
+  "h-9 rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors hover:bg-accent hover:text-accent-foreground focus:outline-none focus:ring-1 focus:ring-ring";
+
+/**
+ * UserFilterBar Component
+ *
+ * Filtering interface for the user management page: name/email search
+ * (applied on submit), account status and role.
+ */
+export function UserFilterBar(props: UserFilterBarProps) {
+  const { filters, onFilterChange, resultCount, hasActiveFilters } = props;
+
+  const [search, setSearch] = useState(filters.search ?? "");
+
+  // Keep the search input in sync when filters are cleared
+  const [appliedSearch, setAppliedSearch] = useState(filters.search);
+  if (appliedSearch !== filters.search) {
+    setAppliedSearch(filters.search);
+    setSearch(filters.search ?? "");
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onFilterChange({ search: search.trim() || undefined });
+  };
+
+  const handleClearFilters = () => {
+    onFilterChange({ search: undefined, status: undefined, is_admin: undefined, offset: 0 });
+  };
+
+  return (
+    <div className="space-y-4">
+      <form className="flex items-end gap-2 flex-wrap" onSubmit={handleSubmit}>
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name or email"
+          className="w-72"
+          aria-label="Search users"
+        />
+        <Button type="submit" variant="outline" size="sm" className="h-9 px-3">
+          <Search className="h-4 w-4 mr-2" />
+          Search
+        </Button>
+
+        <select
+          value={filters.status ?? ""}
+          onChange={(e) => onFilterChange({ status: (e.target.value || undefined) as UserStatusType })}
+          className={SELECT_CLASS_NAME}
+          aria-label="Account status"
+        >
+          <option value="">All accounts</option>
+          <option value={UserStatus.Active}>Active</option>
+          <option value={UserStatus.Deactivated}>Deactivated</option>
+        </select>
+
+        <select
+          value={filters.is_admin === undefined ? "" : String(filters.is_admin)}
+          onChange={(e) => onFilterChange({ is_admin: e.target.value === "" ? undefined : e.target.value === "true" })}
+          className={SELECT_CLASS_NAME}
+          aria-label="Role"
+        >
+          <option value="">All roles</option>
+          <option value="true">Admins</option>
+          <option value="false">Members</option>
+        </select>
+      </form>
+
+      {/* Result Count and Clear Filters */}
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <div>
+          <span className="font-medium text-foreground">{resultCount}</span>
+          {resultCount === 1 ? " user" : " users"}
+        </div>
+
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={handleClearFilters} className="h-8 px-2 text-xs">
+            <X className="h-3 w-3 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
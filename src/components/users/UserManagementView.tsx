@@ -0,0 +1,148 @@
+import React, { useState } from "react";
+import type { SetUserPositionCommand, UserListItemDto, UserManagementViewProps, UserRoleAssignment } from "@/types";
+import { useUsers } from "@/hooks/useUsers";
+import { Pagination } from "@/components/audit-logs/Pagination";
+import { UserFilterBar } from "./UserFilterBar";
+import { UserTable } from "./UserTable";
+import { ConfirmDeactivateUserModal } from "./ConfirmDeactivateUserModal";
+import { EditUserRolesModal } from "./EditUserRolesModal";
+import { EditUserPositionModal } from "./EditUserPositionModal";
+import { ImportOrgChartModal } from "./ImportOrgChartModal";
+import { Button } from "@/components/ui/button";
+
+/**
+ * UserManagementView Component
+ *
+ * Main interactive component for the admin user management page. Lists and
+ * searches users, grants or revokes admin rights and roles, sets career positions,
+ * signs users out of every device, deactivates or reactivates accounts and imports the org chart. Deactivation asks for
+ * confirmation first.
+ */
+export function UserManagementView(props: UserManagementViewProps) {
+  const { initialData, currentUserId } = props;
+
+  const {
+    users,
+    pagination,
+    filters,
+    isLoading,
+    error,
+    pendingUserId,
+    updateFilters,
+    goToPage,
+    refetch,
+    setAdmin,
+    deactivateUser,
+    reactivateUser,
+    signOutUser,
+    setRoles,
+    setPosition,
+  } = useUsers({ initialData });
+
+  const [userToDeactivate, setUserToDeactivate] = useState<UserListItemDto | null>(null);
+  const [userToEditRoles, setUserToEditRoles] = useState<UserListItemDto | null>(null);
+  const [userToEditPosition, setUserToEditPosition] = useState<UserListItemDto | null>(null);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+
+  const handleToggleActive = (user: UserListItemDto) => {
+    if (user.deactivated_at) {
+      reactivateUser(user);
+    } else {
+      setUserToDeactivate(user);
+    }
+  };
+
+  const handleConfirmDeactivate = async () => {
+    if (!userToDeactivate) return;
+    await deactivateUser(userToDeactivate);
+    setUserToDeactivate(null);
+  };
+
+  const handleSaveRoles = async (roles: UserRoleAssignment[]) => {
+    if (!userToEditRoles) return;
+    await setRoles(userToEditRoles, roles);
+    setUserToEditRoles(null);
+  };
+
+  const handleSavePosition = async (command: SetUserPositionCommand) => {
+    if (!userToEditPosition) return;
+    await setPosition(userToEditPosition, command);
+    setUserToEditPosition(null);
+  };
+
+  const hasActiveFilters = !!(filters.search || filters.status || filters.is_admin !== undefined);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">User Management</h1>
+          <p className="text-muted-foreground mt-1">
+            Manage admin rights, roles, positions, managers and account access
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setIsImportModalOpen(true)}>
+          Import org chart
+        </Button>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4">
+          <p className="text-sm font-medium text-destructive">Error loading users</p>
+          <p className="text-sm text-destructive/80">{error}</p>
+          <button
+            onClick={() => refetch()}
+            className="mt-2 text-sm font-medium text-destructive underline hover:no-underline"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+
+      <UserFilterBar
+        filters={filters}
+        onFilterChange={updateFilters}
+        resultCount={pagination.total}
+        hasActiveFilters={hasActiveFilters}
+      />
+
+      <UserTable
+        users={users}
+        currentUserId={currentUserId}
+        isLoading={isLoading}
+        pendingUserId={pendingUserId}
+        onToggleAdmin={(user) => setAdmin(user, !user.is_admin)}
+        onToggleActive={handleToggleActive}
+        onSignOut={signOutUser}
+        onEditRoles={setUserToEditRoles}
+        onEditPosition={setUserToEditPosition}
+      />
+
+      {pagination.total > 0 && <Pagination pagination={pagination} onPageChange={goToPage} />}
+
+      <ConfirmDeactivateUserModal
+        isOpen={userToDeactivate !== null}
+        user={userToDeactivate}
+        onConfirm={handleConfirmDeactivate}
+        onCancel={() => setUserToDeactivate(null)}
+      />
+
+      <EditUserRolesModal
+        isOpen={userToEditRoles !== null}
+        user={userToEditRoles}
+        onSave={handleSaveRoles}
+        onCancel={() => setUserToEditRoles(null)}
+      />
+
+      <EditUserPositionModal
+        isOpen={userToEditPosition !== null}
+        user={userToEditPosition}
+        onSave={handleSavePosition}
+        onCancel={() => setUserToEditPosition(null)}
+      />
+
+      <ImportOrgChartModal isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} onSuccess={refetch} />
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import React from "react";
+import type { UserRoleAssignment, UserRoleType, UserTableProps } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+const ROLE_LABELS: Record<UserRoleType, string> = {
+  reviewer: "Reviewer",
+  catalog_manager: "Catalog manager",
+  promotion_approver: "Promotion approver",
+};
+
+/**
+ * Formats a role badge label, including reviewer category scopes
+ */
+function formatRole(assignment: UserRoleAssignment): string {
+  const label = ROLE_LABELS[assignment.role] ?? assignment.role;
+  return assignment.categories ? `${label} (${assignment.categories.join(", ")})` : label;
+}
+
+/**
+ * UserTable Component
+ *
+ * Displays users as a table (name, email, team, position, roles, status, last seen) with
+ * admin, role, position, sign-out and activation actions. The current admin's own row has no actions.
+ */
+export function UserTable(props: UserTableProps) {
+  const {
+    users,
+    currentUserId,
+    isLoading,
+    pendingUserId,
+    onToggleAdmin,
+    onToggleActive,
+    onSignOut,
+    onEditRoles,
+    onEditPosition,
+  } = props;
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg border border-border bg-card p-8 text-center">
+        <div className="animate-pulse space-y-4">
+          <div className="h-10 bg-muted rounded" />
+          <div className="h-10 bg-muted rounded" />
+          <div className="h-10 bg-muted rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  if (users.length === 0) {
+    return (
+      <div className="rounded-lg border border-border bg-card p-8 text-center">
+        <p className="text-muted-foreground">No users match the current filters</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-border bg-card">
+      <table className="w-full text-sm">
+        <thead className="border-b border-border bg-muted/50 text-left text-xs uppercase text-muted-foreground">
+          <tr>
+            <th className="px-4 py-2 font-medium">User</th>
+            <th className="px-4 py-2 font-medium">Position</th>
+            <th className="px-4 py-2 font-medium">Role</th>
+            <th className="px-4 py-2 font-medium">Status</th>
+            <th className="px-4 py-2 font-medium">Last seen</th>
+            <th className="px-4 py-2 font-medium text-right">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {users.map((user) => {
+            const isSelf = user.id === currentUserId;
+            const isPending = pendingUserId === user.id;
+            const isDeactivated = !!user.deactivated_at;
+
+            return (
+              <tr key={user.id} className="border-b border-border last:border-0 align-middle">
+                <td className="px-4 py-2">
+                  <p className="font-medium">
+                    {user.display_name}
+                    {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{user.email}</p>
+                  {user.team && <p className="text-xs text-muted-foreground">Team: {user.team}</p>}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  {user.current_path && user.current_level ? (
+                    <span className="capitalize">
+                      {user.current_path} {user.current_level}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">Not set</span>
+                  )}
+                </td>
+                <td className="px-4 py-2">
+                  <div className="flex flex-wrap gap-1">
+                    {user.is_admin && <Badge>Admin</Badge>}
+                    {user.roles.map((assignment) => (
+                      <Badge key={assignment.role} variant="secondary">
+                        {formatRole(assignment)}
+                      </Badge>
+                    ))}
+                    {!user.is_admin && user.roles.length === 0 && <span className="text-muted-foreground">Member</span>}
+                  </div>
+                </td>
+                <td className="px-4 py-2">
+                  {isDeactivated ? (
+                    <Badge variant="destructive" title={new Date(user.deactivated_at ?? "").toLocaleString()}>
+                      Deactivated
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">Active</Badge>
+                  )}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-muted-foreground">
+                  {user.last_seen_at ? new Date(user.last_seen_at).toLocaleString() : "Never"}
+                </td>
+                <td className="px-4 py-2">
+                  {!isSelf && (
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onToggleAdmin(user)}
+                        disabled={isPending || (isDeactivated && !user.is_admin)}
+                      >
+                        {user.is_admin ? "Remove admin" : "Make admin"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onEditRoles(user)}
+                        disabled={isPending || isDeactivated}
+                      >
+                        Roles
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onEditPosition(user)}
+                        disabled={isPending || isDeactivated}
+                      >
+                        Position
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onSignOut(user)}
+                        disabled={isPending || isDeactivated}
+                        title="Sign out of every device"
+                      >
+                        Sign out
+                      </Button>
+                      <Button
+                        variant={isDeactivated ? "outline" : "destructive"}
+                        size="sm"
+                        onClick={() => onToggleActive(user)}
+                        disabled={isPending}
+                      >
+                        {isDeactivated ? "Reactivate" : "Deactivate"}
+                      </Button>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * CreateWebhookModal Component
+ *
+ * Dialog for creating a webhook subscription: receiver URL, description and the
+ * audit event types to send, grouped by resource.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type {
+  ApiError,
+  AuditEventTypeType,
+  CreateWebhookSubscriptionCommand,
+  WebhookSubscriptionCreatedResponse,
+} from "@/types";
+import { AuditEventType } from "@/types";
+
+// Event types grouped by the resource before the dot, e.g. "promotion"
+const EVENT_GROUPS = Object.values(AuditEventType).reduce<Record<string, AuditEventTypeType[]>>((groups, type) => {
+  const resource = type.split(".")[0];
+  (groups[resource] ??= []).push(type);
+  return groups;
+}, {});
+
+// Preselected for a new subscription: the badge and promotion lifecycle
+const DEFAULT_EVENT_TYPES: AuditEventTypeType[] = [
+  AuditEventType.BadgeApplicationSubmitted,
+  AuditEventType.BadgeApplicationAccepted,
+  AuditEventType.BadgeApplicationRejected,
+  AuditEventType.PromotionSubmitted,
+  AuditEventType.PromotionApproved,
+  AuditEventType.PromotionRejected,
+];
+
+interface CreateWebhookModalProps {
+  isOpen: boolean;
+  onCreated: (webhook: WebhookSubscriptionCreatedResponse) => void;
+  onCancel: () => void;
+}
+
+export function CreateWebhookModal({ isOpen, onCreated, onCancel }: CreateWebhookModalProps) {
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [eventTypes, setEventTypes] = useState<AuditEventTypeType[]>(DEFAULT_EVENT_TYPES);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from a blank form whenever the dialog is (re)opened
+  useEffect(() => {
+    if (isOpen) {
+      setUrl("");
+      setDescription("");
+      setEventTypes(DEFAULT_EVENT_TYPES);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const toggleEventType = (type: AuditEventTypeType, checked: boolean) => {
+    setEventTypes((current) => (checked ? [...current, type] : current.filter((item) => item !== type)));
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const command: CreateWebhookSubscriptionCommand = {
+        url: url.trim(),
+        event_types: eventTypes,
+        description: description.trim() || null,
+      };
+      const response = await fetch("/api/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(command),
+      });
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        const detail = Array.isArray(errorData.details) ? errorData.details[0]?.message : undefined;
+        throw new Error(detail || errorData.message || "Failed to create webhook");
+      }
+      onCreated(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create webhook");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create Webhook</DialogTitle>
+          <DialogDescription>Badger POSTs a signed JSON payload to the URL for every selected event.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <label htmlFor="webhook-url" className="text-sm font-medium">
+              URL
+            </label>
+            <Input
+              id="webhook-url"
+              type="url"
+              value={url}
+              maxLength={2000}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://hr.example.com/hooks/badger"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor="webhook-description" className="text-sm font-medium">
+              Description
+            </label>
+            <Input
+              id="webhook-description"
+              value={description}
+              maxLength={200}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. HRIS promotion sync"
+            />
+          </div>
+
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-medium">Events</legend>
+            {Object.entries(EVENT_GROUPS).map(([resource, types]) => (
+              <div key={resource} className="space-y-1">
+                <p className="text-xs uppercase text-muted-foreground">{resource.replace(/_/g, " ")}</p>
+                <div className="grid grid-cols-2 gap-1">
+                  {types.map((type) => (
+                    <label key={type} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={eventTypes.includes(type)}
+                        onChange={(e) => toggleEventType(type, e.target.checked)}
+                      />
+                      <code className="text-xs">{type}</code>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </fieldset>
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={isSaving || !url.trim() || eventTypes.length === 0}>
+            {isSaving ? "Creating..." : "Create webhook"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,237 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { RotateCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { timeAgo } from "@/components/navigation/NotificationBell";
+import type {
+  ApiError,
+  PaginatedResponse,
+  WebhookDeliveryDto,
+  WebhookDeliveryStatusType,
+  WebhookSubscriptionDto,
+} from "@/types";
+import { WebhookDeliveryStatus } from "@/types";
+
+const SELECT_CLASS_NAME =
+  "h-9 rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm focus:outline-none focus:ring-1 focus:ring-ring";
+
+const PAGE_SIZE = 20;
+
+const STATUS_BADGES: Record<
+  WebhookDeliveryStatusType,
+  { label: string; variant: "secondary" | "outline" | "destructive" }
+> = {
+  pending: { label: "Pending", variant: "outline" },
+  sending: { label: "Sending", variant: "outline" },
+  succeeded: { label: "Delivered", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+interface WebhookDeliveryLogProps {
+  webhook: WebhookSubscriptionDto;
+  // Incremented by the parent to reload the log, e.g. after a test event
+  refreshKey: number;
+}
+
+/**
+ * WebhookDeliveryLog Component
+ *
+ * Delivery log of one webhook, newest first: status, attempts and the receiver's
+ * last response. A row expands to its payload and error; any delivery can be sent
+ * again with Redeliver.
+ */
+export function WebhookDeliveryLog({ webhook, refreshKey }: WebhookDeliveryLogProps) {
+  const [page, setPage] = useState<PaginatedResponse<WebhookDeliveryDto> | null>(null);
+  const [status, setStatus] = useState<WebhookDeliveryStatusType | "">("");
+  const [offset, setOffset] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (status) params.set("status", status);
+
+      const response = await fetch(`/api/webhooks/${webhook.id}/deliveries?${params}`);
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to load deliveries");
+      }
+      setPage(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    }
+  }, [webhook.id, status, offset]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries, refreshKey]);
+
+  const handleRedeliver = async (delivery: WebhookDeliveryDto) => {
+    setRedeliveringId(delivery.id);
+    try {
+      const response = await fetch(`/api/webhooks/deliveries/${delivery.id}/redeliver`, { method: "POST" });
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to redeliver");
+      }
+      const sent: WebhookDeliveryDto = await response.json();
+      if (sent.status === WebhookDeliveryStatus.Succeeded) {
+        toast.success(`Redelivered ${delivery.event_type}`);
+      } else {
+        toast.error("Redelivery failed; it will be retried", { description: sent.last_error ?? undefined });
+      }
+      setOffset(0);
+      loadDeliveries();
+    } catch (err) {
+      toast.error("Could not redeliver", {
+        description: err instanceof Error ? err.message : "An unexpected error occurred",
+      });
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  return (
+    <section className="space-y-3" aria-label={`Deliveries for ${webhook.url}`}>
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold">
+          Deliveries <span className="text-sm font-normal text-muted-foreground break-all">{webhook.url}</span>
+        </h2>
+        <select
+          aria-label="Filter by status"
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as WebhookDeliveryStatusType | "");
+            setOffset(0);
+          }}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value="">All statuses</option>
+          {Object.values(WebhookDeliveryStatus).map((value) => (
+            <option key={value} value={value}>
+              {STATUS_BADGES[value].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4" role="alert">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      {page && page.data.length === 0 && <p className="text-sm text-muted-foreground">No deliveries yet.</p>}
+
+      {page && page.data.length > 0 && (
+        <div className="rounded-lg border border-border bg-card overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-muted-foreground">
+              <tr>
+                <th className="px-4 py-3">Event</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3">Attempts</th>
+                <th className="px-4 py-3">Response</th>
+                <th className="px-4 py-3">Queued</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {page.data.map((delivery) => {
+                const badge = STATUS_BADGES[delivery.status];
+                const isExpanded = expandedId === delivery.id;
+                return (
+                  <Fragment key={delivery.id}>
+                    <tr className="border-t border-border">
+                      <td className="px-4 py-3">
+                        <button
+                          type="button"
+                          className="text-left hover:underline"
+                          aria-expanded={isExpanded}
+                          onClick={() => setExpandedId(isExpanded ? null : delivery.id)}
+                        >
+                          <code className="text-xs">{delivery.event_type}</code>
+                        </button>
+                        {delivery.redelivery_of && (
+                          <Badge variant="outline" className="ml-2">
+                            Redelivery
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                        {delivery.status === WebhookDeliveryStatus.Pending && delivery.attempts > 0 && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            retry {new Date(delivery.next_attempt_at).toLocaleTimeString()}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">{delivery.attempts}</td>
+                      <td className="px-4 py-3 text-muted-foreground">{delivery.response_status ?? "—"}</td>
+                      <td className="px-4 py-3 text-muted-foreground">{timeAgo(delivery.created_at)}</td>
+                      <td className="px-4 py-3 text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRedeliver(delivery)}
+                          disabled={redeliveringId === delivery.id || !webhook.is_active}
+                        >
+                          <RotateCw className="size-4" aria-hidden="true" />
+                          {redeliveringId === delivery.id ? "Sending..." : "Redeliver"}
+                        </Button>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-t border-border bg-muted/40">
+                        <td colSpan={6} className="px-4 py-3 space-y-2">
+                          {delivery.last_error && <p className="text-sm text-destructive">{delivery.last_error}</p>}
+                          <div>
+                            <p className="text-xs uppercase text-muted-foreground">Payload</p>
+                            <pre className="overflow-x-auto text-xs">{JSON.stringify(delivery.payload, null, 2)}</pre>
+                          </div>
+                          {delivery.response_body && (
+                            <div>
+                              <p className="text-xs uppercase text-muted-foreground">Response body</p>
+                              <pre className="overflow-x-auto whitespace-pre-wrap text-xs">
+                                {delivery.response_body}
+                              </pre>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {page && page.pagination.total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={!page.pagination.has_more}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Copy, Send, Trash2, Webhook } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import type { ApiError, WebhookDeliveryDto, WebhookSubscriptionCreatedResponse, WebhookSubscriptionDto } from "@/types";
+import { WebhookDeliveryStatus } from "@/types";
+import { CreateWebhookModal } from "./CreateWebhookModal";
+import { WebhookDeliveryLog } from "./WebhookDeliveryLog";
+
+/**
+ * WebhooksView Component
+ *
+ * Admin page for outbound webhooks: lists subscriptions, creates them (the signing
+ * secret is shown once), enables/disables and deletes them, sends test events and
+ * shows the delivery log of the selected subscription.
+ */
+export function WebhooksView() {
+  const [webhooks, setWebhooks] = useState<WebhookSubscriptionDto[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [createdWebhook, setCreatedWebhook] = useState<WebhookSubscriptionCreatedResponse | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [logRefreshKey, setLogRefreshKey] = useState(0);
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const response = await fetch("/api/webhooks");
+      if (response.status === 401) {
+        window.location.href = "/login?return=/admin/webhooks";
+        return;
+      }
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to load webhooks");
+      }
+      setWebhooks(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const handleCreated = (webhook: WebhookSubscriptionCreatedResponse) => {
+    setIsCreateOpen(false);
+    setCreatedWebhook(webhook);
+    setSelectedId(webhook.id);
+    loadWebhooks();
+  };
+
+  const handleToggleActive = async (webhook: WebhookSubscriptionDto, isActive: boolean) => {
+    setBusyId(webhook.id);
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_active: isActive }),
+      });
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to update webhook");
+      }
+      const updated: WebhookSubscriptionDto = await response.json();
+      setWebhooks((current) => current?.map((item) => (item.id === updated.id ? updated : item)) ?? null);
+    } catch (err) {
+      toast.error("Could not update webhook", {
+        description: err instanceof Error ? err.message : "An unexpected error occurred",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSendTest = async (webhook: WebhookSubscriptionDto) => {
+    setBusyId(webhook.id);
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}/test`, { method: "POST" });
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to send test event");
+      }
+      const sent: WebhookDeliveryDto = await response.json();
+      if (sent.status === WebhookDeliveryStatus.Succeeded) {
+        toast.success(`Test event delivered (HTTP ${sent.response_status})`);
+      } else {
+        toast.error("Test event failed; it will be retried", { description: sent.last_error ?? undefined });
+      }
+      setSelectedId(webhook.id);
+      setLogRefreshKey((key) => key + 1);
+    } catch (err) {
+      toast.error("Could not send test event", {
+        description: err instanceof Error ? err.message : "An unexpected error occurred",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (webhook: WebhookSubscriptionDto) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) {
+      return;
+    }
+
+    setBusyId(webhook.id);
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to delete webhook");
+      }
+      setWebhooks((current) => current?.filter((item) => item.id !== webhook.id) ?? null);
+      if (selectedId === webhook.id) setSelectedId(null);
+      toast.success("Webhook deleted");
+    } catch (err) {
+      toast.error("Could not delete webhook", {
+        description: err instanceof Error ? err.message : "An unexpected error occurred",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdWebhook) return;
+    try {
+      await navigator.clipboard.writeText(createdWebhook.secret);
+      toast.success("Secret copied to clipboard");
+    } catch {
+      toast.error("Could not copy the secret; select and copy it manually");
+    }
+  };
+
+  const selected = webhooks?.find((webhook) => webhook.id === selectedId) ?? null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Webhooks</h1>
+          <p className="text-muted-foreground mt-1">
+            Send badge and promotion events to HR tools and chat bots. Payloads are signed with each webhook&apos;s
+            secret; failed deliveries are retried with exponential backoff.
+          </p>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Webhook className="size-4" aria-hidden="true" />
+          New webhook
+        </Button>
+      </div>
+
+      {createdWebhook && (
+        <div className="rounded-lg border border-primary bg-primary/5 p-4 space-y-2" role="status">
+          <p className="text-sm font-medium">
+            Webhook created. Copy its signing secret now; it will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 break-all rounded-md bg-muted px-3 py-2 text-sm">{createdWebhook.secret}</code>
+            <Button variant="outline" size="sm" onClick={handleCopy} aria-label="Copy secret">
+              <Copy className="size-4" aria-hidden="true" />
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setCreatedWebhook(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4" role="alert">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      {webhooks && webhooks.length === 0 && <p className="text-sm text-muted-foreground">No webhooks yet.</p>}
+
+      {webhooks && webhooks.length > 0 && (
+        <div className="rounded-lg border border-border bg-card overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-muted-foreground">
+              <tr>
+                <th className="px-4 py-3">URL</th>
+                <th className="px-4 py-3">Events</th>
+                <th className="px-4 py-3">Active</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {webhooks.map((webhook) => (
+                <tr
+                  key={webhook.id}
+                  className={`border-t border-border ${webhook.id === selectedId ? "bg-muted/40" : ""}`}
+                >
+                  <td className="px-4 py-3">
+                    <button
+                      type="button"
+                      className="text-left font-medium text-foreground break-all hover:underline"
+                      onClick={() => setSelectedId(webhook.id)}
+                    >
+                      {webhook.url}
+                    </button>
+                    {webhook.description && <div className="text-xs text-muted-foreground">{webhook.description}</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.event_types.map((type) => (
+                        <Badge key={type} variant="outline">
+                          {type}
+                        </Badge>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <Switch
+                      checked={webhook.is_active}
+                      disabled={busyId === webhook.id}
+                      onCheckedChange={(checked) => handleToggleActive(webhook, checked)}
+                      aria-label={webhook.is_active ? "Disable webhook" : "Enable webhook"}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSendTest(webhook)}
+                        disabled={busyId === webhook.id || !webhook.is_active}
+                      >
+                        <Send className="size-4" aria-hidden="true" />
+                        Send test
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(webhook)}
+                        disabled={busyId === webhook.id}
+                        aria-label="Delete webhook"
+                      >
+                        <Trash2 className="size-4" aria-hidden="true" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selected && <WebhookDeliveryLog webhook={selected} refreshKey={logRefreshKey} />}
+
+      <CreateWebhookModal isOpen={isCreateOpen} onCreated={handleCreated} onCancel={() => setIsCreateOpen(false)} />
+    </div>
+  );
+}
@@ -20,6 +20,76 @@ export interface Database {
   };
   public: {
     Tables: {
+      api_tokens: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          expires_at: string;
+          id: string;
+          kind: string;
+          last_used_at: string | null;
+          name: string;
+          revoked_at: string | null;
+          revoked_by: string | null;
+          scope: string;
+          token_hash: string;
+          token_prefix: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          expires_at: string;
+          id?: string;
+          kind?: string;
+          last_used_at?: string | null;
+          name: string;
+          revoked_at?: string | null;
+          revoked_by?: string | null;
+          scope: string;
+          token_hash: string;
+          token_prefix: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          expires_at?: string;
+          id?: string;
+          kind?: string;
+          last_used_at?: string | null;
+          name?: string;
+          revoked_at?: string | null;
+          revoked_by?: string | null;
+          scope?: string;
+          token_hash?: string;
+          token_prefix?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "api_tokens_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "api_tokens_revoked_by_fkey";
+            columns: ["revoked_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "api_tokens_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       audit_logs: {
         Row: {
           actor_id: string | null;
@@ -27,6 +97,8 @@ export interface Database {
           event_type: string;
           id: string;
           payload: Json | null;
+          resource_id: string | null;
+          resource_type: string | null;
         };
         Insert: {
           actor_id?: string | null;
@@ -34,6 +106,8 @@ export interface Database {
           event_type: string;
           id?: string;
           payload?: Json | null;
+          resource_id?: string | null;
+          resource_type?: string | null;
         };
         Update: {
           actor_id?: string | null;
@@ -41,6 +115,8 @@ export interface Database {
           event_type?: string;
           id?: string;
           payload?: Json | null;
+          resource_id?: string | null;
+          resource_type?: string | null;
         };
         Relationships: [
           {
@@ -52,6 +128,48 @@ export interface Database {
           },
         ];
       };
+      auth_events: {
+        Row: {
+          created_at: string;
+          email: string | null;
+          id: string;
+          ip: string | null;
+          message: string | null;
+          metadata: Json | null;
+          method: string | null;
+          outcome: string;
+          request_id: string | null;
+          user_agent: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          email?: string | null;
+          id?: string;
+          ip?: string | null;
+          message?: string | null;
+          metadata?: Json | null;
+          method?: string | null;
+          outcome: string;
+          request_id?: string | null;
+          user_agent?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          email?: string | null;
+          id?: string;
+          ip?: string | null;
+          message?: string | null;
+          metadata?: Json | null;
+          method?: string | null;
+          outcome?: string;
+          request_id?: string | null;
+          user_agent?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [];
+      };
       badge_applications: {
         Row: {
           applicant_id: string;
@@ -125,8 +243,47 @@ export interface Database {
           },
         ];
       };
+      career_ladder_versions: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          effective_from: string;
+          id: string;
+          note: string | null;
+          positions: Json;
+          version: number;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          effective_from?: string;
+          id?: string;
+          note?: string | null;
+          positions: Json;
+          version: number;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          effective_from?: string;
+          id?: string;
+          note?: string | null;
+          positions?: Json;
+          version?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "career_ladder_versions_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       catalog_badges: {
         Row: {
+          archived_at: string | null;
           category: string;
           created_at: string;
           created_by: string | null;
@@ -137,9 +294,12 @@ export interface Database {
           metadata: Json | null;
           status: string;
           title: string;
+          updated_at: string | null;
+          updated_by: string | null;
           version: number;
         };
         Insert: {
+          archived_at?: string | null;
           category: string;
           created_at?: string;
           created_by?: string | null;
@@ -150,9 +310,12 @@ export interface Database {
           metadata?: Json | null;
           status?: string;
           title: string;
+          updated_at?: string | null;
+          updated_by?: string | null;
           version?: number;
         };
         Update: {
+          archived_at?: string | null;
           category?: string;
           created_at?: string;
           created_by?: string | null;
@@ -163,6 +326,8 @@ export interface Database {
           metadata?: Json | null;
           status?: string;
           title?: string;
+          updated_at?: string | null;
+          updated_by?: string | null;
           version?: number;
         };
         Relationships: [
@@ -173,6 +338,257 @@ export interface Database {
             referencedRelation: "users";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "catalog_badges_updated_by_fkey";
+            columns: ["updated_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      catalog_badge_versions: {
+        Row: {
+          authored_at: string;
+          authored_by: string | null;
+          catalog_badge_id: string;
+          category: string;
+          description: string | null;
+          id: string;
+          level: string;
+          metadata: Json | null;
+          superseded_at: string;
+          superseded_by: string | null;
+          title: string;
+          version: number;
+        };
+        Insert: {
+          authored_at: string;
+          authored_by?: string | null;
+          catalog_badge_id: string;
+          category: string;
+          description?: string | null;
+          id?: string;
+          level: string;
+          metadata?: Json | null;
+          superseded_at?: string;
+          superseded_by?: string | null;
+          title: string;
+          version: number;
+        };
+        Update: {
+          authored_at?: string;
+          authored_by?: string | null;
+          catalog_badge_id?: string;
+          category?: string;
+          description?: string | null;
+          id?: string;
+          level?: string;
+          metadata?: Json | null;
+          superseded_at?: string;
+          superseded_by?: string | null;
+          title?: string;
+          version?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "catalog_badge_versions_catalog_badge_id_fkey";
+            columns: ["catalog_badge_id"];
+            isOneToOne: false;
+            referencedRelation: "catalog_badges";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "catalog_badge_versions_authored_by_fkey";
+            columns: ["authored_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "catalog_badge_versions_superseded_by_fkey";
+            columns: ["superseded_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      error_logs: {
+        Row: {
+          created_at: string;
+          error_code: string;
+          id: string;
+          message: string;
+          method: string | null;
+          payload: Json | null;
+          request_id: string | null;
+          requester_id: string | null;
+          route: string;
+          status: number | null;
+        };
+        Insert: {
+          created_at?: string;
+          error_code: string;
+          id?: string;
+          message: string;
+          method?: string | null;
+          payload?: Json | null;
+          request_id?: string | null;
+          requester_id?: string | null;
+          route: string;
+          status?: number | null;
+        };
+        Update: {
+          created_at?: string;
+          error_code?: string;
+          id?: string;
+          message?: string;
+          method?: string | null;
+          payload?: Json | null;
+          request_id?: string | null;
+          requester_id?: string | null;
+          route?: string;
+          status?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "error_logs_requester_id_fkey";
+            columns: ["requester_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      events: {
+        Row: {
+          actor_id: string | null;
+          attempts: number;
+          created_at: string;
+          id: string;
+          last_error: string | null;
+          payload: Json;
+          processed_at: string | null;
+          resource: string;
+          resource_id: string | null;
+          type: string;
+        };
+        Insert: {
+          actor_id?: string | null;
+          attempts?: number;
+          created_at?: string;
+          id?: string;
+          last_error?: string | null;
+          payload?: Json;
+          processed_at?: string | null;
+          resource: string;
+          resource_id?: string | null;
+          type: string;
+        };
+        Update: {
+          actor_id?: string | null;
+          attempts?: number;
+          created_at?: string;
+          id?: string;
+          last_error?: string | null;
+          payload?: Json;
+          processed_at?: string | null;
+          resource?: string;
+          resource_id?: string | null;
+          type?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "events_actor_id_fkey";
+            columns: ["actor_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      notification_preferences: {
+        Row: {
+          channel: string;
+          enabled: boolean;
+          event_type: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          channel: string;
+          enabled?: boolean;
+          event_type: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          channel?: string;
+          enabled?: boolean;
+          event_type?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          body: string | null;
+          created_at: string;
+          event_id: string | null;
+          id: string;
+          link: string | null;
+          read_at: string | null;
+          title: string;
+          type: string;
+          user_id: string;
+        };
+        Insert: {
+          body?: string | null;
+          created_at?: string;
+          event_id?: string | null;
+          id?: string;
+          link?: string | null;
+          read_at?: string | null;
+          title: string;
+          type: string;
+          user_id: string;
+        };
+        Update: {
+          body?: string | null;
+          created_at?: string;
+          event_id?: string | null;
+          id?: string;
+          link?: string | null;
+          read_at?: string | null;
+          title?: string;
+          type?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notifications_event_id_fkey";
+            columns: ["event_id"];
+            isOneToOne: false;
+            referencedRelation: "events";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
         ];
       };
       promotion_badges: {
@@ -224,6 +640,76 @@ export interface Database {
           },
         ];
       };
+      promotion_template_versions: {
+        Row: {
+          authored_at: string;
+          authored_by: string | null;
+          from_level: string;
+          id: string;
+          name: string;
+          path: string;
+          rules: Json;
+          rules_version: number;
+          superseded_at: string;
+          superseded_by: string | null;
+          template_id: string;
+          to_level: string;
+          version: number;
+        };
+        Insert: {
+          authored_at: string;
+          authored_by?: string | null;
+          from_level: string;
+          id?: string;
+          name: string;
+          path: string;
+          rules: Json;
+          rules_version: number;
+          superseded_at?: string;
+          superseded_by?: string | null;
+          template_id: string;
+          to_level: string;
+          version: number;
+        };
+        Update: {
+          authored_at?: string;
+          authored_by?: string | null;
+          from_level?: string;
+          id?: string;
+          name?: string;
+          path?: string;
+          rules?: Json;
+          rules_version?: number;
+          superseded_at?: string;
+          superseded_by?: string | null;
+          template_id?: string;
+          to_level?: string;
+          version?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "promotion_template_versions_authored_by_fkey";
+            columns: ["authored_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "promotion_template_versions_superseded_by_fkey";
+            columns: ["superseded_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "promotion_template_versions_template_id_fkey";
+            columns: ["template_id"];
+            isOneToOne: false;
+            referencedRelation: "promotion_templates";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       promotion_templates: {
         Row: {
           created_at: string;
@@ -234,8 +720,11 @@ export interface Database {
           name: string;
           path: string;
           rules: Json;
+          rules_version: number;
           to_level: string;
           updated_at: string;
+          updated_by: string | null;
+          version: number;
         };
         Insert: {
           created_at?: string;
@@ -246,8 +735,11 @@ export interface Database {
           name: string;
           path: string;
           rules: Json;
+          rules_version?: number;
           to_level: string;
           updated_at?: string;
+          updated_by?: string | null;
+          version?: number;
         };
         Update: {
           created_at?: string;
@@ -258,8 +750,11 @@ export interface Database {
           name?: string;
           path?: string;
           rules?: Json;
+          rules_version?: number;
           to_level?: string;
           updated_at?: string;
+          updated_by?: string | null;
+          version?: number;
         };
         Relationships: [
           {
@@ -269,6 +764,13 @@ export interface Database {
             referencedRelation: "users";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "promotion_templates_updated_by_fkey";
+            columns: ["updated_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
         ];
       };
       promotions: {
@@ -287,6 +789,7 @@ export interface Database {
           status: string;
           submitted_at: string | null;
           template_id: string;
+          template_version: number;
           to_level: string;
         };
         Insert: {
@@ -304,6 +807,7 @@ export interface Database {
           status?: string;
           submitted_at?: string | null;
           template_id: string;
+          template_version?: number;
           to_level: string;
         };
         Update: {
@@ -321,6 +825,7 @@ export interface Database {
           status?: string;
           submitted_at?: string | null;
           template_id?: string;
+          template_version?: number;
           to_level?: string;
         };
         Relationships: [
@@ -372,39 +877,418 @@ export interface Database {
         };
         Relationships: [];
       };
+      user_positions: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          effective_from: string;
+          id: string;
+          level: string;
+          note: string | null;
+          path: string;
+          promotion_id: string | null;
+          source: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          effective_from?: string;
+          id?: string;
+          level: string;
+          note?: string | null;
+          path: string;
+          promotion_id?: string | null;
+          source: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          effective_from?: string;
+          id?: string;
+          level?: string;
+          note?: string | null;
+          path?: string;
+          promotion_id?: string | null;
+          source?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_positions_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_positions_promotion_id_fkey";
+            columns: ["promotion_id"];
+            isOneToOne: false;
+            referencedRelation: "promotions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_positions_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      user_roles: {
+        Row: {
+          categories: string[] | null;
+          granted_at: string;
+          granted_by: string | null;
+          role: string;
+          user_id: string;
+        };
+        Insert: {
+          categories?: string[] | null;
+          granted_at?: string;
+          granted_by?: string | null;
+          role: string;
+          user_id: string;
+        };
+        Update: {
+          categories?: string[] | null;
+          granted_at?: string;
+          granted_by?: string | null;
+          role?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_granted_by_fkey";
+            columns: ["granted_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_roles_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       users: {
         Row: {
           created_at: string;
+          current_level: string | null;
+          current_path: string | null;
+          deactivated_at: string | null;
+          deactivated_by: string | null;
           display_name: string;
           email: string;
-          google_sub: string;
           id: string;
           is_admin: boolean;
           last_seen_at: string | null;
+          manager_id: string | null;
+          team: string | null;
         };
         Insert: {
           created_at?: string;
+          current_level?: string | null;
+          current_path?: string | null;
+          deactivated_at?: string | null;
+          deactivated_by?: string | null;
           display_name: string;
           email: string;
-          google_sub: string;
           id?: string;
           is_admin?: boolean;
           last_seen_at?: string | null;
+          manager_id?: string | null;
+          team?: string | null;
         };
         Update: {
           created_at?: string;
+          current_level?: string | null;
+          current_path?: string | null;
+          deactivated_at?: string | null;
+          deactivated_by?: string | null;
           display_name?: string;
           email?: string;
-          google_sub?: string;
           id?: string;
           is_admin?: boolean;
           last_seen_at?: string | null;
+          manager_id?: string | null;
+          team?: string | null;
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: "users_deactivated_by_fkey";
+            columns: ["deactivated_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "users_manager_id_fkey";
+            columns: ["manager_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      webhook_deliveries: {
+        Row: {
+          attempts: number;
+          audit_log_id: string | null;
+          created_at: string;
+          delivered_at: string | null;
+          event_type: string;
+          id: string;
+          last_attempt_at: string | null;
+          last_error: string | null;
+          next_attempt_at: string;
+          payload: Json;
+          redelivery_of: string | null;
+          response_body: string | null;
+          response_status: number | null;
+          status: string;
+          subscription_id: string;
+        };
+        Insert: {
+          attempts?: number;
+          audit_log_id?: string | null;
+          created_at?: string;
+          delivered_at?: string | null;
+          event_type: string;
+          id?: string;
+          last_attempt_at?: string | null;
+          last_error?: string | null;
+          next_attempt_at?: string;
+          payload?: Json;
+          redelivery_of?: string | null;
+          response_body?: string | null;
+          response_status?: number | null;
+          status?: string;
+          subscription_id: string;
+        };
+        Update: {
+          attempts?: number;
+          audit_log_id?: string | null;
+          created_at?: string;
+          delivered_at?: string | null;
+          event_type?: string;
+          id?: string;
+          last_attempt_at?: string | null;
+          last_error?: string | null;
+          next_attempt_at?: string;
+          payload?: Json;
+          redelivery_of?: string | null;
+          response_body?: string | null;
+          response_status?: number | null;
+          status?: string;
+          subscription_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_audit_log_id_fkey";
+            columns: ["audit_log_id"];
+            isOneToOne: false;
+            referencedRelation: "audit_logs";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "webhook_deliveries_redelivery_of_fkey";
+            columns: ["redelivery_of"];
+            isOneToOne: false;
+            referencedRelation: "webhook_deliveries";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "webhook_deliveries_subscription_id_fkey";
+            columns: ["subscription_id"];
+            isOneToOne: false;
+            referencedRelation: "webhook_subscriptions";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      webhook_subscriptions: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          event_types: string[];
+          id: string;
+          is_active: boolean;
+          secret: string;
+          updated_at: string;
+          url: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          event_types: string[];
+          id?: string;
+          is_active?: boolean;
+          secret: string;
+          updated_at?: string;
+          url: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          event_types?: string[];
+          id?: string;
+          is_active?: boolean;
+          secret?: string;
+          updated_at?: string;
+          url?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "webhook_subscriptions_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
       };
     };
     Views: Record<never, never>;
-    Functions: Record<never, never>;
+    Functions: {
+      add_promotion_badges: {
+        Args: {
+          p_actor_id: string;
+          p_badge_application_ids: string[];
+          p_promotion_id: string;
+        };
+        Returns: Json;
+      };
+      approve_promotion: {
+        Args: {
+          p_actor_id: string;
+          p_promotion_id: string;
+        };
+        Returns: Json;
+      };
+      authenticate_api_token: {
+        Args: {
+          p_token_hash: string;
+        };
+        Returns: {
+          email: string;
+          expires_at: string;
+          id: string;
+          scope: string;
+          user_id: string;
+        }[];
+      };
+      catalog_badge_impact: {
+        Args: {
+          p_catalog_badge_id: string;
+        };
+        Returns: Json;
+      };
+      claim_webhook_deliveries: {
+        Args: {
+          p_lease_seconds: number;
+          p_limit: number;
+        };
+        Returns: {
+          attempts: number;
+          audit_log_id: string | null;
+          created_at: string;
+          delivered_at: string | null;
+          event_type: string;
+          id: string;
+          last_attempt_at: string | null;
+          last_error: string | null;
+          next_attempt_at: string;
+          payload: Json;
+          redelivery_of: string | null;
+          response_body: string | null;
+          response_status: number | null;
+          status: string;
+          subscription_id: string;
+        }[];
+      };
+      import_history: {
+        Args: {
+          p_applications: Json;
+          p_promotion_badges: Json;
+          p_promotions: Json;
+        };
+        Returns: Json;
+      };
+      list_user_sessions: {
+        Args: {
+          target: string;
+        };
+        Returns: {
+          created_at: string;
+          id: string;
+          ip: string | null;
+          last_seen_at: string;
+          not_after: string | null;
+          user_agent: string | null;
+        }[];
+      };
+      promotion_template_version_stats: {
+        Args: {
+          p_template_id: string;
+        };
+        Returns: Json;
+      };
+      reject_promotion: {
+        Args: {
+          p_actor_id: string;
+          p_promotion_id: string;
+          p_reject_reason: string;
+        };
+        Returns: Json;
+      };
+      remove_promotion_badges: {
+        Args: {
+          p_actor_id: string;
+          p_badge_application_ids: string[];
+          p_promotion_id: string;
+        };
+        Returns: Json;
+      };
+      replace_promotion_badges: {
+        Args: {
+          p_actor_id: string;
+          p_add_badge_application_ids: string[];
+          p_promotion_id: string;
+          p_remove_badge_application_ids: string[];
+        };
+        Returns: Json;
+      };
+      revoke_api_token: {
+        Args: {
+          p_token_id: string;
+        };
+        Returns: boolean;
+      };
+      revoke_user_sessions: {
+        Args: {
+          keep_session?: string;
+          target: string;
+        };
+        Returns: number;
+      };
+      submit_promotion: {
+        Args: {
+          p_actor_id: string;
+          p_promotion_id: string;
+        };
+        Returns: Json;
+      };
+    };
     Enums: Record<never, never>;
     CompositeTypes: Record<never, never>;
   };
@@ -0,0 +1,21 @@
+import { createClient } from "@supabase/supabase-js";
+
+import type { Database } from "./database.types";
+import type { SupabaseClient } from "./supabase.client";
+
+/**
+ * Server-only Supabase client authenticated with the service role key
+ * This client bypasses row level security. It is only used by background work that
+ * acts on behalf of several users (the notification worker) and must never be
+ * exposed to the browser or to request handlers that act for the signed-in user.
+ *
+ * @returns Client, or null when SUPABASE_SERVICE_ROLE_KEY is not configured
+ */
+export function createServiceRoleClient(): SupabaseClient | null {
+  const serviceRoleKey = import.meta.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+
+  return createClient<Database>(import.meta.env.SUPABASE_URL, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  }) as unknown as SupabaseClient;
+}
@@ -0,0 +1,64 @@
+import { createClient } from "@supabase/supabase-js";
+
+import type { Database } from "./database.types";
+import type { SupabaseClient } from "./supabase.client";
+
+// Lifetime of the access tokens minted for API token requests; one is minted per request
+const ACCESS_TOKEN_TTL_SECONDS = 300;
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * Signs a Supabase access token for a user (HS256 with the project's JWT secret)
+ */
+export async function signUserAccessToken(
+  secret: string,
+  user: { id: string; email: string | null },
+  now = Date.now()
+): Promise<string> {
+  const issuedAt = Math.floor(now / 1000);
+  const unsigned = `${encodeSegment({ alg: "HS256", typ: "JWT" })}.${encodeSegment({
+    aud: "authenticated",
+    role: "authenticated",
+    sub: user.id,
+    email: user.email ?? undefined,
+    is_anonymous: false,
+    iat: issuedAt,
+    exp: issuedAt + ACCESS_TOKEN_TTL_SECONDS,
+  })}`;
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(unsigned));
+
+  return `${unsigned}.${Buffer.from(signature).toString("base64url")}`;
+}
+
+/**
+ * Server-only Supabase client acting as a user without a browser session
+ * Used for requests authenticated with an API token: queries run as the token's owner,
+ * so row level security applies exactly as for their signed-in session.
+ *
+ * @returns Client, or null when SUPABASE_JWT_SECRET is not configured
+ */
+export async function createUserTokenClient(user: {
+  id: string;
+  email: string | null;
+}): Promise<SupabaseClient | null> {
+  const secret = import.meta.env.SUPABASE_JWT_SECRET;
+  if (!secret) return null;
+
+  const accessToken = await signUserAccessToken(secret, user);
+
+  return createClient<Database>(import.meta.env.SUPABASE_URL, import.meta.env.SUPABASE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  }) as unknown as SupabaseClient;
+}
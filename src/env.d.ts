@@ -1,11 +1,15 @@
 /// <reference types="astro/client" />
 
 import type { SupabaseClient } from "./db/supabase.client";
+import type { RequestUser } from "./lib/auth/route-guard";
 
 declare global {
   namespace App {
     interface Locals {
       supabase: SupabaseClient;
+      requestId: string;
+      // Signed-in user, resolved by the route guard on API requests (null elsewhere)
+      user: RequestUser | null;
     }
   }
 }
@@ -14,6 +18,28 @@ interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   readonly SUPABASE_KEY: string;
   readonly OPENROUTER_API_KEY: string;
+  readonly SUPABASE_SERVICE_ROLE_KEY?: string;
+  readonly SUPABASE_JWT_SECRET?: string;
+  readonly APP_URL?: string;
+  readonly NOTIFICATION_WORKER_SECRET?: string;
+  readonly SMTP_HOST?: string;
+  readonly SMTP_PORT?: string;
+  readonly SMTP_FROM?: string;
+  readonly SMTP_USER?: string;
+  readonly SMTP_PASSWORD?: string;
+  readonly SMTP_SECURE?: string;
+  readonly AUTH_SELF_REGISTRATION?: string;
+  readonly SSO_ALLOWED_DOMAINS?: string;
+  readonly SSO_OIDC_ISSUER?: string;
+  readonly SSO_OIDC_CLIENT_ID?: string;
+  readonly SSO_OIDC_CLIENT_SECRET?: string;
+  readonly SSO_OIDC_LABEL?: string;
+  readonly SSO_OIDC_SCOPES?: string;
+  readonly SSO_GROUPS_CLAIM?: string;
+  readonly SSO_SAML_DOMAIN?: string;
+  readonly SSO_SAML_LABEL?: string;
+  readonly SSO_ADMIN_GROUPS?: string;
+  readonly SSO_REVIEWER_GROUPS?: string;
   // more env variables...
 }
 
@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { AuditLogFilters, AuditLogListItemDto, PaginatedResponse, PaginationMetadata, ApiError } from "@/types";
+import { toast } from "sonner";
+
+/**
+ * Props for useAuditLogs hook
+ */
+interface UseAuditLogsProps {
+  initialData: PaginatedResponse<AuditLogListItemDto>;
+}
+
+/**
+ * Return type for useAuditLogs hook
+ */
+interface UseAuditLogsReturn {
+  entries: AuditLogListItemDto[];
+  pagination: PaginationMetadata;
+  filters: AuditLogFilters;
+  isLoading: boolean;
+  error: string | null;
+  updateFilters: (filters: Partial<AuditLogFilters>) => void;
+  resetFilters: () => void;
+  goToPage: (offset: number) => void;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Default filters for the audit log browser
+ */
+const DEFAULT_FILTERS: AuditLogFilters = {
+  order: "desc",
+  limit: 50,
+  offset: 0,
+};
+
+/**
+ * Builds the query string shared by the page URL and the API request
+ */
+function buildQueryParams(filters: AuditLogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.actor_id) params.set("actor_id", filters.actor_id);
+  if (filters.event_type) params.set("event_type", filters.event_type);
+  if (filters.resource_type) params.set("resource_type", filters.resource_type);
+  if (filters.resource_id) params.set("resource_id", filters.resource_id);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  params.set("order", filters.order);
+  params.set("limit", filters.limit.toString());
+  params.set("offset", filters.offset.toString());
+  return params;
+}
+
+/**
+ * Custom hook for managing audit log browser state, filtering and pagination
+ *
+ * Handles:
+ * - Filter state management with URL synchronization
+ * - Fetching entries from GET /api/audit-logs when filters change
+ * - Loading and error states
+ *
+ * @param props - Hook props including server-rendered initial data
+ * @returns Hook interface with state and actions
+ */
+export function useAuditLogs(props: UseAuditLogsProps): UseAuditLogsReturn {
+  const { initialData } = props;
+
+  // =========================================================================
+  // State Variables
+  // =========================================================================
+
+  const [entries, setEntries] = useState<AuditLogListItemDto[]>(initialData.data);
+  const [pagination, setPagination] = useState<PaginationMetadata>(initialData.pagination);
+
+  const [filters, setFilters] = useState<AuditLogFilters>(() => {
+    // Initialize from URL on mount
+    if (typeof window === "undefined") {
+      return DEFAULT_FILTERS;
+    }
+
+    const urlParams = new URLSearchParams(window.location.search);
+    return {
+      actor_id: urlParams.get("actor_id") || undefined,
+      event_type: (urlParams.get("event_type") as AuditLogFilters["event_type"]) || undefined,
+      resource_type: (urlParams.get("resource_type") as AuditLogFilters["resource_type"]) || undefined,
+      resource_id: urlParams.get("resource_id") || undefined,
+      from: urlParams.get("from") || undefined,
+      to: urlParams.get("to") || undefined,
+      order: (urlParams.get("order") as AuditLogFilters["order"]) || "desc",
+      limit: parseInt(urlParams.get("limit") || "50", 10),
+      offset: parseInt(urlParams.get("offset") || "0", 10),
+    };
+  });
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Skip the fetch on mount - the page already rendered the initial data
+  const isFirstRender = useRef(true);
+
+  // =========================================================================
+  // URL Synchronization
+  // =========================================================================
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const newUrl = `/admin/audit-logs?${buildQueryParams(filters).toString()}`;
+    window.history.replaceState({}, "", newUrl);
+  }, [filters]);
+
+  // =========================================================================
+  // API Functions
+  // =========================================================================
+
+  /**
+   * Fetches audit log entries from API with current filters
+   */
+  const refetch = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/audit-logs?${buildQueryParams(filters).toString()}`);
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = "/login?return=/admin/audit-logs";
+          return;
+        }
+
+        if (response.status === 403) {
+          setError("You do not have permission to access this page");
+          toast.error("Access Denied", {
+            description: "Admin privileges required",
+          });
+          return;
+        }
+
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to fetch audit logs");
+      }
+
+      const data: PaginatedResponse<AuditLogListItemDto> = await response.json();
+
+      setEntries(data.data);
+      setPagination(data.pagination);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "An unexpected error occurred";
+      setError(errorMessage);
+
+      toast.error("Error loading audit logs", {
+        description: errorMessage,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    refetch();
+  }, [refetch]);
+
+  // =========================================================================
+  // Filter and Pagination Actions
+  // =========================================================================
+
+  /**
+   * Updates filters and resets to first page (unless offset is explicitly provided)
+   */
+  const updateFilters = useCallback((newFilters: Partial<AuditLogFilters>) => {
+    setFilters((prev) => ({
+      ...prev,
+      ...newFilters,
+      offset: newFilters.offset !== undefined ? newFilters.offset : 0,
+    }));
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    setFilters(DEFAULT_FILTERS);
+  }, []);
+
+  const goToPage = useCallback((offset: number) => {
+    setFilters((prev) => ({ ...prev, offset }));
+  }, []);
+
+  return {
+    entries,
+    pagination,
+    filters,
+    isLoading,
+    error,
+    updateFilters,
+    resetFilters,
+    goToPage,
+    refetch,
+  };
+}
@@ -4,7 +4,7 @@
  * Handles:
  * - Badge detail data fetching
  * - Loading and error states
- * - Deactivate action (admin only)
+ * - Lifecycle actions: deactivate, reactivate, archive (admin only)
  * - Data refresh after mutations
  */
 
@@ -23,6 +23,8 @@ interface UseCatalogBadgeReturn {
   error: string | null;
   refresh: () => Promise<void>;
   deactivate: (reason?: string) => Promise<void>;
+  reactivate: () => Promise<void>;
+  archive: () => Promise<void>;
 }
 
 export function useCatalogBadge(props: UseCatalogBadgeProps): UseCatalogBadgeReturn {
@@ -98,11 +100,52 @@ export function useCatalogBadge(props: UseCatalogBadgeProps): UseCatalogBadgeRet
     [badgeId, badge, refresh]
   );
 
+  /**
+   * Run a lifecycle action (reactivate/archive) against the API and refresh
+   */
+  const runLifecycleAction = useCallback(
+    async (action: "reactivate" | "archive", successMessage: string) => {
+      try {
+        const response = await fetch(`/api/catalog-badges/${badgeId}/${action}`, {
+          method: "POST",
+        });
+
+        if (!response.ok) {
+          const errorData: ApiError = await response.json();
+          throw new Error(errorData.message || `Failed to ${action} badge`);
+        }
+
+        toast.success(successMessage);
+        await refresh();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : `Failed to ${action} badge`;
+        toast.error(message);
+        throw err;
+      }
+    },
+    [badgeId, refresh]
+  );
+
+  /**
+   * Reactivate an inactive badge (admin only)
+   */
+  const reactivate = useCallback(
+    () => runLifecycleAction("reactivate", "Badge reactivated successfully"),
+    [runLifecycleAction]
+  );
+
+  /**
+   * Archive badge permanently (admin only)
+   */
+  const archive = useCallback(() => runLifecycleAction("archive", "Badge archived successfully"), [runLifecycleAction]);
+
   return {
     badge,
     isLoading,
     error,
     refresh,
     deactivate,
+    reactivate,
+    archive,
   };
 }
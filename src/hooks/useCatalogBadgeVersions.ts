@@ -0,0 +1,56 @@
+/**
+ * Custom hook for loading the version timeline of a catalog badge
+ *
+ * Handles:
+ * - Fetching GET /api/catalog-badges/:id/versions
+ * - Loading and error states
+ * - Refresh after the badge is edited
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import type { CatalogBadgeVersionDto, ApiError } from "@/types";
+
+interface UseCatalogBadgeVersionsReturn {
+  versions: CatalogBadgeVersionDto[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function useCatalogBadgeVersions(badgeId: string): UseCatalogBadgeVersionsReturn {
+  const [versions, setVersions] = useState<CatalogBadgeVersionDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/catalog-badges/${badgeId}/versions`);
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to load version history");
+      }
+
+      const data: CatalogBadgeVersionDto[] = await response.json();
+      setVersions(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load version history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [badgeId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    versions,
+    isLoading,
+    error,
+    refresh,
+  };
+}
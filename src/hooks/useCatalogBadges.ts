@@ -5,7 +5,7 @@
  * - Badge list state management
  * - Filtering, sorting, and pagination
  * - URL synchronization
- * - CRUD operations (create, update, deactivate)
+ * - CRUD operations (create, update, deactivate, archive)
  * - API calls and error handling
  */
 
@@ -40,6 +40,7 @@ interface UseCatalogBadgesReturn {
   createBadge: (data: CreateCatalogBadgeCommand) => Promise<void>;
   updateBadge: (id: string, data: UpdateCatalogBadgeCommand) => Promise<void>;
   deactivateBadge: (id: string) => Promise<void>;
+  archiveBadge: (id: string) => Promise<void>;
 }
 
 export function useCatalogBadges(props: UseCatalogBadgesProps): UseCatalogBadgesReturn {
@@ -249,6 +250,32 @@ export function useCatalogBadges(props: UseCatalogBadgesProps): UseCatalogBadges
     [refetch]
   );
 
+  /**
+   * Archive a badge (admin only) - permanent, unlike deactivation
+   */
+  const archiveBadge = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`/api/catalog-badges/${id}/archive`, {
+          method: "POST",
+        });
+
+        if (!response.ok) {
+          const errorData: ApiError = await response.json();
+          throw new Error(errorData.message || "Failed to archive badge");
+        }
+
+        toast.success("Badge archived successfully");
+        await refetch();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to archive badge";
+        toast.error(message);
+        throw err;
+      }
+    },
+    [refetch]
+  );
+
   // Refetch when filters change
   useEffect(() => {
     refetch();
@@ -266,5 +293,6 @@ export function useCatalogBadges(props: UseCatalogBadgesProps): UseCatalogBadges
     createBadge,
     updateBadge,
     deactivateBadge,
+    archiveBadge,
   };
 }
@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { ErrorLogFilters, ErrorLogListItemDto, PaginatedResponse, PaginationMetadata, ApiError } from "@/types";
+import { toast } from "sonner";
+
+/**
+ * Props for useErrorLogs hook
+ */
+interface UseErrorLogsProps {
+  initialData: PaginatedResponse<ErrorLogListItemDto>;
+}
+
+/**
+ * Return type for useErrorLogs hook
+ */
+interface UseErrorLogsReturn {
+  entries: ErrorLogListItemDto[];
+  pagination: PaginationMetadata;
+  filters: ErrorLogFilters;
+  isLoading: boolean;
+  error: string | null;
+  updateFilters: (filters: Partial<ErrorLogFilters>) => void;
+  resetFilters: () => void;
+  goToPage: (offset: number) => void;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Default filters for the error log browser
+ */
+const DEFAULT_FILTERS: ErrorLogFilters = {
+  order: "desc",
+  limit: 50,
+  offset: 0,
+};
+
+/**
+ * Builds the query string shared by the page URL and the API request
+ */
+function buildQueryParams(filters: ErrorLogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.route) params.set("route", filters.route);
+  if (filters.error_code) params.set("error_code", filters.error_code);
+  if (filters.request_id) params.set("request_id", filters.request_id);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  params.set("order", filters.order);
+  params.set("limit", filters.limit.toString());
+  params.set("offset", filters.offset.toString());
+  return params;
+}
+
+/**
+ * Custom hook for managing error log browser state, filtering and pagination
+ *
+ * Handles:
+ * - Filter state management with URL synchronization
+ * - Fetching entries from GET /api/error-logs when filters change
+ * - Loading and error states
+ *
+ * @param props - Hook props including server-rendered initial data
+ * @returns Hook interface with state and actions
+ */
+export function useErrorLogs(props: UseErrorLogsProps): UseErrorLogsReturn {
+  const { initialData } = props;
+
+  // =========================================================================
+  // State Variables
+  // =========================================================================
+
+  const [entries, setEntries] = useState<ErrorLogListItemDto[]>(initialData.data);
+  const [pagination, setPagination] = useState<PaginationMetadata>(initialData.pagination);
+
+  const [filters, setFilters] = useState<ErrorLogFilters>(() => {
+    // Initialize from URL on mount
+    if (typeof window === "undefined") {
+      return DEFAULT_FILTERS;
+    }
+
+    const urlParams = new URLSearchParams(window.location.search);
+    return {
+      route: urlParams.get("route") || undefined,
+      error_code: urlParams.get("error_code") || undefined,
+      request_id: urlParams.get("request_id") || undefined,
+      from: urlParams.get("from") || undefined,
+      to: urlParams.get("to") || undefined,
+      order: (urlParams.get("order") as ErrorLogFilters["order"]) || "desc",
+      limit: parseInt(urlParams.get("limit") || "50", 10),
+      offset: parseInt(urlParams.get("offset") || "0", 10),
+    };
+  });
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Skip the fetch on mount - the page already rendered the initial data
+  const isFirstRender = useRef(true);
+
+  // =========================================================================
+  // URL Synchronization
+  // =========================================================================
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const newUrl = `/admin/error-logs?${buildQueryParams(filters).toString()}`;
+    window.history.replaceState({}, "", newUrl);
+  }, [filters]);
+
+  // =========================================================================
+  // API Functions
+  // =========================================================================
+
+  /**
+   * Fetches error log entries from API with current filters
+   */
+  const refetch = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/error-logs?${buildQueryParams(filters).toString()}`);
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = "/login?return=/admin/error-logs";
+          return;
+        }
+
+        if (response.status === 403) {
+          setError("You do not have permission to access this page");
+          toast.error("Access Denied", {
+            description: "Admin privileges required",
+          });
+          return;
+        }
+
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to fetch error logs");
+      }
+
+      const data: PaginatedResponse<ErrorLogListItemDto> = await response.json();
+
+      setEntries(data.data);
+      setPagination(data.pagination);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "An unexpected error occurred";
+      setError(errorMessage);
+
+      toast.error("Error loading error logs", {
+        description: errorMessage,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    refetch();
+  }, [refetch]);
+
+  // =========================================================================
+  // Filter and Pagination Actions
+  // =========================================================================
+
+  /**
+   * Updates filters and resets to first page (unless offset is explicitly provided)
+   */
+  const updateFilters = useCallback((newFilters: Partial<ErrorLogFilters>) => {
+    setFilters((prev) => ({
+      ...prev,
+      ...newFilters,
+      offset: newFilters.offset !== undefined ? newFilters.offset : 0,
+    }));
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    setFilters(DEFAULT_FILTERS);
+  }, []);
+
+  const goToPage = useCallback((offset: number) => {
+    setFilters((prev) => ({ ...prev, offset }));
+  }, []);
+
+  return {
+    entries,
+    pagination,
+    filters,
+    isLoading,
+    error,
+    updateFilters,
+    resetFilters,
+    goToPage,
+    refetch,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Custom hook for loading the version timeline of a promotion template
+ *
+ * Handles:
+ * - Fetching GET /api/promotion-templates/:id/versions
+ * - Loading and error states
+ * - Refresh after the template is edited
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import type { PromotionTemplateVersionDto, ApiError } from "@/types";
+
+interface UsePromotionTemplateVersionsReturn {
+  versions: PromotionTemplateVersionDto[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function usePromotionTemplateVersions(templateId: string): UsePromotionTemplateVersionsReturn {
+  const [versions, setVersions] = useState<PromotionTemplateVersionDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/promotion-templates/${templateId}/versions`);
+
+      if (!response.ok) {
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to load version history");
+      }
+
+      const data: PromotionTemplateVersionDto[] = await response.json();
+      setVersions(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load version history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    versions,
+    isLoading,
+    error,
+    refresh,
+  };
+}
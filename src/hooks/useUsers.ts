@@ -0,0 +1,335 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import type {
+  DeactivatedUserDto,
+  UserFilters,
+  UserListItemDto,
+  UserRoleAssignment,
+  UserPositionResponse,
+  SetUserPositionCommand,
+  PaginatedResponse,
+  PaginationMetadata,
+  ApiError,
+} from "@/types";
+import { toast } from "sonner";
+
+/**
+ * Props for useUsers hook
+ */
+interface UseUsersProps {
+  initialData: PaginatedResponse<UserListItemDto>;
+}
+
+/**
+ * Return type for useUsers hook
+ */
+interface UseUsersReturn {
+  users: UserListItemDto[];
+  pagination: PaginationMetadata;
+  filters: UserFilters;
+  isLoading: boolean;
+  error: string | null;
+  pendingUserId: string | null;
+  updateFilters: (filters: Partial<UserFilters>) => void;
+  goToPage: (offset: number) => void;
+  refetch: () => Promise<void>;
+  setAdmin: (user: UserListItemDto, isAdmin: boolean) => Promise<void>;
+  deactivateUser: (user: UserListItemDto) => Promise<void>;
+  reactivateUser: (user: UserListItemDto) => Promise<void>;
+  signOutUser: (user: UserListItemDto) => Promise<void>;
+  setRoles: (user: UserListItemDto, roles: UserRoleAssignment[]) => Promise<void>;
+  setPosition: (user: UserListItemDto, command: SetUserPositionCommand) => Promise<void>;
+}
+
+/**
+ * Default filters for the user management page
+ */
+const DEFAULT_FILTERS: UserFilters = {
+  limit: 50,
+  offset: 0,
+};
+
+/**
+ * Builds the query string shared by the page URL and the API request
+ */
+function buildQueryParams(filters: UserFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  if (filters.status) params.set("status", filters.status);
+  if (filters.is_admin !== undefined) params.set("is_admin", String(filters.is_admin));
+  params.set("limit", filters.limit.toString());
+  params.set("offset", filters.offset.toString());
+  return params;
+}
+
+/**
+ * Custom hook for managing user management state, filtering, pagination and actions
+ *
+ * Handles:
+ * - Filter state management with URL synchronization
+ * - Fetching users from GET /api/users when filters change
+ * - Granting/revoking admin rights and roles, setting positions, deactivating/reactivating accounts
+ * - Signing a user out of every device
+ *
+ * @param props - Hook props including server-rendered initial data
+ * @returns Hook interface with state and actions
+ */
+export function useUsers(props: UseUsersProps): UseUsersReturn {
+  const { initialData } = props;
+
+  // =========================================================================
+  // State Variables
+  // =========================================================================
+
+  const [users, setUsers] = useState<UserListItemDto[]>(initialData.data);
+  const [pagination, setPagination] = useState<PaginationMetadata>(initialData.pagination);
+
+  const [filters, setFilters] = useState<UserFilters>(() => {
+    // Initialize from URL on mount
+    if (typeof window === "undefined") {
+      return DEFAULT_FILTERS;
+    }
+
+    const urlParams = new URLSearchParams(window.location.search);
+    const isAdmin = urlParams.get("is_admin");
+    return {
+      search: urlParams.get("search") || undefined,
+      status: (urlParams.get("status") as UserFilters["status"]) || undefined,
+      is_admin: isAdmin === "true" ? true : isAdmin === "false" ? false : undefined,
+      limit: parseInt(urlParams.get("limit") || "50", 10),
+      offset: parseInt(urlParams.get("offset") || "0", 10),
+    };
+  });
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+
+  // Skip the fetch on mount - the page already rendered the initial data
+  const isFirstRender = useRef(true);
+
+  // =========================================================================
+  // URL Synchronization
+  // =========================================================================
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const newUrl = `/admin/users?${buildQueryParams(filters).toString()}`;
+    window.history.replaceState({}, "", newUrl);
+  }, [filters]);
+
+  // =========================================================================
+  // API Functions
+  // =========================================================================
+
+  /**
+   * Fetches users from API with current filters
+   */
+  const refetch = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/users?${buildQueryParams(filters).toString()}`);
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = "/login?return=/admin/users";
+          return;
+        }
+
+        if (response.status === 403) {
+          setError("You do not have permission to access this page");
+          toast.error("Access Denied", {
+            description: "Admin privileges required",
+          });
+          return;
+        }
+
+        const errorData: ApiError = await response.json();
+        throw new Error(errorData.message || "Failed to fetch users");
+      }
+
+      const data: PaginatedResponse<UserListItemDto> = await response.json();
+
+      setUsers(data.data);
+      setPagination(data.pagination);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "An unexpected error occurred";
+      setError(errorMessage);
+
+      toast.error("Error loading users", {
+        description: errorMessage,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    refetch();
+  }, [refetch]);
+
+  /**
+   * Sends a user management request and replaces the user in the list with the result
+   * (the response is the updated user unless toUser maps it)
+   */
+  const runUserAction = useCallback(
+    async (
+      user: UserListItemDto,
+      request: () => Promise<Response>,
+      successMessage: string,
+      toUser: (data: unknown) => UserListItemDto = (data) => data as UserListItemDto
+    ) => {
+      setPendingUserId(user.id);
+
+      try {
+        const response = await request();
+
+        if (!response.ok) {
+          const errorData: ApiError = await response.json();
+          throw new Error(errorData.message || "Failed to update user");
+        }
+
+        const updated = toUser(await response.json());
+        setUsers((current) => current.map((item) => (item.id === updated.id ? updated : item)));
+        toast.success(successMessage);
+      } catch (err) {
+        toast.error("Error updating user", {
+          description: err instanceof Error ? err.message : "An unexpected error occurred",
+        });
+      } finally {
+        setPendingUserId(null);
+      }
+    },
+    []
+  );
+
+  const setAdmin = useCallback(
+    (user: UserListItemDto, isAdmin: boolean) =>
+      runUserAction(
+        user,
+        () =>
+          fetch(`/api/users/${user.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ is_admin: isAdmin }),
+          }),
+        isAdmin ? `${user.display_name} is now an admin` : `Admin rights removed from ${user.display_name}`
+      ),
+    [runUserAction]
+  );
+
+  const deactivateUser = useCallback(
+    (user: UserListItemDto) =>
+      runUserAction(
+        user,
+        () => fetch(`/api/users/${user.id}/deactivate`, { method: "POST" }),
+        `${user.display_name} has been deactivated`,
+        (data) => {
+          const { warning, ...updated } = data as DeactivatedUserDto;
+          if (warning) {
+            toast.warning(warning);
+          }
+          return updated;
+        }
+      ),
+    [runUserAction]
+  );
+
+  const reactivateUser = useCallback(
+    (user: UserListItemDto) =>
+      runUserAction(
+        user,
+        () => fetch(`/api/users/${user.id}/reactivate`, { method: "POST" }),
+        `${user.display_name} has been reactivated`
+      ),
+    [runUserAction]
+  );
+
+  const signOutUser = useCallback(
+    (user: UserListItemDto) =>
+      runUserAction(
+        user,
+        () => fetch(`/api/users/${user.id}/sessions`, { method: "DELETE" }),
+        `${user.display_name} has been signed out of every device`,
+        () => user
+      ),
+    [runUserAction]
+  );
+
+  const setRoles = useCallback(
+    (user: UserListItemDto, roles: UserRoleAssignment[]) =>
+      runUserAction(
+        user,
+        () =>
+          fetch(`/api/users/${user.id}/roles`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ roles }),
+          }),
+        `Roles of ${user.display_name} updated`
+      ),
+    [runUserAction]
+  );
+
+  const setPosition = useCallback(
+    (user: UserListItemDto, command: SetUserPositionCommand) =>
+      runUserAction(
+        user,
+        () =>
+          fetch(`/api/users/${user.id}/position`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(command),
+          }),
+        `Position of ${user.display_name} updated`,
+        (data) => {
+          const { current } = data as UserPositionResponse;
+          return { ...user, current_path: current?.path ?? null, current_level: current?.level ?? null };
+        }
+      ),
+    [runUserAction]
+  );
+
+  // =========================================================================
+  // Filter and Pagination Actions
+  // =========================================================================
+
+  /**
+   * Updates filters and resets to first page (unless offset is explicitly provided)
+   */
+  const updateFilters = useCallback((newFilters: Partial<UserFilters>) => {
+    setFilters((prev) => ({
+      ...prev,
+      ...newFilters,
+      offset: newFilters.offset !== undefined ? newFilters.offset : 0,
+    }));
+  }, []);
+
+  const goToPage = useCallback((offset: number) => {
+    setFilters((prev) => ({ ...prev, offset }));
+  }, []);
+
+  return {
+    users,
+    pagination,
+    filters,
+    isLoading,
+    error,
+    pendingUserId,
+    updateFilters,
+    goToPage,
+    refetch,
+    setAdmin,
+    deactivateUser,
+    reactivateUser,
+    signOutUser,
+    setRoles,
+    setPosition,
+  };
+}
@@ -0,0 +1,72 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it, expect } from "vitest";
+
+const MIGRATIONS_DIR = join(__dirname, "../../../supabase/migrations");
+
+/**
+ * Reads every migration, in the order they are applied
+ */
+function readMigrations(): string[] {
+  return readdirSync(MIGRATIONS_DIR)
+    .filter((name) => name.endsWith(".sql"))
+    .sort()
+    .map((name) => readFileSync(join(MIGRATIONS_DIR, name), "utf-8"));
+}
+
+/**
+ * Returns the body of the last definition of a plpgsql function
+ */
+function lastFunctionBody(name: string): string {
+  const bodies = readMigrations().flatMap((sql) =>
+    [...sql.matchAll(new RegExp(`create or replace function ${name}\\(.*?\\$\\$(.*?)\\$\\$`, "gs"))].map(
+      (match) => match[1]
+    )
+  );
+  expect(bodies.length).toBeGreaterThan(0);
+  return bodies[bodies.length - 1];
+}
+
+/**
+ * The schema is checked statically: the test run has no database to apply the migrations to.
+ */
+describe("api token migrations", () => {
+  it("leave signed-in users no way to update api_tokens directly", () => {
+    const updatePolicies = new Set<string>();
+    let updateRevoked = false;
+
+    for (const sql of readMigrations()) {
+      for (const match of sql.matchAll(/(create|drop) policy (?:if exists )?(\w+) on api_tokens(?: for (\w+))?/g)) {
+        if (match[1] === "drop") {
+          updatePolicies.delete(match[2]);
+        } else if (match[3] === "update" || match[3] === "all") {
+          updatePolicies.add(match[2]);
+        }
+      }
+      updateRevoked ||= /revoke update on api_tokens from anon, authenticated;/.test(sql);
+    }
+
+    expect([...updatePolicies]).toEqual([]);
+    expect(updateRevoked).toBe(true);
+  });
+
+  it("refuse un-revoking a token, whoever updates it", () => {
+    const body = lastFunctionBody("api_tokens_keep_revocation");
+    const migrations = readMigrations().join("\n");
+
+    expect(body).toMatch(/if old\.revoked_at is not null\s+and \(new\.revoked_at is distinct from old\.revoked_at/);
+    expect(body).toMatch(/raise exception/);
+    expect(migrations).toMatch(
+      /create trigger api_tokens_keep_revocation\s+before update on api_tokens\s+for each row\s+execute function api_tokens_keep_revocation\(\);/
+    );
+  });
+
+  it("only set a revocation in revoke_api_token", () => {
+    const body = lastFunctionBody("revoke_api_token");
+
+    expect(body).toMatch(
+      /set revoked_at = now\(\), revoked_by = auth\.uid\(\)\s+where id = p_token_id\s+and revoked_at is null/
+    );
+    expect(body).not.toMatch(/revoked_at = null|expires_at|scope|token_hash/);
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect } from "vitest";
+import { ApiTokenService, canOwnScope, hashApiToken } from "../api-token.service";
+import type { UserAccess } from "../auth/permissions";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+const OTHER_ID = "44444444-4444-4444-8444-444444444444";
+const TOKEN_ID = "33333333-3333-4333-8333-333333333333";
+
+const MEMBER: UserAccess = { userId: USER_ID, isAdmin: false, roles: [] };
+const ADMIN: UserAccess = { userId: USER_ID, isAdmin: true, roles: [] };
+
+/**
+ * Creates a mock Supabase client for ApiTokenService.
+ * Records token inserts and updates, rpc calls and audit inserts. revoke_api_token revokes the
+ * stored token unless it is missing or already revoked, like the database function.
+ */
+function createMockSupabase(
+  options: {
+    owner?: Record<string, unknown> | null;
+    ownerRoles?: Record<string, unknown>[];
+    token?: Record<string, unknown> | null;
+    rpcRows?: Record<string, unknown>[];
+  } = {}
+) {
+  const { owner = { id: USER_ID, deactivated_at: null }, ownerRoles = [], token = null, rpcRows = [] } = options;
+  const tokenInserts: Record<string, unknown>[] = [];
+  const tokenUpdates: Record<string, unknown>[] = [];
+  const rpcCalls: { name: string; args: Record<string, unknown> }[] = [];
+  const auditInserts: Record<string, unknown>[] = [];
+  let stored = token;
+
+  const client = {
+    async rpc(name: string, args: Record<string, unknown>) {
+      rpcCalls.push({ name, args });
+      if (name === "revoke_api_token") {
+        if (!stored || stored.revoked_at) {
+          return { data: false, error: null };
+        }
+        stored = { ...stored, revoked_at: new Date().toISOString(), revoked_by: USER_ID };
+        return { data: true, error: null };
+      }
+      return { data: rpcRows, error: null };
+    },
+    from(table: string) {
+      if (table === "audit_logs") {
+        return {
+          async insert(payload: Record<string, unknown>) {
+            auditInserts.push(payload);
+            return { error: null };
+          },
+        };
+      }
+
+      if (table === "user_roles") {
+        return {
+          select: () => ({ eq: async () => ({ data: ownerRoles, error: null }) }),
+        };
+      }
+
+      if (table === "users") {
+        return {
+          select: () => ({
+            eq: () => ({
+              maybeSingle: async () => ({ data: owner, error: null }),
+              single: async () => ({ data: { is_admin: false, deactivated_at: null }, error: null }),
+            }),
+          }),
+        };
+      }
+
+      return {
+        select: () => ({
+          eq: () => ({
+            maybeSingle: async () => ({ data: token, error: null }),
+            single: async () => ({ data: stored, error: null }),
+          }),
+        }),
+        insert(payload: Record<string, unknown>) {
+          tokenInserts.push(payload);
+          return {
+            select: () => ({ single: async () => ({ data: { id: TOKEN_ID, ...payload }, error: null }) }),
+          };
+        },
+        update(payload: Record<string, unknown>) {
+          tokenUpdates.push(payload);
+          return {
+            eq: () => ({
+              select: () => ({ single: async () => ({ data: { ...token, ...payload }, error: null }) }),
+            }),
+          };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, tokenInserts, tokenUpdates, rpcCalls, auditInserts };
+}
+
+describe("canOwnScope", () => {
+  it("requires admin rights for admin tokens and a review permission for review tokens", () => {
+    const reviewer: UserAccess = { ...MEMBER, roles: [{ role: "reviewer", categories: ["technical"] }] };
+
+    expect(canOwnScope(MEMBER, "read")).toBe(true);
+    expect(canOwnScope(MEMBER, "review")).toBe(false);
+    expect(canOwnScope(reviewer, "review")).toBe(true);
+    expect(canOwnScope(reviewer, "admin")).toBe(false);
+    expect(canOwnScope(ADMIN, "admin")).toBe(true);
+  });
+});
+
+describe("ApiTokenService", () => {
+  describe("authenticate", () => {
+    it("looks tokens up by their hash", async () => {
+      const { client, rpcCalls } = createMockSupabase({
+        rpcRows: [{ id: TOKEN_ID, user_id: USER_ID, email: "ada@example.com", scope: "read" }],
+      });
+
+      const token = await new ApiTokenService(client).authenticate("bdg_secret");
+
+      expect(token).toEqual({ id: TOKEN_ID, userId: USER_ID, email: "ada@example.com", scope: "read" });
+      expect(rpcCalls).toEqual([
+        { name: "authenticate_api_token", args: { p_token_hash: await hashApiToken("bdg_secret") } },
+      ]);
+    });
+
+    it("ignores bearer values that are not API tokens", async () => {
+      const { client, rpcCalls } = createMockSupabase();
+
+      expect(await new ApiTokenService(client).authenticate("some-other-secret")).toBeNull();
+      expect(rpcCalls).toHaveLength(0);
+    });
+  });
+
+  describe("createToken", () => {
+    it("stores only the hash of a personal token and returns the secret once", async () => {
+      const { client, tokenInserts, auditInserts } = createMockSupabase();
+
+      const created = await new ApiTokenService(client).createToken(
+        { name: "Reporting", scope: "read", expires_in_days: 30 },
+        MEMBER
+      );
+
+      expect(created.token).toMatch(/^bdg_[\w-]{43}$/);
+      expect(tokenInserts[0]).toMatchObject({
+        user_id: USER_ID,
+        kind: "personal",
+        scope: "read",
+        created_by: USER_ID,
+        token_hash: await hashApiToken(created.token),
+        token_prefix: created.token.slice(0, 12),
+      });
+      expect(JSON.stringify(tokenInserts[0])).not.toContain(created.token);
+      expect(auditInserts[0]).toMatchObject({ event_type: "api_token.created", resource_id: TOKEN_ID });
+    });
+
+    it("issues service tokens for other accounts to admins", async () => {
+      const { client, tokenInserts } = createMockSupabase({ owner: { id: OTHER_ID, deactivated_at: null } });
+
+      await new ApiTokenService(client).createToken(
+        { name: "HRIS sync", scope: "read", expires_in_days: 365, user_id: OTHER_ID },
+        ADMIN
+      );
+
+      expect(tokenInserts[0]).toMatchObject({ user_id: OTHER_ID, kind: "service", created_by: USER_ID });
+    });
+
+    it("refuses tokens for other accounts from non-admins", async () => {
+      const { client, tokenInserts } = createMockSupabase();
+
+      await expect(
+        new ApiTokenService(client).createToken(
+          { name: "Sync", scope: "read", expires_in_days: 30, user_id: OTHER_ID },
+          MEMBER
+        )
+      ).rejects.toThrow("FORBIDDEN");
+      expect(tokenInserts).toHaveLength(0);
+    });
+
+    it("refuses scopes the owner's roles don't cover", async () => {
+      const { client } = createMockSupabase({ owner: { id: OTHER_ID, deactivated_at: null } });
+      const service = new ApiTokenService(client);
+
+      await expect(
+        service.createToken({ name: "Reviews", scope: "review", expires_in_days: 30 }, MEMBER)
+      ).rejects.toThrow("SCOPE_NOT_PERMITTED");
+      await expect(
+        service.createToken({ name: "Admin", scope: "admin", expires_in_days: 30, user_id: OTHER_ID }, ADMIN)
+      ).rejects.toThrow("SCOPE_NOT_PERMITTED");
+    });
+
+    it("refuses deactivated owners", async () => {
+      const { client } = createMockSupabase({ owner: { id: OTHER_ID, deactivated_at: "2025-11-20T00:00:00Z" } });
+
+      await expect(
+        new ApiTokenService(client).createToken(
+          { name: "Sync", scope: "read", expires_in_days: 30, user_id: OTHER_ID },
+          ADMIN
+        )
+      ).rejects.toThrow("USER_DEACTIVATED");
+    });
+  });
+
+  describe("revokeToken", () => {
+    it("revokes the token through revoke_api_token and audits it", async () => {
+      const { client, tokenUpdates, rpcCalls, auditInserts } = createMockSupabase({
+        token: { id: TOKEN_ID, user_id: OTHER_ID, revoked_at: null },
+      });
+
+      const revoked = await new ApiTokenService(client).revokeToken(TOKEN_ID, USER_ID);
+
+      expect(revoked).toMatchObject({ revoked_at: expect.any(String), revoked_by: USER_ID });
+      expect(rpcCalls).toEqual([{ name: "revoke_api_token", args: { p_token_id: TOKEN_ID } }]);
+      expect(tokenUpdates).toEqual([]);
+      expect(auditInserts[0]).toMatchObject({ event_type: "api_token.revoked", payload: { user_id: OTHER_ID } });
+    });
+
+    it("returns null for tokens the actor cannot see", async () => {
+      const { client } = createMockSupabase();
+
+      expect(await new ApiTokenService(client).revokeToken(TOKEN_ID, USER_ID)).toBeNull();
+    });
+
+    it("rejects tokens that are already revoked", async () => {
+      const { client } = createMockSupabase({
+        token: { id: TOKEN_ID, user_id: USER_ID, revoked_at: "2025-11-29T00:00:00Z" },
+      });
+
+      await expect(new ApiTokenService(client).revokeToken(TOKEN_ID, USER_ID)).rejects.toThrow("TOKEN_ALREADY_REVOKED");
+    });
+
+    it("rejects tokens revoked by a concurrent request without auditing", async () => {
+      const { client, auditInserts } = createMockSupabase({
+        token: { id: TOKEN_ID, user_id: USER_ID, revoked_at: null },
+      });
+      // The function finds the token already revoked
+      await client.rpc("revoke_api_token", { p_token_id: TOKEN_ID });
+
+      await expect(new ApiTokenService(client).revokeToken(TOKEN_ID, USER_ID)).rejects.toThrow("TOKEN_ALREADY_REVOKED");
+      expect(auditInserts).toEqual([]);
+    });
+  });
+
+  describe("recordUse", () => {
+    it("writes an audit entry for the token's owner", async () => {
+      const { client, auditInserts } = createMockSupabase();
+
+      await new ApiTokenService(client).recordUse(
+        { id: TOKEN_ID, userId: USER_ID, email: null, scope: "read" },
+        { method: "GET", path: "/api/promotions", status: 200, requestId: "req-1" }
+      );
+
+      expect(auditInserts).toEqual([
+        {
+          event_type: "api_token.used",
+          actor_id: USER_ID,
+          resource_type: "api_token",
+          resource_id: TOKEN_ID,
+          payload: { method: "GET", path: "/api/promotions", status: 200, scope: "read", request_id: "req-1" },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { AuditLogService } from "../audit-log.service";
+import { logAuditEvent } from "../audit-logger";
+import { listAuditLogsQuerySchema } from "../validation/audit-log.validation";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+type Call = [string, ...unknown[]];
+
+/**
+ * Creates a mock Supabase client that records every query builder call
+ * made against audit_logs, split into the data query and the count query.
+ */
+function createMockSupabase(options: { entries?: Record<string, unknown>[]; total?: number; failInsert?: boolean }) {
+  const { entries = [], total = entries.length, failInsert = false } = options;
+  const dataCalls: Call[] = [];
+  const countCalls: Call[] = [];
+  const inserts: unknown[] = [];
+
+  function chain(calls: Call[], result: unknown) {
+    const builder: Record<string, unknown> = {};
+    for (const method of ["eq", "gte", "lte", "order", "range"]) {
+      builder[method] = (...args: unknown[]) => {
+        calls.push([method, ...args]);
+        return builder;
+      };
+    }
+    builder.then = (resolve: (value: unknown) => void) => resolve(result);
+    return builder;
+  }
+
+  const client = {
+    from(table: string) {
+      if (table !== "audit_logs") throw new Error(`Unexpected table ${table}`);
+      return {
+        select(_columns: string, opts?: { count?: string; head?: boolean }) {
+          if (opts?.head) {
+            return chain(countCalls, { count: total, error: null });
+          }
+          return chain(dataCalls, { data: entries, error: null });
+        },
+        async insert(payload: unknown) {
+          if (failInsert) {
+            return { error: { message: "permission denied" } };
+          }
+          inserts.push(payload);
+          return { error: null };
+        },
+      };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, dataCalls, countCalls, inserts };
+}
+
+describe("AuditLogService.listAuditLogs", () => {
+  it("returns entries with actor summary and pagination metadata", async () => {
+    const { client, dataCalls } = createMockSupabase({
+      entries: [
+        {
+          id: "log-1",
+          actor_id: "user-1",
+          event_type: "promotion.approved",
+          resource_type: "promotion",
+          resource_id: "promo-1",
+          payload: {},
+          created_at: "2025-11-14T10:00:00Z",
+          actor: { id: "user-1", display_name: "Admin", email: "admin@example.com" },
+        },
+      ],
+      total: 3,
+    });
+    const service = new AuditLogService(client);
+
+    const result = await service.listAuditLogs(listAuditLogsQuerySchema.parse({ limit: "1" }));
+
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0].actor?.display_name).toBe("Admin");
+    expect(result.pagination).toEqual({ total: 3, limit: 1, offset: 0, has_more: true });
+    expect(dataCalls).toContainEqual(["order", "created_at", { ascending: false }]);
+    expect(dataCalls).toContainEqual(["range", 0, 0]);
+  });
+
+  it("applies filters to both data and count queries and expands plain dates", async () => {
+    const { client, dataCalls, countCalls } = createMockSupabase({});
+    const service = new AuditLogService(client);
+
+    await service.listAuditLogs(
+      listAuditLogsQuerySchema.parse({
+        actor_id: "550e8400-e29b-41d4-a716-446655440100",
+        event_type: "catalog_badge.created",
+        resource_type: "catalog_badge",
+        from: "2025-11-01",
+        to: "2025-11-30",
+      })
+    );
+
+    for (const calls of [dataCalls, countCalls]) {
+      expect(calls).toContainEqual(["eq", "actor_id", "550e8400-e29b-41d4-a716-446655440100"]);
+      expect(calls).toContainEqual(["eq", "event_type", "catalog_badge.created"]);
+      expect(calls).toContainEqual(["eq", "resource_type", "catalog_badge"]);
+      expect(calls).toContainEqual(["gte", "created_at", "2025-11-01T00:00:00.000Z"]);
+      expect(calls).toContainEqual(["lte", "created_at", "2025-11-30T23:59:59.999Z"]);
+    }
+  });
+});
+
+describe("listAuditLogsQuerySchema", () => {
+  it("rejects unknown event types", () => {
+    expect(listAuditLogsQuerySchema.safeParse({ event_type: "nope" }).success).toBe(false);
+  });
+
+  it("rejects a date range where from is after to", () => {
+    expect(listAuditLogsQuerySchema.safeParse({ from: "2025-12-01", to: "2025-11-01" }).success).toBe(false);
+  });
+});
+
+describe("logAuditEvent", () => {
+  it("writes resource columns and payload", async () => {
+    const { client, inserts } = createMockSupabase({});
+
+    await logAuditEvent(client, {
+      event_type: "catalog_badge.deactivated",
+      actor_id: "user-1",
+      resource_type: "catalog_badge",
+      resource_id: "badge-1",
+      payload: { title: "Badge" },
+    });
+
+    expect(inserts).toEqual([
+      {
+        event_type: "catalog_badge.deactivated",
+        actor_id: "user-1",
+        resource_type: "catalog_badge",
+        resource_id: "badge-1",
+        payload: { title: "Badge" },
+      },
+    ]);
+  });
+
+  it("never throws when the insert fails", async () => {
+    const { client } = createMockSupabase({ failInsert: true });
+
+    await expect(logAuditEvent(client, { event_type: "promotion.created" })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  allocateBadges,
+  evaluateRequirements,
+  selectBadgesForRules,
+  type SelectableBadge,
+} from "../badge-requirements";
+import type { PromotionTemplateRule } from "@/types";
+
+const badge = (id: string, category: string, level: string, earnedAt = "2024-01-01T00:00:00Z"): SelectableBadge => ({
+  id,
+  category,
+  level,
+  earned_at: earnedAt,
+});
+
+describe("allocateBadges", () => {
+  it("counts a badge toward only one rule", () => {
+    const rules: PromotionTemplateRule[] = [
+      { category: "technical", level: "silver", count: 1 },
+      { category: "any", level: "silver", count: 1 },
+    ];
+
+    const requirements = evaluateRequirements(rules, [badge("t1", "technical", "silver")]);
+
+    expect(requirements.map((req) => req.current)).toEqual([1, 0]);
+    expect(requirements.every((req) => req.satisfied)).toBe(false);
+  });
+
+  it("moves a badge to another rule when that frees a slot for a later badge", () => {
+    const rules: PromotionTemplateRule[] = [
+      { category: "any", level: "gold", count: 1 },
+      { category: "technical", level: "gold", count: 1 },
+    ];
+    // The organizational badge only fits "any", so the technical one must take the category rule
+    const badges = [badge("t1", "technical", "gold"), badge("o1", "organizational", "gold")];
+
+    const allocation = allocateBadges(rules, badges);
+
+    expect(allocation.map((entry) => entry.badges.map((b) => b.id))).toEqual([["o1"], ["t1"]]);
+  });
+
+  it("leaves badges unassigned once every slot is filled", () => {
+    const rules: PromotionTemplateRule[] = [{ category: "technical", level: "bronze", count: 1 }];
+
+    const allocation = allocateBadges(rules, [badge("b1", "technical", "bronze"), badge("b2", "technical", "bronze")]);
+
+    expect(allocation[0].badges.map((b) => b.id)).toEqual(["b1"]);
+  });
+
+  it("counts higher levels toward or_higher conditions only", () => {
+    const rules: PromotionTemplateRule[] = [
+      { category: "technical", level: "silver", count: 3, or_higher: true },
+      { category: "technical", level: "bronze", count: 1 },
+    ];
+    const badges = [
+      badge("s1", "technical", "silver"),
+      badge("g1", "technical", "gold"),
+      badge("b1", "technical", "bronze"),
+      badge("b2", "technical", "bronze"),
+    ];
+
+    const requirements = evaluateRequirements(rules, badges);
+
+    expect(requirements[0]).toMatchObject({ level: "silver", or_higher: true, required: 3, current: 2 });
+    expect(requirements[1]).toMatchObject({ level: "bronze", required: 1, current: 1, satisfied: true });
+  });
+
+  it("meets a rule through the alternative that fits the badges", () => {
+    const rules: PromotionTemplateRule[] = [
+      {
+        category: "organizational",
+        level: "gold",
+        count: 2,
+        alternatives: [{ category: "softskilled", level: "silver", count: 4 }],
+      },
+    ];
+    const softSilver = ["s1", "s2", "s3", "s4"].map((id) => badge(id, "softskilled", "silver"));
+
+    const [met] = allocateBadges(rules, softSilver);
+    expect(met.condition).toMatchObject({ category: "softskilled", level: "silver", count: 4 });
+    expect(met.badges).toHaveLength(4);
+
+    // Neither option met: report the one missing fewer badges
+    const [closest] = evaluateRequirements(rules, [badge("o1", "organizational", "gold")]);
+    expect(closest).toMatchObject({ category: "organizational", level: "gold", required: 2, current: 1 });
+  });
+
+  it("limits how many applications of the same catalog badge count toward a rule", () => {
+    const rules: PromotionTemplateRule[] = [{ category: "technical", level: "silver", count: 3, max_per_badge: 2 }];
+    const repeated = (id: string, catalogBadgeId: string) => ({
+      ...badge(id, "technical", "silver"),
+      catalog_badge_id: catalogBadgeId,
+    });
+
+    const [capped] = evaluateRequirements(rules, [repeated("a1", "A"), repeated("a2", "A"), repeated("a3", "A")]);
+    expect(capped).toMatchObject({ current: 2, satisfied: false });
+
+    const [met] = evaluateRequirements(rules, [repeated("a1", "A"), repeated("a2", "A"), repeated("b1", "B")]);
+    expect(met).toMatchObject({ current: 3, satisfied: true });
+  });
+});
+
+describe("selectBadgesForRules", () => {
+  it("picks separate badges for a category rule and an 'any' rule of the same level", () => {
+    const rules: PromotionTemplateRule[] = [
+      { category: "any", level: "silver", count: 3 },
+      { category: "technical", level: "silver", count: 2 },
+    ];
+    const badges = [
+      badge("t1", "technical", "silver"),
+      badge("t2", "technical", "silver"),
+      badge("t3", "technical", "silver"),
+      badge("o1", "organizational", "silver"),
+      badge("o2", "organizational", "silver"),
+    ];
+
+    const { selected, assignments } = selectBadgesForRules(rules, badges);
+
+    expect(selected.map((b) => b.id).sort()).toEqual(["o1", "o2", "t1", "t2", "t3"]);
+    expect(assignments[0].badges).toHaveLength(3);
+    expect(assignments[1].badges.every((b) => b.category === "technical")).toBe(true);
+    expect(assignments[1].badges).toHaveLength(2);
+  });
+
+  it("picks older badges first and ignores other levels", () => {
+    const rules: PromotionTemplateRule[] = [{ category: "technical", level: "bronze", count: 1 }];
+    const badges = [
+      badge("new", "technical", "bronze", "2024-06-01T00:00:00Z"),
+      badge("old", "technical", "bronze", "2023-06-01T00:00:00Z"),
+      badge("gold", "technical", "gold", "2022-06-01T00:00:00Z"),
+    ];
+
+    expect(selectBadgesForRules(rules, badges).selected.map((b) => b.id)).toEqual(["old"]);
+  });
+
+  it("uses what is available when a rule cannot be met", () => {
+    const rules: PromotionTemplateRule[] = [{ category: "technical", level: "gold", count: 2 }];
+
+    const { selected, assignments } = selectBadgesForRules(rules, [badge("g1", "technical", "gold")]);
+
+    expect(selected.map((b) => b.id)).toEqual(["g1"]);
+    expect(assignments[0].badges).toHaveLength(1);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { CareerLadderService } from "../career-ladder.service";
+import { positionLevels } from "../position-levels";
+import { createCareerLadderVersionSchema } from "../validation/career-ladder.validation";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Creates a mock Supabase client for CareerLadderService.
+ * Reads filter career_ladder_versions by lte and sort them like the database would;
+ * inserts and audit log entries are recorded.
+ */
+function createMockSupabase(versions: Row[]) {
+  const inserted: Row[] = [];
+  const auditLogs: Row[] = [];
+
+  const client = {
+    from(table: string) {
+      return {
+        select: () => {
+          let rows = [...versions];
+          const orders: { column: string; ascending: boolean }[] = [];
+          const sorted = () =>
+            [...rows].sort((a, b) => {
+              for (const { column, ascending } of orders) {
+                const compare = String(a[column]).localeCompare(String(b[column]), undefined, { numeric: true });
+                if (compare !== 0) return ascending ? compare : -compare;
+              }
+              return 0;
+            });
+          const chain = {
+            lte: (column: string, value: string) => {
+              rows = rows.filter((row) => new Date(row[column] as string) <= new Date(value));
+              return chain;
+            },
+            order: (column: string, { ascending }: { ascending: boolean }) => {
+              orders.push({ column, ascending });
+              return chain;
+            },
+            limit: async (count: number) => ({ data: sorted().slice(0, count), error: null }),
+            then: (resolve: (value: unknown) => void) => resolve({ data: sorted(), error: null }),
+          };
+          return chain;
+        },
+        insert: (row: Row) => {
+          if (table === "audit_logs") {
+            auditLogs.push(row);
+            return Promise.resolve({ error: null });
+          }
+          const created = { id: `version-${row.version}`, effective_from: "2025-12-01T00:00:00Z", ...row };
+          inserted.push(created);
+          return { select: () => ({ single: async () => ({ data: created, error: null }) }) };
+        },
+      };
+    },
+  };
+
+  return { supabase: client as unknown as SupabaseClient, inserted, auditLogs };
+}
+
+const version = (number: number, effectiveFrom: string, technical: Row = { T1: { required_badges: {} } }): Row => ({
+  id: `version-${number}`,
+  version: number,
+  positions: { technical, financial: {}, management: {} },
+  effective_from: effectiveFrom,
+  note: null,
+  created_by: "admin-1",
+  created_at: effectiveFrom,
+});
+
+describe("CareerLadderService.getLadder", () => {
+  it("falls back to the bundled ladder without versions in force", async () => {
+    const { supabase } = createMockSupabase([version(1, "2030-01-01T00:00:00Z")]);
+
+    const ladder = await new CareerLadderService(supabase).getLadder(new Date("2025-06-01T00:00:00Z"));
+
+    expect(ladder.version).toBe(0);
+    expect(ladder.effective_from).toBeNull();
+    expect(ladder.positions).toEqual(positionLevels.positions);
+  });
+
+  it("returns the latest version in force at the date", async () => {
+    const { supabase } = createMockSupabase([
+      version(1, "2025-01-01T00:00:00Z"),
+      version(2, "2025-03-01T00:00:00Z", { T2: { required_badges: {} } }),
+      version(3, "2025-09-01T00:00:00Z"),
+    ]);
+    const service = new CareerLadderService(supabase);
+
+    const ladder = await service.getLadder(new Date("2025-06-01T00:00:00Z"));
+
+    expect(ladder.version).toBe(2);
+    expect(Object.keys(ladder.positions.technical)).toEqual(["T2"]);
+    expect((await service.getLadder(new Date("2025-09-01T00:00:00Z"))).version).toBe(3);
+  });
+});
+
+describe("CareerLadderService.createVersion", () => {
+  it("numbers the version after the latest one and logs an audit event", async () => {
+    const { supabase, inserted, auditLogs } = createMockSupabase([
+      version(1, "2025-01-01T00:00:00Z"),
+      version(2, "2025-03-01T00:00:00Z"),
+    ]);
+
+    const created = await new CareerLadderService(supabase).createVersion(
+      { positions: positionLevels.positions, note: "Raise S3 requirements" },
+      "admin-1"
+    );
+
+    expect(created.version).toBe(3);
+    expect(inserted[0]).toMatchObject({ version: 3, created_by: "admin-1", note: "Raise S3 requirements" });
+    expect(auditLogs[0]).toMatchObject({
+      event_type: "career_ladder.version_created",
+      resource_type: "career_ladder",
+      resource_id: "version-3",
+    });
+  });
+});
+
+describe("createCareerLadderVersionSchema", () => {
+  it("accepts the bundled ladder", () => {
+    expect(createCareerLadderVersionSchema.safeParse({ positions: positionLevels.positions }).success).toBe(true);
+  });
+
+  it("rejects incomplete next_level chains with the offending level", () => {
+    const positions = structuredClone(positionLevels.positions);
+    positions.technical.S3.next_level = "S9";
+
+    const result = createCareerLadderVersionSchema.safeParse({ positions });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path.join("."))).toEqual(["positions.technical.S3"]);
+  });
+
+  it("rejects unknown paths and badge levels", () => {
+    const positions = {
+      ...structuredClone(positionLevels.positions),
+      research: {},
+    };
+    positions.financial.J1.required_badges.organizational = [{ level: "platinum" as "gold", count: 1 }];
+
+    const result = createCareerLadderVersionSchema.safeParse({ positions });
+
+    expect(result.success).toBe(false);
+  });
+});
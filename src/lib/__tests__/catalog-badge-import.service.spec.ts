@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { CatalogBadgeImportService } from "../catalog-badge-import.service";
+import { formatCsv, parseCsv } from "../csv";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const ADMIN_ID = "550e8400-e29b-41d4-a716-446655440100";
+const EXISTING_ID = "11111111-1111-4111-8111-111111111111";
+
+const HEADER = "title,description,category,level,metadata";
+
+/**
+ * Creates a mock Supabase client for CatalogBadgeImportService.
+ * Records the rows passed to the bulk insert and audit inserts.
+ */
+function createMockSupabase(existing: Record<string, unknown>[] = []) {
+  const inserts: Record<string, unknown>[][] = [];
+  const auditInserts: Record<string, unknown>[] = [];
+
+  const client = {
+    from(table: string) {
+      if (table === "audit_logs") {
+        return {
+          async insert(payload: Record<string, unknown>) {
+            auditInserts.push(payload);
+            return { error: null };
+          },
+        };
+      }
+
+      return {
+        select() {
+          const result = { data: existing, error: null };
+          return {
+            eq() {
+              return this;
+            },
+            async order() {
+              return result;
+            },
+            then(resolve: (value: typeof result) => void) {
+              resolve(result);
+            },
+          };
+        },
+        insert(rows: Record<string, unknown>[]) {
+          inserts.push(rows);
+          return {
+            async select() {
+              return { data: rows.map((_, i) => ({ id: `new-${i + 1}` })), error: null };
+            },
+          };
+        },
+      };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, inserts, auditInserts };
+}
+
+describe("parseCsv / formatCsv", () => {
+  it("parses quoted fields with commas, newlines and escaped quotes", () => {
+    const rows = parseCsv('\uFEFFa,b,c\r\n"x, y","line1\nline2","say ""hi"""\r\n\r\n');
+
+    expect(rows).toEqual([
+      ["a", "b", "c"],
+      ["x, y", "line1\nline2", 'say "hi"'],
+    ]);
+  });
+
+  it("rejects an unterminated quoted field", () => {
+    expect(() => parseCsv('a,b\n"oops,1')).toThrow("CSV_UNTERMINATED_QUOTE");
+  });
+
+  it("round-trips values through formatCsv", () => {
+    const rows = [
+      ["id", "metadata"],
+      ["1", '{"skills": ["a", "b"]}'],
+    ];
+
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
+
+describe("CatalogBadgeImportService.importCatalogBadges", () => {
+  it("accepts the bundled sample file in a dry run without writing", async () => {
+    const csv = readFileSync(resolve(__dirname, "../../../catalog_badges_samples.csv"), "utf-8");
+    const { client, inserts } = createMockSupabase();
+    const service = new CatalogBadgeImportService(client);
+
+    const report = await service.importCatalogBadges(csv, { dryRun: true, actorId: ADMIN_ID });
+
+    expect(report.dry_run).toBe(true);
+    expect(report.committed).toBe(false);
+    expect(report.total_rows).toBe(3);
+    expect(report.valid_rows).toBe(3);
+    expect(inserts).toHaveLength(0);
+  });
+
+  it("reports per-row validation errors and refuses to commit", async () => {
+    const csv = [
+      HEADER,
+      "Valid Badge,,technical,gold,",
+      ",Missing title,technical,gold,",
+      "Bad Level,,technical,platinum,",
+      "Bad Metadata,,technical,gold,{not json",
+    ].join("\n");
+    const { client, inserts } = createMockSupabase();
+    const service = new CatalogBadgeImportService(client);
+
+    const report = await service.importCatalogBadges(csv, { dryRun: false, actorId: ADMIN_ID });
+
+    expect(report.committed).toBe(false);
+    expect(report.invalid_rows).toBe(3);
+    expect(report.rows.map((row) => row.status)).toEqual(["valid", "invalid", "invalid", "invalid"]);
+    expect(report.rows[1].errors[0].field).toBe("title");
+    expect(report.rows[2].errors[0].field).toBe("level");
+    expect(report.rows[3].errors[0].field).toBe("metadata");
+    expect(inserts).toHaveLength(0);
+  });
+
+  it("skips duplicates of existing badges and of earlier rows", async () => {
+    const csv = [
+      HEADER,
+      "Kubernetes Expert,,technical,gold,",
+      "kubernetes expert ,,technical,gold,",
+      "Existing Badge,,technical,silver,",
+    ].join("\n");
+    const { client } = createMockSupabase([
+      { id: EXISTING_ID, title: "Existing Badge", category: "technical", level: "silver" },
+    ]);
+    const service = new CatalogBadgeImportService(client);
+
+    const report = await service.importCatalogBadges(csv, { dryRun: true, actorId: ADMIN_ID });
+
+    expect(report.valid_rows).toBe(1);
+    expect(report.duplicate_rows).toBe(2);
+    expect(report.rows[1].duplicate_of).toEqual({ id: null, row: 1 });
+    expect(report.rows[2].duplicate_of).toEqual({ id: EXISTING_ID, row: null });
+  });
+
+  it("inserts all valid rows in a single statement on commit", async () => {
+    const csv = [
+      HEADER,
+      'Kubernetes Expert,Runs clusters,technical,gold,"{""skills"": [""k8s""]}"',
+      "Mentor,,softskilled,bronze,",
+    ].join("\n");
+    const { client, inserts, auditInserts } = createMockSupabase();
+    const service = new CatalogBadgeImportService(client);
+
+    const report = await service.importCatalogBadges(csv, { dryRun: false, actorId: ADMIN_ID });
+
+    expect(report.committed).toBe(true);
+    expect(report.imported_ids).toEqual(["new-1", "new-2"]);
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0]).toHaveLength(2);
+    expect(inserts[0][0]).toMatchObject({
+      title: "Kubernetes Expert",
+      description: "Runs clusters",
+      metadata: { skills: ["k8s"] },
+      status: "active",
+      created_by: ADMIN_ID,
+    });
+    expect(auditInserts[0]).toMatchObject({ event_type: "catalog_badge.imported", actor_id: ADMIN_ID });
+  });
+
+  it("rejects files without the required columns", async () => {
+    const { client } = createMockSupabase();
+    const service = new CatalogBadgeImportService(client);
+
+    await expect(
+      service.importCatalogBadges("title,description\nA,B", { dryRun: true, actorId: ADMIN_ID })
+    ).rejects.toThrow("CSV_MISSING_COLUMNS");
+    await expect(service.importCatalogBadges(HEADER, { dryRun: true, actorId: ADMIN_ID })).rejects.toThrow("CSV_EMPTY");
+  });
+});
+
+describe("CatalogBadgeImportService.exportCatalogBadges", () => {
+  it("exports badges in the importable column layout", async () => {
+    const { client } = createMockSupabase([
+      {
+        id: EXISTING_ID,
+        title: "Team Leadership",
+        description: "Led a team, delivered",
+        category: "organizational",
+        level: "silver",
+        status: "active",
+        created_by: ADMIN_ID,
+        created_at: "2025-01-15T14:30:00Z",
+        deactivated_at: null,
+        version: 1,
+        metadata: { team_size: "5-8" },
+      },
+    ]);
+    const service = new CatalogBadgeImportService(client);
+
+    const csv = await service.exportCatalogBadges({});
+    const [header, row] = parseCsv(csv);
+
+    expect(header).toEqual([
+      "id",
+      "title",
+      "description",
+      "category",
+      "level",
+      "status",
+      "created_by",
+      "created_at",
+      "deactivated_at",
+      "version",
+      "metadata",
+    ]);
+    expect(row[2]).toBe("Led a team, delivered");
+    expect(JSON.parse(row[10])).toEqual({ team_size: "5-8" });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import { CatalogBadgeService } from "../catalog-badge.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const BADGE_ID = "11111111-1111-4111-8111-111111111111";
+const ADMIN_ID = "22222222-2222-4222-8222-222222222222";
+const APP_DRAFT_ID = "33333333-3333-4333-8333-333333333331";
+const APP_SUBMITTED_ID = "33333333-3333-4333-8333-333333333332";
+const PROMOTION_ID = "44444444-4444-4444-8444-444444444444";
+
+interface MockOptions {
+  badge?: Record<string, unknown> | null;
+  impact?: { data: unknown; error: { message: string } | null };
+}
+
+/**
+ * Creates a mock Supabase client for the catalog badge lifecycle methods
+ * (reactivate, archive, impact report). Records update payloads, audit inserts and rpc calls;
+ * the catalog_badge_impact rpc answers with `impact`.
+ */
+function createMockSupabase(options: MockOptions) {
+  const { badge = null, impact = { data: null, error: null } } = options;
+  const updates: Record<string, unknown>[] = [];
+  const auditInserts: Record<string, unknown>[] = [];
+  const rpcCalls: { fn: string; args: Record<string, unknown> }[] = [];
+
+  const client = {
+    async rpc(fn: string, args: Record<string, unknown>) {
+      rpcCalls.push({ fn, args });
+      return impact;
+    },
+    from(table: string) {
+      if (table === "audit_logs") {
+        return {
+          async insert(payload: Record<string, unknown>) {
+            auditInserts.push(payload);
+            return { error: null };
+          },
+        };
+      }
+
+      return {
+        select() {
+          return {
+            eq() {
+              return {
+                async single() {
+                  if (!badge) return { data: null, error: { code: "PGRST116", message: "No rows" } };
+                  return { data: badge, error: null };
+                },
+              };
+            },
+          };
+        },
+        update(payload: Record<string, unknown>) {
+          updates.push(payload);
+          return {
+            async eq() {
+              return { error: null };
+            },
+          };
+        },
+      };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, updates, auditInserts, rpcCalls };
+}
+
+const baseBadge = {
+  id: BADGE_ID,
+  title: "Code Review Champion",
+  description: "Reviews code",
+  category: "technical",
+  level: "silver",
+  metadata: {},
+  status: "inactive",
+  version: 1,
+  created_by: ADMIN_ID,
+  created_at: "2025-01-01T00:00:00Z",
+  deactivated_at: "2025-02-01T00:00:00Z",
+  archived_at: null,
+};
+
+describe("CatalogBadgeService.reactivateCatalogBadge", () => {
+  it("reactivates an inactive badge and clears deactivated_at", async () => {
+    const { client, updates, auditInserts } = createMockSupabase({ badge: baseBadge });
+    const service = new CatalogBadgeService(client);
+
+    const result = await service.reactivateCatalogBadge(BADGE_ID, ADMIN_ID);
+
+    expect(result?.status).toBe("active");
+    expect(result?.active).toBe(true);
+    expect(updates).toEqual([{ status: "active", deactivated_at: null }]);
+    expect(auditInserts[0]).toMatchObject({
+      event_type: "catalog_badge.reactivated",
+      actor_id: ADMIN_ID,
+      resource_id: BADGE_ID,
+    });
+  });
+
+  it("returns null when the badge does not exist", async () => {
+    const { client, updates } = createMockSupabase({ badge: null });
+    const service = new CatalogBadgeService(client);
+
+    expect(await service.reactivateCatalogBadge(BADGE_ID, ADMIN_ID)).toBeNull();
+    expect(updates).toHaveLength(0);
+  });
+
+  it("rejects an already active badge", async () => {
+    const { client, updates } = createMockSupabase({ badge: { ...baseBadge, status: "active" } });
+    const service = new CatalogBadgeService(client);
+
+    await expect(service.reactivateCatalogBadge(BADGE_ID, ADMIN_ID)).rejects.toThrow("BADGE_ALREADY_ACTIVE");
+    expect(updates).toHaveLength(0);
+  });
+
+  it("rejects an archived badge", async () => {
+    const { client, updates } = createMockSupabase({ badge: { ...baseBadge, status: "archived" } });
+    const service = new CatalogBadgeService(client);
+
+    await expect(service.reactivateCatalogBadge(BADGE_ID, ADMIN_ID)).rejects.toThrow("BADGE_ARCHIVED");
+    expect(updates).toHaveLength(0);
+  });
+});
+
+describe("CatalogBadgeService.archiveCatalogBadge", () => {
+  it("archives an active badge and stamps deactivated_at", async () => {
+    const { client, updates, auditInserts } = createMockSupabase({
+      badge: { ...baseBadge, status: "active", deactivated_at: null },
+    });
+    const service = new CatalogBadgeService(client);
+
+    const result = await service.archiveCatalogBadge(BADGE_ID, ADMIN_ID);
+
+    expect(result?.status).toBe("archived");
+    expect(result?.active).toBe(false);
+    expect(updates[0].status).toBe("archived");
+    expect(updates[0].archived_at).toEqual(expect.any(String));
+    expect(updates[0].deactivated_at).toBe(updates[0].archived_at);
+    expect(auditInserts[0]).toMatchObject({
+      event_type: "catalog_badge.archived",
+      payload: { previous_status: "active" },
+    });
+  });
+
+  it("keeps the original deactivation timestamp of an inactive badge", async () => {
+    const { client, updates } = createMockSupabase({ badge: baseBadge });
+    const service = new CatalogBadgeService(client);
+
+    await service.archiveCatalogBadge(BADGE_ID, ADMIN_ID);
+
+    expect(updates[0].deactivated_at).toBe("2025-02-01T00:00:00Z");
+  });
+
+  it("rejects an already archived badge", async () => {
+    const { client, updates } = createMockSupabase({ badge: { ...baseBadge, status: "archived" } });
+    const service = new CatalogBadgeService(client);
+
+    await expect(service.archiveCatalogBadge(BADGE_ID, ADMIN_ID)).rejects.toThrow("BADGE_ALREADY_ARCHIVED");
+    expect(updates).toHaveLength(0);
+  });
+});
+
+describe("CatalogBadgeService.getCatalogBadgeImpact", () => {
+  const applicant = { id: ADMIN_ID, display_name: "Jane Doe", email: "jane@example.com" };
+
+  it("reports the impact built by catalog_badge_impact", async () => {
+    const report = {
+      badge_id: BADGE_ID,
+      open_applications: [
+        { id: APP_DRAFT_ID, status: "draft", applicant },
+        { id: APP_SUBMITTED_ID, status: "submitted", applicant },
+      ],
+      draft_promotions: [
+        { id: PROMOTION_ID, path: "technical", from_level: "J1", to_level: "J2", created_by: ADMIN_ID },
+      ],
+    };
+    const { client, rpcCalls } = createMockSupabase({ impact: { data: report, error: null } });
+    const service = new CatalogBadgeService(client);
+
+    const result = await service.getCatalogBadgeImpact(BADGE_ID);
+
+    expect(result).toEqual(report);
+    // Built in the database, where row level security does not hide other users' rows
+    expect(rpcCalls).toEqual([{ fn: "catalog_badge_impact", args: { p_catalog_badge_id: BADGE_ID } }]);
+  });
+
+  it("returns null when the badge does not exist", async () => {
+    const { client } = createMockSupabase({ impact: { data: null, error: null } });
+    const service = new CatalogBadgeService(client);
+
+    expect(await service.getCatalogBadgeImpact(BADGE_ID)).toBeNull();
+  });
+
+  it("throws when the report cannot be built", async () => {
+    const { client } = createMockSupabase({ impact: { data: null, error: { message: "not_authorized" } } });
+    const service = new CatalogBadgeService(client);
+
+    await expect(service.getCatalogBadgeImpact(BADGE_ID)).rejects.toThrow("not_authorized");
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from "vitest";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { logError } from "../error-logger";
+import { getRequestContext, resolveRequestId, runWithRequestContext, type RequestContext } from "../request-context";
+
+vi.mock("@/db/supabase.service-role", () => ({
+  createServiceRoleClient: () => null,
+}));
+
+function createMockSupabase(insertError: unknown = null) {
+  const inserts: Record<string, unknown>[] = [];
+  const supabase = {
+    from(table: string) {
+      return {
+        async insert(row: Record<string, unknown>) {
+          inserts.push({ table, ...row });
+          return { error: insertError };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+  return { supabase, inserts };
+}
+
+function createRequestContext(): RequestContext {
+  return {
+    requestId: "req-12345678",
+    method: "POST",
+    path: "/api/promotions/p-1/approve",
+    ip: "127.0.0.1",
+    userAgent: "vitest",
+    errorLogged: false,
+  };
+}
+
+describe("resolveRequestId", () => {
+  it("keeps a well-formed incoming request ID", () => {
+    expect(resolveRequestId("lb-0123456789abcdef")).toBe("lb-0123456789abcdef");
+  });
+
+  it("generates a UUID for missing or malformed IDs", () => {
+    expect(resolveRequestId(null)).toMatch(/^[0-9a-f-]{36}$/);
+    expect(resolveRequestId("short")).toMatch(/^[0-9a-f-]{36}$/);
+    expect(resolveRequestId("bad id with spaces <script>")).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
+
+describe("logError", () => {
+  it("tags the entry with the current request and marks it as logged", async () => {
+    const { supabase, inserts } = createMockSupabase();
+    const context = createRequestContext();
+
+    await runWithRequestContext(context, () =>
+      logError(supabase, {
+        route: "/api/promotions/:id/approve",
+        error_code: "approve_failed",
+        message: "boom",
+        requester_id: "user-1",
+        status: 500,
+      })
+    );
+
+    expect(inserts).toEqual([
+      expect.objectContaining({
+        table: "error_logs",
+        request_id: "req-12345678",
+        method: "POST",
+        status: 500,
+        error_code: "approve_failed",
+        requester_id: "user-1",
+      }),
+    ]);
+    expect(context.errorLogged).toBe(true);
+  });
+
+  it("stores Error payloads as name and message", async () => {
+    const { supabase, inserts } = createMockSupabase();
+
+    await logError(supabase, {
+      route: "/api/audit-logs",
+      error_code: "list_failed",
+      message: "boom",
+      payload: { error: new TypeError("bad input") },
+    });
+
+    expect(inserts[0].payload).toEqual({ error: { name: "TypeError", message: "bad input" } });
+    expect(inserts[0].request_id).toBeNull();
+    expect(getRequestContext()).toBeUndefined();
+  });
+
+  it("never throws when the insert fails", async () => {
+    const { supabase } = createMockSupabase({ message: "relation does not exist" });
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await expect(logError(supabase, { route: "/x", error_code: "e", message: "m" })).resolves.toBeUndefined();
+    expect(consoleSpy).toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect } from "vitest";
+import { HistoryImportService } from "../history-import.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const ADMIN_ID = "550e8400-e29b-41d4-a716-446655440100";
+const ALICE_ID = "550e8400-e29b-41d4-a716-446655440201";
+const BADGE_ID = "550e8400-e29b-41d4-a716-446655440001";
+const OTHER_BADGE_ID = "550e8400-e29b-41d4-a716-446655440002";
+const TEMPLATE_ID = "750e8400-e29b-41d4-a716-446655440001";
+
+const HEADER =
+  "applicant_email,badge_title,date_of_application,date_of_fulfillment,reviewer_email,promotion_ref,promotion_path,promotion_from_level,promotion_to_level,promotion_approved_at";
+
+interface MockOptions {
+  existingApplications?: Record<string, unknown>[];
+  failImport?: boolean;
+}
+
+/**
+ * Creates a mock Supabase client for HistoryImportService.
+ * Every query chain resolves to the fixture data of its table; inserts, including the
+ * rows passed to the import_history rpc, are recorded per table.
+ */
+function createMockSupabase(options: MockOptions = {}) {
+  const { existingApplications = [], failImport = false } = options;
+  const inserts: Record<string, Record<string, unknown>[]> = {};
+
+  const fixtures: Record<string, unknown[]> = {
+    users: [
+      { id: ADMIN_ID, email: "admin@example.com" },
+      { id: ALICE_ID, email: "alice@example.com" },
+    ],
+    catalog_badges: [
+      { id: BADGE_ID, title: "PostgreSQL Expert", version: 3 },
+      { id: OTHER_BADGE_ID, title: "Team Leadership", version: 1 },
+    ],
+    badge_applications: existingApplications,
+    promotion_templates: [{ id: TEMPLATE_ID, path: "technical", from_level: "S1", to_level: "S2", is_active: true }],
+  };
+
+  const queryChain = (result: unknown) => {
+    const chain = {
+      in: () => chain,
+      eq: () => chain,
+      then: (resolve: (value: unknown) => void) => resolve(result),
+    };
+    return chain;
+  };
+
+  const client = {
+    from(table: string) {
+      return {
+        select: () => queryChain({ data: fixtures[table] ?? [], error: null }),
+        async insert(rows: Record<string, unknown> | Record<string, unknown>[]) {
+          inserts[table] = [...(inserts[table] || []), ...(Array.isArray(rows) ? rows : [rows])];
+          return { error: null };
+        },
+      };
+    },
+    async rpc(_name: string, args: Record<string, Record<string, unknown>[]>) {
+      if (failImport) {
+        return { data: null, error: { message: "insert or update on table violates foreign key constraint" } };
+      }
+      inserts.badge_applications = args.p_applications;
+      inserts.promotions = args.p_promotions;
+      inserts.promotion_badges = args.p_promotion_badges;
+      return { data: {}, error: null };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, inserts };
+}
+
+const promotionRow = (title: string, date: string) =>
+  `alice@example.com,${title},${date},${date},admin@example.com,P-2023,technical,S1,S2,2023-12-01`;
+
+describe("HistoryImportService.importHistory", () => {
+  it("reports a valid dry run without writing", async () => {
+    const csv = [HEADER, "alice@example.com,PostgreSQL Expert,2022-03-01,2022-04-01,admin@example.com,,,,,"].join("\n");
+    const { client, inserts } = createMockSupabase();
+    const service = new HistoryImportService(client);
+
+    const report = await service.importHistory(csv, { dryRun: true, actorId: ADMIN_ID });
+
+    expect(report.valid_rows).toBe(1);
+    expect(report.committed).toBe(false);
+    expect(report.rows[0].label).toBe("alice@example.com – PostgreSQL Expert");
+    expect(inserts).toEqual({});
+  });
+
+  it("flags unknown users, badges and templates per row", async () => {
+    const csv = [
+      HEADER,
+      "nobody@example.com,PostgreSQL Expert,2022-03-01,,admin@example.com,,,,,",
+      "alice@example.com,Unknown Badge,2022-03-01,,admin@example.com,,,,,",
+      "alice@example.com,PostgreSQL Expert,2022-03-01,,admin@example.com,P-1,technical,S2,S3,2023-01-01",
+      "alice@example.com,PostgreSQL Expert,not-a-date,,admin@example.com,,,,,",
+    ].join("\n");
+    const { client, inserts } = createMockSupabase();
+    const service = new HistoryImportService(client);
+
+    const report = await service.importHistory(csv, { dryRun: false, actorId: ADMIN_ID });
+
+    expect(report.committed).toBe(false);
+    expect(report.invalid_rows).toBe(4);
+    expect(report.rows.map((row) => row.errors[0].field)).toEqual([
+      "applicant_email",
+      "badge_title",
+      "promotion_path",
+      "date_of_application",
+    ]);
+    expect(inserts).toEqual({});
+  });
+
+  it("skips badges that are already recorded", async () => {
+    const csv = [
+      HEADER,
+      "alice@example.com,PostgreSQL Expert,2022-03-01,,admin@example.com,,,,,",
+      "alice@example.com,Team Leadership,2022-05-01,,admin@example.com,,,,,",
+      "alice@example.com,Team Leadership,2022-05-01,,admin@example.com,,,,,",
+    ].join("\n");
+    const { client } = createMockSupabase({
+      existingApplications: [
+        { id: "existing-1", applicant_id: ALICE_ID, catalog_badge_id: BADGE_ID, date_of_application: "2022-03-01" },
+      ],
+    });
+    const service = new HistoryImportService(client);
+
+    const report = await service.importHistory(csv, { dryRun: true, actorId: ADMIN_ID });
+
+    expect(report.rows.map((row) => row.status)).toEqual(["duplicate", "valid", "duplicate"]);
+    expect(report.rows[0].duplicate_of).toEqual({ id: "existing-1", row: null });
+    expect(report.rows[2].duplicate_of).toEqual({ id: null, row: 2 });
+  });
+
+  it("writes accepted badges, an approved promotion and consumed links on commit", async () => {
+    const csv = [
+      HEADER,
+      promotionRow("PostgreSQL Expert", "2023-01-10"),
+      promotionRow("Team Leadership", "2023-02-10"),
+      "alice@example.com,Team Leadership,2024-01-10,,admin@example.com,,,,,",
+    ].join("\n");
+    const { client, inserts } = createMockSupabase();
+    const service = new HistoryImportService(client);
+
+    const report = await service.importHistory(csv, { dryRun: false, actorId: ADMIN_ID });
+
+    expect(report.committed).toBe(true);
+    expect(report.promotion_count).toBe(1);
+    expect(report.imported_application_ids).toHaveLength(3);
+    expect(report.imported_promotion_ids).toHaveLength(1);
+
+    const applications = inserts.badge_applications;
+    expect(applications.map((app) => app.status)).toEqual(["used_in_promotion", "used_in_promotion", "accepted"]);
+    expect(applications[0]).toMatchObject({
+      applicant_id: ALICE_ID,
+      catalog_badge_id: BADGE_ID,
+      catalog_badge_version: 3,
+      date_of_application: "2023-01-10",
+      reviewed_by: ADMIN_ID,
+      reviewed_at: "2023-01-10T00:00:00.000Z",
+    });
+
+    expect(inserts.promotions[0]).toMatchObject({
+      id: report.imported_promotion_ids[0],
+      template_id: TEMPLATE_ID,
+      created_by: ALICE_ID,
+      status: "approved",
+      approved_at: "2023-12-01T00:00:00.000Z",
+      executed: true,
+    });
+
+    expect(inserts.promotion_badges).toHaveLength(2);
+    expect(inserts.promotion_badges.every((link) => link.consumed === true)).toBe(true);
+    expect(inserts.promotion_badges.map((link) => link.badge_application_id)).toEqual(
+      report.imported_application_ids.slice(0, 2)
+    );
+
+    // One audit entry per imported record, all tagged with the same batch
+    const audit = inserts.audit_logs;
+    expect(audit.map((entry) => entry.event_type)).toEqual([
+      "badge_application.imported",
+      "badge_application.imported",
+      "badge_application.imported",
+      "promotion.imported",
+    ]);
+    const batchIds = new Set(audit.map((entry) => (entry.payload as { batch_id: string }).batch_id));
+    expect(batchIds.size).toBe(1);
+  });
+
+  it("rejects promotion groups with inconsistent columns", async () => {
+    const csv = [
+      HEADER,
+      promotionRow("PostgreSQL Expert", "2023-01-10"),
+      "alice@example.com,Team Leadership,2023-02-10,,admin@example.com,P-2023,technical,S1,S2,2023-12-02",
+    ].join("\n");
+    const { client } = createMockSupabase();
+    const service = new HistoryImportService(client);
+
+    const report = await service.importHistory(csv, { dryRun: true, actorId: ADMIN_ID });
+
+    expect(report.invalid_rows).toBe(2);
+    expect(report.rows[0].errors[0].field).toBe("promotion_ref");
+  });
+
+  it("throws without auditing when the import rpc fails", async () => {
+    const csv = [HEADER, promotionRow("PostgreSQL Expert", "2023-01-10")].join("\n");
+    const { client, inserts } = createMockSupabase({ failImport: true });
+    const service = new HistoryImportService(client);
+
+    await expect(service.importHistory(csv, { dryRun: false, actorId: ADMIN_ID })).rejects.toThrow(
+      "Failed to import history"
+    );
+    expect(inserts).toEqual({});
+  });
+
+  it("requires the applicant, date, reviewer and badge columns", async () => {
+    const { client } = createMockSupabase();
+    const service = new HistoryImportService(client);
+
+    await expect(
+      service.importHistory("applicant_email,date_of_application,reviewer_email\na@b.c,2022-01-01,a@b.c", {
+        dryRun: true,
+        actorId: ADMIN_ID,
+      })
+    ).rejects.toThrow("CSV_MISSING_COLUMNS");
+  });
+});
@@ -0,0 +1,303 @@
+import { describe, it, expect } from "vitest";
+import { NotificationWorker } from "../notification-worker";
+import type { Mailer, MailMessage } from "../smtp-mailer";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const ADMIN_ID = "550e8400-e29b-41d4-a716-446655440100";
+const OTHER_ADMIN_ID = "550e8400-e29b-41d4-a716-446655440101";
+const FORMER_ADMIN_ID = "550e8400-e29b-41d4-a716-446655440102";
+const ALICE_ID = "550e8400-e29b-41d4-a716-446655440201";
+const APPLICATION_ID = "650e8400-e29b-41d4-a716-446655440001";
+const PROMOTION_ID = "850e8400-e29b-41d4-a716-446655440001";
+
+interface MockOptions {
+  events: Record<string, unknown>[];
+  preferences?: Record<string, unknown>[];
+  application?: Record<string, unknown>;
+  promotion?: Record<string, unknown>;
+  failUpsert?: boolean;
+}
+
+/**
+ * Creates a mock Supabase client for NotificationWorker.
+ * Query chains resolve to table fixtures (filtered by the eq / in / is values);
+ * `application` and `promotion` override the fixture rows, which start out submitted.
+ * Updates of events and upserts of notifications are recorded.
+ */
+function createMockSupabase(options: MockOptions) {
+  const { events, preferences = [], application = {}, promotion = {}, failUpsert = false } = options;
+  const eventUpdates: { id: unknown; values: Record<string, unknown> }[] = [];
+  const upserts: Record<string, unknown>[] = [];
+
+  const fixtures: Record<string, Record<string, unknown>[]> = {
+    events,
+    users: [
+      { id: ADMIN_ID, email: "admin@example.com", is_admin: true, deactivated_at: null },
+      { id: OTHER_ADMIN_ID, email: "other-admin@example.com", is_admin: true, deactivated_at: null },
+      {
+        id: FORMER_ADMIN_ID,
+        email: "former-admin@example.com",
+        is_admin: true,
+        deactivated_at: "2025-01-01T00:00:00Z",
+      },
+      { id: ALICE_ID, email: "alice@example.com", is_admin: false, deactivated_at: null },
+    ],
+    badge_applications: [
+      {
+        id: APPLICATION_ID,
+        applicant_id: ALICE_ID,
+        status: "submitted",
+        reviewed_by: null,
+        catalog_badge: { title: "PostgreSQL Expert" },
+        applicant: { display_name: "Alice" },
+        ...application,
+      },
+    ],
+    promotions: [
+      {
+        id: PROMOTION_ID,
+        created_by: ALICE_ID,
+        status: "submitted",
+        approved_by: null,
+        rejected_by: null,
+        path: "technical",
+        from_level: "S1",
+        to_level: "S2",
+        creator: { display_name: "Alice" },
+        ...promotion,
+      },
+    ],
+    notification_preferences: preferences,
+  };
+
+  const client = {
+    from(table: string) {
+      const filters: [string, unknown][] = [];
+      const rows = () =>
+        (fixtures[table] ?? []).filter((row) =>
+          filters.every(([column, value]) =>
+            Array.isArray(value) ? value.includes(row[column]) : (row[column] ?? null) === value
+          )
+        );
+
+      const chain = {
+        select: () => chain,
+        is: (column: string, value: unknown) => {
+          filters.push([column, value]);
+          return chain;
+        },
+        lt: () => chain,
+        order: () => chain,
+        limit: () => chain,
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value]);
+          return chain;
+        },
+        in: (column: string, values: unknown[]) => {
+          filters.push([column, values]);
+          return chain;
+        },
+        single: async () => {
+          const [row] = rows();
+          return row ? { data: row, error: null } : { data: null, error: { code: "PGRST116", message: "No rows" } };
+        },
+        then: (resolve: (value: unknown) => void) => resolve({ data: rows(), error: null }),
+        update: (values: Record<string, unknown>) => ({
+          eq: async (_column: string, id: unknown) => {
+            eventUpdates.push({ id, values });
+            return { error: null };
+          },
+        }),
+        upsert: async (values: Record<string, unknown>[]) => {
+          if (failUpsert) return { error: { message: "insert failed" } };
+          upserts.push(...values);
+          return { error: null };
+        },
+      };
+      return chain;
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, eventUpdates, upserts };
+}
+
+/**
+ * Mailer double that records messages and can reject selected recipients
+ */
+function createMailer(failFor: string[] = []) {
+  const sent: MailMessage[] = [];
+  const mailer: Mailer = {
+    async send(message) {
+      if (failFor.includes(message.to)) throw new Error("SMTP_ERROR: 550 mailbox unavailable");
+      sent.push(message);
+    },
+  };
+  return { mailer, sent };
+}
+
+const event = (overrides: Record<string, unknown>) => ({
+  id: "event-1",
+  resource: "badge_applications",
+  resource_id: APPLICATION_ID,
+  actor_id: ALICE_ID,
+  payload: {},
+  attempts: 0,
+  processed_at: null,
+  ...overrides,
+});
+
+describe("NotificationWorker.processPendingEvents", () => {
+  it("notifies every admin when a badge application is submitted", async () => {
+    const { client, upserts, eventUpdates } = createMockSupabase({
+      events: [event({ type: "badge_application.submitted" })],
+    });
+    const { mailer, sent } = createMailer();
+    const worker = new NotificationWorker(client, mailer, "https://badger.test");
+
+    const result = await worker.processPendingEvents();
+
+    expect(result).toMatchObject({ processed_events: 1, notifications_created: 2, emails_sent: 2 });
+    expect(upserts.map((row) => row.user_id)).toEqual([ADMIN_ID, OTHER_ADMIN_ID]);
+    expect(upserts[0]).toMatchObject({
+      event_id: "event-1",
+      type: "badge_application.submitted",
+      title: "New badge application: PostgreSQL Expert",
+      link: "/admin/review",
+    });
+    expect(sent[0].text).toContain("https://badger.test/admin/review");
+    expect(eventUpdates[0].values).toMatchObject({ attempts: 1, last_error: null });
+    expect(eventUpdates[0].values.processed_at).toEqual(expect.any(String));
+  });
+
+  it("does not notify the admin who triggered a submission", async () => {
+    const { client, upserts } = createMockSupabase({
+      events: [
+        event({ type: "promotion.submitted", resource: "promotions", resource_id: PROMOTION_ID, actor_id: ADMIN_ID }),
+      ],
+    });
+    const worker = new NotificationWorker(client, null);
+
+    await worker.processPendingEvents();
+
+    expect(upserts.map((row) => row.user_id)).toEqual([OTHER_ADMIN_ID]);
+    expect(upserts[0].link).toBe(`/promotions/${PROMOTION_ID}`);
+  });
+
+  it("tells the applicant about a rejection, including the review note", async () => {
+    const { client, upserts } = createMockSupabase({
+      events: [
+        event({ type: "badge_application.rejected", actor_id: ADMIN_ID, payload: { review_reason: "Add evidence" } }),
+      ],
+      application: { status: "rejected", reviewed_by: ADMIN_ID },
+    });
+    const worker = new NotificationWorker(client, null);
+
+    await worker.processPendingEvents();
+
+    expect(upserts).toHaveLength(1);
+    expect(upserts[0]).toMatchObject({
+      user_id: ALICE_ID,
+      title: "Badge application rejected: PostgreSQL Expert",
+      body: 'Your application for "PostgreSQL Expert" was rejected. Note: Add evidence',
+      link: `/applications/${APPLICATION_ID}`,
+    });
+  });
+
+  it("skips rejections the reviewer chose not to notify", async () => {
+    const { client, upserts, eventUpdates } = createMockSupabase({
+      events: [event({ type: "badge_application.rejected", actor_id: ADMIN_ID, payload: { notify_applicant: false } })],
+      application: { status: "rejected", reviewed_by: ADMIN_ID },
+    });
+    const worker = new NotificationWorker(client, null);
+
+    const result = await worker.processPendingEvents();
+
+    expect(result.processed_events).toBe(1);
+    expect(upserts).toHaveLength(0);
+    expect(eventUpdates[0].values.processed_at).toEqual(expect.any(String));
+  });
+
+  it("skips decision events that do not match the application's status", async () => {
+    const { client, upserts, eventUpdates } = createMockSupabase({
+      events: [event({ type: "badge_application.accepted", payload: { review_reason: "Congratulations" } })],
+    });
+    const { mailer, sent } = createMailer();
+    const worker = new NotificationWorker(client, mailer);
+
+    const result = await worker.processPendingEvents();
+
+    expect(result.processed_events).toBe(1);
+    expect(upserts).toHaveLength(0);
+    expect(sent).toHaveLength(0);
+    expect(eventUpdates[0].values.processed_at).toEqual(expect.any(String));
+  });
+
+  it("skips decision events not written by the recorded reviewer", async () => {
+    const { client, upserts } = createMockSupabase({
+      events: [
+        event({
+          type: "promotion.rejected",
+          resource: "promotions",
+          resource_id: PROMOTION_ID,
+          actor_id: OTHER_ADMIN_ID,
+          payload: { reject_reason: "Forged reason" },
+        }),
+      ],
+      promotion: { status: "rejected", rejected_by: ADMIN_ID },
+    });
+    const worker = new NotificationWorker(client, null);
+
+    await worker.processPendingEvents();
+
+    expect(upserts).toHaveLength(0);
+  });
+
+  it("respects per-channel opt-outs", async () => {
+    const { client, upserts } = createMockSupabase({
+      events: [
+        event({ type: "promotion.approved", resource: "promotions", resource_id: PROMOTION_ID, actor_id: ADMIN_ID }),
+      ],
+      promotion: { status: "approved", approved_by: ADMIN_ID },
+      preferences: [{ user_id: ALICE_ID, event_type: "promotion.approved", channel: "email", enabled: false }],
+    });
+    const { mailer, sent } = createMailer();
+    const worker = new NotificationWorker(client, mailer);
+
+    const result = await worker.processPendingEvents();
+
+    expect(upserts.map((row) => row.user_id)).toEqual([ALICE_ID]);
+    expect(sent).toHaveLength(0);
+    expect(result.emails_sent).toBe(0);
+  });
+
+  it("records email failures without failing the event", async () => {
+    const { client, eventUpdates } = createMockSupabase({
+      events: [event({ type: "badge_application.submitted" })],
+    });
+    const { mailer, sent } = createMailer(["admin@example.com"]);
+    const worker = new NotificationWorker(client, mailer);
+
+    const result = await worker.processPendingEvents();
+
+    expect(result).toMatchObject({ processed_events: 1, emails_sent: 1, email_failures: 1 });
+    expect(sent.map((message) => message.to)).toEqual(["other-admin@example.com"]);
+    expect(eventUpdates[0].values.last_error).toContain("admin@example.com: SMTP_ERROR");
+  });
+
+  it("leaves the event pending for a retry when notifications cannot be stored", async () => {
+    const { client, eventUpdates } = createMockSupabase({
+      events: [event({ type: "badge_application.accepted", actor_id: ADMIN_ID, attempts: 2 })],
+      application: { status: "accepted", reviewed_by: ADMIN_ID },
+      failUpsert: true,
+    });
+    const worker = new NotificationWorker(client, null);
+
+    const result = await worker.processPendingEvents();
+
+    expect(result.failed_events).toBe(1);
+    expect(eventUpdates[0].values).toEqual({
+      attempts: 3,
+      last_error: "Failed to create notifications: insert failed",
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from "vitest";
+import {
+  buildAuthorizationUrl,
+  createCodeChallenge,
+  exchangeAuthorizationCode,
+  verifyIdToken,
+  type OidcProviderMetadata,
+} from "../auth/oidc-client";
+import type { OidcProviderConfig } from "../auth/sso-config";
+
+const METADATA: OidcProviderMetadata = {
+  issuer: "https://idp.example.com",
+  authorization_endpoint: "https://idp.example.com/authorize",
+  token_endpoint: "https://idp.example.com/token",
+  jwks_uri: "https://idp.example.com/jwks",
+};
+
+const CONFIG: OidcProviderConfig = {
+  issuer: "https://idp.example.com",
+  clientId: "badger",
+  clientSecret: "secret",
+  scopes: "openid email profile",
+  groupsClaim: "groups",
+};
+
+const NOW = Date.UTC(2025, 10, 28, 12, 0, 0);
+
+let signingKey: CryptoKeyPair;
+let otherKey: CryptoKeyPair;
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * Signs an RS256 ID token with the given key (kid "test-key")
+ */
+async function signIdToken(claims: Record<string, unknown>, key: CryptoKey = signingKey.privateKey): Promise<string> {
+  const input = `${encode({ alg: "RS256", kid: "test-key" })}.${encode(claims)}`;
+  const signature = await crypto.subtle.sign("RSASSA-PKCS1-v1_5", key, new TextEncoder().encode(input));
+  return `${input}.${Buffer.from(signature).toString("base64url")}`;
+}
+
+function validClaims(overrides: Record<string, unknown> = {}) {
+  return {
+    iss: METADATA.issuer,
+    sub: "user-1",
+    aud: "badger",
+    exp: NOW / 1000 + 300,
+    nonce: "nonce-1",
+    email: "ada@example.com",
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  const params = {
+    name: "RSASSA-PKCS1-v1_5",
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: "SHA-256",
+  };
+  signingKey = (await crypto.subtle.generateKey(params, true, ["sign", "verify"])) as CryptoKeyPair;
+  otherKey = (await crypto.subtle.generateKey(params, true, ["sign", "verify"])) as CryptoKeyPair;
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/**
+ * Serves the JWKS with the signing key's public half
+ */
+async function stubJwks() {
+  const jwk = await crypto.subtle.exportKey("jwk", signingKey.publicKey);
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(JSON.stringify({ keys: [{ ...jwk, kid: "test-key", use: "sig" }] })))
+  );
+}
+
+describe("buildAuthorizationUrl", () => {
+  it("requests the code flow with PKCE, state and nonce", async () => {
+    const url = new URL(
+      buildAuthorizationUrl(METADATA, CONFIG, {
+        redirectUri: "http://localhost:3000/api/auth/sso/oidc/callback",
+        state: "state-1",
+        nonce: "nonce-1",
+        codeChallenge: await createCodeChallenge("verifier"),
+      })
+    );
+
+    expect(url.origin + url.pathname).toBe(METADATA.authorization_endpoint);
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      response_type: "code",
+      client_id: "badger",
+      state: "state-1",
+      nonce: "nonce-1",
+      code_challenge_method: "S256",
+      // base64url(sha256("verifier"))
+      code_challenge: "iMnq5o6zALKXGivsnlom_0F5_WYda32GHkxlV7mq7hQ",
+    });
+  });
+});
+
+describe("exchangeAuthorizationCode", () => {
+  it("authenticates with client_secret_basic and returns the ID token", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ id_token: "token", access_token: "a" })));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const idToken = await exchangeAuthorizationCode(METADATA, CONFIG, {
+      code: "code-1",
+      redirectUri: "http://localhost:3000/cb",
+      codeVerifier: "verifier",
+    });
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(idToken).toBe("token");
+    expect((init.headers as Record<string, string>).Authorization).toBe(
+      `Basic ${Buffer.from("badger:secret").toString("base64")}`
+    );
+    expect(String(init.body)).toContain("code_verifier=verifier");
+  });
+
+  it("throws when the code is rejected", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("{}", { status: 400 }))
+    );
+
+    await expect(
+      exchangeAuthorizationCode(METADATA, CONFIG, { code: "bad", redirectUri: "http://x", codeVerifier: "v" })
+    ).rejects.toThrow("HTTP 400");
+  });
+});
+
+describe("verifyIdToken", () => {
+  it("returns the claims of a valid token", async () => {
+    await stubJwks();
+
+    const claims = await verifyIdToken(
+      await signIdToken(validClaims()),
+      METADATA,
+      { clientId: "badger", nonce: "nonce-1" },
+      NOW
+    );
+
+    expect(claims.email).toBe("ada@example.com");
+  });
+
+  it("rejects a token signed with another key", async () => {
+    await stubJwks();
+
+    const token = await signIdToken(validClaims(), otherKey.privateKey);
+
+    await expect(verifyIdToken(token, METADATA, { clientId: "badger", nonce: "nonce-1" }, NOW)).rejects.toThrow(
+      "signature is invalid"
+    );
+  });
+
+  it.each([
+    ["issuer", { iss: "https://evil.example.com" }],
+    ["audience", { aud: ["someone-else"] }],
+    ["nonce", { nonce: "replayed" }],
+  ])("rejects a token with the wrong %s", async (check, overrides) => {
+    await stubJwks();
+
+    const token = await signIdToken(validClaims(overrides));
+
+    await expect(verifyIdToken(token, METADATA, { clientId: "badger", nonce: "nonce-1" }, NOW)).rejects.toThrow(
+      `${check} does not match`
+    );
+  });
+
+  it("rejects an expired token", async () => {
+    await stubJwks();
+
+    const token = await signIdToken(validClaims({ exp: NOW / 1000 - 120 }));
+
+    await expect(verifyIdToken(token, METADATA, { clientId: "badger", nonce: "nonce-1" }, NOW)).rejects.toThrow(
+      "has expired"
+    );
+  });
+});
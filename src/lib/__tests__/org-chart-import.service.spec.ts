@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import { OrgChartImportService } from "../org-chart-import.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const ADMIN_ID = "550e8400-e29b-41d4-a716-446655440100";
+const LEAD_ID = "550e8400-e29b-41d4-a716-446655440201";
+const ALICE_ID = "550e8400-e29b-41d4-a716-446655440202";
+const BOB_ID = "550e8400-e29b-41d4-a716-446655440203";
+const FORMER_ID = "550e8400-e29b-41d4-a716-446655440204";
+
+const HEADER = "email,manager_email,team";
+
+interface MockUser {
+  id: string;
+  email: string;
+  manager_id: string | null;
+  team: string | null;
+  deactivated_at: string | null;
+}
+
+/**
+ * Creates a mock Supabase client for OrgChartImportService.
+ * Selects on users resolve to the fixture; updates are recorded in call order
+ * together with the filter they were applied with. failUpdateFor makes the
+ * per-user assignment update of that user fail.
+ */
+function createMockSupabase(users: MockUser[], options: { failUpdateFor?: string } = {}) {
+  const updates: { values: Record<string, unknown>; ids: string[] }[] = [];
+  const inserts: Record<string, Record<string, unknown>[]> = {};
+
+  const client = {
+    from(table: string) {
+      return {
+        select: () => ({
+          then: (resolve: (value: unknown) => void) => resolve({ data: table === "users" ? users : [], error: null }),
+        }),
+        update: (values: Record<string, unknown>) => {
+          const record = (ids: string[], failed = false) => {
+            updates.push({ values, ids });
+            return Promise.resolve({ error: failed ? { message: "update failed" } : null });
+          };
+          return {
+            eq: (_column: string, id: string) => record([id], id === options.failUpdateFor && "team" in values),
+            in: (_column: string, ids: string[]) => record(ids),
+          };
+        },
+        async insert(rows: Record<string, unknown> | Record<string, unknown>[]) {
+          inserts[table] = [...(inserts[table] || []), ...(Array.isArray(rows) ? rows : [rows])];
+          return { error: null };
+        },
+      };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, updates, inserts };
+}
+
+const baseUsers = (): MockUser[] => [
+  { id: ADMIN_ID, email: "admin@example.com", manager_id: null, team: null, deactivated_at: null },
+  { id: LEAD_ID, email: "lead@example.com", manager_id: null, team: "Platform", deactivated_at: null },
+  { id: ALICE_ID, email: "alice@example.com", manager_id: LEAD_ID, team: "Platform", deactivated_at: null },
+  { id: BOB_ID, email: "bob@example.com", manager_id: null, team: null, deactivated_at: null },
+  { id: FORMER_ID, email: "former@example.com", manager_id: null, team: null, deactivated_at: "2025-01-01T00:00:00Z" },
+];
+
+describe("OrgChartImportService.importOrgChart", () => {
+  it("reports a valid dry run and skips unchanged rows without writing", async () => {
+    const csv = [
+      HEADER,
+      "bob@example.com,lead@example.com,Platform",
+      "Alice@example.com,lead@example.com,Platform",
+    ].join("\n");
+    const { client, updates } = createMockSupabase(baseUsers());
+    const service = new OrgChartImportService(client);
+
+    const report = await service.importOrgChart(csv, { dryRun: true, actorId: ADMIN_ID });
+
+    expect(report.valid_rows).toBe(1);
+    expect(report.duplicate_rows).toBe(1);
+    expect(report.rows[1].duplicate_of).toEqual({ id: ALICE_ID, row: null });
+    expect(report.committed).toBe(false);
+    expect(updates).toEqual([]);
+  });
+
+  it("flags unknown users, self-management and deactivated managers", async () => {
+    const csv = [
+      HEADER,
+      "nobody@example.com,lead@example.com,",
+      "bob@example.com,nobody@example.com,",
+      "lead@example.com,lead@example.com,",
+      "admin@example.com,former@example.com,",
+      "not-an-email,lead@example.com,",
+    ].join("\n");
+    const { client, updates } = createMockSupabase(baseUsers());
+    const service = new OrgChartImportService(client);
+
+    const report = await service.importOrgChart(csv, { dryRun: false, actorId: ADMIN_ID });
+
+    expect(report.committed).toBe(false);
+    expect(report.invalid_rows).toBe(5);
+    expect(report.rows.map((row) => row.errors[0].message)).toEqual([
+      "No user with this email",
+      "No user with this email",
+      "A user cannot be their own manager",
+      "Manager account is deactivated",
+      "Invalid email",
+    ]);
+    expect(updates).toEqual([]);
+  });
+
+  it("rejects assignments that would create a reporting cycle", async () => {
+    const csv = [HEADER, "lead@example.com,alice@example.com,"].join("\n");
+    const { client } = createMockSupabase(baseUsers());
+    const service = new OrgChartImportService(client);
+
+    const report = await service.importOrgChart(csv, { dryRun: true, actorId: ADMIN_ID });
+
+    expect(report.invalid_rows).toBe(1);
+    expect(report.rows[0].errors[0].message).toBe("This manager would create a reporting cycle");
+  });
+
+  it("allows swapping a manager and their report within one import", async () => {
+    const csv = [HEADER, "lead@example.com,alice@example.com,Platform", "alice@example.com,,Platform"].join("\n");
+    const { client, updates } = createMockSupabase(baseUsers());
+    const service = new OrgChartImportService(client);
+
+    const report = await service.importOrgChart(csv, { dryRun: false, actorId: ADMIN_ID });
+
+    expect(report.committed).toBe(true);
+    expect(report.updated_user_ids).toEqual([LEAD_ID, ALICE_ID]);
+    // Managers are cleared before the new ones are set
+    expect(updates[0]).toEqual({ values: { manager_id: null }, ids: [LEAD_ID, ALICE_ID] });
+    expect(updates[1]).toEqual({ values: { manager_id: ALICE_ID, team: "Platform" }, ids: [LEAD_ID] });
+  });
+
+  it("keeps current teams when the team column is missing", async () => {
+    const csv = ["email,manager_email", "alice@example.com,admin@example.com"].join("\n");
+    const { client, updates, inserts } = createMockSupabase(baseUsers());
+    const service = new OrgChartImportService(client);
+
+    const report = await service.importOrgChart(csv, { dryRun: false, actorId: ADMIN_ID });
+
+    expect(report.committed).toBe(true);
+    expect(updates[1]).toEqual({ values: { manager_id: ADMIN_ID, team: "Platform" }, ids: [ALICE_ID] });
+    expect(inserts.audit_logs).toHaveLength(1);
+    expect(inserts.audit_logs[0]).toMatchObject({
+      event_type: "user.org_chart_imported",
+      resource_id: ALICE_ID,
+      payload: { previous_manager_id: LEAD_ID, manager_id: ADMIN_ID },
+    });
+  });
+
+  it("restores previous assignments when an update fails", async () => {
+    const csv = [HEADER, "bob@example.com,lead@example.com,Platform"].join("\n");
+    const { client, updates } = createMockSupabase(baseUsers(), { failUpdateFor: BOB_ID });
+    const service = new OrgChartImportService(client);
+
+    await expect(service.importOrgChart(csv, { dryRun: false, actorId: ADMIN_ID })).rejects.toThrow(
+      "Failed to update user bob@example.com"
+    );
+    expect(updates.at(-1)).toEqual({ values: { manager_id: null, team: null }, ids: [BOB_ID] });
+  });
+
+  it("rejects documents without the required columns", async () => {
+    const { client } = createMockSupabase(baseUsers());
+    const service = new OrgChartImportService(client);
+
+    await expect(
+      service.importOrgChart("email,team\nbob@example.com,Platform", { dryRun: true, actorId: ADMIN_ID })
+    ).rejects.toThrow("CSV_MISSING_COLUMNS");
+  });
+});
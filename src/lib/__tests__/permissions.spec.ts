@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { getPermittedCategories, hasPermission, loadUserAccess, type UserAccess } from "../auth/permissions";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { Permission } from "@/types";
+
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+
+function createAccess(overrides: Partial<UserAccess> = {}): UserAccess {
+  return { userId: USER_ID, isAdmin: false, roles: [], ...overrides };
+}
+
+/**
+ * Creates a mock Supabase client returning the given user row and roles.
+ * Records which tables were queried.
+ */
+function createMockSupabase(user: Record<string, unknown> | null, roles: Record<string, unknown>[] = []) {
+  const tables: string[] = [];
+
+  const client = {
+    from(table: string) {
+      tables.push(table);
+      return {
+        select() {
+          if (table === "user_roles") {
+            return {
+              async eq() {
+                return { data: roles, error: null };
+              },
+            };
+          }
+          return {
+            eq() {
+              return {
+                async single() {
+                  return user ? { data: user, error: null } : { data: null, error: { code: "PGRST116" } };
+                },
+              };
+            },
+          };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, tables };
+}
+
+describe("permissions", () => {
+  describe("hasPermission", () => {
+    it("grants every permission to admins", () => {
+      const access = createAccess({ isAdmin: true });
+
+      for (const permission of Object.values(Permission)) {
+        expect(hasPermission(access, permission, "technical")).toBe(true);
+      }
+    });
+
+    it("grants only the permissions of the held roles", () => {
+      const access = createAccess({ roles: [{ role: "catalog_manager", categories: null }] });
+
+      expect(hasPermission(access, Permission.ManageCatalog)).toBe(true);
+      expect(hasPermission(access, Permission.ManageTemplates)).toBe(true);
+      expect(hasPermission(access, Permission.ReviewApplications)).toBe(false);
+      expect(hasPermission(access, Permission.ApprovePromotions)).toBe(false);
+    });
+
+    it("limits category-scoped reviewers to their categories", () => {
+      const access = createAccess({ roles: [{ role: "reviewer", categories: ["technical"] }] });
+
+      expect(hasPermission(access, Permission.ReviewApplications)).toBe(true);
+      expect(hasPermission(access, Permission.ReviewApplications, "technical")).toBe(true);
+      expect(hasPermission(access, Permission.ReviewApplications, "softskilled")).toBe(false);
+    });
+  });
+
+  describe("getPermittedCategories", () => {
+    it("returns null for admins and unscoped reviewers", () => {
+      expect(getPermittedCategories(createAccess({ isAdmin: true }), Permission.ReviewApplications)).toBeNull();
+      expect(
+        getPermittedCategories(
+          createAccess({ roles: [{ role: "reviewer", categories: null }] }),
+          Permission.ReviewApplications
+        )
+      ).toBeNull();
+    });
+
+    it("returns the categories of scoped reviewers", () => {
+      const access = createAccess({ roles: [{ role: "reviewer", categories: ["technical", "organizational"] }] });
+
+      expect(getPermittedCategories(access, Permission.ReviewApplications)).toEqual(["technical", "organizational"]);
+    });
+  });
+
+  describe("loadUserAccess", () => {
+    it("does not query roles for admins", async () => {
+      const { client, tables } = createMockSupabase({ is_admin: true, deactivated_at: null });
+
+      const access = await loadUserAccess(client, USER_ID);
+
+      expect(access).toEqual({ userId: USER_ID, isAdmin: true, roles: [] });
+      expect(tables).toEqual(["users"]);
+    });
+
+    it("loads the roles of non-admins", async () => {
+      const { client } = createMockSupabase({ is_admin: false, deactivated_at: null }, [
+        { role: "reviewer", categories: ["technical"] },
+      ]);
+
+      const access = await loadUserAccess(client, USER_ID);
+
+      expect(access?.roles).toEqual([{ role: "reviewer", categories: ["technical"] }]);
+    });
+
+    it("grants nothing to deactivated users and flags them", async () => {
+      const { client } = createMockSupabase({ is_admin: true, deactivated_at: "2025-11-10T00:00:00Z" }, [
+        { role: "reviewer", categories: null },
+      ]);
+
+      const access = await loadUserAccess(client, USER_ID);
+
+      expect(access).toEqual({ userId: USER_ID, isAdmin: false, roles: [], isDeactivated: true });
+    });
+
+    it("returns null for unknown users", async () => {
+      const { client } = createMockSupabase(null);
+
+      expect(await loadUserAccess(client, USER_ID)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  entryLevels,
+  isPositionLevel,
+  isTemplateAvailableForPosition,
+  ladderChainIssues,
+  positionLevels,
+} from "../position-levels";
+import type { PositionLevelsResponse } from "@/types";
+
+const level = (nextLevel?: string) => ({
+  ...(nextLevel ? { next_level: nextLevel } : {}),
+  required_badges: {},
+});
+
+/**
+ * Ladder with the given technical levels and single-level other paths
+ */
+const ladderWith = (technical: Record<string, ReturnType<typeof level>>) =>
+  ({
+    positions: { technical, financial: { F1: level() }, management: { M1: level() } },
+  }) as unknown as PositionLevelsResponse;
+
+describe("position levels", () => {
+  it("checks that a level exists on a path", () => {
+    expect(isPositionLevel("technical", "S1")).toBe(true);
+    expect(isPositionLevel("technical", "M1")).toBe(false);
+    expect(isPositionLevel("unknown", "S1")).toBe(false);
+  });
+
+  it("lists the levels a path starts at", () => {
+    expect(entryLevels("technical")).toEqual(["J1"]);
+    expect(entryLevels("management")).toEqual(["M1"]);
+  });
+
+  describe("isTemplateAvailableForPosition", () => {
+    const template = { path: "technical", from_level: "S1" };
+
+    it("allows templates starting at the current path and level", () => {
+      expect(isTemplateAvailableForPosition(template, { path: "technical", level: "S1" })).toBe(true);
+    });
+
+    it("rejects templates starting at another level or path", () => {
+      expect(isTemplateAvailableForPosition(template, { path: "technical", level: "S2" })).toBe(false);
+      expect(isTemplateAvailableForPosition(template, { path: "financial", level: "S1" })).toBe(false);
+    });
+
+    it("only allows entry-level templates without a recorded position", () => {
+      expect(isTemplateAvailableForPosition(template, null)).toBe(false);
+      expect(isTemplateAvailableForPosition({ path: "technical", from_level: "J1" }, null)).toBe(true);
+    });
+  });
+
+  it("uses the given ladder instead of the bundled one", () => {
+    const ladder = ladderWith({ T1: level("T2"), T2: level() });
+
+    expect(isPositionLevel("technical", "T2", ladder)).toBe(true);
+    expect(isPositionLevel("technical", "J1", ladder)).toBe(false);
+    expect(entryLevels("technical", ladder)).toEqual(["T1"]);
+    expect(isTemplateAvailableForPosition({ path: "technical", from_level: "T1" }, null, ladder)).toBe(true);
+  });
+
+  describe("ladderChainIssues", () => {
+    it("accepts the bundled ladder", () => {
+      expect(ladderChainIssues(positionLevels)).toEqual([]);
+    });
+
+    it("reports next levels missing from the path", () => {
+      expect(ladderChainIssues(ladderWith({ T1: level("T2"), T2: level("T9") }))).toEqual([
+        { path: "technical", level: "T2", message: "next_level T9 is not a level of the technical path" },
+      ]);
+    });
+
+    it("reports cycles", () => {
+      const messages = ladderChainIssues(ladderWith({ T1: level("T2"), T2: level("T3"), T3: level("T2") })).map(
+        (issue) => issue.message
+      );
+
+      expect(messages).toEqual([
+        "Level T2 is the next level of T1, T3",
+        "Level T2 is reached twice (the chain has a cycle)",
+      ]);
+      expect(ladderChainIssues(ladderWith({ T1: level("T2"), T2: level("T1") }))[0].message).toBe(
+        "Career path has no entry level (its levels form a cycle)"
+      );
+    });
+
+    it("reports paths that are not a single chain", () => {
+      expect(ladderChainIssues(ladderWith({ T1: level("T2"), T2: level(), X1: level() }))[0].message).toBe(
+        "Career path has several entry levels: T1, X1"
+      );
+      expect(ladderChainIssues(ladderWith({}))[0].message).toBe("Career path has no levels");
+    });
+  });
+});
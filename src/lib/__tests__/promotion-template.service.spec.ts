@@ -368,3 +368,89 @@ describe("PromotionTemplateService.deactivatePromotionTemplate", () => {
     await expect(service.deactivatePromotionTemplate(templateId)).rejects.toThrow("TEMPLATE_ALREADY_INACTIVE");
   });
 });
+
+describe("PromotionTemplateService.listTemplateVersions", () => {
+  const AUTHOR = { id: "author-1", display_name: "Ada", email: "ada@example.com" };
+  const EDITOR = { id: "editor-1", display_name: "Grace", email: "grace@example.com" };
+  const rules = [{ category: "technical", level: "gold", count: 1 }];
+
+  /**
+   * Creates a client whose template tables return the given rows and whose
+   * promotion_template_version_stats() call returns the given stats
+   */
+  function createVersionsSupabase(stats: Record<string, unknown> | null) {
+    const rpcCalls: { fn: string; args: Record<string, unknown> }[] = [];
+    const current = {
+      id: "template-1",
+      name: "S1 to S2 (v2)",
+      path: "technical",
+      from_level: "S1",
+      to_level: "S2",
+      rules,
+      version: 2,
+      created_by: AUTHOR.id,
+      created_at: "2025-01-01T00:00:00Z",
+    };
+    const archived = {
+      template_id: "template-1",
+      version: 1,
+      name: "S1 to S2",
+      path: "technical",
+      from_level: "S1",
+      to_level: "S2",
+      rules,
+      authored_by: AUTHOR.id,
+      authored_at: "2025-01-01T00:00:00Z",
+      superseded_by: EDITOR.id,
+      superseded_at: "2025-02-01T00:00:00Z",
+    };
+
+    const client = {
+      from(table: string) {
+        return {
+          select: () => ({
+            eq: () =>
+              table === "promotion_templates"
+                ? { single: async () => ({ data: current, error: null }) }
+                : { order: async () => ({ data: [archived], error: null }) },
+          }),
+        };
+      },
+      async rpc(fn: string, args: Record<string, unknown>) {
+        rpcCalls.push({ fn, args });
+        return { data: stats, error: null };
+      },
+    };
+
+    return { client: client as unknown as SupabaseClient, rpcCalls };
+  }
+
+  it("takes promotion counts and authors from the version stats function", async () => {
+    const { client, rpcCalls } = createVersionsSupabase({
+      promotion_counts: [
+        { version: 1, count: 4 },
+        { version: 2, count: 1 },
+      ],
+      people: [AUTHOR, EDITOR],
+    });
+
+    const versions = await new PromotionTemplateService(client).listTemplateVersions("template-1");
+
+    expect(rpcCalls).toEqual([{ fn: "promotion_template_version_stats", args: { p_template_id: "template-1" } }]);
+    expect(versions?.map((version) => [version.version, version.promotion_count, version.authored_by?.id])).toEqual([
+      [2, 1, EDITOR.id],
+      [1, 4, AUTHOR.id],
+    ]);
+  });
+
+  it("reports zero promotions and unknown authors when stats are missing", async () => {
+    const { client } = createVersionsSupabase(null);
+
+    const versions = await new PromotionTemplateService(client).listTemplateVersions("template-1");
+
+    expect(versions?.map((version) => [version.promotion_count, version.authored_by])).toEqual([
+      [0, null],
+      [0, null],
+    ]);
+  });
+});
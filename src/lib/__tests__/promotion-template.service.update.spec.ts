@@ -2,9 +2,28 @@ import { describe, it, expect } from "vitest";
 import { PromotionTemplateService } from "../promotion-template.service";
 import type { SupabaseClient } from "../../db/supabase.client";
 
-function createMockSupabaseForPromotion(existing: Record<string, unknown> | null) {
-  return {
+interface MockState {
+  updates: Record<string, unknown>[];
+  audit: Record<string, unknown>[];
+}
+
+function createMockSupabaseForPromotion(
+  existing: Record<string, unknown> | null,
+  options: { concurrentVersion?: number } = {}
+) {
+  const state: MockState = { updates: [], audit: [] };
+
+  const client = {
     from(table: string) {
+      if (table === "audit_logs") {
+        return {
+          async insert(row: Record<string, unknown>) {
+            state.audit.push(row);
+            return { error: null };
+          },
+        };
+      }
+
       if (table !== "promotion_templates") {
         return {
           select() {
@@ -26,51 +45,118 @@ function createMockSupabaseForPromotion(existing: Record<string, unknown> | null
             },
           };
         },
-        update(updateData: unknown) {
-          return {
-            eq() {
+        update(updateData: Record<string, unknown>) {
+          const filters: Record<string, unknown> = {};
+          const builder = {
+            eq(field: string, value: unknown) {
+              filters[field] = value;
+              return builder;
+            },
+            select() {
               return {
-                select() {
-                  return {
-                    async single() {
-                      const updated = { ...(existing || {}), ...(updateData as Record<string, unknown>) };
-                      return { data: updated, error: null };
-                    },
-                  };
+                async single() {
+                  const storedVersion = options.concurrentVersion ?? existing?.version;
+                  if (filters.version !== undefined && filters.version !== storedVersion) {
+                    return { data: null, error: { code: "PGRST116", message: "No rows" } };
+                  }
+                  state.updates.push(updateData);
+                  const updated = { ...(existing || {}), ...updateData };
+                  return { data: updated, error: null };
                 },
               };
             },
           };
+          return builder;
         },
       };
     },
   } as unknown as SupabaseClient;
+
+  return { client, state };
+}
+
+function existingTemplate() {
+  return {
+    id: "tpl-1",
+    name: "Old",
+    path: "technical",
+    from_level: "S1",
+    to_level: "S2",
+    rules: [{ category: "technical", level: "gold", count: 1 }],
+    rules_version: 2,
+    version: 3,
+    is_active: true,
+    created_by: null,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    updated_by: null,
+  };
 }
 
 describe("PromotionTemplateService.updatePromotionTemplate", () => {
   it("updates an existing template and returns updated DTO", async () => {
-    const existing = {
-      id: "tpl-1",
-      name: "Old",
-      path: "technical",
-      from_level: "S1",
-      to_level: "S2",
-      rules: [],
-      is_active: true,
-      created_by: null,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
-    const mock = createMockSupabaseForPromotion(existing);
-    const svc = new PromotionTemplateService(mock);
+    const existing = existingTemplate();
+    const { client } = createMockSupabaseForPromotion(existing);
+    const svc = new PromotionTemplateService(client);
     const updated = await svc.updatePromotionTemplate("tpl-1", { name: "New Name" }, "actor-1");
     expect(updated.id).toBe(existing.id);
     expect(updated.name).toBe("New Name");
   });
 
   it("throws not_found when template does not exist", async () => {
-    const mock = createMockSupabaseForPromotion(null);
-    const svc = new PromotionTemplateService(mock);
+    const { client } = createMockSupabaseForPromotion(null);
+    const svc = new PromotionTemplateService(client);
     await expect(svc.updatePromotionTemplate("missing", { name: "X" })).rejects.toHaveProperty("code", "not_found");
   });
+
+  it("creates a new version when the rules change", async () => {
+    const { client, state } = createMockSupabaseForPromotion(existingTemplate());
+    const svc = new PromotionTemplateService(client);
+
+    const updated = await svc.updatePromotionTemplate(
+      "tpl-1",
+      { rules: [{ category: "technical", level: "gold", count: 2 }] },
+      "actor-1"
+    );
+
+    expect(updated.version).toBe(4);
+    expect(state.updates[0]).toMatchObject({ version: 4, updated_by: "actor-1" });
+    expect(state.audit[0].payload).toMatchObject({ previous_version: 3, version: 4, changed_fields: ["rules"] });
+  });
+
+  it("keeps the version when only the active flag changes", async () => {
+    const { client, state } = createMockSupabaseForPromotion(existingTemplate());
+    const svc = new PromotionTemplateService(client);
+
+    const updated = await svc.updatePromotionTemplate("tpl-1", { is_active: false }, "actor-1");
+
+    expect(updated.version).toBe(3);
+    expect(updated.is_active).toBe(false);
+    expect(state.updates[0]).not.toHaveProperty("version");
+  });
+
+  it("does not write anything when no field changes", async () => {
+    const { client, state } = createMockSupabaseForPromotion(existingTemplate());
+    const svc = new PromotionTemplateService(client);
+
+    const updated = await svc.updatePromotionTemplate(
+      "tpl-1",
+      { name: "Old", rules: [{ category: "technical", level: "gold", count: 1 }] },
+      "actor-1"
+    );
+
+    expect(updated.version).toBe(3);
+    expect(state.updates).toHaveLength(0);
+    expect(state.audit).toHaveLength(0);
+  });
+
+  it("throws conflict when another version was saved concurrently", async () => {
+    const { client } = createMockSupabaseForPromotion(existingTemplate(), { concurrentVersion: 4 });
+    const svc = new PromotionTemplateService(client);
+
+    await expect(svc.updatePromotionTemplate("tpl-1", { name: "New Name" }, "actor-1")).rejects.toHaveProperty(
+      "code",
+      "conflict"
+    );
+  });
 });
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { updatePromotionTemplateSchema } from "../validation/promotion-template.validation";
+import {
+  PROMOTION_RULES_VERSION,
+  promotionTemplateRulesSchema,
+  updatePromotionTemplateSchema,
+  upgradeTemplateRules,
+} from "../validation/promotion-template.validation";
 
 describe("updatePromotionTemplateSchema", () => {
   it("accepts valid partial payload", () => {
@@ -17,3 +22,45 @@ describe("updatePromotionTemplateSchema", () => {
     }
   });
 });
+
+describe("promotionTemplateRulesSchema", () => {
+  it("accepts version 1 rules and the version 2 constructs", () => {
+    const result = promotionTemplateRulesSchema.safeParse([
+      { category: "technical", level: "gold", count: 1 },
+      { category: "technical", level: "silver", count: 3, or_higher: true, max_per_badge: 2 },
+      {
+        category: "organizational",
+        level: "gold",
+        count: 2,
+        alternatives: [{ category: "softskilled", level: "silver", count: 4 }],
+      },
+    ]);
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects templates whose alternatives produce too many combinations", () => {
+    const rule = {
+      category: "any",
+      level: "gold",
+      count: 1,
+      alternatives: [
+        { category: "technical", level: "silver", count: 2 },
+        { category: "technical", level: "bronze", count: 4 },
+        { category: "organizational", level: "silver", count: 2 },
+      ],
+    };
+    // 4 options per rule: 4^4 = 256 combinations
+    const result = promotionTemplateRulesSchema.safeParse([rule, rule, rule, rule]);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("upgradeTemplateRules", () => {
+  it("keeps only the version 1 fields of rules saved before versioning", () => {
+    const stored = [{ category: "technical", level: "gold", count: 2, minimum_required: 2 }];
+
+    expect(upgradeTemplateRules(stored, null)).toEqual([{ category: "technical", level: "gold", count: 2 }]);
+    expect(upgradeTemplateRules(stored, PROMOTION_RULES_VERSION)).toBe(stored);
+    expect(upgradeTemplateRules(null, 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import { PromotionService, PromotionTransitionError } from "../promotion.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const OWNER_ID = "550e8400-e29b-41d4-a716-446655440100";
+const PROMOTION_ID = "750e8400-e29b-41d4-a716-446655440001";
+const OTHER_PROMOTION_ID = "750e8400-e29b-41d4-a716-446655440002";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Creates a mock Supabase client for PromotionService.autoFillPromotion.
+ * Records rpc calls (replace_promotion_badges) so tests can assert how the draft is
+ * changed; rpcError makes the call fail. archivedVersions are the promotion_template_versions rows.
+ */
+function createMockSupabase(
+  promotion: Row | null,
+  applications: Row[],
+  archivedVersions: Row[] = [],
+  rpcError: { code: string; message: string; details?: string } | null = null
+) {
+  const rpcCalls: { fn: string; args: Record<string, unknown> }[] = [];
+
+  const client = {
+    async rpc(fn: string, args: Record<string, unknown>) {
+      rpcCalls.push({ fn, args });
+      return rpcError ? { data: null, error: rpcError } : { data: {}, error: null };
+    },
+    from(table: string) {
+      if (table === "promotions") {
+        const chain = {
+          select: () => chain,
+          eq: () => chain,
+          single: async () =>
+            promotion
+              ? { data: promotion, error: null }
+              : { data: null, error: { code: "PGRST116", message: "No rows found" } },
+        };
+        return chain;
+      }
+
+      if (table === "promotion_template_versions") {
+        const filters: Row = {};
+        const chain = {
+          select: () => chain,
+          eq: (field: string, value: unknown) => {
+            filters[field] = value;
+            return chain;
+          },
+          single: async () => {
+            const row = archivedVersions.find((version) => version.version === filters.version);
+            return row ? { data: row, error: null } : { data: null, error: { code: "PGRST116", message: "No rows" } };
+          },
+        };
+        return chain;
+      }
+
+      const chain = {
+        select: () => chain,
+        eq: () => chain,
+        then: (resolve: (value: unknown) => void) => resolve({ data: applications, error: null }),
+      };
+      return chain;
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, rpcCalls };
+}
+
+const draft = (rules: Row[]): Row => ({
+  id: PROMOTION_ID,
+  created_by: OWNER_ID,
+  status: "draft",
+  promotion_templates: { rules },
+});
+
+const application = (id: string, category: string, level: string, links: Row[] = [], reviewedAt?: string): Row => ({
+  id,
+  created_at: "2024-01-01T00:00:00Z",
+  reviewed_at: reviewedAt ?? "2024-01-02T00:00:00Z",
+  catalog_badges: { title: `Badge ${id}`, category, level },
+  promotion_badges: links,
+});
+
+describe("PromotionService.autoFillPromotion", () => {
+  it("adds missing badges and removes unneeded ones from the draft", async () => {
+    const { client, rpcCalls } = createMockSupabase(draft([{ category: "technical", level: "silver", count: 1 }]), [
+      // Already in the draft but not needed
+      application("in-draft-gold", "technical", "gold", [{ promotion_id: PROMOTION_ID, consumed: false }]),
+      application("newer-silver", "technical", "silver", [], "2024-05-01T00:00:00Z"),
+      application("older-silver", "technical", "silver", [], "2024-03-01T00:00:00Z"),
+      // Reserved by another promotion
+      application("reserved-silver", "technical", "silver", [{ promotion_id: OTHER_PROMOTION_ID, consumed: false }]),
+    ]);
+    const service = new PromotionService(client);
+
+    const result = await service.autoFillPromotion(PROMOTION_ID, {}, OWNER_ID);
+
+    expect(result.is_complete).toBe(true);
+    expect(result.selected_badge_application_ids).toEqual(["older-silver"]);
+    expect(result.added_badge_application_ids).toEqual(["older-silver"]);
+    expect(result.removed_badge_application_ids).toEqual(["in-draft-gold"]);
+    expect(result.assignments[0].badges[0]).toEqual({
+      badge_application_id: "older-silver",
+      title: "Badge older-silver",
+      category: "technical",
+      level: "silver",
+    });
+    // Added and removed in one call, so the draft is never left half-filled
+    expect(rpcCalls).toEqual([
+      {
+        fn: "replace_promotion_badges",
+        args: {
+          p_promotion_id: PROMOTION_ID,
+          p_add_badge_application_ids: ["older-silver"],
+          p_remove_badge_application_ids: ["in-draft-gold"],
+          p_actor_id: OWNER_ID,
+        },
+      },
+    ]);
+  });
+
+  it("maps a failed selection change without further calls", async () => {
+    const { client, rpcCalls } = createMockSupabase(
+      draft([{ category: "technical", level: "silver", count: 1 }]),
+      [
+        application("in-draft-gold", "technical", "gold", [{ promotion_id: PROMOTION_ID, consumed: false }]),
+        application("older-silver", "technical", "silver"),
+      ],
+      [],
+      {
+        code: "P0001",
+        message: "badge_not_in_promotion",
+        details: JSON.stringify({ badge_application_id: "in-draft-gold" }),
+      }
+    );
+    const service = new PromotionService(client);
+
+    const error = await service.autoFillPromotion(PROMOTION_ID, {}, OWNER_ID).catch((err) => err);
+
+    expect(error).toBeInstanceOf(PromotionTransitionError);
+    expect(error.code).toBe("badge_not_in_promotion");
+    expect(error.message).toBe(`Badge application not in promotion: in-draft-gold (promotion: ${PROMOTION_ID})`);
+    expect(rpcCalls).toHaveLength(1);
+  });
+
+  it("reports missing badges and leaves the draft unchanged on dry run", async () => {
+    const { client, rpcCalls } = createMockSupabase(draft([{ category: "any", level: "gold", count: 2 }]), [
+      application("gold", "organizational", "gold"),
+    ]);
+    const service = new PromotionService(client);
+
+    const result = await service.autoFillPromotion(PROMOTION_ID, { dry_run: true }, OWNER_ID);
+
+    expect(result.dry_run).toBe(true);
+    expect(result.is_complete).toBe(false);
+    expect(result.missing).toEqual([{ category: "any", level: "gold", count: 1 }]);
+    expect(rpcCalls).toEqual([]);
+  });
+
+  it("fills the draft for the template version it was created against", async () => {
+    const { client } = createMockSupabase(
+      {
+        ...draft([]),
+        template_version: 1,
+        // The template now requires a gold badge; version 1 asked for silver
+        promotion_templates: { id: "tpl-1", version: 2, rules: [{ category: "technical", level: "gold", count: 1 }] },
+      },
+      [application("silver", "technical", "silver")],
+      [{ version: 1, rules: [{ category: "technical", level: "silver", count: 1 }], rules_version: 2 }]
+    );
+    const service = new PromotionService(client);
+
+    const result = await service.autoFillPromotion(PROMOTION_ID, { dry_run: true }, OWNER_ID);
+
+    expect(result.is_complete).toBe(true);
+    expect(result.selected_badge_application_ids).toEqual(["silver"]);
+  });
+
+  it("refuses promotions of other users and non-drafts", async () => {
+    const otherOwner = createMockSupabase({ ...draft([]), created_by: "someone-else" }, []);
+    await expect(
+      new PromotionService(otherOwner.client).autoFillPromotion(PROMOTION_ID, {}, OWNER_ID)
+    ).rejects.toMatchObject({ code: "not_authorized" });
+
+    const submitted = createMockSupabase({ ...draft([]), status: "submitted" }, []);
+    const error = await new PromotionService(submitted.client)
+      .autoFillPromotion(PROMOTION_ID, {}, OWNER_ID)
+      .catch((err) => err);
+    expect(error).toBeInstanceOf(PromotionTransitionError);
+    expect(error.details).toEqual({ current_status: "submitted" });
+  });
+
+  it("throws promotion_not_found for unknown promotions", async () => {
+    const { client } = createMockSupabase(null, []);
+
+    await expect(new PromotionService(client).autoFillPromotion(PROMOTION_ID, {}, OWNER_ID)).rejects.toMatchObject({
+      code: "promotion_not_found",
+    });
+  });
+});
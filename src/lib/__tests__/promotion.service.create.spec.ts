@@ -12,6 +12,8 @@ function createMockSupabase(options: {
   shouldReturnTemplateError?: boolean;
   shouldReturnCreateError?: boolean;
   templateErrorCode?: string;
+  /** Creator's recorded position; defaults to the template's path and from_level */
+  position?: { current_path: string | null; current_level: string | null };
 }) {
   const {
     template = null,
@@ -19,6 +21,10 @@ function createMockSupabase(options: {
     shouldReturnTemplateError = false,
     shouldReturnCreateError = false,
     templateErrorCode = "PGRST116",
+    position = {
+      current_path: (template?.path as string | undefined) ?? null,
+      current_level: (template?.from_level as string | undefined) ?? null,
+    },
   } = options;
 
   return {
@@ -46,6 +52,48 @@ function createMockSupabase(options: {
         };
       }
 
+      // Mock users table query (creator's current position)
+      if (table === "users") {
+        return {
+          select() {
+            return {
+              eq() {
+                return {
+                  async single() {
+                    return { data: position, error: null };
+                  },
+                };
+              },
+            };
+          },
+        };
+      }
+
+      // Mock career_ladder_versions query (no version recorded: bundled ladder)
+      if (table === "career_ladder_versions") {
+        return {
+          select() {
+            return {
+              lte() {
+                return {
+                  order() {
+                    return {
+                      order() {
+                        return {
+                          async limit() {
+                            return { data: [], error: null };
+                          },
+                        };
+                      },
+                    };
+                  },
+                };
+              },
+            };
+          },
+        };
+      }
+
       // Mock promotions table query
       if (table === "promotions") {
         return {
@@ -339,6 +387,70 @@ describe("PromotionService.createPromotion", () => {
     });
   });
 
+  describe("Position Validation", () => {
+    const mockTemplate = {
+      id: "template-123",
+      path: "technical",
+      from_level: "S1",
+      to_level: "S2",
+      is_active: true,
+    };
+
+    it("throws error when template does not start at the user's current level", async () => {
+      const mockSupabase = createMockSupabase({
+        template: mockTemplate,
+        position: { current_path: "technical", current_level: "S2" },
+      });
+
+      const service = new PromotionService(mockSupabase);
+
+      await expect(service.createPromotion({ template_id: "template-123" }, "user-123")).rejects.toThrow(
+        "Template not available for current position: technical S1 (current: technical S2)"
+      );
+    });
+
+    it("throws error when template is on another path", async () => {
+      const mockSupabase = createMockSupabase({
+        template: mockTemplate,
+        position: { current_path: "management", current_level: "S1" },
+      });
+
+      const service = new PromotionService(mockSupabase);
+
+      await expect(service.createPromotion({ template_id: "template-123" }, "user-123")).rejects.toThrow(
+        "Template not available for current position"
+      );
+    });
+
+    it("only allows entry-level templates when no position is recorded", async () => {
+      const mockSupabase = createMockSupabase({
+        template: mockTemplate,
+        position: { current_path: null, current_level: null },
+      });
+
+      const service = new PromotionService(mockSupabase);
+
+      await expect(service.createPromotion({ template_id: "template-123" }, "user-123")).rejects.toThrow(
+        "(current: none)"
+      );
+    });
+
+    it("allows entry-level templates when no position is recorded", async () => {
+      const entryTemplate = { ...mockTemplate, from_level: "J1", to_level: "J2" };
+      const mockCreatedPromotion = { id: "promotion-123", template_id: "template-123", status: "draft" };
+      const mockSupabase = createMockSupabase({
+        template: entryTemplate,
+        createdPromotion: mockCreatedPromotion,
+        position: { current_path: null, current_level: null },
+      });
+
+      const service = new PromotionService(mockSupabase);
+      const result = await service.createPromotion({ template_id: "template-123" }, "user-123");
+
+      expect(result).toEqual(mockCreatedPromotion);
+    });
+  });
+
   describe("Error Handling", () => {
     it("throws error on database failure", async () => {
       const mockTemplate = {
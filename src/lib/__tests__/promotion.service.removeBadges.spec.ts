@@ -3,8 +3,18 @@ import { PromotionService } from "../promotion.service";
 import type { SupabaseClient } from "@/db/supabase.client";
 import type { RemovePromotionBadgesCommand } from "@/types";
 
+/**
+ * Creates a coded transition error as raised by the promotion transition functions
+ */
+function transitionError(code: string, details: Record<string, unknown> = {}) {
+  return { data: null, error: { code: "P0001", message: code, details: JSON.stringify(details) } };
+}
+
 /**
  * Creates a mock Supabase client for testing PromotionService.removeBadgesFromPromotion
+ *
+ * The rpc mock emulates remove_promotion_badges: it checks the promotion, the owner,
+ * the status and the assigned badges in the same order as the database function.
  */
 function createMockSupabase(options: {
   promotion?: Record<string, unknown> | null;
@@ -12,7 +22,6 @@ function createMockSupabase(options: {
   shouldReturnPromotionError?: boolean;
   shouldReturnVerifyError?: boolean;
   shouldReturnDeleteError?: boolean;
-  promotionErrorCode?: string;
 }) {
   const {
     promotion = null,
@@ -20,80 +29,42 @@ function createMockSupabase(options: {
     shouldReturnPromotionError = false,
     shouldReturnVerifyError = false,
     shouldReturnDeleteError = false,
-    promotionErrorCode = "PGRST116",
   } = options;
 
   return {
-    from(table: string) {
-      if (table === "promotions") {
-        return {
-          select() {
-            return {
-              eq() {
-                return {
-                  async single() {
-                    if (shouldReturnPromotionError) {
-                      return {
-                        data: null,
-                        error: { code: promotionErrorCode, message: "Promotion not found" },
-                      };
-                    }
-                    return { data: promotion, error: null };
-                  },
-                };
-              },
-            };
-          },
-        };
+    async rpc(fn: string, args: { p_promotion_id: string; p_badge_application_ids: string[]; p_actor_id: string }) {
+      if (fn !== "remove_promotion_badges") {
+        return { data: null, error: { message: `Unexpected function: ${fn}` } };
+      }
+
+      if (shouldReturnPromotionError || !promotion) {
+        return transitionError("promotion_not_found");
+      }
+
+      if (promotion.created_by !== args.p_actor_id) {
+        return transitionError("not_authorized");
+      }
+
+      if (promotion.status !== "draft") {
+        return transitionError("invalid_status", { current_status: promotion.status });
+      }
+
+      if (shouldReturnVerifyError) {
+        return { data: null, error: { code: "XX000", message: "Failed to verify badge assignments" } };
+      }
+
+      const assignedIds = new Set((currentBadges ?? []).map((badge) => badge.badge_application_id));
+      const missingId = args.p_badge_application_ids.find((id) => !assignedIds.has(id));
+
+      if (missingId) {
+        return transitionError("badge_not_in_promotion", { badge_application_id: missingId });
       }
 
-      if (table === "promotion_badges") {
-        return {
-          select() {
-            return {
-              eq() {
-                return {
-                  in() {
-                    return {
-                      async then(callback: (result: { data: unknown; error: unknown }) => void) {
-                        if (shouldReturnVerifyError) {
-                          return callback({
-                            data: null,
-                            error: { message: "Failed to verify badge assignments" },
-                          });
-                        }
-                        return callback({ data: currentBadges, error: null });
-                      },
-                    };
-                  },
-                };
-              },
-            };
-          },
-          delete() {
-            return {
-              eq() {
-                return {
-                  in() {
-                    return {
-                      async then(callback: (result: { error: unknown | null }) => void) {
-                        if (shouldReturnDeleteError) {
-                          return callback({
-                            error: { message: "Failed to remove badges from promotion" },
-                          });
-                        }
-                        return callback({ error: null });
-                      },
-                    };
-                  },
-                };
-              },
-            };
-          },
-        };
+      if (shouldReturnDeleteError) {
+        return { data: null, error: { code: "XX000", message: "Failed to remove badges from promotion" } };
       }
 
-      return {};
+      return { data: { removed_count: args.p_badge_application_ids.length }, error: null };
     },
   } as unknown as SupabaseClient;
 }
@@ -159,7 +130,6 @@ describe("PromotionService.removeBadgesFromPromotion", () => {
     it("throws error when promotion does not exist", async () => {
       const mockSupabase = createMockSupabase({
         shouldReturnPromotionError: true,
-        promotionErrorCode: "PGRST116",
       });
 
       const service = new PromotionService(mockSupabase);
@@ -361,7 +331,6 @@ describe("PromotionService.removeBadgesFromPromotion", () => {
     it("checks promotion existence before ownership", async () => {
       const mockSupabase = createMockSupabase({
         shouldReturnPromotionError: true,
-        promotionErrorCode: "PGRST116",
       });
 
       const service = new PromotionService(mockSupabase);
@@ -0,0 +1,344 @@
+import { describe, it, expect, vi } from "vitest";
+import { PromotionService, PromotionTransitionError } from "../promotion.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const OWNER_ID = "550e8400-e29b-41d4-a716-446655440100";
+const APPROVER_ID = "550e8400-e29b-41d4-a716-446655440101";
+const PROMOTION_ID = "750e8400-e29b-41d4-a716-446655440001";
+const OTHER_PROMOTION_ID = "750e8400-e29b-41d4-a716-446655440002";
+const BADGE_1 = "650e8400-e29b-41d4-a716-446655440001";
+const BADGE_2 = "650e8400-e29b-41d4-a716-446655440002";
+
+interface RpcResult {
+  data: unknown;
+  error: { code?: string; message: string; details?: string } | null;
+}
+
+/**
+ * Creates a coded transition error as raised by the promotion transition functions
+ */
+function transitionError(code: string, details: Record<string, unknown> = {}): RpcResult {
+  return { data: null, error: { code: "P0001", message: code, details: JSON.stringify(details) } };
+}
+
+/**
+ * Creates a mock Supabase client for the promotion transitions.
+ * rpc calls resolve to the given result; every table write (insert, update, delete)
+ * is recorded so tests can assert that the service writes nothing itself after a failed
+ * rpc. Rollback of a failing transition is covered by createTransactionalSupabase.
+ */
+function createMockSupabase(rpcResult: RpcResult, promotion: Record<string, unknown> | null = null) {
+  const rpcCalls: { fn: string; args: Record<string, unknown> }[] = [];
+  const writes: { table: string; operation: string; values?: unknown }[] = [];
+
+  const client = {
+    async rpc(fn: string, args: Record<string, unknown>) {
+      rpcCalls.push({ fn, args });
+      return rpcResult;
+    },
+    from(table: string) {
+      const chain = {
+        eq: () => chain,
+        in: () => chain,
+        select: () => chain,
+        single: async () => ({ data: promotion, error: promotion ? null : { message: "No rows" } }),
+      };
+      return {
+        select: () => chain,
+        async insert(values: unknown) {
+          writes.push({ table, operation: "insert", values });
+          return { error: null };
+        },
+        update(values: unknown) {
+          writes.push({ table, operation: "update", values });
+          return chain;
+        },
+        delete() {
+          writes.push({ table, operation: "delete" });
+          return chain;
+        },
+      };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, rpcCalls, writes };
+}
+
+interface TransactionState {
+  promotions: Record<string, unknown>[];
+  promotion_badges: { promotion_id: string; badge_application_id: string }[];
+  badge_applications: { id: string; status: string }[];
+}
+
+/**
+ * Creates a mock Supabase client that keeps promotions, reservations and badge applications
+ * in memory. reject_promotion runs the same writes as the database function inside a
+ * transaction: the tables are restored when a write fails, like Postgres rolls back a
+ * function call. failAfterWrites makes the write after that many writes fail.
+ */
+function createTransactionalSupabase(state: TransactionState, failAfterWrites: number) {
+  const writes: { table: string; operation: string }[] = [];
+
+  const client = {
+    async rpc(fn: string, args: Record<string, unknown>) {
+      const snapshot = structuredClone(state);
+      let writeCount = 0;
+      const write = (apply: () => void) => {
+        if (writeCount === failAfterWrites) {
+          throw new Error("canceling statement due to statement timeout");
+        }
+        apply();
+        writeCount += 1;
+      };
+
+      try {
+        if (fn !== "reject_promotion") throw new Error(`unexpected rpc ${fn}`);
+
+        write(() => {
+          const promotion = state.promotions.find((row) => row.id === args.p_promotion_id);
+          Object.assign(promotion ?? {}, {
+            status: "rejected",
+            rejected_by: args.p_actor_id,
+            reject_reason: args.p_reject_reason,
+          });
+        });
+        const released = state.promotion_badges
+          .filter((row) => row.promotion_id === args.p_promotion_id)
+          .map((row) => row.badge_application_id);
+        write(() => {
+          state.promotion_badges = state.promotion_badges.filter((row) => row.promotion_id !== args.p_promotion_id);
+        });
+        write(() => {
+          for (const application of state.badge_applications) {
+            if (released.includes(application.id)) application.status = "accepted";
+          }
+        });
+
+        return { data: { promotion: state.promotions[0], badge_application_ids: released }, error: null };
+      } catch (error) {
+        Object.assign(state, snapshot);
+        return { data: null, error: { code: "57014", message: (error as Error).message } };
+      }
+    },
+    from(table: string) {
+      return {
+        async insert() {
+          writes.push({ table, operation: "insert" });
+          return { error: null };
+        },
+      };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, writes };
+}
+
+const submittedPromotion = {
+  id: PROMOTION_ID,
+  created_by: OWNER_ID,
+  status: "submitted",
+  to_level: "S1",
+};
+
+describe("PromotionService transitions", () => {
+  it("submits through submit_promotion and records the reserved badges", async () => {
+    const { client, rpcCalls, writes } = createMockSupabase(
+      { data: { promotion: submittedPromotion, badge_application_ids: [BADGE_1, BADGE_2] }, error: null },
+      { id: PROMOTION_ID, created_by: OWNER_ID, status: "draft" }
+    );
+    const service = new PromotionService(client);
+    vi.spyOn(service, "validatePromotion").mockResolvedValue({
+      promotion_id: PROMOTION_ID,
+      is_valid: true,
+      requirements: [],
+      missing: [],
+    });
+
+    const result = await service.submitPromotion(PROMOTION_ID, OWNER_ID);
+
+    expect(result).toEqual(submittedPromotion);
+    expect(rpcCalls).toEqual([
+      { fn: "submit_promotion", args: { p_promotion_id: PROMOTION_ID, p_actor_id: OWNER_ID } },
+    ]);
+    // Only the audit log and the outbox event are written outside the transaction
+    expect(writes.map((write) => write.table)).toEqual(["audit_logs", "events"]);
+    expect(writes[0].values).toMatchObject({ payload: { badge_application_ids: [BADGE_1, BADGE_2] } });
+  });
+
+  it("maps a reserved badge that is no longer accepted during submit and writes nothing itself", async () => {
+    const { client, writes } = createMockSupabase(
+      transitionError("badge_not_accepted", { badge_application_id: BADGE_2, current_status: "rejected" }),
+      { id: PROMOTION_ID, created_by: OWNER_ID, status: "draft" }
+    );
+    const service = new PromotionService(client);
+    vi.spyOn(service, "validatePromotion").mockResolvedValue({
+      promotion_id: PROMOTION_ID,
+      is_valid: true,
+      requirements: [],
+      missing: [],
+    });
+
+    const error = await service.submitPromotion(PROMOTION_ID, OWNER_ID).catch((err) => err);
+
+    expect(error).toBeInstanceOf(PromotionTransitionError);
+    expect(error.code).toBe("badge_not_accepted");
+    expect(error.message).toBe(`Badge application not accepted: ${BADGE_2}`);
+    expect(writes).toEqual([]);
+  });
+
+  it("reports the current status when a promotion was already processed", async () => {
+    const { client, writes } = createMockSupabase(transitionError("invalid_status", { current_status: "approved" }));
+    const service = new PromotionService(client);
+    vi.spyOn(service, "validatePromotion").mockResolvedValue({
+      promotion_id: PROMOTION_ID,
+      is_valid: true,
+      requirements: [],
+      missing: [],
+    });
+
+    const error = await service.approvePromotion(PROMOTION_ID, APPROVER_ID).catch((err) => err);
+
+    expect(error).toBeInstanceOf(PromotionTransitionError);
+    expect(error.code).toBe("invalid_status");
+    expect(error.details).toEqual({ current_status: "approved" });
+    expect(error.message).toBe("Only submitted promotions can be approved. Current status: approved");
+    expect(writes).toEqual([]);
+  });
+
+  it("refuses approvers deciding on their own promotion", async () => {
+    const { client, writes } = createMockSupabase(transitionError("own_promotion"));
+    const service = new PromotionService(client);
+    vi.spyOn(service, "validatePromotion").mockResolvedValue({
+      promotion_id: PROMOTION_ID,
+      is_valid: true,
+      requirements: [],
+      missing: [],
+    });
+
+    const error = await service.approvePromotion(PROMOTION_ID, OWNER_ID).catch((err) => err);
+
+    expect(error).toBeInstanceOf(PromotionTransitionError);
+    expect(error.code).toBe("own_promotion");
+    expect(error.message).toBe("You cannot approve your own promotion");
+    expect(writes).toEqual([]);
+  });
+
+  it("maps requirements the approval function finds unmet", async () => {
+    const { client, writes } = createMockSupabase(transitionError("requirements_not_met"));
+    const service = new PromotionService(client);
+    vi.spyOn(service, "validatePromotion").mockResolvedValue({
+      promotion_id: PROMOTION_ID,
+      is_valid: true,
+      requirements: [],
+      missing: [],
+    });
+
+    const error = await service.approvePromotion(PROMOTION_ID, APPROVER_ID).catch((err) => err);
+
+    expect(error).toBeInstanceOf(PromotionTransitionError);
+    expect(error.code).toBe("requirements_not_met");
+    expect(writes).toEqual([]);
+  });
+
+  it("does not approve a promotion that no longer meets its template version's rules", async () => {
+    const { client, rpcCalls, writes } = createMockSupabase({ data: { promotion: submittedPromotion }, error: null });
+    const service = new PromotionService(client);
+    const validate = vi.spyOn(service, "validatePromotion").mockResolvedValue({
+      promotion_id: PROMOTION_ID,
+      is_valid: false,
+      requirements: [],
+      missing: [{ category: "technical", level: "gold", count: 1 }],
+    });
+
+    const error = await service.approvePromotion(PROMOTION_ID, APPROVER_ID).catch((err) => err);
+
+    expect(validate).toHaveBeenCalledWith(PROMOTION_ID, APPROVER_ID, true);
+    expect(error.message).toBe('Validation failed: [{"category":"technical","level":"gold","count":1}]');
+    expect(rpcCalls).toEqual([]);
+    expect(writes).toEqual([]);
+  });
+
+  it("reports a failed reject_promotion call as an internal error and writes nothing itself", async () => {
+    const { client, writes } = createMockSupabase({
+      data: null,
+      error: { code: "57014", message: "canceling statement due to statement timeout" },
+    });
+    const service = new PromotionService(client);
+
+    const error = await service.rejectPromotion(PROMOTION_ID, APPROVER_ID, "Not enough evidence").catch((err) => err);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(PromotionTransitionError);
+    expect(error.message).toContain("statement timeout");
+    // No separate promotion update, reservation delete or badge status revert
+    expect(writes).toEqual([]);
+  });
+
+  it.each([1, 2])(
+    "leaves the promotion, its badges and the applications unchanged when reject fails after %i write(s)",
+    async (failAfterWrites) => {
+      const state: TransactionState = {
+        promotions: [{ ...submittedPromotion, rejected_by: null, reject_reason: null }],
+        promotion_badges: [
+          { promotion_id: PROMOTION_ID, badge_application_id: BADGE_1 },
+          { promotion_id: PROMOTION_ID, badge_application_id: BADGE_2 },
+        ],
+        badge_applications: [
+          { id: BADGE_1, status: "used_in_promotion" },
+          { id: BADGE_2, status: "used_in_promotion" },
+        ],
+      };
+      const before = structuredClone(state);
+      const { client, writes } = createTransactionalSupabase(state, failAfterWrites);
+      const service = new PromotionService(client);
+
+      const error = await service.rejectPromotion(PROMOTION_ID, APPROVER_ID, "Not enough evidence").catch((err) => err);
+
+      expect(error.message).toContain("statement timeout");
+      expect(state).toEqual(before);
+      expect(writes).toEqual([]);
+    }
+  );
+
+  it("rejects through reject_promotion and audits the released badges", async () => {
+    const rejectedPromotion = { ...submittedPromotion, status: "rejected", reject_reason: "Not enough evidence" };
+    const { client, rpcCalls, writes } = createMockSupabase({
+      data: { promotion: rejectedPromotion, badge_application_ids: [BADGE_1] },
+      error: null,
+    });
+    const service = new PromotionService(client);
+
+    const result = await service.rejectPromotion(PROMOTION_ID, APPROVER_ID, "Not enough evidence");
+
+    expect(result).toEqual(rejectedPromotion);
+    expect(rpcCalls[0]).toEqual({
+      fn: "reject_promotion",
+      args: { p_promotion_id: PROMOTION_ID, p_actor_id: APPROVER_ID, p_reject_reason: "Not enough evidence" },
+    });
+    expect(writes[0]).toMatchObject({
+      table: "audit_logs",
+      values: { event_type: "promotion.rejected", payload: { badge_application_ids: [BADGE_1] } },
+    });
+  });
+
+  it("maps reservation conflicts when adding badges and reserves nothing", async () => {
+    const { client, writes } = createMockSupabase(
+      transitionError("badge_already_reserved", {
+        badge_application_id: BADGE_2,
+        owning_promotion_id: OTHER_PROMOTION_ID,
+      })
+    );
+    const service = new PromotionService(client);
+
+    const error = await service
+      .addBadgesToPromotion(PROMOTION_ID, { badge_application_ids: [BADGE_1, BADGE_2] }, OWNER_ID)
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(PromotionTransitionError);
+    expect(error.code).toBe("badge_already_reserved");
+    expect(error.details).toEqual({ badge_application_id: BADGE_2, owning_promotion_id: OTHER_PROMOTION_ID });
+    // The conflict is audited; no reservation is written
+    expect(writes).toHaveLength(1);
+    expect(writes[0]).toMatchObject({ table: "audit_logs", values: { event_type: "reservation.conflict" } });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { RoadmapService } from "../roadmap.service";
+import { positionLevelRules } from "../badge-requirements";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+// Ladder rules are exact-level; tests can turn them into or_higher rules
+vi.mock("../badge-requirements", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../badge-requirements")>();
+  return { ...actual, positionLevelRules: vi.fn(actual.positionLevelRules) };
+});
+
+const USER_ID = "550e8400-e29b-41d4-a716-446655440301";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Creates a mock Supabase client for RoadmapService.
+ * Query chains apply their eq/in filters to the fixture rows of the table.
+ */
+function createMockSupabase(fixtures: Record<string, Row[]>) {
+  const client = {
+    from(table: string) {
+      return {
+        select: () => {
+          let rows = fixtures[table] ?? [];
+          const chain = {
+            in: (column: string, values: unknown[]) => {
+              rows = rows.filter((row) => values.includes(row[column]));
+              return chain;
+            },
+            eq: (column: string, value: unknown) => {
+              rows = rows.filter((row) => row[column] === value);
+              return chain;
+            },
+            lte: () => chain,
+            order: () => chain,
+            limit: () => chain,
+            single: async () =>
+              rows.length === 1
+                ? { data: rows[0], error: null }
+                : { data: null, error: { code: "PGRST116", message: "No rows found" } },
+            then: (resolve: (value: unknown) => void) => resolve({ data: rows, error: null }),
+          };
+          return chain;
+        },
+      };
+    },
+  };
+
+  return client as unknown as SupabaseClient;
+}
+
+const user = (position: Row = {}): Row => ({
+  id: USER_ID,
+  display_name: "Alice",
+  email: "alice@example.com",
+  current_path: null,
+  current_level: null,
+  ...position,
+});
+
+const application = (catalogBadgeId: string, category: string, level: string, overrides: Row = {}): Row => ({
+  applicant_id: USER_ID,
+  catalog_badge_id: catalogBadgeId,
+  status: "accepted",
+  catalog_badge: { category, level },
+  promotion_badges: [],
+  ...overrides,
+});
+
+const catalogBadge = (id: string, title: string, category: string, level: string): Row => ({
+  id,
+  title,
+  category,
+  level,
+  status: "active",
+});
+
+describe("RoadmapService.getRoadmap", () => {
+  afterEach(() => {
+    vi.mocked(positionLevelRules).mockReset();
+  });
+
+  it("returns null when the user does not exist", async () => {
+    const service = new RoadmapService(createMockSupabase({ users: [] }));
+
+    expect(await service.getRoadmap(USER_ID, "technical")).toBeNull();
+  });
+
+  it("evaluates every remaining level from the recorded position", async () => {
+    const service = new RoadmapService(
+      createMockSupabase({
+        users: [user({ current_path: "technical", current_level: "S1" })],
+        badge_applications: [
+          application("b1", "technical", "silver"),
+          application("b2", "technical", "gold"),
+          // Consumed by an approved promotion, no longer counts
+          application("b3", "technical", "silver", {
+            status: "used_in_promotion",
+            promotion_badges: [{ consumed: true }],
+          }),
+          // Under review, doesn't count yet
+          application("b4", "technical", "silver", { status: "submitted" }),
+        ],
+        catalog_badges: [],
+      })
+    );
+
+    const roadmap = await service.getRoadmap(USER_ID, "technical");
+
+    expect(roadmap?.path).toBe("technical");
+    expect(roadmap?.current_level).toBe("S1");
+    expect(roadmap?.position_recorded).toBe(true);
+    expect(roadmap?.accepted_badge_count).toBe(2);
+    expect(roadmap?.steps.map((step) => `${step.from_level}→${step.to_level}`)).toEqual(["S1→S2", "S2→S3"]);
+
+    const [toS2, toS3] = roadmap?.steps ?? [];
+    expect(
+      toS2.requirements.map(({ category, level, required, current }) => ({ category, level, required, current }))
+    ).toEqual([
+      { category: "technical", level: "silver", required: 6, current: 1 },
+      { category: "any", level: "gold", required: 1, current: 1 },
+    ]);
+    expect(toS2.is_ready).toBe(false);
+    expect(toS3.requirements[0]).toMatchObject({ category: "technical", level: "gold", required: 2, current: 1 });
+  });
+
+  it("suggests active catalog badges the user doesn't hold for unmet rules", async () => {
+    const service = new RoadmapService(
+      createMockSupabase({
+        users: [user({ current_path: "technical", current_level: "J2" })],
+        badge_applications: [
+          application("held", "technical", "silver"),
+          application("pending", "technical", "silver", { status: "submitted" }),
+        ],
+        catalog_badges: [
+          catalogBadge("held", "Held Silver", "technical", "silver"),
+          catalogBadge("pending", "Pending Silver", "technical", "silver"),
+          catalogBadge("open", "Open Silver", "technical", "silver"),
+          catalogBadge("org", "Org Bronze", "organizational", "bronze"),
+          { ...catalogBadge("inactive", "Inactive Silver", "technical", "silver"), status: "inactive" },
+        ],
+      })
+    );
+
+    const roadmap = await service.getRoadmap(USER_ID, "technical");
+    const [toS1] = roadmap?.steps ?? [];
+
+    expect(toS1.requirements[0].suggested_badges.map((badge) => badge.id)).toEqual(["open"]);
+    expect(toS1.requirements[1].suggested_badges.map((badge) => badge.id)).toEqual(["org"]);
+  });
+
+  it("suggests higher-level badges for or_higher rules", async () => {
+    const exactRules = vi.mocked(positionLevelRules).getMockImplementation();
+    vi.mocked(positionLevelRules).mockImplementation((positionLevel) =>
+      (exactRules?.(positionLevel) ?? []).map((rule) => ({ ...rule, or_higher: true }))
+    );
+    const service = new RoadmapService(
+      createMockSupabase({
+        users: [user({ current_path: "technical", current_level: "J1" })],
+        career_ladder_versions: [
+          {
+            version: 2,
+            positions: {
+              technical: {
+                J1: { next_level: "J2", required_badges: { technical: [{ level: "silver", count: 2 }] } },
+                J2: { required_badges: {} },
+              },
+            },
+          },
+        ],
+        badge_applications: [],
+        catalog_badges: [
+          catalogBadge("gold", "Open Gold", "technical", "gold"),
+          catalogBadge("silver", "Open Silver", "technical", "silver"),
+          catalogBadge("bronze", "Open Bronze", "technical", "bronze"),
+        ],
+      })
+    );
+
+    const roadmap = await service.getRoadmap(USER_ID, "technical");
+    const [toJ2] = roadmap?.steps ?? [];
+
+    expect(toJ2.requirements[0]).toMatchObject({ category: "technical", level: "silver", or_higher: true });
+    expect(toJ2.requirements[0].suggested_badges.map((badge) => badge.id)).toEqual(["gold", "silver"]);
+  });
+
+  it("starts at the entry level of the requested path without a known position", async () => {
+    const service = new RoadmapService(
+      createMockSupabase({ users: [user()], promotions: [], badge_applications: [], catalog_badges: [] })
+    );
+
+    const roadmap = await service.getRoadmap(USER_ID, "management");
+
+    expect(roadmap?.path).toBe("management");
+    expect(roadmap?.current_level).toBe("M1");
+    expect(roadmap?.position_recorded).toBe(false);
+    expect(roadmap?.steps[0].from_level).toBe("M1");
+  });
+
+  it("falls back to the latest approved promotion", async () => {
+    const service = new RoadmapService(
+      createMockSupabase({
+        users: [user()],
+        promotions: [
+          {
+            created_by: USER_ID,
+            status: "approved",
+            path: "technical",
+            from_level: "S2",
+            to_level: "S3",
+            approved_at: "2024-06-01T00:00:00Z",
+            created_at: "2024-05-01T00:00:00Z",
+          },
+        ],
+        badge_applications: [],
+      })
+    );
+
+    const roadmap = await service.getRoadmap(USER_ID, "technical");
+
+    expect(roadmap?.current_level).toBe("S3");
+    expect(roadmap?.steps).toEqual([]);
+  });
+});
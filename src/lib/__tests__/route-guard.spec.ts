@@ -0,0 +1,305 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { guardApiRequest, isAllowedByTokenScope, matchApiRoute } from "../auth/route-guard";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+const TOKEN_ID = "33333333-3333-4333-8333-333333333333";
+
+// Client acting as the owner of an API token (see createUserTokenClient)
+const tokenClient = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("@/db/supabase.user-token", () => ({
+  createUserTokenClient: async () => tokenClient.current,
+}));
+
+/**
+ * Creates a mock Supabase client for the given session user, user row and roles
+ */
+function createMockSupabase(
+  options: {
+    signedIn?: boolean;
+    user?: Record<string, unknown> | null;
+    roles?: Record<string, unknown>[];
+    apiToken?: { scope: string } | null;
+  } = {}
+) {
+  const { signedIn = true, user = { is_admin: false, deactivated_at: null }, roles = [], apiToken = null } = options;
+
+  return {
+    async rpc(name: string) {
+      if (name !== "authenticate_api_token") throw new Error(`Unexpected rpc ${name}`);
+      return {
+        data: apiToken
+          ? [{ id: TOKEN_ID, user_id: USER_ID, email: "bot@example.com", scope: apiToken.scope, expires_at: "" }]
+          : [],
+        error: null,
+      };
+    },
+    auth: {
+      async getUser() {
+        return signedIn
+          ? { data: { user: { id: USER_ID, email: "user@example.com" } }, error: null }
+          : { data: { user: null }, error: { message: "Auth session missing" } };
+      },
+    },
+    from(table: string) {
+      return {
+        select() {
+          if (table === "user_roles") {
+            return {
+              async eq() {
+                return { data: roles, error: null };
+              },
+            };
+          }
+          return {
+            eq() {
+              return {
+                async single() {
+                  return user ? { data: user, error: null } : { data: null, error: { code: "PGRST116" } };
+                },
+              };
+            },
+          };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+}
+
+function request(method: string, headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api", { method, headers });
+}
+
+describe("route guard", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("matchApiRoute", () => {
+    it("matches [param] segments", () => {
+      expect(matchApiRoute("/api/promotions/abc/approve")).toBe("/api/promotions/[id]/approve");
+    });
+
+    it("prefers static segments over [param] segments", () => {
+      expect(matchApiRoute("/api/catalog-badges/export")).toBe("/api/catalog-badges/export");
+      expect(matchApiRoute("/api/catalog-badges/abc")).toBe("/api/catalog-badges/[id]");
+    });
+
+    it("ignores trailing slashes", () => {
+      expect(matchApiRoute("/api/promotions/")).toBe("/api/promotions");
+    });
+
+    it("returns null for unknown routes", () => {
+      expect(matchApiRoute("/api/unknown")).toBeNull();
+      expect(matchApiRoute("/api/promotions/abc/unknown")).toBeNull();
+    });
+  });
+
+  describe("guardApiRequest", () => {
+    it("returns 404 for unknown routes", async () => {
+      const result = await guardApiRequest(createMockSupabase(), request("GET"), "/api/unknown");
+      expect(result.response?.status).toBe(404);
+    });
+
+    it("returns 405 with the allowed methods for unlisted methods", async () => {
+      const result = await guardApiRequest(createMockSupabase(), request("DELETE"), "/api/promotions");
+
+      expect(result.response?.status).toBe(405);
+      expect(result.response?.headers.get("Allow")).toBe("GET, POST");
+    });
+
+    it("returns 401 without a session", async () => {
+      const result = await guardApiRequest(createMockSupabase({ signedIn: false }), request("GET"), "/api/promotions");
+
+      expect(result.response?.status).toBe(401);
+      expect(await result.response?.json()).toMatchObject({ message: "Authentication required" });
+    });
+
+    it("returns 401 when the session has no user record", async () => {
+      const result = await guardApiRequest(createMockSupabase({ user: null }), request("GET"), "/api/promotions");
+
+      expect(result.response?.status).toBe(401);
+      expect(await result.response?.json()).toMatchObject({ message: "User not found" });
+    });
+
+    it("returns 401 for deactivated accounts, even admins", async () => {
+      const supabase = createMockSupabase({ user: { is_admin: true, deactivated_at: "2025-01-01T00:00:00Z" } });
+
+      const result = await guardApiRequest(supabase, request("GET"), "/api/promotions");
+
+      expect(result.user).toBeNull();
+      expect(result.response?.status).toBe(401);
+      expect(await result.response?.json()).toMatchObject({ message: "Account is deactivated" });
+    });
+
+    it("lets signed-in users call authenticated routes", async () => {
+      const result = await guardApiRequest(createMockSupabase(), request("GET"), "/api/promotions");
+
+      expect(result.response).toBeNull();
+      expect(result.user).toMatchObject({ id: USER_ID, email: "user@example.com", access: { isAdmin: false } });
+    });
+
+    it("returns 403 for non-admins on admin routes", async () => {
+      const result = await guardApiRequest(createMockSupabase(), request("GET"), "/api/audit-logs");
+
+      expect(result.response?.status).toBe(403);
+      expect(await result.response?.json()).toMatchObject({ error: "forbidden", message: "Admin access required" });
+    });
+
+    it("lets admins call admin routes", async () => {
+      const supabase = createMockSupabase({ user: { is_admin: true, deactivated_at: null } });
+      const result = await guardApiRequest(supabase, request("GET"), "/api/audit-logs");
+
+      expect(result.response).toBeNull();
+    });
+
+    it("returns 403 when the user lacks the route's permission", async () => {
+      const result = await guardApiRequest(createMockSupabase(), request("POST"), "/api/catalog-badges");
+
+      expect(result.response?.status).toBe(403);
+      expect(await result.response?.json()).toMatchObject({ message: "Catalog management permission required" });
+    });
+
+    it("lets users whose roles grant the permission through", async () => {
+      const supabase = createMockSupabase({ roles: [{ role: "catalog_manager", categories: null }] });
+      const result = await guardApiRequest(supabase, request("POST"), "/api/catalog-badges");
+
+      expect(result.response).toBeNull();
+    });
+
+    it("lets anyone call public routes and resolves a signed-in user", async () => {
+      const anonymous = await guardApiRequest(
+        createMockSupabase({ signedIn: false }),
+        request("GET"),
+        "/api/auth/session"
+      );
+      const signedIn = await guardApiRequest(createMockSupabase(), request("GET"), "/api/auth/session");
+
+      expect(anonymous).toEqual({ user: null, response: null });
+      expect(signedIn.response).toBeNull();
+      expect(signedIn.user?.id).toBe(USER_ID);
+    });
+
+    it("lets the worker secret through worker routes", async () => {
+      vi.stubEnv("NOTIFICATION_WORKER_SECRET", "worker-secret");
+      const result = await guardApiRequest(
+        createMockSupabase({ signedIn: false }),
+        request("POST", { Authorization: "Bearer worker-secret" }),
+        "/api/notifications/process"
+      );
+
+      expect(result).toEqual({ user: null, response: null });
+    });
+
+    it("refuses a wrong worker secret from non-admins", async () => {
+      vi.stubEnv("NOTIFICATION_WORKER_SECRET", "worker-secret");
+      const result = await guardApiRequest(
+        createMockSupabase(),
+        request("POST", { Authorization: "Bearer wrong" }),
+        "/api/notifications/process"
+      );
+
+      expect(result.response?.status).toBe(403);
+    });
+  });
+
+  describe("API tokens", () => {
+    const bearer = { Authorization: "Bearer bdg_secret" };
+
+    function tokenRequest(scope: string, user: Record<string, unknown> = { is_admin: false, deactivated_at: null }) {
+      tokenClient.current = createMockSupabase({ user });
+      return createMockSupabase({ signedIn: false, apiToken: { scope } });
+    }
+
+    afterEach(() => {
+      tokenClient.current = null;
+    });
+
+    it("resolves the token's owner and hands over a client acting as them", async () => {
+      vi.stubEnv("SUPABASE_JWT_SECRET", "jwt-secret");
+      const supabase = tokenRequest("read");
+
+      const result = await guardApiRequest(supabase, request("GET", bearer), "/api/promotions");
+
+      expect(result.response).toBeNull();
+      expect(result.user).toMatchObject({ id: USER_ID, email: "bot@example.com" });
+      expect(result.apiToken?.token).toMatchObject({ id: TOKEN_ID, scope: "read" });
+      expect(result.apiToken?.supabase).toBe(tokenClient.current);
+    });
+
+    it("returns 401 for unknown, revoked or expired tokens", async () => {
+      vi.stubEnv("SUPABASE_JWT_SECRET", "jwt-secret");
+      const supabase = createMockSupabase({ signedIn: false });
+
+      const result = await guardApiRequest(supabase, request("GET", bearer), "/api/promotions");
+
+      expect(result.response?.status).toBe(401);
+      expect(await result.response?.json()).toMatchObject({ message: "Invalid or expired API token" });
+    });
+
+    it("returns 401 for tokens of deactivated accounts", async () => {
+      vi.stubEnv("SUPABASE_JWT_SECRET", "jwt-secret");
+      const supabase = tokenRequest("read", { is_admin: false, deactivated_at: "2025-01-01T00:00:00Z" });
+
+      const result = await guardApiRequest(supabase, request("GET", bearer), "/api/promotions");
+
+      expect(result.response?.status).toBe(401);
+    });
+
+    it("refuses tokens when no JWT secret is configured", async () => {
+      vi.stubEnv("SUPABASE_JWT_SECRET", "");
+
+      const result = await guardApiRequest(tokenRequest("admin"), request("GET", bearer), "/api/promotions");
+
+      expect(result.response?.status).toBe(401);
+      expect(result.apiToken).toBeUndefined();
+    });
+
+    it("refuses writes outside the token's scope", async () => {
+      vi.stubEnv("SUPABASE_JWT_SECRET", "jwt-secret");
+
+      const result = await guardApiRequest(tokenRequest("read"), request("POST", bearer), "/api/promotions");
+
+      expect(result.response?.status).toBe(403);
+      expect(await result.response?.json()).toMatchObject({ error: "insufficient_scope" });
+      expect(result.apiToken?.token.id).toBe(TOKEN_ID);
+    });
+
+    it("still applies the owner's roles", async () => {
+      vi.stubEnv("SUPABASE_JWT_SECRET", "jwt-secret");
+
+      const result = await guardApiRequest(tokenRequest("admin"), request("GET", bearer), "/api/audit-logs");
+
+      expect(result.response?.status).toBe(403);
+      expect(await result.response?.json()).toMatchObject({ message: "Admin access required" });
+    });
+
+    it("keeps sign-in and token management to browser sessions", async () => {
+      vi.stubEnv("SUPABASE_JWT_SECRET", "jwt-secret");
+      const supabase = tokenRequest("admin", { is_admin: true, deactivated_at: null });
+
+      const result = await guardApiRequest(supabase, request("POST", bearer), "/api/api-tokens");
+
+      expect(result.response?.status).toBe(403);
+      expect(result.user).toBeNull();
+    });
+  });
+
+  describe("isAllowedByTokenScope", () => {
+    it("limits read tokens to GET requests", () => {
+      expect(isAllowedByTokenScope("read", "GET", "admin")).toBe(true);
+      expect(isAllowedByTokenScope("read", "POST", "authenticated")).toBe(false);
+    });
+
+    it("lets review tokens review and approve", () => {
+      expect(isAllowedByTokenScope("review", "POST", "badge_applications.review")).toBe(true);
+      expect(isAllowedByTokenScope("review", "POST", "promotions.approve")).toBe(true);
+      expect(isAllowedByTokenScope("review", "POST", "authenticated")).toBe(false);
+    });
+
+    it("lets admin tokens make any request", () => {
+      expect(isAllowedByTokenScope("admin", "DELETE", "authenticated")).toBe(true);
+    });
+  });
+});
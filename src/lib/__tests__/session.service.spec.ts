@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import { SessionService, describeUserAgent } from "../session.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const ADMIN_ID = "11111111-1111-4111-8111-111111111111";
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+const CURRENT_SESSION_ID = "33333333-3333-4333-8333-333333333333";
+const OTHER_SESSION_ID = "44444444-4444-4444-8444-444444444444";
+
+const CHROME_MAC =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36";
+const EDGE_WINDOWS =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36 Edg/131.0.0.0";
+const SAFARI_IPHONE =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1";
+
+/**
+ * Creates a mock Supabase client for SessionService.
+ * Records RPC calls and audit inserts; list_user_sessions returns the given rows.
+ */
+function createMockSupabase(rows: Record<string, unknown>[] = [], rpcError: { message: string } | null = null) {
+  const rpcCalls: { fn: string; args: Record<string, unknown> }[] = [];
+  const auditInserts: Record<string, unknown>[] = [];
+
+  const client = {
+    auth: {
+      async getClaims() {
+        return { data: { claims: { session_id: CURRENT_SESSION_ID, exp: 1764288000 } }, error: null };
+      },
+    },
+    async rpc(fn: string, args: Record<string, unknown>) {
+      rpcCalls.push({ fn, args });
+      if (rpcError) return { data: null, error: rpcError };
+      return { data: fn === "list_user_sessions" ? rows : 3, error: null };
+    },
+    from() {
+      return {
+        async insert(payload: Record<string, unknown>) {
+          auditInserts.push(payload);
+          return { error: null };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, rpcCalls, auditInserts };
+}
+
+describe("describeUserAgent", () => {
+  it("names the browser and operating system", () => {
+    expect(describeUserAgent(CHROME_MAC)).toBe("Chrome on macOS");
+    expect(describeUserAgent(EDGE_WINDOWS)).toBe("Edge on Windows");
+    expect(describeUserAgent(SAFARI_IPHONE)).toBe("Safari on iOS");
+  });
+
+  it("falls back for missing or unrecognized user agents", () => {
+    expect(describeUserAgent(null)).toBe("Unknown device");
+    expect(describeUserAgent("curl/8.5.0")).toBe("Unknown device");
+  });
+});
+
+describe("SessionService", () => {
+  describe("getCurrentSession", () => {
+    it("reads the session ID and expiry from the access token claims", async () => {
+      const { client } = createMockSupabase();
+      const service = new SessionService(client);
+
+      expect(await service.getCurrentSession()).toEqual({
+        id: CURRENT_SESSION_ID,
+        expires_at: "2025-11-28T00:00:00.000Z",
+      });
+    });
+  });
+
+  describe("listSessions", () => {
+    it("describes each device and flags the current session", async () => {
+      const { client, rpcCalls } = createMockSupabase([
+        {
+          id: CURRENT_SESSION_ID,
+          created_at: "2025-11-20T08:00:00Z",
+          last_seen_at: "2025-11-27T09:00:00Z",
+          user_agent: CHROME_MAC,
+          ip: "10.0.0.1",
+          not_after: null,
+        },
+        {
+          id: OTHER_SESSION_ID,
+          created_at: "2025-11-01T08:00:00Z",
+          last_seen_at: "2025-11-02T09:00:00Z",
+          user_agent: null,
+          ip: null,
+          not_after: null,
+        },
+      ]);
+      const service = new SessionService(client);
+
+      const sessions = await service.listSessions(USER_ID, CURRENT_SESSION_ID);
+
+      expect(rpcCalls).toEqual([{ fn: "list_user_sessions", args: { target: USER_ID } }]);
+      expect(sessions.map(({ id, device, current }) => ({ id, device, current }))).toEqual([
+        { id: CURRENT_SESSION_ID, device: "Chrome on macOS", current: true },
+        { id: OTHER_SESSION_ID, device: "Unknown device", current: false },
+      ]);
+    });
+
+    it("throws when the query fails", async () => {
+      const { client } = createMockSupabase([], { message: "forbidden" });
+      const service = new SessionService(client);
+
+      await expect(service.listSessions(USER_ID, null)).rejects.toThrow("Failed to list sessions: forbidden");
+    });
+  });
+
+  describe("revokeOtherSessions", () => {
+    it("keeps the current session", async () => {
+      const { client, rpcCalls, auditInserts } = createMockSupabase();
+      const service = new SessionService(client);
+
+      expect(await service.revokeOtherSessions(USER_ID, CURRENT_SESSION_ID)).toBe(3);
+      expect(rpcCalls).toEqual([
+        { fn: "revoke_user_sessions", args: { target: USER_ID, keep_session: CURRENT_SESSION_ID } },
+      ]);
+      expect(auditInserts).toHaveLength(0);
+    });
+  });
+
+  describe("revokeAllSessions", () => {
+    it("revokes every session and writes an audit entry", async () => {
+      const { client, rpcCalls, auditInserts } = createMockSupabase();
+      const service = new SessionService(client);
+
+      expect(await service.revokeAllSessions(USER_ID, ADMIN_ID)).toBe(3);
+      expect(rpcCalls).toEqual([{ fn: "revoke_user_sessions", args: { target: USER_ID } }]);
+      expect(auditInserts).toEqual([
+        expect.objectContaining({
+          event_type: "user.sessions_revoked",
+          actor_id: ADMIN_ID,
+          resource_id: USER_ID,
+          payload: { revoked: 3 },
+        }),
+      ]);
+    });
+
+    it("rejects admins signing themselves out", async () => {
+      const { client, rpcCalls } = createMockSupabase();
+      const service = new SessionService(client);
+
+      await expect(service.revokeAllSessions(ADMIN_ID, ADMIN_ID)).rejects.toThrow("CANNOT_REVOKE_OWN_SESSIONS");
+      expect(rpcCalls).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { createServer, type AddressInfo, type Server } from "node:net";
+import { SmtpMailer, buildMimeMessage } from "../smtp-mailer";
+
+// The scripted server speaks plain SMTP; "TLS" connections reach it unencrypted
+vi.mock("node:tls", async () => {
+  const net = await import("node:net");
+  const connect = (options: { host: string; port: number }, onConnect: () => void) =>
+    net.connect({ host: options.host, port: options.port }, onConnect);
+  return { default: { connect }, connect };
+});
+
+/**
+ * Starts a scripted SMTP server on a random port.
+ * Records every command line and the DATA payload; `rejectRcpt` answers RCPT TO with 550.
+ */
+async function startSmtpServer(options: { rejectRcpt?: boolean } = {}) {
+  const commands: string[] = [];
+  let data = "";
+
+  const server: Server = createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.setEncoding("utf8");
+    socket.write("220 test ESMTP ready\r\n");
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+        data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write("250 queued\r\n");
+      }
+
+      let newline = buffer.indexOf("\r\n");
+      while (!inData && newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        commands.push(line);
+
+        if (line.startsWith("EHLO")) socket.write("250-test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n");
+        else if (line.startsWith("AUTH")) socket.write("235 ok\r\n");
+        else if (line.startsWith("MAIL")) socket.write("250 ok\r\n");
+        else if (line.startsWith("RCPT")) socket.write(options.rejectRcpt ? "550 no such user\r\n" : "250 ok\r\n");
+        else if (line === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (line === "QUIT") {
+          socket.end("221 bye\r\n");
+        }
+        newline = buffer.indexOf("\r\n");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { server, port, commands, getData: () => data };
+}
+
+describe("SmtpMailer", () => {
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  it("delivers a message through the SMTP conversation", async () => {
+    const smtp = await startSmtpServer();
+    server = smtp.server;
+    const mailer = new SmtpMailer({ host: "127.0.0.1", port: smtp.port, from: "Badger <notify@badger.test>" });
+
+    await mailer.send({ to: "alice@example.com", subject: "Badge accepted", text: "Well done" });
+
+    expect(smtp.commands).toEqual([
+      "EHLO badger.test",
+      "MAIL FROM:<notify@badger.test>",
+      "RCPT TO:<alice@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(smtp.getData()).toContain("Subject: Badge accepted");
+    expect(smtp.getData()).toContain(Buffer.from("Well done").toString("base64"));
+  });
+
+  it("authenticates with AUTH PLAIN when credentials are configured", async () => {
+    const smtp = await startSmtpServer();
+    server = smtp.server;
+    const mailer = new SmtpMailer({
+      host: "127.0.0.1",
+      port: smtp.port,
+      from: "notify@badger.test",
+      user: "user",
+      password: "secret",
+      secure: true,
+    });
+
+    await mailer.send({ to: "alice@example.com", subject: "Hi", text: "Hi" });
+
+    expect(smtp.commands[1]).toBe(`AUTH PLAIN ${Buffer.from("\0user\0secret").toString("base64")}`);
+  });
+
+  it("refuses credentials without TLS", () => {
+    expect(
+      () =>
+        new SmtpMailer({ host: "127.0.0.1", port: 25, from: "notify@badger.test", user: "user", password: "secret" })
+    ).toThrow("SMTP_CONFIG_ERROR");
+  });
+
+  it("throws the server reply when a command is rejected", async () => {
+    const smtp = await startSmtpServer({ rejectRcpt: true });
+    server = smtp.server;
+    const mailer = new SmtpMailer({ host: "127.0.0.1", port: smtp.port, from: "notify@badger.test" });
+
+    await expect(mailer.send({ to: "nobody@example.com", subject: "Hi", text: "Hi" })).rejects.toThrow(
+      "SMTP_ERROR: 550 no such user"
+    );
+  });
+});
+
+describe("buildMimeMessage", () => {
+  it("encodes non-ASCII subjects and bodies", () => {
+    const message = buildMimeMessage("notify@badger.test", {
+      to: "alice@example.com",
+      subject: "Awans: S1 → S2",
+      text: "Gratulacje! Zażółć gęślą jaźń",
+    });
+
+    expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from("Awans: S1 → S2").toString("base64")}?=`);
+    expect(message).toContain("Content-Transfer-Encoding: base64");
+    expect(message).not.toContain("Zażółć");
+  });
+});
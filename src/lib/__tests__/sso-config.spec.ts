@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  isAllowedEmailDomain,
+  isSelfRegistrationEnabled,
+  mapGroupsToAccess,
+  parseSsoConfig,
+  toLocalRedirectPath,
+} from "../auth/sso-config";
+
+describe("parseSsoConfig", () => {
+  it("enables no provider without configuration", () => {
+    const config = parseSsoConfig({});
+
+    expect(config.oidc).toBeNull();
+    expect(config.saml).toBeNull();
+    expect(config.allowedDomains).toEqual([]);
+  });
+
+  it("reads the OIDC provider, domains and group mapping", () => {
+    const config = parseSsoConfig({
+      SSO_OIDC_ISSUER: "https://idp.example.com/",
+      SSO_OIDC_CLIENT_ID: "badger",
+      SSO_OIDC_LABEL: "Sign in with Okta",
+      SSO_ALLOWED_DOMAINS: "Example.com, example.org ,",
+      SSO_ADMIN_GROUPS: "badger-admins",
+      SSO_REVIEWER_GROUPS: "reviewers,leads",
+    });
+
+    expect(config.oidc).toMatchObject({
+      issuer: "https://idp.example.com",
+      clientId: "badger",
+      label: "Sign in with Okta",
+      scopes: "openid email profile",
+      groupsClaim: "groups",
+    });
+    expect(config.allowedDomains).toEqual(["example.com", "example.org"]);
+    expect(config.groupMapping).toEqual({ adminGroups: ["badger-admins"], reviewerGroups: ["reviewers", "leads"] });
+  });
+
+  it("enables SAML by domain", () => {
+    expect(parseSsoConfig({ SSO_SAML_DOMAIN: "Example.com" }).saml).toEqual({
+      domain: "example.com",
+      label: "SAML single sign-on",
+    });
+  });
+});
+
+describe("isSelfRegistrationEnabled", () => {
+  it("is on unless explicitly disabled", () => {
+    expect(isSelfRegistrationEnabled({})).toBe(true);
+    expect(isSelfRegistrationEnabled({ AUTH_SELF_REGISTRATION: "true" })).toBe(true);
+    expect(isSelfRegistrationEnabled({ AUTH_SELF_REGISTRATION: "false" })).toBe(false);
+  });
+});
+
+describe("isAllowedEmailDomain", () => {
+  it("allows any domain when none are configured", () => {
+    expect(isAllowedEmailDomain("ada@anywhere.io", [])).toBe(true);
+  });
+
+  it("matches the exact domain case-insensitively", () => {
+    expect(isAllowedEmailDomain("Ada@Example.com", ["example.com"])).toBe(true);
+    expect(isAllowedEmailDomain("ada@mail.example.com", ["example.com"])).toBe(false);
+    expect(isAllowedEmailDomain("ada@example.com.evil.io", ["example.com"])).toBe(false);
+  });
+});
+
+describe("toLocalRedirectPath", () => {
+  const origin = "http://localhost";
+
+  it("keeps local paths with their query and hash", () => {
+    expect(toLocalRedirectPath("/catalog?category=technical#top", origin)).toBe("/catalog?category=technical#top");
+  });
+
+  it("falls back to the home page for other origins", () => {
+    expect(toLocalRedirectPath("https://evil.example/", origin)).toBe("/");
+    expect(toLocalRedirectPath("//evil.example", origin)).toBe("/");
+    expect(toLocalRedirectPath("/\\evil.example", origin)).toBe("/");
+    expect(toLocalRedirectPath("/\t/evil.example", origin)).toBe("/");
+    expect(toLocalRedirectPath(null, origin)).toBe("/");
+  });
+});
+
+describe("mapGroupsToAccess", () => {
+  it("grants access from mapped groups", () => {
+    expect(
+      mapGroupsToAccess(["staff", "reviewers"], { adminGroups: ["badger-admins"], reviewerGroups: ["reviewers"] })
+    ).toEqual({ isAdmin: false, isReviewer: true });
+  });
+
+  it("leaves unmapped access unchanged", () => {
+    expect(mapGroupsToAccess(["badger-admins"], { adminGroups: [], reviewerGroups: [] })).toEqual({
+      isAdmin: null,
+      isReviewer: null,
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { SamlSsoProvider, type SsoFlowContext } from "../auth/sso-providers";
+
+const AUTH_USER_ID = "33333333-3333-4333-8333-333333333333";
+
+/**
+ * Creates a flow context whose Supabase client exchanges the code for the given auth user
+ */
+function createContext(user: Record<string, unknown>): SsoFlowContext {
+  return {
+    url: new URL("http://localhost/api/auth/sso/saml/callback?code=abc"),
+    callbackUrl: "http://localhost/api/auth/sso/saml/callback",
+    supabase: {
+      auth: {
+        exchangeCodeForSession: async () => ({ data: { user }, error: null }),
+      },
+    },
+  } as unknown as SsoFlowContext;
+}
+
+describe("SamlSsoProvider.complete", () => {
+  const provider = new SamlSsoProvider("Company SSO", { domain: "corp.example.com" });
+
+  it("reads groups from the SAML identity", async () => {
+    const identity = await provider.complete(
+      createContext({
+        id: AUTH_USER_ID,
+        email: "Ada@Corp.example.com",
+        user_metadata: { full_name: "Ada" },
+        identities: [{ provider: "sso:provider-1", identity_data: { custom_claims: { groups: ["badger-admins"] } } }],
+      })
+    );
+
+    expect(identity).toEqual({
+      email: "ada@corp.example.com",
+      displayName: "Ada",
+      groups: ["badger-admins"],
+      authUserId: AUTH_USER_ID,
+    });
+  });
+
+  it("ignores groups users wrote into their own metadata", async () => {
+    const identity = await provider.complete(
+      createContext({
+        id: AUTH_USER_ID,
+        email: "ada@corp.example.com",
+        user_metadata: { custom_claims: { groups: ["badger-admins"] } },
+        identities: [{ provider: "sso:provider-1", identity_data: { custom_claims: {} } }],
+      })
+    );
+
+    expect(identity.groups).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect } from "vitest";
+import { SsoProvisioningService } from "../sso-provisioning.service";
+import type { SsoIdentity } from "../auth/sso-providers";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+
+const IDENTITY: SsoIdentity = {
+  email: "ada@example.com",
+  displayName: "Ada Lovelace",
+  groups: ["badger-admins"],
+  authUserId: null,
+};
+
+const MAPPING = { adminGroups: ["badger-admins"], reviewerGroups: ["reviewers"] };
+
+/**
+ * Creates a mock service role client for SsoProvisioningService.
+ * Records auth admin calls, users/user_roles writes and audit inserts.
+ */
+function createMockSupabase(
+  options: { user?: Record<string, unknown> | null; hasReviewer?: boolean; createError?: string } = {}
+) {
+  const { user = null, hasReviewer = false, createError } = options;
+  const userInserts: Record<string, unknown>[] = [];
+  const userUpdates: Record<string, unknown>[] = [];
+  const roleInserts: Record<string, unknown>[] = [];
+  const roleDeletes: string[] = [];
+  const auditInserts: Record<string, unknown>[] = [];
+  const createdUsers: Record<string, unknown>[] = [];
+
+  const row = (payload: Record<string, unknown>) => ({
+    id: USER_ID,
+    is_admin: false,
+    deactivated_at: null,
+    ...user,
+    ...payload,
+  });
+
+  const client = {
+    auth: {
+      admin: {
+        async createUser(attributes: Record<string, unknown>) {
+          createdUsers.push(attributes);
+          return createError
+            ? { data: { user: null }, error: { code: createError, message: createError } }
+            : { data: { user: { id: USER_ID } }, error: null };
+        },
+        async generateLink() {
+          return { data: { user: { id: USER_ID }, properties: { hashed_token: "hashed" } }, error: null };
+        },
+      },
+    },
+    from(table: string) {
+      if (table === "audit_logs") {
+        return {
+          async insert(payload: Record<string, unknown>) {
+            auditInserts.push(payload);
+            return { error: null };
+          },
+        };
+      }
+
+      if (table === "user_roles") {
+        return {
+          select() {
+            const chain = {
+              eq: () => chain,
+              then: (resolve: (value: unknown) => void) =>
+                resolve({ data: hasReviewer ? [{ role: "reviewer" }] : [], error: null }),
+            };
+            return chain;
+          },
+          async insert(payload: Record<string, unknown>) {
+            roleInserts.push(payload);
+            return { error: null };
+          },
+          delete() {
+            const chain = {
+              eq: (_column: string, value: string) => {
+                roleDeletes.push(value);
+                return chain;
+              },
+              then: (resolve: (value: unknown) => void) => resolve({ error: null }),
+            };
+            return chain;
+          },
+        };
+      }
+
+      return {
+        select() {
+          return {
+            eq() {
+              return {
+                async maybeSingle() {
+                  return { data: user, error: null };
+                },
+              };
+            },
+          };
+        },
+        insert(payload: Record<string, unknown>) {
+          userInserts.push(payload);
+          return {
+            select() {
+              return {
+                async single() {
+                  return { data: row(payload), error: null };
+                },
+              };
+            },
+          };
+        },
+        update(payload: Record<string, unknown>) {
+          userUpdates.push(payload);
+          const result = { data: row(payload), error: null };
+          return {
+            eq() {
+              return {
+                select: () => ({ single: async () => result }),
+                then: (resolve: (value: unknown) => void) => resolve({ error: null }),
+              };
+            },
+          };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, userInserts, userUpdates, roleInserts, roleDeletes, auditInserts, createdUsers };
+}
+
+describe("SsoProvisioningService", () => {
+  describe("issueSignInToken", () => {
+    it("creates a confirmed auth user and returns the sign-in token", async () => {
+      const { client, createdUsers } = createMockSupabase();
+      const service = new SsoProvisioningService(client);
+
+      expect(await service.issueSignInToken(IDENTITY)).toEqual({ userId: USER_ID, tokenHash: "hashed" });
+      expect(createdUsers[0]).toMatchObject({ email: "ada@example.com", email_confirm: true });
+    });
+
+    it("reuses an existing account with the same email", async () => {
+      const { client } = createMockSupabase({ createError: "email_exists" });
+      const service = new SsoProvisioningService(client);
+
+      expect(await service.issueSignInToken(IDENTITY)).toEqual({ userId: USER_ID, tokenHash: "hashed" });
+    });
+
+    it("throws when the auth user cannot be created", async () => {
+      const { client } = createMockSupabase({ createError: "unexpected_failure" });
+      const service = new SsoProvisioningService(client);
+
+      await expect(service.issueSignInToken(IDENTITY)).rejects.toThrow("Failed to create auth user");
+    });
+  });
+
+  describe("provisionUser", () => {
+    it("creates the users row on first sign-in and applies the group mapping", async () => {
+      const { client, userInserts, userUpdates, auditInserts } = createMockSupabase();
+      const service = new SsoProvisioningService(client);
+
+      const user = await service.provisionUser(USER_ID, IDENTITY, MAPPING);
+
+      expect(userInserts[0]).toMatchObject({ id: USER_ID, email: "ada@example.com", display_name: "Ada Lovelace" });
+      expect(userUpdates).toEqual([{ is_admin: true }]);
+      expect(user.is_admin).toBe(true);
+      expect(auditInserts.map((entry) => entry.event_type)).toEqual(["user.provisioned", "user.admin_granted"]);
+    });
+
+    it("revokes mapped access the IdP no longer grants", async () => {
+      const { client, userUpdates, roleDeletes, auditInserts } = createMockSupabase({
+        user: { id: USER_ID, email: "ada@example.com", is_admin: true, deactivated_at: null },
+        hasReviewer: true,
+      });
+      const service = new SsoProvisioningService(client);
+
+      const user = await service.provisionUser(USER_ID, { ...IDENTITY, groups: [] }, MAPPING);
+
+      expect(user.is_admin).toBe(false);
+      expect(userUpdates).toEqual([{ last_seen_at: expect.any(String) }, { is_admin: false }]);
+      expect(roleDeletes).toEqual([USER_ID, "reviewer"]);
+      expect(auditInserts.map((entry) => entry.event_type)).toEqual(["user.admin_revoked", "user.roles_updated"]);
+    });
+
+    it("grants the reviewer role without touching unmapped admin rights", async () => {
+      const { client, roleInserts, userUpdates } = createMockSupabase({
+        user: { id: USER_ID, email: "ada@example.com", is_admin: true, deactivated_at: null },
+      });
+      const service = new SsoProvisioningService(client);
+
+      await service.provisionUser(
+        USER_ID,
+        { ...IDENTITY, groups: ["reviewers"] },
+        { adminGroups: [], reviewerGroups: ["reviewers"] }
+      );
+
+      expect(roleInserts).toEqual([{ user_id: USER_ID, role: "reviewer", categories: null, granted_by: null }]);
+      expect(userUpdates).toHaveLength(1);
+    });
+
+    it("rejects deactivated accounts", async () => {
+      const { client, userUpdates } = createMockSupabase({
+        user: { id: USER_ID, email: "ada@example.com", is_admin: false, deactivated_at: "2025-11-20T00:00:00Z" },
+      });
+      const service = new SsoProvisioningService(client);
+
+      await expect(service.provisionUser(USER_ID, IDENTITY, MAPPING)).rejects.toThrow("USER_DEACTIVATED");
+      expect(userUpdates).toHaveLength(0);
+    });
+  });
+});
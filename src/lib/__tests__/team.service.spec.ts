@@ -0,0 +1,218 @@
+import { describe, it, expect } from "vitest";
+import { TeamService, resolveCurrentPosition } from "../team.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const LEAD_ID = "550e8400-e29b-41d4-a716-446655440201";
+const ALICE_ID = "550e8400-e29b-41d4-a716-446655440202";
+const BOB_ID = "550e8400-e29b-41d4-a716-446655440203";
+const CAROL_ID = "550e8400-e29b-41d4-a716-446655440204";
+const OUTSIDER_ID = "550e8400-e29b-41d4-a716-446655440205";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Creates a mock Supabase client for TeamService.
+ * Query chains apply their in/is/eq filters to the fixture rows of the table,
+ * so the hierarchy is walked against real data.
+ */
+function createMockSupabase(fixtures: Record<string, Row[]>) {
+  const client = {
+    from(table: string) {
+      return {
+        select: () => {
+          let rows = fixtures[table] ?? [];
+          const chain = {
+            in: (column: string, values: unknown[]) => {
+              rows = rows.filter((row) => values.includes(row[column]));
+              return chain;
+            },
+            is: (column: string, value: unknown) => {
+              rows = rows.filter((row) => row[column] === value);
+              return chain;
+            },
+            eq: (column: string, value: unknown) => {
+              rows = rows.filter((row) => row[column] === value);
+              return chain;
+            },
+            lte: () => chain,
+            order: () => chain,
+            limit: () => chain,
+            then: (resolve: (value: unknown) => void) => resolve({ data: rows, error: null }),
+          };
+          return chain;
+        },
+      };
+    },
+  };
+
+  return client as unknown as SupabaseClient;
+}
+
+const user = (id: string, name: string, managerId: string | null, deactivatedAt: string | null = null): Row => ({
+  id,
+  display_name: name,
+  email: `${name.toLowerCase()}@example.com`,
+  team: "Platform",
+  manager_id: managerId,
+  deactivated_at: deactivatedAt,
+});
+
+const users = [
+  user(LEAD_ID, "Lead", null),
+  user(ALICE_ID, "Alice", LEAD_ID),
+  user(BOB_ID, "Bob", ALICE_ID),
+  user(CAROL_ID, "Carol", LEAD_ID, "2025-01-01T00:00:00Z"),
+  user(OUTSIDER_ID, "Outsider", null),
+];
+
+describe("TeamService.getReportIds", () => {
+  it("returns direct and indirect reports", async () => {
+    const service = new TeamService(createMockSupabase({ users }));
+
+    const reportIds = await service.getReportIds(LEAD_ID);
+
+    expect(reportIds.sort()).toEqual([ALICE_ID, BOB_ID, CAROL_ID].sort());
+  });
+
+  it("checks whether a user is in the reporting chain", async () => {
+    const service = new TeamService(createMockSupabase({ users }));
+
+    expect(await service.isManagerOf(LEAD_ID, BOB_ID)).toBe(true);
+    expect(await service.isManagerOf(BOB_ID, LEAD_ID)).toBe(false);
+    expect(await service.isManagerOf(LEAD_ID, LEAD_ID)).toBe(false);
+    expect(await service.isManagerOf(LEAD_ID, OUTSIDER_ID)).toBe(false);
+  });
+});
+
+describe("TeamService.getTeamProgress", () => {
+  it("returns an empty list for users without reports", async () => {
+    const service = new TeamService(createMockSupabase({ users }));
+
+    expect(await service.getTeamProgress(OUTSIDER_ID)).toEqual([]);
+  });
+
+  it("evaluates active reports against their next position level", async () => {
+    const service = new TeamService(
+      createMockSupabase({
+        users,
+        badge_applications: [
+          {
+            applicant_id: ALICE_ID,
+            status: "accepted",
+            catalog_badge: { category: "technical", level: "silver" },
+            promotion_badges: [],
+          },
+          {
+            applicant_id: ALICE_ID,
+            status: "used_in_promotion",
+            catalog_badge: { category: "technical", level: "silver" },
+            promotion_badges: [{ consumed: true }],
+          },
+          {
+            applicant_id: ALICE_ID,
+            status: "submitted",
+            catalog_badge: { category: "organizational", level: "gold" },
+            promotion_badges: [],
+          },
+        ],
+        promotions: [
+          {
+            created_by: ALICE_ID,
+            status: "approved",
+            path: "technical",
+            from_level: "J1",
+            to_level: "J2",
+            approved_at: "2024-06-01T00:00:00Z",
+            created_at: "2024-05-01T00:00:00Z",
+          },
+        ],
+      })
+    );
+
+    const members = await service.getTeamProgress(LEAD_ID);
+
+    expect(members.map((member) => member.user.id)).toEqual([ALICE_ID, BOB_ID]);
+
+    const [alice, bob] = members;
+    expect(alice.path).toBe("technical");
+    expect(alice.current_level).toBe("J2");
+    expect(alice.next_level).toBe("S1");
+    expect(alice.accepted_badge_count).toBe(1);
+    expect(alice.pending_application_count).toBe(1);
+    // The consumed silver badge no longer counts
+    expect(alice.requirements).toEqual([
+      { category: "technical", level: "silver", required: 4, current: 1, satisfied: false },
+      { category: "organizational", level: "bronze", required: 2, current: 0, satisfied: false },
+    ]);
+
+    expect(bob.path).toBeNull();
+    expect(bob.requirements).toEqual([]);
+  });
+
+  it("prefers the recorded position over promotion history", async () => {
+    const service = new TeamService(
+      createMockSupabase({
+        users: users.map((row) =>
+          row.id === ALICE_ID ? { ...row, current_path: "technical", current_level: "S1" } : row
+        ),
+        badge_applications: [],
+        promotions: [
+          {
+            created_by: ALICE_ID,
+            status: "approved",
+            path: "technical",
+            from_level: "J1",
+            to_level: "J2",
+            approved_at: "2024-06-01T00:00:00Z",
+            created_at: "2024-05-01T00:00:00Z",
+          },
+        ],
+      })
+    );
+
+    const [alice] = await service.getTeamProgress(LEAD_ID);
+
+    expect(alice.current_level).toBe("S1");
+    expect(alice.next_level).toBe("S2");
+  });
+});
+
+describe("resolveCurrentPosition", () => {
+  it("prefers the latest approved promotion over open ones", () => {
+    const position = resolveCurrentPosition([
+      {
+        status: "approved",
+        path: "technical",
+        from_level: "J1",
+        to_level: "J2",
+        approved_at: "2024-01-01T00:00:00Z",
+        created_at: "2023-12-01T00:00:00Z",
+      },
+      {
+        status: "draft",
+        path: "technical",
+        from_level: "J2",
+        to_level: "J3",
+        approved_at: null,
+        created_at: "2024-06-01T00:00:00Z",
+      },
+    ]);
+
+    expect(position).toEqual({ path: "technical", level: "J2" });
+  });
+
+  it("falls back to the starting level of an open promotion", () => {
+    const position = resolveCurrentPosition([
+      {
+        status: "submitted",
+        path: "management",
+        from_level: "M1",
+        to_level: "M2",
+        approved_at: null,
+        created_at: "2024-06-01T00:00:00Z",
+      },
+    ]);
+
+    expect(position).toEqual({ path: "management", level: "M1" });
+  });
+});
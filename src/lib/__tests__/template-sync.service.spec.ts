@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { TemplateSyncService } from "../template-sync.service";
+import { PromotionTemplateService } from "../promotion-template.service";
+import type { PromotionTemplateDto } from "@/types";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Creates a mock Supabase client whose promotion_templates query returns the given rows;
+ * no career ladder version is recorded, so the bundled ladder applies
+ */
+function createMockSupabase(templates: Row[]) {
+  const client = {
+    from: (table: string) => ({
+      select: () =>
+        table === "career_ladder_versions"
+          ? { lte: () => ({ order: () => ({ order: () => ({ limit: async () => ({ data: [], error: null }) }) }) }) }
+          : { order: async () => ({ data: templates, error: null }) },
+    }),
+  };
+
+  return client as unknown as SupabaseClient;
+}
+
+const template = (id: string, overrides: Row = {}): Row => ({
+  id,
+  name: `Template ${id}`,
+  path: "technical",
+  from_level: "J1",
+  to_level: "J2",
+  rules: [{ category: "technical", level: "bronze", count: 3 }],
+  rules_version: 2,
+  is_active: true,
+  ...overrides,
+});
+
+// Every ladder level with a next level: technical 4, financial 3, management 2
+const LADDER_STEPS = 9;
+
+describe("TemplateSyncService.syncFromLadder", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("plans creates, updates and deactivations without writing on dry run", async () => {
+    const create = vi.spyOn(PromotionTemplateService.prototype, "createPromotionTemplate");
+    const service = new TemplateSyncService(
+      createMockSupabase([
+        // Matches the ladder
+        template("j1"),
+        // Rules differ from the ladder
+        template("j2", { from_level: "J2", to_level: "S1", rules: [{ category: "any", level: "silver", count: 1 }] }),
+        // Inactive but otherwise matching
+        template("m1", {
+          path: "management",
+          from_level: "M1",
+          to_level: "M2",
+          rules: [{ category: "organizational", level: "bronze", count: 3 }],
+          is_active: false,
+        }),
+        // Level the ladder doesn't promote from
+        template("s3", { from_level: "S3", to_level: "S4" }),
+        // Second active template for J1
+        template("j1-copy"),
+      ])
+    );
+
+    const result = await service.syncFromLadder({ dryRun: true, actorId: "admin-1" });
+    const byId = new Map(result.changes.map((change) => [change.template_id, change]));
+
+    expect(result.applied).toBe(false);
+    expect(byId.get("j1")?.action).toBe("unchanged");
+    expect(byId.get("j2")).toMatchObject({ action: "update", reasons: ["Rules differ from the ladder"] });
+    expect(byId.get("s3")?.action).toBe("deactivate");
+    expect(byId.get("j1-copy")?.action).toBe("deactivate");
+    expect(result.summary.create).toBe(LADDER_STEPS - 3);
+    expect(result.changes.filter((change) => change.action === "create")[0]).toMatchObject({
+      name: "Technical S1 → S2",
+      template_id: null,
+    });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("applies the planned changes through PromotionTemplateService", async () => {
+    const create = vi
+      .spyOn(PromotionTemplateService.prototype, "createPromotionTemplate")
+      .mockImplementation(async (command) => ({ id: `new-${command.from_level}` }) as PromotionTemplateDto);
+    const update = vi
+      .spyOn(PromotionTemplateService.prototype, "updatePromotionTemplate")
+      .mockResolvedValue({} as PromotionTemplateDto);
+    const deactivate = vi
+      .spyOn(PromotionTemplateService.prototype, "deactivatePromotionTemplate")
+      .mockResolvedValue({} as PromotionTemplateDto);
+
+    const service = new TemplateSyncService(
+      createMockSupabase([
+        template("j1", { to_level: "S1" }),
+        template("old", { path: "financial", from_level: "X1", to_level: "X2" }),
+      ])
+    );
+
+    const result = await service.syncFromLadder({ dryRun: false, actorId: "admin-1" });
+
+    expect(result.applied).toBe(true);
+    expect(update).toHaveBeenCalledWith(
+      "j1",
+      { to_level: "J2", rules: [{ category: "technical", level: "bronze", count: 3 }], is_active: true },
+      "admin-1"
+    );
+    expect(deactivate).toHaveBeenCalledWith("old", "admin-1");
+    expect(create).toHaveBeenCalledTimes(LADDER_STEPS - 1);
+    expect(result.changes.find((change) => change.action === "create")?.template_id).toMatch(/^new-/);
+  });
+});
+
+describe("TemplateSyncService.checkConsistency", () => {
+  it("flags active templates that disagree with the ladder", async () => {
+    const service = new TemplateSyncService(
+      createMockSupabase([
+        template("ok"),
+        template("unknown-level", { from_level: "J9", to_level: "J2" }),
+        template("unknown-path", { path: "research" }),
+        template("wrong-next", { to_level: "S1" }),
+        template("wrong-rules", { rules: [{ category: "technical", level: "bronze", count: 1 }] }),
+        template("inactive", { from_level: "J9", is_active: false }),
+      ])
+    );
+
+    const report = await service.checkConsistency();
+
+    expect(report.checked).toBe(5);
+    expect(report.consistent).toBe(false);
+    expect(report.issues.map((issue) => `${issue.template_id}:${issue.code}`)).toEqual([
+      "unknown-level:unknown_from_level",
+      "unknown-path:unknown_path",
+      "wrong-next:to_level_mismatch",
+      "wrong-rules:rules_mismatch",
+    ]);
+  });
+
+  it("reports consistent templates", async () => {
+    const service = new TemplateSyncService(createMockSupabase([template("ok")]));
+
+    expect(await service.checkConsistency()).toEqual({ checked: 1, consistent: true, issues: [] });
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, it, expect } from "vitest";
+import { UserService } from "../user.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const ADMIN_ID = "11111111-1111-4111-8111-111111111111";
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+
+/**
+ * Creates a mock Supabase client for the user management methods.
+ * Records update payloads, role changes, audit inserts, error logs and RPC calls; updates are merged into the
+ * stored user. rpcError makes every RPC call fail.
+ */
+function createMockSupabase(user: Record<string, unknown> | null, rpcError: string | null = null) {
+  const updates: Record<string, unknown>[] = [];
+  const auditInserts: Record<string, unknown>[] = [];
+  const roleDeletes: string[] = [];
+  const roleInserts: Record<string, unknown>[] = [];
+  const rpcCalls: { fn: string; args: Record<string, unknown> }[] = [];
+  const errorLogs: Record<string, unknown>[] = [];
+
+  const client = {
+    async rpc(fn: string, args: Record<string, unknown>) {
+      rpcCalls.push({ fn, args });
+      return rpcError ? { data: null, error: { message: rpcError } } : { data: 2, error: null };
+    },
+    from(table: string) {
+      if (table === "user_roles") {
+        return {
+          delete() {
+            return {
+              async eq(_column: string, value: string) {
+                roleDeletes.push(value);
+                return { error: null };
+              },
+            };
+          },
+          async insert(rows: Record<string, unknown>[]) {
+            roleInserts.push(...rows);
+            return { error: null };
+          },
+        };
+      }
+
+      if (table === "error_logs") {
+        return {
+          async insert(payload: Record<string, unknown>) {
+            errorLogs.push(payload);
+            return { error: null };
+          },
+        };
+      }
+
+      if (table === "audit_logs") {
+        return {
+          async insert(payload: Record<string, unknown>) {
+            auditInserts.push(payload);
+            return { error: null };
+          },
+        };
+      }
+
+      return {
+        select() {
+          return {
+            eq() {
+              return {
+                async single() {
+                  return user ? { data: user, error: null } : { data: null, error: { code: "PGRST116" } };
+                },
+              };
+            },
+          };
+        },
+        update(payload: Record<string, unknown>) {
+          updates.push(payload);
+          return {
+            eq() {
+              return {
+                select() {
+                  return {
+                    async single() {
+                      return { data: { ...user, ...payload }, error: null };
+                    },
+                  };
+                },
+              };
+            },
+          };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, updates, auditInserts, roleDeletes, roleInserts, rpcCalls, errorLogs };
+}
+
+function createUser(overrides: Record<string, unknown> = {}) {
+  return {
+    id: USER_ID,
+    email: "dev@example.com",
+    display_name: "dev",
+    is_admin: false,
+    created_at: "2025-11-01T00:00:00Z",
+    last_seen_at: null,
+    deactivated_at: null,
+    deactivated_by: null,
+    ...overrides,
+  };
+}
+
+describe("UserService", () => {
+  describe("setAdmin", () => {
+    it("grants admin rights and writes an audit entry", async () => {
+      const { client, updates, auditInserts } = createMockSupabase(createUser());
+      const service = new UserService(client);
+
+      const result = await service.setAdmin(USER_ID, true, ADMIN_ID);
+
+      expect(result?.is_admin).toBe(true);
+      expect(updates).toEqual([{ is_admin: true }]);
+      expect(auditInserts).toEqual([
+        expect.objectContaining({ event_type: "user.admin_granted", actor_id: ADMIN_ID, resource_id: USER_ID }),
+      ]);
+    });
+
+    it("rejects changing your own admin rights", async () => {
+      const { client } = createMockSupabase(createUser({ id: ADMIN_ID, is_admin: true }));
+      const service = new UserService(client);
+
+      await expect(service.setAdmin(ADMIN_ID, false, ADMIN_ID)).rejects.toThrow("CANNOT_CHANGE_OWN_ADMIN");
+    });
+
+    it("rejects granting admin rights to a deactivated account", async () => {
+      const { client, updates } = createMockSupabase(createUser({ deactivated_at: "2025-11-10T00:00:00Z" }));
+      const service = new UserService(client);
+
+      await expect(service.setAdmin(USER_ID, true, ADMIN_ID)).rejects.toThrow("USER_DEACTIVATED");
+      expect(updates).toHaveLength(0);
+    });
+
+    it("is a no-op when the flag is unchanged", async () => {
+      const { client, updates, auditInserts } = createMockSupabase(createUser({ is_admin: true }));
+      const service = new UserService(client);
+
+      await service.setAdmin(USER_ID, true, ADMIN_ID);
+
+      expect(updates).toHaveLength(0);
+      expect(auditInserts).toHaveLength(0);
+    });
+
+    it("returns null when the user does not exist", async () => {
+      const { client } = createMockSupabase(null);
+      const service = new UserService(client);
+
+      expect(await service.setAdmin(USER_ID, true, ADMIN_ID)).toBeNull();
+    });
+  });
+
+  describe("deactivateUser", () => {
+    it("records who deactivated the account", async () => {
+      const { client, updates, auditInserts } = createMockSupabase(createUser());
+      const service = new UserService(client);
+
+      const result = await service.deactivateUser(USER_ID, ADMIN_ID);
+
+      expect(result?.deactivated_at).toEqual(expect.any(String));
+      expect(updates[0]).toMatchObject({ deactivated_by: ADMIN_ID });
+      expect(auditInserts[0]).toMatchObject({ event_type: "user.deactivated", resource_type: "user" });
+    });
+
+    it("signs the user out of every session", async () => {
+      const { client, auditInserts, rpcCalls } = createMockSupabase(createUser());
+      const service = new UserService(client);
+
+      await service.deactivateUser(USER_ID, ADMIN_ID);
+
+      expect(rpcCalls).toEqual([{ fn: "revoke_user_sessions", args: { target: USER_ID } }]);
+      expect(auditInserts[1]).toMatchObject({ event_type: "user.sessions_revoked", payload: { revoked: 2 } });
+    });
+
+    it("keeps the deactivation and warns when the sessions cannot be revoked", async () => {
+      const { client, updates, auditInserts, errorLogs } = createMockSupabase(createUser(), "connection reset");
+      const service = new UserService(client);
+
+      const result = await service.deactivateUser(USER_ID, ADMIN_ID);
+
+      expect(result?.deactivated_at).toEqual(expect.any(String));
+      expect(result?.warning).toBe("Account deactivated, but its sessions could not be revoked");
+      expect(updates).toHaveLength(1);
+      expect(auditInserts.map((entry) => entry.event_type)).toEqual(["user.deactivated"]);
+      expect(errorLogs[0]).toMatchObject({
+        error_code: "session_revocation_failed",
+        payload: { user_id: USER_ID },
+        requester_id: ADMIN_ID,
+      });
+    });
+
+    it("rejects deactivating yourself", async () => {
+      const { client } = createMockSupabase(createUser({ id: ADMIN_ID }));
+      const service = new UserService(client);
+
+      await expect(service.deactivateUser(ADMIN_ID, ADMIN_ID)).rejects.toThrow("CANNOT_DEACTIVATE_SELF");
+    });
+
+    it("rejects an already deactivated account", async () => {
+      const { client } = createMockSupabase(createUser({ deactivated_at: "2025-11-10T00:00:00Z" }));
+      const service = new UserService(client);
+
+      await expect(service.deactivateUser(USER_ID, ADMIN_ID)).rejects.toThrow("USER_ALREADY_DEACTIVATED");
+    });
+  });
+
+  describe("reactivateUser", () => {
+    it("clears the deactivation fields", async () => {
+      const { client, updates, auditInserts } = createMockSupabase(
+        createUser({ deactivated_at: "2025-11-10T00:00:00Z", deactivated_by: ADMIN_ID })
+      );
+      const service = new UserService(client);
+
+      const result = await service.reactivateUser(USER_ID, ADMIN_ID);
+
+      expect(result?.deactivated_at).toBeNull();
+      expect(updates).toEqual([{ deactivated_at: null, deactivated_by: null }]);
+      expect(auditInserts[0]).toMatchObject({ event_type: "user.reactivated" });
+    });
+
+    it("rejects an active account", async () => {
+      const { client } = createMockSupabase(createUser());
+      const service = new UserService(client);
+
+      await expect(service.reactivateUser(USER_ID, ADMIN_ID)).rejects.toThrow("USER_NOT_DEACTIVATED");
+    });
+  });
+
+  describe("setRoles", () => {
+    it("replaces the roles and writes an audit entry", async () => {
+      const { client, auditInserts, roleDeletes, roleInserts } = createMockSupabase(
+        createUser({ roles: [{ role: "promotion_approver", categories: null }] })
+      );
+      const service = new UserService(client);
+
+      const result = await service.setRoles(
+        USER_ID,
+        {
+          roles: [
+            { role: "reviewer", categories: ["technical", "organizational", "technical"] },
+            { role: "catalog_manager" },
+          ],
+        },
+        ADMIN_ID
+      );
+
+      expect(roleDeletes).toEqual([USER_ID]);
+      expect(roleInserts).toEqual([
+        { role: "reviewer", categories: ["organizational", "technical"], user_id: USER_ID, granted_by: ADMIN_ID },
+        { role: "catalog_manager", categories: null, user_id: USER_ID, granted_by: ADMIN_ID },
+      ]);
+      expect(result?.roles).toEqual([
+        { role: "reviewer", categories: ["organizational", "technical"] },
+        { role: "catalog_manager", categories: null },
+      ]);
+      expect(auditInserts[0]).toMatchObject({
+        event_type: "user.roles_updated",
+        resource_id: USER_ID,
+        payload: { previous_roles: [{ role: "promotion_approver", categories: null }] },
+      });
+    });
+
+    it("revokes all roles without inserting", async () => {
+      const { client, roleDeletes, roleInserts } = createMockSupabase(createUser());
+      const service = new UserService(client);
+
+      const result = await service.setRoles(USER_ID, { roles: [] }, ADMIN_ID);
+
+      expect(roleDeletes).toEqual([USER_ID]);
+      expect(roleInserts).toEqual([]);
+      expect(result?.roles).toEqual([]);
+    });
+
+    it("rejects granting roles to a deactivated account", async () => {
+      const { client, roleDeletes } = createMockSupabase(createUser({ deactivated_at: "2025-11-10T00:00:00Z" }));
+      const service = new UserService(client);
+
+      await expect(service.setRoles(USER_ID, { roles: [{ role: "reviewer" }] }, ADMIN_ID)).rejects.toThrow(
+        "USER_DEACTIVATED"
+      );
+      expect(roleDeletes).toEqual([]);
+    });
+
+    it("returns null for an unknown user", async () => {
+      const { client } = createMockSupabase(null);
+      const service = new UserService(client);
+
+      expect(await service.setRoles(USER_ID, { roles: [] }, ADMIN_ID)).toBeNull();
+    });
+  });
+});
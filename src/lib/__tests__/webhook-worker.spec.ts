@@ -0,0 +1,251 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  CLAIM_LEASE_SECONDS,
+  MAX_DELIVERY_ATTEMPTS,
+  WebhookWorker,
+  getRetryDelaySeconds,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type QueuedWebhookDelivery,
+} from "../webhook-worker";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const SECRET = "whsec_test";
+const DELIVERY_ID = "55555555-5555-4555-8555-555555555555";
+
+/**
+ * Starts a local HTTP receiver on a random port.
+ * Records each request's headers and body and answers with `status`.
+ */
+async function startReceiver(status = 200) {
+  const requests: { headers: IncomingHttpHeaders; body: string }[] = [];
+
+  const server: Server = createServer((request, response) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => (body += chunk));
+    request.on("end", () => {
+      requests.push({ headers: request.headers, body });
+      response.writeHead(status, { "Content-Type": "text/plain" });
+      response.end(status < 300 ? "ok" : "receiver error");
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { server, url: `http://127.0.0.1:${port}/hooks`, requests };
+}
+
+function createDelivery(url: string, overrides: Partial<QueuedWebhookDelivery> = {}): QueuedWebhookDelivery {
+  return {
+    id: DELIVERY_ID,
+    subscription_id: "66666666-6666-4666-8666-666666666666",
+    event_type: "promotion.approved",
+    audit_log_id: null,
+    payload: { resource_type: "promotion", resource_id: "p-1", details: { user_id: "u-1" } },
+    status: "pending",
+    attempts: 0,
+    next_attempt_at: "2025-11-30T10:00:00Z",
+    last_attempt_at: null,
+    response_status: null,
+    response_body: null,
+    last_error: null,
+    redelivery_of: null,
+    created_at: "2025-11-30T10:00:00Z",
+    delivered_at: null,
+    subscription: { url, secret: SECRET, is_active: true },
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a mock Supabase client for WebhookWorker.
+ * Serves `pending` as the deliveries claimed by claim_webhook_deliveries and records rpc calls
+ * and delivery updates.
+ */
+function createMockSupabase(pending: QueuedWebhookDelivery[] = []) {
+  const updates: Record<string, unknown>[] = [];
+  const rpcCalls: { fn: string; args: Record<string, unknown>; columns?: string }[] = [];
+
+  const client = {
+    rpc(fn: string, args: Record<string, unknown>) {
+      const call: (typeof rpcCalls)[number] = { fn, args };
+      rpcCalls.push(call);
+      return {
+        async select(columns: string) {
+          call.columns = columns;
+          return { data: pending, error: null };
+        },
+      };
+    },
+    from() {
+      return {
+        update(payload: Record<string, unknown>) {
+          updates.push(payload);
+          return {
+            eq: () => ({
+              select: () => ({ single: async () => ({ data: { id: DELIVERY_ID, ...payload }, error: null }) }),
+            }),
+          };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, updates, rpcCalls };
+}
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body so receivers can verify them", async () => {
+    const now = Date.parse("2025-11-30T10:00:00Z");
+    const header = await signWebhookPayload(SECRET, '{"a":1}', now / 1000);
+
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(await verifyWebhookSignature(SECRET, '{"a":1}', header, now)).toBe(true);
+    expect(await verifyWebhookSignature(SECRET, '{"a":2}', header, now)).toBe(false);
+    expect(await verifyWebhookSignature("whsec_other", '{"a":1}', header, now)).toBe(false);
+    expect(await verifyWebhookSignature(SECRET, '{"a":1}', header, now + 10 * 60 * 1000)).toBe(false);
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  it("rejects malformed and truncated signatures", async () => {
+    const now = Date.parse("2025-11-30T10:00:00Z");
+    const header = await signWebhookPayload(SECRET, '{"a":1}', now / 1000);
+    const [timestamp, signature] = header.split(",");
+
+    expect(await verifyWebhookSignature(SECRET, '{"a":1}', `${timestamp},${signature.slice(0, -2)}`, now)).toBe(false);
+    expect(await verifyWebhookSignature(SECRET, '{"a":1}', `${timestamp},v1=not-hex`, now)).toBe(false);
+    expect(
+      await verifyWebhookSignature(SECRET, '{"a":1}', `${timestamp},v1=${signature.slice(3).toUpperCase()}`, now)
+    ).toBe(true);
+    expect(await verifyWebhookSignature(SECRET, '{"a":1}', null, now)).toBe(false);
+  });
+});
+
+describe("getRetryDelaySeconds", () => {
+  it("doubles the delay after each failed attempt up to six hours", () => {
+    expect([1, 2, 3, 4].map(getRetryDelaySeconds)).toEqual([30, 60, 120, 240]);
+    expect(getRetryDelaySeconds(20)).toBe(6 * 60 * 60);
+  });
+});
+
+describe("WebhookWorker", () => {
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  it("posts the signed payload to the receiver and marks the delivery succeeded", async () => {
+    const receiver = await startReceiver();
+    server = receiver.server;
+    const { client, updates } = createMockSupabase();
+
+    const sent = await new WebhookWorker(client).deliver(createDelivery(receiver.url));
+
+    expect(sent.status).toBe("succeeded");
+    expect(receiver.requests).toHaveLength(1);
+
+    const { headers, body } = receiver.requests[0];
+    expect(JSON.parse(body)).toEqual({
+      id: DELIVERY_ID,
+      event: "promotion.approved",
+      created_at: "2025-11-30T10:00:00Z",
+      data: { resource_type: "promotion", resource_id: "p-1", details: { user_id: "u-1" } },
+    });
+    expect(headers["x-badger-event"]).toBe("promotion.approved");
+    expect(headers["x-badger-delivery"]).toBe(DELIVERY_ID);
+    expect(await verifyWebhookSignature(SECRET, body, headers["x-badger-signature"] as string)).toBe(true);
+    expect(updates[0]).toMatchObject({
+      status: "succeeded",
+      attempts: 1,
+      response_status: 200,
+      response_body: "ok",
+      last_error: null,
+      delivered_at: expect.any(String),
+    });
+  });
+
+  it("reschedules a failed delivery with backoff", async () => {
+    const receiver = await startReceiver(500);
+    server = receiver.server;
+    const { client, updates } = createMockSupabase();
+
+    const sent = await new WebhookWorker(client).deliver(createDelivery(receiver.url, { attempts: 2 }));
+
+    expect(sent.status).toBe("pending");
+    const update = updates[0] as { attempts: number; last_attempt_at: string; next_attempt_at: string };
+    expect(update).toMatchObject({ attempts: 3, response_status: 500, last_error: "Receiver answered with HTTP 500" });
+    expect(Date.parse(update.next_attempt_at) - Date.parse(update.last_attempt_at)).toBe(120 * 1000);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const receiver = await startReceiver(503);
+    server = receiver.server;
+    const { client } = createMockSupabase();
+
+    const sent = await new WebhookWorker(client).deliver(
+      createDelivery(receiver.url, { attempts: MAX_DELIVERY_ATTEMPTS - 1 })
+    );
+
+    expect(sent.status).toBe("failed");
+  });
+
+  it("records unreachable receivers as errors", async () => {
+    const { client, updates } = createMockSupabase();
+
+    const sent = await new WebhookWorker(client).deliver(createDelivery("http://127.0.0.1:1/hooks"));
+
+    expect(sent.status).toBe("pending");
+    expect(updates[0]).toMatchObject({ response_status: null, last_error: expect.any(String) });
+  });
+
+  it("fails deliveries of disabled subscriptions without sending them", async () => {
+    const receiver = await startReceiver();
+    server = receiver.server;
+    const { client } = createMockSupabase();
+
+    const sent = await new WebhookWorker(client).deliver(
+      createDelivery(receiver.url, { subscription: { url: receiver.url, secret: SECRET, is_active: false } })
+    );
+
+    expect(sent.status).toBe("failed");
+    expect(receiver.requests).toHaveLength(0);
+  });
+
+  it("claims the due deliveries and counts the outcome of each", async () => {
+    const receiver = await startReceiver();
+    server = receiver.server;
+    const { client, rpcCalls } = createMockSupabase([
+      createDelivery(receiver.url, { status: "sending" }),
+      createDelivery(receiver.url, { status: "sending", subscription: null }),
+    ]);
+
+    const result = await new WebhookWorker(client).processPendingDeliveries(20);
+
+    expect(rpcCalls).toEqual([
+      {
+        fn: "claim_webhook_deliveries",
+        args: { p_limit: 20, p_lease_seconds: CLAIM_LEASE_SECONDS },
+        columns: expect.stringContaining("subscription:webhook_subscriptions"),
+      },
+    ]);
+    expect(result).toEqual({ delivered: 1, retried: 0, failed: 1 });
+    expect(receiver.requests).toHaveLength(1);
+  });
+
+  it("releases a claimed delivery for its retry", async () => {
+    const receiver = await startReceiver(502);
+    server = receiver.server;
+    const { client, updates } = createMockSupabase();
+
+    await new WebhookWorker(client).deliver(createDelivery(receiver.url, { status: "sending" }));
+
+    expect(updates[0]).toMatchObject({ status: "pending", attempts: 1 });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import { WebhookService } from "../webhook.service";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const ADMIN_ID = "22222222-2222-4222-8222-222222222222";
+const WEBHOOK_ID = "66666666-6666-4666-8666-666666666666";
+const DELIVERY_ID = "55555555-5555-4555-8555-555555555555";
+
+/**
+ * Creates a mock Supabase client for WebhookService.
+ * Serves `subscription` and `delivery` for single-row lookups and records
+ * subscription inserts/updates, delivery inserts and audit inserts.
+ */
+function createMockSupabase(
+  options: {
+    subscription?: Record<string, unknown> | null;
+    delivery?: Record<string, unknown> | null;
+  } = {}
+) {
+  const { subscription = null, delivery = null } = options;
+  const subscriptionInserts: Record<string, unknown>[] = [];
+  const subscriptionUpdates: Record<string, unknown>[] = [];
+  const deliveryInserts: Record<string, unknown>[] = [];
+  const auditInserts: Record<string, unknown>[] = [];
+
+  const client = {
+    from(table: string) {
+      if (table === "audit_logs") {
+        return {
+          async insert(payload: Record<string, unknown>) {
+            auditInserts.push(payload);
+            return { error: null };
+          },
+        };
+      }
+
+      if (table === "webhook_deliveries") {
+        return {
+          select: () => ({
+            eq: () => ({ maybeSingle: async () => ({ data: delivery, error: null }) }),
+          }),
+          insert(payload: Record<string, unknown>) {
+            deliveryInserts.push(payload);
+            return {
+              select: () => ({ single: async () => ({ data: { id: "new-delivery", ...payload }, error: null }) }),
+            };
+          },
+        };
+      }
+
+      return {
+        select: () => ({
+          eq: () => ({ maybeSingle: async () => ({ data: subscription, error: null }) }),
+        }),
+        insert(payload: Record<string, unknown>) {
+          subscriptionInserts.push(payload);
+          return {
+            select: () => ({ single: async () => ({ data: { id: WEBHOOK_ID, ...payload }, error: null }) }),
+          };
+        },
+        update(payload: Record<string, unknown>) {
+          subscriptionUpdates.push(payload);
+          return {
+            eq: () => ({
+              select: () => ({
+                maybeSingle: async () => ({ data: subscription && { ...subscription, ...payload }, error: null }),
+              }),
+            }),
+          };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, subscriptionInserts, subscriptionUpdates, deliveryInserts, auditInserts };
+}
+
+describe("WebhookService", () => {
+  describe("createSubscription", () => {
+    it("generates a signing secret, returns it once and audits the subscription", async () => {
+      const { client, subscriptionInserts, auditInserts } = createMockSupabase();
+
+      const created = await new WebhookService(client).createSubscription(
+        { url: "https://hr.example.com/hooks", event_types: ["promotion.approved"] },
+        ADMIN_ID
+      );
+
+      expect(created.secret).toMatch(/^whsec_[\w-]{43}$/);
+      expect(subscriptionInserts[0]).toMatchObject({
+        url: "https://hr.example.com/hooks",
+        event_types: ["promotion.approved"],
+        description: null,
+        secret: created.secret,
+        created_by: ADMIN_ID,
+      });
+      expect(auditInserts[0]).toMatchObject({
+        event_type: "webhook.created",
+        resource_type: "webhook",
+        resource_id: WEBHOOK_ID,
+        payload: { url: "https://hr.example.com/hooks", event_types: ["promotion.approved"] },
+      });
+      expect(JSON.stringify(auditInserts)).not.toContain(created.secret);
+    });
+  });
+
+  describe("updateSubscription", () => {
+    it("returns null for unknown subscriptions without auditing", async () => {
+      const { client, auditInserts } = createMockSupabase();
+
+      expect(
+        await new WebhookService(client).updateSubscription(WEBHOOK_ID, { is_active: false }, ADMIN_ID)
+      ).toBeNull();
+      expect(auditInserts).toHaveLength(0);
+    });
+
+    it("audits the changed fields", async () => {
+      const { client, auditInserts } = createMockSupabase({ subscription: { id: WEBHOOK_ID, is_active: true } });
+
+      const updated = await new WebhookService(client).updateSubscription(WEBHOOK_ID, { is_active: false }, ADMIN_ID);
+
+      expect(updated?.is_active).toBe(false);
+      expect(auditInserts[0]).toMatchObject({
+        event_type: "webhook.updated",
+        payload: { changes: { is_active: false } },
+      });
+    });
+  });
+
+  describe("redeliver", () => {
+    it("queues a claimed copy of the payload pointing at the original delivery", async () => {
+      const { client, deliveryInserts } = createMockSupabase({
+        delivery: {
+          id: DELIVERY_ID,
+          subscription_id: WEBHOOK_ID,
+          event_type: "promotion.approved",
+          audit_log_id: "audit-1",
+          payload: { resource_id: "p-1" },
+          redelivery_of: null,
+          subscription: { url: "https://hr.example.com/hooks", secret: "whsec_x", is_active: true },
+        },
+      });
+
+      await new WebhookService(client).redeliver(DELIVERY_ID);
+
+      expect(deliveryInserts).toEqual([
+        {
+          subscription_id: WEBHOOK_ID,
+          event_type: "promotion.approved",
+          audit_log_id: "audit-1",
+          payload: { resource_id: "p-1" },
+          redelivery_of: DELIVERY_ID,
+          status: "sending",
+          next_attempt_at: expect.any(String),
+        },
+      ]);
+      // The claim outlasts the request, so the scheduled worker does not send it as well
+      expect(Date.parse(deliveryInserts[0].next_attempt_at as string)).toBeGreaterThan(Date.now());
+    });
+
+    it("refuses deliveries of disabled subscriptions", async () => {
+      const { client, deliveryInserts } = createMockSupabase({
+        delivery: { id: DELIVERY_ID, subscription: { url: "https://x.test", secret: "s", is_active: false } },
+      });
+
+      await expect(new WebhookService(client).redeliver(DELIVERY_ID)).rejects.toThrow("SUBSCRIPTION_INACTIVE");
+      expect(deliveryInserts).toHaveLength(0);
+    });
+
+    it("returns null for unknown deliveries", async () => {
+      const { client } = createMockSupabase();
+
+      expect(await new WebhookService(client).redeliver(DELIVERY_ID)).toBeNull();
+    });
+  });
+
+  describe("queueTestDelivery", () => {
+    it("queues a ping for the subscription", async () => {
+      const { client, deliveryInserts } = createMockSupabase({ subscription: { id: WEBHOOK_ID, is_active: true } });
+
+      await new WebhookService(client).queueTestDelivery(WEBHOOK_ID);
+
+      expect(deliveryInserts[0]).toMatchObject({ subscription_id: WEBHOOK_ID, event_type: "ping", status: "sending" });
+    });
+  });
+});
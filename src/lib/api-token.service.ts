@@ -0,0 +1,319 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { ApiTokenCreatedResponse, ApiTokenDto, ApiTokenScopeType, CreateApiTokenCommand } from "@/types";
+import { ApiTokenKind, ApiTokenScope, AuditEventType, AuditResourceType, Permission } from "@/types";
+import { logAuditEvent } from "./audit-logger";
+import { hasPermission, loadUserAccess, type UserAccess } from "./auth/permissions";
+
+/**
+ * Prefix of every API token; bearer values without it are not looked up as tokens
+ */
+export const API_TOKEN_PREFIX = "bdg_";
+
+// Characters of the token kept in token_prefix, so users can recognise it in the list
+const DISPLAYED_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 8;
+
+const TOKEN_COLUMNS = `
+  id,
+  user_id,
+  name,
+  kind,
+  scope,
+  token_prefix,
+  expires_at,
+  created_by,
+  created_at,
+  last_used_at,
+  revoked_at,
+  revoked_by,
+  user:users!api_tokens_user_id_fkey (
+    id,
+    display_name,
+    email
+  )
+`;
+
+/**
+ * Token resolved from an Authorization: Bearer header
+ */
+export interface AuthenticatedApiToken {
+  id: string;
+  userId: string;
+  email: string | null;
+  scope: ApiTokenScopeType;
+}
+
+/**
+ * Returns a new random API token (the secret shown to the user once)
+ */
+export function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString("base64url")}`;
+}
+
+/**
+ * Hashes an API token for storage and lookup (SHA-256, hex)
+ */
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Buffer.from(digest).toString("hex");
+}
+
+/**
+ * Checks that a token's owner holds what its scope would grant: admin tokens need an
+ * admin, review tokens a review or promotion approval permission
+ */
+export function canOwnScope(access: UserAccess, scope: ApiTokenScopeType): boolean {
+  switch (scope) {
+    case ApiTokenScope.Admin:
+      return access.isAdmin;
+    case ApiTokenScope.Review:
+      return (
+        hasPermission(access, Permission.ReviewApplications) || hasPermission(access, Permission.ApprovePromotions)
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * Service class for API tokens
+ *
+ * Handles:
+ * - Resolving the token of a bearer request (records the time of use)
+ * - Listing a user's tokens, or every token for admins
+ * - Creating personal tokens, and service tokens for other accounts (admins)
+ * - Revoking tokens (audited)
+ * - Recording each request made with a token in the audit log
+ *
+ * Only the SHA-256 hash of a token is stored. Row level security limits users to
+ * their own tokens; admins see and revoke everyone's.
+ */
+export class ApiTokenService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Resolves a bearer token to its owner and scope
+   *
+   * @returns The token, or null if it is unknown, revoked, expired or its owner is deactivated
+   * @throws Error if the lookup fails
+   */
+  async authenticate(token: string): Promise<AuthenticatedApiToken | null> {
+    if (!token.startsWith(API_TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const { data, error } = await this.supabase.rpc("authenticate_api_token", {
+      p_token_hash: await hashApiToken(token),
+    });
+
+    if (error) {
+      throw new Error(`Failed to authenticate API token: ${error.message}`);
+    }
+
+    const row = data?.[0];
+    if (!row) {
+      return null;
+    }
+
+    return { id: row.id, userId: row.user_id, email: row.email, scope: row.scope as ApiTokenScopeType };
+  }
+
+  /**
+   * Lists API tokens, newest first
+   *
+   * @param userId - Owner whose tokens are listed, or null for every token (admins)
+   * @returns Tokens without their hashes
+   * @throws Error if the query fails
+   */
+  async listTokens(userId: string | null): Promise<ApiTokenDto[]> {
+    let query = this.supabase.from("api_tokens").select(TOKEN_COLUMNS).order("created_at", { ascending: false });
+
+    if (userId) {
+      query = query.eq("user_id", userId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list API tokens: ${error.message}`);
+    }
+
+    return (data ?? []) as unknown as ApiTokenDto[];
+  }
+
+  /**
+   * Creates an API token
+   *
+   * Tokens for the caller are personal; admins may issue service tokens for another
+   * account. The scope must be covered by the owner's roles.
+   *
+   * @param command - Name, scope, lifetime and optional owner
+   * @param actor - Access of the user creating the token
+   * @returns The token with its secret (shown once)
+   * @throws Error with message 'FORBIDDEN' if a non-admin creates a token for someone else
+   * @throws Error with message 'USER_NOT_FOUND' if the owner doesn't exist
+   * @throws Error with message 'USER_DEACTIVATED' if the owner is deactivated
+   * @throws Error with message 'SCOPE_NOT_PERMITTED' if the owner's roles don't cover the scope
+   * @throws Error if the insert fails
+   */
+  async createToken(command: CreateApiTokenCommand, actor: UserAccess): Promise<ApiTokenCreatedResponse> {
+    const ownerId = command.user_id ?? actor.userId;
+    const isService = ownerId !== actor.userId;
+
+    if (isService && !actor.isAdmin) {
+      throw new Error("FORBIDDEN");
+    }
+
+    // =========================================================================
+    // Step 1: Check the Owner and Scope
+    // =========================================================================
+    const { data: owner, error: ownerError } = await this.supabase
+      .from("users")
+      .select("id, deactivated_at")
+      .eq("id", ownerId)
+      .maybeSingle();
+
+    if (ownerError) {
+      throw new Error(`Failed to fetch user: ${ownerError.message}`);
+    }
+
+    if (!owner) {
+      throw new Error("USER_NOT_FOUND");
+    }
+
+    if (owner.deactivated_at) {
+      throw new Error("USER_DEACTIVATED");
+    }
+
+    const ownerAccess = isService ? await loadUserAccess(this.supabase, ownerId) : actor;
+    if (!ownerAccess || !canOwnScope(ownerAccess, command.scope)) {
+      throw new Error("SCOPE_NOT_PERMITTED");
+    }
+
+    // =========================================================================
+    // Step 2: Store the Hashed Token
+    // =========================================================================
+    const token = generateApiToken();
+    const expiresAt = new Date(Date.now() + command.expires_in_days * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await this.supabase
+      .from("api_tokens")
+      .insert({
+        user_id: ownerId,
+        name: command.name,
+        kind: isService ? ApiTokenKind.Service : ApiTokenKind.Personal,
+        scope: command.scope,
+        token_hash: await hashApiToken(token),
+        token_prefix: token.slice(0, DISPLAYED_PREFIX_LENGTH),
+        expires_at: expiresAt,
+        created_by: actor.userId,
+      })
+      .select(TOKEN_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create API token: ${error?.message ?? "no data returned"}`);
+    }
+
+    const created = data as unknown as ApiTokenDto;
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.ApiTokenCreated,
+      actor_id: actor.userId,
+      resource_type: AuditResourceType.ApiToken,
+      resource_id: created.id,
+      payload: {
+        name: created.name,
+        kind: created.kind,
+        scope: created.scope,
+        user_id: ownerId,
+        expires_at: expiresAt,
+      },
+    });
+
+    return { ...created, token };
+  }
+
+  /**
+   * Revokes an API token; it stops working immediately
+   *
+   * Runs through revoke_api_token(), which can only set the revocation; tokens cannot be
+   * updated directly, so a revoked token stays revoked.
+   *
+   * @param id - Token to revoke
+   * @param actorId - User revoking it (the owner or an admin)
+   * @returns The revoked token, or null if it doesn't exist or isn't visible to the actor
+   * @throws Error with message 'TOKEN_ALREADY_REVOKED' if the token was revoked before
+   * @throws Error if the update fails
+   */
+  async revokeToken(id: string, actorId: string): Promise<ApiTokenDto | null> {
+    const { data: existing, error: fetchError } = await this.supabase
+      .from("api_tokens")
+      .select("id, user_id, revoked_at")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch API token: ${fetchError.message}`);
+    }
+
+    if (!existing) {
+      return null;
+    }
+
+    if (existing.revoked_at) {
+      throw new Error("TOKEN_ALREADY_REVOKED");
+    }
+
+    const { data: revoked, error: revokeError } = await this.supabase.rpc("revoke_api_token", { p_token_id: id });
+
+    if (revokeError) {
+      throw new Error(`Failed to revoke API token: ${revokeError.message}`);
+    }
+
+    // Revoked by a concurrent request since it was fetched
+    if (!revoked) {
+      throw new Error("TOKEN_ALREADY_REVOKED");
+    }
+
+    const { data, error } = await this.supabase.from("api_tokens").select(TOKEN_COLUMNS).eq("id", id).single();
+
+    if (error || !data) {
+      throw new Error(`Failed to fetch revoked API token: ${error?.message ?? "no data returned"}`);
+    }
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.ApiTokenRevoked,
+      actor_id: actorId,
+      resource_type: AuditResourceType.ApiToken,
+      resource_id: id,
+      payload: { user_id: existing.user_id },
+    });
+
+    return data as unknown as ApiTokenDto;
+  }
+
+  /**
+   * Records a request made with an API token in the audit log (best-effort)
+   *
+   * @param token - Token that authenticated the request
+   * @param request - Method, path and response status of the request
+   */
+  async recordUse(
+    token: AuthenticatedApiToken,
+    request: { method: string; path: string; status: number; requestId: string }
+  ): Promise<void> {
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.ApiTokenUsed,
+      actor_id: token.userId,
+      resource_type: AuditResourceType.ApiToken,
+      resource_id: token.id,
+      payload: {
+        method: request.method,
+        path: request.path,
+        status: request.status,
+        scope: token.scope,
+        request_id: request.requestId,
+      },
+    });
+  }
+}
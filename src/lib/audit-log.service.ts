@@ -0,0 +1,129 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { AuditLogListItemDto, AuditLogRow, PaginatedResponse, PaginationMetadata, UserSummary } from "@/types";
+import type { ListAuditLogsQuery } from "./validation/audit-log.validation";
+
+/**
+ * Type for audit log query result with joined actor
+ */
+interface AuditLogWithActor extends AuditLogRow {
+  actor: UserSummary | null;
+}
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalizes a date range boundary to an ISO timestamp.
+ * Plain dates expand to the start (from) or end (to) of the day in UTC.
+ */
+export function toTimestamp(value: string, boundary: "start" | "end"): string {
+  if (DATE_ONLY_REGEX.test(value)) {
+    return boundary === "start" ? `${value}T00:00:00.000Z` : `${value}T23:59:59.999Z`;
+  }
+  return new Date(value).toISOString();
+}
+
+/**
+ * Service class for audit log queries
+ *
+ * Handles read access to the audit trail for the admin audit log browser:
+ * - Filtering by actor, event type, resource and date range
+ * - Sorting by creation time and pagination
+ *
+ * Writes go through logAuditEvent() in audit-logger.ts.
+ */
+export class AuditLogService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Lists audit log entries with filtering and pagination
+   *
+   * @param query - Validated query parameters
+   * @returns Paginated response with audit log entries (newest first by default)
+   * @throws Error if database query fails
+   */
+  async listAuditLogs(query: ListAuditLogsQuery): Promise<PaginatedResponse<AuditLogListItemDto>> {
+    let dataQuery = this.supabase.from("audit_logs").select(
+      `
+        *,
+        actor:users!actor_id (
+          id,
+          display_name,
+          email
+        )
+      `
+    );
+    let countQuery = this.supabase.from("audit_logs").select("*", { count: "exact", head: true });
+
+    if (query.actor_id) {
+      dataQuery = dataQuery.eq("actor_id", query.actor_id);
+      countQuery = countQuery.eq("actor_id", query.actor_id);
+    }
+
+    if (query.event_type) {
+      dataQuery = dataQuery.eq("event_type", query.event_type);
+      countQuery = countQuery.eq("event_type", query.event_type);
+    }
+
+    if (query.resource_type) {
+      dataQuery = dataQuery.eq("resource_type", query.resource_type);
+      countQuery = countQuery.eq("resource_type", query.resource_type);
+    }
+
+    if (query.resource_id) {
+      dataQuery = dataQuery.eq("resource_id", query.resource_id);
+      countQuery = countQuery.eq("resource_id", query.resource_id);
+    }
+
+    if (query.from) {
+      const from = toTimestamp(query.from, "start");
+      dataQuery = dataQuery.gte("created_at", from);
+      countQuery = countQuery.gte("created_at", from);
+    }
+
+    if (query.to) {
+      const to = toTimestamp(query.to, "end");
+      dataQuery = dataQuery.lte("created_at", to);
+      countQuery = countQuery.lte("created_at", to);
+    }
+
+    const { count, error: countError } = await countQuery;
+
+    if (countError) {
+      throw new Error(`Failed to count audit logs: ${countError.message}`);
+    }
+
+    dataQuery = dataQuery
+      .order("created_at", { ascending: query.order === "asc" })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    const { data, error: dataError } = await dataQuery;
+
+    if (dataError) {
+      throw new Error(`Failed to fetch audit logs: ${dataError.message}`);
+    }
+
+    const entries: AuditLogListItemDto[] = ((data || []) as unknown as AuditLogWithActor[]).map((entry) => ({
+      id: entry.id,
+      actor_id: entry.actor_id,
+      event_type: entry.event_type,
+      resource_type: entry.resource_type,
+      resource_id: entry.resource_id,
+      payload: entry.payload,
+      created_at: entry.created_at,
+      actor: entry.actor ?? null,
+    }));
+
+    const total = count ?? 0;
+    const pagination: PaginationMetadata = {
+      total,
+      limit: query.limit,
+      offset: query.offset,
+      has_more: query.offset + query.limit < total,
+    };
+
+    return {
+      data: entries,
+      pagination,
+    };
+  }
+}
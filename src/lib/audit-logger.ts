@@ -0,0 +1,69 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { Json } from "@/db/database.types";
+import type { AuditEventTypeType, AuditResourceTypeType } from "@/types";
+
+/**
+ * Audit log entry written by services after a successful state change
+ */
+export interface AuditLogEntry {
+  event_type: AuditEventTypeType;
+  actor_id?: string | null;
+  resource_type?: AuditResourceTypeType;
+  resource_id?: string | null;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Records an entry in the audit_logs table.
+ *
+ * Best-effort: failures are logged to the console and never thrown, so an audit
+ * outage cannot block the business operation that triggered it.
+ */
+export async function logAuditEvent(supabase: SupabaseClient, entry: AuditLogEntry): Promise<void> {
+  try {
+    const { error } = await supabase.from("audit_logs").insert({
+      event_type: entry.event_type,
+      actor_id: entry.actor_id ?? null,
+      resource_type: entry.resource_type ?? null,
+      resource_id: entry.resource_id ?? null,
+      payload: (entry.payload ?? {}) as Json,
+    });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to write audit log for ${entry.event_type}:`, error);
+    }
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to write audit log for ${entry.event_type}:`, e);
+  }
+}
+
+/**
+ * Records several audit entries with a single insert (used by bulk imports).
+ *
+ * Best-effort like logAuditEvent: failures are logged to the console and never thrown.
+ */
+export async function logAuditEvents(supabase: SupabaseClient, entries: AuditLogEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    const { error } = await supabase.from("audit_logs").insert(
+      entries.map((entry) => ({
+        event_type: entry.event_type,
+        actor_id: entry.actor_id ?? null,
+        resource_type: entry.resource_type ?? null,
+        resource_id: entry.resource_id ?? null,
+        payload: (entry.payload ?? {}) as Json,
+      }))
+    );
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to write ${entries.length} audit log entries:`, error);
+    }
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to write ${entries.length} audit log entries:`, e);
+  }
+}
@@ -0,0 +1,68 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+
+/**
+ * Limits of an auth request type (e.g. password reset emails)
+ * - perEmail / perIp: requests allowed within the window
+ * - windowMinutes: length of the sliding window
+ */
+export interface AuthRateLimit {
+  perEmail: number;
+  perIp: number;
+  windowMinutes: number;
+}
+
+/**
+ * Password reset emails: 3 per address and 10 per IP address per hour
+ */
+export const PASSWORD_RESET_RATE_LIMIT: AuthRateLimit = { perEmail: 3, perIp: 10, windowMinutes: 60 };
+
+/**
+ * Checks whether an auth request exceeds its rate limit
+ *
+ * Counts the auth_events recorded with the same method for the email address and for
+ * the IP address within the window; routes record each accepted request with
+ * logAuthSuccess(null, method, { email }). Requests without a known IP are only
+ * limited per email.
+ *
+ * @param supabase - Service role client (auth_events are only readable by admins)
+ * @returns True if the request must be refused
+ * @throws Error if counting fails
+ */
+export async function isAuthRequestRateLimited(
+  supabase: SupabaseClient,
+  method: string,
+  request: { email: string; ip: string | null },
+  limit: AuthRateLimit
+): Promise<boolean> {
+  const since = new Date(Date.now() - limit.windowMinutes * 60 * 1000).toISOString();
+
+  const { count: emailCount, error: emailError } = await supabase
+    .from("auth_events")
+    .select("*", { count: "exact", head: true })
+    .eq("method", method)
+    .eq("email", request.email)
+    .gte("created_at", since);
+
+  if (emailError) {
+    throw new Error(`Failed to count auth events: ${emailError.message}`);
+  }
+  if ((emailCount ?? 0) >= limit.perEmail) {
+    return true;
+  }
+
+  if (!request.ip) {
+    return false;
+  }
+
+  const { count: ipCount, error: ipError } = await supabase
+    .from("auth_events")
+    .select("*", { count: "exact", head: true })
+    .eq("method", method)
+    .eq("ip", request.ip)
+    .gte("created_at", since);
+
+  if (ipError) {
+    throw new Error(`Failed to count auth events: ${ipError.message}`);
+  }
+  return (ipCount ?? 0) >= limit.perIp;
+}
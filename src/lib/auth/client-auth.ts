@@ -1,27 +1,33 @@
+import type { AuthSessionResponse } from "@/types";
+
 /**
  * Client-side authentication utilities
  *
- * These utilities help React components access authentication state
- * that was set on the server and passed via window.__AUTH_STATE__
+ * Auth cookies are httpOnly, so React components ask the server for the
+ * authentication state (GET /api/auth/session).
  */
 
-declare global {
-  interface Window {
-    __AUTH_STATE__?: {
-      isAuthenticated: boolean;
-    };
+/**
+ * Fetch the signed-in user and session from the server
+ * Reports an anonymous session when the request fails
+ */
+export async function fetchAuthSession(): Promise<AuthSessionResponse> {
+  try {
+    const response = await fetch("/api/auth/session");
+    if (response.ok) {
+      return await response.json();
+    }
+  } catch {
+    // Network error; treated as signed out below
   }
+  return { authenticated: false, user: null, session: null };
 }
 
 /**
  * Check if user is authenticated on the client side
- * Uses the auth state set by the server in Layout.astro
  */
-export function isAuthenticated(): boolean {
-  if (typeof window === "undefined") {
-    return false;
-  }
-  return window.__AUTH_STATE__?.isAuthenticated ?? false;
+export async function isAuthenticated(): Promise<boolean> {
+  return (await fetchAuthSession()).authenticated;
 }
 
 /**
@@ -0,0 +1,210 @@
+import type { OidcProviderConfig } from "./sso-config";
+
+/**
+ * Endpoints of an OpenID provider, from its discovery document
+ */
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Verified ID token claims used for sign-in
+ */
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+type Jwk = JsonWebKey & { kid?: string };
+
+// Tolerated clock difference between the IdP and this server
+const CLOCK_SKEW_SECONDS = 60;
+
+const ALGORITHMS: Record<string, RsaHashedImportParams | EcKeyImportParams> = {
+  RS256: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+  RS384: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" },
+  RS512: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" },
+  ES256: { name: "ECDSA", namedCurve: "P-256" },
+};
+
+const discoveryCache = new Map<string, OidcProviderMetadata>();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("base64url");
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(Buffer.from(value, "base64url"));
+}
+
+/**
+ * Returns a random URL-safe string (state, nonce, PKCE verifier)
+ */
+export function randomToken(bytes = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/**
+ * Derives the S256 PKCE code challenge of a verifier
+ */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Loads the discovery document of an issuer (cached per issuer)
+ *
+ * @throws Error if the document cannot be loaded or names a different issuer
+ */
+export async function discoverOidcProvider(issuer: string): Promise<OidcProviderMetadata> {
+  const cached = discoveryCache.get(issuer);
+  if (cached) return cached;
+
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with HTTP ${response.status}`);
+  }
+
+  const metadata = (await response.json()) as OidcProviderMetadata;
+  if (metadata.issuer.replace(/\/+$/, "") !== issuer) {
+    throw new Error(`OIDC discovery returned issuer ${metadata.issuer}, expected ${issuer}`);
+  }
+
+  discoveryCache.set(issuer, metadata);
+  return metadata;
+}
+
+/**
+ * Builds the authorization request URL the browser is sent to
+ */
+export function buildAuthorizationUrl(
+  metadata: OidcProviderMetadata,
+  config: OidcProviderConfig,
+  request: { redirectUri: string; state: string; nonce: string; codeChallenge: string }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", request.redirectUri);
+  url.searchParams.set("scope", config.scopes);
+  url.searchParams.set("state", request.state);
+  url.searchParams.set("nonce", request.nonce);
+  url.searchParams.set("code_challenge", request.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.toString();
+}
+
+/**
+ * Exchanges an authorization code for the ID token
+ *
+ * Confidential clients authenticate with client_secret_basic; public clients send
+ * only their client_id and rely on PKCE.
+ *
+ * @throws Error if the token endpoint rejects the code or returns no ID token
+ */
+export async function exchangeAuthorizationCode(
+  metadata: OidcProviderMetadata,
+  config: OidcProviderConfig,
+  request: { code: string; redirectUri: string; codeVerifier: string }
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: request.code,
+    redirect_uri: request.redirectUri,
+    code_verifier: request.codeVerifier,
+  });
+  const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else {
+    body.set("client_id", config.clientId);
+  }
+
+  const response = await fetch(metadata.token_endpoint, { method: "POST", headers, body });
+  if (!response.ok) {
+    throw new Error(`OIDC token request failed with HTTP ${response.status}`);
+  }
+
+  const tokens = (await response.json()) as { id_token?: string };
+  if (!tokens.id_token) {
+    throw new Error("OIDC token response has no id_token");
+  }
+  return tokens.id_token;
+}
+
+/**
+ * Verifies an ID token: signature against the provider's JWKS, issuer, audience,
+ * expiry and nonce
+ *
+ * @throws Error naming the failed check
+ */
+export async function verifyIdToken(
+  idToken: string,
+  metadata: OidcProviderMetadata,
+  expected: { clientId: string; nonce: string },
+  now = Date.now()
+): Promise<IdTokenClaims> {
+  const [encodedHeader, encodedPayload, encodedSignature] = idToken.split(".");
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new Error("ID token is not a JWT");
+  }
+
+  const header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString("utf8")) as { alg: string; kid?: string };
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new Error(`ID token algorithm ${header.alg} is not supported`);
+  }
+
+  const jwksResponse = await fetch(metadata.jwks_uri);
+  if (!jwksResponse.ok) {
+    throw new Error(`OIDC JWKS request failed with HTTP ${jwksResponse.status}`);
+  }
+  const { keys } = (await jwksResponse.json()) as { keys: Jwk[] };
+  const jwk = keys.find((key) => (header.kid ? key.kid === header.kid : key.use !== "enc"));
+  if (!jwk) {
+    throw new Error("ID token signing key not found");
+  }
+
+  const key = await crypto.subtle.importKey("jwk", jwk, algorithm, false, ["verify"]);
+  const verifyParams = algorithm.name === "ECDSA" ? { name: "ECDSA", hash: "SHA-256" } : algorithm;
+  const valid = await crypto.subtle.verify(
+    verifyParams,
+    key,
+    base64UrlDecode(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+  );
+  if (!valid) {
+    throw new Error("ID token signature is invalid");
+  }
+
+  const claims = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")) as IdTokenClaims;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== metadata.issuer) {
+    throw new Error("ID token issuer does not match");
+  }
+  if (!audiences.includes(expected.clientId)) {
+    throw new Error("ID token audience does not match");
+  }
+  if (claims.exp + CLOCK_SKEW_SECONDS < now / 1000) {
+    throw new Error("ID token has expired");
+  }
+  if (claims.nonce !== expected.nonce) {
+    throw new Error("ID token nonce does not match");
+  }
+
+  return claims;
+}
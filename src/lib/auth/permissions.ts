@@ -0,0 +1,92 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { BadgeCategoryType, PermissionType, UserRoleAssignment, UserRoleType } from "@/types";
+import { Permission, UserRole } from "@/types";
+
+/**
+ * What a user may do: the admin flag plus any granted roles
+ */
+export interface UserAccess {
+  userId: string;
+  isAdmin: boolean;
+  roles: UserRoleAssignment[];
+  // Set for deactivated accounts, which hold no permissions and are refused by the route guard
+  isDeactivated?: boolean;
+}
+
+/**
+ * Permissions granted by each role
+ * Keep in sync with has_permission() in the user_roles migration.
+ */
+export const ROLE_PERMISSIONS: Record<UserRoleType, PermissionType[]> = {
+  [UserRole.Reviewer]: [Permission.ReviewApplications],
+  [UserRole.CatalogManager]: [Permission.ManageCatalog, Permission.ManageTemplates],
+  [UserRole.PromotionApprover]: [Permission.ApprovePromotions],
+};
+
+/**
+ * Checks a permission; with a category, category-scoped roles must cover it
+ */
+export function hasPermission(access: UserAccess, permission: PermissionType, category?: string): boolean {
+  if (access.isAdmin) return true;
+
+  return access.roles.some(
+    (assignment) =>
+      ROLE_PERMISSIONS[assignment.role]?.includes(permission) &&
+      (!category || !assignment.categories || assignment.categories.includes(category as BadgeCategoryType))
+  );
+}
+
+/**
+ * Returns the categories a permission is limited to, or null when it applies to all
+ * categories (admins, unscoped roles) or is not held at all
+ */
+export function getPermittedCategories(access: UserAccess, permission: PermissionType): BadgeCategoryType[] | null {
+  if (access.isAdmin) return null;
+
+  const assignments = access.roles.filter((assignment) => ROLE_PERMISSIONS[assignment.role]?.includes(permission));
+  if (assignments.length === 0 || assignments.some((assignment) => !assignment.categories)) {
+    return null;
+  }
+
+  return [...new Set(assignments.flatMap((assignment) => assignment.categories ?? []))];
+}
+
+/**
+ * Loads the admin flag and roles of a user
+ *
+ * Deactivated users get no permissions and are flagged with isDeactivated. Roles are
+ * only queried for non-admins.
+ *
+ * @returns Access info, or null if the user record doesn't exist
+ * @throws Error if the roles query fails
+ */
+export async function loadUserAccess(supabase: SupabaseClient, userId: string): Promise<UserAccess | null> {
+  const { data: userData, error: userError } = await supabase
+    .from("users")
+    .select("is_admin, deactivated_at")
+    .eq("id", userId)
+    .single();
+
+  if (userError || !userData) {
+    return null;
+  }
+
+  if (userData.deactivated_at) {
+    return { userId, isAdmin: false, roles: [], isDeactivated: true };
+  }
+
+  if (userData.is_admin) {
+    return { userId, isAdmin: true, roles: [] };
+  }
+
+  const { data: roles, error: rolesError } = await supabase
+    .from("user_roles")
+    .select("role, categories")
+    .eq("user_id", userId);
+
+  if (rolesError) {
+    throw new Error(`Failed to fetch user roles: ${rolesError.message}`);
+  }
+
+  return { userId, isAdmin: false, roles: (roles ?? []) as UserRoleAssignment[] };
+}
@@ -0,0 +1,439 @@
+import { timingSafeEqual } from "node:crypto";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { createUserTokenClient } from "@/db/supabase.user-token";
+import type { ApiError, ApiTokenScopeType, PermissionType } from "@/types";
+import { ApiTokenScope, Permission } from "@/types";
+import { API_TOKEN_PREFIX, ApiTokenService, type AuthenticatedApiToken } from "../api-token.service";
+import { hasPermission, loadUserAccess, type UserAccess } from "./permissions";
+
+/**
+ * Who may call an API route
+ * - public: anyone; a signed-in user is still resolved
+ * - authenticated: any signed-in user with a user record
+ * - admin: administrators
+ * - worker: the scheduler (Bearer NOTIFICATION_WORKER_SECRET) or administrators
+ * - a permission: users whose roles grant it (admins hold every permission)
+ *
+ * Requests with "Authorization: Bearer bdg_..." are authenticated with an API token
+ * instead of the session cookie; the token's scope further limits the methods and
+ * routes it may call (see isAllowedByTokenScope).
+ *
+ * Finer checks (ownership, category-scoped roles, managers of a user) stay in the
+ * routes and services.
+ */
+export type RouteAccess = "public" | "authenticated" | "admin" | "worker" | PermissionType;
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * Access rules of every API route, keyed by the route pattern of its file under
+ * src/pages/api ([param] segments match any value)
+ *
+ * Requests to routes or methods missing here are refused, so a new endpoint is
+ * unreachable until it is listed (route-guards.spec.ts checks the list is complete).
+ */
+export const API_ROUTE_GUARDS: Record<string, Partial<Record<HttpMethod, RouteAccess>>> = {
+  "/api/api-tokens": { GET: "authenticated", POST: "authenticated" },
+  "/api/api-tokens/[id]": { DELETE: "authenticated" },
+  "/api/audit-logs": { GET: "admin" },
+  "/api/auth/callback": { GET: "public" },
+  "/api/auth/forgot-password": { POST: "public" },
+  "/api/auth/login": { POST: "public" },
+  "/api/auth/register": { POST: "public" },
+  "/api/auth/reset-password": { POST: "public" },
+  "/api/auth/session": { GET: "public" },
+  "/api/auth/sessions": { GET: "authenticated", DELETE: "authenticated" },
+  "/api/auth/sso/[provider]": { GET: "public" },
+  "/api/auth/sso/[provider]/callback": { GET: "public" },
+  "/api/badge-applications": { GET: "authenticated", POST: "authenticated" },
+  "/api/badge-applications/[id]": { GET: "authenticated", PUT: "authenticated", DELETE: "authenticated" },
+  "/api/badge-applications/[id]/accept": { POST: Permission.ReviewApplications },
+  "/api/badge-applications/[id]/reject": { POST: Permission.ReviewApplications },
+  "/api/badge-applications/[id]/submit": { POST: "authenticated" },
+  "/api/catalog-badges": { GET: "authenticated", POST: Permission.ManageCatalog },
+  "/api/catalog-badges/[id]": { GET: "authenticated", PUT: Permission.ManageCatalog },
+  "/api/catalog-badges/[id]/archive": { POST: Permission.ManageCatalog },
+  "/api/catalog-badges/[id]/deactivate": { POST: Permission.ManageCatalog },
+  "/api/catalog-badges/[id]/impact": { GET: Permission.ManageCatalog },
+  "/api/catalog-badges/[id]/reactivate": { POST: Permission.ManageCatalog },
+  "/api/catalog-badges/[id]/versions": { GET: "authenticated" },
+  "/api/catalog-badges/export": { GET: Permission.ManageCatalog },
+  "/api/catalog-badges/import": { POST: Permission.ManageCatalog },
+  "/api/error-logs": { GET: "admin" },
+  "/api/history-import": { POST: "admin" },
+  "/api/me": { GET: "authenticated" },
+  "/api/notifications": { GET: "authenticated" },
+  "/api/notifications/preferences": { GET: "authenticated", PUT: "authenticated" },
+  "/api/notifications/process": { POST: "worker" },
+  "/api/notifications/read": { POST: "authenticated" },
+  "/api/position-levels": { GET: "authenticated", POST: "admin" },
+  "/api/position-levels/versions": { GET: "admin" },
+  "/api/promotion-templates": { GET: "authenticated", POST: Permission.ManageTemplates },
+  "/api/promotion-templates/[id]": { GET: "authenticated", PUT: Permission.ManageTemplates },
+  "/api/promotion-templates/[id]/deactivate": { POST: Permission.ManageTemplates },
+  "/api/promotion-templates/[id]/versions": { GET: "authenticated" },
+  "/api/promotion-templates/consistency": { GET: Permission.ManageTemplates },
+  "/api/promotion-templates/sync": { POST: Permission.ManageTemplates },
+  "/api/promotions": { GET: "authenticated", POST: "authenticated" },
+  "/api/promotions/[id]": { GET: "authenticated", DELETE: "authenticated" },
+  "/api/promotions/[id]/approve": { POST: Permission.ApprovePromotions },
+  "/api/promotions/[id]/auto-fill": { POST: "authenticated" },
+  "/api/promotions/[id]/badges": { POST: "authenticated", DELETE: "authenticated" },
+  "/api/promotions/[id]/reject": { POST: Permission.ApprovePromotions },
+  "/api/promotions/[id]/submit": { POST: "authenticated" },
+  "/api/promotions/[id]/validation": { GET: "authenticated" },
+  "/api/team": { GET: "authenticated" },
+  "/api/users": { GET: "admin" },
+  "/api/users/[id]": { PATCH: "admin" },
+  "/api/users/[id]/deactivate": { POST: "admin" },
+  "/api/users/[id]/position": { GET: "authenticated", PUT: "admin" },
+  "/api/users/[id]/reactivate": { POST: "admin" },
+  "/api/users/[id]/roadmap": { GET: "authenticated" },
+  "/api/users/[id]/roles": { PUT: "admin" },
+  "/api/users/[id]/sessions": { DELETE: "admin" },
+  "/api/users/org-chart": { POST: "admin" },
+  "/api/webhooks": { GET: "admin", POST: "admin" },
+  "/api/webhooks/[id]": { PATCH: "admin", DELETE: "admin" },
+  "/api/webhooks/[id]/deliveries": { GET: "admin" },
+  "/api/webhooks/[id]/test": { POST: "admin" },
+  "/api/webhooks/deliveries/[id]/redeliver": { POST: "admin" },
+  "/api/webhooks/process": { POST: "worker" },
+};
+
+/**
+ * Routes API tokens may not call: signing in and out and managing tokens need a
+ * browser session
+ */
+const SESSION_ONLY_ROUTE_PREFIXES = ["/api/auth/", "/api/api-tokens"];
+
+/**
+ * 403 messages for the permission guards
+ */
+const PERMISSION_MESSAGES: Record<PermissionType, string> = {
+  [Permission.ReviewApplications]: "Badge review permission required",
+  [Permission.ManageCatalog]: "Catalog management permission required",
+  [Permission.ManageTemplates]: "Template management permission required",
+  [Permission.ApprovePromotions]: "Promotion approval permission required",
+};
+
+/**
+ * Signed-in user resolved by the route guard (context.locals.user)
+ */
+export interface RequestUser {
+  id: string;
+  email: string | null;
+  access: UserAccess;
+}
+
+/**
+ * Outcome of guarding an API request: the resolved user, and the response to send
+ * instead of running the route when access is refused
+ */
+export interface GuardResult {
+  user: RequestUser | null;
+  response: Response | null;
+  // Set for requests made with an API token: the token, and a client acting as its owner
+  // that replaces the cookie-based client for the route
+  apiToken?: { token: AuthenticatedApiToken; supabase: SupabaseClient };
+}
+
+/**
+ * Finds the route pattern of an API path
+ *
+ * Static segments win over [param] segments, as in Astro's routing
+ * (/api/catalog-badges/export before /api/catalog-badges/[id]).
+ *
+ * @returns Route pattern, or null if no API route matches
+ */
+export function matchApiRoute(pathname: string): string | null {
+  const segments = pathname.replace(/\/+$/, "").split("/");
+  let best: { pattern: string; score: number } | null = null;
+
+  for (const pattern of Object.keys(API_ROUTE_GUARDS)) {
+    const patternSegments = pattern.split("/");
+    if (patternSegments.length !== segments.length) continue;
+
+    let score = 0;
+    const matches = patternSegments.every((segment, index) => {
+      if (segment.startsWith("[") && segment.endsWith("]")) return segments[index] !== "";
+      score++;
+      return segment === segments[index];
+    });
+
+    if (matches && (!best || score > best.score)) {
+      best = { pattern, score };
+    }
+  }
+
+  return best?.pattern ?? null;
+}
+
+/**
+ * Checks the "Authorization: Bearer <NOTIFICATION_WORKER_SECRET>" header used by cron callers
+ */
+export function hasWorkerSecret(request: Request): boolean {
+  const secret = import.meta.env.NOTIFICATION_WORKER_SECRET;
+  const header = request.headers.get("authorization");
+  if (!secret || !header?.startsWith("Bearer ")) return false;
+
+  const given = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Returns the API token of an "Authorization: Bearer bdg_..." header
+ */
+export function getBearerApiToken(request: Request): string | null {
+  const header = request.headers.get("authorization");
+  if (!header?.startsWith(`Bearer ${API_TOKEN_PREFIX}`)) return null;
+  return header.slice("Bearer ".length).trim();
+}
+
+/**
+ * Checks a request against the scope of the API token that authenticated it
+ * - read: GET only
+ * - review: GET, and the badge review and promotion approval routes
+ * - admin: anything the token's owner may call
+ */
+export function isAllowedByTokenScope(scope: ApiTokenScopeType, method: HttpMethod, access: RouteAccess): boolean {
+  if (method === "GET" || scope === ApiTokenScope.Admin) return true;
+
+  return (
+    scope === ApiTokenScope.Review &&
+    (access === Permission.ReviewApplications || access === Permission.ApprovePromotions)
+  );
+}
+
+function errorResponse(status: number, error: ApiError, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(error), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/**
+ * Resolves the signed-in user of a request with their admin flag and roles
+ *
+ * @returns The user, null if nobody is signed in, "unknown" when the session has no
+ *   user record, or "deactivated" when the account was deactivated
+ * @throws Error if the roles query fails
+ */
+async function resolveUser(supabase: SupabaseClient): Promise<RequestUser | null | "unknown" | "deactivated"> {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return null;
+  }
+
+  const access = await loadUserAccess(supabase, user.id);
+  if (!access) {
+    return "unknown";
+  }
+
+  if (access.isDeactivated) {
+    return "deactivated";
+  }
+
+  return { id: user.id, email: user.email ?? null, access };
+}
+
+/**
+ * Resolves the owner of an API token, with a client acting as them
+ *
+ * @returns The user and token, or null if the token is invalid or its owner has no user
+ *   record or was deactivated
+ * @throws Error if the token lookup or the roles query fails
+ */
+async function resolveApiTokenUser(
+  supabase: SupabaseClient,
+  bearerToken: string
+): Promise<{ user: RequestUser; apiToken: NonNullable<GuardResult["apiToken"]> } | null> {
+  const token = await new ApiTokenService(supabase).authenticate(bearerToken);
+  if (!token) {
+    return null;
+  }
+
+  const client = await createUserTokenClient({ id: token.userId, email: token.email });
+  const access = client ? await loadUserAccess(client, token.userId) : null;
+  if (!client || !access || access.isDeactivated) {
+    return null;
+  }
+
+  return {
+    user: { id: token.userId, email: token.email, access },
+    apiToken: { token, supabase: client },
+  };
+}
+
+/**
+ * Checks that a user holds the role an access rule requires
+ *
+ * @returns 403 response when they don't, null otherwise
+ */
+function checkRequiredRole(user: RequestUser, access: RouteAccess): Response | null {
+  if ((access === "admin" || access === "worker") && !user.access.isAdmin) {
+    return errorResponse(403, { error: "forbidden", message: "Admin access required" });
+  }
+
+  if (access in PERMISSION_MESSAGES && !hasPermission(user.access, access as PermissionType)) {
+    return errorResponse(403, { error: "forbidden", message: PERMISSION_MESSAGES[access as PermissionType] });
+  }
+
+  return null;
+}
+
+/**
+ * Guards a request authenticated with an API token: the owner's roles apply as for
+ * their session, then the token's scope
+ *
+ * @throws Error if the token lookup or the roles query fails
+ */
+async function guardApiTokenRequest(
+  supabase: SupabaseClient,
+  bearerToken: string,
+  request: Request,
+  pattern: string,
+  method: HttpMethod,
+  access: RouteAccess
+): Promise<GuardResult> {
+  if (SESSION_ONLY_ROUTE_PREFIXES.some((prefix) => pattern.startsWith(prefix))) {
+    return {
+      user: null,
+      response: errorResponse(403, { error: "forbidden", message: "API tokens cannot be used on this route" }),
+    };
+  }
+
+  if (!import.meta.env.SUPABASE_JWT_SECRET) {
+    return {
+      user: null,
+      response: errorResponse(401, { error: "unauthorized", message: "API tokens are not enabled on this server" }),
+    };
+  }
+
+  const resolved = await resolveApiTokenUser(supabase, bearerToken);
+  if (!resolved) {
+    return {
+      user: null,
+      response: errorResponse(401, { error: "unauthorized", message: "Invalid or expired API token" }),
+    };
+  }
+
+  const { user, apiToken } = resolved;
+
+  const roleRefusal = checkRequiredRole(user, access);
+  if (roleRefusal) {
+    return { user, apiToken, response: roleRefusal };
+  }
+
+  if (!isAllowedByTokenScope(apiToken.token.scope, method, access)) {
+    return {
+      user,
+      apiToken,
+      response: errorResponse(403, {
+        error: "insufficient_scope",
+        message: `API token scope "${apiToken.token.scope}" does not allow ${request.method} ${pattern}`,
+      }),
+    };
+  }
+
+  return { user, apiToken, response: null };
+}
+
+/**
+ * Applies the access rule of an API route to a request
+ *
+ * Resolves the signed-in user once (routes read it from context.locals.user) and
+ * answers with a uniform ApiError when the request may not proceed:
+ * 404 for unknown routes, 405 for unlisted methods, 401 without a session or user
+ * record, for deactivated accounts (or with an invalid API token), 403 when the user
+ * lacks the required role or the API token's scope does not cover the request.
+ *
+ * @throws Error if the roles query fails
+ */
+export async function guardApiRequest(
+  supabase: SupabaseClient,
+  request: Request,
+  pathname: string
+): Promise<GuardResult> {
+  // =========================================================================
+  // Step 1: Find the Access Rule
+  // =========================================================================
+  const pattern = matchApiRoute(pathname);
+  if (!pattern) {
+    return { user: null, response: errorResponse(404, { error: "not_found", message: "API route not found" }) };
+  }
+
+  const methods = API_ROUTE_GUARDS[pattern];
+  const method = (request.method === "HEAD" ? "GET" : request.method) as HttpMethod;
+  const access = methods[method];
+  if (!access) {
+    return {
+      user: null,
+      response: errorResponse(
+        405,
+        { error: "method_not_allowed", message: `Method ${request.method} is not allowed on ${pattern}` },
+        { Allow: Object.keys(methods).join(", ") }
+      ),
+    };
+  }
+
+  if (access === "worker" && hasWorkerSecret(request)) {
+    return { user: null, response: null };
+  }
+
+  // =========================================================================
+  // Step 2: Resolve the User (API token or session)
+  // =========================================================================
+  const bearerToken = getBearerApiToken(request);
+  if (bearerToken) {
+    return guardApiTokenRequest(supabase, bearerToken, request, pattern, method, access);
+  }
+
+  const user = await resolveUser(supabase);
+
+  if (access === "public") {
+    return { user: user === "unknown" || user === "deactivated" ? null : user, response: null };
+  }
+
+  if (!user) {
+    return {
+      user: null,
+      response: errorResponse(401, { error: "unauthorized", message: "Authentication required" }),
+    };
+  }
+
+  if (user === "unknown") {
+    return { user: null, response: errorResponse(401, { error: "unauthorized", message: "User not found" }) };
+  }
+
+  // Sessions of deactivated accounts stay valid until they expire; refuse them here
+  if (user === "deactivated") {
+    return {
+      user: null,
+      response: errorResponse(401, { error: "unauthorized", message: "Account is deactivated" }),
+    };
+  }
+
+  // =========================================================================
+  // Step 3: Check the Required Role
+  // =========================================================================
+  return { user, response: checkRequiredRole(user, access) };
+}
+
+/**
+ * Returns the user the route guard resolved for a request
+ *
+ * For routes whose access rule requires a signed-in user.
+ *
+ * @throws Error if no user was resolved (the route is public or not guarded)
+ */
+export function requireRequestUser(locals: App.Locals): RequestUser {
+  if (!locals.user) {
+    throw new Error("No authenticated user on this request; check the route's entry in API_ROUTE_GUARDS");
+  }
+  return locals.user;
+}
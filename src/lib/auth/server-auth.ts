@@ -1,6 +1,8 @@
 import type { AstroGlobal } from "astro";
 
-import type { UserDto } from "@/types";
+import type { PermissionType, UserDto } from "@/types";
+
+import { hasPermission, loadUserAccess, type UserAccess } from "./permissions";
 
 /**
  * Server-side authentication helpers
@@ -25,6 +27,7 @@ export async function getAuthenticatedUser(Astro: AstroGlobal): Promise<UserDto
 /**
  * Require authentication for a page
  * Redirects to login if user is not authenticated
+ * Signs out and redirects to login if the account was deactivated
  * Returns the authenticated user
  */
 export async function requireAuth(Astro: AstroGlobal): Promise<UserDto | Response> {
@@ -34,6 +37,10 @@ export async function requireAuth(Astro: AstroGlobal): Promise<UserDto | Respons
     const redirectUrl = encodeURIComponent(Astro.url.pathname + Astro.url.search);
     return Astro.redirect(`/login?redirect=${redirectUrl}`);
   }
+  if (user.deactivated_at) {
+    await Astro.locals.supabase.auth.signOut();
+    return Astro.redirect("/login?error=account_deactivated");
+  }
   return user;
 }
 
@@ -53,3 +60,42 @@ export async function requireAdmin(Astro: AstroGlobal): Promise<UserDto | Respon
   }
   return user;
 }
+
+/**
+ * Check a permission for a user without redirecting
+ * Used by pages that only show extra actions (edit, review, approve) to permitted users
+ */
+export async function checkPermission(
+  Astro: AstroGlobal,
+  user: Pick<UserDto, "id" | "is_admin">,
+  permission: PermissionType
+): Promise<boolean> {
+  if (user.is_admin) {
+    return true;
+  }
+
+  const access = await loadUserAccess(Astro.locals.supabase, user.id);
+  return access ? hasPermission(access, permission) : false;
+}
+
+/**
+ * Require a permission for a page (admins hold every permission)
+ * Redirects to unauthorized page if the user's roles don't grant it
+ * Returns the authenticated user together with their access info
+ */
+export async function requirePermission(
+  Astro: AstroGlobal,
+  permission: PermissionType
+): Promise<{ user: UserDto; access: UserAccess } | Response> {
+  const user = await requireAuth(Astro);
+
+  if (user instanceof Response) {
+    return user;
+  }
+
+  const access = await loadUserAccess(Astro.locals.supabase, user.id);
+  if (!access || !hasPermission(access, permission)) {
+    return Astro.redirect("/unauthorized");
+  }
+  return { user, access };
+}
@@ -0,0 +1,159 @@
+/**
+ * OpenID Connect provider settings (authorization code flow with PKCE)
+ */
+export interface OidcProviderConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  // ID token claim listing the user's groups
+  groupsClaim: string;
+}
+
+/**
+ * SAML provider settings; the identity provider is registered in Supabase Auth
+ * (`supabase sso add`) and selected by email domain
+ */
+export interface SamlProviderConfig {
+  domain: string;
+}
+
+/**
+ * IdP groups that grant app access; an empty list leaves that access to the admins
+ * managing users in the app
+ */
+export interface SsoGroupMapping {
+  adminGroups: string[];
+  reviewerGroups: string[];
+}
+
+/**
+ * Enterprise single sign-on settings of a deployment
+ */
+export interface SsoConfig {
+  oidc: (OidcProviderConfig & { label: string }) | null;
+  saml: (SamlProviderConfig & { label: string }) | null;
+  // Email domains allowed to sign in through SSO; empty allows any domain
+  allowedDomains: string[];
+  groupMapping: SsoGroupMapping;
+}
+
+/**
+ * Environment variables read by the SSO and registration settings
+ */
+export type AuthEnv = Partial<
+  Record<
+    | "AUTH_SELF_REGISTRATION"
+    | "SSO_ALLOWED_DOMAINS"
+    | "SSO_OIDC_ISSUER"
+    | "SSO_OIDC_CLIENT_ID"
+    | "SSO_OIDC_CLIENT_SECRET"
+    | "SSO_OIDC_LABEL"
+    | "SSO_OIDC_SCOPES"
+    | "SSO_GROUPS_CLAIM"
+    | "SSO_SAML_DOMAIN"
+    | "SSO_SAML_LABEL"
+    | "SSO_ADMIN_GROUPS"
+    | "SSO_REVIEWER_GROUPS",
+    string
+  >
+>;
+
+/**
+ * Splits a comma separated setting, dropping blanks
+ */
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Reads the SSO settings; a provider is enabled when its required variables are set
+ * (SSO_OIDC_ISSUER and SSO_OIDC_CLIENT_ID, or SSO_SAML_DOMAIN)
+ */
+export function parseSsoConfig(env: AuthEnv): SsoConfig {
+  const oidc =
+    env.SSO_OIDC_ISSUER && env.SSO_OIDC_CLIENT_ID
+      ? {
+          issuer: env.SSO_OIDC_ISSUER.replace(/\/+$/, ""),
+          clientId: env.SSO_OIDC_CLIENT_ID,
+          clientSecret: env.SSO_OIDC_CLIENT_SECRET || undefined,
+          scopes: env.SSO_OIDC_SCOPES || "openid email profile",
+          groupsClaim: env.SSO_GROUPS_CLAIM || "groups",
+          label: env.SSO_OIDC_LABEL || "Single sign-on",
+        }
+      : null;
+
+  const saml = env.SSO_SAML_DOMAIN
+    ? { domain: env.SSO_SAML_DOMAIN.toLowerCase(), label: env.SSO_SAML_LABEL || "SAML single sign-on" }
+    : null;
+
+  return {
+    oidc,
+    saml,
+    allowedDomains: parseList(env.SSO_ALLOWED_DOMAINS).map((domain) => domain.toLowerCase()),
+    groupMapping: {
+      adminGroups: parseList(env.SSO_ADMIN_GROUPS),
+      reviewerGroups: parseList(env.SSO_REVIEWER_GROUPS),
+    },
+  };
+}
+
+/**
+ * Returns the SSO settings of this deployment
+ */
+export function getSsoConfig(): SsoConfig {
+  return parseSsoConfig(import.meta.env as AuthEnv);
+}
+
+/**
+ * Whether visitors may create password accounts through /register
+ * (AUTH_SELF_REGISTRATION, on unless set to "false"). SSO sign-in still creates
+ * accounts when self-registration is off.
+ */
+export function isSelfRegistrationEnabled(env: AuthEnv = import.meta.env as AuthEnv): boolean {
+  return env.AUTH_SELF_REGISTRATION !== "false";
+}
+
+/**
+ * Checks an email address against the allowed SSO domains (exact domain match)
+ */
+export function isAllowedEmailDomain(email: string, allowedDomains: string[]): boolean {
+  if (allowedDomains.length === 0) return true;
+
+  const domain = email.split("@").pop()?.toLowerCase() ?? "";
+  return allowedDomains.includes(domain);
+}
+
+/**
+ * Returns the path to redirect to after sign-in when it stays on this origin, "/" otherwise
+ *
+ * Backslashes are refused because browsers read "/\evil.example" as "//evil.example".
+ */
+export function toLocalRedirectPath(value: string | null | undefined, origin: string): string {
+  if (!value || !value.startsWith("/") || value.includes("\\")) return "/";
+
+  try {
+    const url = new URL(value, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : "/";
+  } catch {
+    return "/";
+  }
+}
+
+/**
+ * Access granted by IdP groups; null where the mapping is not configured, so the
+ * current value in the app is kept
+ */
+export function mapGroupsToAccess(
+  groups: string[],
+  mapping: SsoGroupMapping
+): { isAdmin: boolean | null; isReviewer: boolean | null } {
+  return {
+    isAdmin: mapping.adminGroups.length > 0 ? groups.some((group) => mapping.adminGroups.includes(group)) : null,
+    isReviewer:
+      mapping.reviewerGroups.length > 0 ? groups.some((group) => mapping.reviewerGroups.includes(group)) : null,
+  };
+}
@@ -0,0 +1,193 @@
+import type { AstroCookies } from "astro";
+
+import type { SupabaseClient } from "@/db/supabase.client";
+
+import {
+  buildAuthorizationUrl,
+  createCodeChallenge,
+  discoverOidcProvider,
+  exchangeAuthorizationCode,
+  randomToken,
+  verifyIdToken,
+} from "./oidc-client";
+import { getSsoConfig, type OidcProviderConfig, type SamlProviderConfig, type SsoConfig } from "./sso-config";
+
+/**
+ * User asserted by an identity provider
+ */
+export interface SsoIdentity {
+  email: string;
+  displayName: string | null;
+  groups: string[];
+  // Supabase Auth user the provider already signed in (SAML); null when the app
+  // still has to create the session
+  authUserId: string | null;
+}
+
+/**
+ * Request state a provider needs to start or finish a sign-in
+ */
+export interface SsoFlowContext {
+  supabase: SupabaseClient;
+  cookies: AstroCookies;
+  url: URL;
+  // Absolute URL of GET /api/auth/sso/:provider/callback
+  callbackUrl: string;
+}
+
+/**
+ * Sign-in method offered on the login page
+ *
+ * begin() returns the identity provider URL the browser is sent to; complete()
+ * runs on the callback and returns the asserted user.
+ */
+export interface SsoProvider {
+  id: string;
+  label: string;
+  begin(context: SsoFlowContext): Promise<string>;
+  complete(context: SsoFlowContext): Promise<SsoIdentity>;
+}
+
+/**
+ * Cookie holding the local path to return to after SSO sign-in
+ */
+export const SSO_REDIRECT_COOKIE = "sso_redirect";
+
+const OIDC_STATE_COOKIE = "sso_oidc_state";
+
+/**
+ * Generic OpenID Connect provider (Okta, Entra ID, Keycloak, Google Workspace, ...)
+ *
+ * The app runs the authorization code flow itself; state, nonce and the PKCE
+ * verifier are kept in a short-lived httpOnly cookie between begin and complete.
+ */
+export class OidcSsoProvider implements SsoProvider {
+  readonly id = "oidc";
+
+  constructor(
+    readonly label: string,
+    private config: OidcProviderConfig
+  ) {}
+
+  async begin(context: SsoFlowContext): Promise<string> {
+    const metadata = await discoverOidcProvider(this.config.issuer);
+    const flow = { state: randomToken(), nonce: randomToken(), verifier: randomToken() };
+
+    context.cookies.set(OIDC_STATE_COOKIE, JSON.stringify(flow), {
+      path: "/api/auth/sso",
+      httpOnly: true,
+      secure: context.url.protocol === "https:",
+      sameSite: "lax",
+      maxAge: 600,
+    });
+
+    return buildAuthorizationUrl(metadata, this.config, {
+      redirectUri: context.callbackUrl,
+      state: flow.state,
+      nonce: flow.nonce,
+      codeChallenge: await createCodeChallenge(flow.verifier),
+    });
+  }
+
+  async complete(context: SsoFlowContext): Promise<SsoIdentity> {
+    const stored = context.cookies.get(OIDC_STATE_COOKIE)?.value;
+    context.cookies.delete(OIDC_STATE_COOKIE, { path: "/api/auth/sso" });
+
+    const error = context.url.searchParams.get("error");
+    if (error) {
+      throw new Error(`Identity provider returned ${error}`);
+    }
+
+    const flow = stored ? (JSON.parse(stored) as { state: string; nonce: string; verifier: string }) : null;
+    const code = context.url.searchParams.get("code");
+    if (!flow || !code || context.url.searchParams.get("state") !== flow.state) {
+      throw new Error("SSO_STATE_MISMATCH");
+    }
+
+    const metadata = await discoverOidcProvider(this.config.issuer);
+    const idToken = await exchangeAuthorizationCode(metadata, this.config, {
+      code,
+      redirectUri: context.callbackUrl,
+      codeVerifier: flow.verifier,
+    });
+    const claims = await verifyIdToken(idToken, metadata, { clientId: this.config.clientId, nonce: flow.nonce });
+
+    if (!claims.email) {
+      throw new Error("SSO_EMAIL_MISSING");
+    }
+    if (claims.email_verified === false) {
+      throw new Error("SSO_EMAIL_UNVERIFIED");
+    }
+
+    const groups = claims[this.config.groupsClaim];
+
+    return {
+      email: claims.email.toLowerCase(),
+      displayName: claims.name ?? null,
+      groups: Array.isArray(groups) ? groups.map(String) : [],
+      authUserId: null,
+    };
+  }
+}
+
+/**
+ * SAML provider registered in Supabase Auth
+ *
+ * Supabase runs the SAML exchange and signs the user in; groups are read from the
+ * "groups" key of the provider's attribute mapping on the SAML identity. They are never read
+ * from user_metadata, which users can change themselves through auth.updateUser.
+ */
+export class SamlSsoProvider implements SsoProvider {
+  readonly id = "saml";
+
+  constructor(
+    readonly label: string,
+    private config: SamlProviderConfig
+  ) {}
+
+  async begin(context: SsoFlowContext): Promise<string> {
+    const { data, error } = await context.supabase.auth.signInWithSSO({
+      domain: this.config.domain,
+      options: { redirectTo: context.callbackUrl },
+    });
+
+    if (error || !data?.url) {
+      throw new Error(`SAML sign-in failed: ${error?.message ?? "no redirect URL"}`);
+    }
+    return data.url;
+  }
+
+  async complete(context: SsoFlowContext): Promise<SsoIdentity> {
+    const code = context.url.searchParams.get("code");
+    if (!code) {
+      throw new Error(`Identity provider returned ${context.url.searchParams.get("error") ?? "no code"}`);
+    }
+
+    const { data, error } = await context.supabase.auth.exchangeCodeForSession(code);
+    if (error || !data.user?.email) {
+      throw new Error(`SAML session exchange failed: ${error?.message ?? "no email"}`);
+    }
+
+    const metadata = data.user.user_metadata ?? {};
+    // SAML identities are registered as "sso:<provider id>"
+    const samlIdentity = data.user.identities?.find((identity) => identity.provider.startsWith("sso:"));
+    const groups = samlIdentity?.identity_data?.custom_claims?.groups;
+
+    return {
+      email: data.user.email.toLowerCase(),
+      displayName: metadata.full_name ?? metadata.name ?? null,
+      groups: Array.isArray(groups) ? groups.map(String) : [],
+      authUserId: data.user.id,
+    };
+  }
+}
+
+/**
+ * Returns the SSO providers enabled in this deployment, in login page order
+ */
+export function getSsoProviders(config: SsoConfig = getSsoConfig()): SsoProvider[] {
+  const providers: SsoProvider[] = [];
+  if (config.oidc) providers.push(new OidcSsoProvider(config.oidc.label, config.oidc));
+  if (config.saml) providers.push(new SamlSsoProvider(config.saml.label, config.saml));
+  return providers;
+}
@@ -8,7 +8,11 @@ import type {
   CatalogBadgeDetail,
   UserSummary,
   BadgeApplicationRow,
+  AuditEventTypeType,
 } from "@/types";
+import { AuditEventType, AuditResourceType } from "@/types";
+import { logAuditEvent } from "./audit-logger";
+import { enqueueEvent } from "./event-outbox";
 import type {
   ListBadgeApplicationsQuery,
   CreateBadgeApplicationCommand,
@@ -44,19 +48,21 @@ export class BadgeApplicationService {
   /**
    * Lists badge applications with filtering, sorting, and pagination
    *
-   * Non-admin users can only see their own applications.
+   * Non-admin users can only see their own applications and those of their reports.
    * Admin users can see all applications and filter by any applicant.
    *
    * @param query - Query parameters for filtering, sorting, and pagination
    * @param userId - Current user's ID for authorization filtering
    * @param isAdmin - Whether the requesting user is an admin
+   * @param reportIds - Direct and indirect reports of a non-admin manager (default: none)
    * @returns Paginated response with badge applications and pagination metadata
    * @throws Error if database query fails
    */
   async listBadgeApplications(
     query: ListBadgeApplicationsQuery,
     userId: string,
-    isAdmin: boolean
+    isAdmin: boolean,
+    reportIds: string[] = []
   ): Promise<PaginatedResponse<BadgeApplicationListItemDto>> {
     // Build base query for data with catalog badge join
     // Select all badge application fields plus nested catalog badge summary
@@ -76,8 +82,11 @@ export class BadgeApplicationService {
     let countQuery = this.supabase.from("badge_applications").select("*", { count: "exact", head: true });
 
     // Apply authorization filter based on user role
-    // Non-admin users can only see their own applications
-    if (!isAdmin) {
+    // Non-admin users can only see their own applications (managers also their reports')
+    if (!isAdmin && reportIds.length > 0) {
+      dataQuery = dataQuery.in("applicant_id", [userId, ...reportIds]);
+      countQuery = countQuery.in("applicant_id", [userId, ...reportIds]);
+    } else if (!isAdmin) {
       dataQuery = dataQuery.eq("applicant_id", userId);
       countQuery = countQuery.eq("applicant_id", userId);
     }
@@ -94,8 +103,9 @@ export class BadgeApplicationService {
       countQuery = countQuery.eq("catalog_badge_id", query.catalog_badge_id);
     }
 
-    // Apply applicant_id filter if provided (admin only, enforced at route level)
-    if (query.applicant_id && isAdmin) {
+    // Apply applicant_id filter if provided (admins and managers, enforced at route level)
+    const canFilterApplicant = isAdmin || query.applicant_id === userId || reportIds.includes(query.applicant_id ?? "");
+    if (query.applicant_id && canFilterApplicant) {
       dataQuery = dataQuery.eq("applicant_id", query.applicant_id);
       countQuery = countQuery.eq("applicant_id", query.applicant_id);
     }
@@ -159,11 +169,39 @@ export class BadgeApplicationService {
     };
   }
 
+  /**
+   * Returns the category of the catalog badge a badge application was filed for
+   * (used to check category-scoped reviewers)
+   *
+   * @param id - Badge application UUID
+   * @returns Badge category, or null if the application doesn't exist
+   * @throws Error if database query fails
+   */
+  async getApplicationCategory(id: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from("badge_applications")
+      .select("catalog_badge:catalog_badges!catalog_badge_id (category)")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch badge application: ${error.message}`);
+    }
+
+    const typedData = data as unknown as { catalog_badge: { category: string } | null };
+    return typedData.catalog_badge?.category ?? null;
+  }
+
   /**
    * Retrieves a single badge application by ID with full details
    *
    * Includes nested catalog badge details (with description and version)
-   * and applicant user information.
+   * and applicant user information. The catalog badge reflects the version the
+   * application was filed against (catalog_badge_version), resolved from the
+   * version history when the badge has been edited since.
    *
    * @param id - Badge application UUID
    * @returns Badge application with nested data if found, null otherwise
@@ -206,6 +244,31 @@ export class BadgeApplicationService {
     // Type the response as BadgeApplicationWithFullDetails for proper type checking
     const typedData = data as unknown as BadgeApplicationWithFullDetails;
 
+    // Resolve the badge wording the applicant applied against
+    if (
+      typedData.catalog_badge &&
+      typedData.catalog_badge_version != null &&
+      typedData.catalog_badge.version !== typedData.catalog_badge_version
+    ) {
+      const { data: snapshot, error: snapshotError } = await this.supabase
+        .from("catalog_badge_versions")
+        .select("title, description, category, level, version")
+        .eq("catalog_badge_id", typedData.catalog_badge_id)
+        .eq("version", typedData.catalog_badge_version)
+        .maybeSingle();
+
+      if (snapshotError) {
+        throw new Error(`Failed to fetch catalog badge version: ${snapshotError.message}`);
+      }
+
+      if (snapshot) {
+        typedData.catalog_badge = {
+          ...typedData.catalog_badge,
+          ...(snapshot as Omit<CatalogBadgeDetail, "id">),
+        };
+      }
+    }
+
     // Transform to proper DTO type
     return {
       id: typedData.id,
@@ -293,6 +356,14 @@ export class BadgeApplicationService {
       throw new Error(`Failed to create badge application: ${insertError.message}`);
     }
 
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.BadgeApplicationCreated,
+      actor_id: userId,
+      resource_type: AuditResourceType.BadgeApplication,
+      resource_id: insertedData.id,
+      payload: { catalog_badge_id: command.catalog_badge_id, catalog_badge_version: catalogBadge.version },
+    });
+
     // =========================================================================
     // Step 4: Fetch Full Details (with joins)
     // =========================================================================
@@ -424,33 +495,34 @@ export class BadgeApplicationService {
     const full = await this.getBadgeApplicationById(id);
     if (!full) throw new Error("NOT_FOUND");
 
-    // Best-effort: record audit log for submission
-    try {
-      await this.supabase.from("audit_logs").insert({
-        action: "submit_badge_application",
-        resource: "badge_applications",
+    // Record audit log for status transitions performed through the generic update
+    const statusEvents: Record<string, AuditEventTypeType> = {
+      submitted: AuditEventType.BadgeApplicationSubmitted,
+      accepted: AuditEventType.BadgeApplicationAccepted,
+      rejected: AuditEventType.BadgeApplicationRejected,
+    };
+    const statusEvent = typeof updateData.status === "string" ? statusEvents[updateData.status] : undefined;
+    if (statusEvent && updateData.status !== existing.status) {
+      await logAuditEvent(this.supabase, {
+        event_type: statusEvent,
+        actor_id: userId,
+        resource_type: AuditResourceType.BadgeApplication,
         resource_id: id,
-        requester_id: requesterId || null,
-        meta: { catalog_badge_id: row.catalog_badge_id },
+        payload: {
+          catalog_badge_id: full.catalog_badge_id,
+          previous_status: existing.status,
+          review_reason: command.review_reason ?? null,
+        },
       });
-    } catch (e) {
-      // Do not block submission on audit failure
-      // eslint-disable-next-line no-console
-      console.error("Failed to write audit log for submitBadgeApplication:", e);
-    }
 
-    // Best-effort: enqueue async event for notifications/workers
-    try {
-      await this.supabase.from("events").insert({
-        type: "badge_application.submitted",
+      // Best-effort: enqueue async event for notifications/workers
+      await enqueueEvent(this.supabase, {
+        type: statusEvent,
         resource: "badge_applications",
         resource_id: id,
-        payload: { id, action: "submitted" },
+        actor_id: userId,
+        payload: { id, action: updateData.status, review_reason: command.review_reason ?? null },
       });
-    } catch (e) {
-      // best-effort
-      // eslint-disable-next-line no-console
-      console.error("Failed to enqueue event for submitBadgeApplication:", e);
     }
 
     return full;
@@ -526,6 +598,14 @@ export class BadgeApplicationService {
       throw new Error("Failed to delete badge application: no rows deleted");
     }
 
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.BadgeApplicationDeleted,
+      actor_id: requesterId ?? null,
+      resource_type: AuditResourceType.BadgeApplication,
+      resource_id: id,
+      payload: { applicant_id: row.applicant_id, status: row.status },
+    });
+
     return { id };
   }
 
@@ -599,6 +679,23 @@ export class BadgeApplicationService {
       throw new Error(`Failed to submit badge application: ${updateError.message}`);
     }
 
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.BadgeApplicationSubmitted,
+      actor_id: requesterId ?? null,
+      resource_type: AuditResourceType.BadgeApplication,
+      resource_id: id,
+      payload: { catalog_badge_id: row.catalog_badge_id, catalog_badge_version: catalogBadge.version },
+    });
+
+    // Best-effort: enqueue async event for notifications/workers
+    await enqueueEvent(this.supabase, {
+      type: "badge_application.submitted",
+      resource: "badge_applications",
+      resource_id: id,
+      actor_id: requesterId ?? null,
+      payload: { id, action: "submitted" },
+    });
+
     // Return full details
     const full = await this.getBadgeApplicationById(id);
     if (!full) throw new Error("NOT_FOUND");
@@ -659,34 +756,22 @@ export class BadgeApplicationService {
     const full = await this.getBadgeApplicationById(id);
     if (!full) throw new Error("NOT_FOUND");
 
-    // Best-effort: record audit log for acceptance
-    try {
-      await this.supabase.from("audit_logs").insert({
-        action: "accept_badge_application",
-        resource: "badge_applications",
-        resource_id: id,
-        requester_id: reviewerId || null,
-        meta: { review_reason: reviewReason || null },
-      });
-    } catch (e) {
-      // do not block on audit failure
-      // eslint-disable-next-line no-console
-      console.error("Failed to write audit log for acceptBadgeApplication:", e);
-    }
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.BadgeApplicationAccepted,
+      actor_id: reviewerId ?? null,
+      resource_type: AuditResourceType.BadgeApplication,
+      resource_id: id,
+      payload: { catalog_badge_id: row.catalog_badge_id, review_reason: reviewReason || null },
+    });
 
     // Best-effort: enqueue async event for notifications/workers
-    try {
-      await this.supabase.from("events").insert({
-        type: "badge_application.accepted",
-        resource: "badge_applications",
-        resource_id: id,
-        payload: { id, action: "accepted" },
-      });
-    } catch (e) {
-      // best-effort
-      // eslint-disable-next-line no-console
-      console.error("Failed to enqueue event for acceptBadgeApplication:", e);
-    }
+    await enqueueEvent(this.supabase, {
+      type: "badge_application.accepted",
+      resource: "badge_applications",
+      resource_id: id,
+      actor_id: reviewerId ?? null,
+      payload: { id, action: "accepted", review_reason: reviewReason || null },
+    });
 
     return full;
   }
@@ -699,11 +784,13 @@ export class BadgeApplicationService {
    * @param id - badge application id
    * @param reviewerId - id of reviewer (optional for development)
    * @param reviewReason - optional review note
+   * @param notifyApplicant - whether the applicant is notified of the decision (default true)
    */
   async rejectBadgeApplication(
     id: string,
     reviewerId?: string,
-    reviewReason?: string
+    reviewReason?: string,
+    notifyApplicant = true
   ): Promise<BadgeApplicationDetailDto> {
     // Fetch minimal application row for checks
     const { data: row, error: fetchErr } = await this.supabase
@@ -745,34 +832,22 @@ export class BadgeApplicationService {
     const full = await this.getBadgeApplicationById(id);
     if (!full) throw new Error("NOT_FOUND");
 
-    // Best-effort: record audit log for rejection
-    try {
-      await this.supabase.from("audit_logs").insert({
-        action: "reject_badge_application",
-        resource: "badge_applications",
-        resource_id: id,
-        requester_id: reviewerId || null,
-        meta: { review_reason: reviewReason || null },
-      });
-    } catch (e) {
-      // do not block on audit failure
-      // eslint-disable-next-line no-console
-      console.error("Failed to write audit log for rejectBadgeApplication:", e);
-    }
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.BadgeApplicationRejected,
+      actor_id: reviewerId ?? null,
+      resource_type: AuditResourceType.BadgeApplication,
+      resource_id: id,
+      payload: { catalog_badge_id: row.catalog_badge_id, review_reason: reviewReason || null },
+    });
 
     // Best-effort: enqueue async event for notifications/workers
-    try {
-      await this.supabase.from("events").insert({
-        type: "badge_application.rejected",
-        resource: "badge_applications",
-        resource_id: id,
-        payload: { id, action: "rejected" },
-      });
-    } catch (e) {
-      // best-effort
-      // eslint-disable-next-line no-console
-      console.error("Failed to enqueue event for rejectBadgeApplication:", e);
-    }
+    await enqueueEvent(this.supabase, {
+      type: "badge_application.rejected",
+      resource: "badge_applications",
+      resource_id: id,
+      actor_id: reviewerId ?? null,
+      payload: { id, action: "rejected", review_reason: reviewReason || null, notify_applicant: notifyApplicant },
+    });
 
     return full;
   }
@@ -0,0 +1,298 @@
+import type { PositionLevel, PromotionRequirement, PromotionRuleCondition, PromotionTemplateRule } from "@/types";
+
+/**
+ * Category and level of an earned badge, the fields requirement counting looks at
+ * (catalog_badge_id is needed for rules with max_per_badge)
+ */
+export interface CountableBadge {
+  category: string;
+  level: string;
+  catalog_badge_id?: string;
+}
+
+/**
+ * Badge that can be picked for a promotion; earned_at is used to prefer older badges
+ */
+export interface SelectableBadge extends CountableBadge {
+  id: string;
+  earned_at: string;
+}
+
+/**
+ * Badges allocated to one rule and the condition of the rule they fill
+ * (the rule's own condition or one of its alternatives)
+ */
+export interface RuleAllocation<T extends CountableBadge> {
+  rule: PromotionTemplateRule;
+  condition: PromotionRuleCondition;
+  badges: T[];
+}
+
+/**
+ * Result of selectBadgesForRules: the picked badges and, per rule, the badges assigned to it
+ */
+export interface BadgeSelection<T extends SelectableBadge> {
+  selected: T[];
+  assignments: RuleAllocation<T>[];
+}
+
+/**
+ * Order of badge levels (lowest first), used for or_higher conditions and to pick badges
+ */
+const LEVEL_RANK: Record<string, number> = { bronze: 0, silver: 1, gold: 2 };
+
+/**
+ * Checks whether a badge counts toward a rule condition
+ *
+ * Levels match exactly (gold ≠ silver ≠ bronze) unless the condition is or_higher,
+ * then higher levels count too. "any" category conditions match badges of all categories.
+ */
+export function matchesCondition(
+  condition: Pick<PromotionRuleCondition, "category" | "level" | "or_higher">,
+  badge: CountableBadge
+): boolean {
+  const levelMatches = condition.or_higher
+    ? (LEVEL_RANK[badge.level] ?? -1) >= (LEVEL_RANK[condition.level] ?? Infinity)
+    : badge.level === condition.level;
+  return levelMatches && (condition.category === "any" || badge.category === condition.category);
+}
+
+/**
+ * Badge levels that count toward a condition: its own level, and the higher ones
+ * when the condition is or_higher
+ */
+export function matchingLevels(condition: Pick<PromotionRuleCondition, "level" | "or_higher">): string[] {
+  return Object.keys(LEVEL_RANK).filter((level) =>
+    condition.or_higher ? LEVEL_RANK[level] >= (LEVEL_RANK[condition.level] ?? Infinity) : level === condition.level
+  );
+}
+
+/**
+ * Conditions a rule can be met by: its own, then its alternatives
+ */
+export function ruleConditions(rule: PromotionTemplateRule): PromotionRuleCondition[] {
+  const own: PromotionRuleCondition = { category: rule.category, level: rule.level, count: rule.count };
+  if (rule.or_higher) {
+    own.or_higher = true;
+  }
+  return [own, ...(rule.alternatives ?? [])];
+}
+
+/**
+ * Every combination of one condition per rule, own conditions first
+ */
+function conditionCombinations(rules: PromotionTemplateRule[]): PromotionRuleCondition[][] {
+  return rules.reduce<PromotionRuleCondition[][]>(
+    (combinations, rule) =>
+      combinations.flatMap((combination) => ruleConditions(rule).map((condition) => [...combination, condition])),
+    [[]]
+  );
+}
+
+/**
+ * Assigns badges to one condition per rule, filling as many rule slots as possible
+ *
+ * Maximum flow from badges (capacity 1) to rules (capacity count). For rules with
+ * max_per_badge, badges of the same catalog badge pass through a shared node with
+ * that capacity. Badges are added in the given order and each one is placed through
+ * an augmenting path, so a badge that fits stays assigned; earlier badges are therefore
+ * preferred over later ones. Category rules are tried before "any" rules.
+ */
+function allocateForConditions<T extends CountableBadge>(
+  rules: PromotionTemplateRule[],
+  conditions: PromotionRuleCondition[],
+  badges: T[]
+): T[][] {
+  // Nodes: badges, then rules, then catalog badge groups of capped rules; -1 is the sink
+  const edges: { to: number; capacity: number }[] = [];
+  const adjacency: number[][] = [];
+  const addNode = () => adjacency.push([]) - 1;
+  const addEdge = (from: number, to: number, capacity: number) => {
+    adjacency[from].push(edges.length);
+    edges.push({ to, capacity });
+    if (to >= 0) {
+      adjacency[to].push(edges.length);
+    }
+    edges.push({ to: from, capacity: 0 });
+  };
+
+  const badgeNodes = badges.map(() => addNode());
+  const ruleNodes = rules.map(() => addNode());
+  rules.forEach((_, ruleIndex) => addEdge(ruleNodes[ruleIndex], -1, Math.max(conditions[ruleIndex].count, 0)));
+
+  const ruleOfNode = new Map<number, number>(ruleNodes.map((node, ruleIndex) => [node, ruleIndex]));
+  const ruleOrder = rules
+    .map((_, ruleIndex) => ruleIndex)
+    .sort((a, b) => Number(conditions[a].category === "any") - Number(conditions[b].category === "any"));
+  const groupNodes = new Map<string, number>();
+
+  badges.forEach((badge, badgeIndex) => {
+    for (const ruleIndex of ruleOrder) {
+      if (!matchesCondition(conditions[ruleIndex], badge)) {
+        continue;
+      }
+
+      const maxPerBadge = rules[ruleIndex].max_per_badge;
+      if (!maxPerBadge || !badge.catalog_badge_id) {
+        addEdge(badgeNodes[badgeIndex], ruleNodes[ruleIndex], 1);
+        continue;
+      }
+
+      const key = `${ruleIndex}:${badge.catalog_badge_id}`;
+      let groupNode = groupNodes.get(key);
+      if (groupNode === undefined) {
+        groupNode = addNode();
+        groupNodes.set(key, groupNode);
+        ruleOfNode.set(groupNode, ruleIndex);
+        addEdge(groupNode, ruleNodes[ruleIndex], maxPerBadge);
+      }
+      addEdge(badgeNodes[badgeIndex], groupNode, 1);
+    }
+  });
+
+  const augment = (node: number, visited: Set<number>): boolean => {
+    if (node === -1) {
+      return true;
+    }
+    visited.add(node);
+
+    for (const edgeIndex of adjacency[node]) {
+      const edge = edges[edgeIndex];
+      if (edge.capacity > 0 && !visited.has(edge.to) && augment(edge.to, visited)) {
+        edge.capacity--;
+        edges[edgeIndex ^ 1].capacity++;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  let freeSlots = conditions.reduce((total, condition) => total + Math.max(condition.count, 0), 0);
+  for (let badgeIndex = 0; badgeIndex < badges.length && freeSlots > 0; badgeIndex++) {
+    if (augment(badgeNodes[badgeIndex], new Set())) {
+      freeSlots--;
+    }
+  }
+
+  // A badge's used edge (forward edges have even indexes) leads to its rule or catalog badge group
+  const assigned: T[][] = rules.map(() => []);
+
+  badges.forEach((badge, badgeIndex) => {
+    const used = adjacency[badgeNodes[badgeIndex]].find(
+      (edgeIndex) => edgeIndex % 2 === 0 && edges[edgeIndex].capacity === 0
+    );
+    const ruleIndex = used === undefined ? undefined : ruleOfNode.get(edges[used].to);
+    if (ruleIndex !== undefined) {
+      assigned[ruleIndex].push(badge);
+    }
+  });
+
+  return assigned;
+}
+
+/**
+ * Assigns each badge to at most one rule and picks the condition each rule is met by
+ *
+ * For every combination of rule conditions (own or alternative), badges are allocated
+ * by maximum flow (see allocateForConditions). The combination meeting the most rules
+ * wins, then the one missing the fewest badges, then the one using the fewest badges;
+ * remaining ties go to own conditions.
+ *
+ * @returns Condition and assigned badges of each rule, in the order of the rules
+ */
+export function allocateBadges<T extends CountableBadge>(
+  rules: PromotionTemplateRule[],
+  badges: T[]
+): RuleAllocation<T>[] {
+  let best: { allocation: RuleAllocation<T>[]; score: number[] } | null = null;
+
+  for (const conditions of conditionCombinations(rules)) {
+    const assigned = allocateForConditions(rules, conditions, badges);
+    const allocation = rules.map((rule, index) => ({
+      rule,
+      condition: conditions[index],
+      badges: [...assigned[index]].sort((a, b) => badges.indexOf(a) - badges.indexOf(b)),
+    }));
+
+    const satisfied = allocation.filter((entry) => entry.badges.length >= entry.condition.count).length;
+    const missing = allocation.reduce(
+      (total, entry) => total + Math.max(entry.condition.count - entry.badges.length, 0),
+      0
+    );
+    const used = allocation.reduce((total, entry) => total + entry.badges.length, 0);
+    const score = [-satisfied, missing, used];
+    const bestScore = best?.score;
+    const difference = bestScore ? score.findIndex((value, i) => value !== bestScore[i]) : -1;
+
+    if (!bestScore || (difference !== -1 && score[difference] < bestScore[difference])) {
+      best = { allocation, score };
+    }
+  }
+
+  return best?.allocation ?? [];
+}
+/**
+ * Compares badges against rules, one requirement per rule
+ *
+ * Each badge counts toward at most one rule (see allocateBadges), so a badge cannot
+ * satisfy both a category rule and an "any" rule. Each requirement describes the
+ * condition its rule is met by, or comes closest to.
+ */
+export function evaluateRequirements(rules: PromotionTemplateRule[], badges: CountableBadge[]): PromotionRequirement[] {
+  return toRequirements(allocateBadges(rules, badges));
+}
+
+/**
+ * Builds the requirements for rules from the badges allocated to them
+ */
+export function toRequirements(allocation: RuleAllocation<CountableBadge>[]): PromotionRequirement[] {
+  return allocation.map(({ condition, badges }) => ({
+    category: condition.category,
+    level: condition.level,
+    ...(condition.or_higher ? { or_higher: true } : {}),
+    required: condition.count,
+    current: badges.length,
+    satisfied: badges.length >= condition.count,
+  }));
+}
+
+/**
+ * Flattens the required_badges of a position level (position-levels.json) into rules
+ */
+export function positionLevelRules(positionLevel: PositionLevel): PromotionTemplateRule[] {
+  return Object.entries(positionLevel.required_badges).flatMap(([category, requirements]) =>
+    requirements.map((requirement) => ({
+      category: category as PromotionTemplateRule["category"],
+      level: requirement.level,
+      count: requirement.count,
+    }))
+  );
+}
+
+/**
+ * Picks the smallest set of badges that satisfies all rules
+ *
+ * Allocation follows evaluateRequirements (each badge fills at most one rule slot, and
+ * the conditions needing the fewest badges are preferred), so every picked badge is
+ * needed. Candidates are offered lowest level first, then oldest first, and the
+ * allocation keeps earlier badges, so those are preferred. Rules that cannot be met
+ * get as many badges as are available.
+ */
+export function selectBadgesForRules<T extends SelectableBadge>(
+  rules: PromotionTemplateRule[],
+  badges: T[]
+): BadgeSelection<T> {
+  const candidates = [...badges].sort(
+    (a, b) =>
+      (LEVEL_RANK[a.level] ?? 0) - (LEVEL_RANK[b.level] ?? 0) ||
+      a.earned_at.localeCompare(b.earned_at) ||
+      a.id.localeCompare(b.id)
+  );
+  const assignments = allocateBadges(rules, candidates);
+  const selected = new Set(assignments.flatMap((assignment) => assignment.badges));
+
+  return {
+    selected: candidates.filter((badge) => selected.has(badge)),
+    assignments,
+  };
+}
@@ -0,0 +1,154 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { Json } from "@/db/database.types";
+import type { CareerLadderVersionDto, CareerLadderVersionRow, PositionLevelsResponse } from "@/types";
+import { AuditEventType, AuditResourceType } from "@/types";
+import { positionLevels } from "./position-levels";
+import type { CreateCareerLadderVersionInput } from "./validation/career-ladder.validation";
+import { logAuditEvent } from "./audit-logger";
+
+/**
+ * Ladder bundled with the application, in force until the first version takes effect
+ */
+const BUNDLED_LADDER: CareerLadderVersionDto = {
+  version: 0,
+  effective_from: null,
+  note: null,
+  created_by: null,
+  created_at: null,
+  positions: positionLevels.positions,
+};
+
+/**
+ * Maps a career_ladder_versions row to its DTO
+ */
+function toDto(row: CareerLadderVersionRow): CareerLadderVersionDto {
+  return {
+    version: row.version,
+    effective_from: row.effective_from,
+    note: row.note,
+    created_by: row.created_by,
+    created_at: row.created_at,
+    positions: row.positions as unknown as PositionLevelsResponse["positions"],
+  };
+}
+
+/**
+ * Service class for the career ladder
+ *
+ * Handles:
+ * - Resolving the ladder version in force at a date
+ * - Listing versions and recording new ones (admin editor)
+ *
+ * Versions are append-only and take effect at their effective_from; without any
+ * version in force the bundled src/config/position-levels.json applies.
+ */
+export class CareerLadderService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Returns the career ladder in force at a date
+   *
+   * The version with the latest effective_from not after the date wins; on equal
+   * dates the higher version number.
+   *
+   * @param at - Date to resolve (defaults to now)
+   * @returns Ladder version in force, or the bundled ladder (version 0)
+   * @throws Error if database query fails
+   */
+  async getLadder(at: Date = new Date()): Promise<CareerLadderVersionDto> {
+    const { data, error } = await this.supabase
+      .from("career_ladder_versions")
+      .select("*")
+      .lte("effective_from", at.toISOString())
+      .order("effective_from", { ascending: false })
+      .order("version", { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to fetch career ladder: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? toDto(data[0]) : BUNDLED_LADDER;
+  }
+
+  /**
+   * Lists all recorded versions, newest version first
+   *
+   * @throws Error if database query fails
+   */
+  async listVersions(): Promise<CareerLadderVersionDto[]> {
+    const { data, error } = await this.supabase
+      .from("career_ladder_versions")
+      .select("*")
+      .order("version", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch career ladder versions: ${error.message}`);
+    }
+
+    return (data || []).map(toDto);
+  }
+
+  /**
+   * Records a new career ladder version
+   *
+   * The positions must already be validated (createCareerLadderVersionSchema checks
+   * that every path is a complete, acyclic next_level chain).
+   *
+   * @param command - Validated positions, effective date and note
+   * @param actorId - Admin recording the version
+   * @returns The created version
+   * @throws Error if database query fails
+   */
+  async createVersion(command: CreateCareerLadderVersionInput, actorId: string): Promise<CareerLadderVersionDto> {
+    // =========================================================================
+    // Step 1: Determine Next Version Number
+    // =========================================================================
+    const { data: latest, error: latestError } = await this.supabase
+      .from("career_ladder_versions")
+      .select("version")
+      .order("version", { ascending: false })
+      .limit(1);
+
+    if (latestError) {
+      throw new Error(`Failed to fetch career ladder versions: ${latestError.message}`);
+    }
+
+    // =========================================================================
+    // Step 2: Insert Version
+    // =========================================================================
+    // A concurrent insert of the same number fails on the unique constraint
+    const { data: created, error: insertError } = await this.supabase
+      .from("career_ladder_versions")
+      .insert({
+        version: (latest?.[0]?.version ?? 0) + 1,
+        positions: command.positions as unknown as Json,
+        effective_from: command.effective_from,
+        note: command.note ?? null,
+        created_by: actorId,
+      })
+      .select("*")
+      .single();
+
+    if (insertError || !created) {
+      throw new Error(`Failed to create career ladder version: ${insertError?.message ?? "no row returned"}`);
+    }
+
+    // =========================================================================
+    // Step 3: Audit Log
+    // =========================================================================
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.CareerLadderVersionCreated,
+      actor_id: actorId,
+      resource_type: AuditResourceType.CareerLadder,
+      resource_id: created.id,
+      payload: {
+        version: created.version,
+        effective_from: created.effective_from,
+        note: created.note,
+      },
+    });
+
+    return toDto(created);
+  }
+}
@@ -0,0 +1,278 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { Json, TablesInsert } from "@/db/database.types";
+import type {
+  CatalogBadgeImportReportDto,
+  CatalogBadgeRow,
+  CatalogBadgeStatusType,
+  ImportRowResult,
+  ValidationErrorDetail,
+} from "@/types";
+import { AuditEventType, AuditResourceType } from "@/types";
+import { createCatalogBadgeSchema, type ExportCatalogBadgesQuery } from "./validation/catalog-badge.validation";
+import { UUID_REGEX } from "./validation/uuid";
+import { logAuditEvent } from "./audit-logger";
+import { formatCsv, readCsvRecords } from "./csv";
+
+/**
+ * Column layout of catalog CSV files (matches catalog_badges_samples.csv).
+ * Only title, category and level are required on import; id and status are honoured
+ * when present; created_by, created_at, deactivated_at and version are ignored.
+ */
+export const CATALOG_CSV_COLUMNS = [
+  "id",
+  "title",
+  "description",
+  "category",
+  "level",
+  "status",
+  "created_by",
+  "created_at",
+  "deactivated_at",
+  "version",
+  "metadata",
+] as const;
+
+const REQUIRED_IMPORT_COLUMNS = ["title", "category", "level"];
+const IMPORTABLE_STATUSES: CatalogBadgeStatusType[] = ["active", "inactive", "archived"];
+
+/**
+ * Maximum number of data rows accepted in a single import
+ */
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Key used to detect duplicate badges (same title, category and level; title is case-insensitive)
+ */
+function duplicateKey(title: string, category: string, level: string): string {
+  return `${title.trim().toLowerCase()}|${category}|${level}`;
+}
+
+/**
+ * Service class for bulk catalog badge import and export
+ *
+ * Import is two-phase: a dry run validates every row against createCatalogBadgeSchema
+ * and reports invalid rows and duplicates; a commit re-validates and inserts all valid
+ * rows in a single statement, so either every row is written or none is.
+ */
+export class CatalogBadgeImportService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Validates a catalog CSV and, unless dry_run is set, imports it
+   *
+   * Rows duplicating an existing badge (by id, or by title + category + level) or an
+   * earlier row in the file are skipped. The import is not committed while any row is
+   * invalid.
+   *
+   * @param csv - CSV document with a header row
+   * @param options - dryRun: only report; actorId: admin performing the import
+   * @returns Import report with per-row results
+   * @throws Error with message 'CSV_UNTERMINATED_QUOTE' if the document is malformed
+   * @throws Error with message 'CSV_EMPTY' if the document has no data rows
+   * @throws Error with message 'CSV_MISSING_COLUMNS' if a required column is missing
+   * @throws Error with message 'CSV_TOO_MANY_ROWS' if the document exceeds MAX_IMPORT_ROWS
+   * @throws Error if database query fails
+   */
+  async importCatalogBadges(
+    csv: string,
+    options: { dryRun: boolean; actorId: string }
+  ): Promise<CatalogBadgeImportReportDto> {
+    const { columns, records } = readCsvRecords(csv);
+
+    if (records.length === 0) {
+      throw new Error("CSV_EMPTY");
+    }
+
+    if (REQUIRED_IMPORT_COLUMNS.some((name) => !columns.includes(name))) {
+      throw new Error("CSV_MISSING_COLUMNS");
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new Error("CSV_TOO_MANY_ROWS");
+    }
+
+    // Existing badges for duplicate detection
+    const { data: existing, error: existingError } = await this.supabase
+      .from("catalog_badges")
+      .select("id, title, category, level");
+
+    if (existingError) {
+      throw new Error(`Failed to fetch catalog badges: ${existingError.message}`);
+    }
+
+    const existingIds = new Set((existing || []).map((badge) => badge.id));
+    const existingKeys = new Map(
+      (existing || []).map((badge) => [duplicateKey(badge.title, badge.category, badge.level), badge.id])
+    );
+    const seenKeys = new Map<string, number>();
+    const seenIds = new Map<string, number>();
+
+    const rows: ImportRowResult[] = [];
+    const inserts: TablesInsert<"catalog_badges">[] = [];
+    const now = new Date().toISOString();
+
+    records.forEach((record, index) => {
+      const rowNumber = index + 1;
+      const value = (column: string) => record[column] ?? "";
+
+      const errors: ValidationErrorDetail[] = [];
+      const id = value("id");
+      const status = value("status") || "active";
+      const title = value("title");
+
+      if (id && !UUID_REGEX.test(id)) {
+        errors.push({ field: "id", message: "Invalid badge ID format" });
+      }
+
+      if (!IMPORTABLE_STATUSES.includes(status as CatalogBadgeStatusType)) {
+        errors.push({ field: "status", message: "Status must be one of: active, inactive, archived" });
+      }
+
+      let metadata: unknown = undefined;
+      const rawMetadata = value("metadata");
+      if (rawMetadata) {
+        try {
+          metadata = JSON.parse(rawMetadata);
+        } catch {
+          errors.push({ field: "metadata", message: "Metadata must be valid JSON" });
+        }
+      }
+
+      const validation = createCatalogBadgeSchema.safeParse({
+        title,
+        description: value("description") || undefined,
+        category: value("category"),
+        level: value("level"),
+        metadata,
+      });
+
+      if (!validation.success) {
+        errors.push(
+          ...validation.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          }))
+        );
+      }
+
+      if (errors.length > 0 || !validation.success) {
+        rows.push({ row: rowNumber, label: title || null, status: "invalid", errors, duplicate_of: null });
+        return;
+      }
+
+      const badge = validation.data;
+      const key = duplicateKey(badge.title, badge.category, badge.level);
+      const existingMatch = (id && existingIds.has(id) ? id : undefined) ?? existingKeys.get(key);
+      const fileMatch = (id ? seenIds.get(id) : undefined) ?? seenKeys.get(key);
+
+      if (existingMatch || fileMatch) {
+        rows.push({
+          row: rowNumber,
+          label: badge.title,
+          status: "duplicate",
+          errors: [],
+          duplicate_of: { id: existingMatch ?? null, row: existingMatch ? null : (fileMatch ?? null) },
+        });
+        return;
+      }
+
+      seenKeys.set(key, rowNumber);
+      if (id) seenIds.set(id, rowNumber);
+
+      rows.push({ row: rowNumber, label: badge.title, status: "valid", errors: [], duplicate_of: null });
+      inserts.push({
+        ...(id ? { id } : {}),
+        title: badge.title,
+        description: badge.description || null,
+        category: badge.category,
+        level: badge.level,
+        metadata: (badge.metadata || {}) as Json,
+        status,
+        version: 1,
+        created_by: options.actorId,
+        deactivated_at: status === "active" ? null : now,
+        archived_at: status === "archived" ? now : null,
+      });
+    });
+
+    const report: CatalogBadgeImportReportDto = {
+      dry_run: options.dryRun,
+      committed: false,
+      total_rows: rows.length,
+      valid_rows: rows.filter((row) => row.status === "valid").length,
+      invalid_rows: rows.filter((row) => row.status === "invalid").length,
+      duplicate_rows: rows.filter((row) => row.status === "duplicate").length,
+      imported_ids: [],
+      rows,
+    };
+
+    if (options.dryRun || report.invalid_rows > 0 || inserts.length === 0) {
+      return report;
+    }
+
+    // Single multi-row insert: the whole batch succeeds or fails together
+    const { data: inserted, error: insertError } = await this.supabase
+      .from("catalog_badges")
+      .insert(inserts)
+      .select("id");
+
+    if (insertError) {
+      throw new Error(`Failed to import catalog badges: ${insertError.message}`);
+    }
+
+    const importedIds = (inserted || []).map((badge) => badge.id);
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.CatalogBadgesImported,
+      actor_id: options.actorId,
+      resource_type: AuditResourceType.CatalogBadge,
+      payload: {
+        imported: importedIds.length,
+        skipped_duplicates: report.duplicate_rows,
+        badge_ids: importedIds,
+      },
+    });
+
+    return { ...report, committed: true, imported_ids: importedIds };
+  }
+
+  /**
+   * Exports catalog badges as CSV in the same layout the importer accepts
+   *
+   * @param query - Optional status filter
+   * @returns CSV document (header row + one row per badge, oldest first)
+   * @throws Error if database query fails
+   */
+  async exportCatalogBadges(query: ExportCatalogBadgesQuery): Promise<string> {
+    let dataQuery = this.supabase.from("catalog_badges").select("*");
+
+    if (query.status) {
+      dataQuery = dataQuery.eq("status", query.status);
+    }
+
+    const { data, error } = await dataQuery.order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch catalog badges: ${error.message}`);
+    }
+
+    const badges = (data || []) as CatalogBadgeRow[];
+
+    return formatCsv([
+      [...CATALOG_CSV_COLUMNS],
+      ...badges.map((badge) => [
+        badge.id,
+        badge.title,
+        badge.description,
+        badge.category,
+        badge.level,
+        badge.status,
+        badge.created_by,
+        badge.created_at,
+        badge.deactivated_at,
+        badge.version,
+        JSON.stringify(badge.metadata ?? {}),
+      ]),
+    ]);
+  }
+}
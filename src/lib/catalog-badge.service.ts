@@ -3,11 +3,26 @@ import type { Json } from "@/db/database.types";
 import type {
   CatalogBadgeListItemDto,
   CatalogBadgeDetailDto,
+  CatalogBadgeImpactDto,
+  CatalogBadgeRow,
+  CatalogBadgeVersionDto,
+  CatalogBadgeVersionRow,
   CreateCatalogBadgeCommand,
   PaginatedResponse,
   PaginationMetadata,
+  UpdateCatalogBadgeCommand,
+  UserSummary,
 } from "@/types";
+import { AuditEventType, AuditResourceType } from "@/types";
 import type { ListCatalogBadgesQuery } from "./validation/catalog-badge.validation";
+import { logAuditEvent } from "./audit-logger";
+
+/**
+ * Type for version history query result with joined author
+ */
+interface CatalogBadgeVersionWithAuthor extends CatalogBadgeVersionRow {
+  author: UserSummary | null;
+}
 
 /**
  * Service class for catalog badge operations
@@ -15,6 +30,9 @@ import type { ListCatalogBadgesQuery } from "./validation/catalog-badge.validati
  * Handles business logic for catalog badges including:
  * - Listing badges with filters, search, sorting, and pagination
  * - Role-based filtering (admin vs non-admin access)
+ * - Editing with version history (catalog_badge_versions)
+ * - Lifecycle: deactivate/reactivate (reversible) and archive (terminal)
+ * - Audit logging of catalog changes
  */
 export class CatalogBadgeService {
   constructor(private supabase: SupabaseClient) {}
@@ -175,6 +193,14 @@ export class CatalogBadgeService {
       throw new Error(`Failed to create catalog badge: ${error.message}`);
     }
 
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.CatalogBadgeCreated,
+      actor_id: createdBy,
+      resource_type: AuditResourceType.CatalogBadge,
+      resource_id: data.id,
+      payload: { title: data.title, category: data.category, level: data.level },
+    });
+
     // Transform to add computed active field
     return {
       ...data,
@@ -182,6 +208,194 @@ export class CatalogBadgeService {
     } as CatalogBadgeDetailDto;
   }
 
+  /**
+   * Updates a catalog badge and bumps its version
+   *
+   * The previous wording is archived in catalog_badge_versions (by a database trigger)
+   * so applications keep pointing at the exact text they were filed against
+   * (badge_applications.catalog_badge_version). Updates that do not change any field
+   * are a no-op and do not create a new version.
+   *
+   * @param id - Badge UUID
+   * @param command - Fields to update (partial)
+   * @param actorId - User ID of the admin performing the edit
+   * @returns Updated badge if successful, null if not found
+   * @throws Error with message 'BADGE_ARCHIVED' if the badge is archived
+   * @throws Error with message 'BADGE_HAS_APPLICATIONS' if category or level change on a badge with applications
+   * @throws Error with message 'BADGE_VERSION_CONFLICT' if the badge was edited concurrently
+   * @throws Error if database query fails
+   */
+  async updateCatalogBadge(
+    id: string,
+    command: UpdateCatalogBadgeCommand,
+    actorId: string
+  ): Promise<CatalogBadgeDetailDto | null> {
+    // Step 1: Fetch the current version
+    const { data: current, error: fetchError } = await this.supabase
+      .from("catalog_badges")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch catalog badge: ${fetchError.message}`);
+    }
+
+    if (current.status === "archived") {
+      throw new Error("BADGE_ARCHIVED");
+    }
+
+    // Step 2: Determine which fields actually change
+    const changes: Partial<Pick<CatalogBadgeRow, "title" | "description" | "category" | "level" | "metadata">> = {};
+    if (command.title !== undefined && command.title !== current.title) changes.title = command.title;
+    if (command.description !== undefined && command.description !== (current.description ?? "")) {
+      changes.description = command.description || null;
+    }
+    if (command.category !== undefined && command.category !== current.category) changes.category = command.category;
+    if (command.level !== undefined && command.level !== current.level) changes.level = command.level;
+    if (command.metadata !== undefined && JSON.stringify(command.metadata) !== JSON.stringify(current.metadata ?? {})) {
+      changes.metadata = command.metadata as Json;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { ...current, active: current.status === "active" } as CatalogBadgeDetailDto;
+    }
+
+    // Step 3: Write the new version (only if nobody bumped the version in the meantime).
+    // The catalog_badges_archive_version trigger snapshots the previous wording. Category and
+    // level decide what an application counts for in promotions and the roadmap, so the
+    // catalog_badges_lock_counted_fields trigger refuses changing them once anyone has applied
+    // (it sees every application, whatever the caller may read).
+    const { data: updated, error: updateError } = await this.supabase
+      .from("catalog_badges")
+      .update({
+        ...changes,
+        version: current.version + 1,
+        updated_at: new Date().toISOString(),
+        updated_by: actorId,
+      })
+      .eq("id", id)
+      .eq("version", current.version)
+      .select("*")
+      .single();
+
+    if (updateError) {
+      if (updateError.code === "PGRST116") {
+        throw new Error("BADGE_VERSION_CONFLICT");
+      }
+      if (updateError.code === "P0001" && updateError.message === "badge_has_applications") {
+        throw new Error("BADGE_HAS_APPLICATIONS");
+      }
+      throw new Error(`Failed to update catalog badge: ${updateError.message}`);
+    }
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.CatalogBadgeUpdated,
+      actor_id: actorId,
+      resource_type: AuditResourceType.CatalogBadge,
+      resource_id: id,
+      payload: { previous_version: current.version, version: updated.version, changed_fields: Object.keys(changes) },
+    });
+
+    return {
+      ...updated,
+      active: updated.status === "active",
+    } as CatalogBadgeDetailDto;
+  }
+
+  /**
+   * Lists the version timeline of a catalog badge, newest first
+   *
+   * @param id - Badge UUID
+   * @returns Versions including the current one, null if the badge doesn't exist
+   * @throws Error if database query fails
+   */
+  async listCatalogBadgeVersions(id: string): Promise<CatalogBadgeVersionDto[] | null> {
+    const { data: current, error: fetchError } = await this.supabase
+      .from("catalog_badges")
+      .select(
+        `
+        *,
+        author:users!catalog_badges_updated_by_fkey (
+          id,
+          display_name,
+          email
+        ),
+        creator:users!catalog_badges_created_by_fkey (
+          id,
+          display_name,
+          email
+        )
+      `
+      )
+      .eq("id", id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch catalog badge: ${fetchError.message}`);
+    }
+
+    const { data: history, error: historyError } = await this.supabase
+      .from("catalog_badge_versions")
+      .select(
+        `
+        *,
+        author:users!catalog_badge_versions_authored_by_fkey (
+          id,
+          display_name,
+          email
+        )
+      `
+      )
+      .eq("catalog_badge_id", id)
+      .order("version", { ascending: false });
+
+    if (historyError) {
+      throw new Error(`Failed to fetch catalog badge versions: ${historyError.message}`);
+    }
+
+    const typedCurrent = current as unknown as CatalogBadgeRow & {
+      author: UserSummary | null;
+      creator: UserSummary | null;
+    };
+
+    const currentVersion: CatalogBadgeVersionDto = {
+      version: typedCurrent.version,
+      title: typedCurrent.title,
+      description: typedCurrent.description,
+      category: typedCurrent.category,
+      level: typedCurrent.level,
+      metadata: typedCurrent.metadata,
+      authored_by: typedCurrent.author ?? typedCurrent.creator ?? null,
+      authored_at: typedCurrent.updated_at ?? typedCurrent.created_at,
+      superseded_at: null,
+      is_current: true,
+    };
+
+    const previousVersions = ((history || []) as unknown as CatalogBadgeVersionWithAuthor[]).map(
+      (row): CatalogBadgeVersionDto => ({
+        version: row.version,
+        title: row.title,
+        description: row.description,
+        category: row.category,
+        level: row.level,
+        metadata: row.metadata,
+        authored_by: row.author ?? null,
+        authored_at: row.authored_at,
+        superseded_at: row.superseded_at,
+        is_current: false,
+      })
+    );
+
+    return [currentVersion, ...previousVersions];
+  }
+
   /**
    * Deactivates a catalog badge
    *
@@ -189,11 +403,13 @@ export class CatalogBadgeService {
    * Only active badges can be deactivated.
    *
    * @param id - Badge UUID
+   * @param actorId - Optional user ID of the admin performing the deactivation (audit log)
    * @returns Deactivated badge if successful, null if not found
    * @throws Error with message 'BADGE_ALREADY_INACTIVE' if badge is already inactive
+   * @throws Error with message 'BADGE_ARCHIVED' if badge is archived
    * @throws Error if database query fails
    */
-  async deactivateCatalogBadge(id: string): Promise<CatalogBadgeDetailDto | null> {
+  async deactivateCatalogBadge(id: string, actorId?: string): Promise<CatalogBadgeDetailDto | null> {
     // Step 1: Fetch badge to validate it exists and check status
     const { data: badge, error: fetchError } = await this.supabase
       .from("catalog_badges")
@@ -210,10 +426,13 @@ export class CatalogBadgeService {
       throw new Error(`Failed to fetch catalog badge: ${fetchError.message}`);
     }
 
-    // Step 2: Check if badge is already inactive
+    // Step 2: Check if badge is already inactive (or archived for good)
     if (badge.status === "inactive") {
       throw new Error("BADGE_ALREADY_INACTIVE");
     }
+    if (badge.status === "archived") {
+      throw new Error("BADGE_ARCHIVED");
+    }
 
     // Step 3: Update badge to inactive status
     const deactivatedAt = new Date().toISOString();
@@ -229,6 +448,14 @@ export class CatalogBadgeService {
       throw new Error(`Failed to deactivate catalog badge: ${updateError.message}`);
     }
 
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.CatalogBadgeDeactivated,
+      actor_id: actorId ?? null,
+      resource_type: AuditResourceType.CatalogBadge,
+      resource_id: id,
+      payload: { title: badge.title },
+    });
+
     // Step 4: Return the updated badge data (merge original badge with updated fields)
     return {
       ...badge,
@@ -237,4 +464,154 @@ export class CatalogBadgeService {
       active: false, // Computed from status
     } as CatalogBadgeDetailDto;
   }
+
+  /**
+   * Reactivates an inactive catalog badge
+   *
+   * Sets status back to 'active' and clears the deactivation timestamp.
+   * Archived badges are retired for good and cannot be reactivated.
+   *
+   * @param id - Badge UUID
+   * @param actorId - Optional user ID of the admin performing the reactivation (audit log)
+   * @returns Reactivated badge if successful, null if not found
+   * @throws Error with message 'BADGE_ALREADY_ACTIVE' if badge is already active
+   * @throws Error with message 'BADGE_ARCHIVED' if badge is archived
+   * @throws Error if database query fails
+   */
+  async reactivateCatalogBadge(id: string, actorId?: string): Promise<CatalogBadgeDetailDto | null> {
+    const { data: badge, error: fetchError } = await this.supabase
+      .from("catalog_badges")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch catalog badge: ${fetchError.message}`);
+    }
+
+    if (badge.status === "active") {
+      throw new Error("BADGE_ALREADY_ACTIVE");
+    }
+    if (badge.status === "archived") {
+      throw new Error("BADGE_ARCHIVED");
+    }
+
+    const { error: updateError } = await this.supabase
+      .from("catalog_badges")
+      .update({
+        status: "active",
+        deactivated_at: null,
+      })
+      .eq("id", id);
+
+    if (updateError) {
+      throw new Error(`Failed to reactivate catalog badge: ${updateError.message}`);
+    }
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.CatalogBadgeReactivated,
+      actor_id: actorId ?? null,
+      resource_type: AuditResourceType.CatalogBadge,
+      resource_id: id,
+      payload: { title: badge.title },
+    });
+
+    return {
+      ...badge,
+      status: "active",
+      deactivated_at: null,
+      active: true,
+    } as CatalogBadgeDetailDto;
+  }
+
+  /**
+   * Archives a catalog badge
+   *
+   * Archiving is terminal: the badge can no longer be applied for, edited or
+   * reactivated. Both active and inactive badges can be archived. Existing
+   * applications keep referencing the badge.
+   *
+   * @param id - Badge UUID
+   * @param actorId - Optional user ID of the admin performing the archive (audit log)
+   * @returns Archived badge if successful, null if not found
+   * @throws Error with message 'BADGE_ALREADY_ARCHIVED' if badge is already archived
+   * @throws Error if database query fails
+   */
+  async archiveCatalogBadge(id: string, actorId?: string): Promise<CatalogBadgeDetailDto | null> {
+    const { data: badge, error: fetchError } = await this.supabase
+      .from("catalog_badges")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch catalog badge: ${fetchError.message}`);
+    }
+
+    if (badge.status === "archived") {
+      throw new Error("BADGE_ALREADY_ARCHIVED");
+    }
+
+    const archivedAt = new Date().toISOString();
+    const deactivatedAt = badge.deactivated_at ?? archivedAt;
+    const { error: updateError } = await this.supabase
+      .from("catalog_badges")
+      .update({
+        status: "archived",
+        archived_at: archivedAt,
+        deactivated_at: deactivatedAt,
+      })
+      .eq("id", id);
+
+    if (updateError) {
+      throw new Error(`Failed to archive catalog badge: ${updateError.message}`);
+    }
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.CatalogBadgeArchived,
+      actor_id: actorId ?? null,
+      resource_type: AuditResourceType.CatalogBadge,
+      resource_id: id,
+      payload: { title: badge.title, previous_status: badge.status },
+    });
+
+    return {
+      ...badge,
+      status: "archived",
+      archived_at: archivedAt,
+      deactivated_at: deactivatedAt,
+      active: false,
+    } as CatalogBadgeDetailDto;
+  }
+
+  /**
+   * Builds the impact report for taking a badge out of circulation
+   *
+   * Lists open applications (draft or submitted) for the badge, and draft
+   * promotions that already include an application for the badge. Used by the
+   * deactivate/archive confirmation dialog.
+   *
+   * Built by catalog_badge_impact() (security definer), so catalog managers see
+   * every affected application and promotion, not just the ones their row level
+   * security lets them read.
+   *
+   * @param id - Badge UUID
+   * @returns Impact report, null if the badge doesn't exist
+   * @throws Error if database query fails
+   */
+  async getCatalogBadgeImpact(id: string): Promise<CatalogBadgeImpactDto | null> {
+    const { data, error } = await this.supabase.rpc("catalog_badge_impact", { p_catalog_badge_id: id });
+
+    if (error) {
+      throw new Error(`Failed to build catalog badge impact: ${error.message}`);
+    }
+
+    return (data as unknown as CatalogBadgeImpactDto | null) ?? null;
+  }
 }
@@ -0,0 +1,114 @@
+/**
+ * Minimal RFC 4180 CSV helpers
+ *
+ * Handles quoted fields (embedded commas, newlines and doubled quotes), CRLF and LF
+ * line endings and a leading byte order mark, which covers files saved from Excel
+ * and exported from Confluence tables.
+ */
+
+/**
+ * Parses CSV text into rows of raw string fields.
+ * Blank lines are skipped.
+ *
+ * @param text - CSV document
+ * @returns Rows of fields (the header row, if any, is the first row)
+ * @throws Error with message 'CSV_UNTERMINATED_QUOTE' if a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    field = "";
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char === "\r") {
+      if (input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("CSV_UNTERMINATED_QUOTE");
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Serializes rows into CSV text, quoting fields only when required.
+ * Null and undefined become empty fields.
+ *
+ * @param rows - Rows of field values (header row first)
+ * @returns CSV document with CRLF line endings
+ */
+export function formatCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const text = value === null || value === undefined ? "" : String(value);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(",")
+    )
+    .join("\r\n");
+}
+
+/**
+ * Parses a CSV document with a header row into records keyed by column name.
+ * Column names are trimmed and lower-cased; values are trimmed and missing
+ * trailing fields become empty strings.
+ *
+ * @param text - CSV document with a header row
+ * @returns Normalized column names and one record per data row
+ * @throws Error with message 'CSV_UNTERMINATED_QUOTE' if a quoted field is never closed
+ */
+export function readCsvRecords(text: string): { columns: string[]; records: Record<string, string>[] } {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map((name) => name.trim().toLowerCase());
+
+  const records = rows.map((row) =>
+    Object.fromEntries(columns.map((column, index) => [column, (row[index] ?? "").trim()]))
+  );
+
+  return { columns, records };
+}
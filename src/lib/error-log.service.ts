@@ -0,0 +1,123 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { ErrorLogListItemDto, ErrorLogRow, PaginatedResponse, PaginationMetadata, UserSummary } from "@/types";
+import { toTimestamp } from "./audit-log.service";
+import type { ListErrorLogsQuery } from "./validation/error-log.validation";
+
+/**
+ * Type for error log query result with joined requester
+ */
+interface ErrorLogWithRequester extends ErrorLogRow {
+  requester: UserSummary | null;
+}
+
+/**
+ * Escapes LIKE wildcards so route filters match literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Service class for error log queries
+ *
+ * Handles read access to server errors for the admin error log browser:
+ * - Filtering by route, error code, request ID and date range
+ * - Sorting by creation time and pagination
+ *
+ * Writes go through logError() in error-logger.ts.
+ */
+export class ErrorLogService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Lists error log entries with filtering and pagination
+   *
+   * @param query - Validated query parameters
+   * @returns Paginated response with error log entries (newest first by default)
+   * @throws Error if database query fails
+   */
+  async listErrorLogs(query: ListErrorLogsQuery): Promise<PaginatedResponse<ErrorLogListItemDto>> {
+    let dataQuery = this.supabase.from("error_logs").select(
+      `
+        *,
+        requester:users!requester_id (
+          id,
+          display_name,
+          email
+        )
+      `
+    );
+    let countQuery = this.supabase.from("error_logs").select("*", { count: "exact", head: true });
+
+    if (query.route) {
+      const pattern = `%${escapeLike(query.route)}%`;
+      dataQuery = dataQuery.ilike("route", pattern);
+      countQuery = countQuery.ilike("route", pattern);
+    }
+
+    if (query.error_code) {
+      dataQuery = dataQuery.eq("error_code", query.error_code);
+      countQuery = countQuery.eq("error_code", query.error_code);
+    }
+
+    if (query.request_id) {
+      dataQuery = dataQuery.eq("request_id", query.request_id);
+      countQuery = countQuery.eq("request_id", query.request_id);
+    }
+
+    if (query.from) {
+      const from = toTimestamp(query.from, "start");
+      dataQuery = dataQuery.gte("created_at", from);
+      countQuery = countQuery.gte("created_at", from);
+    }
+
+    if (query.to) {
+      const to = toTimestamp(query.to, "end");
+      dataQuery = dataQuery.lte("created_at", to);
+      countQuery = countQuery.lte("created_at", to);
+    }
+
+    const { count, error: countError } = await countQuery;
+
+    if (countError) {
+      throw new Error(`Failed to count error logs: ${countError.message}`);
+    }
+
+    dataQuery = dataQuery
+      .order("created_at", { ascending: query.order === "asc" })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    const { data, error: dataError } = await dataQuery;
+
+    if (dataError) {
+      throw new Error(`Failed to fetch error logs: ${dataError.message}`);
+    }
+
+    const entries: ErrorLogListItemDto[] = ((data || []) as unknown as ErrorLogWithRequester[]).map((entry) => ({
+      id: entry.id,
+      request_id: entry.request_id,
+      route: entry.route,
+      method: entry.method,
+      status: entry.status,
+      error_code: entry.error_code,
+      message: entry.message,
+      payload: entry.payload,
+      requester_id: entry.requester_id,
+      created_at: entry.created_at,
+      requester: entry.requester ?? null,
+    }));
+
+    const total = count ?? 0;
+    const pagination: PaginationMetadata = {
+      total,
+      limit: query.limit,
+      offset: query.offset,
+      has_more: query.offset + query.limit < total,
+    };
+
+    return {
+      data: entries,
+      pagination,
+    };
+  }
+}
@@ -1,24 +1,68 @@
 import type { SupabaseClient } from "@/db/supabase.client";
+import type { Json } from "@/db/database.types";
+import { createServiceRoleClient } from "@/db/supabase.service-role";
+import { getRequestContext } from "./request-context";
 
-export async function logError(
-  supabase: SupabaseClient,
-  entry: {
-    route: string;
-    error_code: string;
-    message: string;
-    payload?: unknown;
-    requester_id?: string | null;
+/**
+ * Error entry written by API routes (and by the middleware for unhandled failures)
+ */
+export interface ErrorLogEntry {
+  route: string;
+  error_code: string;
+  message: string;
+  payload?: unknown;
+  requester_id?: string | null;
+  status?: number;
+}
+
+/**
+ * Converts arbitrary values (including Error instances, which JSON.stringify turns
+ * into {}) into JSON that can be stored in a jsonb column
+ */
+function toJson(value: unknown): Json | null {
+  if (value === undefined || value === null) return null;
+
+  try {
+    return JSON.parse(
+      JSON.stringify(value, (_key, inner) =>
+        inner instanceof Error ? { name: inner.name, message: inner.message } : inner
+      )
+    ) as Json;
+  } catch {
+    return { unserializable: String(value) };
   }
-) {
+}
+
+/**
+ * Records a server error in the error_logs table, tagged with the current request id.
+ *
+ * Best-effort: failures are logged to the console and never thrown. Uses the service
+ * role client when configured, so errors of anonymous requests are stored too;
+ * otherwise falls back to the caller's client.
+ */
+export async function logError(supabase: SupabaseClient, entry: ErrorLogEntry): Promise<void> {
+  const context = getRequestContext();
+  if (context) {
+    context.errorLogged = true;
+  }
+
   try {
-    // Best-effort: attempt to persist to error_logs table if it exists
-    await supabase.from("error_logs").insert({
+    const client = createServiceRoleClient() ?? supabase;
+    const { error } = await client.from("error_logs").insert({
+      request_id: context?.requestId ?? null,
       route: entry.route,
+      method: context?.method ?? null,
+      status: entry.status ?? null,
       error_code: entry.error_code,
       message: entry.message,
-      payload: entry.payload ? JSON.stringify(entry.payload) : null,
+      payload: toJson(entry.payload),
       requester_id: entry.requester_id || null,
     });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Failed to write to error_logs:", error);
+    }
   } catch (e) {
     // eslint-disable-next-line no-console
     console.error("Failed to write to error_logs:", e);
@@ -26,28 +70,85 @@ export async function logError(
 }
 
 /**
- * Authentication logging stubs
- * TODO: Implement proper logging infrastructure (database/external service)
+ * Records an authentication outcome in the auth_events table.
+ * Requires the service role client (auth events are written before a session exists);
+ * without it the event only goes to the console.
  */
+async function logAuthEvent(entry: {
+  outcome: "success" | "failure";
+  user_id: string | null;
+  method?: string;
+  message?: string;
+  metadata?: Record<string, unknown>;
+}): Promise<void> {
+  const context = getRequestContext();
+  const email = typeof entry.metadata?.email === "string" ? entry.metadata.email : null;
 
-export function logAuthFailure(userId: string | null, message: string, metadata?: Record<string, unknown>): void {
-  // Stub implementation - logs to console for now
+  try {
+    const client = createServiceRoleClient();
+    if (!client) return;
+
+    const { error } = await client.from("auth_events").insert({
+      outcome: entry.outcome,
+      user_id: entry.user_id,
+      email,
+      method: entry.method ?? null,
+      message: entry.message ?? null,
+      metadata: toJson(entry.metadata),
+      request_id: context?.requestId ?? null,
+      ip: context?.ip ?? null,
+      user_agent: context?.userAgent ?? null,
+    });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Failed to write to auth_events:", error);
+    }
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error("Failed to write to auth_events:", e);
+  }
+}
+
+/**
+ * Records a failed authentication attempt (console and auth_events)
+ */
+export async function logAuthFailure(
+  userId: string | null,
+  message: string,
+  metadata?: Record<string, unknown>
+): Promise<void> {
   // eslint-disable-next-line no-console
   console.error("[AUTH_FAILURE]", {
     userId,
     message,
     metadata,
+    requestId: getRequestContext()?.requestId,
     timestamp: new Date().toISOString(),
   });
+
+  await logAuthEvent({ outcome: "failure", user_id: userId, message, metadata });
 }
 
-export function logAuthSuccess(userId: string, method: string, metadata?: Record<string, unknown>): void {
-  // Stub implementation - logs to console for now
+/**
+ * Records a successful authentication (console and auth_events)
+ *
+ * userId is null for requests made before the user is known (e.g. password reset
+ * requests, which must not reveal whether an account exists).
+ */
+export async function logAuthSuccess(
+  userId: string | null,
+  method: string,
+  metadata?: Record<string, unknown>
+): Promise<void> {
   // eslint-disable-next-line no-console
   console.log("[AUTH_SUCCESS]", {
     userId,
     method,
     metadata,
+    requestId: getRequestContext()?.requestId,
     timestamp: new Date().toISOString(),
   });
+
+  await logAuthEvent({ outcome: "success", user_id: userId, method, metadata });
 }
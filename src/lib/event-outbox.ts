@@ -0,0 +1,39 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { Json } from "@/db/database.types";
+
+/**
+ * Event written to the outbox after a state change that should notify someone
+ */
+export interface OutboxEvent {
+  type: string;
+  resource: "badge_applications" | "promotions";
+  resource_id: string;
+  actor_id?: string | null;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Enqueues an event for the notification worker (see NotificationWorker).
+ *
+ * Best-effort: failures are logged to the console and never thrown, so a
+ * notification outage cannot block the business operation that triggered it.
+ */
+export async function enqueueEvent(supabase: SupabaseClient, event: OutboxEvent): Promise<void> {
+  try {
+    const { error } = await supabase.from("events").insert({
+      type: event.type,
+      resource: event.resource,
+      resource_id: event.resource_id,
+      actor_id: event.actor_id ?? null,
+      payload: (event.payload ?? {}) as Json,
+    });
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to enqueue event ${event.type}:`, error);
+    }
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to enqueue event ${event.type}:`, e);
+  }
+}
@@ -0,0 +1,458 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { Json, TablesInsert } from "@/db/database.types";
+import type { HistoryImportReportDto, ImportRowResult, ValidationErrorDetail } from "@/types";
+import { AuditEventType, AuditResourceType } from "@/types";
+import { historyImportRowSchema, type HistoryImportRow } from "./validation/history-import.validation";
+import { logAuditEvents, type AuditLogEntry } from "./audit-logger";
+import { readCsvRecords } from "./csv";
+
+const REQUIRED_IMPORT_COLUMNS = ["applicant_email", "date_of_application", "reviewer_email"];
+
+/**
+ * Maximum number of data rows accepted in a single historical import
+ */
+export const MAX_HISTORY_IMPORT_ROWS = 2000;
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalizes a plain date or ISO timestamp to an ISO timestamp (plain dates are midnight UTC)
+ */
+function toTimestamp(value: string): string {
+  return DATE_ONLY_REGEX.test(value) ? `${value}T00:00:00.000Z` : new Date(value).toISOString();
+}
+
+/**
+ * A row that passed validation and lookups, ready to be written
+ */
+interface ResolvedRow {
+  row: number;
+  data: HistoryImportRow;
+  applicantId: string;
+  reviewerId: string;
+  badgeId: string;
+  badgeVersion: number;
+}
+
+/**
+ * Historical promotion assembled from the rows sharing a promotion_ref
+ */
+interface ResolvedPromotion {
+  ref: string;
+  applicantId: string;
+  templateId: string;
+  approverId: string | null;
+  rows: ResolvedRow[];
+}
+
+/**
+ * Service class for backfilling already-earned badges and approved promotions
+ *
+ * Teams moving from spreadsheets import their history so that promotions and badge
+ * counts reflect past achievements. Rows are written directly in their final state:
+ * - badge_applications as 'accepted' (or 'used_in_promotion' when part of a promotion)
+ *   with the original dates and reviewer
+ * - promotions as 'approved' and executed, linked through consumed promotion_badges
+ *
+ * Every created record gets a '*.imported' audit log entry tagged with the import batch.
+ */
+export class HistoryImportService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Validates a historical import CSV and, unless dry_run is set, writes it
+   *
+   * Rows duplicating an existing accepted application (same applicant, badge and
+   * application date) or an earlier row are skipped. Nothing is written while any row
+   * is invalid.
+   *
+   * @param csv - CSV document with a header row
+   * @param options - dryRun: only report; actorId: admin performing the import
+   * @returns Import report with per-row results
+   * @throws Error with message 'CSV_UNTERMINATED_QUOTE' if the document is malformed
+   * @throws Error with message 'CSV_EMPTY' if the document has no data rows
+   * @throws Error with message 'CSV_MISSING_COLUMNS' if a required column is missing
+   * @throws Error with message 'CSV_TOO_MANY_ROWS' if the document exceeds MAX_HISTORY_IMPORT_ROWS
+   * @throws Error if database query fails
+   */
+  async importHistory(csv: string, options: { dryRun: boolean; actorId: string }): Promise<HistoryImportReportDto> {
+    // =========================================================================
+    // Step 1: Parse and Validate Rows
+    // =========================================================================
+    const { columns, records } = readCsvRecords(csv);
+
+    if (records.length === 0) {
+      throw new Error("CSV_EMPTY");
+    }
+
+    if (
+      REQUIRED_IMPORT_COLUMNS.some((name) => !columns.includes(name)) ||
+      (!columns.includes("badge_id") && !columns.includes("badge_title"))
+    ) {
+      throw new Error("CSV_MISSING_COLUMNS");
+    }
+
+    if (records.length > MAX_HISTORY_IMPORT_ROWS) {
+      throw new Error("CSV_TOO_MANY_ROWS");
+    }
+
+    const results = new Map<number, ImportRowResult>();
+    const parsed: { row: number; data: HistoryImportRow }[] = [];
+
+    records.forEach((record, index) => {
+      const row = index + 1;
+      const validation = historyImportRowSchema.safeParse(record);
+      const label = [record.applicant_email, record.badge_title || record.badge_id].filter(Boolean).join(" – ") || null;
+
+      if (!validation.success) {
+        results.set(row, {
+          row,
+          label,
+          status: "invalid",
+          errors: validation.error.issues.map((issue) => ({ field: issue.path.join("."), message: issue.message })),
+          duplicate_of: null,
+        });
+        return;
+      }
+
+      results.set(row, { row, label, status: "valid", errors: [], duplicate_of: null });
+      parsed.push({ row, data: validation.data });
+    });
+
+    const markInvalid = (row: number, errors: ValidationErrorDetail[]) => {
+      const result = results.get(row);
+      if (result) {
+        result.status = "invalid";
+        result.errors.push(...errors);
+      }
+    };
+
+    // =========================================================================
+    // Step 2: Resolve Users, Badges and Templates
+    // =========================================================================
+    const emails = [
+      ...new Set(
+        parsed.flatMap(({ data }) =>
+          [data.applicant_email, data.reviewer_email, data.promotion_approver_email]
+            .filter((email): email is string => !!email)
+            .map((email) => email.toLowerCase())
+        )
+      ),
+    ];
+
+    const { data: users, error: usersError } = emails.length
+      ? await this.supabase.from("users").select("id, email").in("email", emails)
+      : { data: [], error: null };
+
+    if (usersError) {
+      throw new Error(`Failed to fetch users: ${usersError.message}`);
+    }
+
+    const userIdByEmail = new Map((users || []).map((user) => [user.email.toLowerCase(), user.id]));
+
+    const { data: badges, error: badgesError } = await this.supabase
+      .from("catalog_badges")
+      .select("id, title, version");
+
+    if (badgesError) {
+      throw new Error(`Failed to fetch catalog badges: ${badgesError.message}`);
+    }
+
+    const badgeById = new Map((badges || []).map((badge) => [badge.id, badge]));
+    const badgesByTitle = new Map<string, typeof badges>();
+    for (const badge of badges || []) {
+      const key = badge.title.trim().toLowerCase();
+      badgesByTitle.set(key, [...(badgesByTitle.get(key) || []), badge]);
+    }
+
+    const resolved: ResolvedRow[] = [];
+
+    for (const { row, data } of parsed) {
+      const errors: ValidationErrorDetail[] = [];
+      const applicantId = userIdByEmail.get(data.applicant_email.toLowerCase());
+      const reviewerId = userIdByEmail.get(data.reviewer_email.toLowerCase());
+
+      if (!applicantId) errors.push({ field: "applicant_email", message: "No user with this email" });
+      if (!reviewerId) errors.push({ field: "reviewer_email", message: "No user with this email" });
+      if (data.promotion_approver_email && !userIdByEmail.has(data.promotion_approver_email.toLowerCase())) {
+        errors.push({ field: "promotion_approver_email", message: "No user with this email" });
+      }
+
+      let badge = data.badge_id ? badgeById.get(data.badge_id) : undefined;
+      if (data.badge_id && !badge) {
+        errors.push({ field: "badge_id", message: "Catalog badge not found" });
+      } else if (!data.badge_id && data.badge_title) {
+        const matches = badgesByTitle.get(data.badge_title.toLowerCase()) || [];
+        if (matches.length === 1) {
+          badge = matches[0];
+        } else {
+          errors.push({
+            field: "badge_title",
+            message: matches.length ? "Several badges share this title; use badge_id" : "Catalog badge not found",
+          });
+        }
+      }
+
+      if (errors.length > 0 || !applicantId || !reviewerId || !badge) {
+        markInvalid(row, errors);
+        continue;
+      }
+
+      resolved.push({ row, data, applicantId, reviewerId, badgeId: badge.id, badgeVersion: badge.version });
+    }
+
+    // =========================================================================
+    // Step 3: Detect Duplicates
+    // =========================================================================
+    const applicantIds = [...new Set(resolved.map((row) => row.applicantId))];
+    const { data: existingApplications, error: existingError } = applicantIds.length
+      ? await this.supabase
+          .from("badge_applications")
+          .select("id, applicant_id, catalog_badge_id, date_of_application")
+          .in("applicant_id", applicantIds)
+          .in("status", ["accepted", "used_in_promotion"])
+      : { data: [], error: null };
+
+    if (existingError) {
+      throw new Error(`Failed to fetch badge applications: ${existingError.message}`);
+    }
+
+    const applicationKey = (applicantId: string, badgeId: string, date: string) => `${applicantId}|${badgeId}|${date}`;
+    const existingKeys = new Map(
+      (existingApplications || []).map((app) => [
+        applicationKey(app.applicant_id, app.catalog_badge_id, app.date_of_application),
+        app.id,
+      ])
+    );
+    const seenKeys = new Map<string, number>();
+    const fresh: ResolvedRow[] = [];
+
+    for (const row of resolved) {
+      const key = applicationKey(row.applicantId, row.badgeId, row.data.date_of_application);
+      const existingId = existingKeys.get(key);
+      const earlierRow = seenKeys.get(key);
+      const result = results.get(row.row);
+
+      if ((existingId || earlierRow) && result) {
+        result.status = "duplicate";
+        result.duplicate_of = { id: existingId ?? null, row: existingId ? null : (earlierRow ?? null) };
+        continue;
+      }
+
+      seenKeys.set(key, row.row);
+      fresh.push(row);
+    }
+
+    // =========================================================================
+    // Step 4: Group Rows into Historical Promotions
+    // =========================================================================
+    const { data: templates, error: templatesError } = await this.supabase
+      .from("promotion_templates")
+      .select("id, path, from_level, to_level, is_active");
+
+    if (templatesError) {
+      throw new Error(`Failed to fetch promotion templates: ${templatesError.message}`);
+    }
+
+    const groups = new Map<string, ResolvedRow[]>();
+    for (const row of fresh) {
+      if (row.data.promotion_ref) {
+        groups.set(row.data.promotion_ref, [...(groups.get(row.data.promotion_ref) || []), row]);
+      }
+    }
+
+    const promotions: ResolvedPromotion[] = [];
+
+    for (const [ref, rows] of groups) {
+      const [first] = rows;
+      const { promotion_path, promotion_from_level, promotion_to_level, promotion_approved_at } = first.data;
+      const errors: ValidationErrorDetail[] = [];
+
+      const inconsistent = rows.some(
+        (row) =>
+          row.applicantId !== first.applicantId ||
+          row.data.promotion_path !== promotion_path ||
+          row.data.promotion_from_level !== promotion_from_level ||
+          row.data.promotion_to_level !== promotion_to_level ||
+          row.data.promotion_approved_at !== promotion_approved_at ||
+          (row.data.promotion_approver_email ?? "").toLowerCase() !==
+            (first.data.promotion_approver_email ?? "").toLowerCase()
+      );
+      if (inconsistent) {
+        errors.push({
+          field: "promotion_ref",
+          message: `Rows of promotion "${ref}" must share the applicant and all promotion columns`,
+        });
+      }
+
+      // Prefer an active template when several match the same path and levels
+      const template = (templates || [])
+        .filter(
+          (t) => t.path === promotion_path && t.from_level === promotion_from_level && t.to_level === promotion_to_level
+        )
+        .sort((a, b) => Number(b.is_active) - Number(a.is_active))[0];
+      if (!template) {
+        errors.push({
+          field: "promotion_path",
+          message: `No promotion template for ${promotion_path} ${promotion_from_level} → ${promotion_to_level}`,
+        });
+      }
+
+      if (errors.length > 0 || !template) {
+        rows.forEach((row) => markInvalid(row.row, errors));
+        continue;
+      }
+
+      promotions.push({
+        ref,
+        applicantId: first.applicantId,
+        templateId: template.id,
+        approverId: first.data.promotion_approver_email
+          ? (userIdByEmail.get(first.data.promotion_approver_email.toLowerCase()) ?? null)
+          : null,
+        rows,
+      });
+    }
+
+    // =========================================================================
+    // Step 5: Build Report
+    // =========================================================================
+    const rows = [...results.values()].sort((a, b) => a.row - b.row);
+    const report: HistoryImportReportDto = {
+      dry_run: options.dryRun,
+      committed: false,
+      total_rows: rows.length,
+      valid_rows: rows.filter((row) => row.status === "valid").length,
+      invalid_rows: rows.filter((row) => row.status === "invalid").length,
+      duplicate_rows: rows.filter((row) => row.status === "duplicate").length,
+      promotion_count: promotions.length,
+      imported_application_ids: [],
+      imported_promotion_ids: [],
+      rows,
+    };
+
+    if (options.dryRun || report.invalid_rows > 0 || report.valid_rows === 0) {
+      return report;
+    }
+
+    // =========================================================================
+    // Step 6: Write Records
+    // =========================================================================
+    return this.writeHistory(fresh, promotions, report, options.actorId);
+  }
+
+  /**
+   * Inserts the resolved applications, promotions and promotion_badges
+   *
+   * IDs are generated up front so the rows can reference each other. The import_history
+   * function writes all of them in one transaction, so a failed import leaves nothing behind.
+   */
+  private async writeHistory(
+    rows: ResolvedRow[],
+    promotions: ResolvedPromotion[],
+    report: HistoryImportReportDto,
+    actorId: string
+  ): Promise<HistoryImportReportDto> {
+    const batchId = crypto.randomUUID();
+    const applicationIds = new Map(rows.map((row) => [row.row, crypto.randomUUID()]));
+    const promotionIds = new Map(promotions.map((promotion) => [promotion.ref, crypto.randomUUID()]));
+
+    const promotionInserts: TablesInsert<"promotions">[] = promotions.map((promotion) => {
+      const approvedAt = toTimestamp(promotion.rows[0].data.promotion_approved_at as string);
+      return {
+        id: promotionIds.get(promotion.ref),
+        template_id: promotion.templateId,
+        created_by: promotion.applicantId,
+        path: promotion.rows[0].data.promotion_path as string,
+        from_level: promotion.rows[0].data.promotion_from_level as string,
+        to_level: promotion.rows[0].data.promotion_to_level as string,
+        status: "approved",
+        created_at: approvedAt,
+        submitted_at: approvedAt,
+        approved_at: approvedAt,
+        approved_by: promotion.approverId,
+        executed: true,
+      };
+    });
+
+    const applicationInserts: TablesInsert<"badge_applications">[] = rows.map((row) => {
+      const acceptedAt = toTimestamp(
+        row.data.accepted_at ?? row.data.date_of_fulfillment ?? row.data.date_of_application
+      );
+      return {
+        id: applicationIds.get(row.row),
+        applicant_id: row.applicantId,
+        catalog_badge_id: row.badgeId,
+        catalog_badge_version: row.badgeVersion,
+        date_of_application: row.data.date_of_application,
+        date_of_fulfillment: row.data.date_of_fulfillment ?? null,
+        reason: row.data.reason ?? null,
+        status: row.data.promotion_ref && promotionIds.has(row.data.promotion_ref) ? "used_in_promotion" : "accepted",
+        created_at: toTimestamp(row.data.date_of_application),
+        submitted_at: acceptedAt,
+        reviewed_by: row.reviewerId,
+        reviewed_at: acceptedAt,
+      };
+    });
+
+    const promotionBadgeInserts: TablesInsert<"promotion_badges">[] = promotions.flatMap((promotion) =>
+      promotion.rows.map((row) => ({
+        promotion_id: promotionIds.get(promotion.ref) as string,
+        badge_application_id: applicationIds.get(row.row) as string,
+        assigned_at: toTimestamp(promotion.rows[0].data.promotion_approved_at as string),
+        assigned_by: promotion.applicantId,
+        consumed: true,
+      }))
+    );
+
+    const { error: importError } = await this.supabase.rpc("import_history", {
+      p_applications: applicationInserts as unknown as Json,
+      p_promotions: promotionInserts as unknown as Json,
+      p_promotion_badges: promotionBadgeInserts as unknown as Json,
+    });
+    if (importError) {
+      throw new Error(`Failed to import history: ${importError.message}`);
+    }
+
+    // =========================================================================
+    // Step 7: Audit Every Imported Record
+    // =========================================================================
+    const auditEntries: AuditLogEntry[] = [
+      ...rows.map((row) => ({
+        event_type: AuditEventType.BadgeApplicationImported,
+        actor_id: actorId,
+        resource_type: AuditResourceType.BadgeApplication,
+        resource_id: applicationIds.get(row.row),
+        payload: {
+          imported: true,
+          batch_id: batchId,
+          row: row.row,
+          applicant_id: row.applicantId,
+          catalog_badge_id: row.badgeId,
+          promotion_ref: row.data.promotion_ref ?? null,
+        },
+      })),
+      ...promotions.map((promotion) => ({
+        event_type: AuditEventType.PromotionImported,
+        actor_id: actorId,
+        resource_type: AuditResourceType.Promotion,
+        resource_id: promotionIds.get(promotion.ref),
+        payload: {
+          imported: true,
+          batch_id: batchId,
+          promotion_ref: promotion.ref,
+          created_by: promotion.applicantId,
+          badge_count: promotion.rows.length,
+        },
+      })),
+    ];
+    await logAuditEvents(this.supabase, auditEntries);
+
+    return {
+      ...report,
+      committed: true,
+      imported_application_ids: [...applicationIds.values()],
+      imported_promotion_ids: [...promotionIds.values()],
+    };
+  }
+}
@@ -0,0 +1,378 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { EventRow, NotificationProcessResultDto } from "@/types";
+import { BadgeApplicationStatus, NotificationChannel, NotificationEventType, PromotionStatus } from "@/types";
+import type { Mailer } from "./smtp-mailer";
+
+/**
+ * Events are retried until this many attempts have failed
+ */
+export const MAX_EVENT_ATTEMPTS = 5;
+
+/**
+ * Resource statuses under which an event is still delivered
+ *
+ * Events are written by the acting user's request, so the worker only trusts the
+ * resource itself: an event whose resource is not (or no longer) in one of these
+ * statuses is stale or forged and is skipped.
+ */
+const EXPECTED_STATUSES: Record<string, string[]> = {
+  [NotificationEventType.BadgeApplicationSubmitted]: [BadgeApplicationStatus.Submitted],
+  [NotificationEventType.BadgeApplicationAccepted]: [
+    BadgeApplicationStatus.Accepted,
+    BadgeApplicationStatus.UsedInPromotion,
+  ],
+  [NotificationEventType.BadgeApplicationRejected]: [BadgeApplicationStatus.Rejected],
+  [NotificationEventType.PromotionSubmitted]: [PromotionStatus.Submitted],
+  [NotificationEventType.PromotionApproved]: [PromotionStatus.Approved],
+  [NotificationEventType.PromotionRejected]: [PromotionStatus.Rejected],
+};
+
+/**
+ * What a single event turns into: who is told, and what they are told
+ */
+interface NotificationPlan {
+  recipientIds: string[];
+  title: string;
+  body: string;
+  link: string;
+}
+
+/**
+ * Delivery counters for one event
+ */
+interface DeliveryResult {
+  notifications: number;
+  emailsSent: number;
+  emailErrors: string[];
+}
+
+interface BadgeApplicationContext {
+  id: string;
+  applicant_id: string;
+  status: string;
+  reviewed_by: string | null;
+  catalog_badge: { title: string } | null;
+  applicant: { display_name: string } | null;
+}
+
+interface PromotionContext {
+  id: string;
+  created_by: string | null;
+  status: string;
+  approved_by: string | null;
+  rejected_by: string | null;
+  path: string;
+  from_level: string;
+  to_level: string;
+  creator: { display_name: string } | null;
+}
+
+/**
+ * Notification worker
+ *
+ * Drains the events outbox written by BadgeApplicationService and PromotionService:
+ * - Resolves recipients (admins for submissions, the owner for review decisions)
+ * - Applies each recipient's opt-out preferences per channel
+ * - Creates in-app notifications (idempotent per event and user)
+ * - Sends email through the configured Mailer (skipped when none is configured)
+ *
+ * Must run with a client that bypasses RLS (see createServiceRoleClient), because it
+ * reads events and writes notifications on behalf of many users.
+ */
+export class NotificationWorker {
+  constructor(
+    private supabase: SupabaseClient,
+    private mailer: Mailer | null,
+    private appUrl = "http://localhost:3000"
+  ) {}
+
+  /**
+   * Processes pending events, oldest first
+   *
+   * Events that fail (e.g. notification insert error) are retried on the next run
+   * until MAX_EVENT_ATTEMPTS is reached. Email delivery failures do not fail the
+   * event; they are recorded in events.last_error.
+   *
+   * @param limit - Maximum number of events handled in this run
+   * @returns Counters for the run
+   * @throws Error if pending events cannot be fetched
+   */
+  async processPendingEvents(limit = 50): Promise<NotificationProcessResultDto> {
+    const { data: events, error } = await this.supabase
+      .from("events")
+      .select("*")
+      .is("processed_at", null)
+      .lt("attempts", MAX_EVENT_ATTEMPTS)
+      .order("created_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch pending events: ${error.message}`);
+    }
+
+    const result: NotificationProcessResultDto = {
+      processed_events: 0,
+      failed_events: 0,
+      notifications_created: 0,
+      emails_sent: 0,
+      email_failures: 0,
+    };
+
+    for (const event of (events ?? []) as EventRow[]) {
+      try {
+        const delivery = await this.processEvent(event);
+
+        await this.supabase
+          .from("events")
+          .update({
+            processed_at: new Date().toISOString(),
+            attempts: event.attempts + 1,
+            last_error: delivery.emailErrors.length > 0 ? delivery.emailErrors.join("; ") : null,
+          })
+          .eq("id", event.id);
+
+        result.processed_events++;
+        result.notifications_created += delivery.notifications;
+        result.emails_sent += delivery.emailsSent;
+        result.email_failures += delivery.emailErrors.length;
+      } catch (e) {
+        result.failed_events++;
+        await this.supabase
+          .from("events")
+          .update({ attempts: event.attempts + 1, last_error: e instanceof Error ? e.message : String(e) })
+          .eq("id", event.id);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Delivers one event to its recipients on every channel they have not opted out of
+   */
+  private async processEvent(event: EventRow): Promise<DeliveryResult> {
+    const delivery: DeliveryResult = { notifications: 0, emailsSent: 0, emailErrors: [] };
+
+    const plan = await this.planNotifications(event);
+    if (!plan || plan.recipientIds.length === 0) {
+      return delivery;
+    }
+
+    const { data: users, error: usersError } = await this.supabase
+      .from("users")
+      .select("id, email")
+      .in("id", plan.recipientIds);
+
+    if (usersError) {
+      throw new Error(`Failed to fetch recipients: ${usersError.message}`);
+    }
+
+    const { data: preferences, error: preferencesError } = await this.supabase
+      .from("notification_preferences")
+      .select("user_id, channel, enabled")
+      .eq("event_type", event.type)
+      .in("user_id", plan.recipientIds);
+
+    if (preferencesError) {
+      throw new Error(`Failed to fetch notification preferences: ${preferencesError.message}`);
+    }
+
+    const optedOut = new Set(
+      (preferences ?? []).filter((pref) => !pref.enabled).map((pref) => `${pref.user_id}:${pref.channel}`)
+    );
+    const wants = (userId: string, channel: string) => !optedOut.has(`${userId}:${channel}`);
+
+    // In-app: one row per (event, user); retries never duplicate
+    const inAppRecipients = (users ?? []).filter((user) => wants(user.id, NotificationChannel.InApp));
+    if (inAppRecipients.length > 0) {
+      const { error: insertError } = await this.supabase.from("notifications").upsert(
+        inAppRecipients.map((user) => ({
+          user_id: user.id,
+          event_id: event.id,
+          type: event.type,
+          title: plan.title,
+          body: plan.body,
+          link: plan.link,
+        })),
+        { onConflict: "event_id,user_id", ignoreDuplicates: true }
+      );
+
+      if (insertError) {
+        throw new Error(`Failed to create notifications: ${insertError.message}`);
+      }
+      delivery.notifications = inAppRecipients.length;
+    }
+
+    // Email: best-effort per recipient
+    if (this.mailer) {
+      const emailRecipients = (users ?? []).filter((user) => wants(user.id, NotificationChannel.Email));
+      for (const user of emailRecipients) {
+        try {
+          await this.mailer.send({
+            to: user.email,
+            subject: plan.title,
+            text: [
+              plan.body,
+              "",
+              `${this.appUrl}${plan.link}`,
+              "",
+              `You can turn these emails off in your notification settings: ${this.appUrl}/settings/notifications`,
+            ].join("\n"),
+          });
+          delivery.emailsSent++;
+        } catch (e) {
+          delivery.emailErrors.push(`${user.email}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Resolves recipients and message content for an event
+   *
+   * @returns Plan, or null when the event type is unknown, its resource no longer exists
+   *          or the resource does not match the event (see isCurrentEvent)
+   */
+  private async planNotifications(event: EventRow): Promise<NotificationPlan | null> {
+    const payload = (event.payload ?? {}) as Record<string, unknown>;
+    const note = (key: string) => (typeof payload[key] === "string" && payload[key] ? ` Note: ${payload[key]}` : "");
+
+    switch (event.type) {
+      case NotificationEventType.BadgeApplicationSubmitted:
+      case NotificationEventType.BadgeApplicationAccepted:
+      case NotificationEventType.BadgeApplicationRejected: {
+        const application = await this.fetchBadgeApplication(event.resource_id);
+        if (!application) return null;
+        const decidedBy =
+          event.type === NotificationEventType.BadgeApplicationSubmitted ? undefined : application.reviewed_by;
+        if (!isCurrentEvent(event, application.status, decidedBy)) return null;
+        const badge = application.catalog_badge?.title ?? "a badge";
+
+        if (event.type === NotificationEventType.BadgeApplicationSubmitted) {
+          return {
+            recipientIds: await this.fetchAdminIds(event.actor_id),
+            title: `New badge application: ${badge}`,
+            body: `${application.applicant?.display_name ?? "A user"} submitted "${badge}" for review.`,
+            link: "/admin/review",
+          };
+        }
+
+        if (payload.notify_applicant === false) return null;
+        const outcome = event.type === NotificationEventType.BadgeApplicationAccepted ? "accepted" : "rejected";
+        return {
+          recipientIds: [application.applicant_id],
+          title: `Badge application ${outcome}: ${badge}`,
+          body: `Your application for "${badge}" was ${outcome}.${note("review_reason")}`,
+          link: `/applications/${application.id}`,
+        };
+      }
+
+      case NotificationEventType.PromotionSubmitted:
+      case NotificationEventType.PromotionApproved:
+      case NotificationEventType.PromotionRejected: {
+        const promotion = await this.fetchPromotion(event.resource_id);
+        if (!promotion) return null;
+        const decidedBy =
+          event.type === NotificationEventType.PromotionSubmitted
+            ? undefined
+            : event.type === NotificationEventType.PromotionApproved
+              ? promotion.approved_by
+              : promotion.rejected_by;
+        if (!isCurrentEvent(event, promotion.status, decidedBy)) return null;
+        const levels = `${promotion.from_level} → ${promotion.to_level}`;
+
+        if (event.type === NotificationEventType.PromotionSubmitted) {
+          return {
+            recipientIds: await this.fetchAdminIds(event.actor_id),
+            title: `New promotion request: ${levels}`,
+            body: `${promotion.creator?.display_name ?? "A user"} submitted a ${promotion.path} promotion (${levels}) for review.`,
+            link: `/promotions/${promotion.id}`,
+          };
+        }
+
+        if (!promotion.created_by) return null;
+        const outcome = event.type === NotificationEventType.PromotionApproved ? "approved" : "rejected";
+        return {
+          recipientIds: [promotion.created_by],
+          title: `Promotion ${outcome}: ${levels}`,
+          body: `Your ${promotion.path} promotion (${levels}) was ${outcome}.${note("reject_reason")}`,
+          link: `/promotions/${promotion.id}`,
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Active admins receive submission notifications, except the admin who submitted
+   */
+  private async fetchAdminIds(actorId: string | null): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from("users")
+      .select("id")
+      .eq("is_admin", true)
+      .is("deactivated_at", null);
+
+    if (error) {
+      throw new Error(`Failed to fetch admins: ${error.message}`);
+    }
+
+    return (data ?? []).map((user) => user.id).filter((id) => id !== actorId);
+  }
+
+  private async fetchBadgeApplication(id: string | null): Promise<BadgeApplicationContext | null> {
+    if (!id) return null;
+
+    const { data, error } = await this.supabase
+      .from("badge_applications")
+      .select(
+        "id, applicant_id, status, reviewed_by, catalog_badge:catalog_badges(title), applicant:users!applicant_id(display_name)"
+      )
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if ((error as { code?: string }).code === "PGRST116") return null;
+      throw new Error(`Failed to fetch badge application: ${error.message}`);
+    }
+
+    return data as unknown as BadgeApplicationContext;
+  }
+
+  private async fetchPromotion(id: string | null): Promise<PromotionContext | null> {
+    if (!id) return null;
+
+    const { data, error } = await this.supabase
+      .from("promotions")
+      .select(
+        "id, created_by, status, approved_by, rejected_by, path, from_level, to_level, creator:users!created_by(display_name)"
+      )
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if ((error as { code?: string }).code === "PGRST116") return null;
+      throw new Error(`Failed to fetch promotion: ${error.message}`);
+    }
+
+    return data as unknown as PromotionContext;
+  }
+}
+
+/**
+ * Checks an event against the current state of its resource
+ *
+ * @param status - Current status of the resource
+ * @param decidedBy - Reviewer recorded on the resource for review decisions;
+ *                    undefined for submissions, which have no reviewer yet
+ * @returns True when the resource is in a status the event describes and, for
+ *          decisions, the event was written by the reviewer recorded on it
+ */
+function isCurrentEvent(event: EventRow, status: string, decidedBy?: string | null): boolean {
+  if (!(EXPECTED_STATUSES[event.type] ?? []).includes(status)) return false;
+  return decidedBy === undefined || (decidedBy !== null && decidedBy === event.actor_id);
+}
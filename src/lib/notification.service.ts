@@ -0,0 +1,169 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type {
+  NotificationChannelType,
+  NotificationDto,
+  NotificationEventTypeType,
+  NotificationListResponse,
+  NotificationPreferenceDto,
+  NotificationPreferencesResponse,
+} from "@/types";
+import { NotificationChannel, NotificationEventType } from "@/types";
+import type { ListNotificationsQuery } from "./validation/notification.validation";
+
+const NOTIFICATION_COLUMNS = "id, user_id, type, title, body, link, read_at, created_at";
+
+/**
+ * Service class for the signed-in user's notifications
+ *
+ * Handles the in-app notification inbox and per-user opt-out preferences.
+ * Notifications are created by NotificationWorker from the events outbox; every
+ * query here runs under the user's own session and is scoped by RLS as well as
+ * by an explicit user_id filter.
+ */
+export class NotificationService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Lists the user's notifications, newest first
+   *
+   * @param userId - Current user ID
+   * @param query - Validated query parameters
+   * @returns Paginated notifications with the total unread count
+   * @throws Error if database query fails
+   */
+  async listNotifications(userId: string, query: ListNotificationsQuery): Promise<NotificationListResponse> {
+    let dataQuery = this.supabase.from("notifications").select(NOTIFICATION_COLUMNS).eq("user_id", userId);
+    let countQuery = this.supabase
+      .from("notifications")
+      .select("*", { count: "exact", head: true })
+      .eq("user_id", userId);
+
+    if (query.unread_only) {
+      dataQuery = dataQuery.is("read_at", null);
+      countQuery = countQuery.is("read_at", null);
+    }
+
+    const unreadQuery = this.supabase
+      .from("notifications")
+      .select("*", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null);
+
+    const [{ data, error }, { count, error: countError }, { count: unreadCount, error: unreadError }] =
+      await Promise.all([
+        dataQuery.order("created_at", { ascending: false }).range(query.offset, query.offset + query.limit - 1),
+        countQuery,
+        unreadQuery,
+      ]);
+
+    if (error) {
+      throw new Error(`Failed to fetch notifications: ${error.message}`);
+    }
+    if (countError || unreadError) {
+      throw new Error(`Failed to count notifications: ${(countError ?? unreadError)?.message}`);
+    }
+
+    const total = count ?? 0;
+
+    return {
+      data: (data ?? []) as NotificationDto[],
+      pagination: {
+        total,
+        limit: query.limit,
+        offset: query.offset,
+        has_more: query.offset + query.limit < total,
+      },
+      unread_count: unreadCount ?? 0,
+    };
+  }
+
+  /**
+   * Marks notifications as read
+   *
+   * @param userId - Current user ID
+   * @param ids - Notification IDs; when omitted every unread notification is marked
+   * @returns Number of notifications that changed
+   * @throws Error if database update fails
+   */
+  async markAsRead(userId: string, ids?: string[]): Promise<{ updated: number }> {
+    let query = this.supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("read_at", null);
+
+    if (ids) {
+      query = query.in("id", ids);
+    }
+
+    const { data, error } = await query.select("id");
+
+    if (error) {
+      throw new Error(`Failed to mark notifications as read: ${error.message}`);
+    }
+
+    return { updated: data?.length ?? 0 };
+  }
+
+  /**
+   * Returns every (event type, channel) preference of the user
+   * Combinations without a stored row are reported as enabled.
+   *
+   * @param userId - Current user ID
+   * @throws Error if database query fails
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferencesResponse> {
+    const { data, error } = await this.supabase
+      .from("notification_preferences")
+      .select("event_type, channel, enabled")
+      .eq("user_id", userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+    }
+
+    const stored = new Map((data ?? []).map((row) => [`${row.event_type}:${row.channel}`, row.enabled]));
+
+    const preferences: NotificationPreferenceDto[] = [];
+    for (const eventType of Object.values(NotificationEventType)) {
+      for (const channel of Object.values(NotificationChannel)) {
+        preferences.push({
+          event_type: eventType,
+          channel,
+          enabled: stored.get(`${eventType}:${channel}`) ?? true,
+        });
+      }
+    }
+
+    return { preferences };
+  }
+
+  /**
+   * Stores preferences (upsert per event type and channel)
+   *
+   * @param userId - Current user ID
+   * @param preferences - Preferences to change; others are left untouched
+   * @returns Full preference list after the update
+   * @throws Error if database upsert fails
+   */
+  async updatePreferences(
+    userId: string,
+    preferences: { event_type: string; channel: string; enabled: boolean }[]
+  ): Promise<NotificationPreferencesResponse> {
+    const { error } = await this.supabase.from("notification_preferences").upsert(
+      preferences.map((preference) => ({
+        user_id: userId,
+        event_type: preference.event_type as NotificationEventTypeType,
+        channel: preference.channel as NotificationChannelType,
+        enabled: preference.enabled,
+      })),
+      { onConflict: "user_id,event_type,channel" }
+    );
+
+    if (error) {
+      throw new Error(`Failed to update notification preferences: ${error.message}`);
+    }
+
+    return this.getPreferences(userId);
+  }
+}
@@ -0,0 +1,294 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { ImportRowResult, OrgChartImportReportDto, ValidationErrorDetail } from "@/types";
+import { AuditEventType, AuditResourceType } from "@/types";
+import { orgChartImportRowSchema, type OrgChartImportRow } from "./validation/user.validation";
+import { logAuditEvents, type AuditLogEntry } from "./audit-logger";
+import { readCsvRecords } from "./csv";
+
+const REQUIRED_IMPORT_COLUMNS = ["email", "manager_email"];
+
+/**
+ * Maximum number of data rows accepted in a single org chart import
+ */
+export const MAX_ORG_CHART_IMPORT_ROWS = 5000;
+
+/**
+ * Manager and team of a user, before or after the import
+ */
+interface Assignment {
+  manager_id: string | null;
+  team: string | null;
+}
+
+/**
+ * A row that passed validation and lookups and changes its user
+ */
+interface ResolvedRow {
+  row: number;
+  userId: string;
+  email: string;
+  previous: Assignment;
+  next: Assignment;
+}
+
+/**
+ * Service class for importing the reporting structure (org chart) from CSV
+ *
+ * Each row names a user by email and sets their manager (by email) and, when the
+ * team column is present, their team. The resulting hierarchy is checked for
+ * cycles before anything is written.
+ */
+export class OrgChartImportService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Validates an org chart CSV and, unless dry_run is set, applies it
+   *
+   * Rows that match the current assignment are reported as duplicates and skipped.
+   * Nothing is written while any row is invalid.
+   *
+   * @param csv - CSV document with a header row
+   * @param options - dryRun: only report; actorId: admin performing the import
+   * @returns Import report with per-row results
+   * @throws Error with message 'CSV_UNTERMINATED_QUOTE' if the document is malformed
+   * @throws Error with message 'CSV_EMPTY' if the document has no data rows
+   * @throws Error with message 'CSV_MISSING_COLUMNS' if a required column is missing
+   * @throws Error with message 'CSV_TOO_MANY_ROWS' if the document exceeds MAX_ORG_CHART_IMPORT_ROWS
+   * @throws Error if database query fails
+   */
+  async importOrgChart(csv: string, options: { dryRun: boolean; actorId: string }): Promise<OrgChartImportReportDto> {
+    // =========================================================================
+    // Step 1: Parse and Validate Rows
+    // =========================================================================
+    const { columns, records } = readCsvRecords(csv);
+
+    if (records.length === 0) {
+      throw new Error("CSV_EMPTY");
+    }
+
+    if (REQUIRED_IMPORT_COLUMNS.some((name) => !columns.includes(name))) {
+      throw new Error("CSV_MISSING_COLUMNS");
+    }
+
+    if (records.length > MAX_ORG_CHART_IMPORT_ROWS) {
+      throw new Error("CSV_TOO_MANY_ROWS");
+    }
+
+    const results = new Map<number, ImportRowResult>();
+    const parsed: { row: number; data: OrgChartImportRow }[] = [];
+
+    records.forEach((record, index) => {
+      const row = index + 1;
+      const validation = orgChartImportRowSchema.safeParse(record);
+      const label = record.email || null;
+
+      if (!validation.success) {
+        results.set(row, {
+          row,
+          label,
+          status: "invalid",
+          errors: validation.error.issues.map((issue) => ({ field: issue.path.join("."), message: issue.message })),
+          duplicate_of: null,
+        });
+        return;
+      }
+
+      results.set(row, { row, label, status: "valid", errors: [], duplicate_of: null });
+      parsed.push({ row, data: validation.data });
+    });
+
+    const markInvalid = (row: number, errors: ValidationErrorDetail[]) => {
+      const result = results.get(row);
+      if (result) {
+        result.status = "invalid";
+        result.errors.push(...errors);
+      }
+    };
+
+    // =========================================================================
+    // Step 2: Resolve Users
+    // =========================================================================
+    const { data: users, error: usersError } = await this.supabase
+      .from("users")
+      .select("id, email, manager_id, team, deactivated_at");
+
+    if (usersError) {
+      throw new Error(`Failed to fetch users: ${usersError.message}`);
+    }
+
+    const userByEmail = new Map((users || []).map((user) => [user.email.toLowerCase(), user]));
+    const assignments = new Map<string, Assignment>(
+      (users || []).map((user) => [user.id, { manager_id: user.manager_id, team: user.team }])
+    );
+
+    const firstRowByUser = new Map<string, number>();
+    const resolved: ResolvedRow[] = [];
+
+    for (const { row, data } of parsed) {
+      const errors: ValidationErrorDetail[] = [];
+      const user = userByEmail.get(data.email.toLowerCase());
+      const manager = data.manager_email ? userByEmail.get(data.manager_email.toLowerCase()) : null;
+
+      if (!user) errors.push({ field: "email", message: "No user with this email" });
+      if (manager === undefined) {
+        errors.push({ field: "manager_email", message: "No user with this email" });
+      } else if (manager && user && manager.id === user.id) {
+        errors.push({ field: "manager_email", message: "A user cannot be their own manager" });
+      } else if (manager?.deactivated_at) {
+        errors.push({ field: "manager_email", message: "Manager account is deactivated" });
+      }
+
+      const earlierRow = user ? firstRowByUser.get(user.id) : undefined;
+      if (earlierRow) {
+        errors.push({ field: "email", message: `User is already assigned in row ${earlierRow}` });
+      } else if (user) {
+        firstRowByUser.set(user.id, row);
+      }
+
+      if (errors.length > 0 || !user || manager === undefined) {
+        markInvalid(row, errors);
+        continue;
+      }
+
+      const previous = { manager_id: user.manager_id, team: user.team };
+      const next = {
+        manager_id: manager?.id ?? null,
+        team: data.team === undefined ? user.team : data.team,
+      };
+
+      if (previous.manager_id === next.manager_id && previous.team === next.team) {
+        const result = results.get(row);
+        if (result) {
+          result.status = "duplicate";
+          result.duplicate_of = { id: user.id, row: null };
+        }
+        continue;
+      }
+
+      assignments.set(user.id, next);
+      resolved.push({ row, userId: user.id, email: user.email, previous, next });
+    }
+
+    // =========================================================================
+    // Step 3: Reject Reporting Cycles
+    // =========================================================================
+    for (const row of resolved) {
+      const visited = new Set<string>([row.userId]);
+      let managerId = row.next.manager_id;
+
+      while (managerId && !visited.has(managerId)) {
+        visited.add(managerId);
+        managerId = assignments.get(managerId)?.manager_id ?? null;
+      }
+
+      if (managerId) {
+        markInvalid(row.row, [{ field: "manager_email", message: "This manager would create a reporting cycle" }]);
+      }
+    }
+
+    // =========================================================================
+    // Step 4: Build Report
+    // =========================================================================
+    const rows = [...results.values()].sort((a, b) => a.row - b.row);
+    const report: OrgChartImportReportDto = {
+      dry_run: options.dryRun,
+      committed: false,
+      total_rows: rows.length,
+      valid_rows: rows.filter((row) => row.status === "valid").length,
+      invalid_rows: rows.filter((row) => row.status === "invalid").length,
+      duplicate_rows: rows.filter((row) => row.status === "duplicate").length,
+      updated_user_ids: [],
+      rows,
+    };
+
+    if (options.dryRun || report.invalid_rows > 0 || report.valid_rows === 0) {
+      return report;
+    }
+
+    // =========================================================================
+    // Step 5: Write Assignments
+    // =========================================================================
+    return this.writeAssignments(resolved, report, options.actorId);
+  }
+
+  /**
+   * Applies the resolved assignments
+   *
+   * Managers are cleared first and set afterwards, so the cycle check in the database
+   * never sees an intermediate state (e.g. two users swapping places) as a cycle.
+   * If an update fails, the previous assignments are restored (best-effort).
+   */
+  private async writeAssignments(
+    rows: ResolvedRow[],
+    report: OrgChartImportReportDto,
+    actorId: string
+  ): Promise<OrgChartImportReportDto> {
+    const batchId = crypto.randomUUID();
+    const reassigned = rows.filter((row) => row.previous.manager_id !== row.next.manager_id);
+
+    const rollback = async () => {
+      if (reassigned.length) {
+        await this.supabase
+          .from("users")
+          .update({ manager_id: null })
+          .in(
+            "id",
+            reassigned.map((row) => row.userId)
+          );
+      }
+      for (const row of rows) {
+        await this.supabase.from("users").update(row.previous).eq("id", row.userId);
+      }
+    };
+
+    if (reassigned.length) {
+      const { error: clearError } = await this.supabase
+        .from("users")
+        .update({ manager_id: null })
+        .in(
+          "id",
+          reassigned.map((row) => row.userId)
+        );
+
+      if (clearError) {
+        throw new Error(`Failed to update managers: ${clearError.message}`);
+      }
+    }
+
+    for (const row of rows) {
+      const { error } = await this.supabase.from("users").update(row.next).eq("id", row.userId);
+
+      if (error) {
+        await rollback();
+        throw new Error(`Failed to update user ${row.email}: ${error.message}`);
+      }
+    }
+
+    // =========================================================================
+    // Step 6: Audit Every Changed User
+    // =========================================================================
+    const auditEntries: AuditLogEntry[] = rows.map((row) => ({
+      event_type: AuditEventType.UserOrgChartImported,
+      actor_id: actorId,
+      resource_type: AuditResourceType.User,
+      resource_id: row.userId,
+      payload: {
+        imported: true,
+        batch_id: batchId,
+        row: row.row,
+        email: row.email,
+        previous_manager_id: row.previous.manager_id,
+        manager_id: row.next.manager_id,
+        previous_team: row.previous.team,
+        team: row.next.team,
+      },
+    }));
+    await logAuditEvents(this.supabase, auditEntries);
+
+    return {
+      ...report,
+      committed: true,
+      updated_user_ids: rows.map((row) => row.userId),
+    };
+  }
+}
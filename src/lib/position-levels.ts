@@ -0,0 +1,130 @@
+import positionLevelsConfig from "@/config/position-levels.json";
+import type { CurrentPosition, PositionLevelsResponse, PromotionPathType } from "@/types";
+
+/**
+ * Career ladder from src/config/position-levels.json
+ *
+ * Used until an admin records a career ladder version (see CareerLadderService), and
+ * as the default ladder of the helpers below.
+ */
+export const positionLevels = positionLevelsConfig as unknown as PositionLevelsResponse;
+
+/**
+ * Checks whether a level exists on a career path
+ */
+export function isPositionLevel(path: string, level: string, ladder: PositionLevelsResponse = positionLevels): boolean {
+  const levels = ladder.positions[path as PromotionPathType];
+  return !!levels && Object.prototype.hasOwnProperty.call(levels, level);
+}
+
+/**
+ * Lists the levels a career path starts at (levels no other level of the path leads to)
+ */
+export function entryLevels(path: PromotionPathType, ladder: PositionLevelsResponse = positionLevels): string[] {
+  const levels = ladder.positions[path] ?? {};
+  const reachable = new Set(Object.values(levels).map((definition) => definition.next_level));
+  return Object.keys(levels).filter((level) => !reachable.has(level));
+}
+
+/**
+ * Checks whether a promotion template can be used from a user's current position
+ *
+ * Templates must start at the user's current path and level. Users without a recorded
+ * position can only use templates that start at an entry level of their path.
+ */
+export function isTemplateAvailableForPosition(
+  template: { path: string; from_level: string },
+  position: CurrentPosition | null,
+  ladder: PositionLevelsResponse = positionLevels
+): boolean {
+  if (!position) {
+    return entryLevels(template.path as PromotionPathType, ladder).includes(template.from_level);
+  }
+
+  return template.path === position.path && template.from_level === position.level;
+}
+
+/**
+ * Problem found in the next_level chain of a career path
+ */
+export interface LadderChainIssue {
+  path: string;
+  level: string | null;
+  message: string;
+}
+
+/**
+ * Checks that every career path is a single chain of levels
+ *
+ * Each next_level must exist on the same path and at most one level may lead to it;
+ * the path must have exactly one entry level, and following next_level from there must
+ * visit every level without returning to one (no cycles, no unreachable levels).
+ *
+ * @returns Issues found, empty if every path is a complete chain
+ */
+export function ladderChainIssues(ladder: {
+  positions: Record<string, Record<string, { next_level?: string }>>;
+}): LadderChainIssue[] {
+  const issues: LadderChainIssue[] = [];
+
+  for (const [path, levels] of Object.entries(ladder.positions)) {
+    const names = Object.keys(levels);
+    if (names.length === 0) {
+      issues.push({ path, level: null, message: "Career path has no levels" });
+      continue;
+    }
+
+    const predecessors = new Map<string, string[]>();
+    for (const [level, definition] of Object.entries(levels)) {
+      const next = definition.next_level;
+      if (next === undefined) {
+        continue;
+      }
+      if (!Object.prototype.hasOwnProperty.call(levels, next)) {
+        issues.push({ path, level, message: `next_level ${next} is not a level of the ${path} path` });
+        continue;
+      }
+      predecessors.set(next, [...(predecessors.get(next) ?? []), level]);
+    }
+
+    for (const [level, from] of predecessors) {
+      if (from.length > 1) {
+        issues.push({ path, level, message: `Level ${level} is the next level of ${from.join(", ")}` });
+      }
+    }
+
+    const entries = names.filter((level) => !predecessors.has(level));
+    if (entries.length !== 1) {
+      issues.push({
+        path,
+        level: null,
+        message:
+          entries.length === 0
+            ? "Career path has no entry level (its levels form a cycle)"
+            : `Career path has several entry levels: ${entries.join(", ")}`,
+      });
+      continue;
+    }
+
+    const visited = new Set<string>();
+    let level: string | undefined = entries[0];
+    while (level !== undefined && !visited.has(level) && Object.prototype.hasOwnProperty.call(levels, level)) {
+      visited.add(level);
+      level = levels[level].next_level;
+    }
+
+    if (level !== undefined && visited.has(level)) {
+      issues.push({ path, level, message: `Level ${level} is reached twice (the chain has a cycle)` });
+    }
+    const unreachable = names.filter((name) => !visited.has(name));
+    if (unreachable.length > 0) {
+      issues.push({
+        path,
+        level: null,
+        message: `Levels not reachable from ${entries[0]}: ${unreachable.join(", ")}`,
+      });
+    }
+  }
+
+  return issues;
+}
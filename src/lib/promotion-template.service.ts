@@ -8,11 +8,18 @@ import type {
   UpdatePromotionTemplateCommand,
   PaginatedResponse,
   PaginationMetadata,
-  PromotionTemplateRule,
+  PromotionTemplateVersionDto,
+  PromotionTemplateVersionRow,
+  UserSummary,
 } from "../types";
-import type { ListPromotionTemplatesQuery } from "./validation/promotion-template.validation";
-import { AuditEventType } from "../types";
+import {
+  PROMOTION_RULES_VERSION,
+  upgradeTemplateRules,
+  type ListPromotionTemplatesQuery,
+} from "./validation/promotion-template.validation";
+import { AuditEventType, AuditResourceType } from "../types";
 import type { Json } from "@/db/database.types.ts";
+import { logAuditEvent } from "./audit-logger";
 
 /**
  * Service class for promotion template operations
@@ -20,7 +27,9 @@ import type { Json } from "@/db/database.types.ts";
  * Handles business logic for promotion templates including:
  * - Listing templates with filters, sorting, and pagination
  * - Fetching single template by ID
- * - JSONB rules field conversion to typed TypeScript array
+ * - JSONB rules field conversion to typed TypeScript array (upgraded to the current
+ *   rules schema version)
+ * - Template versions (edits create a new version, earlier ones stay readable)
  */
 export class PromotionTemplateService {
   constructor(private supabase: SupabaseClient) {}
@@ -87,18 +96,21 @@ export class PromotionTemplateService {
     }
 
     // Transform data to DTO format
-    // JSONB rules field is automatically parsed by Supabase, we just need type assertion
+    // JSONB rules field is automatically parsed by Supabase, older rule versions are upgraded
     const templates: PromotionTemplateListItemDto[] = (data || []).map((template: PromotionTemplateRow) => ({
       id: template.id,
       name: template.name,
       path: template.path,
       from_level: template.from_level,
       to_level: template.to_level,
-      rules: template.rules as unknown as PromotionTemplateRule[], // Type assertion for JSONB
+      rules: upgradeTemplateRules(template.rules, template.rules_version),
+      rules_version: PROMOTION_RULES_VERSION,
+      version: template.version,
       is_active: template.is_active,
       created_by: template.created_by,
       created_at: template.created_at,
       updated_at: template.updated_at,
+      updated_by: template.updated_by,
     }));
 
     // Build pagination metadata
@@ -154,6 +166,7 @@ export class PromotionTemplateService {
       from_level: command.from_level,
       to_level: command.to_level,
       rules: command.rules as unknown as Json,
+      rules_version: PROMOTION_RULES_VERSION,
       is_active: true,
       created_by: actorId ?? null,
     };
@@ -164,24 +177,18 @@ export class PromotionTemplateService {
       throw new Error(`Failed to create promotion template: ${error.message}`);
     }
 
-    // Best-effort audit log
-    try {
-      await this.supabase.from("audit_logs").insert({
-        event_type: AuditEventType.PromotionCreated,
-        actor_id: actorId ?? null,
-        payload: {
-          id: data.id,
-          name: data.name,
-          path: data.path,
-          from_level: data.from_level,
-          to_level: data.to_level,
-        },
-      });
-    } catch (e) {
-      // swallow audit errors - non-fatal
-      // eslint-disable-next-line no-console
-      console.error("Failed to write audit log for promotion template creation:", e);
-    }
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.PromotionTemplateCreated,
+      actor_id: actorId ?? null,
+      resource_type: AuditResourceType.PromotionTemplate,
+      resource_id: data.id,
+      payload: {
+        name: data.name,
+        path: data.path,
+        from_level: data.from_level,
+        to_level: data.to_level,
+      },
+    });
 
     // Return typed DTO
     return {
@@ -190,21 +197,32 @@ export class PromotionTemplateService {
       path: data.path,
       from_level: data.from_level,
       to_level: data.to_level,
-      rules: data.rules as unknown as PromotionTemplateRule[],
+      rules: upgradeTemplateRules(data.rules, data.rules_version),
+      rules_version: PROMOTION_RULES_VERSION,
+      version: data.version,
       is_active: data.is_active,
       created_by: data.created_by,
       created_at: data.created_at,
       updated_at: data.updated_at,
+      updated_by: data.updated_by,
     };
   }
 
   /**
    * Updates an existing promotion template
+   *
+   * Changes to the name, path, levels or rules create a new template version; the
+   * previous one is archived in promotion_template_versions (by a database trigger) so
+   * promotions keep the rules they were created against (promotions.template_version).
+   * Activation changes do not create a version, and updates that do not change any
+   * field are a no-op.
+   *
    * @param id - template uuid
    * @param command - update command with partial fields
    * @param actorId - optional actor performing the update
    * @returns updated PromotionTemplateDto
    * @throws Error with code 'not_found' when template does not exist
+   * @throws Error with code 'conflict' when the template was edited concurrently
    */
   async updatePromotionTemplate(
     id: string,
@@ -212,61 +230,181 @@ export class PromotionTemplateService {
     actorId?: string
   ): Promise<PromotionTemplateDto> {
     // Ensure template exists
-    const { error: fetchError } = await this.supabase.from("promotion_templates").select("*").eq("id", id).single();
+    const { data: current, error: fetchError } = await this.supabase
+      .from("promotion_templates")
+      .select("*")
+      .eq("id", id)
+      .single();
 
-    if (fetchError) {
+    if (fetchError || !current) {
       // Map PostgREST 'no rows' behavior to not found
-      if ((fetchError as unknown as { code?: string }).code === "PGRST116") {
+      if ((fetchError as unknown as { code?: string } | null)?.code === "PGRST116") {
         const notFound = Object.assign(new Error("Promotion template not found"), { code: "not_found" });
         throw notFound as Error & { code: string };
       }
-      throw new Error(`Failed to fetch promotion template: ${fetchError.message}`);
+      throw new Error(`Failed to fetch promotion template: ${fetchError?.message}`);
     }
 
-    // Build update payload from provided fields
-    const updatePayload: Record<string, unknown> = {};
     const cmd = command as unknown as Record<string, unknown>;
-    if (cmd.name !== undefined) updatePayload.name = cmd.name;
-    if (cmd.path !== undefined) updatePayload.path = cmd.path as string;
-    if (cmd.from_level !== undefined) updatePayload.from_level = cmd.from_level as string;
-    if (cmd.to_level !== undefined) updatePayload.to_level = cmd.to_level as string;
-    if (cmd.rules !== undefined) updatePayload.rules = cmd.rules as unknown as Json;
-    if (cmd.is_active !== undefined) updatePayload.is_active = cmd.is_active as boolean;
-
-    if (Object.keys(updatePayload).length === 0) {
+    const updatableFields = ["name", "path", "from_level", "to_level", "rules", "is_active"];
+    if (!updatableFields.some((field) => cmd[field] !== undefined)) {
       const ve = Object.assign(new Error("No updatable fields provided"), { code: "validation" });
       throw ve as Error & { code: string };
     }
 
+    // Build update payload from the fields that actually change
+    const updatePayload: Record<string, unknown> = {};
+    if (cmd.name !== undefined && cmd.name !== current.name) updatePayload.name = cmd.name;
+    if (cmd.path !== undefined && cmd.path !== current.path) updatePayload.path = cmd.path as string;
+    if (cmd.from_level !== undefined && cmd.from_level !== current.from_level) {
+      updatePayload.from_level = cmd.from_level as string;
+    }
+    if (cmd.to_level !== undefined && cmd.to_level !== current.to_level)
+      updatePayload.to_level = cmd.to_level as string;
+    if (
+      cmd.rules !== undefined &&
+      JSON.stringify(cmd.rules) !== JSON.stringify(upgradeTemplateRules(current.rules, current.rules_version))
+    ) {
+      updatePayload.rules = cmd.rules as unknown as Json;
+      updatePayload.rules_version = PROMOTION_RULES_VERSION;
+    }
+    const changesContent = Object.keys(updatePayload).length > 0;
+    if (cmd.is_active !== undefined && cmd.is_active !== current.is_active) {
+      updatePayload.is_active = cmd.is_active as boolean;
+    }
+
+    if (Object.keys(updatePayload).length === 0) {
+      return this.toDto(current);
+    }
+
+    const changedFields = Object.keys(updatePayload).filter((field) => field !== "rules_version");
     updatePayload.updated_at = new Date().toISOString();
     updatePayload.updated_by = actorId ?? null;
+    if (changesContent) {
+      updatePayload.version = current.version + 1;
+    }
 
+    // Only write if nobody bumped the version in the meantime; the
+    // promotion_templates_archive_version trigger snapshots the previous version
     const { data, error } = await this.supabase
       .from("promotion_templates")
       .update(updatePayload)
       .eq("id", id)
+      .eq("version", current.version)
       .select()
       .single();
 
     if (error) {
+      if (error.code === "PGRST116") {
+        const conflict = Object.assign(new Error("Promotion template was modified concurrently, reload and retry"), {
+          code: "conflict",
+        });
+        throw conflict as Error & { code: string };
+      }
       const err = Object.assign(new Error(`Failed to update promotion template: ${error.message}`), {
         code: "db_error",
       });
       throw err as Error & { code: string };
     }
 
-    return {
-      id: data.id,
-      name: data.name,
-      path: data.path,
-      from_level: data.from_level,
-      to_level: data.to_level,
-      rules: data.rules as unknown as PromotionTemplateRule[],
-      is_active: data.is_active,
-      created_by: data.created_by,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.PromotionTemplateUpdated,
+      actor_id: actorId ?? null,
+      resource_type: AuditResourceType.PromotionTemplate,
+      resource_id: id,
+      payload: { previous_version: current.version, version: data.version, changed_fields: changedFields },
+    });
+
+    return this.toDto(data);
+  }
+
+  /**
+   * Lists the version timeline of a promotion template, newest first
+   *
+   * Each version counts the promotions created against it (promotions.template_version).
+   * Counts and authors come from promotion_template_version_stats(), which reads past row
+   * level security so non-admins see the same history as admins.
+   *
+   * @param id - Template UUID
+   * @returns Versions including the current one, null if the template doesn't exist
+   * @throws Error if database query fails
+   */
+  async listTemplateVersions(id: string): Promise<PromotionTemplateVersionDto[] | null> {
+    const { data: current, error: fetchError } = await this.supabase
+      .from("promotion_templates")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch promotion template: ${fetchError.message}`);
+    }
+
+    const { data: history, error: historyError } = await this.supabase
+      .from("promotion_template_versions")
+      .select("*")
+      .eq("template_id", id)
+      .order("version", { ascending: false });
+
+    if (historyError) {
+      throw new Error(`Failed to fetch promotion template versions: ${historyError.message}`);
+    }
+
+    const { data: stats, error: statsError } = await this.supabase.rpc("promotion_template_version_stats", {
+      p_template_id: id,
+    });
+
+    if (statsError) {
+      throw new Error(`Failed to count promotions per template version: ${statsError.message}`);
+    }
+
+    const typedStats = stats as unknown as {
+      promotion_counts: { version: number; count: number }[];
+      people: UserSummary[];
+    } | null;
+    const promotionCounts = new Map(typedStats?.promotion_counts.map((entry) => [entry.version, entry.count]));
+    const people = new Map(typedStats?.people.map((person) => [person.id, person]));
+    const person = (userId: string | null): UserSummary | null => (userId ? (people.get(userId) ?? null) : null);
+
+    const typedCurrent = current as unknown as PromotionTemplateRow;
+    const typedHistory = (history || []) as unknown as PromotionTemplateVersionRow[];
+
+    // The current version was authored by whoever superseded the latest archived one
+    const latestArchived = typedHistory[0];
+    const currentVersion: PromotionTemplateVersionDto = {
+      version: typedCurrent.version,
+      name: typedCurrent.name,
+      path: typedCurrent.path,
+      from_level: typedCurrent.from_level,
+      to_level: typedCurrent.to_level,
+      rules: upgradeTemplateRules(typedCurrent.rules, typedCurrent.rules_version),
+      authored_by: person(latestArchived ? latestArchived.superseded_by : typedCurrent.created_by),
+      authored_at: latestArchived ? latestArchived.superseded_at : typedCurrent.created_at,
+      superseded_at: null,
+      is_current: true,
+      promotion_count: promotionCounts.get(typedCurrent.version) ?? 0,
     };
+
+    const previousVersions = typedHistory.map(
+      (row): PromotionTemplateVersionDto => ({
+        version: row.version,
+        name: row.name,
+        path: row.path,
+        from_level: row.from_level,
+        to_level: row.to_level,
+        rules: upgradeTemplateRules(row.rules, row.rules_version),
+        authored_by: person(row.authored_by),
+        authored_at: row.authored_at,
+        superseded_at: row.superseded_at,
+        is_current: false,
+        promotion_count: promotionCounts.get(row.version) ?? 0,
+      })
+    );
+
+    return [currentVersion, ...previousVersions];
   }
 
   /**
@@ -288,18 +426,21 @@ export class PromotionTemplateService {
       throw new Error(`Failed to fetch promotion template: ${error.message}`);
     }
 
-    // Transform JSONB rules to typed array
+    // Transform JSONB rules to typed array in the current schema version
     return {
       id: data.id,
       name: data.name,
       path: data.path,
       from_level: data.from_level,
       to_level: data.to_level,
-      rules: data.rules as unknown as PromotionTemplateRule[], // Type assertion for JSONB
+      rules: upgradeTemplateRules(data.rules, data.rules_version),
+      rules_version: PROMOTION_RULES_VERSION,
+      version: data.version,
       is_active: data.is_active,
       created_by: data.created_by,
       created_at: data.created_at,
       updated_at: data.updated_at,
+      updated_by: data.updated_by,
     };
   }
 
@@ -311,12 +452,13 @@ export class PromotionTemplateService {
    * but new promotions cannot use a deactivated template.
    *
    * @param id - Template UUID to deactivate
+   * @param actorId - optional actor performing the deactivation (recorded in the audit log)
    * @returns The deactivated promotion template
    * @throws Error with message "TEMPLATE_NOT_FOUND" if template doesn't exist
    * @throws Error with message "TEMPLATE_ALREADY_INACTIVE" if template is already inactive
    * @throws Error if database query fails
    */
-  async deactivatePromotionTemplate(id: string): Promise<PromotionTemplateDto> {
+  async deactivatePromotionTemplate(id: string, actorId?: string): Promise<PromotionTemplateDto> {
     // First, check if template exists and get its current status
     const { data: existing, error: fetchError } = await this.supabase
       .from("promotion_templates")
@@ -353,6 +495,14 @@ export class PromotionTemplateService {
       throw new Error(`Failed to deactivate promotion template: ${error.message}`);
     }
 
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.PromotionTemplateDeactivated,
+      actor_id: actorId ?? null,
+      resource_type: AuditResourceType.PromotionTemplate,
+      resource_id: id,
+      payload: { name: data.name },
+    });
+
     // Return the deactivated template
     return {
       id: data.id,
@@ -360,11 +510,35 @@ export class PromotionTemplateService {
       path: data.path,
       from_level: data.from_level,
       to_level: data.to_level,
-      rules: data.rules as unknown as PromotionTemplateRule[], // Type assertion for JSONB
+      rules: upgradeTemplateRules(data.rules, data.rules_version),
+      rules_version: PROMOTION_RULES_VERSION,
+      version: data.version,
       is_active: data.is_active,
       created_by: data.created_by,
       created_at: data.created_at,
       updated_at: data.updated_at,
+      updated_by: data.updated_by,
+    };
+  }
+
+  /**
+   * Maps a promotion_templates row to its DTO (rules upgraded to the current schema version)
+   */
+  private toDto(template: PromotionTemplateRow): PromotionTemplateDto {
+    return {
+      id: template.id,
+      name: template.name,
+      path: template.path,
+      from_level: template.from_level,
+      to_level: template.to_level,
+      rules: upgradeTemplateRules(template.rules, template.rules_version),
+      rules_version: PROMOTION_RULES_VERSION,
+      version: template.version,
+      is_active: template.is_active,
+      created_by: template.created_by,
+      created_at: template.created_at,
+      updated_at: template.updated_at,
+      updated_by: template.updated_by,
     };
   }
 }
@@ -5,7 +5,6 @@ import type {
   PaginatedResponse,
   PaginationMetadata,
   PromotionTemplateSummary,
-  PromotionTemplateRule,
   BadgeApplicationStatusType,
   BadgeCategoryType,
   BadgeLevelType,
@@ -14,10 +13,115 @@ import type {
   AddPromotionBadgesCommand,
   RemovePromotionBadgesCommand,
   PromotionValidationResponse,
-  PromotionRequirement,
+  PromotionValidationRequirement,
   MissingBadge,
+  AutoFillPromotionCommand,
+  PromotionAutoFillResponse,
+  PromotionTemplateRule,
 } from "../types";
+import type { Json } from "@/db/database.types";
+import { AuditEventType, AuditResourceType } from "../types";
 import type { ListPromotionsQuery } from "./validation/promotion.validation";
+import { logAuditEvent } from "./audit-logger";
+import { enqueueEvent } from "./event-outbox";
+import { allocateBadges, selectBadgesForRules, toRequirements, type CountableBadge } from "./badge-requirements";
+import { isTemplateAvailableForPosition } from "./position-levels";
+import { CareerLadderService } from "./career-ladder.service";
+import { upgradeTemplateRules } from "./validation/promotion-template.validation";
+import { UserPositionService } from "./user-position.service";
+
+/**
+ * Error codes raised by the promotion transition functions (add_promotion_badges,
+ * remove_promotion_badges, submit_promotion, approve_promotion, reject_promotion)
+ */
+const PROMOTION_TRANSITION_ERROR_CODES = [
+  "promotion_not_found",
+  "not_authorized",
+  "invalid_status",
+  "badge_not_found",
+  "badge_not_accepted",
+  "badge_already_reserved",
+  "badge_not_in_promotion",
+  "own_promotion",
+  "requirements_not_met",
+] as const;
+
+export type PromotionTransitionErrorCode = (typeof PROMOTION_TRANSITION_ERROR_CODES)[number];
+
+/**
+ * Details attached to a transition error (depending on the code)
+ */
+export interface PromotionTransitionErrorDetails {
+  current_status?: string;
+  badge_application_id?: string;
+  owning_promotion_id?: string;
+}
+
+/**
+ * A promotion transition was refused; nothing was changed
+ *
+ * API routes map the code to their responses (e.g. invalid_status to
+ * InvalidStatusError, badge_already_reserved to ReservationConflictError).
+ */
+export class PromotionTransitionError extends Error {
+  constructor(
+    public readonly code: PromotionTransitionErrorCode,
+    message: string,
+    public readonly details: PromotionTransitionErrorDetails = {}
+  ) {
+    super(message);
+    this.name = "PromotionTransitionError";
+  }
+}
+
+type TransitionMessages = Partial<
+  Record<PromotionTransitionErrorCode, (details: PromotionTransitionErrorDetails) => string>
+>;
+
+/**
+ * Messages for the badge-related codes, shared by all transitions
+ */
+const BADGE_TRANSITION_MESSAGES: TransitionMessages = {
+  badge_not_found: (details) => `Badge application not found: ${details.badge_application_id}`,
+  badge_not_accepted: (details) => `Badge application not accepted: ${details.badge_application_id}`,
+  badge_already_reserved: (details) =>
+    `Badge already reserved: ${details.badge_application_id} by promotion ${details.owning_promotion_id}`,
+};
+
+/**
+ * Converts an rpc error of a transition function into a PromotionTransitionError
+ *
+ * Errors that are not coded transition errors (e.g. connection failures) become plain
+ * Errors, which routes report as internal errors.
+ */
+function toTransitionError(
+  error: { code?: string; message: string; details?: string | null },
+  messages: TransitionMessages
+): Error {
+  const code = PROMOTION_TRANSITION_ERROR_CODES.find((candidate) => candidate === error.message);
+
+  if (error.code !== "P0001" || !code) {
+    return new Error(`Promotion transition failed: ${error.message}`);
+  }
+
+  let details: PromotionTransitionErrorDetails = {};
+  try {
+    details = error.details ? JSON.parse(error.details) : {};
+  } catch {
+    // Details are informational only
+  }
+
+  const message = ({ ...BADGE_TRANSITION_MESSAGES, ...messages }[code] ?? (() => code))(details);
+  return new PromotionTransitionError(code, message, details);
+}
+
+/**
+ * Result of submit_promotion, approve_promotion and reject_promotion
+ */
+interface PromotionTransitionResult {
+  promotion: PromotionRow;
+  badge_application_ids: string[];
+}
 
 /**
  * Service class for promotion operations
@@ -34,19 +138,22 @@ export class PromotionService {
   /**
    * Lists promotions with filtering, sorting, and pagination
    *
-   * Non-admin users see only their own promotions (automatic filtering by created_by).
+   * Non-admin users see only their own promotions (automatic filtering by created_by),
+   * managers also those of their reports (and may filter by one of them).
    * Admin users can see all promotions and optionally filter by specific user.
    *
    * @param query - Validated query parameters (filters, sorting, pagination)
    * @param userId - Current user ID (for non-admin filtering)
    * @param isAdmin - Whether current user is admin (controls data access)
+   * @param reportIds - Direct and indirect reports of a non-admin manager (default: none)
    * @returns Paginated response with promotions and metadata
    * @throws Error if database query fails
    */
   async listPromotions(
     query: ListPromotionsQuery,
     userId?: string,
-    isAdmin = false
+    isAdmin = false,
+    reportIds: string[] = []
   ): Promise<PaginatedResponse<PromotionListItemDto>> {
     // Build base query for data with template join
     let dataQuery = this.supabase.from("promotions").select(`
@@ -60,8 +167,15 @@ export class PromotionService {
     // =========================================================================
     // Apply Role-Based Filtering
     // =========================================================================
+    // Managers: Own promotions and their reports', optionally narrowed to one report
+    if (!isAdmin && userId && reportIds.length > 0) {
+      const visibleIds =
+        query.created_by && reportIds.includes(query.created_by) ? [query.created_by] : [userId, ...reportIds];
+      dataQuery = dataQuery.in("created_by", visibleIds);
+      countQuery = countQuery.in("created_by", visibleIds);
+    }
     // Non-admin users: Force filter by their own user ID (security)
-    if (!isAdmin && userId) {
+    else if (!isAdmin && userId) {
       dataQuery = dataQuery.eq("created_by", userId);
       countQuery = countQuery.eq("created_by", userId);
     }
@@ -243,15 +357,16 @@ export class PromotionService {
       rejected_by: data.rejected_by,
       reject_reason: data.reject_reason,
       executed: data.executed,
+      template_version: data.template_version,
 
-      // Nested template details with typed rules array
+      // Nested template details with the rules of the version the promotion was created against
       template: {
         id: data.promotion_templates.id,
         name: data.promotion_templates.name,
         path: data.promotion_templates.path,
         from_level: data.promotion_templates.from_level,
         to_level: data.promotion_templates.to_level,
-        rules: data.promotion_templates.rules as unknown as PromotionTemplateRule[],
+        rules: await this.getTemplateVersionRules(data.promotion_templates, data.template_version),
         is_active: data.promotion_templates.is_active,
       },
 
@@ -283,13 +398,18 @@ export class PromotionService {
   /**
    * Creates a new promotion in draft status
    *
-   * Validates that the template exists and is active, then creates a promotion
-   * record with template metadata copied for denormalized queries.
+   * Validates that the template exists, is active and starts at the user's current
+   * path and level (an entry level for users without a recorded position), then
+   * creates a promotion record with template metadata copied for denormalized queries.
+   * The promotion keeps the template version it was created against, so later template
+   * edits do not change its requirements.
    *
    * @param command - Promotion creation command with template_id
    * @param userId - Current authenticated user ID (promotion creator)
    * @returns Created promotion with all fields
    * @throws Error if template doesn't exist, is inactive, or database operation fails
+   * @throws Error "Template not available for current position: ..." if the template
+   *   starts at another path or level
    */
   async createPromotion(command: CreatePromotionCommand, userId: string): Promise<PromotionRow> {
     // =========================================================================
@@ -297,7 +417,7 @@ export class PromotionService {
     // =========================================================================
     const { data: template, error: templateError } = await this.supabase
       .from("promotion_templates")
-      .select("id, path, from_level, to_level, is_active")
+      .select("id, path, from_level, to_level, is_active, version")
       .eq("id", command.template_id)
       .single();
 
@@ -312,7 +432,20 @@ export class PromotionService {
     }
 
     // =========================================================================
-    // Step 2: Create Promotion Record
+    // Step 2: Validate Template Starts at the User's Current Position
+    // =========================================================================
+    const position = await new UserPositionService(this.supabase).getCurrentPosition(userId);
+    const ladder = await new CareerLadderService(this.supabase).getLadder();
+
+    if (!isTemplateAvailableForPosition(template, position, ladder)) {
+      const current = position ? `${position.path} ${position.level}` : "none";
+      throw new Error(
+        `Template not available for current position: ${template.path} ${template.from_level} (current: ${current})`
+      );
+    }
+
+    // =========================================================================
+    // Step 3: Create Promotion Record
     // =========================================================================
     const { data: promotion, error: createError } = await this.supabase
       .from("promotions")
@@ -322,6 +455,7 @@ export class PromotionService {
         path: template.path,
         from_level: template.from_level,
         to_level: template.to_level,
+        template_version: template.version,
         status: "draft",
         executed: false,
       })
@@ -336,6 +470,20 @@ export class PromotionService {
       throw new Error("Promotion creation returned no data");
     }
 
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.PromotionCreated,
+      actor_id: userId,
+      resource_type: AuditResourceType.Promotion,
+      resource_id: promotion.id,
+      payload: {
+        template_id: command.template_id,
+        template_version: template.version,
+        path: template.path,
+        from_level: template.from_level,
+        to_level: template.to_level,
+      },
+    });
+
     return promotion as PromotionRow;
   }
 
@@ -383,6 +531,13 @@ export class PromotionService {
       throw new Error(`Failed to delete promotion: ${deleteError.message}`);
     }
 
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.PromotionDeleted,
+      actor_id: userId,
+      resource_type: AuditResourceType.Promotion,
+      resource_id: promotionId,
+    });
+
     // Cascade delete to promotion_badges happens automatically via ON DELETE CASCADE
     // Badge applications are now unlocked and available for other promotions
   }
@@ -390,249 +545,320 @@ export class PromotionService {
   /**
    * Adds badge applications to a promotion draft
    *
-   * Validates promotion ownership, status, and badge application validity.
-   * Creates reservation records in promotion_badges junction table.
-   * Handles concurrent reservation conflicts with structured error.
+   * Runs add_promotion_badges, which checks promotion ownership, status and that every
+   * badge application is the owner's and accepted, then reserves them in
+   * promotion_badges. Either all badges are reserved or none.
    *
    * @param promotionId - Promotion UUID
    * @param command - Badge application IDs to add
    * @param userId - Current authenticated user ID
    * @returns Success result with added count
-   * @throws Error with specific messages for different failure scenarios:
+   * @throws PromotionTransitionError with messages for the different failure scenarios:
    *   - "Promotion not found: {id}" - Promotion doesn't exist
    *   - "User does not own promotion: {id}" - Not authorized
    *   - "Promotion is not in draft status: {id} (current: {status})" - Wrong status
    *   - "Badge application not found: {id}" - Badge doesn't exist
    *   - "Badge application not accepted: {id}" - Badge not in accepted status
    *   - "Badge already reserved: {badgeId} by promotion {promotionId}" - Conflict
+   * @throws Error if the database call fails otherwise
    */
   async addBadgesToPromotion(
     promotionId: string,
     command: AddPromotionBadgesCommand,
     userId: string
   ): Promise<{ promotion_id: string; added_count: number; badge_application_ids: string[] }> {
-    // =========================================================================
-    // Step 1: Fetch and Validate Promotion
-    // =========================================================================
-    const { data: promotion, error: promotionError } = await this.supabase
-      .from("promotions")
-      .select("id, created_by, status")
-      .eq("id", promotionId)
-      .single();
+    const { data, error } = await this.supabase.rpc("add_promotion_badges", {
+      p_promotion_id: promotionId,
+      p_badge_application_ids: command.badge_application_ids,
+      p_actor_id: userId,
+    });
 
-    if (promotionError || !promotion) {
-      throw new Error(`Promotion not found: ${promotionId}`);
-    }
-
-    // Validate ownership
-    if (promotion.created_by !== userId) {
-      throw new Error(`User does not own promotion: ${promotionId}`);
-    }
-
-    // Validate status
-    if (promotion.status !== "draft") {
-      throw new Error(`Promotion is not in draft status: ${promotionId} (current: ${promotion.status})`);
-    }
-
-    // =========================================================================
-    // Step 2: Validate All Badge Applications (Batch Query)
-    // =========================================================================
-    const { data: badgeApplications, error: badgeError } = await this.supabase
-      .from("badge_applications")
-      .select("id, status")
-      .in("id", command.badge_application_ids);
-
-    if (badgeError) {
-      throw new Error(`Failed to fetch badge applications: ${badgeError.message}`);
-    }
-
-    // Check all badges were found
-    if (!badgeApplications || badgeApplications.length !== command.badge_application_ids.length) {
-      const foundIds = badgeApplications?.map((ba) => ba.id) || [];
-      const missingIds = command.badge_application_ids.filter((id) => !foundIds.includes(id));
-      throw new Error(`Badge application not found: ${missingIds[0]}`);
-    }
-
-    // Check all badges are accepted
-    const notAcceptedBadge = badgeApplications.find((ba) => ba.status !== "accepted");
-    if (notAcceptedBadge) {
-      throw new Error(`Badge application not accepted: ${notAcceptedBadge.id}`);
-    }
-
-    // =========================================================================
-    // Step 3: Insert Promotion Badges (Batch Insert)
-    // =========================================================================
-    const promotionBadges = command.badge_application_ids.map((badgeAppId) => ({
-      promotion_id: promotionId,
-      badge_application_id: badgeAppId,
-      assigned_by: userId,
-      consumed: false,
-    }));
-
-    const { error: insertError } = await this.supabase.from("promotion_badges").insert(promotionBadges);
-
-    if (insertError) {
-      // =========================================================================
-      // Step 4: Handle Unique Constraint Violation (Reservation Conflict)
-      // =========================================================================
-      // Check for unique constraint violation (PostgreSQL error code 23505)
-      // This occurs when a badge is already reserved by another promotion
-      if (insertError.code === "23505") {
-        // Find which badge is conflicting by checking existing reservations
-        // We need to query to find the owning promotion
-        let conflictingBadgeId: string | null = null;
-        let owningPromotionId: string | null = null;
-
-        // Check each badge application to find which one is already reserved
-        for (const badgeAppId of command.badge_application_ids) {
-          const { data: existingReservation } = await this.supabase
-            .from("promotion_badges")
-            .select("promotion_id, badge_application_id")
-            .eq("badge_application_id", badgeAppId)
-            .eq("consumed", false)
-            .single();
-
-          if (existingReservation) {
-            conflictingBadgeId = badgeAppId;
-            owningPromotionId = existingReservation.promotion_id;
-            break;
-          }
-        }
-
-        if (conflictingBadgeId && owningPromotionId) {
-          throw new Error(`Badge already reserved: ${conflictingBadgeId} by promotion ${owningPromotionId}`);
-        }
-
-        // Fallback if we couldn't identify specific badge
-        throw new Error("Badge reservation conflict");
-      }
-
-      // Other database errors
-      throw new Error(`Failed to add badges to promotion: ${insertError.message}`);
+    if (error) {
+      throw await this.toReservationError(error, promotionId, userId, this.draftMessages(promotionId));
     }
 
-    // =========================================================================
-    // Step 5: Return Success Result
-    // =========================================================================
-    return {
-      promotion_id: promotionId,
-      added_count: command.badge_application_ids.length,
-      badge_application_ids: command.badge_application_ids,
-    };
+    return data as { promotion_id: string; added_count: number; badge_application_ids: string[] };
   }
 
   /**
    * Removes badge applications from a promotion draft
    *
-   * Validates promotion ownership, status, and badge assignment.
-   * Deletes reservation records from promotion_badges junction table.
-   * Optionally reverts badge application status to 'accepted'.
+   * Runs remove_promotion_badges, which checks promotion ownership, status and that
+   * every badge application is assigned to the promotion, then releases the
+   * reservations. Either all reservations are released or none.
    *
    * @param promotionId - Promotion UUID
    * @param command - Badge application IDs to remove
    * @param userId - Current authenticated user ID
    * @returns Success result with removed count
-   * @throws Error with specific messages for different failure scenarios:
+   * @throws PromotionTransitionError with messages for the different failure scenarios:
    *   - "Promotion not found: {id}" - Promotion doesn't exist
    *   - "User does not own promotion: {id}" - Not authorized
    *   - "Promotion is not in draft status: {id} (current: {status})" - Wrong status
    *   - "Badge application not in promotion: {id} (promotion: {promotionId})" - Badge not assigned
+   * @throws Error if the database call fails otherwise
    */
   async removeBadgesFromPromotion(
     promotionId: string,
     command: RemovePromotionBadgesCommand,
     userId: string
   ): Promise<{ removed_count: number }> {
+    const { data, error } = await this.supabase.rpc("remove_promotion_badges", {
+      p_promotion_id: promotionId,
+      p_badge_application_ids: command.badge_application_ids,
+      p_actor_id: userId,
+    });
+
+    if (error) {
+      throw toTransitionError(error, {
+        ...this.draftMessages(promotionId),
+        badge_not_in_promotion: (details) =>
+          `Badge application not in promotion: ${details.badge_application_id} (promotion: ${promotionId})`,
+      });
+    }
+
+    return data as { removed_count: number };
+  }
+
+  /**
+   * Fills a promotion draft with the smallest set of badges covering its template rules
+   *
+   * Candidates are the owner's accepted badge applications that no other promotion has
+   * reserved, including those already in the draft. selectBadgesForRules picks the set
+   * (lower levels and older badges first). Unless dry_run, replace_promotion_badges adds the
+   * missing badges and removes unneeded ones in one transaction, so a failure leaves the
+   * draft unchanged.
+   *
+   * @param promotionId - Promotion UUID
+   * @param command - Auto-fill options (dry_run)
+   * @param userId - Current authenticated user ID (must own the promotion)
+   * @returns Selection with the badges counting toward each rule and what is still missing
+   * @throws PromotionTransitionError with messages for the different failure scenarios:
+   *   - "Promotion not found: {id}" - Promotion doesn't exist
+   *   - "User does not own promotion: {id}" - Not authorized
+   *   - "Promotion is not in draft status: {id} (current: {status})" - Wrong status
+   *   - "Badge already reserved: {badgeId} by promotion {promotionId}" - Reserved concurrently
+   * @throws Error if database query fails
+   */
+  async autoFillPromotion(
+    promotionId: string,
+    command: AutoFillPromotionCommand,
+    userId: string
+  ): Promise<PromotionAutoFillResponse> {
+    const dryRun = command.dry_run ?? false;
+
     // =========================================================================
-    // Step 1: Fetch and Validate Promotion
+    // Step 1: Fetch Promotion with Template Rules
     // =========================================================================
     const { data: promotion, error: promotionError } = await this.supabase
       .from("promotions")
-      .select("id, created_by, status")
+      .select("id, created_by, status, template_version, promotion_templates!inner(id, version, rules, rules_version)")
       .eq("id", promotionId)
       .single();
 
-    if (promotionError || !promotion) {
-      throw new Error(`Promotion not found: ${promotionId}`);
+    if (promotionError) {
+      if (promotionError.code === "PGRST116") {
+        throw new PromotionTransitionError("promotion_not_found", `Promotion not found: ${promotionId}`);
+      }
+      throw new Error(`Failed to fetch promotion: ${promotionError.message}`);
     }
 
-    // Validate ownership
     if (promotion.created_by !== userId) {
-      throw new Error(`User does not own promotion: ${promotionId}`);
+      throw new PromotionTransitionError("not_authorized", `User does not own promotion: ${promotionId}`);
     }
 
-    // Validate status
     if (promotion.status !== "draft") {
-      throw new Error(`Promotion is not in draft status: ${promotionId} (current: ${promotion.status})`);
+      throw new PromotionTransitionError(
+        "invalid_status",
+        `Promotion is not in draft status: ${promotionId} (current: ${promotion.status})`,
+        { current_status: promotion.status }
+      );
     }
 
+    const rules = await this.getTemplateVersionRules(promotion.promotion_templates, promotion.template_version);
+
     // =========================================================================
-    // Step 2: Verify All Badge Applications Are in Promotion (Batch Query)
+    // Step 2: Fetch Candidate Badge Applications
     // =========================================================================
-    const { data: currentBadges, error: verifyError } = await this.supabase
-      .from("promotion_badges")
-      .select("badge_application_id")
-      .eq("promotion_id", promotionId)
-      .in("badge_application_id", command.badge_application_ids);
+    const { data: applications, error: applicationsError } = await this.supabase
+      .from("badge_applications")
+      .select(
+        `
+        id,
+        created_at,
+        reviewed_at,
+        catalog_badges!badge_applications_catalog_badge_id_fkey (id, title, category, level),
+        promotion_badges!promotion_badges_badge_application_id_fkey (promotion_id, consumed)
+      `
+      )
+      .eq("applicant_id", userId)
+      .eq("status", "accepted");
 
-    if (verifyError) {
-      throw new Error(`Failed to verify badge assignments: ${verifyError.message}`);
+    if (applicationsError) {
+      throw new Error(`Failed to fetch badge applications: ${applicationsError.message}`);
     }
 
-    // Check all requested badges are in the promotion
-    if (!currentBadges || currentBadges.length !== command.badge_application_ids.length) {
-      const foundIds = currentBadges?.map((b) => b.badge_application_id) || [];
-      const missingIds = command.badge_application_ids.filter((id) => !foundIds.includes(id));
-      throw new Error(`Badge application not in promotion: ${missingIds[0]} (promotion: ${promotionId})`);
+    const candidates = (applications || [])
+      .filter(
+        (app) =>
+          !!app.catalog_badges &&
+          !(app.promotion_badges || []).some((link) => !link.consumed && link.promotion_id !== promotionId)
+      )
+      .map((app) => ({
+        id: app.id,
+        catalog_badge_id: app.catalog_badges.id,
+        title: app.catalog_badges.title,
+        category: app.catalog_badges.category,
+        level: app.catalog_badges.level,
+        earned_at: app.reviewed_at ?? app.created_at,
+        in_promotion: (app.promotion_badges || []).some((link) => !link.consumed && link.promotion_id === promotionId),
+      }));
+
+    // =========================================================================
+    // Step 3: Select Badges
+    // =========================================================================
+    const selection = selectBadgesForRules(rules, candidates);
+    const selectedIds = selection.selected.map((badge) => badge.id);
+    const addedIds = selection.selected.filter((badge) => !badge.in_promotion).map((badge) => badge.id);
+    const removedIds = candidates
+      .filter((badge) => badge.in_promotion && !selectedIds.includes(badge.id))
+      .map((badge) => badge.id);
+
+    const requirements = toRequirements(selection.assignments);
+    const missing: MissingBadge[] = requirements
+      .filter((req) => !req.satisfied)
+      .map((req) => ({
+        category: req.category,
+        level: req.level,
+        ...(req.or_higher ? { or_higher: true } : {}),
+        count: req.required - req.current,
+      }));
+
+    // =========================================================================
+    // Step 4: Apply Selection
+    // =========================================================================
+    // One call, so either the whole selection is applied or the draft stays unchanged
+    if (!dryRun && (addedIds.length > 0 || removedIds.length > 0)) {
+      const { error } = await this.supabase.rpc("replace_promotion_badges", {
+        p_promotion_id: promotionId,
+        p_add_badge_application_ids: addedIds,
+        p_remove_badge_application_ids: removedIds,
+        p_actor_id: userId,
+      });
+
+      if (error) {
+        throw await this.toReservationError(error, promotionId, userId, {
+          ...this.draftMessages(promotionId),
+          badge_not_in_promotion: (details) =>
+            `Badge application not in promotion: ${details.badge_application_id} (promotion: ${promotionId})`,
+        });
+      }
     }
 
-    // =========================================================================
-    // Step 3: Delete Promotion Badges Records (Batch Delete)
-    // =========================================================================
-    const { error: deleteError } = await this.supabase
-      .from("promotion_badges")
-      .delete()
-      .eq("promotion_id", promotionId)
-      .in("badge_application_id", command.badge_application_ids);
+    return {
+      promotion_id: promotionId,
+      dry_run: dryRun,
+      is_complete: missing.length === 0,
+      selected_badge_application_ids: selectedIds,
+      added_badge_application_ids: addedIds,
+      removed_badge_application_ids: removedIds,
+      assignments: selection.assignments.map((assignment, index) => ({
+        rule: assignment.rule,
+        condition: assignment.condition,
+        badges: assignment.badges.map((badge) => ({
+          badge_application_id: badge.id,
+          title: badge.title,
+          category: badge.category as BadgeCategoryType,
+          level: badge.level as BadgeLevelType,
+        })),
+        satisfied: requirements[index].satisfied,
+      })),
+      missing,
+    };
+  }
 
-    if (deleteError) {
-      throw new Error(`Failed to remove badges from promotion: ${deleteError.message}`);
+  /**
+   * Returns the rules of the template version a promotion was created against
+   *
+   * The current version is read from the template itself, earlier ones from
+   * promotion_template_versions.
+   *
+   * @throws Error if the version cannot be fetched
+   */
+  private async getTemplateVersionRules(
+    template: { id: string; version: number; rules: Json; rules_version: number },
+    version: number
+  ): Promise<PromotionTemplateRule[]> {
+    if (template.version === version) {
+      return upgradeTemplateRules(template.rules, template.rules_version);
     }
 
-    // =========================================================================
-    // Step 4: (Optional) Revert Badge Application Status to 'accepted'
-    // =========================================================================
-    // This step is optional depending on business logic
-    // Uncomment if you want to revert status immediately
-    /*
-    const { error: updateError } = await this.supabase
-      .from("badge_applications")
-      .update({ status: "accepted" })
-      .in("id", command.badge_application_ids)
-      .eq("status", "used_in_promotion");
+    const { data, error } = await this.supabase
+      .from("promotion_template_versions")
+      .select("rules, rules_version")
+      .eq("template_id", template.id)
+      .eq("version", version)
+      .single();
 
-    if (updateError) {
-      throw new Error(`Failed to update badge status: ${updateError.message}`);
+    if (error || !data) {
+      throw new Error(
+        `Failed to fetch template version ${version} of ${template.id}: ${error?.message ?? "no row returned"}`
+      );
     }
-    */
 
-    // =========================================================================
-    // Step 5: Return Success Result
-    // =========================================================================
+    return upgradeTemplateRules(data.rules, data.rules_version);
+  }
+
+  /**
+   * Maps an rpc error of a badge reservation and audits reservation conflicts
+   */
+  private async toReservationError(
+    error: { code?: string; message: string; details?: string | null },
+    promotionId: string,
+    userId: string,
+    messages: TransitionMessages
+  ): Promise<Error> {
+    const transitionError = toTransitionError(error, messages);
+
+    if (transitionError instanceof PromotionTransitionError && transitionError.code === "badge_already_reserved") {
+      await logAuditEvent(this.supabase, {
+        event_type: AuditEventType.ReservationConflict,
+        actor_id: userId,
+        resource_type: AuditResourceType.Promotion,
+        resource_id: promotionId,
+        payload: {
+          badge_application_id: transitionError.details.badge_application_id,
+          owning_promotion_id: transitionError.details.owning_promotion_id,
+        },
+      });
+    }
+
+    return transitionError;
+  }
+
+  /**
+   * Messages for transitions that edit a draft (adding and removing badges)
+   */
+  private draftMessages(promotionId: string): TransitionMessages {
     return {
-      removed_count: command.badge_application_ids.length,
+      promotion_not_found: () => `Promotion not found: ${promotionId}`,
+      not_authorized: () => `User does not own promotion: ${promotionId}`,
+      invalid_status: (details) =>
+        `Promotion is not in draft status: ${promotionId} (current: ${details.current_status})`,
     };
   }
 
   /**
    * Validates a promotion against its template requirements
    *
-   * Counts badge applications in the promotion by category and level,
-   * then compares against template rules. Returns detailed validation
-   * result showing which requirements are satisfied and which are missing.
+   * Allocates the badge applications in the promotion to the template rules, each
+   * badge to at most one rule (maximum matching, see allocateBadges). Returns
+   * detailed validation result showing which badges fill which requirement and
+   * which requirements are missing.
    *
-   * Uses exact-match logic: gold ≠ silver ≠ bronze (no level equivalence)
-   * Handles "any" category rules that match badges of all categories
+   * Levels match exactly (gold ≠ silver ≠ bronze) unless a rule condition is or_higher.
+   * Handles "any" category rules that match badges of all categories, alternative
+   * conditions and per-catalog-badge limits (rules schema version 2)
    *
    * @param promotionId - Promotion UUID to validate
    * @param userId - Current user ID (for authorization)
@@ -654,9 +880,12 @@ export class PromotionService {
         `
         id,
         created_by,
+        template_version,
         promotion_templates!inner(
           id,
-          rules
+          version,
+          rules,
+          rules_version
         )
       `
       )
@@ -681,8 +910,8 @@ export class PromotionService {
       return null;
     }
 
-    // Extract template rules with type casting
-    const templateRules = promotion.promotion_templates.rules as unknown as PromotionTemplateRule[];
+    // Rules of the template version the promotion was created against, in the current schema version
+    const templateRules = await this.getTemplateVersionRules(promotion.promotion_templates, promotion.template_version);
 
     // =========================================================================
     // Step 2: Fetch Badge Applications in Promotion
@@ -692,7 +921,9 @@ export class PromotionService {
       .select(
         `
         badge_applications!inner(
+          id,
           catalog_badges!inner(
+            id,
             category,
             level
           )
@@ -706,78 +937,48 @@ export class PromotionService {
     }
 
     // =========================================================================
-    // Step 3: Count Badges by Category and Level
+    // Step 3: Allocate Badges to Template Rules
     // =========================================================================
-    // Build map: { "category:level": count }
-    const badgeCounts = new Map<string, number>();
+    const badges: (CountableBadge & { id: string })[] = [];
 
     if (badgeData) {
       for (const item of badgeData) {
-        const badge = item.badge_applications?.catalog_badges;
-        if (badge) {
-          const key = `${badge.category}:${badge.level}`;
-          badgeCounts.set(key, (badgeCounts.get(key) || 0) + 1);
+        const application = item.badge_applications;
+        if (application?.catalog_badges) {
+          const { id: catalogBadgeId, category, level } = application.catalog_badges;
+          badges.push({ id: application.id, catalog_badge_id: catalogBadgeId, category, level });
         }
       }
     }
 
-    // =========================================================================
-    // Step 4: Helper Function to Count Badges for a Rule
-    // =========================================================================
-    const countBadgesForRule = (rule: PromotionTemplateRule): number => {
-      if (rule.category === "any") {
-        // Sum all badges with matching level (any category)
-        let count = 0;
-        for (const [key, value] of badgeCounts) {
-          const [, level] = key.split(":");
-          if (level === rule.level) {
-            count += value;
-          }
-        }
-        return count;
-      } else {
-        // Count badges with matching category AND level
-        const key = `${rule.category}:${rule.level}`;
-        return badgeCounts.get(key) || 0;
-      }
-    };
+    // Each badge fills at most one rule, so it cannot count toward both a
+    // category rule and an "any" rule; rules with alternatives are evaluated
+    // with the condition that comes closest to being met
+    const allocation = allocateBadges(templateRules, badges);
+    const requirements: PromotionValidationRequirement[] = toRequirements(allocation).map((req, index) => ({
+      ...req,
+      assigned_badge_application_ids: allocation[index].badges.map((badge) => badge.id),
+    }));
 
     // =========================================================================
-    // Step 5: Validate Against Template Rules
+    // Step 4: Collect Missing Badges
     // =========================================================================
-    const requirements: PromotionRequirement[] = [];
-    const missing: MissingBadge[] = [];
-
-    for (const rule of templateRules) {
-      const currentCount = countBadgesForRule(rule);
-      const satisfied = currentCount >= rule.count;
-
-      // Build requirement object
-      requirements.push({
-        category: rule.category as BadgeCategoryType | "any",
-        level: rule.level,
-        required: rule.count,
-        current: currentCount,
-        satisfied,
-      });
-
-      // Add to missing list if not satisfied
-      if (!satisfied) {
-        missing.push({
-          category: rule.category as BadgeCategoryType | "any",
-          level: rule.level,
-          count: rule.count - currentCount,
-        });
-      }
-    }
+    const missing: MissingBadge[] = requirements
+      .filter((req) => !req.satisfied)
+      .map((req) => ({
+        category: req.category,
+        level: req.level,
+        ...(req.or_higher ? { or_higher: true } : {}),
+        count: req.required - req.current,
+      }));
 
     // =========================================================================
-    // Step 6: Determine Overall Validity
+    // Step 5: Determine Overall Validity
     // =========================================================================
     const isValid = requirements.every((req) => req.satisfied);
 
     // =========================================================================
-    // Step 7: Return Validation Result
+    // Step 6: Return Validation Result
     // =========================================================================
     return {
       promotion_id: promotionId,
@@ -790,208 +991,173 @@ export class PromotionService {
   /**
    * Approves a submitted promotion (admin only)
    *
-   * Validates that promotion exists and is in submitted status, then transitions
-   * to approved status. Records approval metadata and marks all badge applications
-   * as permanently consumed. In MVP, approval implies execution.
+   * Runs approve_promotion, which transitions the promotion to approved status,
+   * records approval metadata and marks all badge reservations as permanently
+   * consumed in one transaction. In MVP, approval implies execution.
+   *
+   * The promotion is validated again first, against the rules of the template version
+   * it was created against, to report what is missing; approve_promotion repeats the
+   * check in the same transaction and refuses approvers deciding on their own promotion.
    *
    * @param promotionId - Promotion UUID to approve
    * @param adminUserId - Admin user ID performing the approval
    * @returns Updated promotion with approved status and approval metadata
-   * @throws Error with specific messages for different failure scenarios:
+   * @throws PromotionTransitionError with messages for different failure scenarios:
    *   - "Promotion not found: {id}" - Promotion doesn't exist
+   *   - "You do not have permission to approve this promotion" - Not an approver
+   *   - "You cannot approve your own promotion" - Approver created the promotion
    *   - "Only submitted promotions can be approved. Current status: {status}" - Wrong status
-   *   - "Failed to approve promotion (may have been already processed)" - Update failed (race condition)
+   *   - "Promotion does not meet template requirements" - Badges changed after validation
+   * @throws Error "Validation failed: {missing}" - Template validation failed
+   * @throws Error if the database call fails otherwise
    */
   async approvePromotion(promotionId: string, adminUserId: string): Promise<PromotionRow> {
     // =========================================================================
-    // Step 1: Fetch and Validate Promotion
+    // Step 1: Run Template Validation
     // =========================================================================
-    const { data: promotion, error: fetchError } = await this.supabase
-      .from("promotions")
-      .select("id, status")
-      .eq("id", promotionId)
-      .single();
+    // A missing promotion is reported by the transition below
+    const validationResult = await this.validatePromotion(promotionId, adminUserId, true);
 
-    if (fetchError || !promotion) {
-      throw new Error(`Promotion not found: ${promotionId}`);
-    }
-
-    if (promotion.status !== "submitted") {
-      throw new Error(`Only submitted promotions can be approved. Current status: ${promotion.status}`);
+    if (validationResult && !validationResult.is_valid) {
+      throw new Error(`Validation failed: ${JSON.stringify(validationResult.missing)}`);
     }
 
     // =========================================================================
-    // Step 2: Update Promotion (with race condition prevention)
+    // Step 2: Run Transition
     // =========================================================================
-    const { data: updatedPromotion, error: updateError } = await this.supabase
-      .from("promotions")
-      .update({
-        status: "approved",
-        approved_by: adminUserId,
-        approved_at: new Date().toISOString(),
-        executed: true,
-      })
-      .eq("id", promotionId)
-      .eq("status", "submitted") // Prevents race condition
-      .select()
-      .single();
+    const { data, error } = await this.supabase.rpc("approve_promotion", {
+      p_promotion_id: promotionId,
+      p_actor_id: adminUserId,
+    });
 
-    if (updateError || !updatedPromotion) {
-      throw new Error("Failed to approve promotion (may have been already processed)");
+    if (error) {
+      throw toTransitionError(error, this.reviewMessages(promotionId, "approve", "approved"));
     }
 
+    const { promotion } = data as unknown as PromotionTransitionResult;
+
     // =========================================================================
-    // Step 3: Update Promotion Badges to Consumed
+    // Step 3: Record Audit Log and Outbox Event
     // =========================================================================
-    const { data: badgeUpdateData, error: badgesError } = await this.supabase
-      .from("promotion_badges")
-      .update({ consumed: true })
-      .eq("promotion_id", promotionId);
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.PromotionApproved,
+      actor_id: adminUserId,
+      resource_type: AuditResourceType.Promotion,
+      resource_id: promotionId,
+      payload: { created_by: promotion.created_by, to_level: promotion.to_level },
+    });
 
-    if (badgesError) {
-      // Non-critical: Log but don't fail
-      // Badge consumption can be fixed manually if needed
-      // eslint-disable-next-line no-console
-      console.warn("Failed to mark badges as consumed:", badgesError);
-    } else {
-      // eslint-disable-next-line no-console
-      console.log(`Badge update completed. Data:`, badgeUpdateData);
-    }
+    await enqueueEvent(this.supabase, {
+      type: "promotion.approved",
+      resource: "promotions",
+      resource_id: promotionId,
+      actor_id: adminUserId,
+      payload: { id: promotionId, action: "approved" },
+    });
 
-    // =========================================================================
-    // Step 4: Return Updated Promotion
-    // =========================================================================
-    return updatedPromotion as PromotionRow;
+    return promotion;
   }
 
   /**
    * Rejects a submitted promotion (admin only)
    *
-   * Validates that promotion exists and is in submitted status, then transitions
-   * to rejected status. Records rejection metadata, unlocks badge reservations by
-   * deleting promotion_badges records, and reverts badge application statuses
-   * to 'accepted' so they can be reused.
+   * Runs reject_promotion, which transitions the promotion to rejected status,
+   * records rejection metadata, unlocks badge reservations by deleting
+   * promotion_badges records and reverts badge application statuses to 'accepted'
+   * so they can be reused, all in one transaction.
    *
    * @param promotionId - Promotion UUID to reject
    * @param adminUserId - Admin user ID performing the rejection
    * @param rejectReason - Explanation for why the promotion was rejected
    * @returns Updated promotion with rejected status and rejection metadata
-   * @throws Error with specific messages for different failure scenarios:
+   * @throws PromotionTransitionError with messages for different failure scenarios:
    *   - "Promotion not found: {id}" - Promotion doesn't exist
+   *   - "You do not have permission to reject this promotion" - Not an approver
+   *   - "You cannot reject your own promotion" - Approver created the promotion
    *   - "Only submitted promotions can be rejected. Current status: {status}" - Wrong status
-   *   - "Failed to reject promotion (may have been already processed)" - Update failed (race condition)
+   * @throws Error if the database call fails otherwise
    */
   async rejectPromotion(promotionId: string, adminUserId: string, rejectReason: string): Promise<PromotionRow> {
     // =========================================================================
-    // Step 1: Fetch and Validate Promotion
+    // Step 1: Run Transition
     // =========================================================================
-    const { data: promotion, error: fetchError } = await this.supabase
-      .from("promotions")
-      .select("id, status")
-      .eq("id", promotionId)
-      .single();
+    const { data, error } = await this.supabase.rpc("reject_promotion", {
+      p_promotion_id: promotionId,
+      p_actor_id: adminUserId,
+      p_reject_reason: rejectReason,
+    });
 
-    if (fetchError || !promotion) {
-      throw new Error(`Promotion not found: ${promotionId}`);
+    if (error) {
+      throw toTransitionError(error, this.reviewMessages(promotionId, "reject", "rejected"));
     }
 
-    if (promotion.status !== "submitted") {
-      throw new Error(`Only submitted promotions can be rejected. Current status: ${promotion.status}`);
-    }
+    const { promotion, badge_application_ids: badgeApplicationIds } = data as unknown as PromotionTransitionResult;
 
     // =========================================================================
-    // Step 2: Update Promotion (with race condition prevention)
+    // Step 2: Record Audit Log and Outbox Event
     // =========================================================================
-    const { data: updatedPromotion, error: updateError } = await this.supabase
-      .from("promotions")
-      .update({
-        status: "rejected",
-        rejected_by: adminUserId,
-        rejected_at: new Date().toISOString(),
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.PromotionRejected,
+      actor_id: adminUserId,
+      resource_type: AuditResourceType.Promotion,
+      resource_id: promotionId,
+      payload: {
+        created_by: promotion.created_by,
         reject_reason: rejectReason,
-      })
-      .eq("id", promotionId)
-      .eq("status", "submitted") // Prevents race condition
-      .select()
-      .single();
-
-    if (updateError || !updatedPromotion) {
-      throw new Error("Failed to reject promotion (may have been already processed)");
-    }
-
-    // =========================================================================
-    // Step 3: Get Badge Application IDs from Promotion Badges
-    // =========================================================================
-    const { data: promotionBadges, error: badgesError } = await this.supabase
-      .from("promotion_badges")
-      .select("badge_application_id")
-      .eq("promotion_id", promotionId);
-
-    if (badgesError) {
-      // Non-critical: Log but don't fail
-      // eslint-disable-next-line no-console
-      console.warn("Failed to fetch promotion badges:", badgesError);
-    }
-
-    const badgeApplicationIds = promotionBadges?.map((pb) => pb.badge_application_id) || [];
-
-    // =========================================================================
-    // Step 4: Delete Promotion Badges Records (Unlocks Badge Reservations)
-    // =========================================================================
-    const { error: deleteError } = await this.supabase
-      .from("promotion_badges")
-      .delete()
-      .eq("promotion_id", promotionId);
-
-    if (deleteError) {
-      // Non-critical: Log but don't fail
-      // Badge unlocking can be fixed manually if needed
-      // eslint-disable-next-line no-console
-      console.warn("Failed to delete promotion badges:", deleteError);
-    }
+        badge_application_ids: badgeApplicationIds,
+      },
+    });
 
-    // =========================================================================
-    // Step 5: Revert Badge Application Statuses to 'accepted'
-    // =========================================================================
-    if (badgeApplicationIds.length > 0) {
-      const { error: revertError } = await this.supabase
-        .from("badge_applications")
-        .update({ status: "accepted" })
-        .in("id", badgeApplicationIds)
-        .eq("status", "used_in_promotion");
+    await enqueueEvent(this.supabase, {
+      type: "promotion.rejected",
+      resource: "promotions",
+      resource_id: promotionId,
+      actor_id: adminUserId,
+      payload: { id: promotionId, action: "rejected", reject_reason: rejectReason },
+    });
 
-      if (revertError) {
-        // Non-critical: Log but don't fail
-        // Badge statuses can be fixed manually if needed
-        // eslint-disable-next-line no-console
-        console.warn("Failed to revert badge application statuses:", revertError);
-      }
-    }
+    return promotion;
+  }
 
-    // =========================================================================
-    // Step 6: Return Updated Promotion
-    // =========================================================================
-    return updatedPromotion as PromotionRow;
+  /**
+   * Messages for the review transitions (approving and rejecting)
+   */
+  private reviewMessages(promotionId: string, action: string, outcome: string): TransitionMessages {
+    return {
+      promotion_not_found: () => `Promotion not found: ${promotionId}`,
+      not_authorized: () => `You do not have permission to ${action} this promotion`,
+      own_promotion: () => `You cannot ${action} your own promotion`,
+      requirements_not_met: () => "Promotion does not meet template requirements",
+      invalid_status: (details) =>
+        `Only submitted promotions can be ${outcome}. Current status: ${details.current_status}`,
+    };
   }
 
   /**
    * Submits a promotion for admin review
    *
    * Validates that promotion is in draft status, belongs to the user,
-   * and meets all template requirements. Upon successful validation,
-   * transitions promotion to submitted status and marks all badge
-   * applications as used.
+   * and meets all template requirements. Upon successful validation, runs
+   * submit_promotion, which transitions the promotion to submitted status and
+   * marks all badge applications as used in one transaction.
    *
    * @param promotionId - Promotion UUID to submit
    * @param userId - Current user ID (for authorization)
    * @returns Updated promotion with submitted status
-   * @throws Error with specific messages for different failure scenarios:
+   * @throws PromotionTransitionError with specific messages for different failure scenarios:
    *   - "Promotion not found: {id}" - Promotion doesn't exist
    *   - "You do not have permission to submit this promotion" - Not creator
    *   - "Only draft promotions can be submitted. Current status: {status}" - Wrong status
-   *   - "Validation failed: {missing}" - Template validation failed
+   *   - "Badge application not accepted: {id}" - A reserved badge changed status meanwhile
+   * @throws Error "Validation failed: {missing}" - Template validation failed
    */
   async submitPromotion(promotionId: string, userId: string): Promise<PromotionRow> {
+    const messages: TransitionMessages = {
+      promotion_not_found: () => `Promotion not found: ${promotionId}`,
+      not_authorized: () => "You do not have permission to submit this promotion",
+      invalid_status: (details) => `Only draft promotions can be submitted. Current status: ${details.current_status}`,
+    };
+
     // =========================================================================
     // Step 1: Fetch and Validate Promotion
     // =========================================================================
@@ -1003,17 +1169,21 @@ export class PromotionService {
 
     // Handle promotion not found
     if (promotionError || !promotion) {
-      throw new Error(`Promotion not found: ${promotionId}`);
+      throw new PromotionTransitionError("promotion_not_found", `Promotion not found: ${promotionId}`);
     }
 
     // Validate ownership
     if (promotion.created_by !== userId) {
-      throw new Error("You do not have permission to submit this promotion");
+      throw new PromotionTransitionError("not_authorized", "You do not have permission to submit this promotion");
     }
 
     // Validate status is draft
     if (promotion.status !== "draft") {
-      throw new Error(`Only draft promotions can be submitted. Current status: ${promotion.status}`);
+      throw new PromotionTransitionError(
+        "invalid_status",
+        `Only draft promotions can be submitted. Current status: ${promotion.status}`,
+        { current_status: promotion.status }
+      );
     }
 
     // =========================================================================
@@ -1032,58 +1202,41 @@ export class PromotionService {
     }
 
     // =========================================================================
-    // Step 3: Update Promotion (with race condition prevention)
+    // Step 3: Run Transition
     // =========================================================================
-    const { data: updatedPromotion, error: updateError } = await this.supabase
-      .from("promotions")
-      .update({
-        status: "submitted",
-        submitted_at: new Date().toISOString(),
-      })
-      .eq("id", promotionId)
-      .eq("status", "draft") // Prevents race condition
-      .select()
-      .single();
+    // Status and ownership are checked again under a row lock, so a concurrent
+    // submit or edit cannot slip in between validation and the update
+    const { data, error } = await this.supabase.rpc("submit_promotion", {
+      p_promotion_id: promotionId,
+      p_actor_id: userId,
+    });
 
-    if (updateError || !updatedPromotion) {
-      throw new Error("Failed to submit promotion (may have been already submitted)");
+    if (error) {
+      throw toTransitionError(error, messages);
     }
 
+    const { promotion: updatedPromotion, badge_application_ids: badgeApplicationIds } =
+      data as unknown as PromotionTransitionResult;
+
     // =========================================================================
-    // Step 4: Update Badge Applications to 'used_in_promotion'
+    // Step 4: Record Audit Log and Outbox Event
     // =========================================================================
-    // Get all badge applications associated with this promotion
-    const { data: promotionBadges, error: badgesError } = await this.supabase
-      .from("promotion_badges")
-      .select("badge_application_id")
-      .eq("promotion_id", promotionId);
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.PromotionSubmitted,
+      actor_id: userId,
+      resource_type: AuditResourceType.Promotion,
+      resource_id: promotionId,
+      payload: { badge_application_ids: badgeApplicationIds },
+    });
 
-    if (badgesError) {
-      // Non-critical error - log but don't fail
-      // Badge statuses can be updated later if needed
-      // eslint-disable-next-line no-console
-      console.warn("Failed to fetch promotion badges:", badgesError);
-    }
-
-    // Update badge application statuses if we have badges
-    if (promotionBadges && promotionBadges.length > 0) {
-      const badgeIds = promotionBadges.map((pb) => pb.badge_application_id);
-
-      const { error: badgeUpdateError } = await this.supabase
-        .from("badge_applications")
-        .update({ status: "used_in_promotion" })
-        .in("id", badgeIds);
-
-      if (badgeUpdateError) {
-        // Non-critical error - log but don't fail
-        // eslint-disable-next-line no-console
-        console.warn("Failed to update badge application statuses:", badgeUpdateError);
-      }
-    }
+    await enqueueEvent(this.supabase, {
+      type: "promotion.submitted",
+      resource: "promotions",
+      resource_id: promotionId,
+      actor_id: userId,
+      payload: { id: promotionId, action: "submitted" },
+    });
 
-    // =========================================================================
-    // Step 5: Return Updated Promotion
-    // =========================================================================
-    return updatedPromotion as PromotionRow;
+    return updatedPromotion;
   }
 }
@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+/**
+ * Per-request data shared with code that has no access to the Astro context
+ * (error and auth loggers)
+ */
+export interface RequestContext {
+  requestId: string;
+  method: string;
+  path: string;
+  ip: string | null;
+  userAgent: string | null;
+  // Set once the request has written an error_logs entry, so the middleware
+  // does not record a second, less detailed one for the same failure
+  errorLogged: boolean;
+}
+
+/**
+ * Incoming request IDs (e.g. from a load balancer) are kept when they look sane
+ */
+const REQUEST_ID_REGEX = /^[A-Za-z0-9._:-]{8,128}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Returns the caller-provided X-Request-Id when valid, otherwise a new UUID
+ */
+export function resolveRequestId(header: string | null): string {
+  return header && REQUEST_ID_REGEX.test(header) ? header : randomUUID();
+}
+
+/**
+ * Runs a request handler with the given context available to getRequestContext()
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Returns the context of the request being handled, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,192 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type {
+  CareerRoadmapDto,
+  CurrentPosition,
+  PromotionPathType,
+  PromotionTemplateRule,
+  RoadmapBadgeSuggestion,
+} from "@/types";
+import { BadgeApplicationStatus, CatalogBadgeStatus } from "@/types";
+import {
+  evaluateRequirements,
+  matchesCondition,
+  matchingLevels,
+  positionLevelRules,
+  type CountableBadge,
+} from "./badge-requirements";
+import { entryLevels } from "./position-levels";
+import { CareerLadderService } from "./career-ladder.service";
+import { resolveCurrentPosition } from "./team.service";
+
+/**
+ * Maximum number of catalog badges suggested for one unmet requirement
+ */
+const MAX_SUGGESTIONS_PER_REQUIREMENT = 10;
+
+/**
+ * Service class for career roadmaps
+ *
+ * Handles:
+ * - Resolving where a user stands on their career path
+ * - Evaluating their unused accepted badges against every remaining level
+ * - Suggesting catalog badges that would close the gaps
+ *
+ * Reads rely on the badge application rls policies, so only the user, their managers
+ * and admins get a complete roadmap.
+ */
+export class RoadmapService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Builds the career roadmap of a user
+   *
+   * @param userId - User ID
+   * @param fallbackPath - Path whose entry level is used when the user's position is unknown
+   * @returns Roadmap with one step per remaining level, or null if the user doesn't exist
+   * @throws Error if database query fails
+   */
+  async getRoadmap(userId: string, fallbackPath: PromotionPathType): Promise<CareerRoadmapDto | null> {
+    // =========================================================================
+    // Step 1: Resolve Current Position
+    // =========================================================================
+    const { data: user, error: userError } = await this.supabase
+      .from("users")
+      .select("id, display_name, email, current_path, current_level")
+      .eq("id", userId)
+      .single();
+
+    if (userError) {
+      if (userError.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch user: ${userError.message}`);
+    }
+
+    const ladder = await new CareerLadderService(this.supabase).getLadder();
+    let position: CurrentPosition | null =
+      user.current_path && user.current_level
+        ? { path: user.current_path as PromotionPathType, level: user.current_level }
+        : null;
+    const positionRecorded = position !== null;
+
+    if (!position) {
+      const { data: promotions, error: promotionsError } = await this.supabase
+        .from("promotions")
+        .select("status, path, from_level, to_level, approved_at, created_at")
+        .eq("created_by", userId);
+
+      if (promotionsError) {
+        throw new Error(`Failed to fetch promotions: ${promotionsError.message}`);
+      }
+
+      position = resolveCurrentPosition(promotions || []) ?? {
+        path: fallbackPath,
+        level: entryLevels(fallbackPath, ladder)[0],
+      };
+    }
+
+    // =========================================================================
+    // Step 2: Fetch Badge Applications
+    // =========================================================================
+    const { data: applications, error: applicationsError } = await this.supabase
+      .from("badge_applications")
+      .select(
+        `
+        catalog_badge_id,
+        status,
+        catalog_badge:catalog_badges!badge_applications_catalog_badge_id_fkey (category, level),
+        promotion_badges!promotion_badges_badge_application_id_fkey (consumed)
+      `
+      )
+      .eq("applicant_id", userId)
+      .in("status", [
+        BadgeApplicationStatus.Submitted,
+        BadgeApplicationStatus.Accepted,
+        BadgeApplicationStatus.UsedInPromotion,
+      ]);
+
+    if (applicationsError) {
+      throw new Error(`Failed to fetch badge applications: ${applicationsError.message}`);
+    }
+
+    // Badges consumed by an approved promotion no longer count toward the next one
+    const badges: CountableBadge[] = (applications || [])
+      .filter(
+        (app) =>
+          app.status !== BadgeApplicationStatus.Submitted && !(app.promotion_badges || []).some((link) => link.consumed)
+      )
+      .map((app) => app.catalog_badge as CountableBadge | null)
+      .filter((badge): badge is CountableBadge => !!badge);
+
+    // Badges already earned or under review are not suggested again
+    const heldBadgeIds = new Set((applications || []).map((app) => app.catalog_badge_id));
+
+    // =========================================================================
+    // Step 3: Evaluate Every Remaining Level of the Path
+    // =========================================================================
+    const levels = ladder.positions[position.path] ?? {};
+    const steps: { from_level: string; to_level: string; rules: PromotionTemplateRule[] }[] = [];
+    const visited = new Set<string>();
+    let level = position.level;
+
+    while (levels[level]?.next_level && !visited.has(level)) {
+      visited.add(level);
+      const nextLevel = levels[level].next_level as string;
+      steps.push({ from_level: level, to_level: nextLevel, rules: positionLevelRules(levels[level]) });
+      level = nextLevel;
+    }
+
+    const evaluatedSteps = steps.map((step) => ({
+      ...step,
+      requirements: evaluateRequirements(step.rules, badges),
+    }));
+
+    // =========================================================================
+    // Step 4: Suggest Catalog Badges for Unmet Requirements
+    // =========================================================================
+    // or_higher requirements are also met by badges of a higher level
+    const unmetLevels = [
+      ...new Set(
+        evaluatedSteps.flatMap((step) => step.requirements.filter((req) => !req.satisfied).flatMap(matchingLevels))
+      ),
+    ];
+    let catalogBadges: RoadmapBadgeSuggestion[] = [];
+
+    if (unmetLevels.length > 0) {
+      const { data, error } = await this.supabase
+        .from("catalog_badges")
+        .select("id, title, category, level")
+        .eq("status", CatalogBadgeStatus.Active)
+        .in("level", unmetLevels)
+        .order("title", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch catalog badges: ${error.message}`);
+      }
+
+      catalogBadges = (data || []).filter((badge) => !heldBadgeIds.has(badge.id));
+    }
+
+    // =========================================================================
+    // Step 5: Assemble Roadmap
+    // =========================================================================
+    return {
+      user: { id: user.id, display_name: user.display_name, email: user.email },
+      path: position.path,
+      current_level: position.level,
+      position_recorded: positionRecorded,
+      accepted_badge_count: badges.length,
+      steps: evaluatedSteps.map((step) => ({
+        from_level: step.from_level,
+        to_level: step.to_level,
+        is_ready: step.requirements.every((req) => req.satisfied),
+        requirements: step.requirements.map((req) => ({
+          ...req,
+          suggested_badges: req.satisfied
+            ? []
+            : catalogBadges.filter((badge) => matchesCondition(req, badge)).slice(0, MAX_SUGGESTIONS_PER_REQUIREMENT),
+        })),
+      })),
+    };
+  }
+}
@@ -0,0 +1,154 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { UserSessionDto } from "@/types";
+import { AuditEventType, AuditResourceType } from "@/types";
+import { logAuditEvent } from "./audit-logger";
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * Summarizes a user agent as "<browser> on <system>" (e.g. "Chrome on macOS")
+ *
+ * Browsers are checked in order because most user agents name several engines
+ * (Edge and Chrome user agents both mention Safari).
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? "Unknown device";
+}
+
+/**
+ * Service class for the sign-in sessions of users
+ *
+ * Handles:
+ * - Reading the session of the current request
+ * - Listing the active sessions of a user
+ * - Signing a user out of their other sessions
+ * - Force sign-out of every session by an admin (audited)
+ *
+ * Sessions live in auth.sessions, which is read and changed through the
+ * list_user_sessions and revoke_user_sessions functions: users reach their own
+ * sessions, admins everyone's.
+ */
+export class SessionService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Returns the session of the client's signed-in user, from the claims of its access token
+   *
+   * @returns Session ID and access token expiry, or null without a valid session
+   */
+  async getCurrentSession(): Promise<{ id: string; expires_at: string } | null> {
+    const { data, error } = await this.supabase.auth.getClaims();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return {
+      id: data.claims.session_id,
+      expires_at: new Date(data.claims.exp * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Lists the active sessions of a user, most recently used first
+   *
+   * @param userId - User whose sessions are listed
+   * @param currentSessionId - Session of the request, flagged as current
+   * @returns Sessions
+   * @throws Error if the query fails
+   */
+  async listSessions(userId: string, currentSessionId: string | null): Promise<UserSessionDto[]> {
+    const { data, error } = await this.supabase.rpc("list_user_sessions", { target: userId });
+
+    if (error) {
+      throw new Error(`Failed to list sessions: ${error.message}`);
+    }
+
+    return (data ?? []).map((session) => ({
+      id: session.id,
+      device: describeUserAgent(session.user_agent),
+      user_agent: session.user_agent,
+      ip: session.ip,
+      created_at: session.created_at,
+      last_seen_at: session.last_seen_at,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Signs a user out of every session except the one making the request
+   *
+   * @param userId - Signed-in user
+   * @param currentSessionId - Session to keep
+   * @returns Number of sessions revoked
+   * @throws Error if the revocation fails
+   */
+  async revokeOtherSessions(userId: string, currentSessionId: string): Promise<number> {
+    return this.revoke(userId, currentSessionId);
+  }
+
+  /**
+   * Signs a user out of all their sessions (admin force sign-out)
+   *
+   * The user is signed out on their next request; the change is audited.
+   *
+   * @param userId - User to sign out
+   * @param actorId - Admin performing the sign-out
+   * @returns Number of sessions revoked
+   * @throws Error with message 'CANNOT_REVOKE_OWN_SESSIONS' when an admin targets themselves
+   * @throws Error if the revocation fails
+   */
+  async revokeAllSessions(userId: string, actorId: string): Promise<number> {
+    if (userId === actorId) {
+      throw new Error("CANNOT_REVOKE_OWN_SESSIONS");
+    }
+
+    const revoked = await this.revoke(userId, null);
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.UserSessionsRevoked,
+      actor_id: actorId,
+      resource_type: AuditResourceType.User,
+      resource_id: userId,
+      payload: { revoked },
+    });
+
+    return revoked;
+  }
+
+  private async revoke(userId: string, keepSessionId: string | null): Promise<number> {
+    const { data, error } = await this.supabase.rpc("revoke_user_sessions", {
+      target: userId,
+      ...(keepSessionId ? { keep_session: keepSessionId } : {}),
+    });
+
+    if (error) {
+      throw new Error(`Failed to revoke sessions: ${error.message}`);
+    }
+
+    return data ?? 0;
+  }
+}
@@ -0,0 +1,251 @@
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+import { randomUUID } from "node:crypto";
+
+/**
+ * Plain-text email sent by the notification worker
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Outbound email channel
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * SMTP connection settings
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  from: string;
+  // Credentials require secure, so they are never sent in plain text
+  user?: string;
+  password?: string;
+  // Implicit TLS (port 465); STARTTLS is not supported
+  secure?: boolean;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Extracts the bare address from "Name <address>" or returns the input unchanged
+ */
+function bareAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded word when it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Builds the RFC 5322 message; the body is base64 encoded so any UTF-8 text is safe
+ */
+export function buildMimeMessage(from: string, message: MailMessage, date = new Date()): string {
+  const domain = bareAddress(from).split("@")[1] || "localhost";
+  const body = (
+    Buffer.from(message.text, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g) ?? []
+  ).join("\r\n");
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+/**
+ * Minimal SMTP client (RFC 5321) used for notification emails
+ *
+ * Opens one connection per message and speaks EHLO, optional AUTH PLAIN, MAIL FROM,
+ * RCPT TO and DATA. This is enough for the local mail catcher (Inbucket, started by
+ * `supabase start` with SMTP on port 54325) and for relays that accept implicit TLS.
+ */
+export class SmtpMailer implements Mailer {
+  /**
+   * @throws Error with message 'SMTP_CONFIG_ERROR: ...' when credentials are set without
+   *         implicit TLS (AUTH PLAIN would send them in plain text)
+   */
+  constructor(private config: SmtpConfig) {
+    if (config.user && !config.secure) {
+      throw new Error(
+        "SMTP_CONFIG_ERROR: SMTP_USER requires SMTP_SECURE=true (implicit TLS); STARTTLS is not supported"
+      );
+    }
+  }
+
+  /**
+   * Sends one message
+   *
+   * @throws Error with message 'SMTP_ERROR: <reply>' when the server rejects a command,
+   *         or a socket error when the connection fails or times out
+   */
+  async send(message: MailMessage): Promise<void> {
+    const socket = await this.open();
+    const replies = new ReplyReader(socket);
+
+    try {
+      await replies.expect(220);
+      await this.command(socket, replies, `EHLO ${bareAddress(this.config.from).split("@")[1] || "localhost"}`, 250);
+
+      if (this.config.user) {
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password ?? ""}`, "utf8").toString(
+          "base64"
+        );
+        await this.command(socket, replies, `AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await this.command(socket, replies, `MAIL FROM:<${bareAddress(this.config.from)}>`, 250);
+      await this.command(socket, replies, `RCPT TO:<${bareAddress(message.to)}>`, 250);
+      await this.command(socket, replies, "DATA", 354);
+
+      // Dot-stuffing: lines starting with "." get an extra "."
+      const data = buildMimeMessage(this.config.from, message).replace(/^\./gm, "..");
+      await this.command(socket, replies, `${data}\r\n.`, 250);
+      await this.command(socket, replies, "QUIT", 221);
+    } finally {
+      socket.destroy();
+    }
+  }
+
+  /**
+   * Writes a command and waits for the expected reply code
+   */
+  private async command(socket: Socket, replies: ReplyReader, line: string, expected: number): Promise<void> {
+    socket.write(`${line}\r\n`);
+    await replies.expect(expected);
+  }
+
+  /**
+   * Opens a plain or TLS socket with a timeout
+   */
+  private open(): Promise<Socket> {
+    const { host, port, secure } = this.config;
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const socket: Socket = secure
+        ? connectTls({ host, port, servername: host }, () => resolve(socket))
+        : connectTcp({ host, port }, () => resolve(socket));
+
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP connection to ${host}:${port} timed out`)));
+      socket.once("error", reject);
+    });
+  }
+}
+
+/**
+ * Collects SMTP replies from a socket; multi-line replies ("250-...") are joined
+ * until the final "250 ..." line arrives
+ */
+class ReplyReader {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: { code: number; text: string }[] = [];
+  private waiting: ((reply: { code: number; text: string } | Error) => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: Socket) {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => this.onData(chunk));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed unexpectedly")));
+  }
+
+  /**
+   * Waits for the next reply and checks its code
+   */
+  async expect(code: number): Promise<void> {
+    const reply = await this.next();
+    if (reply.code !== code) {
+      throw new Error(`SMTP_ERROR: ${reply.code} ${reply.text}`);
+    }
+  }
+
+  private next(): Promise<{ code: number; text: string }> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = (result) => (result instanceof Error ? reject(result) : resolve(result));
+    });
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf("\r\n");
+
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.lines.push(line.slice(4));
+
+      // "250-..." continues a reply, "250 ..." (or a bare code) ends it
+      if (line[3] !== "-") {
+        this.deliver({ code: Number(line.slice(0, 3)), text: this.lines.join(" ") });
+        this.lines = [];
+      }
+      newline = this.buffer.indexOf("\r\n");
+    }
+  }
+
+  private deliver(reply: { code: number; text: string }) {
+    if (this.waiting) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiting) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting(error);
+    }
+  }
+}
+
+/**
+ * Creates the SMTP mailer from environment variables, or null when SMTP_HOST is not set
+ * (email notifications are then skipped and only in-app notifications are created)
+ */
+export function createMailerFromEnv(): Mailer | null {
+  const host = import.meta.env.SMTP_HOST;
+  if (!host) return null;
+
+  return new SmtpMailer({
+    host,
+    port: Number(import.meta.env.SMTP_PORT || 54325),
+    from: import.meta.env.SMTP_FROM || "Badger <notifications@badger.local>",
+    user: import.meta.env.SMTP_USER || undefined,
+    password: import.meta.env.SMTP_PASSWORD || undefined,
+    secure: import.meta.env.SMTP_SECURE === "true",
+  });
+}
@@ -0,0 +1,188 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { UserDto } from "@/types";
+import { AuditEventType, AuditResourceType, UserRole } from "@/types";
+import { logAuditEvent } from "./audit-logger";
+import { mapGroupsToAccess, type SsoGroupMapping } from "./auth/sso-config";
+import type { SsoIdentity } from "./auth/sso-providers";
+
+/**
+ * Service class for accounts signing in through enterprise SSO
+ *
+ * Handles:
+ * - Creating the Supabase Auth user on first sign-in and issuing a one-time sign-in token
+ * - Just-in-time creation of the users row
+ * - Syncing admin rights and the reviewer role from IdP groups (audited)
+ *
+ * Requires the service role client: the user is not signed in yet, and the
+ * mapped grants bypass the admin-only RLS policies.
+ */
+export class SsoProvisioningService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Ensures a Supabase Auth user exists for the identity and issues a sign-in token for it
+   *
+   * An existing account with the same email (e.g. a password account) is reused, so
+   * SSO and password sign-in lead to the same user.
+   *
+   * @returns Auth user ID and the token hash to pass to auth.verifyOtp()
+   * @throws Error if the user cannot be created or the token cannot be issued
+   */
+  async issueSignInToken(identity: SsoIdentity): Promise<{ userId: string; tokenHash: string }> {
+    const { error: createError } = await this.supabase.auth.admin.createUser({
+      email: identity.email,
+      email_confirm: true,
+      user_metadata: identity.displayName ? { full_name: identity.displayName } : {},
+    });
+
+    if (createError && createError.code !== "email_exists") {
+      throw new Error(`Failed to create auth user: ${createError.message}`);
+    }
+
+    const { data, error } = await this.supabase.auth.admin.generateLink({ type: "magiclink", email: identity.email });
+
+    if (error || !data.user) {
+      throw new Error(`Failed to issue sign-in token: ${error?.message ?? "no user"}`);
+    }
+
+    return { userId: data.user.id, tokenHash: data.properties.hashed_token };
+  }
+
+  /**
+   * Creates the users row on first sign-in, records the sign-in and applies the group mapping
+   *
+   * @param userId - Supabase Auth user ID
+   * @param identity - User asserted by the identity provider
+   * @param mapping - Groups granting admin rights and the reviewer role
+   * @returns The user after provisioning
+   * @throws Error with message 'USER_DEACTIVATED' if an admin deactivated the account
+   * @throws Error if a query fails
+   */
+  async provisionUser(userId: string, identity: SsoIdentity, mapping: SsoGroupMapping): Promise<UserDto> {
+    const { data: existing, error: fetchError } = await this.supabase
+      .from("users")
+      .select("*")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch user: ${fetchError.message}`);
+    }
+
+    if (existing?.deactivated_at) {
+      throw new Error("USER_DEACTIVATED");
+    }
+
+    const now = new Date().toISOString();
+    let user: UserDto;
+
+    if (existing) {
+      const { data, error } = await this.supabase
+        .from("users")
+        .update({ last_seen_at: now })
+        .eq("id", userId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to update user: ${error?.message ?? "no data"}`);
+      }
+      user = data;
+    } else {
+      // The first account on a fresh install becomes admin (users_bootstrap_first_admin)
+      const { data, error } = await this.supabase
+        .from("users")
+        .insert({
+          id: userId,
+          email: identity.email,
+          display_name: identity.displayName || identity.email.split("@")[0],
+          last_seen_at: now,
+        })
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to create user: ${error?.message ?? "no data"}`);
+      }
+      user = data;
+
+      await logAuditEvent(this.supabase, {
+        event_type: AuditEventType.UserProvisioned,
+        actor_id: userId,
+        resource_type: AuditResourceType.User,
+        resource_id: userId,
+        payload: { email: user.email, source: "sso" },
+      });
+    }
+
+    return this.applyGroupMapping(user, identity.groups, mapping);
+  }
+
+  /**
+   * Grants or revokes admin rights and the reviewer role to match the IdP groups
+   *
+   * Only mapped access is touched: without admin groups the admin flag stays as set in
+   * the app, and other roles are never changed. An existing reviewer role keeps its
+   * category scope.
+   */
+  private async applyGroupMapping(user: UserDto, groups: string[], mapping: SsoGroupMapping): Promise<UserDto> {
+    const access = mapGroupsToAccess(groups, mapping);
+
+    if (access.isAdmin !== null && access.isAdmin !== user.is_admin) {
+      const { error } = await this.supabase.from("users").update({ is_admin: access.isAdmin }).eq("id", user.id);
+
+      if (error) {
+        throw new Error(`Failed to update admin rights: ${error.message}`);
+      }
+
+      await logAuditEvent(this.supabase, {
+        event_type: access.isAdmin ? AuditEventType.UserAdminGranted : AuditEventType.UserAdminRevoked,
+        actor_id: null,
+        resource_type: AuditResourceType.User,
+        resource_id: user.id,
+        payload: { email: user.email, source: "sso", groups },
+      });
+      user = { ...user, is_admin: access.isAdmin };
+    }
+
+    if (access.isReviewer !== null) {
+      const { data: roles, error: rolesError } = await this.supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .eq("role", UserRole.Reviewer);
+
+      if (rolesError) {
+        throw new Error(`Failed to fetch user roles: ${rolesError.message}`);
+      }
+
+      const hasReviewer = (roles ?? []).length > 0;
+      if (access.isReviewer !== hasReviewer) {
+        const { error } = access.isReviewer
+          ? await this.supabase
+              .from("user_roles")
+              .insert({ user_id: user.id, role: UserRole.Reviewer, categories: null, granted_by: null })
+          : await this.supabase.from("user_roles").delete().eq("user_id", user.id).eq("role", UserRole.Reviewer);
+
+        if (error) {
+          throw new Error(`Failed to update reviewer role: ${error.message}`);
+        }
+
+        await logAuditEvent(this.supabase, {
+          event_type: AuditEventType.UserRolesUpdated,
+          actor_id: null,
+          resource_type: AuditResourceType.User,
+          resource_id: user.id,
+          payload: {
+            email: user.email,
+            source: "sso",
+            groups,
+            ...(access.isReviewer ? { granted: [UserRole.Reviewer] } : { revoked: [UserRole.Reviewer] }),
+          },
+        });
+      }
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,223 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { CurrentPosition, PromotionPathType, TeamMemberProgressDto } from "@/types";
+import { BadgeApplicationStatus, PromotionStatus } from "@/types";
+import { evaluateRequirements, positionLevelRules, type CountableBadge } from "./badge-requirements";
+import { CareerLadderService } from "./career-ladder.service";
+
+/**
+ * Maximum depth of the reporting chain that is followed; matches the cycle check in
+ * the users_prevent_manager_cycle trigger
+ */
+const MAX_HIERARCHY_DEPTH = 50;
+
+/**
+ * Promotion fields needed to place a user on the career ladder
+ */
+interface PromotionPosition {
+  status: string;
+  path: string;
+  from_level: string;
+  to_level: string;
+  approved_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Derives the current path and level of a user from their promotions
+ *
+ * Used for users without a recorded position (users.current_path / current_level).
+ * The latest approved promotion wins (its target level is the current level). Before
+ * the first approval, an open promotion's starting level is used. Returns null when
+ * the user has no promotions yet.
+ */
+export function resolveCurrentPosition(promotions: PromotionPosition[]): CurrentPosition | null {
+  const approved = promotions
+    .filter((promotion) => promotion.status === PromotionStatus.Approved)
+    .sort((a, b) => (b.approved_at ?? b.created_at).localeCompare(a.approved_at ?? a.created_at))[0];
+
+  if (approved) {
+    return { path: approved.path as PromotionPathType, level: approved.to_level };
+  }
+
+  const open = promotions
+    .filter((promotion) => promotion.status === PromotionStatus.Draft || promotion.status === PromotionStatus.Submitted)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+  return open ? { path: open.path as PromotionPathType, level: open.from_level } : null;
+}
+
+/**
+ * Service class for the manager hierarchy
+ *
+ * Handles:
+ * - Resolving the direct and indirect reports of a manager
+ * - Summarizing each report's progress toward their next position level
+ *
+ * Reads rely on the manager rls policies (is_manager_of), so a manager's client
+ * can see their reports' users, badge applications and promotions.
+ */
+export class TeamService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Lists the IDs of everyone reporting to a manager, directly or indirectly
+   *
+   * @param managerId - Manager user ID
+   * @returns Report IDs (the manager is never included)
+   * @throws Error if database query fails
+   */
+  async getReportIds(managerId: string): Promise<string[]> {
+    const visited = new Set<string>([managerId]);
+    const reportIds: string[] = [];
+    let frontier = [managerId];
+
+    for (let depth = 0; depth < MAX_HIERARCHY_DEPTH && frontier.length > 0; depth++) {
+      const { data, error } = await this.supabase.from("users").select("id").in("manager_id", frontier);
+
+      if (error) {
+        throw new Error(`Failed to fetch reports: ${error.message}`);
+      }
+
+      frontier = (data || []).map((row) => row.id).filter((id) => !visited.has(id));
+      frontier.forEach((id) => {
+        visited.add(id);
+        reportIds.push(id);
+      });
+    }
+
+    return reportIds;
+  }
+
+  /**
+   * Checks whether a user reports to a manager, directly or indirectly
+   *
+   * @param managerId - Manager user ID
+   * @param userId - Potential report
+   * @returns True if userId is in the manager's reporting chain
+   * @throws Error if database query fails
+   */
+  async isManagerOf(managerId: string, userId: string): Promise<boolean> {
+    if (managerId === userId) {
+      return false;
+    }
+
+    const reportIds = await this.getReportIds(managerId);
+    return reportIds.includes(userId);
+  }
+
+  /**
+   * Summarizes the progress of a manager's active reports toward their next level
+   *
+   * @param managerId - Manager user ID
+   * @returns One entry per active report, sorted by display name
+   * @throws Error if database query fails
+   */
+  async getTeamProgress(managerId: string): Promise<TeamMemberProgressDto[]> {
+    // =========================================================================
+    // Step 1: Resolve Reports
+    // =========================================================================
+    const reportIds = await this.getReportIds(managerId);
+
+    if (reportIds.length === 0) {
+      return [];
+    }
+
+    const { data: users, error: usersError } = await this.supabase
+      .from("users")
+      .select("id, display_name, email, team, manager_id, current_path, current_level")
+      .in("id", reportIds)
+      .is("deactivated_at", null)
+      .order("display_name", { ascending: true });
+
+    if (usersError) {
+      throw new Error(`Failed to fetch team members: ${usersError.message}`);
+    }
+
+    const memberIds = (users || []).map((user) => user.id);
+
+    if (memberIds.length === 0) {
+      return [];
+    }
+
+    // =========================================================================
+    // Step 2: Fetch Badge Applications and Promotions of the Team
+    // =========================================================================
+    const { data: applications, error: applicationsError } = await this.supabase
+      .from("badge_applications")
+      .select(
+        `
+        applicant_id,
+        status,
+        catalog_badge:catalog_badges!badge_applications_catalog_badge_id_fkey (category, level),
+        promotion_badges!promotion_badges_badge_application_id_fkey (consumed)
+      `
+      )
+      .in("applicant_id", memberIds)
+      .in("status", [
+        BadgeApplicationStatus.Submitted,
+        BadgeApplicationStatus.Accepted,
+        BadgeApplicationStatus.UsedInPromotion,
+      ]);
+
+    if (applicationsError) {
+      throw new Error(`Failed to fetch team badge applications: ${applicationsError.message}`);
+    }
+
+    const { data: promotions, error: promotionsError } = await this.supabase
+      .from("promotions")
+      .select("created_by, status, path, from_level, to_level, approved_at, created_at")
+      .in("created_by", memberIds);
+
+    if (promotionsError) {
+      throw new Error(`Failed to fetch team promotions: ${promotionsError.message}`);
+    }
+
+    // =========================================================================
+    // Step 3: Evaluate Each Member Against the Position Levels
+    // =========================================================================
+    const ladder = await new CareerLadderService(this.supabase).getLadder();
+
+    return (users || []).map((user) => {
+      const memberApplications = (applications || []).filter((app) => app.applicant_id === user.id);
+      const memberPromotions = (promotions || []).filter((promotion) => promotion.created_by === user.id);
+
+      // Badges consumed by an approved promotion no longer count toward the next one
+      const badges: CountableBadge[] = memberApplications
+        .filter(
+          (app) =>
+            app.status !== BadgeApplicationStatus.Submitted &&
+            !(app.promotion_badges || []).some((link) => link.consumed)
+        )
+        .map((app) => app.catalog_badge as CountableBadge | null)
+        .filter((badge): badge is CountableBadge => !!badge);
+
+      const position: CurrentPosition | null =
+        user.current_path && user.current_level
+          ? { path: user.current_path as PromotionPathType, level: user.current_level }
+          : resolveCurrentPosition(memberPromotions);
+      const levelDefinition = position ? ladder.positions[position.path]?.[position.level] : undefined;
+      const nextLevel = levelDefinition?.next_level ?? null;
+
+      return {
+        user: {
+          id: user.id,
+          display_name: user.display_name,
+          email: user.email,
+          team: user.team,
+          manager_id: user.manager_id,
+        },
+        path: position?.path ?? null,
+        current_level: position?.level ?? null,
+        next_level: nextLevel,
+        requirements:
+          levelDefinition && nextLevel ? evaluateRequirements(positionLevelRules(levelDefinition), badges) : [],
+        accepted_badge_count: badges.length,
+        pending_application_count: memberApplications.filter((app) => app.status === BadgeApplicationStatus.Submitted)
+          .length,
+        open_promotion_count: memberPromotions.filter(
+          (promotion) => promotion.status === PromotionStatus.Draft || promotion.status === PromotionStatus.Submitted
+        ).length,
+      };
+    });
+  }
+}
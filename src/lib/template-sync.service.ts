@@ -0,0 +1,335 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type {
+  PositionLevelsResponse,
+  PromotionPathType,
+  PromotionTemplateRule,
+  TemplateConsistencyIssueDto,
+  TemplateConsistencyReportDto,
+  TemplateSyncAction,
+  TemplateSyncChangeDto,
+  TemplateSyncResultDto,
+} from "@/types";
+import { positionLevelRules } from "./badge-requirements";
+import { CareerLadderService } from "./career-ladder.service";
+import { PromotionTemplateService } from "./promotion-template.service";
+import { upgradeTemplateRules } from "./validation/promotion-template.validation";
+
+/**
+ * Template fields the ladder comparison looks at
+ */
+interface StoredTemplate {
+  id: string;
+  name: string;
+  path: string;
+  from_level: string;
+  to_level: string;
+  rules: PromotionTemplateRule[];
+  is_active: boolean;
+}
+
+/**
+ * One promotion described by the ladder: a level with a next level
+ */
+interface LadderStep {
+  path: PromotionPathType;
+  from_level: string;
+  to_level: string;
+  rules: PromotionTemplateRule[];
+}
+
+/**
+ * Lists every promotion of a career ladder
+ */
+function ladderSteps(ladder: PositionLevelsResponse): LadderStep[] {
+  return Object.entries(ladder.positions).flatMap(([path, levels]) =>
+    Object.entries(levels)
+      .filter(([, definition]) => !!definition.next_level)
+      .map(([level, definition]) => ({
+        path: path as PromotionPathType,
+        from_level: level,
+        to_level: definition.next_level as string,
+        rules: positionLevelRules(definition),
+      }))
+  );
+}
+
+/**
+ * Canonical form of rules, so rule sets can be compared regardless of order
+ */
+function rulesKey(rules: PromotionTemplateRule[]): string {
+  return rules
+    .map((rule) =>
+      JSON.stringify([
+        rule.category,
+        rule.level,
+        rule.count,
+        !!rule.or_higher,
+        rule.max_per_badge ?? null,
+        (rule.alternatives ?? []).map((alternative) => [
+          alternative.category,
+          alternative.level,
+          alternative.count,
+          !!alternative.or_higher,
+        ]),
+      ])
+    )
+    .sort()
+    .join("|");
+}
+
+/**
+ * Name given to templates created from the ladder, e.g. "Technical J1 → J2"
+ */
+function templateName(step: LadderStep): string {
+  return `${step.path.charAt(0).toUpperCase()}${step.path.slice(1)} ${step.from_level} → ${step.to_level}`;
+}
+
+/**
+ * Service class for keeping promotion templates in line with the career ladder
+ *
+ * The career ladder in force (see CareerLadderService) and the promotion_templates table
+ * describe the same promotions. This service:
+ * - Plans (and applies) the template changes that make the table match the ladder
+ * - Flags active templates whose levels or rules disagree with the ladder
+ *
+ * Templates are written through PromotionTemplateService, so every change is validated
+ * the same way and audit logged.
+ */
+export class TemplateSyncService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Syncs promotion templates from the career ladder
+   *
+   * Per ladder level with a next level, the template for the same path and from_level
+   * (active ones first) is kept, updated (to_level, rules, reactivation) or created.
+   * Other active templates starting there, and active templates for levels the ladder
+   * doesn't promote from, are deactivated.
+   *
+   * Changes are applied one by one; if one fails, the earlier ones stay applied.
+   *
+   * @param options - dryRun: only plan; actorId: user performing the sync (audit log)
+   * @returns Planned changes, applied unless dryRun
+   * @throws Error if database query fails
+   */
+  async syncFromLadder(options: { dryRun: boolean; actorId: string }): Promise<TemplateSyncResultDto> {
+    // =========================================================================
+    // Step 1: Plan Changes
+    // =========================================================================
+    const ladder = await new CareerLadderService(this.supabase).getLadder();
+    const templates = await this.fetchTemplates();
+    const changes: TemplateSyncChangeDto[] = [];
+    const matched = new Set<string>();
+
+    for (const step of ladderSteps(ladder)) {
+      const candidates = templates.filter((t) => t.path === step.path && t.from_level === step.from_level);
+      const template =
+        candidates.find((t) => t.is_active && t.to_level === step.to_level) ??
+        candidates.find((t) => t.is_active) ??
+        candidates.find((t) => t.to_level === step.to_level) ??
+        candidates[0];
+
+      if (!template) {
+        changes.push({
+          action: "create",
+          template_id: null,
+          name: templateName(step),
+          path: step.path,
+          from_level: step.from_level,
+          to_level: step.to_level,
+          rules: step.rules,
+          reasons: ["No template for this ladder level"],
+        });
+        continue;
+      }
+
+      matched.add(template.id);
+      const reasons: string[] = [];
+      if (template.to_level !== step.to_level) {
+        reasons.push(`to_level changes from ${template.to_level} to ${step.to_level}`);
+      }
+      if (rulesKey(template.rules) !== rulesKey(step.rules)) {
+        reasons.push("Rules differ from the ladder");
+      }
+      if (!template.is_active) {
+        reasons.push("Template is inactive");
+      }
+
+      changes.push({
+        action: reasons.length > 0 ? "update" : "unchanged",
+        template_id: template.id,
+        name: template.name,
+        path: step.path,
+        from_level: step.from_level,
+        to_level: step.to_level,
+        rules: step.rules,
+        reasons,
+      });
+
+      for (const duplicate of candidates.filter((t) => t.is_active && t.id !== template.id)) {
+        matched.add(duplicate.id);
+        changes.push({
+          action: "deactivate",
+          template_id: duplicate.id,
+          name: duplicate.name,
+          path: duplicate.path,
+          from_level: duplicate.from_level,
+          to_level: duplicate.to_level,
+          rules: null,
+          reasons: [`Duplicate of "${template.name}" for ${step.from_level}`],
+        });
+      }
+    }
+
+    for (const template of templates.filter((t) => t.is_active && !matched.has(t.id))) {
+      changes.push({
+        action: "deactivate",
+        template_id: template.id,
+        name: template.name,
+        path: template.path,
+        from_level: template.from_level,
+        to_level: template.to_level,
+        rules: null,
+        reasons: [`The ladder has no promotion from ${template.path} ${template.from_level}`],
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Apply Changes
+    // =========================================================================
+    if (!options.dryRun) {
+      const templateService = new PromotionTemplateService(this.supabase);
+
+      for (const change of changes) {
+        if (change.action === "create" && change.rules) {
+          const created = await templateService.createPromotionTemplate(
+            {
+              name: change.name,
+              path: change.path as PromotionPathType,
+              from_level: change.from_level,
+              to_level: change.to_level,
+              rules: change.rules,
+            },
+            options.actorId
+          );
+          change.template_id = created.id;
+        } else if (change.action === "update" && change.template_id && change.rules) {
+          await templateService.updatePromotionTemplate(
+            change.template_id,
+            { to_level: change.to_level, rules: change.rules, is_active: true },
+            options.actorId
+          );
+        } else if (change.action === "deactivate" && change.template_id) {
+          await templateService.deactivatePromotionTemplate(change.template_id, options.actorId);
+        }
+      }
+    }
+
+    // =========================================================================
+    // Step 3: Summarize
+    // =========================================================================
+    const summary: Record<TemplateSyncAction, number> = { create: 0, update: 0, deactivate: 0, unchanged: 0 };
+    for (const change of changes) {
+      summary[change.action]++;
+    }
+
+    return {
+      dry_run: options.dryRun,
+      applied: !options.dryRun,
+      summary,
+      changes,
+    };
+  }
+
+  /**
+   * Checks the active templates against the career ladder
+   *
+   * Flags templates whose path or levels don't exist in the ladder, whose to_level
+   * isn't the ladder's next level, and whose rules differ from the ladder's.
+   *
+   * @returns Number of checked templates and the issues found
+   * @throws Error if database query fails
+   */
+  async checkConsistency(): Promise<TemplateConsistencyReportDto> {
+    const ladder = await new CareerLadderService(this.supabase).getLadder();
+    const templates = (await this.fetchTemplates()).filter((t) => t.is_active);
+    const issues: TemplateConsistencyIssueDto[] = [];
+
+    for (const template of templates) {
+      const flag = (code: TemplateConsistencyIssueDto["code"], message: string) =>
+        issues.push({
+          template_id: template.id,
+          name: template.name,
+          path: template.path,
+          from_level: template.from_level,
+          to_level: template.to_level,
+          code,
+          message,
+        });
+
+      const levels = ladder.positions[template.path as PromotionPathType];
+      if (!levels) {
+        flag("unknown_path", `Career path ${template.path} is not in the ladder`);
+        continue;
+      }
+
+      const definition = Object.prototype.hasOwnProperty.call(levels, template.from_level)
+        ? levels[template.from_level]
+        : null;
+      const toLevelExists = Object.prototype.hasOwnProperty.call(levels, template.to_level);
+
+      if (!definition) {
+        flag("unknown_from_level", `Level ${template.from_level} is not in the ${template.path} ladder`);
+      }
+      if (!toLevelExists) {
+        flag("unknown_to_level", `Level ${template.to_level} is not in the ${template.path} ladder`);
+      }
+      if (!definition) {
+        continue;
+      }
+
+      if (toLevelExists && definition.next_level !== template.to_level) {
+        flag(
+          "to_level_mismatch",
+          definition.next_level
+            ? `The ladder promotes from ${template.from_level} to ${definition.next_level}, not ${template.to_level}`
+            : `The ladder has no promotion from ${template.from_level}`
+        );
+      }
+      if (rulesKey(template.rules) !== rulesKey(positionLevelRules(definition))) {
+        flag("rules_mismatch", `Rules differ from the ladder's requirements for ${template.from_level}`);
+      }
+    }
+
+    return {
+      checked: templates.length,
+      consistent: issues.length === 0,
+      issues,
+    };
+  }
+
+  /**
+   * Fetches all templates (active and inactive), oldest first, with rules upgraded
+   * to the current schema version
+   */
+  private async fetchTemplates(): Promise<StoredTemplate[]> {
+    const { data, error } = await this.supabase
+      .from("promotion_templates")
+      .select("id, name, path, from_level, to_level, rules, rules_version, is_active")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch promotion templates: ${error.message}`);
+    }
+
+    return (data || []).map((template) => ({
+      id: template.id,
+      name: template.name,
+      path: template.path,
+      from_level: template.from_level,
+      to_level: template.to_level,
+      rules: upgradeTemplateRules(template.rules, template.rules_version),
+      is_active: template.is_active,
+    }));
+  }
+}
@@ -0,0 +1,139 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { CurrentPosition, PromotionPathType, UserPositionDto, UserPositionResponse } from "@/types";
+import { AuditEventType, AuditResourceType, UserPositionSource } from "@/types";
+import type { SetUserPositionInput } from "./validation/user.validation";
+import { logAuditEvent } from "./audit-logger";
+
+/**
+ * Service class for users' career positions
+ *
+ * Handles:
+ * - Reading a user's current path and level and their position history
+ * - Recording a position set by an admin
+ *
+ * Approved promotions record their target level themselves (promotions_record_position
+ * trigger); users.current_path / current_level always mirror the latest effective entry.
+ */
+export class UserPositionService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Fetches the current position of a user
+   *
+   * @param userId - User ID
+   * @returns Current path and level, or null if none is recorded (or the user doesn't exist)
+   * @throws Error if database query fails
+   */
+  async getCurrentPosition(userId: string): Promise<CurrentPosition | null> {
+    const { data, error } = await this.supabase
+      .from("users")
+      .select("current_path, current_level")
+      .eq("id", userId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch current position: ${error.message}`);
+    }
+
+    if (!data.current_path || !data.current_level) {
+      return null;
+    }
+
+    return { path: data.current_path as PromotionPathType, level: data.current_level };
+  }
+
+  /**
+   * Fetches the current position and the position history of a user
+   *
+   * @param userId - User ID
+   * @returns Current position and history (newest first), or null if the user doesn't exist
+   * @throws Error if database query fails
+   */
+  async getPositions(userId: string): Promise<UserPositionResponse | null> {
+    const { data: user, error: userError } = await this.supabase
+      .from("users")
+      .select("id, current_path, current_level")
+      .eq("id", userId)
+      .single();
+
+    if (userError) {
+      if (userError.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch user: ${userError.message}`);
+    }
+
+    const { data: history, error: historyError } = await this.supabase
+      .from("user_positions")
+      .select("*")
+      .eq("user_id", userId)
+      .order("effective_from", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (historyError) {
+      throw new Error(`Failed to fetch position history: ${historyError.message}`);
+    }
+
+    return {
+      user_id: user.id,
+      current:
+        user.current_path && user.current_level
+          ? { path: user.current_path as PromotionPathType, level: user.current_level }
+          : null,
+      history: (history || []) as UserPositionDto[],
+    };
+  }
+
+  /**
+   * Records a position set by an admin (e.g. onboarding or a correction)
+   *
+   * @param userId - User whose position is set
+   * @param command - Path, level and optional effective date and note
+   * @param actorId - Admin performing the change
+   * @returns Current position and history after the change, or null if the user doesn't exist
+   * @throws Error if database operation fails
+   */
+  async setPosition(
+    userId: string,
+    command: SetUserPositionInput,
+    actorId: string
+  ): Promise<UserPositionResponse | null> {
+    const previous = await this.getPositions(userId);
+
+    if (!previous) {
+      return null;
+    }
+
+    const { error } = await this.supabase.from("user_positions").insert({
+      user_id: userId,
+      path: command.path,
+      level: command.level,
+      effective_from: command.effective_from ?? new Date().toISOString(),
+      source: UserPositionSource.Admin,
+      note: command.note ?? null,
+      created_by: actorId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to record position: ${error.message}`);
+    }
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.UserPositionSet,
+      actor_id: actorId,
+      resource_type: AuditResourceType.User,
+      resource_id: userId,
+      payload: {
+        previous_position: previous.current,
+        path: command.path,
+        level: command.level,
+        effective_from: command.effective_from ?? null,
+      },
+    });
+
+    return this.getPositions(userId);
+  }
+}
@@ -0,0 +1,324 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type {
+  DeactivatedUserDto,
+  PaginatedResponse,
+  PaginationMetadata,
+  UserListItemDto,
+  UserRoleAssignment,
+} from "@/types";
+import { AuditEventType, AuditResourceType, UserStatus } from "@/types";
+import { logAuditEvent } from "./audit-logger";
+import { logError } from "./error-logger";
+import { SessionService } from "./session.service";
+import type { ListUsersQuery, UpdateUserRolesInput } from "./validation/user.validation";
+
+const USER_LIST_COLUMNS =
+  "id, email, display_name, is_admin, created_at, last_seen_at, deactivated_at, deactivated_by, manager_id, team, current_path, current_level, roles:user_roles!user_roles_user_id_fkey (role, categories)";
+
+/**
+ * Normalizes a users row with embedded roles (the embed is missing when no roles were selected)
+ */
+function toUserListItem(row: unknown): UserListItemDto {
+  const user = row as Omit<UserListItemDto, "roles"> & { roles?: UserRoleAssignment[] | null };
+  return { ...user, roles: user.roles ?? [] };
+}
+
+/**
+ * Builds an ilike pattern for a search term that is safe inside a PostgREST or() filter
+ * (LIKE wildcards are matched literally, filter syntax characters are dropped)
+ */
+function toSearchPattern(search: string): string {
+  const cleaned = search.replace(/[,()"]/g, " ").replace(/[\\%_]/g, (char) => `\\${char}`);
+  return `%${cleaned}%`;
+}
+
+/**
+ * Service class for admin user management
+ *
+ * Handles:
+ * - Listing and searching users
+ * - Granting and revoking admin rights
+ * - Deactivating and reactivating accounts
+ * - Granting roles (reviewer, catalog manager, promotion approver)
+ *
+ * Admins cannot change their own admin flag or deactivate themselves, so an
+ * installation always keeps at least one active admin. Every change is audited.
+ */
+export class UserService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Lists users with search, filtering and pagination (sorted by display name)
+   *
+   * @param query - Validated query parameters
+   * @returns Paginated response with users
+   * @throws Error if database query fails
+   */
+  async listUsers(query: ListUsersQuery): Promise<PaginatedResponse<UserListItemDto>> {
+    let dataQuery = this.supabase.from("users").select(USER_LIST_COLUMNS);
+    let countQuery = this.supabase.from("users").select("*", { count: "exact", head: true });
+
+    if (query.search) {
+      const pattern = toSearchPattern(query.search);
+      const filter = `email.ilike.${pattern},display_name.ilike.${pattern}`;
+      dataQuery = dataQuery.or(filter);
+      countQuery = countQuery.or(filter);
+    }
+
+    if (query.status === UserStatus.Active) {
+      dataQuery = dataQuery.is("deactivated_at", null);
+      countQuery = countQuery.is("deactivated_at", null);
+    } else if (query.status === UserStatus.Deactivated) {
+      dataQuery = dataQuery.not("deactivated_at", "is", null);
+      countQuery = countQuery.not("deactivated_at", "is", null);
+    }
+
+    if (query.is_admin !== undefined) {
+      dataQuery = dataQuery.eq("is_admin", query.is_admin);
+      countQuery = countQuery.eq("is_admin", query.is_admin);
+    }
+
+    const { count, error: countError } = await countQuery;
+
+    if (countError) {
+      throw new Error(`Failed to count users: ${countError.message}`);
+    }
+
+    const { data, error: dataError } = await dataQuery
+      .order("display_name", { ascending: true })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    if (dataError) {
+      throw new Error(`Failed to fetch users: ${dataError.message}`);
+    }
+
+    const total = count ?? 0;
+    const pagination: PaginationMetadata = {
+      total,
+      limit: query.limit,
+      offset: query.offset,
+      has_more: query.offset + query.limit < total,
+    };
+
+    return {
+      data: (data || []).map(toUserListItem),
+      pagination,
+    };
+  }
+
+  /**
+   * Grants or revokes admin rights
+   *
+   * @param id - User ID
+   * @param isAdmin - New admin flag
+   * @param actorId - Admin performing the change
+   * @returns Updated user, or null if not found
+   * @throws Error with message 'CANNOT_CHANGE_OWN_ADMIN' when an admin targets themselves
+   * @throws Error with message 'USER_DEACTIVATED' when granting admin to a deactivated account
+   * @throws Error if database operation fails
+   */
+  async setAdmin(id: string, isAdmin: boolean, actorId: string): Promise<UserListItemDto | null> {
+    if (id === actorId) {
+      throw new Error("CANNOT_CHANGE_OWN_ADMIN");
+    }
+
+    const user = await this.fetchUser(id);
+    if (!user) {
+      return null;
+    }
+
+    if (user.is_admin === isAdmin) {
+      return user;
+    }
+
+    if (isAdmin && user.deactivated_at) {
+      throw new Error("USER_DEACTIVATED");
+    }
+
+    const updated = await this.updateUser(id, { is_admin: isAdmin });
+
+    await logAuditEvent(this.supabase, {
+      event_type: isAdmin ? AuditEventType.UserAdminGranted : AuditEventType.UserAdminRevoked,
+      actor_id: actorId,
+      resource_type: AuditResourceType.User,
+      resource_id: id,
+      payload: { email: user.email },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Deactivates an account; the user can no longer sign in or open pages
+   *
+   * Also signs the user out of every device, so open sessions end on their next request.
+   * The deactivation is already committed at that point, so a failed sign-out is logged
+   * and reported as a warning instead of failing the call.
+   *
+   * @param id - User ID
+   * @param actorId - Admin performing the change
+   * @returns Updated user (with a warning if the sessions were not revoked), or null if not found
+   * @throws Error with message 'CANNOT_DEACTIVATE_SELF' when an admin targets themselves
+   * @throws Error with message 'USER_ALREADY_DEACTIVATED' if the account is already deactivated
+   * @throws Error if database operation fails
+   */
+  async deactivateUser(id: string, actorId: string): Promise<DeactivatedUserDto | null> {
+    if (id === actorId) {
+      throw new Error("CANNOT_DEACTIVATE_SELF");
+    }
+
+    const user = await this.fetchUser(id);
+    if (!user) {
+      return null;
+    }
+
+    if (user.deactivated_at) {
+      throw new Error("USER_ALREADY_DEACTIVATED");
+    }
+
+    const updated = await this.updateUser(id, {
+      deactivated_at: new Date().toISOString(),
+      deactivated_by: actorId,
+    });
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.UserDeactivated,
+      actor_id: actorId,
+      resource_type: AuditResourceType.User,
+      resource_id: id,
+      payload: { email: user.email },
+    });
+
+    try {
+      await new SessionService(this.supabase).revokeAllSessions(id, actorId);
+    } catch (error) {
+      await logError(this.supabase, {
+        route: "/api/users/:id/deactivate",
+        error_code: "session_revocation_failed",
+        message: error instanceof Error ? error.message : String(error),
+        payload: { user_id: id },
+        requester_id: actorId,
+      });
+      return { ...updated, warning: "Account deactivated, but its sessions could not be revoked" };
+    }
+
+    return updated;
+  }
+
+  /**
+   * Reactivates a deactivated account
+   *
+   * @param id - User ID
+   * @param actorId - Admin performing the change
+   * @returns Updated user, or null if not found
+   * @throws Error with message 'USER_NOT_DEACTIVATED' if the account is active
+   * @throws Error if database operation fails
+   */
+  async reactivateUser(id: string, actorId: string): Promise<UserListItemDto | null> {
+    const user = await this.fetchUser(id);
+    if (!user) {
+      return null;
+    }
+
+    if (!user.deactivated_at) {
+      throw new Error("USER_NOT_DEACTIVATED");
+    }
+
+    const updated = await this.updateUser(id, { deactivated_at: null, deactivated_by: null });
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.UserReactivated,
+      actor_id: actorId,
+      resource_type: AuditResourceType.User,
+      resource_id: id,
+      payload: { email: user.email },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Replaces the roles of a user
+   *
+   * Roles of admins are kept but have no effect while the admin flag is set.
+   *
+   * @param id - User ID
+   * @param command - Validated roles to grant; roles not listed are revoked
+   * @param actorId - Admin performing the change
+   * @returns Updated user, or null if not found
+   * @throws Error with message 'USER_DEACTIVATED' when granting roles to a deactivated account
+   * @throws Error if database operation fails
+   */
+  async setRoles(id: string, command: UpdateUserRolesInput, actorId: string): Promise<UserListItemDto | null> {
+    const user = await this.fetchUser(id);
+    if (!user) {
+      return null;
+    }
+
+    if (command.roles.length > 0 && user.deactivated_at) {
+      throw new Error("USER_DEACTIVATED");
+    }
+
+    const roles = command.roles.map((entry) => ({
+      role: entry.role,
+      categories: entry.categories ? [...new Set(entry.categories)].sort() : null,
+    })) as UserRoleAssignment[];
+
+    const { error: deleteError } = await this.supabase.from("user_roles").delete().eq("user_id", id);
+
+    if (deleteError) {
+      throw new Error(`Failed to revoke roles: ${deleteError.message}`);
+    }
+
+    if (roles.length > 0) {
+      const { error: insertError } = await this.supabase
+        .from("user_roles")
+        .insert(roles.map((entry) => ({ ...entry, user_id: id, granted_by: actorId })));
+
+      if (insertError) {
+        throw new Error(`Failed to grant roles: ${insertError.message}`);
+      }
+    }
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.UserRolesUpdated,
+      actor_id: actorId,
+      resource_type: AuditResourceType.User,
+      resource_id: id,
+      payload: { email: user.email, previous_roles: user.roles, roles },
+    });
+
+    return { ...user, roles };
+  }
+
+  private async fetchUser(id: string): Promise<UserListItemDto | null> {
+    const { data, error } = await this.supabase.from("users").select(USER_LIST_COLUMNS).eq("id", id).single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw new Error(`Failed to fetch user: ${error.message}`);
+    }
+
+    return toUserListItem(data);
+  }
+
+  private async updateUser(
+    id: string,
+    changes: { is_admin?: boolean; deactivated_at?: string | null; deactivated_by?: string | null }
+  ): Promise<UserListItemDto> {
+    const { data, error } = await this.supabase
+      .from("users")
+      .update(changes)
+      .eq("id", id)
+      .select(USER_LIST_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update user: ${error.message}`);
+    }
+
+    return toUserListItem(data);
+  }
+}
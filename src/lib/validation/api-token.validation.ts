@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { ApiTokenScope } from "@/types";
+
+const scopes = Object.values(ApiTokenScope) as [string, ...string[]];
+
+/**
+ * Longest lifetime of an API token, in days
+ */
+export const MAX_API_TOKEN_DAYS = 365;
+
+/**
+ * Validation schema for GET /api/api-tokens query parameters
+ */
+export const listApiTokensQuerySchema = z.object({
+  // Every user's tokens instead of the caller's own (admin only)
+  all: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .default(false),
+});
+
+/**
+ * Validation schema for POST /api/api-tokens request body
+ */
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+  scope: z.enum(scopes, { message: "Scope must be read, review or admin" }),
+  expires_in_days: z.number().int().min(1).max(MAX_API_TOKEN_DAYS).default(90),
+  // Owner of a service token (admin only); defaults to the caller
+  user_id: z.string().uuid("Invalid user ID format").optional(),
+});
+
+/**
+ * Validation schema for the :id path parameter of /api/api-tokens/:id
+ */
+export const apiTokenIdParamSchema = z.object({
+  id: z.string().uuid("Invalid API token ID format"),
+});
+
+/**
+ * Inferred TypeScript types from the Zod schemas
+ */
+export type ListApiTokensQuery = z.infer<typeof listApiTokensQuerySchema>;
+export type CreateApiTokenInput = z.infer<typeof createApiTokenSchema>;
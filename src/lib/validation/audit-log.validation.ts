@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { AuditEventType, AuditResourceType } from "@/types";
+
+const eventTypes = Object.values(AuditEventType) as [string, ...string[]];
+const resourceTypes = Object.values(AuditResourceType) as [string, ...string[]];
+
+/**
+ * Accepts either a full ISO timestamp or a plain YYYY-MM-DD date
+ */
+export const dateBoundary = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: "Invalid date. Use an ISO timestamp or YYYY-MM-DD",
+});
+
+/**
+ * Validation schema for GET /api/audit-logs query parameters
+ *
+ * Validates filters (actor, event type, resource, date range), sorting and pagination.
+ */
+export const listAuditLogsQuerySchema = z
+  .object({
+    // Filter by the user who performed the action
+    actor_id: z.string().uuid("Invalid actor ID format").optional(),
+
+    // Filter by event type (e.g. "badge_application.accepted")
+    event_type: z.enum(eventTypes).optional(),
+
+    // Filter by resource type and/or a specific resource
+    resource_type: z.enum(resourceTypes).optional(),
+    resource_id: z.string().uuid("Invalid resource ID format").optional(),
+
+    // Date range (inclusive); plain dates cover the whole day
+    from: dateBoundary.optional(),
+    to: dateBoundary.optional(),
+
+    // Sort order (entries are always sorted by created_at)
+    order: z.enum(["asc", "desc"]).default("desc"),
+
+    // Pagination: items per page (1-100, default 50)
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+
+    // Pagination: offset (non-negative, default 0)
+    offset: z.coerce.number().int().min(0).default(0),
+  })
+  .refine((query) => !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to), {
+    message: "'from' must be on or before 'to'",
+    path: ["from"],
+  });
+
+/**
+ * Inferred TypeScript type from the Zod schema
+ */
+export type ListAuditLogsQuery = z.infer<typeof listAuditLogsQuerySchema>;
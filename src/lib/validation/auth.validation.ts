@@ -4,6 +4,16 @@ import { z } from "zod";
  * Validation schemas for authentication endpoints
  */
 
+/**
+ * Password policy for new passwords (registration and password reset)
+ *
+ * Supabase Auth hashes passwords with bcrypt, which ignores everything after 72 bytes.
+ */
+export const PasswordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters long")
+  .max(72, "Password must be at most 72 characters long");
+
 export const LoginSchema = z.object({
   email: z.string().email("Invalid email format"),
   password: z.string().min(1, "Password is required"),
@@ -11,17 +21,23 @@ export const LoginSchema = z.object({
 
 export const RegisterSchema = z.object({
   email: z.string().email("Invalid email format"),
-  password: z.string().min(8, "Password must be at least 8 characters long"),
+  password: PasswordSchema,
 });
 
 export const ForgotPasswordSchema = z.object({
-  email: z.string().email("Invalid email format"),
+  email: z.string().trim().toLowerCase().email("Invalid email format"),
 });
 
-export const ResetPasswordSchema = z.object({
-  token: z.string().min(1, "Reset token is required"),
-  password: z.string().min(8, "Password must be at least 8 characters long"),
-});
+export const ResetPasswordSchema = z
+  .object({
+    token: z.string().min(1, "Reset token is required"),
+    password: PasswordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
 
 export type LoginInput = z.infer<typeof LoginSchema>;
 export type RegisterInput = z.infer<typeof RegisterSchema>;
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { BadgeCategory, BadgeLevel } from "@/types";
+import { ladderChainIssues } from "@/lib/position-levels";
+
+const badgeLevels = Object.values(BadgeLevel) as [string, ...string[]];
+const requirementCategories = ["any", ...Object.values(BadgeCategory)] as [string, ...string[]];
+const levelName = z.string().trim().min(1, "Level name is required").max(20, "Level names are at most 20 characters");
+
+/**
+ * Validation schema for one level of a career path
+ */
+const positionLevelSchema = z
+  .object({
+    next_level: levelName.optional(),
+    required_badges: z.partialRecord(
+      z.enum(requirementCategories, { message: "Invalid badge category" }),
+      z
+        .array(
+          z
+            .object({
+              level: z.enum(badgeLevels, { message: "Invalid badge level" }),
+              count: z.number().int().min(1, "count must be at least 1").max(100),
+            })
+            .strict()
+        )
+        .max(3)
+    ),
+  })
+  .strict();
+
+/**
+ * Validation schema for the levels of one career path
+ */
+const pathLevelsSchema = z
+  .record(levelName, positionLevelSchema)
+  .refine((levels) => Object.keys(levels).length <= 20, "A career path has at most 20 levels");
+
+/**
+ * Validation schema for the positions of a career ladder
+ *
+ * Same shape as src/config/position-levels.json. Every path needs at least one level,
+ * and each path must be a single next_level chain (see ladderChainIssues).
+ */
+export const careerLadderPositionsSchema = z
+  .object(
+    {
+      technical: pathLevelsSchema,
+      financial: pathLevelsSchema,
+      management: pathLevelsSchema,
+    },
+    { message: "positions must be an object with one entry per career path" }
+  )
+  .strict()
+  .superRefine((positions, ctx) => {
+    for (const issue of ladderChainIssues({ positions })) {
+      ctx.addIssue({
+        code: "custom",
+        message: issue.message,
+        path: issue.level ? [issue.path, issue.level] : [issue.path],
+      });
+    }
+  });
+
+/**
+ * Validation schema for POST /api/position-levels request body
+ *
+ * effective_from defaults to now; future dates schedule the version.
+ */
+export const createCareerLadderVersionSchema = z.object({
+  positions: careerLadderPositionsSchema,
+  effective_from: z
+    .string()
+    .datetime({ offset: true, message: "effective_from must be an ISO 8601 timestamp" })
+    .optional(),
+  note: z.string().trim().max(500, "note must be at most 500 characters").optional(),
+});
+
+/**
+ * Validation schema for GET /api/position-levels query parameters
+ *
+ * date accepts an ISO 8601 date or timestamp; the ladder in force now when omitted.
+ */
+export const careerLadderQuerySchema = z.object({
+  date: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), "date must be an ISO 8601 date or timestamp")
+    .optional(),
+});
+
+export type CreateCareerLadderVersionInput = z.infer<typeof createCareerLadderVersionSchema>;
+export type CareerLadderQuery = z.infer<typeof careerLadderQuerySchema>;
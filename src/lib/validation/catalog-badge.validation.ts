@@ -17,7 +17,7 @@ export const listCatalogBadgesQuerySchema = z.object({
   q: z.string().max(200).optional(),
 
   // Filter by badge status (admin only - enforced at route level)
-  status: z.enum(["active", "inactive"]).optional(),
+  status: z.enum(["active", "inactive", "archived"]).optional(),
 
   // Sort field
   sort: z.enum(["created_at", "title"]).default("created_at"),
@@ -65,6 +65,58 @@ export const createCatalogBadgeSchema = z.object({
  */
 export type CreateCatalogBadgeSchema = z.infer<typeof createCatalogBadgeSchema>;
 
+/**
+ * Validation schema for PUT /api/catalog-badges/:id
+ *
+ * All fields are optional (partial update) but at least one must be provided.
+ * Every successful update creates a new badge version.
+ */
+export const updateCatalogBadgeSchema = z
+  .object({
+    title: z.string().min(1, "Title cannot be empty").max(200, "Title must be at most 200 characters").optional(),
+    description: z.string().max(2000, "Description must be at most 2000 characters").optional(),
+    category: z.enum(["technical", "organizational", "softskilled"]).optional(),
+    level: z.enum(["gold", "silver", "bronze"]).optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field must be provided",
+  });
+
+/**
+ * Inferred TypeScript type from the update catalog badge schema
+ */
+export type UpdateCatalogBadgeSchema = z.infer<typeof updateCatalogBadgeSchema>;
+
+/**
+ * Validation schema for POST /api/catalog-badges/import
+ *
+ * The CSV document is sent as a string; dry_run defaults to true so a client has to
+ * opt in explicitly before anything is written.
+ */
+export const importCatalogBadgesSchema = z.object({
+  csv: z.string().min(1, "CSV content is required").max(2_000_000, "CSV content must be at most 2MB"),
+  dry_run: z.boolean().default(true),
+});
+
+/**
+ * Inferred TypeScript type from the import catalog badges schema
+ */
+export type ImportCatalogBadgesSchema = z.infer<typeof importCatalogBadgesSchema>;
+
+/**
+ * Validation schema for GET /api/catalog-badges/export query parameters
+ */
+export const exportCatalogBadgesQuerySchema = z.object({
+  // Optional status filter; all badges are exported when omitted
+  status: z.enum(["active", "inactive", "archived"]).optional(),
+});
+
+/**
+ * Inferred TypeScript type from the export query schema
+ */
+export type ExportCatalogBadgesQuery = z.infer<typeof exportCatalogBadgesQuerySchema>;
+
 /**
  * Validation schema for UUID path parameters
  *
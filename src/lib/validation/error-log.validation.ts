@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { dateBoundary } from "./audit-log.validation";
+
+/**
+ * Validation schema for GET /api/error-logs query parameters
+ *
+ * Validates filters (route, error code, request ID, date range), sorting and pagination.
+ */
+export const listErrorLogsQuerySchema = z
+  .object({
+    // Filter by route (case-insensitive substring, e.g. "promotions")
+    route: z.string().trim().min(1).max(200).optional(),
+
+    // Filter by error code (exact, e.g. "approve_failed")
+    error_code: z.string().trim().min(1).max(100).optional(),
+
+    // Filter by request ID (exact, as returned in X-Request-Id / ApiError.request_id)
+    request_id: z.string().trim().min(1).max(128).optional(),
+
+    // Date range (inclusive); plain dates cover the whole day
+    from: dateBoundary.optional(),
+    to: dateBoundary.optional(),
+
+    // Sort order (entries are always sorted by created_at)
+    order: z.enum(["asc", "desc"]).default("desc"),
+
+    // Pagination: items per page (1-100, default 50)
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+
+    // Pagination: offset (non-negative, default 0)
+    offset: z.coerce.number().int().min(0).default(0),
+  })
+  .refine((query) => !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to), {
+    message: "'from' must be on or before 'to'",
+    path: ["from"],
+  });
+
+/**
+ * Inferred TypeScript type from the Zod schema
+ */
+export type ListErrorLogsQuery = z.infer<typeof listErrorLogsQuerySchema>;
@@ -0,0 +1,99 @@
+import { z } from "zod";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Plain YYYY-MM-DD date
+ */
+const dateOnly = z.string().regex(DATE_REGEX, "Invalid date format. Use YYYY-MM-DD");
+
+/**
+ * Either a plain date or a full ISO timestamp
+ */
+const dateOrTimestamp = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: "Invalid date. Use an ISO timestamp or YYYY-MM-DD",
+});
+
+/**
+ * Empty CSV cells are treated as missing values
+ */
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" ? undefined : value), schema.optional());
+
+/**
+ * Validation schema for POST /api/history-import
+ *
+ * Same contract as the catalog import: the CSV is sent as a string and dry_run
+ * defaults to true.
+ */
+export const importHistorySchema = z.object({
+  csv: z.string().min(1, "CSV content is required").max(5_000_000, "CSV content must be at most 5MB"),
+  dry_run: z.boolean().default(true),
+});
+
+/**
+ * Inferred TypeScript type from the import history schema
+ */
+export type ImportHistorySchema = z.infer<typeof importHistorySchema>;
+
+/**
+ * Validation schema for one row of a historical import CSV
+ *
+ * Each row is an already-earned badge. Rows sharing a promotion_ref are grouped into
+ * one approved historical promotion and must agree on the promotion columns.
+ */
+export const historyImportRowSchema = z
+  .object({
+    applicant_email: z.string().email("Invalid applicant email"),
+
+    // Badge is identified by id, or by (unique) title
+    badge_id: optional(z.string().uuid("Invalid badge ID format")),
+    badge_title: optional(z.string().max(200)),
+
+    date_of_application: dateOnly,
+    date_of_fulfillment: optional(dateOnly),
+    reason: optional(z.string().max(2000, "Reason must be at most 2000 characters")),
+
+    // Review decision (defaults to the fulfillment or application date)
+    reviewer_email: z.string().email("Invalid reviewer email"),
+    accepted_at: optional(dateOrTimestamp),
+
+    // Historical promotion the badge was used in
+    promotion_ref: optional(z.string().max(100, "Promotion reference must be at most 100 characters")),
+    promotion_path: optional(z.enum(["technical", "financial", "management"])),
+    promotion_from_level: optional(z.string().max(20)),
+    promotion_to_level: optional(z.string().max(20)),
+    promotion_approved_at: optional(dateOrTimestamp),
+    promotion_approver_email: optional(z.string().email("Invalid approver email")),
+  })
+  .superRefine((row, ctx) => {
+    if (!row.badge_id && !row.badge_title) {
+      ctx.addIssue({ code: "custom", path: ["badge_id"], message: "Either badge_id or badge_title is required" });
+    }
+
+    if (row.date_of_fulfillment && row.date_of_fulfillment < row.date_of_application) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["date_of_fulfillment"],
+        message: "Date of fulfillment must be on or after date of application",
+      });
+    }
+
+    if (row.promotion_ref) {
+      for (const field of [
+        "promotion_path",
+        "promotion_from_level",
+        "promotion_to_level",
+        "promotion_approved_at",
+      ] as const) {
+        if (!row[field]) {
+          ctx.addIssue({ code: "custom", path: [field], message: `${field} is required when promotion_ref is set` });
+        }
+      }
+    }
+  });
+
+/**
+ * Inferred TypeScript type from the history import row schema
+ */
+export type HistoryImportRow = z.infer<typeof historyImportRowSchema>;
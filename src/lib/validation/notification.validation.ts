@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { NotificationChannel, NotificationEventType } from "@/types";
+
+const eventTypes = Object.values(NotificationEventType) as [string, ...string[]];
+const channels = Object.values(NotificationChannel) as [string, ...string[]];
+
+/**
+ * Validation schema for GET /api/notifications query parameters
+ */
+export const listNotificationsQuerySchema = z.object({
+  // Only return notifications that have not been read yet ("true" / "false")
+  unread_only: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .default(false),
+
+  // Pagination: items per page (1-50, default 20)
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+
+  // Pagination: offset (non-negative, default 0)
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Inferred TypeScript type from the list notifications schema
+ */
+export type ListNotificationsQuery = z.infer<typeof listNotificationsQuerySchema>;
+
+/**
+ * Validation schema for POST /api/notifications/read
+ *
+ * Without ids every unread notification of the current user is marked as read.
+ */
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().uuid("Invalid notification ID format")).min(1).max(100).optional(),
+});
+
+/**
+ * Inferred TypeScript type from the mark notifications read schema
+ */
+export type MarkNotificationsReadCommand = z.infer<typeof markNotificationsReadSchema>;
+
+/**
+ * Validation schema for PUT /api/notifications/preferences
+ */
+export const updateNotificationPreferencesSchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        event_type: z.enum(eventTypes),
+        channel: z.enum(channels),
+        enabled: z.boolean(),
+      })
+    )
+    .min(1, "At least one preference is required")
+    .max(eventTypes.length * channels.length),
+});
+
+/**
+ * Inferred TypeScript type from the update notification preferences schema
+ */
+export type UpdateNotificationPreferencesSchema = z.infer<typeof updateNotificationPreferencesSchema>;
+
+/**
+ * Validation schema for POST /api/notifications/process
+ */
+export const processNotificationsSchema = z.object({
+  // Maximum number of pending events handled in this run
+  limit: z.number().int().min(1).max(500).default(50),
+});
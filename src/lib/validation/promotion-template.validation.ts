@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { PromotionTemplateRule } from "@/types";
 
 /**
  * Validation schema for GET /api/promotion-templates query parameters
@@ -50,6 +51,89 @@ export const listPromotionTemplatesQuerySchema = z.object({
  */
 export type ListPromotionTemplatesQuery = z.infer<typeof listPromotionTemplatesQuerySchema>;
 
+/**
+ * Current version of the promotion template rules schema
+ *
+ * - 1: { category, level, count } with exact level matching
+ * - 2: adds or_higher, alternatives and max_per_badge (see PromotionTemplateRule)
+ *
+ * Every version 1 rule is a valid version 2 rule with the same meaning.
+ */
+export const PROMOTION_RULES_VERSION = 2;
+
+/**
+ * Maximum number of alternatives per rule and of condition combinations per template
+ * (validation tries every combination of rule conditions)
+ */
+const MAX_RULE_ALTERNATIVES = 3;
+const MAX_RULE_COMBINATIONS = 64;
+
+/**
+ * Validation schema for a single badge condition of a template rule
+ */
+const ruleConditionSchema = z.object({
+  category: z.union([z.enum(["technical", "organizational", "softskilled"]), z.literal("any")]),
+  level: z.enum(["gold", "silver", "bronze"]),
+  count: z.coerce.number().int().min(1).max(100),
+  // Badges of a higher level count as well (e.g. "silver or better")
+  or_higher: z.boolean().optional(),
+});
+
+/**
+ * Validation schema for template rules (rules schema version 2)
+ */
+export const promotionTemplateRulesSchema = z
+  .array(
+    ruleConditionSchema.extend({
+      // The rule is also met by any of these conditions (e.g. "2 gold OR 4 silver")
+      alternatives: z.array(ruleConditionSchema).min(1).max(MAX_RULE_ALTERNATIVES).optional(),
+      // Applications of the same catalog badge counting toward the rule (1 = distinct badges)
+      max_per_badge: z.coerce.number().int().min(1).max(100).optional(),
+    })
+  )
+  .min(1)
+  .max(50)
+  .refine(
+    (rules) => {
+      // No duplicate category+level pairs among rules without alternatives
+      const seen = new Set<string>();
+      for (const r of rules) {
+        if (r.alternatives?.length) continue;
+        const key = `${r.category}:${r.level}:${r.or_higher ? "or_higher" : "exact"}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+      }
+      return true;
+    },
+    { message: "Duplicate rule for category+level detected" }
+  )
+  .refine(
+    (rules) =>
+      rules.reduce((combinations, r) => combinations * (1 + (r.alternatives?.length ?? 0)), 1) <= MAX_RULE_COMBINATIONS,
+    { message: `Alternatives may produce at most ${MAX_RULE_COMBINATIONS} rule combinations` }
+  );
+
+/**
+ * Reads stored template rules as the current schema version
+ *
+ * Rules saved before versioning (version 1) keep their meaning; only their version 1
+ * fields are copied. Anything that isn't an array yields no rules.
+ *
+ * @param rules - rules column of promotion_templates (JSONB)
+ * @param version - rules_version column (missing on rows written before versioning)
+ */
+export function upgradeTemplateRules(rules: unknown, version?: number | null): PromotionTemplateRule[] {
+  if (!Array.isArray(rules)) {
+    return [];
+  }
+
+  if ((version ?? 1) >= PROMOTION_RULES_VERSION) {
+    return rules as PromotionTemplateRule[];
+  }
+
+  return (rules as PromotionTemplateRule[]).map(({ category, level, count }) => ({ category, level, count }));
+}
+
 /**
  * Validation schema for POST /api/promotion-templates
  */
@@ -62,29 +146,7 @@ export const createPromotionTemplateSchema = z.object({
   path: z.enum(["technical", "financial", "management"]),
   from_level: z.string().min(1, "from_level is required").max(20),
   to_level: z.string().min(1, "to_level is required").max(20),
-  rules: z
-    .array(
-      z.object({
-        category: z.union([z.enum(["technical", "organizational", "softskilled"]), z.literal("any")]),
-        level: z.enum(["gold", "silver", "bronze"]),
-        count: z.coerce.number().int().min(1).max(100),
-      })
-    )
-    .min(1)
-    .max(50)
-    .refine(
-      (rules) => {
-        // No duplicate category+level pairs
-        const seen = new Set<string>();
-        for (const r of rules) {
-          const key = `${r.category}:${r.level}`;
-          if (seen.has(key)) return false;
-          seen.add(key);
-        }
-        return true;
-      },
-      { message: "Duplicate rule for category+level detected" }
-    ),
+  rules: promotionTemplateRulesSchema,
 });
 
 export type CreatePromotionTemplateBody = z.infer<typeof createPromotionTemplateSchema>;
@@ -104,19 +166,19 @@ export const updatePromotionTemplateSchema = z
     path: z.enum(["technical", "financial", "management"]).optional(),
     from_level: z.string().min(1).max(20).optional(),
     to_level: z.string().min(1).max(20).optional(),
-    rules: z
-      .array(
-        z.object({
-          category: z.union([z.enum(["technical", "organizational", "softskilled"]), z.literal("any")]),
-          level: z.enum(["gold", "silver", "bronze"]),
-          count: z.coerce.number().int().min(1).max(100),
-        })
-      )
-      .min(1)
-      .max(50)
-      .optional(),
+    rules: promotionTemplateRulesSchema.optional(),
     is_active: z.boolean().optional(),
   })
   .refine((obj) => Object.keys(obj).length > 0, { message: "At least one field must be provided for update" });
 
 export type UpdatePromotionTemplateBody = z.infer<typeof updatePromotionTemplateSchema>;
+
+/**
+ * Validation schema for POST /api/promotion-templates/sync
+ * Defaults to a preview; dry_run: false applies the changes.
+ */
+export const syncPromotionTemplatesSchema = z.object({
+  dry_run: z.boolean().default(true),
+});
+
+export type SyncPromotionTemplatesBody = z.infer<typeof syncPromotionTemplatesSchema>;
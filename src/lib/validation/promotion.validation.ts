@@ -59,3 +59,13 @@ export const listPromotionsQuerySchema = z.object({
  * Used in service layer for type-safe parameter handling
  */
 export type ListPromotionsQuery = z.infer<typeof listPromotionsQuerySchema>;
+
+/**
+ * Validation schema for POST /api/promotions/:id/auto-fill request body
+ * The body is optional; without dry_run the selection is applied to the draft.
+ */
+export const autoFillPromotionSchema = z.object({
+  dry_run: z.boolean().default(false),
+});
+
+export type AutoFillPromotionInput = z.infer<typeof autoFillPromotionSchema>;
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import { BadgeCategory, PromotionPath, UserRole, UserStatus } from "@/types";
+
+const userStatuses = Object.values(UserStatus) as [string, ...string[]];
+const userRoles = Object.values(UserRole) as [string, ...string[]];
+const badgeCategories = Object.values(BadgeCategory) as [string, ...string[]];
+const promotionPaths = Object.values(PromotionPath) as [string, ...string[]];
+
+/**
+ * Validation schema for GET /api/users query parameters
+ *
+ * Validates search, filters and pagination for the admin user management page.
+ */
+export const listUsersQuerySchema = z.object({
+  // Case-insensitive substring of email or display name
+  search: z.string().trim().min(1).max(200).optional(),
+
+  // Account status (active or deactivated); all users when omitted
+  status: z.enum(userStatuses).optional(),
+
+  // Only admins (true) or only non-admins (false)
+  is_admin: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+
+  // Pagination: items per page (1-100, default 50)
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+
+  // Pagination: offset (non-negative, default 0)
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Validation schema for PATCH /api/users/:id request body
+ */
+export const updateUserSchema = z.object({
+  is_admin: z.boolean({ message: "is_admin must be a boolean" }),
+});
+
+/**
+ * Validation schema for PUT /api/users/:id/roles request body
+ *
+ * Replaces all roles of the user. Category scopes only apply to reviewers;
+ * null or omitted categories grant the role for every category.
+ */
+export const updateUserRolesSchema = z
+  .object({
+    roles: z
+      .array(
+        z.object({
+          role: z.enum(userRoles, { message: "Invalid role" }),
+          categories: z
+            .array(z.enum(badgeCategories, { message: "Invalid badge category" }))
+            .min(1, "Select at least one category or omit categories")
+            .nullable()
+            .optional(),
+        })
+      )
+      .max(userRoles.length),
+  })
+  .refine((data) => new Set(data.roles.map((entry) => entry.role)).size === data.roles.length, {
+    message: "Each role can only be granted once",
+    path: ["roles"],
+  })
+  .refine((data) => data.roles.every((entry) => entry.role === UserRole.Reviewer || !entry.categories), {
+    message: "Only the reviewer role can be limited to categories",
+    path: ["roles"],
+  });
+
+/**
+ * Validation schema for PUT /api/users/:id/position request body
+ *
+ * The entry takes effect immediately unless effective_from is given (past dates only,
+ * for recording earlier changes). Whether the level exists on the path depends on the
+ * career ladder in force at that date, so the route checks it (isPositionLevel).
+ */
+export const setUserPositionSchema = z.object({
+  path: z.enum(promotionPaths, { message: "Invalid career path" }),
+  level: z.string().trim().min(1, "level is required").max(20),
+  effective_from: z
+    .string()
+    .datetime({ offset: true, message: "effective_from must be an ISO 8601 timestamp" })
+    .refine((value) => new Date(value).getTime() <= Date.now(), "effective_from cannot be in the future")
+    .optional(),
+  note: z.string().trim().max(500, "note must be at most 500 characters").optional(),
+});
+
+/**
+ * Validation schema for GET /api/users/:id/roadmap query parameters
+ *
+ * path is only used for users without a known position; their roadmap starts at the
+ * entry level of that path.
+ */
+export const roadmapQuerySchema = z.object({
+  path: z.enum(promotionPaths, { message: "Invalid career path" }).default(PromotionPath.Technical),
+});
+
+/**
+ * Validation schema for POST /api/users/org-chart
+ *
+ * Same contract as the other CSV imports: the CSV is sent as a string and dry_run
+ * defaults to true.
+ */
+export const importOrgChartSchema = z.object({
+  csv: z.string().min(1, "CSV content is required").max(5_000_000, "CSV content must be at most 5MB"),
+  dry_run: z.boolean().default(true),
+});
+
+/**
+ * Validation schema for one row of an org chart CSV
+ *
+ * An empty manager_email removes the manager; an empty team clears the team.
+ */
+export const orgChartImportRowSchema = z.object({
+  email: z.string().trim().email("Invalid email"),
+  manager_email: z.preprocess(
+    (value) => (typeof value === "string" && value.trim() === "" ? null : value),
+    z.string().trim().email("Invalid manager email").nullable()
+  ),
+  team: z.preprocess(
+    (value) => (typeof value === "string" && value.trim() === "" ? null : value),
+    z.string().trim().max(100, "Team must be at most 100 characters").nullable().optional()
+  ),
+});
+
+/**
+ * Validation schema for the :id path parameter
+ */
+export const userIdParamSchema = z.object({
+  id: z.string().uuid("Invalid user ID format"),
+});
+
+/**
+ * Inferred TypeScript types from the Zod schemas
+ */
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type UpdateUserRolesInput = z.infer<typeof updateUserRolesSchema>;
+export type SetUserPositionInput = z.infer<typeof setUserPositionSchema>;
+export type RoadmapQuery = z.infer<typeof roadmapQuerySchema>;
+export type ImportOrgChartInput = z.infer<typeof importOrgChartSchema>;
+export type OrgChartImportRow = z.infer<typeof orgChartImportRowSchema>;
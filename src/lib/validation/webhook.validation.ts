@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { AuditEventType, WebhookDeliveryStatus } from "@/types";
+
+const eventTypes = Object.values(AuditEventType) as [string, ...string[]];
+const deliveryStatuses = Object.values(WebhookDeliveryStatus) as [string, ...string[]];
+
+const webhookUrl = z
+  .string()
+  .trim()
+  .max(2000, "URL must be at most 2000 characters")
+  .url("Invalid URL")
+  .refine((value) => /^https?:\/\//i.test(value), { message: "URL must use http or https" });
+
+const webhookEventTypes = z
+  .array(z.enum(eventTypes))
+  .min(1, "Select at least one event type")
+  .transform((types) => [...new Set(types)]);
+
+const webhookDescription = z.string().trim().max(200, "Description must be at most 200 characters").nullable();
+
+/**
+ * Validation schema for POST /api/webhooks request body
+ */
+export const createWebhookSchema = z.object({
+  url: webhookUrl,
+  event_types: webhookEventTypes,
+  description: webhookDescription.optional(),
+});
+
+/**
+ * Validation schema for PATCH /api/webhooks/:id request body
+ */
+export const updateWebhookSchema = z
+  .object({
+    url: webhookUrl.optional(),
+    event_types: webhookEventTypes.optional(),
+    description: webhookDescription.optional(),
+    is_active: z.boolean().optional(),
+  })
+  .refine((command) => Object.values(command).some((value) => value !== undefined), {
+    message: "At least one field must be provided",
+  });
+
+/**
+ * Validation schema for GET /api/webhooks/:id/deliveries query parameters
+ */
+export const listWebhookDeliveriesQuerySchema = z.object({
+  // Filter by delivery status
+  status: z.enum(deliveryStatuses).optional(),
+
+  // Pagination: items per page (1-100, default 20)
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+
+  // Pagination: offset (non-negative, default 0)
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Validation schema for POST /api/webhooks/process request body
+ */
+export const processWebhooksSchema = z.object({
+  // Maximum number of due deliveries sent in this run
+  limit: z.number().int().min(1).max(500).default(50),
+});
+
+/**
+ * Validation schema for the :id path parameter of /api/webhooks/:id and
+ * /api/webhooks/deliveries/:id
+ */
+export const webhookIdParamSchema = z.object({
+  id: z.string().uuid("Invalid ID format"),
+});
+
+/**
+ * Inferred TypeScript types from the Zod schemas
+ */
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+export type ListWebhookDeliveriesQuery = z.infer<typeof listWebhookDeliveriesQuerySchema>;
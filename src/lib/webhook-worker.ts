@@ -0,0 +1,248 @@
+import { timingSafeEqual } from "node:crypto";
+import type { SupabaseClient } from "@/db/supabase.client";
+import type {
+  WebhookDeliveryDto,
+  WebhookDeliveryRow,
+  WebhookPayload,
+  WebhookProcessResultDto,
+  WebhookSubscriptionRow,
+} from "@/types";
+import { WebhookDeliveryStatus } from "@/types";
+
+/**
+ * Deliveries are retried until this many attempts have failed
+ */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/**
+ * Header carrying the payload signature: "t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">"
+ */
+export const WEBHOOK_SIGNATURE_HEADER = "X-Badger-Signature";
+
+// First retry after 30 seconds, doubling up to 6 hours (8 attempts span about an hour)
+const BASE_RETRY_SECONDS = 30;
+const MAX_RETRY_SECONDS = 6 * 60 * 60;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Seconds a claimed delivery belongs to its sender; one still unrecorded after that
+ * (the sender crashed) is claimed again by the next run
+ */
+export const CLAIM_LEASE_SECONDS = 15 * 60;
+
+// Characters of the receiver's response kept in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+
+/**
+ * Columns of a delivery with the subscription it is sent to
+ */
+export const QUEUED_DELIVERY_COLUMNS = "*, subscription:webhook_subscriptions (url, secret, is_active)";
+
+/**
+ * Delivery with the URL and secret of its subscription
+ */
+export type QueuedWebhookDelivery = WebhookDeliveryRow & {
+  subscription: Pick<WebhookSubscriptionRow, "url" | "secret" | "is_active"> | null;
+};
+
+/**
+ * Fields that mark a new delivery as claimed, for deliveries sent right away
+ */
+export function claimedDeliveryFields(now = new Date()): Pick<WebhookDeliveryRow, "status" | "next_attempt_at"> {
+  return {
+    status: WebhookDeliveryStatus.Sending,
+    next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_SECONDS * 1000).toISOString(),
+  };
+}
+
+/**
+ * Seconds to wait before the next attempt after `attempts` failed attempts
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_SECONDS);
+}
+
+async function hmacSha256(secret: string, message: string): Promise<Buffer> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return Buffer.from(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message)));
+}
+
+/**
+ * Signs a webhook body for the X-Badger-Signature header
+ *
+ * The timestamp is part of the signed message so receivers can reject replays.
+ */
+export async function signWebhookPayload(secret: string, body: string, timestamp: number): Promise<string> {
+  return `t=${timestamp},v1=${(await hmacSha256(secret, `${timestamp}.${body}`)).toString("hex")}`;
+}
+
+/**
+ * Checks an X-Badger-Signature header, as a receiver does
+ *
+ * Signatures are compared in constant time, so response timing reveals nothing about
+ * the expected signature.
+ *
+ * @param toleranceSeconds - Maximum age of the signature timestamp
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null,
+  now = Date.now(),
+  toleranceSeconds = 300
+): Promise<boolean> {
+  const parts = Object.fromEntries((header ?? "").split(",").map((part) => part.split("=", 2)));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = await hmacSha256(secret, `${timestamp}.${body}`);
+  const received = Buffer.from(parts.v1, "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Builds the JSON body sent for a delivery
+ */
+export function buildWebhookPayload(delivery: WebhookDeliveryRow): WebhookPayload {
+  return {
+    id: delivery.id,
+    event: delivery.event_type,
+    created_at: delivery.created_at,
+    data: delivery.payload,
+  };
+}
+
+/**
+ * Webhook worker
+ *
+ * Sends the deliveries queued for webhook subscriptions (by the audit_logs trigger,
+ * redeliveries and test events):
+ * - POSTs the signed JSON payload to the subscription URL
+ * - Records the response status and body in the delivery log
+ * - Retries failed deliveries with exponential backoff until MAX_DELIVERY_ATTEMPTS
+ *
+ * Deliveries are claimed before they are sent (status sending), so overlapping runs
+ * and admins' redeliveries never post the same delivery twice.
+ *
+ * The scheduled run needs a client that bypasses RLS (see createServiceRoleClient);
+ * admins send single deliveries with their own client.
+ */
+export class WebhookWorker {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Claims the deliveries that are due and sends them, oldest first
+   *
+   * @param limit - Maximum number of deliveries sent in this run
+   * @returns Counters for the run
+   * @throws Error if due deliveries cannot be claimed
+   */
+  async processPendingDeliveries(limit = 50): Promise<WebhookProcessResultDto> {
+    const { data, error } = await this.supabase
+      .rpc("claim_webhook_deliveries", { p_limit: limit, p_lease_seconds: CLAIM_LEASE_SECONDS })
+      .select(QUEUED_DELIVERY_COLUMNS);
+
+    if (error) {
+      throw new Error(`Failed to claim pending webhook deliveries: ${error.message}`);
+    }
+
+    const result: WebhookProcessResultDto = { delivered: 0, retried: 0, failed: 0 };
+
+    for (const delivery of (data ?? []) as unknown as QueuedWebhookDelivery[]) {
+      const sent = await this.deliver(delivery);
+
+      if (sent.status === WebhookDeliveryStatus.Succeeded) result.delivered++;
+      else if (sent.status === WebhookDeliveryStatus.Failed) result.failed++;
+      else result.retried++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Sends one delivery and records the outcome
+   *
+   * The delivery must be claimed by the caller (claim_webhook_deliveries, or inserted
+   * with claimedDeliveryFields). Deliveries of disabled or deleted subscriptions fail
+   * without a request.
+   *
+   * @returns The delivery as recorded after this attempt
+   * @throws Error if the outcome cannot be recorded
+   */
+  async deliver(delivery: QueuedWebhookDelivery): Promise<WebhookDeliveryDto> {
+    const attempts = delivery.attempts + 1;
+    const attemptedAt = new Date();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let lastError: string | null = null;
+
+    if (!delivery.subscription?.is_active) {
+      lastError = "Subscription is disabled";
+    } else {
+      try {
+        const body = JSON.stringify(buildWebhookPayload(delivery));
+        const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+
+        const response = await fetch(delivery.subscription.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "Badger-Webhooks/1.0",
+            "X-Badger-Event": delivery.event_type,
+            "X-Badger-Delivery": delivery.id,
+            [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(delivery.subscription.secret, body, timestamp),
+          },
+          body,
+          redirect: "manual",
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        responseStatus = response.status;
+        responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+        if (!response.ok) {
+          lastError = `Receiver answered with HTTP ${response.status}`;
+        }
+      } catch (e) {
+        lastError = e instanceof Error ? e.message : String(e);
+      }
+    }
+
+    const succeeded = lastError === null;
+    const gaveUp = !succeeded && (attempts >= MAX_DELIVERY_ATTEMPTS || !delivery.subscription?.is_active);
+
+    const { data, error } = await this.supabase
+      .from("webhook_deliveries")
+      .update({
+        status: succeeded
+          ? WebhookDeliveryStatus.Succeeded
+          : gaveUp
+            ? WebhookDeliveryStatus.Failed
+            : WebhookDeliveryStatus.Pending,
+        attempts,
+        last_attempt_at: attemptedAt.toISOString(),
+        next_attempt_at: new Date(attemptedAt.getTime() + getRetryDelaySeconds(attempts) * 1000).toISOString(),
+        response_status: responseStatus,
+        response_body: responseBody,
+        last_error: lastError,
+        delivered_at: succeeded ? attemptedAt.toISOString() : null,
+      })
+      .eq("id", delivery.id)
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to record webhook delivery: ${error?.message ?? "no data returned"}`);
+    }
+
+    return data as WebhookDeliveryDto;
+  }
+}
@@ -0,0 +1,323 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type {
+  CreateWebhookSubscriptionCommand,
+  PaginatedResponse,
+  UpdateWebhookSubscriptionCommand,
+  WebhookDeliveryDto,
+  WebhookSubscriptionCreatedResponse,
+  WebhookSubscriptionDto,
+} from "@/types";
+import { AuditEventType, AuditResourceType, WEBHOOK_PING_EVENT } from "@/types";
+import { logAuditEvent } from "./audit-logger";
+import type { ListWebhookDeliveriesQuery } from "./validation/webhook.validation";
+import { QUEUED_DELIVERY_COLUMNS, claimedDeliveryFields, type QueuedWebhookDelivery } from "./webhook-worker";
+
+// Every column except the signing secret
+const SUBSCRIPTION_COLUMNS = "id, url, description, event_types, is_active, created_by, created_at, updated_at";
+
+/**
+ * Returns a new random signing secret for a subscription
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString("base64url")}`;
+}
+
+/**
+ * Service class for webhook subscriptions and their delivery log
+ *
+ * Handles:
+ * - Listing, creating, updating and deleting subscriptions (audited)
+ * - Listing a subscription's deliveries
+ * - Queueing redeliveries and test (ping) deliveries, sent right away by WebhookWorker
+ *
+ * Deliveries for audit events are queued by a trigger on audit_logs, for entries the
+ * database can confirm against their resource. Row level security limits every table
+ * involved to admins.
+ */
+export class WebhookService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Lists webhook subscriptions, newest first
+   *
+   * @returns Subscriptions without their secrets
+   * @throws Error if the query fails
+   */
+  async listSubscriptions(): Promise<WebhookSubscriptionDto[]> {
+    const { data, error } = await this.supabase
+      .from("webhook_subscriptions")
+      .select(SUBSCRIPTION_COLUMNS)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list webhook subscriptions: ${error.message}`);
+    }
+
+    return (data ?? []) as WebhookSubscriptionDto[];
+  }
+
+  /**
+   * Creates a webhook subscription with a new signing secret
+   *
+   * @param command - URL, event types and description
+   * @param actorId - Admin creating the subscription
+   * @returns The subscription with its secret (shown once)
+   * @throws Error if the insert fails
+   */
+  async createSubscription(
+    command: CreateWebhookSubscriptionCommand,
+    actorId: string
+  ): Promise<WebhookSubscriptionCreatedResponse> {
+    const secret = generateWebhookSecret();
+
+    const { data, error } = await this.supabase
+      .from("webhook_subscriptions")
+      .insert({
+        url: command.url,
+        event_types: command.event_types,
+        description: command.description ?? null,
+        secret,
+        created_by: actorId,
+      })
+      .select(SUBSCRIPTION_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create webhook subscription: ${error?.message ?? "no data returned"}`);
+    }
+
+    const created = data as WebhookSubscriptionDto;
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.WebhookCreated,
+      actor_id: actorId,
+      resource_type: AuditResourceType.Webhook,
+      resource_id: created.id,
+      payload: { url: created.url, event_types: created.event_types },
+    });
+
+    return { ...created, secret };
+  }
+
+  /**
+   * Updates a webhook subscription; disabling it stops new and pending deliveries
+   *
+   * @param id - Subscription to update
+   * @param command - Fields to change
+   * @param actorId - Admin updating the subscription
+   * @returns The updated subscription, or null if it doesn't exist
+   * @throws Error if the update fails
+   */
+  async updateSubscription(
+    id: string,
+    command: UpdateWebhookSubscriptionCommand,
+    actorId: string
+  ): Promise<WebhookSubscriptionDto | null> {
+    const { data, error } = await this.supabase
+      .from("webhook_subscriptions")
+      .update({ ...command, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(SUBSCRIPTION_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update webhook subscription: ${error.message}`);
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.WebhookUpdated,
+      actor_id: actorId,
+      resource_type: AuditResourceType.Webhook,
+      resource_id: id,
+      payload: { changes: { ...command } },
+    });
+
+    return data as WebhookSubscriptionDto;
+  }
+
+  /**
+   * Deletes a webhook subscription together with its delivery log
+   *
+   * @param id - Subscription to delete
+   * @param actorId - Admin deleting the subscription
+   * @returns true if it was deleted, false if it doesn't exist
+   * @throws Error if the delete fails
+   */
+  async deleteSubscription(id: string, actorId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("webhook_subscriptions")
+      .delete()
+      .eq("id", id)
+      .select("id, url")
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to delete webhook subscription: ${error.message}`);
+    }
+
+    if (!data) {
+      return false;
+    }
+
+    await logAuditEvent(this.supabase, {
+      event_type: AuditEventType.WebhookDeleted,
+      actor_id: actorId,
+      resource_type: AuditResourceType.Webhook,
+      resource_id: id,
+      payload: { url: data.url },
+    });
+
+    return true;
+  }
+
+  /**
+   * Lists a subscription's deliveries, newest first
+   *
+   * @param subscriptionId - Subscription whose log is listed
+   * @param query - Status filter and pagination
+   * @returns A page of deliveries, or null if the subscription doesn't exist
+   * @throws Error if a query fails
+   */
+  async listDeliveries(
+    subscriptionId: string,
+    query: ListWebhookDeliveriesQuery
+  ): Promise<PaginatedResponse<WebhookDeliveryDto> | null> {
+    if (!(await this.subscriptionExists(subscriptionId))) {
+      return null;
+    }
+
+    let request = this.supabase
+      .from("webhook_deliveries")
+      .select("*", { count: "exact" })
+      .eq("subscription_id", subscriptionId);
+
+    if (query.status) {
+      request = request.eq("status", query.status);
+    }
+
+    const { data, error, count } = await request
+      .order("created_at", { ascending: false })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list webhook deliveries: ${error.message}`);
+    }
+
+    const total = count ?? 0;
+
+    return {
+      data: (data ?? []) as WebhookDeliveryDto[],
+      pagination: {
+        total,
+        limit: query.limit,
+        offset: query.offset,
+        has_more: query.offset + query.limit < total,
+      },
+    };
+  }
+
+  /**
+   * Queues a copy of a delivery with the same payload
+   *
+   * @param deliveryId - Delivery to send again
+   * @returns The new, claimed delivery with its subscription, or null if the original doesn't exist
+   * @throws Error with message 'SUBSCRIPTION_INACTIVE' if the subscription is disabled
+   * @throws Error if a query fails
+   */
+  async redeliver(deliveryId: string): Promise<QueuedWebhookDelivery | null> {
+    const { data: original, error: fetchError } = await this.supabase
+      .from("webhook_deliveries")
+      .select(QUEUED_DELIVERY_COLUMNS)
+      .eq("id", deliveryId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch webhook delivery: ${fetchError.message}`);
+    }
+
+    if (!original) {
+      return null;
+    }
+
+    const delivery = original as unknown as QueuedWebhookDelivery;
+    if (!delivery.subscription?.is_active) {
+      throw new Error("SUBSCRIPTION_INACTIVE");
+    }
+
+    return this.queueDelivery({
+      subscription_id: delivery.subscription_id,
+      event_type: delivery.event_type,
+      audit_log_id: delivery.audit_log_id,
+      payload: delivery.payload,
+      redelivery_of: delivery.redelivery_of ?? delivery.id,
+    });
+  }
+
+  /**
+   * Queues a ping delivery so admins can check a receiver
+   *
+   * @param subscriptionId - Subscription to test
+   * @returns The claimed ping delivery with its subscription, or null if the subscription doesn't exist
+   * @throws Error with message 'SUBSCRIPTION_INACTIVE' if the subscription is disabled
+   * @throws Error if a query fails
+   */
+  async queueTestDelivery(subscriptionId: string): Promise<QueuedWebhookDelivery | null> {
+    const { data: subscription, error } = await this.supabase
+      .from("webhook_subscriptions")
+      .select("id, is_active")
+      .eq("id", subscriptionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch webhook subscription: ${error.message}`);
+    }
+
+    if (!subscription) {
+      return null;
+    }
+
+    if (!subscription.is_active) {
+      throw new Error("SUBSCRIPTION_INACTIVE");
+    }
+
+    return this.queueDelivery({
+      subscription_id: subscriptionId,
+      event_type: WEBHOOK_PING_EVENT,
+      payload: { message: "Test delivery from Badger", subscription_id: subscriptionId },
+    });
+  }
+
+  private async subscriptionExists(id: string): Promise<boolean> {
+    const { data, error } = await this.supabase.from("webhook_subscriptions").select("id").eq("id", id).maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch webhook subscription: ${error.message}`);
+    }
+
+    return data !== null;
+  }
+
+  /**
+   * Inserts a delivery that is sent right away, already claimed so no worker run sends it too
+   */
+  private async queueDelivery(
+    delivery: Pick<QueuedWebhookDelivery, "subscription_id" | "event_type" | "payload"> &
+      Partial<Pick<QueuedWebhookDelivery, "audit_log_id" | "redelivery_of">>
+  ): Promise<QueuedWebhookDelivery> {
+    const { data, error } = await this.supabase
+      .from("webhook_deliveries")
+      .insert({ ...delivery, ...claimedDeliveryFields() })
+      .select(QUEUED_DELIVERY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to queue webhook delivery: ${error?.message ?? "no data returned"}`);
+    }
+
+    return data as unknown as QueuedWebhookDelivery;
+  }
+}
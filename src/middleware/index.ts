@@ -2,11 +2,75 @@ import { defineMiddleware } from "astro:middleware";
 import { createServerClient } from "@supabase/ssr";
 
 import type { Database } from "../db/database.types";
+import type { ApiError } from "../types";
+import { logError } from "../lib/error-logger";
+import { guardApiRequest, type GuardResult } from "../lib/auth/route-guard";
+import { ApiTokenService } from "../lib/api-token.service";
+import { getRequestContext, resolveRequestId, runWithRequestContext } from "../lib/request-context";
 
 const supabaseUrl = import.meta.env.SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.SUPABASE_KEY;
 
+const REQUEST_ID_HEADER = "X-Request-Id";
+
+/**
+ * Returns the client IP, or null where Astro cannot provide one (prerendering)
+ */
+function getClientAddress(context: { clientAddress: string }): string | null {
+  try {
+    return context.clientAddress;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Adds the request id header to a response, and the request_id field to ApiError
+ * JSON bodies, so clients can quote it when reporting a problem
+ */
+async function withRequestId(response: Response, requestId: string): Promise<Response> {
+  const headers = new Headers(response.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+
+  const isJson = headers.get("Content-Type")?.includes("application/json");
+  if (response.status < 400 || !isJson) {
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+  }
+
+  const text = await response.text();
+  let body = text;
+  try {
+    const parsed = JSON.parse(text) as Partial<ApiError>;
+    if (parsed && typeof parsed === "object" && typeof parsed.error === "string") {
+      body = JSON.stringify({ ...parsed, request_id: requestId });
+      headers.delete("Content-Length");
+    }
+  } catch {
+    // Not JSON after all; pass the body through unchanged
+  }
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers });
+}
+
+/**
+ * Reads error and message from a 5xx ApiError body for the error log
+ */
+async function readErrorSummary(response: Response): Promise<{ error_code: string; message: string }> {
+  try {
+    const body = (await response.clone().json()) as Partial<ApiError>;
+    return {
+      error_code: typeof body.error === "string" ? body.error : "internal_error",
+      message: typeof body.message === "string" ? body.message : `HTTP ${response.status}`,
+    };
+  } catch {
+    return { error_code: "internal_error", message: `HTTP ${response.status}` };
+  }
+}
+
 export const onRequest = defineMiddleware(async (context, next) => {
+  const requestId = resolveRequestId(context.request.headers.get(REQUEST_ID_HEADER));
+  context.locals.requestId = requestId;
+
   // Create a Supabase client with Astro cookie adapter
   const supabase = createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
     cookies: {
@@ -34,6 +98,79 @@ export const onRequest = defineMiddleware(async (context, next) => {
   // Attach the Supabase client to Astro.locals for use in pages and API routes
   context.locals.supabase = supabase;
 
-  // Call the next middleware/route handler
-  return next();
+  const requestContext = {
+    requestId,
+    method: context.request.method,
+    path: context.url.pathname,
+    ip: getClientAddress(context),
+    userAgent: context.request.headers.get("user-agent"),
+    errorLogged: false,
+  };
+
+  return runWithRequestContext(requestContext, async () => {
+    let response: Response;
+    let guard: GuardResult | null = null;
+
+    // Call the next middleware/route handler; API routes pass their access rule first
+    try {
+      context.locals.user = null;
+      guard = context.url.pathname.startsWith("/api/")
+        ? await guardApiRequest(supabase, context.request, context.url.pathname)
+        : null;
+      context.locals.user = guard?.user ?? null;
+      // Requests made with an API token run as the token's owner instead of the cookie session
+      if (guard?.apiToken) {
+        context.locals.supabase = guard.apiToken.supabase;
+      }
+      response = guard?.response ?? (await next());
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Unhandled error in ${context.request.method} ${context.url.pathname}:`, error);
+      await logError(supabase, {
+        route: context.url.pathname,
+        error_code: "internal_error",
+        message: error instanceof Error ? error.message : String(error),
+        status: 500,
+        payload: { error },
+      });
+
+      const body: ApiError = { error: "internal_error", message: "An unexpected error occurred" };
+      response = new Response(JSON.stringify(body), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Routes log their own failures with more detail; record the rest here
+    if (response.status >= 500 && !getRequestContext()?.errorLogged) {
+      await logError(supabase, {
+        route: context.url.pathname,
+        status: response.status,
+        ...(await readErrorSummary(response)),
+      });
+    }
+
+    // Every request made with an API token is audited, including refused ones. The handler
+    // has already run, so a failed audit write is logged and the response still returned
+    if (guard?.apiToken) {
+      try {
+        await new ApiTokenService(guard.apiToken.supabase).recordUse(guard.apiToken.token, {
+          method: context.request.method,
+          path: context.url.pathname,
+          status: response.status,
+          requestId,
+        });
+      } catch (error) {
+        await logError(supabase, {
+          route: context.url.pathname,
+          error_code: "api_token_audit_failed",
+          message: error instanceof Error ? error.message : String(error),
+          payload: { token_id: guard.apiToken.token.id },
+          requester_id: guard.apiToken.token.userId,
+        });
+      }
+    }
+
+    return withRequestId(response, requestId);
+  });
 });
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "../api-tokens/index";
+
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+
+const service = {
+  listTokens: vi.fn(async () => []),
+  createToken: vi.fn(async () => ({ id: "token-1", token: "bdg_secret" })),
+};
+
+vi.mock("@/lib/api-token.service", () => ({
+  ApiTokenService: vi.fn(function () {
+    return service;
+  }),
+}));
+
+vi.mock("@/lib/error-logger", () => ({
+  logError: vi.fn(),
+}));
+
+function createContext(method: "GET" | "POST", options: { query?: string; body?: unknown; isAdmin?: boolean } = {}) {
+  const { query = "", body, isAdmin = false } = options;
+  return {
+    request: new Request(`http://localhost/api/api-tokens${query}`, {
+      method,
+      ...(body === undefined ? {} : { body: JSON.stringify(body), headers: { "Content-Type": "application/json" } }),
+    }),
+    locals: {
+      supabase: {},
+      user: { id: USER_ID, email: "ada@example.com", access: { userId: USER_ID, isAdmin, roles: [] } },
+    },
+  } as unknown as Parameters<typeof GET>[0];
+}
+
+describe("/api/api-tokens", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("GET", () => {
+    it("lists the current user's tokens", async () => {
+      const response = await GET(createContext("GET"));
+
+      expect(response.status).toBe(200);
+      expect(service.listTokens).toHaveBeenCalledWith(USER_ID);
+    });
+
+    it("lists every token for admins", async () => {
+      await GET(createContext("GET", { query: "?all=true", isAdmin: true }));
+
+      expect(service.listTokens).toHaveBeenCalledWith(null);
+    });
+
+    it("returns 403 when a non-admin asks for every token", async () => {
+      const response = await GET(createContext("GET", { query: "?all=true" }));
+
+      expect(response.status).toBe(403);
+      expect(service.listTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST", () => {
+    it("creates a token with the default lifetime", async () => {
+      const response = await POST(createContext("POST", { body: { name: "Reporting", scope: "read" } }));
+
+      expect(response.status).toBe(201);
+      expect(await response.json()).toMatchObject({ token: "bdg_secret" });
+      expect(service.createToken).toHaveBeenCalledWith(
+        { name: "Reporting", scope: "read", expires_in_days: 90 },
+        expect.objectContaining({ userId: USER_ID })
+      );
+    });
+
+    it("returns 400 for an unknown scope or a lifetime over a year", async () => {
+      const badScope = await POST(createContext("POST", { body: { name: "X", scope: "write" } }));
+      const tooLong = await POST(createContext("POST", { body: { name: "X", scope: "read", expires_in_days: 400 } }));
+
+      expect(badScope.status).toBe(400);
+      expect(tooLong.status).toBe(400);
+    });
+
+    it("returns 403 when the owner's roles don't cover the scope", async () => {
+      service.createToken.mockRejectedValueOnce(new Error("SCOPE_NOT_PERMITTED"));
+
+      const response = await POST(createContext("POST", { body: { name: "Reviews", scope: "review" } }));
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
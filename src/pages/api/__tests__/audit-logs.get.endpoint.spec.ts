@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { GET } from "../audit-logs/index";
+
+/**
+ * Create a mock Supabase client for testing GET /api/audit-logs
+ * Supports audit log listing
+ */
+function createMockSupabase(options: { entries?: Record<string, unknown>[] } = {}) {
+  const { entries = [] } = options;
+
+  const listChain = (result: unknown) => {
+    const chain: Record<string, unknown> = {};
+    chain.eq = () => chain;
+    chain.gte = () => chain;
+    chain.lte = () => chain;
+    chain.order = () => chain;
+    chain.range = () => chain;
+    chain.then = (resolve: (value: unknown) => void) => resolve(result);
+    return chain;
+  };
+
+  return {
+    from(table: string) {
+      if (table === "audit_logs") {
+        return {
+          select(_columns: string, opts?: { count?: string; head?: boolean }) {
+            if (opts?.head) {
+              return listChain({ count: entries.length, error: null });
+            }
+            return listChain({ data: entries, error: null });
+          },
+        };
+      }
+
+      return {
+        async insert() {
+          return { error: null };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+}
+
+const adminAccess = { userId: "admin-1", isAdmin: true, roles: [] };
+
+function createContext(supabase: SupabaseClient, query = "") {
+  return {
+    request: new Request(`http://localhost/api/audit-logs${query}`),
+    locals: { supabase, user: { id: "admin-1", email: "admin@example.com", access: adminAccess } },
+  } as unknown as Parameters<typeof GET>[0];
+}
+
+describe("GET /api/audit-logs", () => {
+  it("returns 400 for invalid query parameters", async () => {
+    const response = await GET(createContext(createMockSupabase(), "?resource_id=not-a-uuid"));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe("validation_error");
+    expect(body.details[0].field).toBe("resource_id");
+  });
+
+  it("returns paginated audit log entries for admins", async () => {
+    const entries = [
+      {
+        id: "log-1",
+        actor_id: "admin-1",
+        event_type: "badge_application.accepted",
+        resource_type: "badge_application",
+        resource_id: "app-1",
+        payload: {},
+        created_at: "2025-11-14T10:00:00Z",
+        actor: { id: "admin-1", display_name: "Admin", email: "admin@example.com" },
+      },
+    ];
+
+    const response = await GET(
+      createContext(createMockSupabase({ entries }), "?event_type=badge_application.accepted")
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0].event_type).toBe("badge_application.accepted");
+    expect(body.pagination).toEqual({ total: 1, limit: 50, offset: 0, has_more: false });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { PUT } from "../catalog-badges/[id]";
+
+const BADGE_ID = "11111111-1111-4111-8111-111111111111";
+
+/**
+ * Create a mock Supabase client for testing PUT /api/catalog-badges/:id
+ * Supports badge lookups and updates
+ */
+function createMockSupabase(
+  options: {
+    badgeExists?: boolean;
+    versionMoved?: boolean;
+  } = {}
+) {
+  const { badgeExists = true, versionMoved = false } = options;
+
+  const badge = {
+    id: BADGE_ID,
+    title: "Old Title",
+    description: null,
+    category: "technical",
+    level: "gold",
+    metadata: {},
+    status: "active",
+    version: 1,
+    created_by: "admin-123",
+    created_at: new Date().toISOString(),
+    updated_at: null,
+    updated_by: null,
+    deactivated_at: null,
+  };
+
+  return {
+    from(table: string) {
+      if (table === "catalog_badges") {
+        return {
+          select() {
+            return {
+              eq() {
+                return {
+                  async single() {
+                    if (!badgeExists) return { data: null, error: { code: "PGRST116", message: "No rows" } };
+                    return { data: badge, error: null };
+                  },
+                };
+              },
+            };
+          },
+          update(payload: Record<string, unknown>) {
+            const chain = {
+              eq: () => chain,
+              select: () => ({
+                async single() {
+                  if (versionMoved) return { data: null, error: { code: "PGRST116", message: "No rows" } };
+                  return { data: { ...badge, ...payload }, error: null };
+                },
+              }),
+            };
+            return chain;
+          },
+        };
+      }
+
+      return {
+        async insert() {
+          return { error: null };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+}
+
+const adminAccess = { userId: "admin-123", isAdmin: true, roles: [] };
+
+function createContext(supabase: SupabaseClient, body: unknown, id = BADGE_ID) {
+  return {
+    request: new Request(`http://localhost/api/catalog-badges/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+    }),
+    params: { id },
+    locals: { supabase, user: { id: "admin-123", email: "admin@example.com", access: adminAccess } },
+  };
+}
+
+describe("PUT /api/catalog-badges/:id", () => {
+  it("returns 400 for an invalid badge id", async () => {
+    const res = await PUT(createContext(createMockSupabase(), { title: "New" }, "not-a-uuid") as never);
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 400 when the body has no fields", async () => {
+    const res = await PUT(createContext(createMockSupabase(), {}) as never);
+    const data = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(data.error).toBe("validation_error");
+  });
+
+  it("returns 404 when the badge does not exist", async () => {
+    const res = await PUT(createContext(createMockSupabase({ badgeExists: false }), { title: "New" }) as never);
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 409 when the badge was edited concurrently", async () => {
+    const res = await PUT(createContext(createMockSupabase({ versionMoved: true }), { title: "New" }) as never);
+    expect(res.status).toBe(409);
+  });
+
+  it("returns the updated badge with a bumped version", async () => {
+    const res = await PUT(createContext(createMockSupabase(), { title: "New Title" }) as never);
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.title).toBe("New Title");
+    expect(data.version).toBe(2);
+    expect(data.active).toBe(true);
+  });
+});
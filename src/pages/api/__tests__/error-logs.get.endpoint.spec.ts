@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { GET } from "../error-logs/index";
+
+/**
+ * Create a mock Supabase client for testing GET /api/error-logs
+ * Supports error log listing
+ */
+function createMockSupabase(
+  options: {
+    entries?: Record<string, unknown>[];
+    filters?: [string, string, unknown][];
+  } = {}
+) {
+  const { entries = [], filters = [] } = options;
+
+  const listChain = (result: unknown, record: boolean) => {
+    const chain: Record<string, unknown> = {};
+    const track = (op: string) => (column: string, value: unknown) => {
+      if (record) filters.push([op, column, value]);
+      return chain;
+    };
+    chain.eq = track("eq");
+    chain.ilike = track("ilike");
+    chain.gte = track("gte");
+    chain.lte = track("lte");
+    chain.order = () => chain;
+    chain.range = () => chain;
+    chain.then = (resolve: (value: unknown) => void) => resolve(result);
+    return chain;
+  };
+
+  return {
+    from(table: string) {
+      if (table === "error_logs") {
+        return {
+          select(_columns: string, opts?: { count?: string; head?: boolean }) {
+            if (opts?.head) {
+              return listChain({ count: entries.length, error: null }, false);
+            }
+            return listChain({ data: entries, error: null }, true);
+          },
+          async insert() {
+            return { error: null };
+          },
+        };
+      }
+
+      return {
+        async insert() {
+          return { error: null };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+}
+
+const adminAccess = { userId: "admin-1", isAdmin: true, roles: [] };
+
+function createContext(supabase: SupabaseClient, query = "") {
+  return {
+    request: new Request(`http://localhost/api/error-logs${query}`),
+    locals: { supabase, user: { id: "admin-1", email: "admin@example.com", access: adminAccess } },
+  } as unknown as Parameters<typeof GET>[0];
+}
+
+describe("GET /api/error-logs", () => {
+  it("returns 400 for invalid query parameters", async () => {
+    const response = await GET(createContext(createMockSupabase(), "?from=2025-11-20&to=2025-11-01"));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe("validation_error");
+    expect(body.details[0].field).toBe("from");
+  });
+
+  it("filters by route substring, error code and request ID", async () => {
+    const filters: [string, string, unknown][] = [];
+    const entries = [
+      {
+        id: "err-1",
+        request_id: "4f1c2d3e-1111-4222-8333-944455566677",
+        route: "/api/promotions/p-1/approve",
+        method: "POST",
+        status: 500,
+        error_code: "approve_failed",
+        message: "Database unavailable",
+        payload: null,
+        requester_id: "admin-1",
+        created_at: "2025-11-19T10:00:00Z",
+        requester: { id: "admin-1", display_name: "Admin", email: "admin@example.com" },
+      },
+    ];
+
+    const response = await GET(
+      createContext(
+        createMockSupabase({ entries, filters }),
+        "?route=promotions&error_code=approve_failed&request_id=4f1c2d3e-1111-4222-8333-944455566677"
+      )
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0].requester.display_name).toBe("Admin");
+    expect(body.pagination).toEqual({ total: 1, limit: 50, offset: 0, has_more: false });
+    expect(filters).toEqual([
+      ["ilike", "route", "%promotions%"],
+      ["eq", "error_code", "approve_failed"],
+      ["eq", "request_id", "4f1c2d3e-1111-4222-8333-944455566677"],
+    ]);
+  });
+});
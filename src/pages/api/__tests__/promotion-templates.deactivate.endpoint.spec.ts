@@ -4,25 +4,15 @@ import { POST } from "../promotion-templates/[id]/deactivate";
 
 /**
  * Create a mock Supabase client for testing POST /api/promotion-templates/:id/deactivate
- * Supports authentication, admin authorization, and template deactivation
+ * Supports template deactivation
  */
 function createMockSupabase(
   options: {
-    isAuthenticated?: boolean;
-    userId?: string;
-    isAdmin?: boolean;
-    userNotFound?: boolean;
     template?: Record<string, unknown> | null;
     templateNotFound?: boolean;
   } = {}
 ) {
-  const {
-    isAuthenticated = true,
-    userId = "admin-123",
-    isAdmin = true,
-    userNotFound = false,
-    templateNotFound = false,
-  } = options;
+  const { templateNotFound = false } = options;
 
   let { template } = options;
 
@@ -43,37 +33,7 @@ function createMockSupabase(
   }
 
   return {
-    auth: {
-      async getUser() {
-        if (!isAuthenticated) {
-          return { data: { user: null }, error: { message: "Not authenticated" } };
-        }
-        return {
-          data: { user: { id: userId, email: "admin@example.com" } },
-          error: null,
-        };
-      },
-    },
     from(table: string) {
-      if (table === "users") {
-        return {
-          select() {
-            return {
-              eq() {
-                return {
-                  async single() {
-                    if (userNotFound) {
-                      return { data: null, error: { message: "User not found" } };
-                    }
-                    return { data: { id: userId, is_admin: isAdmin }, error: null };
-                  },
-                };
-              },
-            };
-          },
-        };
-      }
-
       if (table === "promotion_templates") {
         return {
           select() {
@@ -117,96 +77,13 @@ function createMockSupabase(
   } as unknown as SupabaseClient;
 }
 
-describe("POST /api/promotion-templates/:id/deactivate", () => {
-  describe("Authentication", () => {
-    it("returns 401 when user is not authenticated", async () => {
-      const req = new Request(
-        "http://localhost/api/promotion-templates/11111111-1111-4111-8111-111111111111/deactivate",
-        {
-          method: "POST",
-        }
-      );
-
-      const context = {
-        request: req,
-        params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAuthenticated: false }) },
-      };
-
-      const res = await POST(context as never);
-
-      expect(res.status).toBe(401);
-      const data = await res.json();
-      expect(data).toHaveProperty("error", "unauthorized");
-      expect(data).toHaveProperty("message", "Authentication required");
-    });
-
-    it("returns 401 when user is not found in database", async () => {
-      const req = new Request(
-        "http://localhost/api/promotion-templates/11111111-1111-4111-8111-111111111111/deactivate",
-        {
-          method: "POST",
-        }
-      );
-
-      const context = {
-        request: req,
-        params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAuthenticated: true, userNotFound: true }) },
-      };
-
-      const res = await POST(context as never);
-
-      expect(res.status).toBe(401);
-      const data = await res.json();
-      expect(data).toHaveProperty("error", "unauthorized");
-      expect(data).toHaveProperty("message", "User not found");
-    });
-  });
-
-  describe("Authorization", () => {
-    it("returns 403 when user is not admin", async () => {
-      const req = new Request(
-        "http://localhost/api/promotion-templates/11111111-1111-4111-8111-111111111111/deactivate",
-        {
-          method: "POST",
-        }
-      );
-
-      const context = {
-        request: req,
-        params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAuthenticated: true, isAdmin: false }) },
-      };
-
-      const res = await POST(context as never);
-
-      expect(res.status).toBe(403);
-      const data = await res.json();
-      expect(data).toHaveProperty("error", "forbidden");
-      expect(data).toHaveProperty("message", "Admin access required");
-    });
-
-    it("allows admin users to deactivate templates", async () => {
-      const req = new Request(
-        "http://localhost/api/promotion-templates/11111111-1111-4111-8111-111111111111/deactivate",
-        {
-          method: "POST",
-        }
-      );
-
-      const context = {
-        request: req,
-        params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAuthenticated: true, isAdmin: true }) },
-      };
-
-      const res = await POST(context as never);
-
-      expect(res.status).toBe(200);
-    });
-  });
+const adminUser = {
+  id: "admin-123",
+  email: "admin@example.com",
+  access: { userId: "admin-123", isAdmin: true, roles: [] },
+};
 
+describe("POST /api/promotion-templates/:id/deactivate", () => {
   describe("Success Cases", () => {
     it("returns 200 and deactivated template", async () => {
       const req = new Request(
@@ -219,7 +96,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAdmin: true }) },
+        locals: { supabase: createMockSupabase(), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -241,7 +118,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAdmin: true }) },
+        locals: { supabase: createMockSupabase(), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -270,7 +147,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAdmin: true }) },
+        locals: { supabase: createMockSupabase(), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -293,7 +170,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "invalid-uuid" },
-        locals: { supabase: createMockSupabase({ isAdmin: true }) },
+        locals: { supabase: createMockSupabase(), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -312,7 +189,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "not-a-uuid-123" },
-        locals: { supabase: createMockSupabase({ isAdmin: true }) },
+        locals: { supabase: createMockSupabase(), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -330,7 +207,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "invalid" },
-        locals: { supabase: createMockSupabase({ isAdmin: true }) },
+        locals: { supabase: createMockSupabase(), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -356,7 +233,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "22222222-2222-4222-8222-222222222222" },
-        locals: { supabase: createMockSupabase({ isAdmin: true, templateNotFound: true }) },
+        locals: { supabase: createMockSupabase({ templateNotFound: true }), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -378,7 +255,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "33333333-3333-4333-8333-333333333333" },
-        locals: { supabase: createMockSupabase({ isAdmin: true, templateNotFound: true }) },
+        locals: { supabase: createMockSupabase({ templateNotFound: true }), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -414,7 +291,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAdmin: true, template: inactiveTemplate }) },
+        locals: { supabase: createMockSupabase({ template: inactiveTemplate }), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -450,7 +327,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAdmin: true, template: inactiveTemplate }) },
+        locals: { supabase: createMockSupabase({ template: inactiveTemplate }), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -473,7 +350,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAdmin: true }) },
+        locals: { supabase: createMockSupabase(), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -493,7 +370,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAdmin: true }) },
+        locals: { supabase: createMockSupabase(), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -517,7 +394,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAdmin: true }) },
+        locals: { supabase: createMockSupabase(), user: adminUser },
       };
 
       const res = await POST(context as never);
@@ -548,7 +425,7 @@ describe("POST /api/promotion-templates/:id/deactivate", () => {
       const context = {
         request: req,
         params: { id: validUuid },
-        locals: { supabase: createMockSupabase({ isAdmin: true, template }) },
+        locals: { supabase: createMockSupabase({ template }), user: adminUser },
       };
 
       const res = await POST(context as never);
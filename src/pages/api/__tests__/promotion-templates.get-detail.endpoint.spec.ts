@@ -4,30 +4,17 @@ import { GET } from "../promotion-templates/[id]";
 
 /**
  * Create a mock Supabase client for testing GET /api/promotion-templates/:id
- * Supports authentication, user lookup, and template retrieval by ID
+ * Supports template retrieval by ID
  */
 function createMockSupabase(
   options: {
-    isAuthenticated?: boolean;
-    userId?: string;
     template?: Record<string, unknown> | null;
     notFound?: boolean;
   } = {}
 ) {
-  const { isAuthenticated = true, userId = "user-123", template = null, notFound = false } = options;
+  const { template = null, notFound = false } = options;
 
   return {
-    auth: {
-      async getUser() {
-        if (!isAuthenticated) {
-          return { data: { user: null }, error: { message: "Not authenticated" } };
-        }
-        return {
-          data: { user: { id: userId, email: "user@example.com" } },
-          error: null,
-        };
-      },
-    },
     from(table: string) {
       if (table === "promotion_templates") {
         return {
@@ -55,23 +42,6 @@ function createMockSupabase(
 
 describe("GET /api/promotion-templates/:id", () => {
   describe("Authentication", () => {
-    it("returns 401 when user is not authenticated", async () => {
-      const req = new Request("http://localhost/api/promotion-templates/11111111-1111-4111-8111-111111111111");
-
-      const context = {
-        request: req,
-        params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAuthenticated: false }) },
-      };
-
-      const res = await GET(context as never);
-
-      expect(res.status).toBe(401);
-      const data = await res.json();
-      expect(data).toHaveProperty("error", "unauthorized");
-      expect(data).toHaveProperty("message", "Authentication required");
-    });
-
     it("returns 200 for authenticated user when template exists", async () => {
       const template = {
         id: "11111111-1111-4111-8111-111111111111",
@@ -91,7 +61,7 @@ describe("GET /api/promotion-templates/:id", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ isAuthenticated: true, template }) },
+        locals: { supabase: createMockSupabase({ template }) },
       };
 
       const res = await GET(context as never);
@@ -123,7 +93,6 @@ describe("GET /api/promotion-templates/:id", () => {
         params: { id: "11111111-1111-4111-8111-111111111111" },
         locals: {
           supabase: createMockSupabase({
-            isAuthenticated: true,
             template,
           }),
         },
@@ -245,7 +214,7 @@ describe("GET /api/promotion-templates/:id", () => {
       const context = {
         request: req,
         params: { id: "invalid-uuid" },
-        locals: { supabase: createMockSupabase({}) },
+        locals: { supabase: createMockSupabase() },
       };
 
       const res = await GET(context as never);
@@ -262,7 +231,7 @@ describe("GET /api/promotion-templates/:id", () => {
       const context = {
         request: req,
         params: { id: "not-a-uuid-123" },
-        locals: { supabase: createMockSupabase({}) },
+        locals: { supabase: createMockSupabase() },
       };
 
       const res = await GET(context as never);
@@ -278,7 +247,7 @@ describe("GET /api/promotion-templates/:id", () => {
       const context = {
         request: req,
         params: { id: "invalid" },
-        locals: { supabase: createMockSupabase({}) },
+        locals: { supabase: createMockSupabase() },
       };
 
       const res = await GET(context as never);
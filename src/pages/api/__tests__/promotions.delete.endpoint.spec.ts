@@ -1,31 +1,34 @@
 import { describe, it, expect } from "vitest";
 import type { SupabaseClient } from "@/db/supabase.client";
+import type { RequestUser } from "@/lib/auth/route-guard";
 import { DELETE } from "../promotions/[id]";
 
+const requestUser = {
+  id: "test-user-123",
+  email: "user@example.com",
+  access: { userId: "test-user-123", isAdmin: false, roles: [] },
+};
+
 /**
  * Type for test context to avoid 'any' usage
  */
 interface TestContext {
   request: Request;
   params: Record<string, string>;
-  locals: { supabase: SupabaseClient };
+  locals: { supabase: SupabaseClient; user: RequestUser };
 }
 
 /**
  * Creates a mock Supabase client for testing DELETE /api/promotions/:id endpoint
  */
 function createMockSupabase(options: {
-  testUser?: { id: string } | null;
   promotion?: Record<string, unknown> | null;
-  shouldReturnUserError?: boolean;
   shouldReturnFetchError?: boolean;
   shouldReturnDeleteError?: boolean;
   fetchErrorCode?: string;
 }) {
   const {
-    testUser = { id: "test-user-123" },
     promotion = null,
-    shouldReturnUserError = false,
     shouldReturnFetchError = false,
     shouldReturnDeleteError = false,
     fetchErrorCode = "PGRST116",
@@ -33,29 +36,6 @@ function createMockSupabase(options: {
 
   return {
     from(table: string) {
-      // Mock users table query (for getting test user)
-      if (table === "users") {
-        return {
-          select() {
-            return {
-              limit() {
-                return {
-                  async single() {
-                    if (shouldReturnUserError) {
-                      return {
-                        data: null,
-                        error: { message: "User not found" },
-                      };
-                    }
-                    return { data: testUser, error: null };
-                  },
-                };
-              },
-            };
-          },
-        };
-      }
-
       // Mock promotions table query
       if (table === "promotions") {
         return {
@@ -118,7 +98,7 @@ describe("DELETE /api/promotions/:id", () => {
           method: "DELETE",
         }),
         params: { id: "promo-123" },
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await DELETE(context);
@@ -138,7 +118,7 @@ describe("DELETE /api/promotions/:id", () => {
           method: "DELETE",
         }),
         params: { id: "invalid-uuid" },
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await DELETE(context);
@@ -162,7 +142,7 @@ describe("DELETE /api/promotions/:id", () => {
           method: "DELETE",
         }),
         params: { id: "550e8400-0000-0000-0000-000000000000" },
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await DELETE(context);
@@ -191,7 +171,7 @@ describe("DELETE /api/promotions/:id", () => {
           method: "DELETE",
         }),
         params: { id: "promo-123" },
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await DELETE(context);
@@ -218,7 +198,7 @@ describe("DELETE /api/promotions/:id", () => {
           method: "DELETE",
         }),
         params: { id: "promo-123" },
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await DELETE(context);
@@ -246,7 +226,7 @@ describe("DELETE /api/promotions/:id", () => {
           method: "DELETE",
         }),
         params: { id: "promo-123" },
-        locals: { supabase: mockSupabaseStatus },
+        locals: { supabase: mockSupabaseStatus, user: requestUser },
       };
 
       const responseStatus = await DELETE(contextStatus);
@@ -268,7 +248,7 @@ describe("DELETE /api/promotions/:id", () => {
           method: "DELETE",
         }),
         params: { id: "promo-456" },
-        locals: { supabase: mockSupabaseOwner },
+        locals: { supabase: mockSupabaseOwner, user: requestUser },
       };
 
       const responseOwner = await DELETE(contextOwner);
@@ -281,27 +261,6 @@ describe("DELETE /api/promotions/:id", () => {
   });
 
   describe("Error Handling", () => {
-    it("returns 500 when test user not found (development mode)", async () => {
-      const mockSupabase = createMockSupabase({
-        shouldReturnUserError: true,
-      });
-
-      const context: TestContext = {
-        request: new Request("http://localhost:3000/api/promotions/promo-123", {
-          method: "DELETE",
-        }),
-        params: { id: "promo-123" },
-        locals: { supabase: mockSupabase },
-      };
-
-      const response = await DELETE(context);
-      const data = await response.json();
-
-      expect(response.status).toBe(500);
-      expect(data.error).toBe("internal_error");
-      expect(data.message).toContain("Test user not found");
-    });
-
     it("returns 500 for database deletion errors", async () => {
       const mockPromotion = {
         id: "promo-123",
@@ -319,7 +278,7 @@ describe("DELETE /api/promotions/:id", () => {
           method: "DELETE",
         }),
         params: { id: "promo-123" },
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await DELETE(context);
@@ -347,7 +306,7 @@ describe("DELETE /api/promotions/:id", () => {
           method: "DELETE",
         }),
         params: { id: "promo-123" },
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await DELETE(context);
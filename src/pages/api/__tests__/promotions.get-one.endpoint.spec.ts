@@ -1,14 +1,21 @@
 import { describe, it, expect } from "vitest";
 import type { SupabaseClient } from "@/db/supabase.client";
+import type { RequestUser } from "@/lib/auth/route-guard";
 import { GET } from "../promotions/[id]";
 
+const requestUser = {
+  id: "admin-123",
+  email: "admin@example.com",
+  access: { userId: "admin-123", isAdmin: true, roles: [] },
+};
+
 /**
  * Type for test context to avoid 'any' usage
  */
 interface TestContext {
   request: Request;
   params: Record<string, string>;
-  locals: { supabase: SupabaseClient };
+  locals: { supabase: SupabaseClient; user: RequestUser };
 }
 
 /**
@@ -110,7 +117,7 @@ describe("GET /api/promotions/:id", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ promotion: mockPromotion }) },
+        locals: { supabase: createMockSupabase({ promotion: mockPromotion }), user: requestUser },
       } as unknown as TestContext;
 
       const res = await GET(context as never);
@@ -164,7 +171,7 @@ describe("GET /api/promotions/:id", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ promotion: mockPromotion }) },
+        locals: { supabase: createMockSupabase({ promotion: mockPromotion }), user: requestUser },
       } as unknown as TestContext;
 
       const res = await GET(context as never);
@@ -249,7 +256,7 @@ describe("GET /api/promotions/:id", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ promotion: mockPromotion }) },
+        locals: { supabase: createMockSupabase({ promotion: mockPromotion }), user: requestUser },
       } as unknown as TestContext;
 
       const res = await GET(context as never);
@@ -306,7 +313,7 @@ describe("GET /api/promotions/:id", () => {
       const context = {
         request: req,
         params: { id: "11111111-1111-4111-8111-111111111111" },
-        locals: { supabase: createMockSupabase({ promotion: mockPromotion }) },
+        locals: { supabase: createMockSupabase({ promotion: mockPromotion }), user: requestUser },
       } as unknown as TestContext;
 
       const res = await GET(context as never);
@@ -329,7 +336,7 @@ describe("GET /api/promotions/:id", () => {
       const context = {
         request: req,
         params: { id: "invalid-uuid" },
-        locals: { supabase: createMockSupabase({}) },
+        locals: { supabase: createMockSupabase({}), user: requestUser },
       } as unknown as TestContext;
 
       const res = await GET(context as never);
@@ -350,7 +357,7 @@ describe("GET /api/promotions/:id", () => {
       const context = {
         request: req,
         params: { id: "123" },
-        locals: { supabase: createMockSupabase({}) },
+        locals: { supabase: createMockSupabase({}), user: requestUser },
       } as unknown as TestContext;
 
       const res = await GET(context as never);
@@ -376,6 +383,7 @@ describe("GET /api/promotions/:id", () => {
             shouldReturnError: true,
             errorCode: "PGRST116",
           }),
+          user: requestUser,
         },
       } as unknown as TestContext;
 
@@ -404,6 +412,7 @@ describe("GET /api/promotions/:id", () => {
             shouldReturnError: true,
             errorCode: "PGRST116",
           }),
+          user: requestUser,
         },
       } as unknown as TestContext;
 
@@ -430,6 +439,7 @@ describe("GET /api/promotions/:id", () => {
             shouldReturnError: true,
             errorCode: "CONNECTION_ERROR",
           }),
+          user: requestUser,
         },
       } as unknown as TestContext;
 
@@ -454,6 +464,7 @@ describe("GET /api/promotions/:id", () => {
             shouldReturnError: true,
             errorCode: "DB_INTERNAL_ERROR",
           }),
+          user: requestUser,
         },
       } as unknown as TestContext;
 
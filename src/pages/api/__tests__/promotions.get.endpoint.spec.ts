@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+import { GET } from "../promotions/index";
+
+const MANAGER_ID = "11111111-1111-4111-8111-111111111111";
+const REPORT_ID = "22222222-2222-4222-8222-222222222222";
+const STRANGER_ID = "33333333-3333-4333-8333-333333333333";
+
+const listPromotions = vi.fn(async () => ({
+  data: [],
+  pagination: { total: 0, limit: 20, offset: 0, has_more: false },
+}));
+
+vi.mock("@/lib/team.service", () => ({
+  TeamService: vi.fn(function () {
+    return { getReportIds: async () => [REPORT_ID] };
+  }),
+}));
+
+vi.mock("@/lib/promotion.service", () => ({
+  PromotionService: vi.fn(function () {
+    return { listPromotions };
+  }),
+}));
+
+/**
+ * Creates the request context for GET /api/promotions as a non-admin manager
+ */
+function createContext(search: string) {
+  return {
+    request: new Request(`http://localhost/api/promotions${search}`),
+    locals: {
+      supabase: {},
+      user: {
+        id: MANAGER_ID,
+        email: "manager@example.com",
+        access: { userId: MANAGER_ID, isAdmin: false, roles: [] },
+      },
+    },
+  } as unknown as APIContext;
+}
+
+describe("GET /api/promotions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lets managers filter by one of their reports", async () => {
+    const response = await GET(createContext(`?created_by=${REPORT_ID}`));
+
+    expect(response.status).toBe(200);
+    expect(listPromotions).toHaveBeenCalledWith(expect.objectContaining({ created_by: REPORT_ID }), MANAGER_ID, false, [
+      REPORT_ID,
+    ]);
+  });
+
+  it("returns 403 when filtering by a user who is not a report", async () => {
+    const response = await GET(createContext(`?created_by=${STRANGER_ID}`));
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toBe("forbidden");
+    expect(listPromotions).not.toHaveBeenCalled();
+  });
+});
@@ -1,55 +1,58 @@
 import { describe, it, expect } from "vitest";
 import type { SupabaseClient } from "@/db/supabase.client";
+import type { RequestUser } from "@/lib/auth/route-guard";
 import { POST } from "../promotions/index";
 
+const requestUser = {
+  id: "test-user-123",
+  email: "user@example.com",
+  access: { userId: "test-user-123", isAdmin: false, roles: [] },
+};
+
 /**
  * Type for test context to avoid 'any' usage
  */
 interface TestContext {
   request: Request;
   params: Record<string, string>;
-  locals: { supabase: SupabaseClient };
+  locals: { supabase: SupabaseClient; user: RequestUser };
 }
 
 /**
  * Creates a mock Supabase client for testing POST /api/promotions endpoint
  */
 function createMockSupabase(options: {
-  testUser?: { id: string } | null;
   template?: Record<string, unknown> | null;
   createdPromotion?: Record<string, unknown> | null;
-  shouldReturnUserError?: boolean;
   shouldReturnTemplateError?: boolean;
   shouldReturnCreateError?: boolean;
   templateErrorCode?: string;
+  /** Creator's recorded position; defaults to the template's path and from_level */
+  position?: { current_path: string | null; current_level: string | null };
 }) {
   const {
-    testUser = { id: "test-user-123" },
     template = null,
     createdPromotion = null,
-    shouldReturnUserError = false,
     shouldReturnTemplateError = false,
     shouldReturnCreateError = false,
     templateErrorCode = "PGRST116",
+    position = {
+      current_path: (template?.path as string | undefined) ?? null,
+      current_level: (template?.from_level as string | undefined) ?? null,
+    },
   } = options;
 
   return {
     from(table: string) {
-      // Mock users table query (for getting test user)
+      // Mock users table query (for the creator's position)
       if (table === "users") {
         return {
           select() {
             return {
-              limit() {
+              eq() {
                 return {
                   async single() {
-                    if (shouldReturnUserError) {
-                      return {
-                        data: null,
-                        error: { message: "User not found" },
-                      };
-                    }
-                    return { data: testUser, error: null };
+                    return { data: position, error: null };
                   },
                 };
               },
@@ -81,6 +84,31 @@ function createMockSupabase(options: {
         };
       }
 
+      // Mock career_ladder_versions query (no version recorded: bundled ladder)
+      if (table === "career_ladder_versions") {
+        return {
+          select() {
+            return {
+              lte() {
+                return {
+                  order() {
+                    return {
+                      order() {
+                        return {
+                          async limit() {
+                            return { data: [], error: null };
+                          },
+                        };
+                      },
+                    };
+                  },
+                };
+              },
+            };
+          },
+        };
+      }
+
       // Mock promotions table query (for creating promotion)
       if (table === "promotions") {
         return {
@@ -150,7 +178,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -201,7 +229,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -249,7 +277,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -271,7 +299,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -292,7 +320,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -313,7 +341,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -336,7 +364,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -364,7 +392,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -395,7 +423,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -407,10 +435,19 @@ describe("POST /api/promotions", () => {
     });
   });
 
-  describe("Error Handling", () => {
-    it("returns 500 when test user not found (development mode)", async () => {
+  describe("Position Mismatch", () => {
+    it("returns 409 when template does not start at the user's current level", async () => {
+      const mockTemplate = {
+        id: "template-123",
+        path: "technical",
+        from_level: "S1",
+        to_level: "S2",
+        is_active: true,
+      };
+
       const mockSupabase = createMockSupabase({
-        shouldReturnUserError: true,
+        template: mockTemplate,
+        position: { current_path: "technical", current_level: "S3" },
       });
 
       const context: TestContext = {
@@ -420,17 +457,18 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
       const data = await response.json();
 
-      expect(response.status).toBe(500);
-      expect(data.error).toBe("internal_error");
-      expect(data.message).toContain("Test user not found");
+      expect(response.status).toBe(409);
+      expect(data.error).toBe("position_mismatch");
     });
+  });
 
+  describe("Error Handling", () => {
     it("returns 500 for database creation errors", async () => {
       const mockTemplate = {
         id: "template-123",
@@ -452,7 +490,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -484,7 +522,7 @@ describe("POST /api/promotions", () => {
           headers: { "Content-Type": "application/json" },
         }),
         params: {},
-        locals: { supabase: mockSupabase },
+        locals: { supabase: mockSupabase, user: requestUser },
       };
 
       const response = await POST(context);
@@ -4,11 +4,6 @@ import { POST } from "../badge-applications/[id]/reject";
 function createMockContext({ id, badgeApplications = {}, isAdmin = true } = {}) {
   const badgeApps = { ...(badgeApplications || {}) };
   const supabaseClient = {
-    auth: {
-      async getUser() {
-        return { data: { user: { id: "reviewer-1" } }, error: null };
-      },
-    },
     from(table: string) {
       return {
         select(selectStr?: string) {
@@ -16,9 +11,6 @@ function createMockContext({ id, badgeApplications = {}, isAdmin = true } = {})
             eq(column: string, value: unknown) {
               return {
                 async single() {
-                  if (table === "users") {
-                    return { data: { is_admin: isAdmin }, error: null };
-                  }
                   if (table === "badge_applications") {
                     const idStr = String(value);
                     const row = badgeApps[idStr];
@@ -61,7 +53,10 @@ function createMockContext({ id, badgeApplications = {}, isAdmin = true } = {})
   return {
     params: { id },
     request: { json: async () => ({}) },
-    locals: { supabase: supabaseClient },
+    locals: {
+      supabase: supabaseClient,
+      user: { id: "reviewer-1", email: null, access: { userId: "reviewer-1", isAdmin, roles: [] } },
+    },
   };
 }
 
@@ -0,0 +1,79 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import { describe, it, expect } from "vitest";
+import { API_ROUTE_GUARDS, guardApiRequest, type HttpMethod } from "@/lib/auth/route-guard";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const API_DIR = join(__dirname, "..");
+
+/**
+ * Lists the route files under src/pages/api with their route pattern and exported methods
+ */
+function listRoutes(dir = API_DIR): { pattern: string; methods: string[] }[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name === "__tests__" ? [] : listRoutes(path);
+    }
+    if (!entry.name.endsWith(".ts")) {
+      return [];
+    }
+
+    const pattern = `/api/${relative(API_DIR, path)}`.replace(/\.ts$/, "").replace(/\/index$/, "");
+    const source = readFileSync(path, "utf-8");
+    const methods = [...source.matchAll(/export (?:const|async function) (GET|POST|PUT|PATCH|DELETE)\b/g)].map(
+      (match) => match[1]
+    );
+    return [{ pattern, methods }];
+  });
+}
+
+/**
+ * Creates a Supabase client whose session belongs to a deactivated admin
+ */
+function deactivatedSession(): SupabaseClient {
+  const single = async () => ({ data: { is_admin: true, deactivated_at: "2025-01-01T00:00:00Z" }, error: null });
+  return {
+    auth: { getUser: async () => ({ data: { user: { id: "550e8400-e29b-41d4-a716-446655440000" } }, error: null }) },
+    from: () => ({ select: () => ({ eq: () => ({ single }) }) }),
+  } as unknown as SupabaseClient;
+}
+
+describe("API_ROUTE_GUARDS", () => {
+  const routes = listRoutes();
+
+  it("has an access rule for every exported route method", () => {
+    const missing = routes.flatMap(({ pattern, methods }) =>
+      methods.filter((method) => !(method in (API_ROUTE_GUARDS[pattern] ?? {}))).map((method) => `${method} ${pattern}`)
+    );
+    expect(missing).toEqual([]);
+  });
+
+  it("has no rules for routes or methods that do not exist", () => {
+    const exported = new Set(routes.flatMap(({ pattern, methods }) => methods.map((method) => `${method} ${pattern}`)));
+    const stale = Object.entries(API_ROUTE_GUARDS).flatMap(([pattern, methods]) =>
+      Object.keys(methods)
+        .map((method) => `${method} ${pattern}`)
+        .filter((key) => !exported.has(key))
+    );
+    expect(stale).toEqual([]);
+  });
+
+  it("refuses deactivated accounts on every route that needs a user", async () => {
+    const open: string[] = [];
+    for (const [pattern, methods] of Object.entries(API_ROUTE_GUARDS)) {
+      for (const [method, access] of Object.entries(methods)) {
+        if (access === "public" || access === "worker") {
+          continue;
+        }
+        const pathname = pattern.replace(/\[[^\]]+\]/g, "750e8400-e29b-41d4-a716-446655440001");
+        const request = new Request(`http://localhost${pathname}`, { method: method as HttpMethod });
+        const result = await guardApiRequest(deactivatedSession(), request, pathname);
+        if (result.response?.status !== 401) {
+          open.push(`${method} ${pattern}`);
+        }
+      }
+    }
+    expect(open).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { PATCH } from "../users/[id]";
+
+const ADMIN_ID = "11111111-1111-4111-8111-111111111111";
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+
+/**
+ * Create a mock Supabase client for testing PATCH /api/users/:id
+ * Supports the user lookup and update
+ */
+function createMockSupabase() {
+  const target = {
+    id: USER_ID,
+    email: "dev@example.com",
+    display_name: "dev",
+    is_admin: false,
+    created_at: "2025-11-01T00:00:00Z",
+    last_seen_at: null,
+    deactivated_at: null,
+    deactivated_by: null,
+  };
+
+  return {
+    from(table: string) {
+      if (table === "users") {
+        return {
+          select() {
+            return {
+              eq() {
+                return {
+                  async single() {
+                    return { data: target, error: null };
+                  },
+                };
+              },
+            };
+          },
+          update(payload: Record<string, unknown>) {
+            return {
+              eq() {
+                return {
+                  select() {
+                    return {
+                      async single() {
+                        return { data: { ...target, ...payload }, error: null };
+                      },
+                    };
+                  },
+                };
+              },
+            };
+          },
+        };
+      }
+
+      return {
+        async insert() {
+          return { error: null };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+}
+
+function createContext(supabase: SupabaseClient, id: string, body: unknown) {
+  return {
+    params: { id },
+    request: new Request(`http://localhost/api/users/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+    locals: {
+      supabase,
+      user: { id: ADMIN_ID, email: "admin@example.com", access: { userId: ADMIN_ID, isAdmin: true, roles: [] } },
+    },
+  } as unknown as Parameters<typeof PATCH>[0];
+}
+
+describe("PATCH /api/users/:id", () => {
+  it("returns 400 for an invalid body", async () => {
+    const response = await PATCH(createContext(createMockSupabase(), USER_ID, { is_admin: "yes" }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.details[0].field).toBe("is_admin");
+  });
+
+  it("returns 409 when admins change their own rights", async () => {
+    const response = await PATCH(createContext(createMockSupabase(), ADMIN_ID, { is_admin: false }));
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error).toBe("self_modification");
+  });
+
+  it("grants admin rights", async () => {
+    const response = await PATCH(createContext(createMockSupabase(), USER_ID, { is_admin: true }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.is_admin).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { DELETE } from "../users/[id]/sessions";
+
+const ADMIN_ID = "11111111-1111-4111-8111-111111111111";
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+
+/**
+ * Create a mock Supabase client for testing DELETE /api/users/:id/sessions
+ * Supports the revocation RPC and audit/error log inserts
+ */
+function createMockSupabase() {
+  const rpcCalls: { fn: string; args: Record<string, unknown> }[] = [];
+
+  const client = {
+    async rpc(fn: string, args: Record<string, unknown>) {
+      rpcCalls.push({ fn, args });
+      return { data: 2, error: null };
+    },
+    from() {
+      return {
+        async insert() {
+          return { error: null };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, rpcCalls };
+}
+
+function createContext(supabase: SupabaseClient, id: string) {
+  return {
+    params: { id },
+    request: new Request(`http://localhost/api/users/${id}/sessions`, { method: "DELETE" }),
+    locals: {
+      supabase,
+      user: { id: ADMIN_ID, email: "admin@example.com", access: { userId: ADMIN_ID, isAdmin: true, roles: [] } },
+    },
+  } as unknown as Parameters<typeof DELETE>[0];
+}
+
+describe("DELETE /api/users/:id/sessions", () => {
+  it("returns 400 for an invalid user ID", async () => {
+    const { client } = createMockSupabase();
+
+    const response = await DELETE(createContext(client, "not-a-uuid"));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("returns 409 when admins sign themselves out", async () => {
+    const { client, rpcCalls } = createMockSupabase();
+
+    const response = await DELETE(createContext(client, ADMIN_ID));
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error).toBe("self_modification");
+    expect(rpcCalls).toHaveLength(0);
+  });
+
+  it("signs the user out of every session", async () => {
+    const { client, rpcCalls } = createMockSupabase();
+
+    const response = await DELETE(createContext(client, USER_ID));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({ revoked: 2 });
+    expect(rpcCalls).toEqual([{ fn: "revoke_user_sessions", args: { target: USER_ID } }]);
+  });
+});
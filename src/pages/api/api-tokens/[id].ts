@@ -0,0 +1,102 @@
+import type { APIRoute } from "astro";
+import { ApiTokenService } from "@/lib/api-token.service";
+import { apiTokenIdParamSchema } from "@/lib/validation/api-token.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import { logError } from "@/lib/error-logger";
+import type { ApiError } from "@/types";
+
+export const prerender = false;
+
+/**
+ * DELETE /api/api-tokens/:id
+ *
+ * Revokes an API token; requests made with it are refused from now on. Users
+ * revoke their own tokens, admins any token. Revoked tokens stay listed.
+ *
+ * Path Parameters:
+ * - id: UUID of the token
+ *
+ * @returns 200 OK with the revoked token
+ * @returns 400 Bad Request if the ID is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 404 Not Found if the token doesn't exist or belongs to someone else
+ * @returns 409 Conflict if the token is already revoked
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const DELETE: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const paramValidation = apiTokenIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid API token ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Revoke the Token
+    // =========================================================================
+    const service = new ApiTokenService(context.locals.supabase);
+    const revoked = await service.revokeToken(paramValidation.data.id, userId);
+
+    if (!revoked) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "API token not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(revoked), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "TOKEN_ALREADY_REVOKED") {
+      const apiError: ApiError = {
+        error: "invalid_status",
+        message: "API token is already revoked",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await logError(context.locals.supabase, {
+      route: "/api/api-tokens/:id",
+      error_code: "revoke_api_token_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { token_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while revoking the API token",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
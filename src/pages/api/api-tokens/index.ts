@@ -0,0 +1,231 @@
+import type { APIRoute } from "astro";
+import { ApiTokenService } from "@/lib/api-token.service";
+import { createApiTokenSchema, listApiTokensQuerySchema } from "@/lib/validation/api-token.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import { logError } from "@/lib/error-logger";
+import type { ApiError, CreateApiTokenCommand } from "@/types";
+
+export const prerender = false;
+
+/**
+ * GET /api/api-tokens
+ *
+ * Lists the current user's API tokens, newest first. Token secrets are never
+ * returned; token_prefix identifies each token.
+ *
+ * Query Parameters:
+ * - all: "true" to list every user's tokens (admin only)
+ *
+ * @returns 200 OK with an array of tokens
+ * @returns 400 Bad Request if query parameters are invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if a non-admin asks for every token
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Parse and Validate Query Parameters
+    // =========================================================================
+    const url = new URL(context.request.url);
+    const validation = listApiTokensQuerySchema.safeParse(Object.fromEntries(url.searchParams.entries()));
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid query parameters",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (validation.data.all && !user.access.isAdmin) {
+      const error: ApiError = {
+        error: "forbidden",
+        message: "Admin access required to list every API token",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Execute Service Method
+    // =========================================================================
+    const service = new ApiTokenService(context.locals.supabase);
+    const tokens = await service.listTokens(validation.data.all ? null : user.id);
+
+    return new Response(JSON.stringify(tokens), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/api-tokens",
+      error_code: "list_api_tokens_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while listing API tokens",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/api-tokens
+ *
+ * Creates an API token. The secret is only returned in this response.
+ *
+ * Request Body:
+ * - name: Label shown in the token list (required)
+ * - scope: read, review or admin (required); must be covered by the owner's roles
+ * - expires_in_days: Lifetime in days (1-365, default 90)
+ * - user_id: Owner of a service token (admin only); defaults to the current user
+ *
+ * @returns 201 Created with the token and its secret
+ * @returns 400 Bad Request if validation fails
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if a non-admin creates a token for someone else, or the
+ *   owner's roles don't cover the scope
+ * @returns 404 Not Found if the owner doesn't exist
+ * @returns 409 Conflict if the owner is deactivated
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Parse and Validate Request Body
+    // =========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await context.request.json();
+    } catch {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Request body is required and must be valid JSON",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const validation = createApiTokenSchema.safeParse(requestBody);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Validation failed",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Create the Token
+    // =========================================================================
+    const service = new ApiTokenService(context.locals.supabase);
+    const created = await service.createToken(validation.data as CreateApiTokenCommand, user.access);
+
+    return new Response(JSON.stringify(created), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Business Logic Errors
+    // =========================================================================
+    if (error instanceof Error && error.message === "FORBIDDEN") {
+      const apiError: ApiError = {
+        error: "forbidden",
+        message: "Only admins can create tokens for other users",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (error instanceof Error && error.message === "SCOPE_NOT_PERMITTED") {
+      const apiError: ApiError = {
+        error: "forbidden",
+        message: "The token owner's roles do not cover this scope",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (error instanceof Error && error.message === "USER_NOT_FOUND") {
+      const apiError: ApiError = {
+        error: "not_found",
+        message: "User not found",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (error instanceof Error && error.message === "USER_DEACTIVATED") {
+      const apiError: ApiError = {
+        error: "user_deactivated",
+        message: "Tokens cannot be created for deactivated accounts",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    await logError(context.locals.supabase, {
+      route: "/api/api-tokens",
+      error_code: "create_api_token_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while creating the API token",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
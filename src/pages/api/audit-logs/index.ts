@@ -0,0 +1,94 @@
+import type { APIRoute } from "astro";
+import { AuditLogService } from "../../../lib/audit-log.service";
+import { listAuditLogsQuerySchema } from "../../../lib/validation/audit-log.validation";
+import { requireRequestUser } from "../../../lib/auth/route-guard";
+import type { ApiError } from "../../../types";
+import { logError } from "../../../lib/error-logger";
+
+/**
+ * GET /api/audit-logs
+ *
+ * Lists audit log entries with filtering and pagination (admin only).
+ * Entries are written by the services on every significant state change
+ * (badge application and promotion transitions, catalog and template changes).
+ *
+ * Query Parameters:
+ * - actor_id: Filter by the user who performed the action (UUID)
+ * - event_type: Filter by event type (e.g. "promotion.approved")
+ * - resource_type: Filter by resource type (e.g. "promotion", "catalog_badge")
+ * - resource_id: Filter by a specific resource (UUID)
+ * - from: Only entries created on or after this date (ISO timestamp or YYYY-MM-DD)
+ * - to: Only entries created on or before this date (ISO timestamp or YYYY-MM-DD)
+ * - order: Sort order by created_at (asc, desc) - default: desc
+ * - limit: Page size (1-100) - default: 50
+ * - offset: Page offset (>= 0) - default: 0
+ *
+ * @returns 200 OK with paginated audit log entries
+ * @returns 400 Bad Request if query parameters are invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    // =========================================================================
+    // Step 1: Parse and Validate Query Parameters
+    // =========================================================================
+    const url = new URL(context.request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+
+    const validation = listAuditLogsQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid query parameters",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Execute Service Method
+    // =========================================================================
+    const service = new AuditLogService(context.locals.supabase);
+    const result = await service.listAuditLogs(validation.data);
+
+    // =========================================================================
+    // Step 3: Return Successful Response
+    // =========================================================================
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    await logError(context.locals.supabase, {
+      route: "/api/audit-logs",
+      error_code: "list_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while fetching audit logs",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
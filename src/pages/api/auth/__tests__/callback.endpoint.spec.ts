@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+import { GET } from "../callback";
+
+vi.mock("@/db/supabase.service-role", () => ({
+  createServiceRoleClient: vi.fn(() => null),
+}));
+
+/**
+ * Stand-in for Supabase Auth accepting one token hash and one PKCE code
+ */
+function createMockSupabase() {
+  const user = { id: "user-123", email: "dev@example.com" };
+  const auth = {
+    verifyOtp: vi.fn(async ({ token_hash }: { token_hash: string; type: string }) =>
+      token_hash === "valid-hash"
+        ? { data: { user, session: {} }, error: null }
+        : { data: { user: null, session: null }, error: { message: "Token has expired or is invalid" } }
+    ),
+    exchangeCodeForSession: vi.fn(async (code: string) =>
+      code === "valid-code"
+        ? { data: { user, session: {} }, error: null }
+        : { data: { user: null, session: null }, error: { message: "invalid flow state" } }
+    ),
+  };
+
+  return { client: { auth }, auth };
+}
+
+function createContext(supabase: unknown, query: string) {
+  const url = new URL(`http://localhost/api/auth/callback${query}`);
+  return {
+    request: new Request(url),
+    locals: { supabase },
+    redirect: vi.fn((location: string) => new Response(null, { status: 302, headers: { Location: location } })),
+    url,
+  } as unknown as APIContext;
+}
+
+describe("GET /api/auth/callback", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  it("verifies signup tokens and signs the user in", async () => {
+    const { client, auth } = createMockSupabase();
+
+    const response = await GET(createContext(client, "?token_hash=valid-hash&type=signup"));
+
+    expect(response.headers.get("Location")).toBe("/");
+    expect(auth.verifyOtp).toHaveBeenCalledWith({ token_hash: "valid-hash", type: "signup" });
+  });
+
+  it("exchanges PKCE codes", async () => {
+    const { client, auth } = createMockSupabase();
+
+    const response = await GET(createContext(client, "?code=valid-code"));
+
+    expect(response.headers.get("Location")).toBe("/");
+    expect(auth.exchangeCodeForSession).toHaveBeenCalledWith("valid-code");
+  });
+
+  it("forwards recovery tokens to the reset page without using them", async () => {
+    const { client, auth } = createMockSupabase();
+
+    const response = await GET(createContext(client, "?token_hash=abc%2B1&type=recovery"));
+
+    expect(response.headers.get("Location")).toBe("/reset-password?token=abc%2B1");
+    expect(auth.verifyOtp).not.toHaveBeenCalled();
+  });
+
+  it("redirects to login for invalid or expired tokens", async () => {
+    const { client } = createMockSupabase();
+
+    const expired = await GET(createContext(client, "?token_hash=expired&type=signup"));
+    const badCode = await GET(createContext(client, "?code=used-code"));
+
+    expect(expired.headers.get("Location")).toBe("/login?error=invalid_verification_link");
+    expect(badCode.headers.get("Location")).toBe("/login?error=invalid_verification_link");
+  });
+
+  it("rejects unknown token types and links without a token", async () => {
+    const { client, auth } = createMockSupabase();
+
+    const unknownType = await GET(createContext(client, "?token_hash=valid-hash&type=sms"));
+    const empty = await GET(createContext(client, ""));
+
+    expect(unknownType.headers.get("Location")).toBe("/login?error=invalid_verification_link");
+    expect(empty.headers.get("Location")).toBe("/login?error=invalid_verification_link");
+    expect(auth.verifyOtp).not.toHaveBeenCalled();
+  });
+
+  it("handles errors reported by Supabase", async () => {
+    const { client } = createMockSupabase();
+
+    const verification = await GET(createContext(client, "?error=access_denied&error_description=Email+link+expired"));
+    const recovery = await GET(createContext(client, "?error=access_denied&type=recovery"));
+
+    expect(verification.headers.get("Location")).toBe("/login?error=invalid_verification_link");
+    expect(recovery.headers.get("Location")).toBe("/forgot-password?error=invalid_token");
+  });
+});
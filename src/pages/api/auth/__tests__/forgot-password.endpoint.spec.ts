@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+import { POST } from "../forgot-password";
+import { runWithRequestContext } from "@/lib/request-context";
+
+/**
+ * Stand-in for the auth_events table behind the service role client
+ * Stores inserted events and answers the rate limit's count queries.
+ */
+const authEvents: Record<string, unknown>[] = [];
+
+function createServiceClient() {
+  return {
+    from() {
+      return {
+        async insert(row: Record<string, unknown>) {
+          authEvents.push({ ...row, created_at: new Date().toISOString() });
+          return { error: null };
+        },
+        select() {
+          const filters: [string, unknown][] = [];
+          const query = {
+            eq(column: string, value: unknown) {
+              filters.push([column, value]);
+              return query;
+            },
+            gte(column: string, value: string) {
+              const count = authEvents.filter(
+                (event) => filters.every(([key, expected]) => event[key] === expected) && String(event[column]) >= value
+              ).length;
+              return Promise.resolve({ count, error: null });
+            },
+          };
+          return query;
+        },
+      };
+    },
+  };
+}
+
+const serviceRole = vi.hoisted(() => ({ configured: true }));
+
+vi.mock("@/db/supabase.service-role", () => ({
+  createServiceRoleClient: vi.fn(() => (serviceRole.configured ? createServiceClient() : null)),
+}));
+
+/**
+ * Create a mock Supabase client for testing POST /api/auth/forgot-password
+ */
+function createMockSupabase(options: { resetError?: { message: string; status?: number } } = {}) {
+  const resetPasswordForEmail = vi.fn(async () => ({ data: {}, error: options.resetError ?? null }));
+  return { client: { auth: { resetPasswordForEmail } }, resetPasswordForEmail };
+}
+
+function createContext(supabase: unknown, email: string | null) {
+  const formData = new FormData();
+  if (email !== null) {
+    formData.append("email", email);
+  }
+
+  return {
+    request: new Request("http://localhost/api/auth/forgot-password", { method: "POST", body: formData }),
+    locals: { supabase },
+    redirect: vi.fn((url: string) => new Response(null, { status: 302, headers: { Location: url } })),
+    url: new URL("http://localhost/api/auth/forgot-password"),
+  } as unknown as APIContext;
+}
+
+function withIp<T>(ip: string, fn: () => Promise<T>): Promise<T> {
+  return runWithRequestContext(
+    { requestId: "req-1", method: "POST", path: "/api/auth/forgot-password", ip, userAgent: null, errorLogged: false },
+    fn
+  );
+}
+
+describe("POST /api/auth/forgot-password", () => {
+  beforeEach(() => {
+    authEvents.length = 0;
+    serviceRole.configured = true;
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  it("sends the reset email with the callback as redirect", async () => {
+    const { client, resetPasswordForEmail } = createMockSupabase();
+
+    const response = await POST(createContext(client, " Dev@Example.com "));
+
+    expect(response.headers.get("Location")).toBe("/forgot-password?success=true");
+    expect(resetPasswordForEmail).toHaveBeenCalledWith("dev@example.com", {
+      redirectTo: "http://localhost/api/auth/callback",
+    });
+    expect(authEvents).toEqual([
+      expect.objectContaining({ outcome: "success", method: "password_reset_request", email: "dev@example.com" }),
+    ]);
+  });
+
+  it("redirects with a validation error for an invalid email", async () => {
+    const { client, resetPasswordForEmail } = createMockSupabase();
+
+    const response = await POST(createContext(client, "not-an-email"));
+
+    expect(response.headers.get("Location")).toMatch(/^\/forgot-password\?error=validation_error/);
+    expect(resetPasswordForEmail).not.toHaveBeenCalled();
+  });
+
+  it("limits reset emails per address", async () => {
+    const { client, resetPasswordForEmail } = createMockSupabase();
+
+    for (let i = 0; i < 3; i++) {
+      await POST(createContext(client, "dev@example.com"));
+    }
+    const response = await POST(createContext(client, "dev@example.com"));
+    const other = await POST(createContext(client, "other@example.com"));
+
+    expect(response.headers.get("Location")).toBe("/forgot-password?error=too_many_requests");
+    expect(other.headers.get("Location")).toBe("/forgot-password?success=true");
+    expect(resetPasswordForEmail).toHaveBeenCalledTimes(4);
+  });
+
+  it("limits reset emails per IP address", async () => {
+    const { client, resetPasswordForEmail } = createMockSupabase();
+
+    for (let i = 0; i < 10; i++) {
+      await withIp("203.0.113.7", () => POST(createContext(client, `user${i}@example.com`)));
+    }
+    const response = await withIp("203.0.113.7", () => POST(createContext(client, "next@example.com")));
+    const otherIp = await withIp("198.51.100.1", () => POST(createContext(client, "next@example.com")));
+
+    expect(response.headers.get("Location")).toBe("/forgot-password?error=too_many_requests");
+    expect(otherIp.headers.get("Location")).toBe("/forgot-password?success=true");
+    expect(resetPasswordForEmail).toHaveBeenCalledTimes(11);
+  });
+
+  it("reports Supabase's own rate limit as too many requests", async () => {
+    const { client } = createMockSupabase({ resetError: { message: "Email rate limit exceeded", status: 429 } });
+
+    const response = await POST(createContext(client, "dev@example.com"));
+
+    expect(response.headers.get("Location")).toBe("/forgot-password?error=too_many_requests");
+  });
+
+  it("redirects with a server error when Supabase fails", async () => {
+    const { client } = createMockSupabase({ resetError: { message: "SMTP down", status: 500 } });
+
+    const response = await POST(createContext(client, "dev@example.com"));
+
+    expect(response.headers.get("Location")).toBe("/forgot-password?error=server_error");
+  });
+
+  it("redirects with a server error without the service role key", async () => {
+    serviceRole.configured = false;
+    const { client, resetPasswordForEmail } = createMockSupabase();
+
+    const response = await POST(createContext(client, "dev@example.com"));
+
+    expect(response.headers.get("Location")).toBe("/forgot-password?error=server_error");
+    expect(resetPasswordForEmail).not.toHaveBeenCalled();
+  });
+});
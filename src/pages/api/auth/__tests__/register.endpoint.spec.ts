@@ -82,15 +82,17 @@ function createMockAdminClient(
   options: {
     insertSuccess?: boolean;
     insertError?: string;
+    inserts?: Record<string, unknown>[];
   } = {}
 ) {
-  const { insertSuccess = true, insertError = null } = options;
+  const { insertSuccess = true, insertError = null, inserts = [] } = options;
 
   return {
     from(table: string) {
       if (table === "users") {
         return {
-          insert() {
+          insert(row: Record<string, unknown>) {
+            inserts.push(row);
             return {
               select() {
                 return {
@@ -158,7 +160,11 @@ describe("POST /api/auth/register", () => {
       expect(response.headers.get("Location")).toContain("email=newuser%40example.com");
     });
 
-    it("should create admin user for admin@badger.com", async () => {
+    it("should not grant admin rights based on the email address", async () => {
+      const { createClient } = await import("@supabase/supabase-js");
+      const inserts: Record<string, unknown>[] = [];
+      vi.mocked(createClient).mockReturnValue(createMockAdminClient({ inserts }) as never);
+
       const formData = new FormData();
       formData.append("email", "admin@badger.com");
       formData.append("password", "adminpass123");
@@ -184,6 +190,8 @@ describe("POST /api/auth/register", () => {
 
       expect(response.status).toBe(302);
       expect(response.headers.get("Location")).toContain("/verify-email");
+      expect(inserts).toHaveLength(1);
+      expect(inserts[0]).not.toHaveProperty("is_admin");
     });
   });
 
@@ -429,6 +437,36 @@ describe("POST /api/auth/register", () => {
     });
   });
 
+  describe("Self-Registration Disabled", () => {
+    it("should refuse registration when AUTH_SELF_REGISTRATION is false", async () => {
+      vi.stubEnv("AUTH_SELF_REGISTRATION", "false");
+
+      const formData = new FormData();
+      formData.append("email", "newuser@example.com");
+      formData.append("password", "password123");
+
+      const req = new Request("http://localhost/api/auth/register", {
+        method: "POST",
+        body: formData,
+      });
+
+      const context = {
+        request: req,
+        locals: { supabase: createMockSupabase() },
+        redirect: vi.fn((url: string) => new Response(null, { status: 302, headers: { Location: url } })),
+        url: new URL("http://localhost/api/auth/register"),
+      } as unknown as APIContext;
+
+      const response = await POST(context);
+
+      expect(response.status).toBe(302);
+      expect(response.headers.get("Location")).toBe("/login?error=registration_disabled");
+
+      // Restore env
+      vi.stubEnv("AUTH_SELF_REGISTRATION", "");
+    });
+  });
+
   describe("User Record Creation", () => {
     it("should create user record with correct data", async () => {
       const { createClient } = await import("@supabase/supabase-js");
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+import { POST } from "../reset-password";
+
+vi.mock("@/db/supabase.service-role", () => ({
+  createServiceRoleClient: vi.fn(() => null),
+}));
+
+const VALID_TOKEN = "recovery-token-hash";
+
+/**
+ * Stand-in for Supabase Auth holding one recovery token
+ * verifyOtp accepts the token once; updateUser needs the recovery session it opens.
+ */
+function createMockSupabase(options: { currentPassword?: string } = {}) {
+  const state = {
+    tokenUsed: false,
+    signedIn: false,
+    password: options.currentPassword ?? "OldPassword1",
+    signOutScope: null as string | null,
+  };
+
+  const auth = {
+    async verifyOtp({ token_hash, type }: { token_hash: string; type: string }) {
+      if (token_hash !== VALID_TOKEN || type !== "recovery" || state.tokenUsed) {
+        return { data: { user: null, session: null }, error: { message: "Token has expired or is invalid" } };
+      }
+      state.tokenUsed = true;
+      state.signedIn = true;
+      return { data: { user: { id: "user-123", email: "dev@example.com" }, session: {} }, error: null };
+    },
+    async updateUser({ password }: { password: string }) {
+      if (!state.signedIn) {
+        return { data: { user: null }, error: { message: "Auth session missing", code: "session_not_found" } };
+      }
+      if (password === state.password) {
+        return {
+          data: { user: null },
+          error: { message: "New password should be different", code: "same_password" },
+        };
+      }
+      state.password = password;
+      return { data: { user: { id: "user-123" } }, error: null };
+    },
+    async signOut(options?: { scope?: string }) {
+      state.signedIn = false;
+      state.signOutScope = options?.scope ?? "local";
+      return { error: null };
+    },
+  };
+
+  return { client: { auth }, state };
+}
+
+function createContext(supabase: unknown, fields: Record<string, string>) {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+
+  return {
+    request: new Request("http://localhost/api/auth/reset-password", { method: "POST", body: formData }),
+    locals: { supabase },
+    redirect: vi.fn((url: string) => new Response(null, { status: 302, headers: { Location: url } })),
+    url: new URL("http://localhost/api/auth/reset-password"),
+  } as unknown as APIContext;
+}
+
+describe("POST /api/auth/reset-password", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  it("sets the new password and signs out everywhere", async () => {
+    const { client, state } = createMockSupabase();
+
+    const response = await POST(
+      createContext(client, { token: VALID_TOKEN, password: "NewPassword1", confirmPassword: "NewPassword1" })
+    );
+
+    expect(response.headers.get("Location")).toBe("/login?message=password_reset_success");
+    expect(state.password).toBe("NewPassword1");
+    expect(state.signedIn).toBe(false);
+    expect(state.signOutScope).toBe("global");
+  });
+
+  it("rejects passwords below the policy without using the token", async () => {
+    const { client, state } = createMockSupabase();
+
+    const response = await POST(
+      createContext(client, { token: VALID_TOKEN, password: "short", confirmPassword: "short" })
+    );
+
+    expect(response.headers.get("Location")).toBe(`/reset-password?token=${VALID_TOKEN}&error=weak_password`);
+    expect(state.tokenUsed).toBe(false);
+  });
+
+  it("rejects passwords longer than 72 characters", async () => {
+    const { client } = createMockSupabase();
+    const password = "a1".repeat(40);
+
+    const response = await POST(createContext(client, { token: VALID_TOKEN, password, confirmPassword: password }));
+
+    expect(response.headers.get("Location")).toBe(`/reset-password?token=${VALID_TOKEN}&error=weak_password`);
+  });
+
+  it("rejects mismatched confirmation", async () => {
+    const { client } = createMockSupabase();
+
+    const response = await POST(
+      createContext(client, { token: VALID_TOKEN, password: "NewPassword1", confirmPassword: "NewPassword2" })
+    );
+
+    expect(response.headers.get("Location")).toBe(`/reset-password?token=${VALID_TOKEN}&error=passwords_dont_match`);
+  });
+
+  it("sends users back to request a new link when the token is invalid", async () => {
+    const { client, state } = createMockSupabase();
+
+    const response = await POST(
+      createContext(client, { token: "expired", password: "NewPassword1", confirmPassword: "NewPassword1" })
+    );
+
+    expect(response.headers.get("Location")).toBe("/forgot-password?error=invalid_token");
+    expect(state.password).toBe("OldPassword1");
+  });
+
+  it("accepts each token only once", async () => {
+    const { client } = createMockSupabase();
+    const fields = { token: VALID_TOKEN, password: "NewPassword1", confirmPassword: "NewPassword1" };
+
+    await POST(createContext(client, fields));
+    const response = await POST(
+      createContext(client, { ...fields, password: "Another1", confirmPassword: "Another1" })
+    );
+
+    expect(response.headers.get("Location")).toBe("/forgot-password?error=invalid_token");
+  });
+
+  it("redirects without a token", async () => {
+    const { client } = createMockSupabase();
+
+    const response = await POST(createContext(client, { password: "NewPassword1", confirmPassword: "NewPassword1" }));
+
+    expect(response.headers.get("Location")).toBe("/forgot-password?error=invalid_token");
+  });
+
+  it("reports a password equal to the current one", async () => {
+    const { client, state } = createMockSupabase({ currentPassword: "NewPassword1" });
+
+    const response = await POST(
+      createContext(client, { token: VALID_TOKEN, password: "NewPassword1", confirmPassword: "NewPassword1" })
+    );
+
+    expect(response.headers.get("Location")).toBe("/forgot-password?error=same_password");
+    expect(state.signedIn).toBe(false);
+  });
+});
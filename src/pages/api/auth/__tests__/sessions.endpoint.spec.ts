@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import type { APIContext } from "astro";
+import type { SupabaseClient } from "@/db/supabase.client";
+import { GET as getSession } from "../session";
+import { GET, DELETE } from "../sessions";
+
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+const CURRENT_SESSION_ID = "33333333-3333-4333-8333-333333333333";
+const OTHER_SESSION_ID = "44444444-4444-4444-8444-444444444444";
+
+/**
+ * Create a mock Supabase client for testing the session endpoints
+ * Supports reading the access token claims and the session RPCs
+ */
+function createMockSupabase(options: { hasSession?: boolean } = {}) {
+  const { hasSession = true } = options;
+  const rpcCalls: { fn: string; args: Record<string, unknown> }[] = [];
+
+  const client = {
+    auth: {
+      async getClaims() {
+        return hasSession
+          ? { data: { claims: { session_id: CURRENT_SESSION_ID, exp: 1764288000 } }, error: null }
+          : { data: null, error: { message: "Auth session missing!" } };
+      },
+    },
+    async rpc(fn: string, args: Record<string, unknown>) {
+      rpcCalls.push({ fn, args });
+      if (fn === "list_user_sessions") {
+        return {
+          data: [
+            {
+              id: CURRENT_SESSION_ID,
+              created_at: "2025-11-20T08:00:00Z",
+              last_seen_at: "2025-11-27T09:00:00Z",
+              user_agent: null,
+              ip: null,
+              not_after: null,
+            },
+            {
+              id: OTHER_SESSION_ID,
+              created_at: "2025-11-01T08:00:00Z",
+              last_seen_at: "2025-11-02T09:00:00Z",
+              user_agent: null,
+              ip: null,
+              not_after: null,
+            },
+          ],
+          error: null,
+        };
+      }
+      return { data: 1, error: null };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, rpcCalls };
+}
+
+function createContext(supabase: SupabaseClient, signedIn = true) {
+  return {
+    request: new Request("http://localhost/api/auth/sessions"),
+    locals: {
+      supabase,
+      user: signedIn
+        ? { id: USER_ID, email: "dev@example.com", access: { userId: USER_ID, isAdmin: false, roles: ["reviewer"] } }
+        : null,
+    },
+  } as unknown as APIContext;
+}
+
+describe("GET /api/auth/session", () => {
+  it("returns the signed-in user and session", async () => {
+    const { client } = createMockSupabase();
+
+    const response = await getSession(createContext(client));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({
+      authenticated: true,
+      user: { id: USER_ID, email: "dev@example.com", is_admin: false, roles: ["reviewer"] },
+      session: { id: CURRENT_SESSION_ID, expires_at: "2025-11-28T00:00:00.000Z" },
+    });
+  });
+
+  it("reports anonymous requests as signed out", async () => {
+    const { client } = createMockSupabase({ hasSession: false });
+
+    const response = await getSession(createContext(client, false));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({ authenticated: false, user: null, session: null });
+  });
+});
+
+describe("GET /api/auth/sessions", () => {
+  it("lists the user's sessions and flags the current one", async () => {
+    const { client, rpcCalls } = createMockSupabase();
+
+    const response = await GET(createContext(client));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(rpcCalls[0]).toEqual({ fn: "list_user_sessions", args: { target: USER_ID } });
+    expect(body.map((session: { id: string; current: boolean }) => [session.id, session.current])).toEqual([
+      [CURRENT_SESSION_ID, true],
+      [OTHER_SESSION_ID, false],
+    ]);
+  });
+});
+
+describe("DELETE /api/auth/sessions", () => {
+  it("signs out every other session", async () => {
+    const { client, rpcCalls } = createMockSupabase();
+
+    const response = await DELETE(createContext(client));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({ revoked: 1 });
+    expect(rpcCalls).toEqual([
+      { fn: "revoke_user_sessions", args: { target: USER_ID, keep_session: CURRENT_SESSION_ID } },
+    ]);
+  });
+
+  it("returns 401 when the current session cannot be identified", async () => {
+    const { client, rpcCalls } = createMockSupabase({ hasSession: false });
+
+    const response = await DELETE(createContext(client));
+
+    expect(response.status).toBe(401);
+    expect(rpcCalls).toHaveLength(0);
+  });
+});
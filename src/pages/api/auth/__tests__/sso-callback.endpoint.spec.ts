@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIContext } from "astro";
+import type { SsoIdentity } from "@/lib/auth/sso-providers";
+import { GET } from "../sso/[provider]/callback";
+
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+
+const identity: SsoIdentity = { email: "ada@example.com", displayName: "Ada", groups: [], authUserId: null };
+
+const provisioning = {
+  issueSignInToken: vi.fn(async () => ({ userId: USER_ID, tokenHash: "hashed" })),
+  provisionUser: vi.fn(async () => ({ id: USER_ID })),
+};
+
+vi.mock("@/lib/auth/sso-providers", () => ({
+  SSO_REDIRECT_COOKIE: "sso_redirect",
+  getSsoProviders: () => [{ id: "oidc", label: "SSO", begin: vi.fn(), complete: vi.fn(async () => identity) }],
+}));
+
+vi.mock("@/lib/sso-provisioning.service", () => ({
+  SsoProvisioningService: vi.fn(function () {
+    return provisioning;
+  }),
+}));
+
+vi.mock("@/db/supabase.service-role", () => ({
+  createServiceRoleClient: () => ({}),
+}));
+
+vi.mock("@/lib/error-logger", () => ({
+  logAuthFailure: vi.fn(),
+  logAuthSuccess: vi.fn(),
+}));
+
+/**
+ * Create a mock Supabase client for testing GET /api/auth/sso/:provider/callback
+ * Supports creating the session from the one-time token
+ */
+function createMockSupabase() {
+  return {
+    auth: {
+      verifyOtp: vi.fn(async () => ({ data: {}, error: null })),
+      signOut: vi.fn(async () => ({ error: null })),
+    },
+  };
+}
+
+function createContext(supabase: ReturnType<typeof createMockSupabase>, provider = "oidc", redirect = "/catalog") {
+  return {
+    params: { provider },
+    url: new URL(`http://localhost/api/auth/sso/${provider}/callback?code=abc&state=xyz`),
+    cookies: {
+      get: (name: string) => (name === "sso_redirect" ? { value: redirect } : undefined),
+      delete: vi.fn(),
+    },
+    locals: { supabase },
+    redirect: vi.fn((url: string) => new Response(null, { status: 302, headers: { Location: url } })),
+  } as unknown as APIContext;
+}
+
+describe("GET /api/auth/sso/:provider/callback", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("SSO_ALLOWED_DOMAINS", "");
+  });
+
+  it("signs the user in and returns to the remembered path", async () => {
+    const supabase = createMockSupabase();
+
+    const response = await GET(createContext(supabase));
+
+    expect(response.headers.get("Location")).toBe("/catalog");
+    expect(provisioning.provisionUser).toHaveBeenCalledWith(USER_ID, identity, expect.any(Object));
+    expect(supabase.auth.verifyOtp).toHaveBeenCalledWith({ token_hash: "hashed", type: "magiclink" });
+  });
+
+  it("does not follow remembered paths that leave the site", async () => {
+    const response = await GET(createContext(createMockSupabase(), "oidc", "/\\evil.example"));
+
+    expect(response.headers.get("Location")).toBe("/");
+  });
+
+  it("returns to login for a provider that is not enabled", async () => {
+    const response = await GET(createContext(createMockSupabase(), "saml"));
+
+    expect(response.headers.get("Location")).toBe("/login?error=sso_unavailable");
+  });
+
+  it("refuses email domains that are not allowed", async () => {
+    vi.stubEnv("SSO_ALLOWED_DOMAINS", "corp.example.com");
+    const supabase = createMockSupabase();
+
+    const response = await GET(createContext(supabase));
+
+    expect(response.headers.get("Location")).toBe("/login?error=sso_domain_not_allowed");
+    expect(provisioning.issueSignInToken).not.toHaveBeenCalled();
+    expect(supabase.auth.verifyOtp).not.toHaveBeenCalled();
+  });
+
+  it("refuses deactivated accounts without creating a session", async () => {
+    provisioning.provisionUser.mockRejectedValueOnce(new Error("USER_DEACTIVATED"));
+    const supabase = createMockSupabase();
+
+    const response = await GET(createContext(supabase));
+
+    expect(response.headers.get("Location")).toBe("/login?error=account_deactivated");
+    expect(supabase.auth.verifyOtp).not.toHaveBeenCalled();
+  });
+});
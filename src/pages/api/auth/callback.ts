@@ -0,0 +1,79 @@
+/**
+ * Auth Callback API Endpoint
+ *
+ * Landing point of the links in Supabase Auth emails (email verification and
+ * password reset). Templates in supabase/templates link here with a token hash;
+ * links from the default Supabase templates arrive with a PKCE code instead.
+ *
+ * Query Parameters:
+ * - token_hash + type: one-time token from the email template
+ * - code: PKCE authorization code (default templates)
+ * - error / error_description: set by Supabase when the link is invalid or expired
+ *
+ * Flow:
+ * 1. Password reset links: forward the token to the reset password page, where it is
+ *    verified once the new password is submitted (mail scanners opening the link do
+ *    not use it up)
+ * 2. Verification links: verify the token (verifyOtp) or exchange the code
+ *    (exchangeCodeForSession), which signs the user in
+ * 3. Redirect to the dashboard, or back to login when the link is invalid or expired
+ */
+
+export const prerender = false;
+
+import type { APIContext } from "astro";
+import type { EmailOtpType } from "@supabase/supabase-js";
+
+import { logAuthFailure, logAuthSuccess } from "@/lib/error-logger";
+
+const VERIFICATION_TYPES: EmailOtpType[] = ["signup", "email", "invite", "magiclink", "email_change"];
+
+export async function GET(context: APIContext): Promise<Response> {
+  const supabase = context.locals.supabase;
+  const params = context.url.searchParams;
+  const tokenHash = params.get("token_hash");
+  const type = params.get("type");
+  const code = params.get("code");
+
+  try {
+    if (params.get("error")) {
+      await logAuthFailure(null, "Auth link rejected by Supabase", {
+        type,
+        error: params.get("error"),
+        description: params.get("error_description"),
+      });
+      return context.redirect(
+        type === "recovery" ? "/forgot-password?error=invalid_token" : "/login?error=invalid_verification_link"
+      );
+    }
+
+    // Password reset: verified together with the new password
+    if (tokenHash && type === "recovery") {
+      return context.redirect(`/reset-password?token=${encodeURIComponent(tokenHash)}`);
+    }
+
+    // Email verification: verify the token or exchange the code for a session
+    let result;
+    if (tokenHash && VERIFICATION_TYPES.includes(type as EmailOtpType)) {
+      result = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: type as EmailOtpType });
+    } else if (code) {
+      result = await supabase.auth.exchangeCodeForSession(code);
+    } else {
+      await logAuthFailure(null, "Auth callback without token or code", { type });
+      return context.redirect("/login?error=invalid_verification_link");
+    }
+
+    const { data, error } = result;
+    if (error || !data.user) {
+      await logAuthFailure(null, "Email verification failed", { error, type });
+      return context.redirect("/login?error=invalid_verification_link");
+    }
+
+    await logAuthSuccess(data.user.id, "email_verification", { type: type ?? "code" });
+
+    return context.redirect("/");
+  } catch (error) {
+    await logAuthFailure(null, "Unexpected error in auth callback", { error });
+    return context.redirect("/login?error=server_error");
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Forgot Password API Endpoint
+ *
+ * Sends a password reset email via Supabase Auth.
+ * Accepts form submission (POST with form data) from the forgot password page.
+ *
+ * Flow:
+ * 1. Parse and validate form data
+ * 2. Refuse requests over the rate limit (per email address and per IP address)
+ * 3. Send the reset email (resetPasswordForEmail); the link leads to /api/auth/callback
+ * 4. Record the request in auth_events (counted by the rate limit)
+ * 5. Redirect to the confirmation screen
+ *
+ * The confirmation is the same whether or not an account exists for the address,
+ * so the form cannot be used to discover registered emails.
+ */
+
+export const prerender = false;
+
+import type { APIContext } from "astro";
+
+import { createServiceRoleClient } from "@/db/supabase.service-role";
+import { isAuthRequestRateLimited, PASSWORD_RESET_RATE_LIMIT } from "@/lib/auth/auth-rate-limit";
+import { logAuthFailure, logAuthSuccess } from "@/lib/error-logger";
+import { getRequestContext } from "@/lib/request-context";
+import { ForgotPasswordSchema } from "@/lib/validation/auth.validation";
+
+const RESET_REQUEST_METHOD = "password_reset_request";
+
+export async function POST(context: APIContext): Promise<Response> {
+  const supabase = context.locals.supabase;
+
+  try {
+    // Parse form data
+    const formData = await context.request.formData();
+    const email = formData.get("email");
+
+    // Validate input
+    const validation = ForgotPasswordSchema.safeParse({ email });
+
+    if (!validation.success) {
+      const errorMessage = validation.error.issues[0]?.message || "Invalid input";
+      return context.redirect(`/forgot-password?error=validation_error&message=${encodeURIComponent(errorMessage)}`);
+    }
+
+    const { email: validatedEmail } = validation.data;
+
+    // Rate limiting reads auth_events, which only the service role can read
+    const serviceClient = createServiceRoleClient();
+    if (!serviceClient) {
+      return context.redirect("/forgot-password?error=server_error");
+    }
+
+    const limited = await isAuthRequestRateLimited(
+      serviceClient,
+      RESET_REQUEST_METHOD,
+      { email: validatedEmail, ip: getRequestContext()?.ip ?? null },
+      PASSWORD_RESET_RATE_LIMIT
+    );
+
+    if (limited) {
+      await logAuthFailure(null, "Password reset rate limit reached", { email: validatedEmail });
+      return context.redirect("/forgot-password?error=too_many_requests");
+    }
+
+    // Send the reset email; Supabase answers the same way for unknown addresses
+    const { error } = await supabase.auth.resetPasswordForEmail(validatedEmail, {
+      redirectTo: `${context.url.origin}/api/auth/callback`,
+    });
+
+    if (error) {
+      await logAuthFailure(null, "Password reset email failed", { error, email: validatedEmail });
+      return context.redirect(
+        error.status === 429 ? "/forgot-password?error=too_many_requests" : "/forgot-password?error=server_error"
+      );
+    }
+
+    await logAuthSuccess(null, RESET_REQUEST_METHOD, { email: validatedEmail });
+
+    return context.redirect("/forgot-password?success=true");
+  } catch (error) {
+    await logAuthFailure(null, "Unexpected error during password reset request", { error });
+    return context.redirect("/forgot-password?error=server_error");
+  }
+}
@@ -8,8 +8,9 @@
  * Flow:
  * 1. Parse and validate form data
  * 2. Authenticate with Supabase (signInWithPassword)
- * 3. Update last_seen_at timestamp
- * 4. Redirect to intended destination or dashboard
+ * 3. Reject deactivated accounts
+ * 4. Update last_seen_at timestamp
+ * 5. Redirect to intended destination or dashboard
  */
 
 export const prerender = false;
@@ -47,7 +48,7 @@ export async function POST(context: APIContext): Promise<Response> {
     });
 
     if (error || !data.user) {
-      logAuthFailure(null, "Login failed", { error, email: validatedEmail });
+      await logAuthFailure(null, "Login failed", { error, email: validatedEmail });
       return context.redirect("/login?error=invalid_credentials");
     }
 
@@ -80,7 +81,7 @@ export async function POST(context: APIContext): Promise<Response> {
     if (userNotFound) {
       // User not in database - this shouldn't happen if registration flow is correct
       // Block login as the user record should have been created during registration
-      logAuthFailure(data.user.id, "User record not found during login", { userId: data.user.id });
+      await logAuthFailure(data.user.id, "User record not found during login", { userId: data.user.id });
 
       // Sign out the user since login cannot proceed without a user record
       await supabase.auth.signOut();
@@ -90,15 +91,22 @@ export async function POST(context: APIContext): Promise<Response> {
 
     if (userError) {
       // Unexpected error fetching user
-      logAuthFailure(data.user.id, "Failed to fetch user record", { error: userError });
+      await logAuthFailure(data.user.id, "Failed to fetch user record", { error: userError });
       await supabase.auth.signOut();
       return context.redirect("/login?error=server_error");
     }
 
+    if (userData.deactivated_at) {
+      // Deactivated by an admin - credentials are valid but access is revoked
+      await logAuthFailure(data.user.id, "Login blocked for deactivated account", { email: validatedEmail });
+      await supabase.auth.signOut();
+      return context.redirect("/login?error=account_deactivated");
+    }
+
     // Update last_seen_at timestamp
     await adminClient.from("users").update({ last_seen_at: new Date().toISOString() }).eq("id", data.user.id);
 
-    logAuthSuccess(data.user.id, "email_password", { action: "login" });
+    await logAuthSuccess(data.user.id, "email_password", { action: "login" });
 
     // Redirect to intended destination
     // Decode the redirect URL and ensure it's a local path
@@ -107,7 +115,7 @@ export async function POST(context: APIContext): Promise<Response> {
 
     return context.redirect(finalRedirect);
   } catch (error) {
-    logAuthFailure(null, "Unexpected error during login", { error });
+    await logAuthFailure(null, "Unexpected error during login", { error });
     return context.redirect("/login?error=server_error");
   }
 }
@@ -4,25 +4,33 @@
  * Handles new user registration via Supabase Auth.
  * Creates user account, sends verification email, and creates user record.
  *
+ * Deployments that create accounts through SSO only set AUTH_SELF_REGISTRATION=false;
+ * the endpoint then refuses every request.
+ *
  * Flow:
  * 1. Validate form data
  * 2. Register with Supabase Auth (signUp)
- * 3. Create user record in database
- * 4. Set is_admin if email is admin@badger.com
- * 5. Send verification email
- * 6. Redirect to verification page
+ * 3. Create user record in database (the first account on a fresh install
+ *    becomes admin via the users_bootstrap_first_admin trigger)
+ * 4. Send verification email
+ * 5. Redirect to verification page
  */
 
 export const prerender = false;
 
 import type { APIContext } from "astro";
 
+import { isSelfRegistrationEnabled } from "@/lib/auth/sso-config";
 import { RegisterSchema } from "@/lib/validation/auth.validation";
 import { logAuthFailure, logAuthSuccess } from "@/lib/error-logger";
 
 export async function POST(context: APIContext): Promise<Response> {
   const supabase = context.locals.supabase;
 
+  if (!isSelfRegistrationEnabled()) {
+    return context.redirect("/login?error=registration_disabled");
+  }
+
   try {
     // Parse form data
     const formData = await context.request.formData();
@@ -46,23 +54,17 @@ export async function POST(context: APIContext): Promise<Response> {
       return context.redirect("/register?error=email_already_exists");
     }
 
-    // Determine if this should be an admin user
-    const isAdmin = validatedEmail === "admin@badger.com";
-
     // Register with Supabase Auth
     const { data, error } = await supabase.auth.signUp({
       email: validatedEmail,
       password: validatedPassword,
       options: {
         emailRedirectTo: `${context.url.origin}/api/auth/callback`,
-        data: {
-          is_admin: isAdmin, // Store in user metadata
-        },
       },
     });
 
     if (error) {
-      logAuthFailure(null, "Registration failed", { error, email: validatedEmail });
+      await logAuthFailure(null, "Registration failed", { error, email: validatedEmail });
 
       // Handle specific error codes
       if (error.message.includes("already registered")) {
@@ -91,13 +93,12 @@ export async function POST(context: APIContext): Promise<Response> {
     const adminClient = createClient(import.meta.env.SUPABASE_URL, serviceRoleKey);
 
     // Create user record in database
-    const { error: insertError } = await adminClient
+    const { data: userRecord, error: insertError } = await adminClient
       .from("users")
       .insert({
         id: data.user.id,
         email: data.user.email || "",
         display_name: (data.user.email || "").split("@")[0],
-        is_admin: isAdmin,
         last_seen_at: new Date().toISOString(),
       })
       .select()
@@ -106,7 +107,7 @@ export async function POST(context: APIContext): Promise<Response> {
     if (insertError) {
       // Failed to create user record - this is a critical error
       // Block registration as per requirements (return 500)
-      logAuthFailure(data.user.id, "User record creation failed during registration", { error: insertError });
+      await logAuthFailure(data.user.id, "User record creation failed during registration", { error: insertError });
 
       // Sign out the user since we can't complete the registration
       await supabase.auth.signOut();
@@ -114,12 +115,15 @@ export async function POST(context: APIContext): Promise<Response> {
       return context.redirect("/register?error=server_error");
     }
 
-    logAuthSuccess(data.user.id, "email_password", { action: "register" });
+    await logAuthSuccess(data.user.id, "email_password", {
+      action: "register",
+      bootstrap_admin: userRecord?.is_admin === true,
+    });
 
     // Redirect to verification page
     return context.redirect(`/verify-email?email=${encodeURIComponent(validatedEmail)}`);
   } catch (error) {
-    logAuthFailure(null, "Unexpected error during registration", { error });
+    await logAuthFailure(null, "Unexpected error during registration", { error });
     return context.redirect("/register?error=server_error");
   }
 }
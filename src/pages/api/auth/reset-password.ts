@@ -0,0 +1,80 @@
+/**
+ * Reset Password API Endpoint
+ *
+ * Sets a new password with the token from a password reset email.
+ * Accepts form submission (POST with form data) from the reset password page.
+ *
+ * Flow:
+ * 1. Parse and validate form data (password policy shared with registration)
+ * 2. Verify the reset token (verifyOtp), which opens a recovery session
+ * 3. Update the password (updateUser)
+ * 4. Sign out and redirect to login
+ */
+
+export const prerender = false;
+
+import type { APIContext } from "astro";
+
+import { ResetPasswordSchema } from "@/lib/validation/auth.validation";
+import { logAuthFailure, logAuthSuccess } from "@/lib/error-logger";
+
+export async function POST(context: APIContext): Promise<Response> {
+  const supabase = context.locals.supabase;
+
+  try {
+    // Parse form data
+    const formData = await context.request.formData();
+    const token = formData.get("token");
+    const password = formData.get("password");
+    const confirmPassword = formData.get("confirmPassword");
+
+    if (typeof token !== "string" || !token) {
+      return context.redirect("/forgot-password?error=invalid_token");
+    }
+
+    // Validate input
+    const validation = ResetPasswordSchema.safeParse({ token, password, confirmPassword });
+
+    if (!validation.success) {
+      const issue = validation.error.issues[0];
+      const errorCode = issue?.path[0] === "confirmPassword" ? "passwords_dont_match" : "weak_password";
+      return context.redirect(`/reset-password?token=${encodeURIComponent(token)}&error=${errorCode}`);
+    }
+
+    // Verify the reset token; this signs the user in with a recovery session
+    const { data, error: verifyError } = await supabase.auth.verifyOtp({
+      token_hash: validation.data.token,
+      type: "recovery",
+    });
+
+    if (verifyError || !data.user) {
+      await logAuthFailure(null, "Password reset token rejected", { error: verifyError });
+      return context.redirect("/forgot-password?error=invalid_token");
+    }
+
+    // Update the password
+    const { error: updateError } = await supabase.auth.updateUser({ password: validation.data.password });
+
+    if (updateError) {
+      await logAuthFailure(data.user.id, "Password update failed", { error: updateError });
+      await supabase.auth.signOut();
+
+      // The token is used up; a new reset link is needed either way
+      return context.redirect(
+        updateError.code === "same_password"
+          ? "/forgot-password?error=same_password"
+          : "/forgot-password?error=server_error"
+      );
+    }
+
+    await logAuthSuccess(data.user.id, "password_reset", { email: data.user.email });
+
+    // Sign out everywhere so the new password is needed on every device
+    await supabase.auth.signOut({ scope: "global" });
+
+    return context.redirect("/login?message=password_reset_success");
+  } catch (error) {
+    await logAuthFailure(null, "Unexpected error during password reset", { error });
+    return context.redirect("/forgot-password?error=server_error");
+  }
+}
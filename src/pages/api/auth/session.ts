@@ -1,31 +1,45 @@
+import type { APIRoute } from "astro";
+import { SessionService } from "@/lib/session.service";
+import type { ApiError, AuthSessionResponse } from "@/types";
+
+export const prerender = false;
+
 /**
- * Session Info Endpoint
+ * GET /api/auth/session
  *
- * Returns current session information for the authenticated user.
- * This is a placeholder implementation that will be replaced with actual
- * session checking when authentication backend is implemented.
+ * Reports whether the request has a signed-in user, with their ID, email, admin
+ * flag and roles, and the session with its access token expiry. Public: anonymous
+ * requests get { authenticated: false, user: null, session: null }.
  *
- * TODO: Implement session info retrieval
- * - Get session from Supabase
- * - Fetch user data from database
- * - Return user info or null
+ * @returns 200 OK with { authenticated, user, session }
+ * @returns 500 Internal Server Error on unexpected errors
  */
+export const GET: APIRoute = async (context) => {
+  try {
+    const user = context.locals.user;
+    const session = user ? await new SessionService(context.locals.supabase).getCurrentSession() : null;
 
-export const prerender = false;
+    const response: AuthSessionResponse = {
+      authenticated: !!user,
+      user: user ? { id: user.id, email: user.email, is_admin: user.access.isAdmin, roles: user.access.roles } : null,
+      session: user ? { id: session?.id ?? null, expires_at: session?.expires_at ?? null } : null,
+    };
 
-export async function GET(): Promise<Response> {
-  // TODO: Implement actual session checking
-  // For now, return null (not authenticated)
-  return new Response(
-    JSON.stringify({
-      user: null,
-      authenticated: false,
-    }),
-    {
+    return new Response(JSON.stringify(response), {
       status: 200,
-      headers: {
-        "Content-Type": "application/json",
-      },
-    }
-  );
-}
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/auth/session:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while reading the session",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
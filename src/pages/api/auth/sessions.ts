@@ -0,0 +1,100 @@
+import type { APIRoute } from "astro";
+import { SessionService } from "@/lib/session.service";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError, RevokeSessionsResponse } from "@/types";
+
+export const prerender = false;
+
+/**
+ * GET /api/auth/sessions
+ *
+ * Lists the devices the current user is signed in on, most recently used first.
+ * The session making the request is flagged with current: true.
+ *
+ * @returns 200 OK with an array of sessions
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  try {
+    const user = requireRequestUser(context.locals);
+
+    const service = new SessionService(context.locals.supabase);
+    const current = await service.getCurrentSession();
+    const sessions = await service.listSessions(user.id, current?.id ?? null);
+
+    return new Response(JSON.stringify(sessions), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/auth/sessions:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while listing sessions",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/auth/sessions
+ *
+ * Signs the current user out of every other device; the session making the
+ * request stays signed in.
+ *
+ * @returns 200 OK with the number of sessions revoked
+ * @returns 401 Unauthorized if not authenticated or the session cannot be identified
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const DELETE: APIRoute = async (context) => {
+  try {
+    const user = requireRequestUser(context.locals);
+
+    // =========================================================================
+    // Step 1: Identify the Current Session (kept signed in)
+    // =========================================================================
+    const service = new SessionService(context.locals.supabase);
+    const current = await service.getCurrentSession();
+
+    if (!current) {
+      const error: ApiError = {
+        error: "unauthorized",
+        message: "Session not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Revoke the Other Sessions
+    // =========================================================================
+    const response: RevokeSessionsResponse = {
+      revoked: await service.revokeOtherSessions(user.id, current.id),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in DELETE /api/auth/sessions:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while signing out other sessions",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
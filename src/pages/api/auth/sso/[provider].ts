@@ -0,0 +1,56 @@
+/**
+ * SSO Sign-In API Endpoint
+ *
+ * Starts sign-in with an enterprise identity provider (the SSO buttons on the login
+ * page link here).
+ *
+ * Path Parameters:
+ * - provider: ID of an enabled SSO provider ("oidc" or "saml")
+ *
+ * Query Parameters:
+ * - redirect: local path to return to after sign-in
+ *
+ * Flow:
+ * 1. Look up the provider (unknown or disabled providers return to login)
+ * 2. Remember the redirect path in a short-lived cookie
+ * 3. Redirect to the identity provider, which returns to /api/auth/sso/:provider/callback
+ */
+
+export const prerender = false;
+
+import type { APIContext } from "astro";
+
+import { toLocalRedirectPath } from "@/lib/auth/sso-config";
+import { getSsoProviders, SSO_REDIRECT_COOKIE } from "@/lib/auth/sso-providers";
+import { logAuthFailure } from "@/lib/error-logger";
+
+export async function GET(context: APIContext): Promise<Response> {
+  const provider = getSsoProviders().find((candidate) => candidate.id === context.params.provider);
+
+  if (!provider) {
+    return context.redirect("/login?error=sso_unavailable");
+  }
+
+  try {
+    const redirect = toLocalRedirectPath(context.url.searchParams.get("redirect"), context.url.origin);
+    context.cookies.set(SSO_REDIRECT_COOKIE, redirect, {
+      path: "/api/auth/sso",
+      httpOnly: true,
+      secure: context.url.protocol === "https:",
+      sameSite: "lax",
+      maxAge: 600,
+    });
+
+    const authorizationUrl = await provider.begin({
+      supabase: context.locals.supabase,
+      cookies: context.cookies,
+      url: context.url,
+      callbackUrl: `${context.url.origin}/api/auth/sso/${provider.id}/callback`,
+    });
+
+    return context.redirect(authorizationUrl);
+  } catch (error) {
+    await logAuthFailure(null, "SSO sign-in could not be started", { provider: provider.id, error });
+    return context.redirect("/login?error=sso_failed");
+  }
+}
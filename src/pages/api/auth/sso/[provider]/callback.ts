@@ -0,0 +1,107 @@
+/**
+ * SSO Callback API Endpoint
+ *
+ * Landing point after the identity provider authenticated the user.
+ *
+ * Path Parameters:
+ * - provider: ID of the SSO provider that started the sign-in
+ *
+ * Flow:
+ * 1. Let the provider verify the response and read the asserted user
+ * 2. Refuse email domains outside SSO_ALLOWED_DOMAINS
+ * 3. Create the Supabase Auth user on first sign-in (OIDC; SAML users are created by
+ *    Supabase Auth)
+ * 4. Create the users row just in time, sync admin rights and the reviewer role from
+ *    the IdP groups, and refuse deactivated accounts
+ * 5. Sign the user in (OIDC: one-time token verified with verifyOtp)
+ * 6. Redirect to the path remembered when the sign-in started
+ */
+
+export const prerender = false;
+
+import type { APIContext } from "astro";
+
+import { createServiceRoleClient } from "@/db/supabase.service-role";
+import { getSsoConfig, isAllowedEmailDomain, toLocalRedirectPath } from "@/lib/auth/sso-config";
+import { getSsoProviders, SSO_REDIRECT_COOKIE, type SsoIdentity } from "@/lib/auth/sso-providers";
+import { logAuthFailure, logAuthSuccess } from "@/lib/error-logger";
+import { SsoProvisioningService } from "@/lib/sso-provisioning.service";
+
+export async function GET(context: APIContext): Promise<Response> {
+  const supabase = context.locals.supabase;
+  const config = getSsoConfig();
+  const provider = getSsoProviders(config).find((candidate) => candidate.id === context.params.provider);
+
+  if (!provider) {
+    return context.redirect("/login?error=sso_unavailable");
+  }
+
+  const redirect = context.cookies.get(SSO_REDIRECT_COOKIE)?.value || "/";
+  context.cookies.delete(SSO_REDIRECT_COOKIE, { path: "/api/auth/sso" });
+
+  let identity: SsoIdentity | null = null;
+
+  try {
+    // Verify the identity provider's response
+    identity = await provider.complete({
+      supabase,
+      cookies: context.cookies,
+      url: context.url,
+      callbackUrl: `${context.url.origin}/api/auth/sso/${provider.id}/callback`,
+    });
+
+    if (!isAllowedEmailDomain(identity.email, config.allowedDomains)) {
+      await logAuthFailure(identity.authUserId, "SSO sign-in from a domain that is not allowed", {
+        provider: provider.id,
+        email: identity.email,
+      });
+      if (identity.authUserId) await supabase.auth.signOut();
+      return context.redirect("/login?error=sso_domain_not_allowed");
+    }
+
+    const adminClient = createServiceRoleClient();
+    if (!adminClient) {
+      if (identity.authUserId) await supabase.auth.signOut();
+      return context.redirect("/login?error=server_error");
+    }
+
+    // Create the auth user and users row on first sign-in
+    const service = new SsoProvisioningService(adminClient);
+    let userId = identity.authUserId;
+    let tokenHash: string | null = null;
+    if (!userId) {
+      ({ userId, tokenHash } = await service.issueSignInToken(identity));
+    }
+
+    await service.provisionUser(userId, identity, config.groupMapping);
+
+    // Create the session (SAML sessions already exist)
+    if (tokenHash) {
+      const { error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: "magiclink" });
+      if (error) {
+        throw new Error(`Failed to create session: ${error.message}`);
+      }
+    }
+
+    await logAuthSuccess(userId, `sso_${provider.id}`, { action: "login", groups: identity.groups });
+
+    return context.redirect(toLocalRedirectPath(redirect, context.url.origin));
+  } catch (error) {
+    if (identity?.authUserId) await supabase.auth.signOut();
+
+    if (error instanceof Error && error.message === "USER_DEACTIVATED") {
+      await logAuthFailure(identity?.authUserId ?? null, "SSO sign-in blocked for deactivated account", {
+        provider: provider.id,
+        email: identity?.email,
+      });
+      return context.redirect("/login?error=account_deactivated");
+    }
+
+    await logAuthFailure(identity?.authUserId ?? null, "SSO sign-in failed", {
+      provider: provider.id,
+      email: identity?.email,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return context.redirect("/login?error=sso_failed");
+  }
+}
@@ -2,7 +2,10 @@ import type { APIRoute } from "astro";
 import { BadgeApplicationService } from "@/lib/badge-application.service";
 import { uuidParamSchema } from "@/lib/validation/catalog-badge.validation";
 import { updateBadgeApplicationSchema } from "@/lib/validation/badge-application.validation";
+import { hasPermission } from "@/lib/auth/permissions";
+import { requireRequestUser } from "@/lib/auth/route-guard";
 import type { ApiError } from "@/types";
+import { Permission } from "@/types";
 
 /**
  * GET /api/badge-applications/:id
@@ -13,60 +16,23 @@ import type { ApiError } from "@/types";
  * - id: Badge application UUID (required)
  *
  * Authorization:
- * - Non-admin users: Can only view their own badge applications
+ * - Users: Can only view their own badge applications
+ * - Reviewers: Can view badge applications in their categories
  * - Admin users: Can view any badge application
  *
  * @returns 200 OK with badge application details
  * @returns 401 Unauthorized if not authenticated
- * @returns 403 Forbidden if non-owner non-admin tries to access
+ * @returns 403 Forbidden if a non-owner without review rights tries to access
  * @returns 404 Not Found if badge application doesn't exist
  * @returns 400 Bad Request if invalid UUID format
  * @returns 500 Internal Server Error on unexpected errors
  */
 export const GET: APIRoute = async (context) => {
   try {
-    // =========================================================================
-    // Step 1: Authentication Check
-    // =========================================================================
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Step 2: Get User Info (Admin Status)
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "User not found",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const isAdmin = userData.is_admin;
-    const userId = user.id;
+    const { id: userId, access } = requireRequestUser(context.locals);
 
     // =========================================================================
-    // Step 3: Validate Path Parameter
+    // Step 1: Validate Path Parameter
     // =========================================================================
     const id = context.params.id as string;
 
@@ -89,13 +55,13 @@ export const GET: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 4: Fetch Badge Application from Service
+    // Step 2: Fetch Badge Application from Service
     // =========================================================================
     const service = new BadgeApplicationService(context.locals.supabase);
     const badgeApplication = await service.getBadgeApplicationById(id);
 
     // =========================================================================
-    // Step 5: Handle Not Found
+    // Step 3: Handle Not Found
     // =========================================================================
     if (!badgeApplication) {
       const error: ApiError = {
@@ -109,12 +75,17 @@ export const GET: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 6: Authorization Check
+    // Step 4: Authorization Check
     // =========================================================================
-    // Non-admin users can only view their own badge applications
+    // Users can only view their own badge applications; reviewers those in their categories
     const isOwner = badgeApplication.applicant_id === userId;
+    const canReview = hasPermission(
+      access,
+      Permission.ReviewApplications,
+      badgeApplication.catalog_badge?.category ?? undefined
+    );
 
-    if (!isAdmin && !isOwner) {
+    if (!isOwner && !canReview) {
       const error: ApiError = {
         error: "forbidden",
         message: "You do not have permission to view this badge application",
@@ -126,7 +97,7 @@ export const GET: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 7: Return Successful Response
+    // Step 5: Return Successful Response
     // =========================================================================
     return new Response(JSON.stringify(badgeApplication), {
       status: 200,
@@ -154,43 +125,8 @@ export const GET: APIRoute = async (context) => {
 
 export const PUT: APIRoute = async (context) => {
   try {
-    // Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Get User Info (Admin Status)
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "User not found",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const isAdmin = userData.is_admin;
-    const userId = user.id;
+    const { id: userId, access } = requireRequestUser(context.locals);
+    const isAdmin = access.isAdmin;
 
     // Validate path parameter
     const id = context.params.id as string;
@@ -298,43 +234,8 @@ export const PUT: APIRoute = async (context) => {
 
 export const DELETE: APIRoute = async (context) => {
   try {
-    // Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Get User Info (Admin Status)
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "User not found",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const isAdmin = userData.is_admin;
-    const userId = user.id;
+    const { id: userId, access } = requireRequestUser(context.locals);
+    const isAdmin = access.isAdmin;
 
     // Validate path parameter
     const id = context.params.id as string;
@@ -2,7 +2,10 @@ import type { APIRoute } from "astro";
 import { z } from "zod";
 import { BadgeApplicationService } from "@/lib/badge-application.service";
 import { uuidParamSchema } from "@/lib/validation/catalog-badge.validation";
-import type { ApiError } from "@/types";
+import { getPermittedCategories } from "@/lib/auth/permissions";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError, BadgeCategoryType } from "@/types";
+import { Permission } from "@/types";
 import { logError } from "@/lib/error-logger";
 
 const acceptBodySchema = z.object({
@@ -12,36 +15,8 @@ const acceptBodySchema = z.object({
 
 export const POST: APIRoute = async (context) => {
   try {
-    // STEP 1: Authentication
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = { error: "unauthorized", message: "Authentication required" };
-      return new Response(JSON.stringify(error), { status: 401, headers: { "Content-Type": "application/json" } });
-    }
-
-    // Fetch user record to determine admin status
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = { error: "unauthorized", message: "User not found" };
-      return new Response(JSON.stringify(error), { status: 401, headers: { "Content-Type": "application/json" } });
-    }
-
-    const isAdmin = userData.is_admin;
-    const reviewerId = user.id;
-
-    if (!isAdmin) {
-      const error: ApiError = { error: "forbidden", message: "Only admins may accept badge applications" };
-      return new Response(JSON.stringify(error), { status: 403, headers: { "Content-Type": "application/json" } });
-    }
+    // Reviewers only (route guard); scoped reviewers may decide on their categories
+    const { id: reviewerId, access } = requireRequestUser(context.locals);
 
     // Validate path parameter
     const id = context.params.id as string;
@@ -78,6 +53,23 @@ export const POST: APIRoute = async (context) => {
 
     const service = new BadgeApplicationService(context.locals.supabase);
 
+    // Reviewers limited to categories may only decide on applications in those categories
+    const permittedCategories = getPermittedCategories(access, Permission.ReviewApplications);
+    if (permittedCategories) {
+      const category = await service.getApplicationCategory(id);
+      if (!category) {
+        const error: ApiError = { error: "not_found", message: "Badge application not found" };
+        return new Response(JSON.stringify(error), { status: 404, headers: { "Content-Type": "application/json" } });
+      }
+      if (!permittedCategories.includes(category as BadgeCategoryType)) {
+        const error: ApiError = {
+          error: "forbidden",
+          message: "You may not review badge applications in this category",
+        };
+        return new Response(JSON.stringify(error), { status: 403, headers: { "Content-Type": "application/json" } });
+      }
+    }
+
     try {
       const updated = await service.acceptBadgeApplication(id, reviewerId, decisionNote);
       return new Response(JSON.stringify(updated), { status: 200, headers: { "Content-Type": "application/json" } });
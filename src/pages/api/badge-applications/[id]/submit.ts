@@ -1,36 +1,14 @@
 import type { APIRoute } from "astro";
 import { BadgeApplicationService } from "@/lib/badge-application.service";
 import { uuidParamSchema } from "@/lib/validation/catalog-badge.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
 import type { ApiError } from "@/types";
 import { logError } from "@/lib/error-logger";
 
 export const POST: APIRoute = async (context) => {
   try {
-    // Authentication: retrieve user from Supabase auth
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = { error: "unauthorized", message: "Authentication required" };
-      return new Response(JSON.stringify(error), { status: 401, headers: { "Content-Type": "application/json" } });
-    }
-
-    // Fetch user record to determine admin status
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = { error: "unauthorized", message: "User not found" };
-      return new Response(JSON.stringify(error), { status: 401, headers: { "Content-Type": "application/json" } });
-    }
-
-    const isAdmin = userData.is_admin;
-    const requesterId = user.id;
+    const { id: requesterId, access } = requireRequestUser(context.locals);
+    const isAdmin = access.isAdmin;
 
     // Validate path parameter
     const id = context.params.id as string;
@@ -4,7 +4,11 @@ import {
   listBadgeApplicationsQuerySchema,
   createBadgeApplicationSchema,
 } from "@/lib/validation/badge-application.validation";
+import { hasPermission } from "@/lib/auth/permissions";
+import { TeamService } from "@/lib/team.service";
+import { requireRequestUser } from "@/lib/auth/route-guard";
 import type { ApiError } from "@/types";
+import { Permission } from "@/types";
 
 /**
  * GET /api/badge-applications
@@ -13,7 +17,7 @@ import type { ApiError } from "@/types";
  *
  * Query Parameters:
  * - status: Filter by application status (draft, submitted, accepted, rejected, used_in_promotion)
- * - applicant_id: Filter by applicant ID (UUID) - admin only
+ * - applicant_id: Filter by applicant ID (UUID) - reviewers, or managers for their reports
  * - catalog_badge_id: Filter by catalog badge ID (UUID)
  * - sort: Sort field (created_at, submitted_at) - default: created_at
  * - order: Sort order (asc, desc) - default: desc
@@ -21,59 +25,26 @@ import type { ApiError } from "@/types";
  * - offset: Page offset (>= 0) - default: 0
  *
  * Authorization:
- * - Non-admin users: Can only view their own badge applications
- * - Admin users: Can view all badge applications and filter by any applicant
+ * - Users: Can only view their own badge applications
+ * - Managers: Also view the badge applications of their direct and indirect reports
+ * - Admins and reviewers: Can view all non-draft badge applications (reviewers limited
+ *   to their categories) and filter by any applicant
  *
  * @returns 200 OK with paginated badge applications
  * @returns 401 Unauthorized if not authenticated
- * @returns 403 Forbidden if non-admin tries to use applicant_id filter
+ * @returns 403 Forbidden if a non-reviewer filters by someone other than a report
  * @returns 400 Bad Request if query parameters are invalid
  * @returns 500 Internal Server Error on unexpected errors
  */
 export const GET: APIRoute = async (context) => {
   try {
-    // =========================================================================
-    // Step 1: Authentication Check
-    // =========================================================================
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Step 2: Get User Info (Admin Status)
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "User not found",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
+    const { id: userId, access } = requireRequestUser(context.locals);
 
-    const isAdmin = userData.is_admin;
-    const userId = user.id;
+    // Reviewers see the applications they may decide on (RLS limits scoped reviewers to their categories)
+    const canReview = hasPermission(access, Permission.ReviewApplications);
 
     // =========================================================================
-    // Step 3: Parse and Validate Query Parameters
+    // Step 1: Parse and Validate Query Parameters
     // =========================================================================
     const url = new URL(context.request.url);
     const queryParams = Object.fromEntries(url.searchParams.entries());
@@ -98,14 +69,15 @@ export const GET: APIRoute = async (context) => {
     const query = validation.data;
 
     // =========================================================================
-    // Step 4: Authorization Check (applicant_id Filter for Non-Admin)
+    // Step 2: Authorization Check (applicant_id Filter for Non-Admin)
     // =========================================================================
-    // In development mode, this check will prevent non-admin from filtering by applicant_id
-    // In production, this works together with actual user authentication
-    if (query.applicant_id && !isAdmin) {
+    // Managers may filter by their own reports; everyone else needs the reviewer role
+    const reportIds = canReview ? [] : await new TeamService(context.locals.supabase).getReportIds(userId);
+
+    if (query.applicant_id && !canReview && query.applicant_id !== userId && !reportIds.includes(query.applicant_id)) {
       const error: ApiError = {
         error: "forbidden",
-        message: "Only administrators can filter by applicant_id",
+        message: "Only reviewers and managers of the applicant can filter by applicant_id",
       };
       return new Response(JSON.stringify(error), {
         status: 403,
@@ -114,13 +86,13 @@ export const GET: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 5: Execute Service Method
+    // Step 3: Execute Service Method
     // =========================================================================
     const service = new BadgeApplicationService(context.locals.supabase);
-    const result = await service.listBadgeApplications(query, userId, isAdmin);
+    const result = await service.listBadgeApplications(query, userId, canReview, reportIds);
 
     // =========================================================================
-    // Step 6: Return Successful Response
+    // Step 4: Return Successful Response
     // =========================================================================
     return new Response(JSON.stringify(result), {
       status: 200,
@@ -175,29 +147,10 @@ export const GET: APIRoute = async (context) => {
  */
 export const POST: APIRoute = async (context) => {
   try {
-    // =========================================================================
-    // Step 1: Authentication Check
-    // =========================================================================
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const userId = user.id;
+    const userId = requireRequestUser(context.locals).id;
 
     // =========================================================================
-    // Step 2: Parse and Validate Request Body
+    // Step 1: Parse and Validate Request Body
     // =========================================================================
     let body;
     try {
@@ -233,7 +186,7 @@ export const POST: APIRoute = async (context) => {
     const command = validation.data;
 
     // =========================================================================
-    // Step 3: Execute Service Method
+    // Step 2: Execute Service Method
     // =========================================================================
     const service = new BadgeApplicationService(context.locals.supabase);
 
@@ -283,7 +236,7 @@ export const POST: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 4: Return Successful Response (201 Created)
+    // Step 3: Return Successful Response (201 Created)
     // =========================================================================
     return new Response(JSON.stringify(badgeApplication), {
       status: 201,
@@ -1,7 +1,9 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
 import { CatalogBadgeService } from "@/lib/catalog-badge.service";
-import type { ApiError } from "@/types";
+import { updateCatalogBadgeSchema } from "@/lib/validation/catalog-badge.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError, InvalidStatusError } from "@/types";
 
 // UUID validation schema
 const uuidSchema = z.string().uuid();
@@ -11,14 +13,12 @@ const uuidSchema = z.string().uuid();
  *
  * Retrieves a single catalog badge by ID.
  *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication before production deployment
- *
  * Path Parameters:
  * - id: Catalog badge UUID
  *
  * @returns 200 OK with catalog badge details
  * @returns 400 Bad Request if UUID is invalid
+ * @returns 401 Unauthorized if not authenticated
  * @returns 404 Not Found if badge doesn't exist
  * @returns 500 Internal Server Error on unexpected errors
  */
@@ -89,3 +89,162 @@ export const GET: APIRoute = async (context) => {
     });
   }
 };
+
+/**
+ * PUT /api/catalog-badges/:id
+ *
+ * Updates a catalog badge (catalog managers and admins). Every change bumps the badge version;
+ * the previous wording is kept in the version history so existing applications
+ * still show the text they were filed against.
+ *
+ * Path Parameters:
+ * - id: Catalog badge UUID
+ *
+ * Request Body (all optional, at least one required):
+ * - title: Badge title (max 200 chars)
+ * - description: Badge description (max 2000 chars)
+ * - category: Badge category (technical/organizational/softskilled)
+ * - level: Badge level (gold/silver/bronze)
+ * - metadata: Additional metadata (JSON object)
+ *
+ * @returns 200 OK with updated catalog badge (new version)
+ * @returns 400 Bad Request if UUID or body is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if the user may not manage the catalog
+ * @returns 404 Not Found if badge doesn't exist
+ * @returns 409 Conflict if the badge is archived or was edited concurrently, or if category
+ *   or level change on a badge that has applications
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const PUT: APIRoute = async (context) => {
+  try {
+    const user = requireRequestUser(context.locals);
+
+    // =========================================================================
+    // Step 1: Validate ID Parameter
+    // =========================================================================
+    const idValidation = uuidSchema.safeParse(context.params.id);
+
+    if (!idValidation.success) {
+      const error: ApiError = {
+        error: "invalid_parameter",
+        message: "Invalid badge ID format. Must be a valid UUID.",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Parse and Validate Request Body
+    // =========================================================================
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const validation = updateCatalogBadgeSchema.safeParse(body);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Validation failed",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Update Badge via Service
+    // =========================================================================
+    const service = new CatalogBadgeService(context.locals.supabase);
+    const badge = await service.updateCatalogBadge(idValidation.data, validation.data, user.id);
+
+    if (!badge) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "Catalog badge not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 4: Return Success Response
+    // =========================================================================
+    return new Response(JSON.stringify(badge), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Business Logic Errors
+    // =========================================================================
+    if (error instanceof Error && error.message === "BADGE_ARCHIVED") {
+      const apiError: InvalidStatusError = {
+        error: "invalid_status",
+        message: "Archived badges cannot be edited",
+        current_status: "archived",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (error instanceof Error && error.message === "BADGE_HAS_APPLICATIONS") {
+      const apiError: ApiError = {
+        error: "conflict",
+        message: "Category and level cannot change once the badge has applications",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (error instanceof Error && error.message === "BADGE_VERSION_CONFLICT") {
+      const apiError: ApiError = {
+        error: "conflict",
+        message: "The badge was modified by someone else. Reload it and try again.",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    // eslint-disable-next-line no-console
+    console.error("Error in PUT /api/catalog-badges/:id:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while updating the catalog badge",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,107 @@
+import type { APIRoute } from "astro";
+import { CatalogBadgeService } from "@/lib/catalog-badge.service";
+import { uuidParamSchema } from "@/lib/validation/catalog-badge.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError, InvalidStatusError } from "@/types";
+
+/**
+ * POST /api/catalog-badges/:id/archive
+ *
+ * Archives a catalog badge (catalog managers and admins). Unlike deactivation, archiving is
+ * permanent: the badge can no longer be applied for, edited or reactivated.
+ * Existing applications keep referencing it. Use GET /api/catalog-badges/:id/impact
+ * to list affected open applications and draft promotions before archiving.
+ *
+ * Path Parameters:
+ * - id: UUID of the catalog badge to archive
+ *
+ * @returns 200 OK with archived badge details
+ * @returns 400 Bad Request if badge ID is invalid UUID
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if the user may not manage the catalog
+ * @returns 404 Not Found if badge doesn't exist
+ * @returns 409 Conflict if badge is already archived
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  try {
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const validation = uuidParamSchema.safeParse({ id: context.params.id });
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid badge ID format",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { id } = validation.data;
+
+    const user = requireRequestUser(context.locals);
+
+    // =========================================================================
+    // Step 2: Archive Badge via Service
+    // =========================================================================
+    const service = new CatalogBadgeService(context.locals.supabase);
+    const badge = await service.archiveCatalogBadge(id, user.id);
+
+    if (!badge) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "Catalog badge not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Return Success Response
+    // =========================================================================
+    return new Response(JSON.stringify(badge), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Business Logic Errors
+    // =========================================================================
+    if (error instanceof Error && error.message === "BADGE_ALREADY_ARCHIVED") {
+      const conflictError: InvalidStatusError = {
+        error: "invalid_status",
+        message: "Badge is already archived",
+        current_status: "archived",
+      };
+      return new Response(JSON.stringify(conflictError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/catalog-badges/:id/archive:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while archiving the catalog badge",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,32 +1,23 @@
 import type { APIRoute } from "astro";
 import { CatalogBadgeService } from "@/lib/catalog-badge.service";
 import { uuidParamSchema } from "@/lib/validation/catalog-badge.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
 import type { ApiError, InvalidStatusError } from "@/types";
 
 /**
  * POST /api/catalog-badges/:id/deactivate
  *
- * Deactivates a catalog badge (admin only).
- *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication before production deployment
+ * Deactivates a catalog badge (catalog managers and admins).
  *
  * Path Parameters:
  * - id: UUID of the catalog badge to deactivate
  *
- * Development Mode Behavior:
- * - No authentication required
- * - Default user is admin (can deactivate badges)
- *
- * Production Authorization (when enabled):
- * - Admin users only can deactivate badges
- *
  * @returns 200 OK with deactivated badge details
  * @returns 400 Bad Request if badge ID is invalid UUID
- * @returns 401 Unauthorized if not authenticated (production)
- * @returns 403 Forbidden if not admin (production)
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if the user may not manage the catalog
  * @returns 404 Not Found if badge doesn't exist
- * @returns 409 Conflict if badge is already inactive
+ * @returns 409 Conflict if badge is already inactive or archived
  * @returns 500 Internal Server Error on unexpected errors
  */
 export const POST: APIRoute = async (context) => {
@@ -54,70 +45,10 @@ export const POST: APIRoute = async (context) => {
     const { id } = validation.data;
 
     // =========================================================================
-    // DEVELOPMENT MODE: Authentication Disabled
-    // =========================================================================
-    // TODO: Re-enable authentication before production deployment
-    // Authentication will be implemented later. For now, we skip auth checks
-    // and assume admin access for development purposes.
-
-    // =========================================================================
-    // PRODUCTION CODE (Currently Disabled)
-    // =========================================================================
-    // Uncomment the code below when authentication is ready:
-    /*
-    // Step 2: Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Step 3: Get User Info (Admin Status)
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "User not found",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Step 4: Authorization Check (Admin Only)
-    if (!userData.is_admin) {
-      const error: ApiError = {
-        error: "forbidden",
-        message: "Admin access required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 403,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-    */
-
-    // =========================================================================
-    // Step 5: Deactivate Badge via Service
+    // Step 2: Deactivate Badge via Service
     // =========================================================================
     const service = new CatalogBadgeService(context.locals.supabase);
-    const badge = await service.deactivateCatalogBadge(id);
+    const badge = await service.deactivateCatalogBadge(id, requireRequestUser(context.locals).id);
 
     // Handle not found
     if (!badge) {
@@ -132,7 +63,7 @@ export const POST: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 6: Return Success Response
+    // Step 3: Return Success Response
     // =========================================================================
     return new Response(JSON.stringify(badge), {
       status: 200,
@@ -158,6 +89,18 @@ export const POST: APIRoute = async (context) => {
       });
     }
 
+    if (error instanceof Error && error.message === "BADGE_ARCHIVED") {
+      const conflictError: InvalidStatusError = {
+        error: "invalid_status",
+        message: "Badge is archived",
+        current_status: "archived",
+      };
+      return new Response(JSON.stringify(conflictError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     // =========================================================================
     // Error Handling: Unexpected Errors
     // =========================================================================
@@ -0,0 +1,87 @@
+import type { APIRoute } from "astro";
+import { CatalogBadgeService } from "@/lib/catalog-badge.service";
+import { uuidParamSchema } from "@/lib/validation/catalog-badge.validation";
+import type { ApiError } from "@/types";
+
+/**
+ * GET /api/catalog-badges/:id/impact
+ *
+ * Impact report for deactivating or archiving a catalog badge (catalog managers and admins).
+ * Lists open applications (draft/submitted) for the badge and draft promotions
+ * that already include an application for it.
+ *
+ * Path Parameters:
+ * - id: UUID of the catalog badge
+ *
+ * @returns 200 OK with the impact report
+ * @returns 400 Bad Request if badge ID is invalid UUID
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if the user may not manage the catalog
+ * @returns 404 Not Found if badge doesn't exist
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  try {
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const validation = uuidParamSchema.safeParse({ id: context.params.id });
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid badge ID format",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { id } = validation.data;
+
+    // =========================================================================
+    // Step 2: Build Impact Report via Service
+    // =========================================================================
+    const service = new CatalogBadgeService(context.locals.supabase);
+    const impact = await service.getCatalogBadgeImpact(id);
+
+    if (!impact) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "Catalog badge not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Return Success Response
+    // =========================================================================
+    return new Response(JSON.stringify(impact), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/catalog-badges/:id/impact:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while building the badge impact report",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,81 @@
+import type { APIRoute } from "astro";
+import { CatalogBadgeService } from "@/lib/catalog-badge.service";
+import { uuidParamSchema } from "@/lib/validation/catalog-badge.validation";
+import type { ApiError } from "@/types";
+
+/**
+ * GET /api/catalog-badges/:id/versions
+ *
+ * Returns the version timeline of a catalog badge, newest first.
+ * The first entry is the current version; earlier entries come from the
+ * version history and are what older applications were filed against.
+ *
+ * Path Parameters:
+ * - id: Catalog badge UUID
+ *
+ * @returns 200 OK with an array of badge versions
+ * @returns 400 Bad Request if UUID is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 404 Not Found if badge doesn't exist
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  try {
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const validation = uuidParamSchema.safeParse({ id: context.params.id });
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid badge ID format",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Fetch Version Timeline
+    // =========================================================================
+    const service = new CatalogBadgeService(context.locals.supabase);
+    const versions = await service.listCatalogBadgeVersions(validation.data.id);
+
+    if (!versions) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "Catalog badge not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Return Success Response
+    // =========================================================================
+    return new Response(JSON.stringify(versions), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/catalog-badges/:id/versions:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while fetching badge versions",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,78 @@
+import type { APIRoute } from "astro";
+import { CatalogBadgeImportService } from "@/lib/catalog-badge-import.service";
+import { exportCatalogBadgesQuerySchema } from "@/lib/validation/catalog-badge.validation";
+import type { ApiError } from "@/types";
+
+/**
+ * GET /api/catalog-badges/export
+ *
+ * Exports the catalog as a CSV download (catalog managers and admins). The file uses the same
+ * columns as catalog_badges_samples.csv and can be fed back into
+ * POST /api/catalog-badges/import.
+ *
+ * Query Parameters:
+ * - status: Only export badges with this status (active, inactive, archived)
+ *
+ * @returns 200 OK with text/csv attachment
+ * @returns 400 Bad Request if query parameters are invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if the user may not manage the catalog
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  try {
+    // =========================================================================
+    // Step 1: Parse and Validate Query Parameters
+    // =========================================================================
+    const url = new URL(context.request.url);
+    const validation = exportCatalogBadgesQuerySchema.safeParse(Object.fromEntries(url.searchParams.entries()));
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid query parameters",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Build CSV via Service
+    // =========================================================================
+    const service = new CatalogBadgeImportService(context.locals.supabase);
+    const csv = await service.exportCatalogBadges(validation.data);
+
+    // =========================================================================
+    // Step 3: Return CSV Download
+    // =========================================================================
+    const filename = `catalog_badges_${new Date().toISOString().slice(0, 10)}.csv`;
+    return new Response(csv, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/catalog-badges/export:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while exporting catalog badges",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
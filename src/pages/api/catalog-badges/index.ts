@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
 import { CatalogBadgeService } from "@/lib/catalog-badge.service";
 import { listCatalogBadgesQuerySchema, createCatalogBadgeSchema } from "@/lib/validation/catalog-badge.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
 import type { ApiError } from "@/types";
 
 /**
@@ -8,89 +9,32 @@ import type { ApiError } from "@/types";
  *
  * Lists catalog badges with filtering, search, sorting, and pagination.
  *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication before production deployment
- *
  * Query Parameters:
  * - category: Filter by badge category (technical, organizational, softskilled)
  * - level: Filter by badge level (gold, silver, bronze)
  * - q: Full-text search on badge title (max 200 chars)
- * - status: Filter by status (active, inactive) - admin only (currently disabled in dev)
+ * - status: Filter by status (active, inactive) - admin only
  * - sort: Sort field (created_at, title) - default: created_at
  * - order: Sort order (asc, desc) - default: desc
  * - limit: Page size (1-100) - default: 20
  * - offset: Page offset (>= 0) - default: 0
  *
- * Development Mode Behavior:
- * - No authentication required
- * - Default user is non-admin (can only view active badges)
- * - To test admin features, change `isAdmin = true` in the code
- *
- * Production Authorization (when enabled):
+ * Authorization:
  * - Non-admin users: Can only view active badges
  * - Admin users: Can view all badges and filter by any status
  *
  * @returns 200 OK with paginated catalog badges
+ * @returns 401 Unauthorized if not authenticated
  * @returns 403 Forbidden if non-admin tries to use status filter
  * @returns 400 Bad Request if query parameters are invalid
  * @returns 500 Internal Server Error on unexpected errors
  */
 export const GET: APIRoute = async (context) => {
   try {
-    // =========================================================================
-    // DEVELOPMENT MODE: Authentication Disabled
-    // =========================================================================
-    // TODO: Re-enable authentication before production deployment
-    // Authentication will be implemented later. For now, we skip auth checks
-    // and use a default non-admin user for development purposes.
-
-    const isAdmin = false; // Default to non-admin user for development
+    const isAdmin = requireRequestUser(context.locals).access.isAdmin;
 
     // =========================================================================
-    // PRODUCTION CODE (Currently Disabled)
-    // =========================================================================
-    // Uncomment the code below when authentication is ready:
-    /*
-    // Step 1: Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Step 2: Get User Info (Admin Status)
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "User not found",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const isAdmin = userData.is_admin;
-    */
-
-    // =========================================================================
-    // Step 3: Parse and Validate Query Parameters
+    // Step 1: Parse and Validate Query Parameters
     // =========================================================================
     const url = new URL(context.request.url);
     const queryParams = Object.fromEntries(url.searchParams.entries());
@@ -115,7 +59,7 @@ export const GET: APIRoute = async (context) => {
     const query = validation.data;
 
     // =========================================================================
-    // Step 4: Authorization Check (Status Filter for Non-Admin)
+    // Step 2: Authorization Check (Status Filter for Non-Admin)
     // =========================================================================
     // In development mode, this check will prevent non-admin from filtering by status
     // In production, this works together with actual user authentication
@@ -131,13 +75,13 @@ export const GET: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 5: Execute Service Method
+    // Step 3: Execute Service Method
     // =========================================================================
     const service = new CatalogBadgeService(context.locals.supabase);
     const result = await service.listCatalogBadges(query, isAdmin);
 
     // =========================================================================
-    // Step 6: Return Successful Response
+    // Step 4: Return Successful Response
     // =========================================================================
     return new Response(JSON.stringify(result), {
       status: 200,
@@ -166,10 +110,7 @@ export const GET: APIRoute = async (context) => {
 /**
  * POST /api/catalog-badges
  *
- * Creates a new catalog badge (admin only).
- *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication and admin check before production deployment
+ * Creates a new catalog badge (catalog managers and admins).
  *
  * Request Body:
  * - title: Badge title (required, max 200 chars)
@@ -180,8 +121,8 @@ export const GET: APIRoute = async (context) => {
  *
  * @returns 201 Created with catalog badge details
  * @returns 400 Bad Request if validation fails
- * @returns 401 Unauthorized if not authenticated (production)
- * @returns 403 Forbidden if not admin (production)
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if the user may not manage the catalog
  * @returns 500 Internal Server Error on unexpected errors
  */
 export const POST: APIRoute = async (context) => {
@@ -224,78 +165,16 @@ export const POST: APIRoute = async (context) => {
     }
 
     const command = validation.data;
+    const createdBy = requireRequestUser(context.locals).id;
 
     // =========================================================================
-    // DEVELOPMENT MODE: Authentication Disabled
-    // =========================================================================
-    // TODO: Re-enable authentication before production deployment
-    // For now, use a default admin user ID for development
-
-    const createdBy = "550e8400-e29b-41d4-a716-446655440100"; // Default admin user from sample data
-
-    // =========================================================================
-    // PRODUCTION CODE (Currently Disabled)
-    // =========================================================================
-    // Uncomment the code below when authentication is ready:
-    /*
-    // Step 3: Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Step 4: Get User Info (Admin Status)
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("id, is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "User not found",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Step 5: Authorization Check (Admin Only)
-    if (!userData.is_admin) {
-      const error: ApiError = {
-        error: "forbidden",
-        message: "Admin access required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 403,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const createdBy = userData.id;
-    */
-
-    // =========================================================================
-    // Step 6: Create Badge via Service
+    // Step 3: Create Badge via Service
     // =========================================================================
     const service = new CatalogBadgeService(context.locals.supabase);
     const badge = await service.createCatalogBadge(command, createdBy);
 
     // =========================================================================
-    // Step 7: Return Success Response
+    // Step 4: Return Success Response
     // =========================================================================
     return new Response(JSON.stringify(badge), {
       status: 201,
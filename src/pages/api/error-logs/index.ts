@@ -0,0 +1,93 @@
+import type { APIRoute } from "astro";
+import { ErrorLogService } from "../../../lib/error-log.service";
+import { listErrorLogsQuerySchema } from "../../../lib/validation/error-log.validation";
+import { requireRequestUser } from "../../../lib/auth/route-guard";
+import type { ApiError } from "../../../types";
+import { logError } from "../../../lib/error-logger";
+
+/**
+ * GET /api/error-logs
+ *
+ * Lists server errors recorded by logError() with filtering and pagination (admin only).
+ * Every entry carries the request ID the middleware assigned to the failing request,
+ * which is also returned to clients in the X-Request-Id header and ApiError.request_id.
+ *
+ * Query Parameters:
+ * - route: Filter by route (case-insensitive substring, e.g. "promotions")
+ * - error_code: Filter by error code (e.g. "approve_failed")
+ * - request_id: Filter by request ID
+ * - from: Only entries created on or after this date (ISO timestamp or YYYY-MM-DD)
+ * - to: Only entries created on or before this date (ISO timestamp or YYYY-MM-DD)
+ * - order: Sort order by created_at (asc, desc) - default: desc
+ * - limit: Page size (1-100) - default: 50
+ * - offset: Page offset (>= 0) - default: 0
+ *
+ * @returns 200 OK with paginated error log entries
+ * @returns 400 Bad Request if query parameters are invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    // =========================================================================
+    // Step 1: Parse and Validate Query Parameters
+    // =========================================================================
+    const url = new URL(context.request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+
+    const validation = listErrorLogsQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid query parameters",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Execute Service Method
+    // =========================================================================
+    const service = new ErrorLogService(context.locals.supabase);
+    const result = await service.listErrorLogs(validation.data);
+
+    // =========================================================================
+    // Step 3: Return Successful Response
+    // =========================================================================
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    await logError(context.locals.supabase, {
+      route: "/api/error-logs",
+      error_code: "list_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while fetching error logs",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,144 @@
+import type { APIRoute } from "astro";
+import { HistoryImportService, MAX_HISTORY_IMPORT_ROWS } from "@/lib/history-import.service";
+import { importHistorySchema } from "@/lib/validation/history-import.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError } from "@/types";
+
+/**
+ * Client-facing messages for CSV structure errors raised by the import service
+ */
+const CSV_ERROR_MESSAGES: Record<string, string> = {
+  CSV_EMPTY: "CSV must contain a header row and at least one badge row",
+  CSV_MISSING_COLUMNS:
+    "CSV header must include the columns: applicant_email, date_of_application, reviewer_email and badge_id or badge_title",
+  CSV_TOO_MANY_ROWS: `CSV must contain at most ${MAX_HISTORY_IMPORT_ROWS} badge rows`,
+  CSV_UNTERMINATED_QUOTE: "CSV is malformed: a quoted field is never closed",
+};
+
+/**
+ * POST /api/history-import
+ *
+ * Backfills already-earned badges and approved promotions from CSV (admin only).
+ * Each row is one accepted badge; rows sharing a promotion_ref become one approved
+ * historical promotion whose badges are marked consumed.
+ *
+ * CSV Columns:
+ * - applicant_email, reviewer_email: Existing users (required)
+ * - badge_id or badge_title: Catalog badge (one required)
+ * - date_of_application (required), date_of_fulfillment, accepted_at, reason
+ * - promotion_ref, promotion_path, promotion_from_level, promotion_to_level,
+ *   promotion_approved_at, promotion_approver_email: Historical promotion (optional)
+ *
+ * Request Body:
+ * - csv: CSV document including the header row (required)
+ * - dry_run: Only validate and report (optional, default: true)
+ *
+ * Commit behaviour (dry_run: false):
+ * - Nothing is written while any row is invalid (report returned with 422)
+ * - Duplicates of existing accepted badges or earlier rows are skipped
+ * - Every created record is logged to the audit log as imported
+ *
+ * @returns 200 OK with the import report (dry run)
+ * @returns 201 Created with the import report (committed)
+ * @returns 400 Bad Request if the body or CSV structure is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 422 Unprocessable Entity with the report if rows are invalid on commit
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  try {
+    const user = requireRequestUser(context.locals);
+
+    // =========================================================================
+    // Step 1: Parse and Validate Request Body
+    // =========================================================================
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      const apiError: ApiError = {
+        error: "validation_error",
+        message: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const validation = importHistorySchema.safeParse(body);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Validation failed",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { csv, dry_run } = validation.data;
+
+    // =========================================================================
+    // Step 2: Validate (and Commit) via Service
+    // =========================================================================
+    const service = new HistoryImportService(context.locals.supabase);
+    const report = await service.importHistory(csv, { dryRun: dry_run, actorId: user.id });
+
+    // =========================================================================
+    // Step 3: Return Import Report
+    // =========================================================================
+    if (!dry_run && !report.committed && report.invalid_rows > 0) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: `${report.invalid_rows} row(s) failed validation; nothing was imported`,
+        details: { report },
+      };
+      return new Response(JSON.stringify(error), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(report), {
+      status: report.committed ? 201 : 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: CSV Structure Errors
+    // =========================================================================
+    if (error instanceof Error && CSV_ERROR_MESSAGES[error.message]) {
+      const apiError: ApiError = {
+        error: "validation_error",
+        message: CSV_ERROR_MESSAGES[error.message],
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/history-import:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while importing history",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
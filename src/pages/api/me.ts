@@ -1,31 +1,43 @@
+import type { APIRoute } from "astro";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError } from "@/types";
+
+export const prerender = false;
+
 /**
- * Current User Profile Endpoint
+ * GET /api/me
  *
- * Returns the authenticated user's profile information.
- * This is a placeholder implementation that will be replaced with actual
- * user profile retrieval when authentication backend is implemented.
+ * Returns the signed-in user's record.
  *
- * TODO: Implement user profile retrieval
- * - Authenticate user
- * - Fetch user data from database
- * - Return UserDto or 401
+ * @returns 200 OK with UserDto
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 500 Internal Server Error on unexpected errors
  */
+export const GET: APIRoute = async (context) => {
+  try {
+    const user = requireRequestUser(context.locals);
 
-export const prerender = false;
+    const { data, error } = await context.locals.supabase.from("users").select("*").eq("id", user.id).single();
 
-export async function GET(): Promise<Response> {
-  // TODO: Implement actual user profile retrieval
-  // For now, return 401 Unauthorized
-  return new Response(
-    JSON.stringify({
-      error: "unauthorized",
-      message: "Authentication required",
-    }),
-    {
-      status: 401,
-      headers: {
-        "Content-Type": "application/json",
-      },
+    if (error || !data) {
+      throw new Error(`Failed to fetch user: ${error?.message ?? "no row"}`);
     }
-  );
-}
+
+    return new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/me:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while fetching your profile",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
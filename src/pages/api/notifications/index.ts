@@ -0,0 +1,70 @@
+import type { APIRoute } from "astro";
+import { NotificationService } from "@/lib/notification.service";
+import { listNotificationsQuerySchema } from "@/lib/validation/notification.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError } from "@/types";
+
+/**
+ * GET /api/notifications
+ *
+ * Lists the current user's in-app notifications, newest first.
+ *
+ * Query Parameters:
+ * - unread_only: Only unread notifications ("true" / "false") - default: false
+ * - limit: Page size (1-50) - default: 20
+ * - offset: Page offset (>= 0) - default: 0
+ *
+ * @returns 200 OK with paginated notifications and the unread count
+ * @returns 400 Bad Request if query parameters are invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  try {
+    const user = requireRequestUser(context.locals);
+
+    // =========================================================================
+    // Step 1: Parse and Validate Query Parameters
+    // =========================================================================
+    const url = new URL(context.request.url);
+    const validation = listNotificationsQuerySchema.safeParse(Object.fromEntries(url.searchParams.entries()));
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid query parameters",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Fetch Notifications
+    // =========================================================================
+    const service = new NotificationService(context.locals.supabase);
+    const result = await service.listNotifications(user.id, validation.data);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/notifications:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while fetching notifications",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,118 @@
+import type { APIRoute } from "astro";
+import { NotificationService } from "@/lib/notification.service";
+import { updateNotificationPreferencesSchema } from "@/lib/validation/notification.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError } from "@/types";
+
+/**
+ * GET /api/notifications/preferences
+ *
+ * Returns the current user's notification preferences for every event type
+ * and channel. Combinations the user never changed are reported as enabled.
+ *
+ * @returns 200 OK with the preference list
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  try {
+    const user = requireRequestUser(context.locals);
+
+    const service = new NotificationService(context.locals.supabase);
+    const result = await service.getPreferences(user.id);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/notifications/preferences:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while fetching notification preferences",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * PUT /api/notifications/preferences
+ *
+ * Opts the current user in or out of notifications per event type and channel.
+ * Only the listed combinations change.
+ *
+ * Request Body:
+ * - preferences: Array of { event_type, channel ("in_app" | "email"), enabled }
+ *
+ * @returns 200 OK with the full preference list after the update
+ * @returns 400 Bad Request if the body is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const PUT: APIRoute = async (context) => {
+  try {
+    const user = requireRequestUser(context.locals);
+
+    // =========================================================================
+    // Step 1: Parse and Validate Request Body
+    // =========================================================================
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      const apiError: ApiError = {
+        error: "validation_error",
+        message: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const validation = updateNotificationPreferencesSchema.safeParse(body);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Validation failed",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Store Preferences
+    // =========================================================================
+    const service = new NotificationService(context.locals.supabase);
+    const result = await service.updatePreferences(user.id, validation.data.preferences);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in PUT /api/notifications/preferences:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while updating notification preferences",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,107 @@
+import type { APIRoute } from "astro";
+import { createServiceRoleClient } from "@/db/supabase.service-role";
+import { NotificationWorker } from "@/lib/notification-worker";
+import { createMailerFromEnv } from "@/lib/smtp-mailer";
+import { processNotificationsSchema } from "@/lib/validation/notification.validation";
+import type { ApiError } from "@/types";
+
+/**
+ * POST /api/notifications/process
+ *
+ * Runs the notification worker once: pending events from the outbox are turned
+ * into in-app notifications and emails. Intended to be called every minute by a
+ * scheduler with the worker secret; admins may also trigger it from a session.
+ *
+ * Authentication (checked by the route guard):
+ * - Authorization: Bearer <NOTIFICATION_WORKER_SECRET>, or
+ * - an admin session
+ *
+ * Request Body (optional):
+ * - limit: Maximum number of events to process (1-500) - default: 50
+ *
+ * @returns 200 OK with run counters
+ * @returns 400 Bad Request if the body is invalid
+ * @returns 401 Unauthorized if neither the secret nor a session is present
+ * @returns 403 Forbidden if the session user is not an admin
+ * @returns 503 Service Unavailable if SUPABASE_SERVICE_ROLE_KEY is not configured
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  try {
+    // =========================================================================
+    // Step 1: Parse and Validate Request Body (optional)
+    // =========================================================================
+    let body: unknown = {};
+    const text = await context.request.text();
+    if (text.trim()) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        const apiError: ApiError = {
+          error: "validation_error",
+          message: "Invalid JSON in request body",
+        };
+        return new Response(JSON.stringify(apiError), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    const validation = processNotificationsSchema.safeParse(body);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Validation failed",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Run the Worker with the Service Role Client
+    // =========================================================================
+    const serviceClient = createServiceRoleClient();
+    if (!serviceClient) {
+      const error: ApiError = {
+        error: "service_unavailable",
+        message: "Notification worker is not configured (SUPABASE_SERVICE_ROLE_KEY missing)",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 503,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const worker = new NotificationWorker(
+      serviceClient,
+      createMailerFromEnv(),
+      import.meta.env.APP_URL || new URL(context.request.url).origin
+    );
+    const result = await worker.processPendingEvents(validation.data.limit);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/notifications/process:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while processing notifications",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
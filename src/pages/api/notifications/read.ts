@@ -0,0 +1,84 @@
+import type { APIRoute } from "astro";
+import { NotificationService } from "@/lib/notification.service";
+import { markNotificationsReadSchema } from "@/lib/validation/notification.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError } from "@/types";
+
+/**
+ * POST /api/notifications/read
+ *
+ * Marks the current user's notifications as read.
+ *
+ * Request Body:
+ * - ids: Notification IDs (optional; when omitted all unread notifications are marked)
+ *
+ * @returns 200 OK with the number of notifications updated
+ * @returns 400 Bad Request if the body is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  try {
+    const user = requireRequestUser(context.locals);
+
+    // =========================================================================
+    // Step 1: Parse and Validate Request Body (an empty body marks everything)
+    // =========================================================================
+    let body: unknown = {};
+    const text = await context.request.text();
+    if (text.trim()) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        const apiError: ApiError = {
+          error: "validation_error",
+          message: "Invalid JSON in request body",
+        };
+        return new Response(JSON.stringify(apiError), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    const validation = markNotificationsReadSchema.safeParse(body);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Validation failed",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Mark as Read
+    // =========================================================================
+    const service = new NotificationService(context.locals.supabase);
+    const result = await service.markAsRead(user.id, validation.data.ids);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in POST /api/notifications/read:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while updating notifications",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,30 +1,35 @@
 import type { APIRoute } from "astro";
-import positionLevelsConfig from "@/config/position-levels.json";
+import { CareerLadderService } from "@/lib/career-ladder.service";
+import { careerLadderQuerySchema, createCareerLadderVersionSchema } from "@/lib/validation/career-ladder.validation";
+import { logError } from "@/lib/error-logger";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError } from "@/types";
 
 /**
  * GET /api/position-levels
  *
- * Returns position levels configuration used for promotion template validation
- * and level progression logic.
+ * Returns the career ladder (position levels) in force on a date, used for promotion
+ * template validation and level progression logic.
  *
- * This endpoint serves static configuration data bundled with the application.
- * No database queries are performed. The configuration is loaded at build time
- * and returned as-is.
+ * Admins record ladder versions with POST /api/position-levels; each takes effect at
+ * its effective_from. Until the first version is in force, the ladder bundled with the
+ * application (src/config/position-levels.json) is returned as version 0.
  *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication before production deployment
+ * Query Parameters:
+ * - date: ISO 8601 date or timestamp (optional, default: now)
  *
- * Development Mode Behavior:
- * - No authentication required
- * - All users can access position levels configuration
- *
- * Production Authorization (when enabled):
+ * Authorization:
  * - Available to all authenticated users (no role restrictions)
  * - Position levels are public reference data needed for career planning
  *
  * **Response Structure**:
  * ```json
  * {
+ *   "version": 3,
+ *   "effective_from": "2025-12-01T00:00:00+00:00",
+ *   "note": "New S3 requirements",
+ *   "created_by": "...",
+ *   "created_at": "...",
  *   "positions": {
  *     "technical": { "J1": { "next_level": "J2", "required_badges": {...} } },
  *     "financial": { "J1": { "next_level": "J2", "required_badges": {...} } },
@@ -33,13 +38,14 @@ import positionLevelsConfig from "@/config/position-levels.json";
  * }
  * ```
  *
- * **Success Response**: 200 OK with position levels configuration
+ * **Success Response**: 200 OK with CareerLadderVersionDto
  *
  * **Error Responses**:
- * - 401 Unauthorized: Not authenticated (production only, currently disabled)
- * - 500 Internal Server Error: Configuration load failed (deployment issue)
+ * - 400 Bad Request: Invalid date
+ * - 401 Unauthorized: Not authenticated
+ * - 500 Internal Server Error: Ladder could not be loaded
  *
- * @returns Complete position levels configuration
+ * @returns Career ladder version in force
  *
  * @example
  * ```typescript
@@ -50,71 +56,44 @@ import positionLevelsConfig from "@/config/position-levels.json";
  * // Access technical path levels
  * const technicalLevels = positions.technical;
  * console.log(technicalLevels.J1.next_level); // "J2"
+ *
+ * // Ladder in force at the start of the year
+ * await fetch('/api/position-levels?date=2025-01-01');
  * ```
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export const GET: APIRoute = async (_context) => {
+export const GET: APIRoute = async (context) => {
   try {
     // =========================================================================
-    // DEVELOPMENT MODE: Authentication Disabled
-    // =========================================================================
-    // TODO: Re-enable authentication before production deployment
-    // Authentication will be implemented later. For now, we skip auth checks.
-    //
-    // PRODUCTION CODE (Currently Disabled):
-    // if (import.meta.env.PROD) {
-    //   const {
-    //     data: { user },
-    //     error,
-    //   } = await _context.locals.supabase.auth.getUser();
-    //
-    //   if (error || !user) {
-    //     console.warn(
-    //       "Unauthorized access attempt to /api/position-levels:",
-    //       error?.message || "No user session"
-    //     );
-    //
-    //     return new Response(
-    //       JSON.stringify({
-    //         error: "unauthorized",
-    //         message: "Authentication required",
-    //       }),
-    //       {
-    //         status: 401,
-    //         headers: { "Content-Type": "application/json" },
-    //       }
-    //     );
-    //   }
-    // }
-
-    // =========================================================================
-    // Validate Configuration
+    // Validate Query Parameters
     // =========================================================================
-    // Ensure configuration exists and is well-formed
-    // This should never fail in production as config is bundled at build time,
-    // but we check defensively for deployment issues
-    if (!positionLevelsConfig || !positionLevelsConfig.positions) {
-      // eslint-disable-next-line no-console
-      console.error("Position levels configuration is missing or invalid:", positionLevelsConfig);
+    const url = new URL(context.request.url);
+    const validation = careerLadderQuerySchema.safeParse({
+      date: url.searchParams.get("date") ?? undefined,
+    });
 
-      return new Response(
-        JSON.stringify({
-          error: "internal_error",
-          message: "Failed to load position levels configuration",
-        }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid query parameters",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
     }
 
     // =========================================================================
-    // Return Configuration
+    // Return Ladder in Force
     // =========================================================================
-    // Return static configuration bundled at build time
-    // No file I/O or database queries required
-    return new Response(JSON.stringify(positionLevelsConfig), {
+    // Falls back to the configuration bundled at build time without a version in force
+    const service = new CareerLadderService(context.locals.supabase);
+    const ladder = await service.getLadder(validation.data.date ? new Date(validation.data.date) : undefined);
+
+    return new Response(JSON.stringify(ladder), {
       status: 200,
       headers: {
         "Content-Type": "application/json",
@@ -146,6 +125,96 @@ export const GET: APIRoute = async (_context) => {
   }
 };
 
+/**
+ * POST /api/position-levels
+ *
+ * Records a new career ladder version (admin only). Versions are append-only; to
+ * correct a ladder, record another version.
+ *
+ * Request Body:
+ * - positions: Levels per career path, same shape as the GET response (required).
+ *   Every path must be one complete next_level chain: a single entry level, every
+ *   next_level an existing level of the path, no cycles and no unreachable levels.
+ * - effective_from: ISO timestamp the version takes effect at (optional, default: now;
+ *   future dates schedule the change)
+ * - note: Reason for the change (optional)
+ *
+ * @returns 201 Created with CareerLadderVersionDto
+ * @returns 400 Bad Request if the body or the ladder is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Validate Request Body
+    // =========================================================================
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const validation = createCareerLadderVersionSchema.safeParse(body);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid career ladder",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Create Version
+    // =========================================================================
+    const service = new CareerLadderService(context.locals.supabase);
+    const version = await service.createVersion(validation.data, user.id);
+
+    return new Response(JSON.stringify(version), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/position-levels",
+      error_code: "career_ladder_create_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while saving the career ladder",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
 // Disable prerendering for this API route
 // Ensures dynamic behavior (e.g., authentication checks) works correctly
 export const prerender = false;
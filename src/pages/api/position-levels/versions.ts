@@ -0,0 +1,51 @@
+import type { APIRoute } from "astro";
+import { CareerLadderService } from "@/lib/career-ladder.service";
+import { logError } from "@/lib/error-logger";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError } from "@/types";
+
+/**
+ * GET /api/position-levels/versions
+ *
+ * Lists every recorded career ladder version, newest first, including versions
+ * scheduled for a future date (admin only). Used by the career ladder editor.
+ *
+ * @returns 200 OK with CareerLadderVersionDto[]
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    // =========================================================================
+    // Step 1: Fetch Versions
+    // =========================================================================
+    const service = new CareerLadderService(context.locals.supabase);
+    const versions = await service.listVersions();
+
+    return new Response(JSON.stringify(versions), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/position-levels/versions",
+      error_code: "career_ladder_versions_fetch_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while fetching career ladder versions",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,5 +1,6 @@
 import type { APIRoute } from "astro";
 import { PromotionTemplateService } from "../../../lib/promotion-template.service";
+import { requireRequestUser } from "../../../lib/auth/route-guard";
 import type { ApiError } from "../../../types";
 import { z } from "zod";
 import {
@@ -35,28 +36,7 @@ const uuidParamSchema = z.object({
 export const GET: APIRoute = async (context) => {
   try {
     // =========================================================================
-    // Step 1: Authentication Check
-    // =========================================================================
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Note: No admin check needed - all authenticated users can view templates
-
-    // =========================================================================
-    // Step 2: Validate Path Parameter
+    // Step 1: Validate Path Parameter
     // =========================================================================
     const validation = uuidParamSchema.safeParse(context.params);
 
@@ -78,13 +58,13 @@ export const GET: APIRoute = async (context) => {
     const { id } = validation.data;
 
     // =========================================================================
-    // Step 3: Fetch Template from Service
+    // Step 2: Fetch Template from Service
     // =========================================================================
     const service = new PromotionTemplateService(context.locals.supabase);
     const template = await service.getPromotionTemplateById(id);
 
     // =========================================================================
-    // Step 4: Handle Not Found
+    // Step 3: Handle Not Found
     // =========================================================================
     if (!template) {
       const error: ApiError = {
@@ -98,7 +78,7 @@ export const GET: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 5: Return Successful Response
+    // Step 4: Return Successful Response
     // =========================================================================
     return new Response(JSON.stringify(template), {
       status: 200,
@@ -127,22 +107,23 @@ export const GET: APIRoute = async (context) => {
 /**
  * PUT /api/promotion-templates/:id
  *
- * Updates an existing promotion template (admin only).
+ * Updates an existing promotion template (catalog managers and admins).
  * Cannot change path, from_level, or to_level (immutable after creation).
- * Requires authentication and admin privileges.
+ * Requires authentication and the template management permission.
  *
  * Path Parameters:
  * - id: Promotion template UUID (required)
  *
  * Authorization:
  * - User must be authenticated
- * - User must have admin role (is_admin = true)
+ * - User must be an admin or catalog manager
  *
  * @returns 200 OK with updated template
  * @returns 400 Bad Request if validation fails
  * @returns 401 Unauthorized if not authenticated
- * @returns 403 Forbidden if not admin
+ * @returns 403 Forbidden if the user may not manage templates
  * @returns 404 Not Found if template doesn't exist
+ * @returns 409 Conflict if the template was edited concurrently
  * @returns 500 Internal Server Error on unexpected errors
  */
 export const PUT: APIRoute = async (context) => {
@@ -162,61 +143,10 @@ export const PUT: APIRoute = async (context) => {
 
     const { id } = idValidation.data;
 
-    // =========================================================================
-    // Step 2: Authentication Check
-    // =========================================================================
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
+    const user = requireRequestUser(context.locals);
 
     // =========================================================================
-    // Step 3: Get User Info (Admin Status)
-    // =========================================================================
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "User not found",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // =========================================================================
-    // Step 4: Authorization Check (Admin Only)
-    // =========================================================================
-    if (!userData.is_admin) {
-      const error: ApiError = {
-        error: "forbidden",
-        message: "Admin access required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 403,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // =========================================================================
-    // Step 5: Parse and Validate Request Body
+    // Step 2: Parse and Validate Request Body
     // =========================================================================
 
     // Parse JSON body
@@ -240,7 +170,7 @@ export const PUT: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 6: Update Template via Service
+    // Step 3: Update Template via Service
     // =========================================================================
     const service = new PromotionTemplateService(context.locals.supabase);
 
@@ -252,7 +182,7 @@ export const PUT: APIRoute = async (context) => {
       );
 
       // =========================================================================
-      // Step 7: Return Success Response
+      // Step 4: Return Success Response
       // =========================================================================
       return new Response(JSON.stringify(updated), { status: 200, headers: { "Content-Type": "application/json" } });
     } catch (serviceError) {
@@ -267,6 +197,12 @@ export const PUT: APIRoute = async (context) => {
         return new Response(JSON.stringify(err), { status: 404, headers: { "Content-Type": "application/json" } });
       }
 
+      // Handle concurrent edits (another version was written since the template was read)
+      if (code === "conflict") {
+        const err: ApiError = { error: "conflict", message: (serviceError as Error).message };
+        return new Response(JSON.stringify(err), { status: 409, headers: { "Content-Type": "application/json" } });
+      }
+
       // Handle validation errors
       if (code === "validation") {
         const err: ApiError = { error: "validation_error", message: (serviceError as Error).message };
@@ -296,21 +232,12 @@ export const PUT: APIRoute = async (context) => {
     console.error("Error in PUT /api/promotion-templates/:id:", error);
 
     try {
-      // Note: user might not be available if error occurred during authentication
-      const userId = (() => {
-        try {
-          return (context.locals as { user?: { id: string } }).user?.id ?? null;
-        } catch {
-          return null;
-        }
-      })();
-
       await logError(context.locals.supabase, {
         route: "/api/promotion-templates/:id",
         error_code: "internal_error",
         message: (error as Error).message,
         payload: null,
-        requester_id: userId,
+        requester_id: context.locals.user?.id ?? null,
       });
     } catch {
       // Ignore logging errors
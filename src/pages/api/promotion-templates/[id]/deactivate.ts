@@ -1,5 +1,6 @@
 import type { APIRoute } from "astro";
 import { PromotionTemplateService } from "@/lib/promotion-template.service";
+import { requireRequestUser } from "@/lib/auth/route-guard";
 import type { ApiError, InvalidStatusError } from "@/types";
 import { z } from "zod";
 
@@ -11,22 +12,22 @@ const uuidParamSchema = z.object({
 /**
  * POST /api/promotion-templates/:id/deactivate
  *
- * Deactivates a promotion template (admin only).
+ * Deactivates a promotion template (catalog managers and admins).
  * Sets is_active = false while preserving template history.
  * Existing promotions using this template remain valid.
- * Requires authentication and admin privileges.
+ * Requires authentication and the template management permission.
  *
  * Path Parameters:
  * - id: UUID of the promotion template to deactivate
  *
  * Authorization:
  * - User must be authenticated
- * - User must have admin role (is_admin = true)
+ * - User must be an admin or catalog manager
  *
  * @returns 200 OK with deactivated template details
  * @returns 400 Bad Request if template ID is invalid UUID
  * @returns 401 Unauthorized if not authenticated
- * @returns 403 Forbidden if not admin
+ * @returns 403 Forbidden if the user may not manage templates
  * @returns 404 Not Found if template doesn't exist
  * @returns 409 Conflict if template is already inactive
  * @returns 500 Internal Server Error on unexpected errors
@@ -55,67 +56,16 @@ export const POST: APIRoute = async (context) => {
 
     const { id } = validation.data;
 
-    // =========================================================================
-    // Step 2: Authentication Check
-    // =========================================================================
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // =========================================================================
-    // Step 3: Get User Info (Admin Status)
-    // =========================================================================
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "User not found",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // =========================================================================
-    // Step 4: Authorization Check (Admin Only)
-    // =========================================================================
-    if (!userData.is_admin) {
-      const error: ApiError = {
-        error: "forbidden",
-        message: "Admin access required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 403,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
+    const user = requireRequestUser(context.locals);
 
     // =========================================================================
-    // Step 5: Deactivate Template via Service
+    // Step 2: Deactivate Template via Service
     // =========================================================================
     const service = new PromotionTemplateService(context.locals.supabase);
-    const template = await service.deactivatePromotionTemplate(id);
+    const template = await service.deactivatePromotionTemplate(id, user.id);
 
     // =========================================================================
-    // Step 6: Return Success Response
+    // Step 3: Return Success Response
     // =========================================================================
     return new Response(JSON.stringify(template), {
       status: 200,
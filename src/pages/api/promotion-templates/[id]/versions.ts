@@ -0,0 +1,87 @@
+import type { APIRoute } from "astro";
+import { PromotionTemplateService } from "@/lib/promotion-template.service";
+import type { ApiError } from "@/types";
+import { z } from "zod";
+
+// UUID validation schema
+const uuidParamSchema = z.object({
+  id: z.string().uuid("Invalid template ID format"),
+});
+
+/**
+ * GET /api/promotion-templates/:id/versions
+ *
+ * Returns the version timeline of a promotion template, newest first.
+ * The first entry is the current version; earlier entries come from the
+ * version history. Each entry counts the promotions created against it,
+ * which are validated and approved with that version's rules.
+ *
+ * Path Parameters:
+ * - id: Promotion template UUID
+ *
+ * @returns 200 OK with an array of template versions
+ * @returns 400 Bad Request if UUID is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 404 Not Found if template doesn't exist
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  try {
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const validation = uuidParamSchema.safeParse({ id: context.params.id });
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid template ID format",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Fetch Version Timeline
+    // =========================================================================
+    const service = new PromotionTemplateService(context.locals.supabase);
+    const versions = await service.listTemplateVersions(validation.data.id);
+
+    if (!versions) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "Promotion template not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Return Success Response
+    // =========================================================================
+    return new Response(JSON.stringify(versions), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/promotion-templates/:id/versions:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while fetching template versions",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,56 @@
+import type { APIRoute } from "astro";
+import { TemplateSyncService } from "../../../lib/template-sync.service";
+import { requireRequestUser } from "../../../lib/auth/route-guard";
+import type { ApiError } from "../../../types";
+import { logError } from "../../../lib/error-logger";
+
+/**
+ * GET /api/promotion-templates/consistency
+ *
+ * Checks the active promotion templates against the career ladder in force
+ * (GET /api/position-levels). Flags templates whose path or levels don't exist
+ * in the ladder, whose to_level isn't the ladder's next level and whose rules differ
+ * from the ladder's requirements.
+ *
+ * Authorization:
+ * - Catalog managers and admins (template management permission)
+ *
+ * @returns 200 OK with TemplateConsistencyReportDto
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if the user may not manage templates
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    // =========================================================================
+    // Step 1: Check Templates via Service
+    // =========================================================================
+    const service = new TemplateSyncService(context.locals.supabase);
+    const report = await service.checkConsistency();
+
+    return new Response(JSON.stringify(report), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/promotion-templates/consistency",
+      error_code: "template_consistency_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while checking promotion templates",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
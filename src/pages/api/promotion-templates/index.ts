@@ -4,6 +4,7 @@ import {
   listPromotionTemplatesQuerySchema,
   createPromotionTemplateSchema,
 } from "../../../lib/validation/promotion-template.validation";
+import { requireRequestUser } from "../../../lib/auth/route-guard";
 import type { ApiError } from "../../../types";
 import { logError } from "../../../lib/error-logger";
 
@@ -35,28 +36,7 @@ import { logError } from "../../../lib/error-logger";
 export const GET: APIRoute = async (context) => {
   try {
     // =========================================================================
-    // Step 1: Authentication Check
-    // =========================================================================
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Note: No admin check needed - all authenticated users can view templates
-
-    // =========================================================================
-    // Step 2: Parse and Validate Query Parameters
+    // Step 1: Parse and Validate Query Parameters
     // =========================================================================
     const url = new URL(context.request.url);
     const queryParams = Object.fromEntries(url.searchParams.entries());
@@ -81,13 +61,13 @@ export const GET: APIRoute = async (context) => {
     const query = validation.data;
 
     // =========================================================================
-    // Step 3: Execute Service Method
+    // Step 2: Execute Service Method
     // =========================================================================
     const service = new PromotionTemplateService(context.locals.supabase);
     const result = await service.listPromotionTemplates(query);
 
     // =========================================================================
-    // Step 4: Return Successful Response
+    // Step 3: Return Successful Response
     // =========================================================================
     return new Response(JSON.stringify(result), {
       status: 200,
@@ -116,73 +96,22 @@ export const GET: APIRoute = async (context) => {
 /**
  * POST /api/promotion-templates
  *
- * Creates a new promotion template (admin only).
- * Requires authentication and admin privileges.
+ * Creates a new promotion template (catalog managers and admins).
+ * Requires authentication and the template management permission.
  *
  * @returns 201 Created with new promotion template
  * @returns 401 Unauthorized if not authenticated
- * @returns 403 Forbidden if not admin
+ * @returns 403 Forbidden if the user may not manage templates
  * @returns 400 Bad Request if validation fails
  * @returns 409 Conflict if template already exists
  * @returns 500 Internal Server Error on unexpected errors
  */
 export const POST: APIRoute = async (context) => {
   try {
-    // =========================================================================
-    // Step 1: Authentication Check
-    // =========================================================================
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
+    const user = requireRequestUser(context.locals);
 
     // =========================================================================
-    // Step 2: Get User Info (Admin Status)
-    // =========================================================================
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError || !userData) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "User not found",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // =========================================================================
-    // Step 3: Authorization Check (Admin Only)
-    // =========================================================================
-    if (!userData.is_admin) {
-      const error: ApiError = {
-        error: "forbidden",
-        message: "Admin access required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 403,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // =========================================================================
-    // Step 4: Parse Request Body
+    // Step 1: Parse Request Body
     // =========================================================================
     let body: unknown;
     try {
@@ -199,7 +128,7 @@ export const POST: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 5: Validate Request Body
+    // Step 2: Validate Request Body
     // =========================================================================
     const validation = createPromotionTemplateSchema.safeParse(body);
     if (!validation.success) {
@@ -214,7 +143,7 @@ export const POST: APIRoute = async (context) => {
     const command = validation.data;
 
     // =========================================================================
-    // Step 6: Execute Service Method
+    // Step 3: Execute Service Method
     // =========================================================================
     const service = new PromotionTemplateService(context.locals.supabase);
     try {
@@ -224,7 +153,7 @@ export const POST: APIRoute = async (context) => {
       );
 
       // =========================================================================
-      // Step 7: Return Success Response
+      // Step 4: Return Success Response
       // =========================================================================
       return new Response(JSON.stringify(created), { status: 201, headers: { "Content-Type": "application/json" } });
     } catch (err) {
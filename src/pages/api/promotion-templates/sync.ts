@@ -0,0 +1,99 @@
+import type { APIRoute } from "astro";
+import { TemplateSyncService } from "../../../lib/template-sync.service";
+import { syncPromotionTemplatesSchema } from "../../../lib/validation/promotion-template.validation";
+import { requireRequestUser } from "../../../lib/auth/route-guard";
+import type { ApiError } from "../../../types";
+import { logError } from "../../../lib/error-logger";
+
+/**
+ * POST /api/promotion-templates/sync
+ *
+ * Syncs promotion templates from the career ladder in force (GET /api/position-levels).
+ * Every ladder level with a next level gets one active template with the ladder's
+ * rules: missing templates are created, differing ones updated (or reactivated) and
+ * templates the ladder doesn't describe deactivated.
+ *
+ * Request Body (optional):
+ * - dry_run: Only return the planned changes (default: true)
+ *
+ * Authorization:
+ * - Catalog managers and admins (template management permission)
+ *
+ * @returns 200 OK with TemplateSyncResultDto (planned changes, applied unless dry_run)
+ * @returns 400 Bad Request if the body is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if the user may not manage templates
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Parse and Validate Request Body
+    // =========================================================================
+    let body: unknown = {};
+    const rawBody = await context.request.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        const error: ApiError = {
+          error: "validation_error",
+          message: "Invalid JSON in request body",
+        };
+        return new Response(JSON.stringify(error), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    const validation = syncPromotionTemplatesSchema.safeParse(body);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Validation failed",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Plan (and Apply) via Service
+    // =========================================================================
+    const service = new TemplateSyncService(context.locals.supabase);
+    const result = await service.syncFromLadder({ dryRun: validation.data.dry_run, actorId: user.id });
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/promotion-templates/sync",
+      error_code: "template_sync_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while syncing promotion templates",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
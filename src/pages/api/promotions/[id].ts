@@ -1,7 +1,11 @@
 import type { APIRoute } from "astro";
 import { PromotionService } from "@/lib/promotion.service";
 import { promotionIdParamSchema } from "@/lib/validation/promotion.validation";
+import { TeamService } from "@/lib/team.service";
+import { hasPermission } from "@/lib/auth/permissions";
+import { requireRequestUser } from "@/lib/auth/route-guard";
 import type { ApiError } from "@/types";
+import { Permission } from "@/types";
 
 /**
  * GET /api/promotions/:id
@@ -9,78 +13,30 @@ import type { ApiError } from "@/types";
  * Retrieves a single promotion with full details including template,
  * badge applications with catalog badges, and creator information.
  *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication before production deployment
- *
  * Path Parameters:
  * - id: Promotion UUID (required)
  *
- * Development Mode Behavior:
- * - No authentication required
- * - All promotions visible (behaves as admin)
- *
- * Production Authorization (when enabled):
+ * Authorization:
  * - Authenticated users can view their own promotions
- * - Admin users can view all promotions
+ * - Admins and approvers can view other users' promotions, managers their reports'
+ *   (RLS keeps drafts private to their creator and admins)
  * - Returns 404 for unauthorized access (security - don't reveal existence)
  *
  * @returns 200 OK with promotion details
  * @returns 400 Bad Request if UUID format is invalid
- * @returns 401 Unauthorized if not authenticated (when auth enabled)
+ * @returns 401 Unauthorized if not authenticated
  * @returns 404 Not Found if promotion doesn't exist or user not authorized
  * @returns 500 Internal Server Error on unexpected errors
  */
 export const GET: APIRoute = async (context) => {
   try {
-    // =========================================================================
-    // DEVELOPMENT MODE: Authentication Disabled
-    // =========================================================================
-    // TODO: Re-enable authentication before production deployment
-    // Authentication will be implemented later. For now, we skip auth checks.
-
-    // =========================================================================
-    // PRODUCTION CODE (Currently Disabled)
-    // =========================================================================
-    // Uncomment the code below when authentication is ready:
-    /*
-    // Step 1: Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Step 2: Check Admin Status
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError) {
-      throw new Error(`Failed to fetch user data: ${userError.message}`);
-    }
-
-    const isAdmin = userData?.is_admin || false;
-    const userId = user.id;
-    */
-
-    // Development mode: Set defaults
-    const isAdmin = true; // In dev, behave as admin to see all data
-    const userId = undefined; // No filtering in dev mode
+    const { id: userId, access } = requireRequestUser(context.locals);
+    const mayReadOthers =
+      hasPermission(access, Permission.ApprovePromotions) ||
+      (await new TeamService(context.locals.supabase).getReportIds(userId)).length > 0;
 
     // =========================================================================
-    // Step 3: Validate Path Parameter
+    // Step 1: Validate Path Parameter
     // =========================================================================
     const validation = promotionIdParamSchema.safeParse(context.params);
 
@@ -102,13 +58,13 @@ export const GET: APIRoute = async (context) => {
     const { id } = validation.data;
 
     // =========================================================================
-    // Step 4: Fetch Promotion from Service
+    // Step 2: Fetch Promotion from Service
     // =========================================================================
     const service = new PromotionService(context.locals.supabase);
-    const promotion = await service.getPromotionById(id, userId, isAdmin);
+    const promotion = await service.getPromotionById(id, userId, mayReadOthers);
 
     // =========================================================================
-    // Step 5: Handle Not Found or Unauthorized
+    // Step 3: Handle Not Found or Unauthorized
     // =========================================================================
     // Note: Return 404 for both not found and unauthorized to avoid
     // information leakage (don't reveal existence of promotions user can't access)
@@ -124,7 +80,7 @@ export const GET: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 6: Return Successful Response
+    // Step 4: Return Successful Response
     // =========================================================================
     return new Response(JSON.stringify(promotion), {
       status: 200,
@@ -157,23 +113,16 @@ export const GET: APIRoute = async (context) => {
  * their own draft promotions. Deletion cascades to promotion_badges, unlocking
  * all badge applications that were reserved for this promotion.
  *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication before production deployment
- *
  * Path Parameters:
  * - id: UUID of promotion to delete (required)
  *
- * Development Mode Behavior:
- * - No authentication required
- * - Uses first available user ID from database
- *
- * Production Authorization (when enabled):
+ * Authorization:
  * - Only promotion creator can delete
  * - Only draft promotions can be deleted
  *
  * @returns 200 OK with success message
  * @returns 400 Bad Request if invalid UUID
- * @returns 401 Unauthorized if not authenticated (when auth enabled)
+ * @returns 401 Unauthorized if not authenticated
  * @returns 403 Forbidden if not owner or not draft status
  * @returns 404 Not Found if promotion doesn't exist
  * @returns 500 Internal Server Error on unexpected errors
@@ -202,67 +151,16 @@ export const DELETE: APIRoute = async (context) => {
 
     const { id: promotionId } = paramsValidation.data;
 
-    // =========================================================================
-    // DEVELOPMENT MODE: Authentication Disabled
-    // =========================================================================
-    // TODO: Re-enable authentication before production deployment
-    // Authentication will be implemented later. For now, we use a test user ID.
-
-    // =========================================================================
-    // PRODUCTION CODE (Currently Disabled)
-    // =========================================================================
-    // Uncomment the code below when authentication is ready:
-    /*
-    // Step 2: Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const userId = user.id;
-    */
-
-    // Development mode: Use test user ID
-    // TODO: Replace with actual user ID from auth session
-    // For now, fetch first user from database for testing
-    const { data: testUser, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("id")
-      .limit(1)
-      .single();
-
-    if (userError || !testUser) {
-      const error: ApiError = {
-        error: "internal_error",
-        message: "Test user not found. Please ensure sample data is imported.",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const userId = testUser.id;
+    const userId = requireRequestUser(context.locals).id;
 
     // =========================================================================
-    // Step 3: Delete Promotion via Service
+    // Step 2: Delete Promotion via Service
     // =========================================================================
     const service = new PromotionService(context.locals.supabase);
     await service.deletePromotion(promotionId, userId);
 
     // =========================================================================
-    // Step 4: Return Success Response
+    // Step 3: Return Success Response
     // =========================================================================
     return new Response(JSON.stringify({ message: "Promotion deleted successfully" }), {
       status: 200,
@@ -0,0 +1,178 @@
+/**
+ * POST /api/promotions/:id/auto-fill
+ *
+ * Fills a promotion draft with the smallest set of the owner's accepted, unreserved
+ * badge applications that satisfies every template rule, preferring lower levels and
+ * older badges. Badges already in the draft are kept, replaced or removed as needed.
+ *
+ * Request:
+ *   - Path Parameter: id (UUID) - Promotion ID
+ *   - Body (optional): { dry_run?: boolean } - only return the selection (default: false)
+ *   - Authentication: Required (promotion owner)
+ *
+ * Response (200 OK):
+ *   - PromotionAutoFillResponse: selected, added and removed badge applications, the
+ *     badges counting toward each rule and what is still missing
+ *
+ * Error Responses:
+ *   - 400 Bad Request: Invalid promotion ID format or request body
+ *   - 401 Unauthorized: Not authenticated
+ *   - 403 Forbidden: Not the owner or promotion not in draft status
+ *   - 404 Not Found: Promotion not found
+ *   - 409 Conflict: A selected badge was reserved by another promotion meanwhile
+ *   - 500 Internal Server Error: Database or unexpected error
+ */
+
+import type { APIRoute } from "astro";
+import { PromotionService, PromotionTransitionError } from "@/lib/promotion.service";
+import { logError } from "@/lib/error-logger";
+import { autoFillPromotionSchema, promotionIdParamSchema } from "@/lib/validation/promotion.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError, InvalidStatusError, ReservationConflictError } from "@/types";
+
+export const POST: APIRoute = async (context) => {
+  const user = requireRequestUser(context.locals);
+
+  // ===================================================================
+  // Step 1: Validate Promotion ID and Request Body
+  // ===================================================================
+  const validation = promotionIdParamSchema.safeParse({ id: context.params.id });
+
+  if (!validation.success) {
+    const error: ApiError = {
+      error: "validation_error",
+      message: validation.error.issues[0]?.message || "Invalid promotion ID format",
+    };
+    return new Response(JSON.stringify(error), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const promotionId = validation.data.id;
+
+  let body: unknown = {};
+  const rawBody = await context.request.text();
+  if (rawBody.trim()) {
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Request body must be valid JSON",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  const bodyValidation = autoFillPromotionSchema.safeParse(body);
+
+  if (!bodyValidation.success) {
+    const error: ApiError = {
+      error: "validation_error",
+      message: "Invalid request body",
+      details: bodyValidation.error.issues.map((err) => ({
+        field: err.path.join("."),
+        message: err.message,
+      })),
+    };
+    return new Response(JSON.stringify(error), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  // ===================================================================
+  // Step 2: Auto-fill via Service
+  // ===================================================================
+  try {
+    const service = new PromotionService(context.locals.supabase);
+    const result = await service.autoFillPromotion(promotionId, bodyValidation.data, user.id);
+
+    // ===================================================================
+    // Step 3: Return Success Response
+    // ===================================================================
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // ===================================================================
+    // Step 4: Handle Transition Errors
+    // ===================================================================
+    if (error instanceof PromotionTransitionError) {
+      // Not found (404)
+      if (error.code === "promotion_not_found") {
+        const apiError: ApiError = {
+          error: "not_found",
+          message: "Promotion not found",
+        };
+        return new Response(JSON.stringify(apiError), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // Forbidden - not the owner (403)
+      if (error.code === "not_authorized") {
+        const apiError: ApiError = {
+          error: "forbidden",
+          message: "You do not have permission to modify this promotion",
+        };
+        return new Response(JSON.stringify(apiError), {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // Promotion not in draft status (403, same as badge changes)
+      if (error.code === "invalid_status") {
+        const invalidStatusError: InvalidStatusError = {
+          error: "forbidden",
+          message: "Only draft promotions can be modified",
+          current_status: error.details.current_status ?? "unknown",
+        };
+        return new Response(JSON.stringify(invalidStatusError), {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // Badge reserved by another promotion in the meantime (409)
+      if (error.code === "badge_already_reserved") {
+        const conflictError: ReservationConflictError = {
+          error: "reservation_conflict",
+          message: "Badge application is already assigned to another promotion",
+          conflict_type: "badge_already_reserved",
+          badge_application_id: error.details.badge_application_id ?? "unknown",
+          owning_promotion_id: error.details.owning_promotion_id ?? "unknown",
+        };
+        return new Response(JSON.stringify(conflictError), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // Unexpected error (500)
+    await logError(context.locals.supabase, {
+      route: "/api/promotions/:id/auto-fill",
+      error_code: "auto_fill_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { promotion_id: promotionId },
+      requester_id: user.id,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while filling the promotion",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
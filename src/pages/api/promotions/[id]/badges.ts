@@ -1,10 +1,12 @@
 import type { APIRoute } from "astro";
-import { PromotionService } from "@/lib/promotion.service";
+import { PromotionService, PromotionTransitionError } from "@/lib/promotion.service";
 import { UUID_REGEX } from "@/lib/validation/uuid";
+import { requireRequestUser } from "@/lib/auth/route-guard";
 import type {
   ApiError,
   AddPromotionBadgesCommand,
   RemovePromotionBadgesCommand,
+  InvalidStatusError,
   ReservationConflictError,
 } from "@/types";
 import { z } from "zod";
@@ -31,9 +33,6 @@ const removePromotionBadgesSchema = z.object({
  * Adds accepted badge applications to a promotion draft, creating reservations.
  * Implements optimistic concurrency control via unique database constraint.
  *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication before production deployment
- *
  * Path Parameters:
  * - id: UUID of promotion (required)
  *
@@ -46,17 +45,13 @@ const removePromotionBadgesSchema = z.object({
  * - Each badge application must exist and have status = 'accepted'
  * - Badge applications cannot be reserved by another promotion
  *
- * Development Mode Behavior:
- * - No authentication required
- * - Uses hardcoded test user ID
- *
- * Production Authorization (when enabled):
+ * Authorization:
  * - User can only add badges to their own promotions
  * - Promotion must be in draft status
  *
  * @returns 200 OK with success message and badge count
  * @returns 400 Bad Request if validation fails or badges invalid
- * @returns 401 Unauthorized if not authenticated (when auth enabled)
+ * @returns 401 Unauthorized if not authenticated
  * @returns 403 Forbidden if not owner or promotion not draft
  * @returns 404 Not Found if promotion doesn't exist
  * @returns 409 Conflict if badge already reserved
@@ -94,61 +89,10 @@ export const POST: APIRoute = async (context) => {
       });
     }
 
-    // =========================================================================
-    // DEVELOPMENT MODE: Authentication Disabled
-    // =========================================================================
-    // TODO: Re-enable authentication before production deployment
-    // Authentication will be implemented later. For now, we use a test user ID.
-
-    // =========================================================================
-    // PRODUCTION CODE (Currently Disabled)
-    // =========================================================================
-    // Uncomment the code below when authentication is ready:
-    /*
-    // Step 2: Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const userId = user.id;
-    */
-
-    // Development mode: Use test user ID
-    // TODO: Replace with actual user ID from auth session
-    // For now, fetch first user from database for testing
-    const { data: testUser, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("id")
-      .limit(1)
-      .single();
-
-    if (userError || !testUser) {
-      const error: ApiError = {
-        error: "internal_error",
-        message: "Test user not found. Please ensure sample data is imported.",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const userId = testUser.id;
+    const userId = requireRequestUser(context.locals).id;
 
     // =========================================================================
-    // Step 3: Parse and Validate Request Body
+    // Step 2: Parse and Validate Request Body
     // =========================================================================
     let requestBody: unknown;
     try {
@@ -184,13 +128,13 @@ export const POST: APIRoute = async (context) => {
     const command: AddPromotionBadgesCommand = validation.data;
 
     // =========================================================================
-    // Step 4: Add Badges via Service
+    // Step 3: Add Badges via Service
     // =========================================================================
     const service = new PromotionService(context.locals.supabase);
     const result = await service.addBadgesToPromotion(promotionId, command, userId);
 
     // =========================================================================
-    // Step 5: Return Success Response
+    // Step 4: Return Success Response
     // =========================================================================
     const response = {
       ...result,
@@ -209,10 +153,10 @@ export const POST: APIRoute = async (context) => {
     // eslint-disable-next-line no-console
     console.error("Error in POST /api/promotions/:id/badges:", error);
 
-    // Handle specific error types
-    if (error instanceof Error) {
+    // Handle transition errors
+    if (error instanceof PromotionTransitionError) {
       // Promotion not found
-      if (error.message.includes("Promotion not found")) {
+      if (error.code === "promotion_not_found") {
         const apiError: ApiError = {
           error: "not_found",
           message: "Promotion not found",
@@ -224,7 +168,7 @@ export const POST: APIRoute = async (context) => {
       }
 
       // User doesn't own promotion
-      if (error.message.includes("does not own")) {
+      if (error.code === "not_authorized") {
         const apiError: ApiError = {
           error: "forbidden",
           message: "You do not have permission to modify this promotion",
@@ -236,21 +180,21 @@ export const POST: APIRoute = async (context) => {
       }
 
       // Promotion not in draft status
-      if (error.message.includes("not in draft status")) {
-        const apiError: ApiError = {
+      if (error.code === "invalid_status") {
+        const invalidStatusError: InvalidStatusError = {
           error: "forbidden",
           message: "Only draft promotions can be modified",
+          current_status: error.details.current_status ?? "unknown",
         };
-        return new Response(JSON.stringify(apiError), {
+        return new Response(JSON.stringify(invalidStatusError), {
           status: 403,
           headers: { "Content-Type": "application/json" },
         });
       }
 
       // Badge application not found
-      if (error.message.includes("Badge application not found")) {
-        const badgeIdMatch = error.message.match(/[0-9a-f-]{36}/);
-        const badgeId = badgeIdMatch ? badgeIdMatch[0] : "unknown";
+      if (error.code === "badge_not_found") {
+        const badgeId = error.details.badge_application_id ?? "unknown";
 
         const apiError: ApiError = {
           error: "invalid_badge_application",
@@ -264,9 +208,8 @@ export const POST: APIRoute = async (context) => {
       }
 
       // Badge application not accepted
-      if (error.message.includes("not accepted")) {
-        const badgeIdMatch = error.message.match(/[0-9a-f-]{36}/);
-        const badgeId = badgeIdMatch ? badgeIdMatch[0] : "unknown";
+      if (error.code === "badge_not_accepted") {
+        const badgeId = error.details.badge_application_id ?? "unknown";
 
         const apiError: ApiError = {
           error: "invalid_badge_application",
@@ -280,18 +223,13 @@ export const POST: APIRoute = async (context) => {
       }
 
       // Badge already reserved (conflict)
-      if (error.message.includes("already reserved")) {
-        // Extract badge ID and owning promotion ID from error message
-        const matches = error.message.match(/[0-9a-f-]{36}/g);
-        const badgeId = matches?.[0] || "unknown";
-        const owningPromotionId = matches?.[1] || "unknown";
-
+      if (error.code === "badge_already_reserved") {
         const conflictError: ReservationConflictError = {
           error: "reservation_conflict",
           message: "Badge application is already assigned to another promotion",
           conflict_type: "badge_already_reserved",
-          badge_application_id: badgeId,
-          owning_promotion_id: owningPromotionId,
+          badge_application_id: error.details.badge_application_id ?? "unknown",
+          owning_promotion_id: error.details.owning_promotion_id ?? "unknown",
         };
         return new Response(JSON.stringify(conflictError), {
           status: 409,
@@ -317,9 +255,6 @@ export const POST: APIRoute = async (context) => {
  *
  * Removes badge applications from a promotion draft and releases reservations.
  *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication before production deployment
- *
  * Path Parameters:
  * - id: UUID of promotion (required)
  *
@@ -331,17 +266,13 @@ export const POST: APIRoute = async (context) => {
  * - Promotion must be in 'draft' status
  * - Each badge application must be currently assigned to this promotion
  *
- * Development Mode Behavior:
- * - No authentication required
- * - Uses hardcoded test user ID
- *
- * Production Authorization (when enabled):
+ * Authorization:
  * - User can only remove badges from their own promotions
  * - Promotion must be in draft status
  *
  * @returns 200 OK with success message
  * @returns 400 Bad Request if validation fails
- * @returns 401 Unauthorized if not authenticated (when auth enabled)
+ * @returns 401 Unauthorized if not authenticated
  * @returns 403 Forbidden if not owner or promotion not draft
  * @returns 404 Not Found if promotion doesn't exist or badge not in promotion
  * @returns 500 Internal Server Error on unexpected errors
@@ -379,61 +310,10 @@ export const DELETE: APIRoute = async (context) => {
       });
     }
 
-    // =========================================================================
-    // DEVELOPMENT MODE: Authentication Disabled
-    // =========================================================================
-    // TODO: Re-enable authentication before production deployment
-    // Authentication will be implemented later. For now, we use a test user ID.
+    const userId = requireRequestUser(context.locals).id;
 
     // =========================================================================
-    // PRODUCTION CODE (Currently Disabled)
-    // =========================================================================
-    // Uncomment the code below when authentication is ready:
-    /*
-    // Step 2: Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const userId = user.id;
-    */
-
-    // Development mode: Use test user ID
-    // TODO: Replace with actual user ID from auth session
-    // For now, fetch first user from database for testing
-    const { data: testUser, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("id")
-      .limit(1)
-      .single();
-
-    if (userError || !testUser) {
-      const error: ApiError = {
-        error: "internal_error",
-        message: "Test user not found. Please ensure sample data is imported.",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const userId = testUser.id;
-
-    // =========================================================================
-    // Step 3: Parse and Validate Request Body
+    // Step 2: Parse and Validate Request Body
     // =========================================================================
     let requestBody: unknown;
     try {
@@ -469,13 +349,13 @@ export const DELETE: APIRoute = async (context) => {
     const command: RemovePromotionBadgesCommand = validation.data;
 
     // =========================================================================
-    // Step 4: Remove Badges via Service
+    // Step 3: Remove Badges via Service
     // =========================================================================
     const service = new PromotionService(context.locals.supabase);
     const result = await service.removeBadgesFromPromotion(promotionId, command, userId);
 
     // =========================================================================
-    // Step 5: Return Success Response
+    // Step 4: Return Success Response
     // =========================================================================
     const response = {
       message: `${result.removed_count} badge(s) removed successfully`,
@@ -493,10 +373,10 @@ export const DELETE: APIRoute = async (context) => {
     // eslint-disable-next-line no-console
     console.error("Error in DELETE /api/promotions/:id/badges:", error);
 
-    // Handle specific error types
-    if (error instanceof Error) {
+    // Handle transition errors
+    if (error instanceof PromotionTransitionError) {
       // Promotion not found
-      if (error.message.includes("Promotion not found")) {
+      if (error.code === "promotion_not_found") {
         const apiError: ApiError = {
           error: "not_found",
           message: "Promotion not found",
@@ -508,7 +388,7 @@ export const DELETE: APIRoute = async (context) => {
       }
 
       // User doesn't own promotion
-      if (error.message.includes("does not own")) {
+      if (error.code === "not_authorized") {
         const apiError: ApiError = {
           error: "forbidden",
           message: "You do not have permission to modify this promotion",
@@ -520,21 +400,21 @@ export const DELETE: APIRoute = async (context) => {
       }
 
       // Promotion not in draft status
-      if (error.message.includes("not in draft status")) {
-        const apiError: ApiError = {
+      if (error.code === "invalid_status") {
+        const invalidStatusError: InvalidStatusError = {
           error: "forbidden",
           message: "Only draft promotions can be modified",
+          current_status: error.details.current_status ?? "unknown",
         };
-        return new Response(JSON.stringify(apiError), {
+        return new Response(JSON.stringify(invalidStatusError), {
           status: 403,
           headers: { "Content-Type": "application/json" },
         });
       }
 
       // Badge not in promotion
-      if (error.message.includes("not in promotion")) {
-        const badgeIdMatch = error.message.match(/[0-9a-f-]{36}/);
-        const badgeId = badgeIdMatch ? badgeIdMatch[0] : "unknown";
+      if (error.code === "badge_not_in_promotion") {
+        const badgeId = error.details.badge_application_id ?? "unknown";
 
         const apiError: ApiError = {
           error: "not_found",
@@ -1,13 +1,13 @@
 /**
  * POST /api/promotions/:id/reject
  *
- * Rejects a submitted promotion (admin only)
+ * Rejects a submitted promotion (promotion approvers and admins)
  * Unlocks badge reservations and reverts badge statuses
  *
  * Request:
  *   - Path Parameter: id (UUID) - Promotion ID
  *   - Body: { reject_reason: string } (required, max 2000 chars)
- *   - Authentication: Required (admin only)
+ *   - Authentication: Required (promotion approvers and admins)
  *
  * Response (200 OK):
  *   - Full promotion record with status='rejected' and rejection metadata
@@ -15,20 +15,18 @@
  * Error Responses:
  *   - 400 Bad Request: Invalid promotion ID or reject reason
  *   - 401 Unauthorized: Not authenticated
- *   - 403 Forbidden: User is not admin
+ *   - 403 Forbidden: User may not approve promotions, or created this one
  *   - 404 Not Found: Promotion not found
  *   - 409 Conflict: Promotion not in submitted status
  *   - 500 Internal Server Error: Database or unexpected error
- *
- * NOTE: Authentication is currently disabled for development.
- *       Using test admin user ID: 550e8400-e29b-41d4-a716-446655440100 (admin@goodcompany.com)
  */
 
 import type { APIRoute } from "astro";
-import { PromotionService } from "@/lib/promotion.service";
+import { PromotionService, PromotionTransitionError } from "@/lib/promotion.service";
 import { logError } from "@/lib/error-logger";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { InvalidStatusError, RejectPromotionCommand } from "@/types";
 import { z } from "zod";
-import type { RejectPromotionCommand } from "@/types";
 
 // =============================================================================
 // Validation Schemas
@@ -61,22 +59,11 @@ const rejectBodySchema = z.object({
 /**
  * POST /api/promotions/:id/reject
  *
- * Rejects a submitted promotion (admin only)
+ * Rejects a submitted promotion (promotion approvers and admins)
  * Transitions status to rejected and unlocks all badge reservations
  */
 export const POST: APIRoute = async (context) => {
-  // ===================================================================
-  // Development Mode: Use test admin user credentials
-  // ===================================================================
-  // TODO: Replace with actual authentication when enabled
-  // In production: Extract from context.locals.user and check is_admin
-  const adminUserId = "550e8400-e29b-41d4-a716-446655440100"; // Test admin user (admin@goodcompany.com)
-
-  // TODO: In production, check admin status here:
-  // const { data: { user }, error: authError } = await context.locals.supabase.auth.getUser();
-  // if (authError || !user) return 401;
-  // const { data: userData } = await context.locals.supabase.from('users').select('is_admin').eq('id', user.id).single();
-  // if (!userData?.is_admin) return 403;
+  const approverId = requireRequestUser(context.locals).id;
 
   // ===================================================================
   // Step 1: Validate Promotion ID Format
@@ -141,7 +128,7 @@ export const POST: APIRoute = async (context) => {
   // ===================================================================
   try {
     const promotionService = new PromotionService(context.locals.supabase);
-    const result = await promotionService.rejectPromotion(promotionId, adminUserId, command.reject_reason);
+    const result = await promotionService.rejectPromotion(promotionId, approverId, command.reject_reason);
 
     // ===================================================================
     // Step 4: Return Success Response
@@ -152,54 +139,51 @@ export const POST: APIRoute = async (context) => {
     });
   } catch (error) {
     // ===================================================================
-    // Step 5: Handle Errors Based on Error Message
+    // Step 5: Handle Transition Errors
     // ===================================================================
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
 
-    // Not found (404)
-    if (errorMessage.includes("not found")) {
-      return new Response(
-        JSON.stringify({
-          error: "not_found",
-          message: "Promotion not found",
-        }),
-        {
-          status: 404,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
+    if (error instanceof PromotionTransitionError) {
+      // Not found (404)
+      if (error.code === "promotion_not_found") {
+        return new Response(
+          JSON.stringify({
+            error: "not_found",
+            message: "Promotion not found",
+          }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
 
-    // Invalid status - not submitted (409)
-    if (errorMessage.includes("Current status")) {
-      const statusMatch = errorMessage.match(/Current status: (\w+)/);
-      const currentStatus = statusMatch ? statusMatch[1] : "unknown";
+      // Forbidden - may not reject promotions, or not their own (403)
+      if (error.code === "not_authorized" || error.code === "own_promotion") {
+        return new Response(
+          JSON.stringify({
+            error: "forbidden",
+            message: error.message,
+          }),
+          {
+            status: 403,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
 
-      return new Response(
-        JSON.stringify({
+      // Invalid status - not submitted or already processed (409)
+      if (error.code === "invalid_status") {
+        const invalidStatusError: InvalidStatusError = {
           error: "invalid_status",
           message: "Only submitted promotions can be rejected",
-          current_status: currentStatus,
-        }),
-        {
-          status: 409,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
-
-    // Race condition - promotion already processed (409)
-    if (errorMessage.includes("already processed")) {
-      return new Response(
-        JSON.stringify({
-          error: "conflict",
-          message: "Promotion has already been processed",
-        }),
-        {
+          current_status: error.details.current_status ?? "unknown",
+        };
+        return new Response(JSON.stringify(invalidStatusError), {
           status: 409,
           headers: { "Content-Type": "application/json" },
-        }
-      );
+        });
+      }
     }
 
     // Unexpected error (500)
@@ -214,11 +198,11 @@ export const POST: APIRoute = async (context) => {
         message: errorMessage,
         payload: {
           promotion_id: promotionId,
-          admin_user_id: adminUserId,
+          approver_id: approverId,
           reject_reason: command.reject_reason,
           error_details: error instanceof Error ? error.stack : String(error),
         },
-        requester_id: adminUserId,
+        requester_id: approverId,
       });
     } catch (logErr) {
       // Best-effort logging, don't fail if logging fails
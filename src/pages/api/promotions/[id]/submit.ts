@@ -15,12 +15,14 @@
  *   - 400 Bad Request: Invalid promotion ID format
  *   - 403 Forbidden: User is not promotion creator
  *   - 404 Not Found: Promotion not found
- *   - 409 Conflict: Promotion not in draft status OR validation failed
+ *   - 409 Conflict: Promotion not in draft status, validation failed OR a badge is no longer accepted
  *   - 500 Internal Server Error: Database or unexpected error
  */
 
 import type { APIRoute } from "astro";
-import { PromotionService } from "@/lib/promotion.service";
+import { PromotionService, PromotionTransitionError } from "@/lib/promotion.service";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError, InvalidStatusError } from "@/types";
 import { z } from "zod";
 
 // =============================================================================
@@ -45,12 +47,7 @@ const promotionIdSchema = z.object({
  * Submits a draft promotion for admin review after validating template compliance
  */
 export const POST: APIRoute = async (context) => {
-  // ===================================================================
-  // Development Mode: Use test user credentials
-  // ===================================================================
-  // TODO: Replace with actual authentication when enabled
-  // In production: Extract from context.locals.user
-  const userId = "550e8400-e29b-41d4-a716-446655440100"; // Test user
+  const userId = requireRequestUser(context.locals).id;
 
   // ===================================================================
   // Step 1: Validate Promotion ID Format
@@ -89,54 +86,64 @@ export const POST: APIRoute = async (context) => {
     });
   } catch (error) {
     // ===================================================================
-    // Step 4: Handle Errors Based on Error Message
+    // Step 4: Handle Errors
     // ===================================================================
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
 
-    // Not found (404)
-    if (errorMessage.includes("not found")) {
-      return new Response(
-        JSON.stringify({
-          error: "not_found",
-          message: "Promotion not found",
-        }),
-        {
-          status: 404,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
-
-    // Forbidden - not creator (403)
-    if (errorMessage.includes("permission")) {
-      return new Response(
-        JSON.stringify({
-          error: "forbidden",
-          message: errorMessage,
-        }),
-        {
-          status: 403,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
+    if (error instanceof PromotionTransitionError) {
+      // Not found (404)
+      if (error.code === "promotion_not_found") {
+        return new Response(
+          JSON.stringify({
+            error: "not_found",
+            message: "Promotion not found",
+          }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
 
-    // Invalid status - not draft (409)
-    if (errorMessage.includes("draft") && errorMessage.includes("Current status")) {
-      const statusMatch = errorMessage.match(/Current status: (\w+)/);
-      const currentStatus = statusMatch ? statusMatch[1] : "unknown";
+      // Forbidden - not creator (403)
+      if (error.code === "not_authorized") {
+        return new Response(
+          JSON.stringify({
+            error: "forbidden",
+            message: error.message,
+          }),
+          {
+            status: 403,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
 
-      return new Response(
-        JSON.stringify({
+      // Invalid status - not draft (409)
+      if (error.code === "invalid_status") {
+        const invalidStatusError: InvalidStatusError = {
           error: "invalid_status",
           message: "Only draft promotions can be submitted",
-          current_status: currentStatus,
-        }),
-        {
+          current_status: error.details.current_status ?? "unknown",
+        };
+        return new Response(JSON.stringify(invalidStatusError), {
           status: 409,
           headers: { "Content-Type": "application/json" },
-        }
-      );
+        });
+      }
+
+      // A reserved badge is no longer accepted (409)
+      if (error.code === "badge_not_accepted") {
+        const apiError: ApiError = {
+          error: "invalid_badge_application",
+          message: `Badge application ${error.details.badge_application_id} is no longer in accepted status`,
+          details: { badge_application_id: error.details.badge_application_id },
+        };
+        return new Response(JSON.stringify(apiError), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
     }
 
     // Validation failed (409)
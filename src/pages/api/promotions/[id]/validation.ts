@@ -21,6 +21,10 @@
 
 import type { APIRoute } from "astro";
 import { PromotionService } from "@/lib/promotion.service";
+import { TeamService } from "@/lib/team.service";
+import { hasPermission } from "@/lib/auth/permissions";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import { Permission } from "@/types";
 import { z } from "zod";
 
 // =============================================================================
@@ -45,13 +49,11 @@ const promotionIdSchema = z.object({
  * Validates promotion against template requirements and returns eligibility status
  */
 export const GET: APIRoute = async (context) => {
-  // ===================================================================
-  // Development Mode: Use test user credentials
-  // ===================================================================
-  // TODO: Replace with actual authentication when enabled
-  // In production: Extract from context.locals.user
-  const userId = "550e8400-e29b-41d4-a716-446655440100"; // Test user
-  const isAdmin = false;
+  // Approvers and managers may check other users' promotions (within RLS limits)
+  const { id: userId, access } = requireRequestUser(context.locals);
+  const mayReadOthers =
+    hasPermission(access, Permission.ApprovePromotions) ||
+    (await new TeamService(context.locals.supabase).getReportIds(userId)).length > 0;
 
   // ===================================================================
   // Step 1: Validate Promotion ID Format
@@ -79,7 +81,7 @@ export const GET: APIRoute = async (context) => {
   // ===================================================================
   try {
     const promotionService = new PromotionService(context.locals.supabase);
-    const result = await promotionService.validatePromotion(promotionId, userId, isAdmin);
+    const result = await promotionService.validatePromotion(promotionId, userId, mayReadOthers);
 
     // Handle promotion not found or forbidden (403/404)
     // Service returns null if promotion doesn't exist or user not authorized
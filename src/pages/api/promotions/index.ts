@@ -2,6 +2,8 @@ import type { APIRoute } from "astro";
 import { PromotionService } from "@/lib/promotion.service";
 import { listPromotionsQuerySchema } from "@/lib/validation/promotion.validation";
 import { UUID_REGEX } from "@/lib/validation/uuid";
+import { TeamService } from "@/lib/team.service";
+import { requireRequestUser } from "@/lib/auth/route-guard";
 import type { ApiError, CreatePromotionCommand } from "@/types";
 import { z } from "zod";
 
@@ -12,12 +14,9 @@ import { z } from "zod";
  * Non-admin users see only their own promotions.
  * Admin users can see all promotions and filter by user.
  *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication before production deployment
- *
  * Query Parameters:
  * - status: Filter by promotion status (optional)
- * - created_by: Filter by creator ID - admin only (optional)
+ * - created_by: Filter by creator ID - admins, or managers for their reports (optional)
  * - path: Filter by career path (optional)
  * - template_id: Filter by template (optional)
  * - sort: Sort field - created_at or submitted_at (default: created_at)
@@ -25,71 +24,27 @@ import { z } from "zod";
  * - limit: Page size (default: 20, max: 100)
  * - offset: Page offset (default: 0)
  *
- * Development Mode Behavior:
- * - No authentication required
- * - No admin check performed
- * - All promotions visible (behaves as admin)
- *
- * Production Authorization (when enabled):
+ * Authorization:
  * - Authenticated users see only their own promotions
+ * - Managers also see their reports' promotions and may filter by a report
  * - Admin users can see all and filter by user
  *
  * @returns 200 OK with paginated promotions
  * @returns 400 Bad Request if query parameters are invalid
- * @returns 401 Unauthorized if not authenticated (when auth enabled)
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if a non-admin filters by a user who is not one of their reports
  * @returns 500 Internal Server Error on unexpected errors
  */
 export const GET: APIRoute = async (context) => {
   try {
-    // =========================================================================
-    // DEVELOPMENT MODE: Authentication Disabled
-    // =========================================================================
-    // TODO: Re-enable authentication before production deployment
-    // For now, we skip auth checks and return all promotions
+    const { id: userId, access } = requireRequestUser(context.locals);
+    const isAdmin = access.isAdmin;
 
-    // =========================================================================
-    // PRODUCTION CODE (Currently Disabled)
-    // =========================================================================
-    // Uncomment the code below when authentication is ready:
-    /*
-    // Step 1: Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Step 2: Check Admin Status
-    const { data: userData, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("is_admin")
-      .eq("id", user.id)
-      .single();
-
-    if (userError) {
-      throw new Error(`Failed to fetch user data: ${userError.message}`);
-    }
-
-    const isAdmin = userData?.is_admin || false;
-    const userId = user.id;
-    */
-
-    // Development mode: Set defaults
-    const isAdmin = true; // In dev, behave as admin to see all data
-    const userId = undefined; // No filtering in dev mode
+    // Managers also see their direct and indirect reports' promotions
+    const reportIds = isAdmin ? [] : await new TeamService(context.locals.supabase).getReportIds(userId);
 
     // =========================================================================
-    // Step 3: Validate Query Parameters
+    // Step 1: Validate Query Parameters
     // =========================================================================
     const url = new URL(context.request.url);
     const queryParams = Object.fromEntries(url.searchParams.entries());
@@ -114,13 +69,27 @@ export const GET: APIRoute = async (context) => {
     const query = validation.data;
 
     // =========================================================================
-    // Step 4: Fetch Promotions from Service
+    // Step 2: Authorization Check (created_by Filter for Non-Admin)
+    // =========================================================================
+    if (query.created_by && !isAdmin && query.created_by !== userId && !reportIds.includes(query.created_by)) {
+      const error: ApiError = {
+        error: "forbidden",
+        message: "Only admins and managers of the user can filter by created_by",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Fetch Promotions from Service
     // =========================================================================
     const service = new PromotionService(context.locals.supabase);
-    const result = await service.listPromotions(query, userId, isAdmin);
+    const result = await service.listPromotions(query, userId, isAdmin, reportIds);
 
     // =========================================================================
-    // Step 5: Return Successful Response
+    // Step 4: Return Successful Response
     // =========================================================================
     return new Response(JSON.stringify(result), {
       status: 200,
@@ -160,83 +129,26 @@ const createPromotionSchema = z.object({
  * Creates a new promotion in draft status based on a promotion template.
  * Associates the promotion with the authenticated user as creator.
  *
- * ⚠️  DEVELOPMENT MODE: Authentication is currently DISABLED
- * TODO: Re-enable authentication before production deployment
- *
  * Request Body:
  * - template_id: UUID of promotion template (required)
  *
- * Development Mode Behavior:
- * - No authentication required
- * - Uses first available user ID from database
- *
- * Production Authorization (when enabled):
+ * Authorization:
  * - Authenticated users can create promotions for themselves
  * - created_by is forced to current user ID (cannot be overridden)
  *
  * @returns 201 Created with promotion object
  * @returns 400 Bad Request if validation fails
- * @returns 401 Unauthorized if not authenticated (when auth enabled)
+ * @returns 401 Unauthorized if not authenticated
  * @returns 404 Not Found if template doesn't exist or is inactive
+ * @returns 409 Conflict if the template doesn't start at the user's current path and level
  * @returns 500 Internal Server Error on unexpected errors
  */
 export const POST: APIRoute = async (context) => {
   try {
-    // =========================================================================
-    // DEVELOPMENT MODE: Authentication Disabled
-    // =========================================================================
-    // TODO: Re-enable authentication before production deployment
-    // Authentication will be implemented later. For now, we use a test user ID.
+    const userId = requireRequestUser(context.locals).id;
 
     // =========================================================================
-    // PRODUCTION CODE (Currently Disabled)
-    // =========================================================================
-    // Uncomment the code below when authentication is ready:
-    /*
-    // Step 1: Authentication Check
-    const {
-      data: { user },
-      error: authError,
-    } = await context.locals.supabase.auth.getUser();
-
-    if (authError || !user) {
-      const error: ApiError = {
-        error: "unauthorized",
-        message: "Authentication required",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const userId = user.id;
-    */
-
-    // Development mode: Use test user ID
-    // TODO: Replace with actual user ID from auth session
-    // For now, fetch first user from database for testing
-    const { data: testUser, error: userError } = await context.locals.supabase
-      .from("users")
-      .select("id")
-      .limit(1)
-      .single();
-
-    if (userError || !testUser) {
-      const error: ApiError = {
-        error: "internal_error",
-        message: "Test user not found. Please ensure sample data is imported.",
-      };
-      return new Response(JSON.stringify(error), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const userId = testUser.id;
-
-    // =========================================================================
-    // Step 2: Parse and Validate Request Body
+    // Step 1: Parse and Validate Request Body
     // =========================================================================
     let requestBody: unknown;
     try {
@@ -289,13 +201,13 @@ export const POST: APIRoute = async (context) => {
     }
 
     // =========================================================================
-    // Step 3: Create Promotion via Service
+    // Step 2: Create Promotion via Service
     // =========================================================================
     const service = new PromotionService(context.locals.supabase);
     const promotion = await service.createPromotion(command, userId);
 
     // =========================================================================
-    // Step 4: Return Success Response
+    // Step 3: Return Success Response
     // =========================================================================
     return new Response(JSON.stringify(promotion), {
       status: 201,
@@ -323,6 +235,18 @@ export const POST: APIRoute = async (context) => {
       });
     }
 
+    // Handle template starting at another path or level than the user's current position
+    if (error instanceof Error && error.message.includes("Template not available for current position")) {
+      const apiError: ApiError = {
+        error: "position_mismatch",
+        message: "This template does not start at your current career level",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     // Return generic error to client (don't expose internal details)
     const apiError: ApiError = {
       error: "internal_error",
@@ -0,0 +1,44 @@
+import type { APIRoute } from "astro";
+import { TeamService } from "@/lib/team.service";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import type { ApiError } from "@/types";
+
+/**
+ * GET /api/team
+ *
+ * Lists the current user's direct and indirect reports with their progress toward
+ * the next position level ("My team" dashboard). Deactivated reports are left out;
+ * users without reports get an empty list.
+ *
+ * @returns 200 OK with { data: TeamMemberProgressDto[] }
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  try {
+    const user = requireRequestUser(context.locals);
+
+    // =========================================================================
+    // Step 1: Summarize Team Progress
+    // =========================================================================
+    const service = new TeamService(context.locals.supabase);
+    const members = await service.getTeamProgress(user.id);
+
+    return new Response(JSON.stringify({ data: members }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error in GET /api/team:", error);
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while fetching your team",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
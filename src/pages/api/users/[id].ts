@@ -0,0 +1,156 @@
+import type { APIRoute } from "astro";
+import { UserService } from "../../../lib/user.service";
+import { updateUserSchema, userIdParamSchema } from "../../../lib/validation/user.validation";
+import { requireRequestUser } from "../../../lib/auth/route-guard";
+import type { ApiError } from "../../../types";
+import { logError } from "../../../lib/error-logger";
+
+/**
+ * PATCH /api/users/:id
+ *
+ * Grants or revokes admin rights (admin only). Admins cannot change their own
+ * admin flag, so the installation always keeps at least one admin.
+ *
+ * Path Parameters:
+ * - id: UUID of the user
+ *
+ * Request Body:
+ * - is_admin: New admin flag (boolean)
+ *
+ * @returns 200 OK with the updated user
+ * @returns 400 Bad Request if the ID or body is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 404 Not Found if the user doesn't exist
+ * @returns 409 Conflict if the admin targets themselves or the account is deactivated
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const PATCH: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter and Request Body
+    // =========================================================================
+    const paramValidation = userIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid user ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const bodyValidation = updateUserSchema.safeParse(body);
+
+    if (!bodyValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid request body",
+        details: bodyValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Execute Service Method
+    // =========================================================================
+    const service = new UserService(context.locals.supabase);
+    const updated = await service.setAdmin(paramValidation.data.id, bodyValidation.data.is_admin, user.id);
+
+    if (!updated) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "User not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Return Successful Response
+    // =========================================================================
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Business Logic Errors
+    // =========================================================================
+    if (error instanceof Error && error.message === "CANNOT_CHANGE_OWN_ADMIN") {
+      const apiError: ApiError = {
+        error: "self_modification",
+        message: "You cannot change your own admin rights",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (error instanceof Error && error.message === "USER_DEACTIVATED") {
+      const apiError: ApiError = {
+        error: "user_deactivated",
+        message: "Reactivate the account before granting admin rights",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    await logError(context.locals.supabase, {
+      route: "/api/users/:id",
+      error_code: "update_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { user_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while updating the user",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
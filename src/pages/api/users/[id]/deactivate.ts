@@ -0,0 +1,124 @@
+import type { APIRoute } from "astro";
+import { UserService } from "../../../../lib/user.service";
+import { userIdParamSchema } from "../../../../lib/validation/user.validation";
+import { requireRequestUser } from "../../../../lib/auth/route-guard";
+import type { ApiError, InvalidStatusError } from "../../../../types";
+import { logError } from "../../../../lib/error-logger";
+
+/**
+ * POST /api/users/:id/deactivate
+ *
+ * Deactivates an account (admin only). The user keeps their data but can no
+ * longer sign in, and is signed out of every device. Admins cannot deactivate
+ * themselves.
+ *
+ * Path Parameters:
+ * - id: UUID of the user
+ *
+ * @returns 200 OK with the updated user, with a warning if they could not be signed out
+ * @returns 400 Bad Request if the ID is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 404 Not Found if the user doesn't exist
+ * @returns 409 Conflict if the admin targets themselves or the account is already deactivated
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const paramValidation = userIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid user ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Execute Service Method
+    // =========================================================================
+    const service = new UserService(context.locals.supabase);
+    const updated = await service.deactivateUser(paramValidation.data.id, user.id);
+
+    if (!updated) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "User not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Return Successful Response
+    // =========================================================================
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Business Logic Errors
+    // =========================================================================
+    if (error instanceof Error && error.message === "CANNOT_DEACTIVATE_SELF") {
+      const apiError: ApiError = {
+        error: "self_modification",
+        message: "You cannot deactivate your own account",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (error instanceof Error && error.message === "USER_ALREADY_DEACTIVATED") {
+      const conflictError: InvalidStatusError = {
+        error: "invalid_status",
+        message: "Account is already deactivated",
+        current_status: "deactivated",
+      };
+      return new Response(JSON.stringify(conflictError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    await logError(context.locals.supabase, {
+      route: "/api/users/:id/deactivate",
+      error_code: "deactivate_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { user_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while deactivating the user",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,263 @@
+import type { APIRoute } from "astro";
+import { UserPositionService } from "../../../../lib/user-position.service";
+import { TeamService } from "../../../../lib/team.service";
+import { CareerLadderService } from "../../../../lib/career-ladder.service";
+import { isPositionLevel } from "../../../../lib/position-levels";
+import { hasPermission } from "../../../../lib/auth/permissions";
+import { setUserPositionSchema, userIdParamSchema } from "../../../../lib/validation/user.validation";
+import { requireRequestUser } from "../../../../lib/auth/route-guard";
+import { Permission, type ApiError } from "../../../../types";
+import { logError } from "../../../../lib/error-logger";
+
+/**
+ * GET /api/users/:id/position
+ *
+ * Returns a user's current career path and level together with their effective-dated
+ * position history (newest first). Available to the user themselves, admins, their
+ * managers and promotion approvers.
+ *
+ * Path Parameters:
+ * - id: UUID of the user
+ *
+ * @returns 200 OK with UserPositionResponse
+ * @returns 400 Bad Request if the ID is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if the caller may not see the user's position
+ * @returns 404 Not Found if the user doesn't exist
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const paramValidation = userIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid user ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const targetId = paramValidation.data.id;
+
+    // =========================================================================
+    // Step 2: Authorization Check (Self, Admin, Approver or Manager)
+    // =========================================================================
+    if (targetId !== user.id) {
+      const mayRead =
+        hasPermission(user.access, Permission.ApprovePromotions) ||
+        (await new TeamService(context.locals.supabase).isManagerOf(user.id, targetId));
+
+      if (!mayRead) {
+        const error: ApiError = {
+          error: "forbidden",
+          message: "You do not have permission to view this user's position",
+        };
+        return new Response(JSON.stringify(error), {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // =========================================================================
+    // Step 3: Fetch Positions
+    // =========================================================================
+    const service = new UserPositionService(context.locals.supabase);
+    const positions = await service.getPositions(targetId);
+
+    if (!positions) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "User not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(positions), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/users/:id/position",
+      error_code: "position_fetch_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { user_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while fetching the position",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * PUT /api/users/:id/position
+ *
+ * Records a new current position for a user (admin only), e.g. when onboarding an
+ * engineer or correcting their level. Earlier entries stay in the history; approved
+ * promotions record their target level automatically.
+ *
+ * Path Parameters:
+ * - id: UUID of the user
+ *
+ * Request Body:
+ * - path: technical, financial or management
+ * - level: Level on that path in the career ladder in force at effective_from
+ *   (see GET /api/position-levels)
+ * - effective_from: Optional ISO timestamp (not in the future); defaults to now
+ * - note: Optional reason
+ *
+ * @returns 200 OK with UserPositionResponse
+ * @returns 400 Bad Request if the ID or body is invalid, or the level is not on the path
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 404 Not Found if the user doesn't exist
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const PUT: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter and Request Body
+    // =========================================================================
+    const paramValidation = userIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid user ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const bodyValidation = setUserPositionSchema.safeParse(body);
+
+    if (!bodyValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid request body",
+        details: bodyValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Validate Level Against the Career Ladder
+    // =========================================================================
+    const { path, level, effective_from } = bodyValidation.data;
+    const ladder = await new CareerLadderService(context.locals.supabase).getLadder(
+      effective_from ? new Date(effective_from) : undefined
+    );
+
+    if (!isPositionLevel(path, level, ladder)) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid request body",
+        details: [{ field: "level", message: "Level does not exist on this career path" }],
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Execute Service Method
+    // =========================================================================
+    const service = new UserPositionService(context.locals.supabase);
+    const positions = await service.setPosition(paramValidation.data.id, bodyValidation.data, user.id);
+
+    if (!positions) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "User not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 4: Return Successful Response
+    // =========================================================================
+    return new Response(JSON.stringify(positions), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/users/:id/position",
+      error_code: "position_update_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { user_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while updating the position",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,112 @@
+import type { APIRoute } from "astro";
+import { UserService } from "../../../../lib/user.service";
+import { userIdParamSchema } from "../../../../lib/validation/user.validation";
+import { requireRequestUser } from "../../../../lib/auth/route-guard";
+import type { ApiError, InvalidStatusError } from "../../../../types";
+import { logError } from "../../../../lib/error-logger";
+
+/**
+ * POST /api/users/:id/reactivate
+ *
+ * Reactivates a deactivated account (admin only). Admin rights held before
+ * deactivation are restored with it.
+ *
+ * Path Parameters:
+ * - id: UUID of the user
+ *
+ * @returns 200 OK with the updated user
+ * @returns 400 Bad Request if the ID is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 404 Not Found if the user doesn't exist
+ * @returns 409 Conflict if the account is not deactivated
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const paramValidation = userIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid user ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Execute Service Method
+    // =========================================================================
+    const service = new UserService(context.locals.supabase);
+    const updated = await service.reactivateUser(paramValidation.data.id, user.id);
+
+    if (!updated) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "User not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Return Successful Response
+    // =========================================================================
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Business Logic Errors
+    // =========================================================================
+    if (error instanceof Error && error.message === "USER_NOT_DEACTIVATED") {
+      const conflictError: InvalidStatusError = {
+        error: "invalid_status",
+        message: "Account is not deactivated",
+        current_status: "active",
+      };
+      return new Response(JSON.stringify(conflictError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    await logError(context.locals.supabase, {
+      route: "/api/users/:id/reactivate",
+      error_code: "reactivate_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { user_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while reactivating the user",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
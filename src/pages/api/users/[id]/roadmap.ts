@@ -0,0 +1,137 @@
+import type { APIRoute } from "astro";
+import { RoadmapService } from "../../../../lib/roadmap.service";
+import { TeamService } from "../../../../lib/team.service";
+import { roadmapQuerySchema, userIdParamSchema } from "../../../../lib/validation/user.validation";
+import { requireRequestUser } from "../../../../lib/auth/route-guard";
+import type { ApiError, PromotionPathType } from "../../../../types";
+import { logError } from "../../../../lib/error-logger";
+
+/**
+ * GET /api/users/:id/roadmap
+ *
+ * Returns a user's career roadmap: progress of their unused accepted badges toward
+ * every remaining level of their path (same counting rules as promotion validation)
+ * and catalog badges that would close each gap. Available to the user themselves,
+ * their managers and admins.
+ *
+ * Path Parameters:
+ * - id: UUID of the user
+ *
+ * Query Parameters:
+ * - path: Career path to start from when the user's position is unknown (default: technical)
+ *
+ * @returns 200 OK with CareerRoadmapDto
+ * @returns 400 Bad Request if the ID or query is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if the caller may not see the user's roadmap
+ * @returns 404 Not Found if the user doesn't exist
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Validate Path and Query Parameters
+    // =========================================================================
+    const paramValidation = userIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid user ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const url = new URL(context.request.url);
+    const queryValidation = roadmapQuerySchema.safeParse({
+      path: url.searchParams.get("path") ?? undefined,
+    });
+
+    if (!queryValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid query parameters",
+        details: queryValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const targetId = paramValidation.data.id;
+
+    // =========================================================================
+    // Step 2: Authorization Check (Self, Admin or Manager)
+    // =========================================================================
+    if (targetId !== user.id) {
+      const mayRead =
+        user.access.isAdmin || (await new TeamService(context.locals.supabase).isManagerOf(user.id, targetId));
+
+      if (!mayRead) {
+        const error: ApiError = {
+          error: "forbidden",
+          message: "You do not have permission to view this user's roadmap",
+        };
+        return new Response(JSON.stringify(error), {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // =========================================================================
+    // Step 3: Build Roadmap
+    // =========================================================================
+    const service = new RoadmapService(context.locals.supabase);
+    const roadmap = await service.getRoadmap(targetId, queryValidation.data.path as PromotionPathType);
+
+    if (!roadmap) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "User not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(roadmap), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/users/:id/roadmap",
+      error_code: "roadmap_fetch_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { user_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while building the roadmap",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
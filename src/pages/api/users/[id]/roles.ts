@@ -0,0 +1,147 @@
+import type { APIRoute } from "astro";
+import { UserService } from "../../../../lib/user.service";
+import { updateUserRolesSchema, userIdParamSchema } from "../../../../lib/validation/user.validation";
+import { requireRequestUser } from "../../../../lib/auth/route-guard";
+import type { ApiError } from "../../../../types";
+import { logError } from "../../../../lib/error-logger";
+
+/**
+ * PUT /api/users/:id/roles
+ *
+ * Replaces the roles of a user (admin only). Roles delegate part of the admin
+ * rights: reviewers decide on badge applications (optionally limited to badge
+ * categories), catalog managers edit the catalog and promotion templates and
+ * promotion approvers approve or reject promotions.
+ *
+ * Path Parameters:
+ * - id: UUID of the user
+ *
+ * Request Body:
+ * - roles: Array of { role, categories? }; roles not listed are revoked
+ *
+ * @returns 200 OK with the updated user
+ * @returns 400 Bad Request if the ID or body is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 404 Not Found if the user doesn't exist
+ * @returns 409 Conflict if roles are granted to a deactivated account
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const PUT: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter and Request Body
+    // =========================================================================
+    const paramValidation = userIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid user ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const bodyValidation = updateUserRolesSchema.safeParse(body);
+
+    if (!bodyValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid request body",
+        details: bodyValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Execute Service Method
+    // =========================================================================
+    const service = new UserService(context.locals.supabase);
+    const updated = await service.setRoles(paramValidation.data.id, bodyValidation.data, user.id);
+
+    if (!updated) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "User not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 3: Return Successful Response
+    // =========================================================================
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Business Logic Errors
+    // =========================================================================
+    if (error instanceof Error && error.message === "USER_DEACTIVATED") {
+      const apiError: ApiError = {
+        error: "user_deactivated",
+        message: "Reactivate the account before granting roles",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    await logError(context.locals.supabase, {
+      route: "/api/users/:id/roles",
+      error_code: "roles_update_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { user_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while updating the user roles",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,102 @@
+import type { APIRoute } from "astro";
+import { SessionService } from "../../../../lib/session.service";
+import { userIdParamSchema } from "../../../../lib/validation/user.validation";
+import { requireRequestUser } from "../../../../lib/auth/route-guard";
+import type { ApiError, RevokeSessionsResponse } from "../../../../types";
+import { logError } from "../../../../lib/error-logger";
+
+/**
+ * DELETE /api/users/:id/sessions
+ *
+ * Signs a user out of every device (admin only), e.g. when an employee leaves.
+ * Open sessions end on their next request; the user can sign in again unless the
+ * account is also deactivated. Admins cannot target themselves.
+ *
+ * Path Parameters:
+ * - id: UUID of the user
+ *
+ * @returns 200 OK with the number of sessions revoked
+ * @returns 400 Bad Request if the ID is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 409 Conflict if the admin targets themselves
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const DELETE: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const paramValidation = userIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid user ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Execute Service Method
+    // =========================================================================
+    const service = new SessionService(context.locals.supabase);
+    const response: RevokeSessionsResponse = {
+      revoked: await service.revokeAllSessions(paramValidation.data.id, user.id),
+    };
+
+    // =========================================================================
+    // Step 3: Return Successful Response
+    // =========================================================================
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: Business Logic Errors
+    // =========================================================================
+    if (error instanceof Error && error.message === "CANNOT_REVOKE_OWN_SESSIONS") {
+      const apiError: ApiError = {
+        error: "self_modification",
+        message: "Use DELETE /api/auth/sessions to sign out your other sessions",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    await logError(context.locals.supabase, {
+      route: "/api/users/:id/sessions",
+      error_code: "revoke_sessions_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { user_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while signing the user out",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,149 @@
+import type { APIRoute } from "astro";
+import { OrgChartImportService, MAX_ORG_CHART_IMPORT_ROWS } from "../../../lib/org-chart-import.service";
+import { importOrgChartSchema } from "../../../lib/validation/user.validation";
+import { requireRequestUser } from "../../../lib/auth/route-guard";
+import type { ApiError } from "../../../types";
+import { logError } from "../../../lib/error-logger";
+
+/**
+ * Client-facing messages for CSV structure errors raised by the import service
+ */
+const CSV_ERROR_MESSAGES: Record<string, string> = {
+  CSV_EMPTY: "CSV must contain a header row and at least one user row",
+  CSV_MISSING_COLUMNS: "CSV header must include the columns: email and manager_email",
+  CSV_TOO_MANY_ROWS: `CSV must contain at most ${MAX_ORG_CHART_IMPORT_ROWS} user rows`,
+  CSV_UNTERMINATED_QUOTE: "CSV is malformed: a quoted field is never closed",
+};
+
+/**
+ * POST /api/users/org-chart
+ *
+ * Imports the reporting structure from CSV (admin only). Each row sets the
+ * manager and, optionally, the team of one existing user.
+ *
+ * CSV Columns:
+ * - email: Existing user (required)
+ * - manager_email: Existing, active user; empty removes the manager (required column)
+ * - team: Team name; empty clears it, a missing column keeps current teams (optional)
+ *
+ * Request Body:
+ * - csv: CSV document including the header row (required)
+ * - dry_run: Only validate and report (optional, default: true)
+ *
+ * Commit behaviour (dry_run: false):
+ * - Nothing is written while any row is invalid (report returned with 422)
+ * - Rows that would create a reporting cycle are invalid
+ * - Rows matching the current assignment are skipped as duplicates
+ * - Every changed user is logged to the audit log
+ *
+ * @returns 200 OK with the import report (dry run)
+ * @returns 201 Created with the import report (committed)
+ * @returns 400 Bad Request if the body or CSV structure is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 422 Unprocessable Entity with the report if rows are invalid on commit
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    const user = requireRequestUser(context.locals);
+    userId = user.id;
+
+    // =========================================================================
+    // Step 1: Parse and Validate Request Body
+    // =========================================================================
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      const apiError: ApiError = {
+        error: "validation_error",
+        message: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const validation = importOrgChartSchema.safeParse(body);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Validation failed",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { csv, dry_run } = validation.data;
+
+    // =========================================================================
+    // Step 2: Validate (and Commit) via Service
+    // =========================================================================
+    const service = new OrgChartImportService(context.locals.supabase);
+    const report = await service.importOrgChart(csv, { dryRun: dry_run, actorId: user.id });
+
+    // =========================================================================
+    // Step 3: Return Import Report
+    // =========================================================================
+    if (!dry_run && !report.committed && report.invalid_rows > 0) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: `${report.invalid_rows} row(s) failed validation; nothing was imported`,
+        details: { report },
+      };
+      return new Response(JSON.stringify(error), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(report), {
+      status: report.committed ? 201 : 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // =========================================================================
+    // Error Handling: CSV Structure Errors
+    // =========================================================================
+    if (error instanceof Error && CSV_ERROR_MESSAGES[error.message]) {
+      const apiError: ApiError = {
+        error: "validation_error",
+        message: CSV_ERROR_MESSAGES[error.message],
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Error Handling: Unexpected Errors
+    // =========================================================================
+    await logError(context.locals.supabase, {
+      route: "/api/users/org-chart",
+      error_code: "org_chart_import_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while importing the org chart",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,214 @@
+import type { APIRoute } from "astro";
+import { WebhookService } from "@/lib/webhook.service";
+import { updateWebhookSchema, webhookIdParamSchema } from "@/lib/validation/webhook.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import { logError } from "@/lib/error-logger";
+import type { ApiError, UpdateWebhookSubscriptionCommand } from "@/types";
+
+export const prerender = false;
+
+/**
+ * PATCH /api/webhooks/:id
+ *
+ * Updates a webhook subscription (admin only). Disabling it stops new deliveries;
+ * queued ones fail without being sent.
+ *
+ * Path Parameters:
+ * - id: UUID of the subscription
+ *
+ * Request Body (at least one field):
+ * - url: http(s) URL of the receiver
+ * - event_types: Audit event types to send
+ * - description: Note shown in the webhook list
+ * - is_active: Whether events are delivered
+ *
+ * @returns 200 OK with the updated subscription
+ * @returns 400 Bad Request if the ID or body is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 404 Not Found if the subscription doesn't exist
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const PATCH: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter and Request Body
+    // =========================================================================
+    const paramValidation = webhookIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid webhook ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    let requestBody: unknown;
+    try {
+      requestBody = await context.request.json();
+    } catch {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Request body is required and must be valid JSON",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const validation = updateWebhookSchema.safeParse(requestBody);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Validation failed",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Update the Subscription
+    // =========================================================================
+    const service = new WebhookService(context.locals.supabase);
+    const updated = await service.updateSubscription(
+      paramValidation.data.id,
+      validation.data as UpdateWebhookSubscriptionCommand,
+      userId
+    );
+
+    if (!updated) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "Webhook not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/webhooks/:id",
+      error_code: "update_webhook_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { webhook_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while updating the webhook",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/webhooks/:id
+ *
+ * Deletes a webhook subscription and its delivery log (admin only).
+ *
+ * Path Parameters:
+ * - id: UUID of the subscription
+ *
+ * @returns 200 OK with a confirmation message
+ * @returns 400 Bad Request if the ID is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 404 Not Found if the subscription doesn't exist
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const DELETE: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const paramValidation = webhookIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid webhook ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Delete the Subscription
+    // =========================================================================
+    const service = new WebhookService(context.locals.supabase);
+    const deleted = await service.deleteSubscription(paramValidation.data.id, userId);
+
+    if (!deleted) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "Webhook not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify({ message: "Webhook deleted successfully" }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/webhooks/:id",
+      error_code: "delete_webhook_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { webhook_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while deleting the webhook",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
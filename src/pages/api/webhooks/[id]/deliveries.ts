@@ -0,0 +1,114 @@
+import type { APIRoute } from "astro";
+import { WebhookService } from "@/lib/webhook.service";
+import { listWebhookDeliveriesQuerySchema, webhookIdParamSchema } from "@/lib/validation/webhook.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import { logError } from "@/lib/error-logger";
+import type { ApiError } from "@/types";
+
+export const prerender = false;
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ *
+ * Lists a subscription's delivery log, newest first (admin only). Each entry has
+ * its payload, attempt count, last response status and body, and last error.
+ *
+ * Path Parameters:
+ * - id: UUID of the subscription
+ *
+ * Query Parameters:
+ * - status: pending, succeeded or failed (optional)
+ * - limit: Items per page (1-100, default 20)
+ * - offset: Pagination offset (default 0)
+ *
+ * @returns 200 OK with a paginated list of deliveries
+ * @returns 400 Bad Request if the ID or query parameters are invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 404 Not Found if the subscription doesn't exist
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    // =========================================================================
+    // Step 1: Validate Path and Query Parameters
+    // =========================================================================
+    const paramValidation = webhookIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid webhook ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const url = new URL(context.request.url);
+    const validation = listWebhookDeliveriesQuerySchema.safeParse(Object.fromEntries(url.searchParams.entries()));
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid query parameters",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Execute Service Method
+    // =========================================================================
+    const service = new WebhookService(context.locals.supabase);
+    const result = await service.listDeliveries(paramValidation.data.id, validation.data);
+
+    if (!result) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "Webhook not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/webhooks/:id/deliveries",
+      error_code: "list_webhook_deliveries_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { webhook_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while listing webhook deliveries",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,107 @@
+import type { APIRoute } from "astro";
+import { WebhookService } from "@/lib/webhook.service";
+import { WebhookWorker } from "@/lib/webhook-worker";
+import { webhookIdParamSchema } from "@/lib/validation/webhook.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import { logError } from "@/lib/error-logger";
+import type { ApiError } from "@/types";
+
+export const prerender = false;
+
+/**
+ * POST /api/webhooks/deliveries/:id/redeliver
+ *
+ * Sends a delivery's payload again right away (admin only). The attempt is logged
+ * as a new delivery pointing at the original (redelivery_of); if it fails, it is
+ * retried like any other delivery.
+ *
+ * Path Parameters:
+ * - id: UUID of the delivery
+ *
+ * @returns 200 OK with the new delivery as recorded after the attempt
+ * @returns 400 Bad Request if the ID is invalid
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 404 Not Found if the delivery doesn't exist
+ * @returns 409 Conflict if the subscription is disabled
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    // =========================================================================
+    // Step 1: Validate Path Parameter
+    // =========================================================================
+    const paramValidation = webhookIdParamSchema.safeParse({ id: context.params.id });
+
+    if (!paramValidation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Invalid delivery ID format",
+        details: paramValidation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Queue and Send the Redelivery
+    // =========================================================================
+    const service = new WebhookService(context.locals.supabase);
+    const delivery = await service.redeliver(paramValidation.data.id);
+
+    if (!delivery) {
+      const error: ApiError = {
+        error: "not_found",
+        message: "Webhook delivery not found",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const sent = await new WebhookWorker(context.locals.supabase).deliver(delivery);
+
+    return new Response(JSON.stringify(sent), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "SUBSCRIPTION_INACTIVE") {
+      const apiError: ApiError = {
+        error: "invalid_status",
+        message: "Webhook is disabled; enable it before redelivering",
+      };
+      return new Response(JSON.stringify(apiError), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await logError(context.locals.supabase, {
+      route: "/api/webhooks/deliveries/:id/redeliver",
+      error_code: "redeliver_webhook_failed",
+      message: error instanceof Error ? error.message : String(error),
+      payload: { delivery_id: context.params.id },
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while redelivering the webhook",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
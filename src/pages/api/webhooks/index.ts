@@ -0,0 +1,138 @@
+import type { APIRoute } from "astro";
+import { WebhookService } from "@/lib/webhook.service";
+import { createWebhookSchema } from "@/lib/validation/webhook.validation";
+import { requireRequestUser } from "@/lib/auth/route-guard";
+import { logError } from "@/lib/error-logger";
+import type { ApiError, CreateWebhookSubscriptionCommand } from "@/types";
+
+export const prerender = false;
+
+/**
+ * GET /api/webhooks
+ *
+ * Lists webhook subscriptions, newest first (admin only). Signing secrets are
+ * never returned.
+ *
+ * @returns 200 OK with an array of subscriptions
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const GET: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    const service = new WebhookService(context.locals.supabase);
+    const subscriptions = await service.listSubscriptions();
+
+    return new Response(JSON.stringify(subscriptions), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/webhooks",
+      error_code: "list_webhooks_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while listing webhooks",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/webhooks
+ *
+ * Creates a webhook subscription (admin only). Every audit event of a selected
+ * type is then POSTed to the URL, signed with the subscription's secret. The
+ * secret is only returned in this response.
+ *
+ * Request Body:
+ * - url: http(s) URL of the receiver (required)
+ * - event_types: Audit event types to send, e.g. "promotion.approved" (required, at least one)
+ * - description: Note shown in the webhook list (optional)
+ *
+ * @returns 201 Created with the subscription and its secret
+ * @returns 400 Bad Request if validation fails
+ * @returns 401 Unauthorized if not authenticated
+ * @returns 403 Forbidden if not admin
+ * @returns 500 Internal Server Error on unexpected errors
+ */
+export const POST: APIRoute = async (context) => {
+  let userId: string | null = null;
+
+  try {
+    userId = requireRequestUser(context.locals).id;
+
+    // =========================================================================
+    // Step 1: Parse and Validate Request Body
+    // =========================================================================
+    let requestBody: unknown;
+    try {
+      requestBody = await context.request.json();
+    } catch {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Request body is required and must be valid JSON",
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const validation = createWebhookSchema.safeParse(requestBody);
+
+    if (!validation.success) {
+      const error: ApiError = {
+        error: "validation_error",
+        message: "Validation failed",
+        details: validation.error.issues.map((err) => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      };
+      return new Response(JSON.stringify(error), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // =========================================================================
+    // Step 2: Create the Subscription
+    // =========================================================================
+    const service = new WebhookService(context.locals.supabase);
+    const created = await service.createSubscription(validation.data as CreateWebhookSubscriptionCommand, userId);
+
+    return new Response(JSON.stringify(created), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    await logError(context.locals.supabase, {
+      route: "/api/webhooks",
+      error_code: "create_webhook_failed",
+      message: error instanceof Error ? error.message : String(error),
+      requester_id: userId,
+    });
+
+    const apiError: ApiError = {
+      error: "internal_error",
+      message: "An unexpected error occurred while creating the webhook",
+    };
+    return new Response(JSON.stringify(apiError), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -13,7 +13,7 @@
  * 6. Response types
  */
 
-import type { Tables } from "./db/database.types";
+import type { Json, Tables } from "./db/database.types";
 
 // =============================================================================
 // Database Type Aliases
@@ -21,12 +21,25 @@ import type { Tables } from "./db/database.types";
 
 export type UserRow = Tables<"users">;
 export type CatalogBadgeRow = Tables<"catalog_badges">;
+export type CatalogBadgeVersionRow = Tables<"catalog_badge_versions">;
 export type BadgeApplicationRow = Tables<"badge_applications">;
 export type PromotionTemplateRow = Tables<"promotion_templates">;
+export type PromotionTemplateVersionRow = Tables<"promotion_template_versions">;
 export type PromotionRow = Tables<"promotions">;
 export type PromotionBadgeRow = Tables<"promotion_badges">;
 export type AuditLogRow = Tables<"audit_logs">;
 export type SettingRow = Tables<"settings">;
+export type EventRow = Tables<"events">;
+export type NotificationRow = Tables<"notifications">;
+export type NotificationPreferenceRow = Tables<"notification_preferences">;
+export type UserRoleRow = Tables<"user_roles">;
+export type UserPositionRow = Tables<"user_positions">;
+export type CareerLadderVersionRow = Tables<"career_ladder_versions">;
+export type ErrorLogRow = Tables<"error_logs">;
+export type AuthEventRow = Tables<"auth_events">;
+export type ApiTokenRow = Tables<"api_tokens">;
+export type WebhookSubscriptionRow = Tables<"webhook_subscriptions">;
+export type WebhookDeliveryRow = Tables<"webhook_deliveries">;
 
 // =============================================================================
 // Enums and Constants
@@ -43,6 +56,30 @@ export const BadgeCategory = {
 
 export type BadgeCategoryType = (typeof BadgeCategory)[keyof typeof BadgeCategory];
 
+/**
+ * Roles that can be granted beside the admin flag (user_roles.role)
+ * Admins hold every permission without needing a role.
+ */
+export const UserRole = {
+  Reviewer: "reviewer",
+  CatalogManager: "catalog_manager",
+  PromotionApprover: "promotion_approver",
+} as const;
+
+export type UserRoleType = (typeof UserRole)[keyof typeof UserRole];
+
+/**
+ * Permissions checked by routes, pages and RLS policies (has_permission())
+ */
+export const Permission = {
+  ReviewApplications: "badge_applications.review",
+  ManageCatalog: "catalog.manage",
+  ManageTemplates: "promotion_templates.manage",
+  ApprovePromotions: "promotions.approve",
+} as const;
+
+export type PermissionType = (typeof Permission)[keyof typeof Permission];
+
 /**
  * Badge levels (gold, silver, bronze)
  */
@@ -60,6 +97,7 @@ export type BadgeLevelType = (typeof BadgeLevel)[keyof typeof BadgeLevel];
 export const CatalogBadgeStatus = {
   Active: "active",
   Inactive: "inactive",
+  Archived: "archived",
 } as const;
 
 export type CatalogBadgeStatusType = (typeof CatalogBadgeStatus)[keyof typeof CatalogBadgeStatus];
@@ -100,18 +138,41 @@ export const PromotionStatus = {
 
 export type PromotionStatusType = (typeof PromotionStatus)[keyof typeof PromotionStatus];
 
+/**
+ * How a user's position entry was recorded (user_positions.source)
+ */
+export const UserPositionSource = {
+  Promotion: "promotion",
+  Admin: "admin",
+  Import: "import",
+} as const;
+
+export type UserPositionSourceType = (typeof UserPositionSource)[keyof typeof UserPositionSource];
+
 // =============================================================================
 // Nested Object Types
 // =============================================================================
 
 /**
- * Rule definition for promotion templates
- * Specifies required badge counts by category and level
+ * Badge condition of a promotion template rule
+ * Requires count badges of the category ("any" matches all categories) and level;
+ * with or_higher, badges of a higher level count as well
  */
-export interface PromotionTemplateRule {
+export interface PromotionRuleCondition {
   category: BadgeCategoryType | "any";
   level: BadgeLevelType;
   count: number;
+  or_higher?: boolean;
+}
+
+/**
+ * Rule definition for promotion templates (rules schema version 2)
+ * Met by its own condition or by one of the alternatives; max_per_badge limits how
+ * many applications of the same catalog badge count toward the rule
+ */
+export interface PromotionTemplateRule extends PromotionRuleCondition {
+  alternatives?: PromotionRuleCondition[];
+  max_per_badge?: number;
 }
 
 /**
@@ -182,6 +243,176 @@ export interface BadgeApplicationWithBadge {
  */
 export type UserDto = UserRow;
 
+/**
+ * User entry in the admin user management list
+ * Used for GET /api/users and returned by the user management actions
+ */
+export type UserListItemDto = Pick<
+  UserRow,
+  | "id"
+  | "email"
+  | "display_name"
+  | "is_admin"
+  | "created_at"
+  | "last_seen_at"
+  | "deactivated_at"
+  | "deactivated_by"
+  | "manager_id"
+  | "team"
+  | "current_path"
+  | "current_level"
+> & {
+  roles: UserRoleAssignment[];
+};
+
+/**
+ * Deactivated user - returned from POST /api/users/:id/deactivate
+ * warning is set when the account was deactivated but its sessions could not be revoked
+ */
+export type DeactivatedUserDto = UserListItemDto & {
+  warning?: string;
+};
+
+/**
+ * Career path and level a user currently holds
+ */
+export interface CurrentPosition {
+  path: PromotionPathType;
+  level: string;
+}
+
+/**
+ * Entry of a user's effective-dated position history
+ */
+export interface UserPositionDto extends Omit<UserPositionRow, "path" | "source"> {
+  path: PromotionPathType;
+  source: UserPositionSourceType;
+}
+
+/**
+ * Current position and position history of a user
+ * Used for GET /api/users/:id/position; current is null until a position is recorded
+ */
+export interface UserPositionResponse {
+  user_id: string;
+  current: CurrentPosition | null;
+  history: UserPositionDto[];
+}
+
+/**
+ * Role granted to a user; reviewers may be limited to badge categories (null = all)
+ */
+export interface UserRoleAssignment {
+  role: UserRoleType;
+  categories: BadgeCategoryType[] | null;
+}
+
+/**
+ * Account status filter for the user management list
+ */
+export const UserStatus = {
+  Active: "active",
+  Deactivated: "deactivated",
+} as const;
+
+export type UserStatusType = (typeof UserStatus)[keyof typeof UserStatus];
+
+/**
+ * Signed-in device of a user - returned from GET /api/auth/sessions
+ * device is a readable summary of the user agent (e.g. "Chrome on macOS")
+ */
+export interface UserSessionDto {
+  id: string;
+  device: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
+/**
+ * Response of GET /api/auth/session
+ * session is null for anonymous requests; expires_at is when the access token must be refreshed
+ */
+export interface AuthSessionResponse {
+  authenticated: boolean;
+  user: {
+    id: string;
+    email: string | null;
+    is_admin: boolean;
+    roles: UserRoleAssignment[];
+  } | null;
+  session: {
+    id: string | null;
+    expires_at: string | null;
+  } | null;
+}
+
+/**
+ * Response of DELETE /api/auth/sessions and DELETE /api/users/:id/sessions
+ */
+export interface RevokeSessionsResponse {
+  revoked: number;
+}
+
+// =============================================================================
+// API Token Types
+// =============================================================================
+
+/**
+ * What an API token may do on top of its owner's roles
+ * - read: GET requests only
+ * - review: GET requests, badge application review and promotion approval
+ * - admin: every request the owner may make
+ */
+export const ApiTokenScope = {
+  Read: "read",
+  Review: "review",
+  Admin: "admin",
+} as const;
+
+export type ApiTokenScopeType = (typeof ApiTokenScope)[keyof typeof ApiTokenScope];
+
+/**
+ * Personal tokens are created by users for themselves; service tokens are issued by
+ * admins for another account (e.g. a dedicated integration user)
+ */
+export const ApiTokenKind = {
+  Personal: "personal",
+  Service: "service",
+} as const;
+
+export type ApiTokenKindType = (typeof ApiTokenKind)[keyof typeof ApiTokenKind];
+
+/**
+ * API token DTO - the hash is never returned
+ * Used in GET /api/api-tokens responses
+ */
+export type ApiTokenDto = Omit<ApiTokenRow, "token_hash" | "kind" | "scope"> & {
+  kind: ApiTokenKindType;
+  scope: ApiTokenScopeType;
+  user: UserSummary | null;
+};
+
+/**
+ * Response of POST /api/api-tokens; token is the secret, shown only once
+ */
+export interface ApiTokenCreatedResponse extends ApiTokenDto {
+  token: string;
+}
+
+/**
+ * Command for creating an API token (POST /api/api-tokens)
+ * user_id defaults to the caller; other accounts are admin only (service tokens)
+ */
+export interface CreateApiTokenCommand {
+  name: string;
+  scope: ApiTokenScopeType;
+  expires_in_days: number;
+  user_id?: string;
+}
+
 // =============================================================================
 // Catalog Badge DTOs
 // =============================================================================
@@ -204,6 +435,77 @@ export type CatalogBadgeListItemDto = CatalogBadgeDto;
  */
 export type CatalogBadgeDetailDto = CatalogBadgeDto;
 
+/**
+ * One entry in a catalog badge's version timeline (GET /api/catalog-badges/:id/versions)
+ * The current version comes from catalog_badges, earlier ones from catalog_badge_versions.
+ */
+export interface CatalogBadgeVersionDto {
+  version: number;
+  title: string;
+  description: string | null;
+  category: string;
+  level: string;
+  metadata: Json | null;
+  authored_by: UserSummary | null;
+  authored_at: string;
+  superseded_at: string | null; // null for the current version
+  is_current: boolean;
+}
+
+/**
+ * Impact of taking a catalog badge out of circulation (GET /api/catalog-badges/:id/impact)
+ * Lists the open applications and draft promotions that reference the badge.
+ */
+export interface CatalogBadgeImpactDto {
+  badge_id: string;
+  open_applications: {
+    id: string;
+    status: BadgeApplicationStatusType;
+    applicant: UserSummary | null;
+  }[];
+  draft_promotions: {
+    id: string;
+    path: string;
+    from_level: string;
+    to_level: string;
+    created_by: string;
+  }[];
+}
+
+/**
+ * Outcome of a single CSV row in an import report
+ * - valid: row passes validation and will be (or was) inserted
+ * - invalid: row fails validation; see errors
+ * - duplicate: row matches an existing record or an earlier row in the file and is skipped
+ */
+export type ImportRowStatus = "valid" | "invalid" | "duplicate";
+
+/**
+ * Per-row result of a CSV import (row numbers are 1-based, excluding the header).
+ * duplicate_of points at the existing record (id) or the earlier row it repeats.
+ */
+export interface ImportRowResult {
+  row: number;
+  label: string | null;
+  status: ImportRowStatus;
+  errors: ValidationErrorDetail[];
+  duplicate_of: { id: string | null; row: number | null } | null;
+}
+
+/**
+ * Report returned by POST /api/catalog-badges/import (both dry run and commit)
+ */
+export interface CatalogBadgeImportReportDto {
+  dry_run: boolean;
+  committed: boolean;
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  duplicate_rows: number;
+  imported_ids: string[];
+  rows: ImportRowResult[];
+}
+
 // =============================================================================
 // Badge Application DTOs
 // =============================================================================
@@ -247,6 +549,87 @@ export type PromotionTemplateListItemDto = PromotionTemplateDto;
  */
 export type PromotionTemplateDetailDto = PromotionTemplateDto;
 
+/**
+ * One entry in a promotion template's version timeline (GET /api/promotion-templates/:id/versions)
+ * The current version comes from promotion_templates, earlier ones from promotion_template_versions.
+ */
+export interface PromotionTemplateVersionDto {
+  version: number;
+  name: string;
+  path: string;
+  from_level: string;
+  to_level: string;
+  rules: PromotionTemplateRule[];
+  authored_by: UserSummary | null;
+  authored_at: string;
+  superseded_at: string | null; // null for the current version
+  is_current: boolean;
+  promotion_count: number; // promotions created against this version
+}
+
+/**
+ * What syncing promotion templates from the career ladder does to a template
+ */
+export type TemplateSyncAction = "create" | "update" | "deactivate" | "unchanged";
+
+/**
+ * One template change planned by a ladder sync (POST /api/promotion-templates/sync)
+ * rules are the ladder's rules for the level (null for templates being deactivated);
+ * template_id is null for templates still to be created
+ */
+export interface TemplateSyncChangeDto {
+  action: TemplateSyncAction;
+  template_id: string | null;
+  name: string;
+  path: string;
+  from_level: string;
+  to_level: string;
+  rules: PromotionTemplateRule[] | null;
+  reasons: string[];
+}
+
+/**
+ * Result of a ladder sync: the planned changes, applied unless dry_run
+ */
+export interface TemplateSyncResultDto {
+  dry_run: boolean;
+  applied: boolean;
+  summary: Record<TemplateSyncAction, number>;
+  changes: TemplateSyncChangeDto[];
+}
+
+/**
+ * Ways an active template can disagree with the career ladder
+ */
+export type TemplateConsistencyIssueCode =
+  | "unknown_path"
+  | "unknown_from_level"
+  | "unknown_to_level"
+  | "to_level_mismatch"
+  | "rules_mismatch";
+
+/**
+ * Template flagged by the consistency check (GET /api/promotion-templates/consistency)
+ */
+export interface TemplateConsistencyIssueDto {
+  template_id: string;
+  name: string;
+  path: string;
+  from_level: string;
+  to_level: string;
+  code: TemplateConsistencyIssueCode;
+  message: string;
+}
+
+/**
+ * Consistency check of the active templates against the career ladder
+ */
+export interface TemplateConsistencyReportDto {
+  checked: number;
+  consistent: boolean;
+  issues: TemplateConsistencyIssueDto[];
+}
+
 // =============================================================================
 // Promotion DTOs
 // =============================================================================
@@ -270,6 +653,108 @@ export interface PromotionDetailDto extends PromotionRow {
   creator: UserSummary;
 }
 
+/**
+ * Report returned by POST /api/history-import (both dry run and commit)
+ * Each CSV row is one earned badge; rows sharing a promotion_ref form one historical promotion.
+ */
+export interface HistoryImportReportDto {
+  dry_run: boolean;
+  committed: boolean;
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  duplicate_rows: number;
+  promotion_count: number;
+  imported_application_ids: string[];
+  imported_promotion_ids: string[];
+  rows: ImportRowResult[];
+}
+
+/**
+ * Report returned by POST /api/users/org-chart (both dry run and commit)
+ * Each CSV row assigns the manager and team of one user; rows matching the current
+ * assignment are reported as duplicates and left untouched.
+ */
+export interface OrgChartImportReportDto {
+  dry_run: boolean;
+  committed: boolean;
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  duplicate_rows: number;
+  updated_user_ids: string[];
+  rows: ImportRowResult[];
+}
+
+// =============================================================================
+// Team DTOs
+// =============================================================================
+
+/**
+ * Progress of one direct or indirect report toward their next position level
+ * Used for GET /api/team
+ *
+ * The current position is the recorded one (users.current_path / current_level); for
+ * users without one it comes from the latest approved promotion (or, before the
+ * first one, the starting level of an open promotion); null when unknown.
+ * Requirements count accepted badges not yet consumed by an approved promotion.
+ */
+export interface TeamMemberProgressDto {
+  user: UserSummary & Pick<UserRow, "team" | "manager_id">;
+  path: PromotionPathType | null;
+  current_level: string | null;
+  next_level: string | null;
+  requirements: PromotionRequirement[];
+  accepted_badge_count: number;
+  pending_application_count: number;
+  open_promotion_count: number;
+}
+
+// =============================================================================
+// Career Roadmap DTOs
+// =============================================================================
+
+/**
+ * Active catalog badge that would help close a roadmap requirement gap
+ */
+export type RoadmapBadgeSuggestion = Pick<CatalogBadgeRow, "id" | "title" | "category" | "level">;
+
+/**
+ * Progress toward one rule of a roadmap step, with catalog badges the user doesn't
+ * hold or have under review yet (empty once the rule is satisfied)
+ */
+export interface RoadmapRequirementDto extends PromotionRequirement {
+  suggested_badges: RoadmapBadgeSuggestion[];
+}
+
+/**
+ * One promotion on the way up the career path (from_level → to_level)
+ */
+export interface RoadmapStepDto {
+  from_level: string;
+  to_level: string;
+  requirements: RoadmapRequirementDto[];
+  is_ready: boolean;
+}
+
+/**
+ * Career roadmap of a user
+ * Used for GET /api/users/:id/roadmap
+ *
+ * Steps cover every remaining level of the path, starting at the current level. Each
+ * step counts the user's accepted badges not yet consumed by an approved promotion,
+ * with the same rules as promotion validation. Users without a known position start
+ * at the entry level of the requested path (position_recorded is then false).
+ */
+export interface CareerRoadmapDto {
+  user: UserSummary;
+  path: PromotionPathType;
+  current_level: string;
+  position_recorded: boolean;
+  accepted_badge_count: number;
+  steps: RoadmapStepDto[];
+}
+
 // =============================================================================
 // Command Models - Catalog Badges
 // =============================================================================
@@ -346,7 +831,11 @@ export interface CreatePromotionTemplateCommand {
  */
 export interface UpdatePromotionTemplateCommand {
   name?: string;
+  path?: PromotionPathType;
+  from_level?: string;
+  to_level?: string;
   rules?: PromotionTemplateRule[];
+  is_active?: boolean;
 }
 
 // =============================================================================
@@ -374,6 +863,14 @@ export interface RemovePromotionBadgesCommand {
   badge_application_ids: string[];
 }
 
+/**
+ * Auto-fill promotion command (POST /api/promotions/:id/auto-fill)
+ * With dry_run the selection is only returned, the draft is left unchanged.
+ */
+export interface AutoFillPromotionCommand {
+  dry_run?: boolean;
+}
+
 /**
  * Reject promotion command (POST /api/promotions/:id/reject)
  */
@@ -381,6 +878,37 @@ export interface RejectPromotionCommand {
   reject_reason: string;
 }
 
+// =============================================================================
+// Command Models - Users
+// =============================================================================
+
+/**
+ * Command to update a user from the admin user management page
+ * Used for PATCH /api/users/:id
+ */
+export interface UpdateUserCommand {
+  is_admin: boolean;
+}
+
+/**
+ * Command to replace the roles of a user
+ * Used for PUT /api/users/:id/roles
+ */
+export interface UpdateUserRolesCommand {
+  roles: UserRoleAssignment[];
+}
+
+/**
+ * Command to record a user's current career position
+ * Used for PUT /api/users/:id/position
+ */
+export interface SetUserPositionCommand {
+  path: PromotionPathType;
+  level: string;
+  effective_from?: string;
+  note?: string;
+}
+
 // =============================================================================
 // Validation Response Types
 // =============================================================================
@@ -391,6 +919,8 @@ export interface RejectPromotionCommand {
 export interface PromotionRequirement {
   category: BadgeCategoryType | "any";
   level: BadgeLevelType;
+  /** Set when badges of a higher level count as well */
+  or_higher?: boolean;
   required: number;
   current: number;
   satisfied: boolean;
@@ -402,16 +932,64 @@ export interface PromotionRequirement {
 export interface MissingBadge {
   category: BadgeCategoryType | "any";
   level: BadgeLevelType;
+  or_higher?: boolean;
   count: number;
 }
 
+/**
+ * Requirement in the promotion validation response, with the badge applications
+ * allocated to it (each badge application fills at most one requirement)
+ */
+export interface PromotionValidationRequirement extends PromotionRequirement {
+  assigned_badge_application_ids: string[];
+}
+
 /**
  * Promotion validation response (GET /api/promotions/:id/validation)
  */
 export interface PromotionValidationResponse {
   promotion_id: string;
   is_valid: boolean;
-  requirements: PromotionRequirement[];
+  requirements: PromotionValidationRequirement[];
+  missing: MissingBadge[];
+}
+
+/**
+ * Badge application chosen by auto-fill
+ */
+export interface AutoFillBadgeDto {
+  badge_application_id: string;
+  title: string;
+  category: BadgeCategoryType;
+  level: BadgeLevelType;
+}
+
+/**
+ * Badges assigned to one template rule by auto-fill (each badge to one rule only)
+ * condition is the one the badges were picked for: the rule's own or an alternative
+ */
+export interface AutoFillRuleAssignment {
+  rule: PromotionTemplateRule;
+  condition: PromotionRuleCondition;
+  badges: AutoFillBadgeDto[];
+  satisfied: boolean;
+}
+
+/**
+ * Auto-fill response (POST /api/promotions/:id/auto-fill)
+ *
+ * selected_badge_application_ids is the smallest set of the owner's accepted, unreserved
+ * badges (plus those already in the draft) covering the template rules, preferring
+ * lower levels and older badges. Unless dry_run, the draft's badges are replaced by it.
+ */
+export interface PromotionAutoFillResponse {
+  promotion_id: string;
+  dry_run: boolean;
+  is_complete: boolean;
+  selected_badge_application_ids: string[];
+  added_badge_application_ids: string[];
+  removed_badge_application_ids: string[];
+  assignments: AutoFillRuleAssignment[];
   missing: MissingBadge[];
 }
 
@@ -456,6 +1034,8 @@ export interface ApiError {
   error: string;
   message: string;
   details?: ValidationErrorDetail[] | Record<string, unknown>;
+  // Added by the middleware; matches the X-Request-Id response header and error_logs.request_id
+  request_id?: string;
 }
 
 /**
@@ -517,6 +1097,29 @@ export interface PositionLevelsResponse {
   positions: Record<PromotionPathType, Record<string, PositionLevel>>;
 }
 
+/**
+ * Career ladder version in force at a date (GET /api/position-levels)
+ *
+ * version 0 with effective_from null is the ladder bundled with the application
+ * (src/config/position-levels.json), used until an admin records a version.
+ */
+export interface CareerLadderVersionDto extends PositionLevelsResponse {
+  version: number;
+  effective_from: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string | null;
+}
+
+/**
+ * Command for recording a new career ladder version (POST /api/position-levels)
+ */
+export interface CreateCareerLadderVersionCommand {
+  positions: PositionLevelsResponse["positions"];
+  effective_from?: string;
+  note?: string;
+}
+
 // =============================================================================
 // Audit Log Types
 // =============================================================================
@@ -526,6 +1129,14 @@ export interface PositionLevelsResponse {
  */
 export type AuditLogDto = AuditLogRow;
 
+/**
+ * Audit log entry with nested actor summary
+ * Used for GET /api/audit-logs
+ */
+export interface AuditLogListItemDto extends AuditLogRow {
+  actor: UserSummary | null;
+}
+
 /**
  * Audit log event types
  */
@@ -536,14 +1147,217 @@ export const AuditEventType = {
   BadgeApplicationSubmitted: "badge_application.submitted",
   BadgeApplicationAccepted: "badge_application.accepted",
   BadgeApplicationRejected: "badge_application.rejected",
+  BadgeApplicationDeleted: "badge_application.deleted",
   PromotionCreated: "promotion.created",
   PromotionSubmitted: "promotion.submitted",
   PromotionApproved: "promotion.approved",
   PromotionRejected: "promotion.rejected",
+  PromotionDeleted: "promotion.deleted",
+  PromotionTemplateCreated: "promotion_template.created",
+  PromotionTemplateUpdated: "promotion_template.updated",
+  PromotionTemplateDeactivated: "promotion_template.deactivated",
+  CatalogBadgeCreated: "catalog_badge.created",
+  CatalogBadgeUpdated: "catalog_badge.updated",
+  CatalogBadgeDeactivated: "catalog_badge.deactivated",
+  CatalogBadgeReactivated: "catalog_badge.reactivated",
+  CatalogBadgeArchived: "catalog_badge.archived",
+  CatalogBadgesImported: "catalog_badge.imported",
+  BadgeApplicationImported: "badge_application.imported",
+  PromotionImported: "promotion.imported",
+  UserAdminGranted: "user.admin_granted",
+  UserAdminRevoked: "user.admin_revoked",
+  UserDeactivated: "user.deactivated",
+  UserReactivated: "user.reactivated",
+  UserRolesUpdated: "user.roles_updated",
+  UserOrgChartImported: "user.org_chart_imported",
+  UserPositionSet: "user.position_set",
+  UserSessionsRevoked: "user.sessions_revoked",
+  UserProvisioned: "user.provisioned",
+  ApiTokenCreated: "api_token.created",
+  ApiTokenRevoked: "api_token.revoked",
+  ApiTokenUsed: "api_token.used",
+  WebhookCreated: "webhook.created",
+  WebhookUpdated: "webhook.updated",
+  WebhookDeleted: "webhook.deleted",
+  CareerLadderVersionCreated: "career_ladder.version_created",
 } as const;
 
 export type AuditEventTypeType = (typeof AuditEventType)[keyof typeof AuditEventType];
 
+/**
+ * Resource types referenced by audit log entries (audit_logs.resource_type)
+ */
+export const AuditResourceType = {
+  BadgeApplication: "badge_application",
+  Promotion: "promotion",
+  PromotionTemplate: "promotion_template",
+  CatalogBadge: "catalog_badge",
+  User: "user",
+  CareerLadder: "career_ladder",
+  ApiToken: "api_token",
+  Webhook: "webhook",
+} as const;
+
+export type AuditResourceTypeType = (typeof AuditResourceType)[keyof typeof AuditResourceType];
+
+// =============================================================================
+// Webhook Types
+// =============================================================================
+
+/**
+ * Event type of the test delivery sent from the webhook settings
+ */
+export const WEBHOOK_PING_EVENT = "ping";
+
+/**
+ * Delivery states in the webhook log
+ * - pending: queued or waiting for a retry
+ * - sending: claimed by a worker run or an admin's redelivery, which is sending it
+ * - succeeded: the receiver answered with a 2xx status
+ * - failed: every attempt failed; redeliver to try again
+ */
+export const WebhookDeliveryStatus = {
+  Pending: "pending",
+  Sending: "sending",
+  Succeeded: "succeeded",
+  Failed: "failed",
+} as const;
+
+export type WebhookDeliveryStatusType = (typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+
+/**
+ * Webhook subscription DTO - the signing secret is only returned on creation
+ * Used in GET /api/webhooks responses
+ */
+export type WebhookSubscriptionDto = Omit<WebhookSubscriptionRow, "secret" | "event_types"> & {
+  event_types: AuditEventTypeType[];
+};
+
+/**
+ * Response of POST /api/webhooks; secret signs every payload, shown only once
+ */
+export interface WebhookSubscriptionCreatedResponse extends WebhookSubscriptionDto {
+  secret: string;
+}
+
+/**
+ * Command for creating a webhook subscription (POST /api/webhooks)
+ */
+export interface CreateWebhookSubscriptionCommand {
+  url: string;
+  event_types: AuditEventTypeType[];
+  description?: string | null;
+}
+
+/**
+ * Command for updating a webhook subscription (PATCH /api/webhooks/:id)
+ */
+export type UpdateWebhookSubscriptionCommand = Partial<CreateWebhookSubscriptionCommand> & {
+  is_active?: boolean;
+};
+
+/**
+ * Webhook delivery DTO - one entry of the delivery log
+ * Used in GET /api/webhooks/:id/deliveries responses
+ */
+export type WebhookDeliveryDto = Omit<WebhookDeliveryRow, "status"> & {
+  status: WebhookDeliveryStatusType;
+};
+
+/**
+ * Body sent to webhook receivers (signed in the X-Badger-Signature header)
+ */
+export interface WebhookPayload {
+  id: string;
+  event: string;
+  created_at: string;
+  data: Json;
+}
+
+/**
+ * Response of POST /api/webhooks/process
+ */
+export interface WebhookProcessResultDto {
+  delivered: number;
+  retried: number;
+  failed: number;
+}
+
+// =============================================================================
+// Notification Types
+// =============================================================================
+
+/**
+ * Event types that produce notifications (events.type, notifications.type)
+ */
+export const NotificationEventType = {
+  BadgeApplicationSubmitted: "badge_application.submitted",
+  BadgeApplicationAccepted: "badge_application.accepted",
+  BadgeApplicationRejected: "badge_application.rejected",
+  PromotionSubmitted: "promotion.submitted",
+  PromotionApproved: "promotion.approved",
+  PromotionRejected: "promotion.rejected",
+} as const;
+
+export type NotificationEventTypeType = (typeof NotificationEventType)[keyof typeof NotificationEventType];
+
+/**
+ * Delivery channels a user can opt out of per event type
+ */
+export const NotificationChannel = {
+  InApp: "in_app",
+  Email: "email",
+} as const;
+
+export type NotificationChannelType = (typeof NotificationChannel)[keyof typeof NotificationChannel];
+
+/**
+ * In-app notification DTO
+ */
+export type NotificationDto = Omit<NotificationRow, "event_id">;
+
+/**
+ * Response for GET /api/notifications
+ */
+export interface NotificationListResponse extends PaginatedResponse<NotificationDto> {
+  unread_count: number;
+}
+
+/**
+ * A single preference; missing rows in the database mean "enabled"
+ */
+export interface NotificationPreferenceDto {
+  event_type: NotificationEventTypeType;
+  channel: NotificationChannelType;
+  enabled: boolean;
+}
+
+/**
+ * Response for GET/PUT /api/notifications/preferences
+ * Contains every (event type, channel) combination with defaults applied
+ */
+export interface NotificationPreferencesResponse {
+  preferences: NotificationPreferenceDto[];
+}
+
+/**
+ * Command for PUT /api/notifications/preferences
+ */
+export interface UpdateNotificationPreferencesCommand {
+  preferences: NotificationPreferenceDto[];
+}
+
+/**
+ * Result of one notification worker run (POST /api/notifications/process)
+ */
+export interface NotificationProcessResultDto {
+  processed_events: number;
+  failed_events: number;
+  notifications_created: number;
+  emails_sent: number;
+  email_failures: number;
+}
+
 // =============================================================================
 // Dashboard View Types
 // =============================================================================
@@ -738,6 +1552,232 @@ export interface ReviewDecisionFormData {
   decisionNote: string;
 }
 
+// =============================================================================
+// Audit Log Browser Types
+// =============================================================================
+
+/**
+ * Filter state for the admin audit log browser
+ */
+export interface AuditLogFilters {
+  actor_id?: string;
+  event_type?: AuditEventTypeType;
+  resource_type?: AuditResourceTypeType;
+  resource_id?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  order: "asc" | "desc";
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Props for the main AuditLogView component
+ */
+export interface AuditLogViewProps {
+  initialData: PaginatedResponse<AuditLogListItemDto>;
+}
+
+/**
+ * Props for AuditLogFilterBar component
+ */
+export interface AuditLogFilterBarProps {
+  filters: AuditLogFilters;
+  onFilterChange: (filters: Partial<AuditLogFilters>) => void;
+  resultCount: number;
+  hasActiveFilters: boolean;
+}
+
+/**
+ * Props for AuditLogTable component
+ */
+export interface AuditLogTableProps {
+  entries: AuditLogListItemDto[];
+  isLoading?: boolean;
+  onActorClick?: (actorId: string) => void;
+  onResourceClick?: (resourceType: AuditResourceTypeType, resourceId: string) => void;
+}
+
+// =============================================================================
+// Error Log Browser Types
+// =============================================================================
+
+/**
+ * Error log entry with nested requester summary
+ * Used for GET /api/error-logs
+ */
+export interface ErrorLogListItemDto extends ErrorLogRow {
+  requester: UserSummary | null;
+}
+
+/**
+ * Filter state for the admin error log browser
+ */
+export interface ErrorLogFilters {
+  route?: string;
+  error_code?: string;
+  request_id?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  order: "asc" | "desc";
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Props for the main ErrorLogView component
+ */
+export interface ErrorLogViewProps {
+  initialData: PaginatedResponse<ErrorLogListItemDto>;
+}
+
+/**
+ * Props for ErrorLogFilterBar component
+ */
+export interface ErrorLogFilterBarProps {
+  filters: ErrorLogFilters;
+  onFilterChange: (filters: Partial<ErrorLogFilters>) => void;
+  resultCount: number;
+  hasActiveFilters: boolean;
+}
+
+/**
+ * Props for ErrorLogTable component
+ */
+export interface ErrorLogTableProps {
+  entries: ErrorLogListItemDto[];
+  isLoading?: boolean;
+  onRouteClick?: (route: string) => void;
+  onErrorCodeClick?: (errorCode: string) => void;
+  onRequestIdClick?: (requestId: string) => void;
+}
+
+// =============================================================================
+// User Management Types
+// =============================================================================
+
+/**
+ * Filter state for the admin user management page
+ */
+export interface UserFilters {
+  search?: string;
+  status?: UserStatusType;
+  is_admin?: boolean;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Props for the main UserManagementView component
+ */
+export interface UserManagementViewProps {
+  initialData: PaginatedResponse<UserListItemDto>;
+  currentUserId: string;
+}
+
+/**
+ * Props for UserFilterBar component
+ */
+export interface UserFilterBarProps {
+  filters: UserFilters;
+  onFilterChange: (filters: Partial<UserFilters>) => void;
+  resultCount: number;
+  hasActiveFilters: boolean;
+}
+
+/**
+ * Props for UserTable component
+ */
+export interface UserTableProps {
+  users: UserListItemDto[];
+  currentUserId: string;
+  isLoading?: boolean;
+  pendingUserId?: string | null;
+  onToggleAdmin: (user: UserListItemDto) => void;
+  onToggleActive: (user: UserListItemDto) => void;
+  onSignOut: (user: UserListItemDto) => void;
+  onEditRoles: (user: UserListItemDto) => void;
+  onEditPosition: (user: UserListItemDto) => void;
+}
+
+/**
+ * Props for ConfirmDeactivateUserModal component
+ */
+export interface ConfirmDeactivateUserModalProps {
+  isOpen: boolean;
+  user: UserListItemDto | null;
+  onConfirm: () => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Props for EditUserRolesModal component
+ */
+export interface EditUserRolesModalProps {
+  isOpen: boolean;
+  user: UserListItemDto | null;
+  onSave: (roles: UserRoleAssignment[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Props for EditUserPositionModal component
+ */
+export interface EditUserPositionModalProps {
+  isOpen: boolean;
+  user: UserListItemDto | null;
+  onSave: (command: SetUserPositionCommand) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Props for ImportOrgChartModal component
+ */
+export interface ImportOrgChartModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => Promise<void>;
+}
+
+// =============================================================================
+// Team Types
+// =============================================================================
+
+/**
+ * Props for the main TeamView component ("My team" dashboard)
+ */
+export interface TeamViewProps {
+  members: TeamMemberProgressDto[];
+}
+
+/**
+ * Props for TeamMemberCard component
+ */
+export interface TeamMemberCardProps {
+  member: TeamMemberProgressDto;
+}
+
+// =============================================================================
+// Career Roadmap Types
+// =============================================================================
+
+/**
+ * Props for the main RoadmapView component
+ */
+export interface RoadmapViewProps {
+  roadmap: CareerRoadmapDto;
+  /** False when a manager or admin views a report's roadmap */
+  isOwnRoadmap: boolean;
+}
+
+/**
+ * Props for RoadmapStepCard component
+ */
+export interface RoadmapStepCardProps {
+  step: RoadmapStepDto;
+  isNext: boolean;
+}
+
 // =============================================================================
 // Badge Application Editor Types
 // =============================================================================
@@ -1043,7 +2083,7 @@ export interface BadgeGridProps {
 export interface ConfirmDeactivateModalProps {
   isOpen: boolean;
   badge: CatalogBadgeListItemDto | null;
-  onConfirm: (badgeId: string) => Promise<void>;
+  onConfirm: (badgeId: string, action: "deactivate" | "archive") => Promise<void>;
   onCancel: () => void;
 }
 
@@ -1054,6 +2094,16 @@ export interface CatalogPageHeaderProps {
   title: string;
   isAdmin: boolean;
   onCreateClick: () => void;
+  onImportClick?: () => void;
+}
+
+/**
+ * Props for ImportCatalogModal
+ */
+export interface ImportCatalogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => Promise<void>;
 }
 
 // =============================================================================
@@ -1217,6 +2267,16 @@ export interface PromotionTemplatesViewProps {
 export interface TemplateListHeaderProps {
   isAdmin: boolean;
   onCreateClick: () => void;
+  onSyncClick?: () => void;
+}
+
+/**
+ * Props for LadderSyncModal component
+ */
+export interface LadderSyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSynced: () => Promise<void>;
 }
 
 /**
@@ -1343,6 +2403,15 @@ export interface TemplateRulesDetailCardProps {
   rules: PromotionTemplateRule[];
 }
 
+/**
+ * Props for TemplateVersionHistory component
+ */
+export interface TemplateVersionHistoryProps {
+  versions: PromotionTemplateVersionDto[];
+  isLoading: boolean;
+  error: string | null;
+}
+
 /**
  * Props for UseTemplateCard component
  */
@@ -1405,6 +2474,16 @@ export interface PromotionMetadataCardProps {
 export interface EligibilityPreviewProps {
   validationResult: PromotionValidationResponse | null;
   isLoading: boolean;
+  /** Badges in the promotion, used to name the badges filling each requirement */
+  badgeApplications?: BadgeApplicationWithBadge[];
+}
+
+/**
+ * Props for AutoFillSummary component
+ */
+export interface AutoFillSummaryProps {
+  result: PromotionAutoFillResponse;
+  onDismiss: () => void;
 }
 
 /**
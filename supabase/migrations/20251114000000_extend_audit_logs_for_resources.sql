@@ -0,0 +1,41 @@
+-- migration: extend audit_logs with resource columns and admin query indexes
+-- created: 2025-11-14 00:00:00 utc
+-- purpose: give every audit entry a typed resource reference so the admin audit log
+--          browser (GET /api/audit-logs) can filter by resource and date range
+-- affected: audit_logs table (columns, indexes, insert policy)
+-- special notes:
+--  - resource_type is free text (eg: 'badge_application', 'promotion', 'promotion_template',
+--    'catalog_badge'); allowed values are enforced in application code (AuditResourceType)
+--  - resource_id is not a foreign key because audit rows must outlive the resource they describe
+--  - existing rows keep null resource columns; payload.id is copied into resource_id where present
+--
+
+begin;
+
+alter table audit_logs add column if not exists resource_type text;
+alter table audit_logs add column if not exists resource_id uuid;
+
+-- backfill resource_id for rows written before this migration (payload carried the id)
+update audit_logs
+set resource_id = (payload ->> 'id')::uuid
+where resource_id is null
+  and payload ? 'id'
+  and (payload ->> 'id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+
+-- indexes supporting the admin browser filters (newest first)
+create index if not exists idx_audit_logs_created_at on audit_logs (created_at desc);
+create index if not exists idx_audit_logs_event_type_created_at on audit_logs (event_type, created_at desc);
+create index if not exists idx_audit_logs_resource on audit_logs (resource_type, resource_id, created_at desc);
+
+-- audit writes happen on behalf of the acting user; admins may write entries for any actor
+drop policy if exists audit_logs_insert_authenticated on audit_logs;
+create policy audit_logs_insert_authenticated on audit_logs for insert to authenticated
+with check (is_admin() or actor_id = auth.uid());
+
+drop policy if exists audit_logs_select_authenticated on audit_logs;
+create policy audit_logs_select_authenticated on audit_logs for select to authenticated
+using (is_admin());
+
+commit;
+
+-- end migration
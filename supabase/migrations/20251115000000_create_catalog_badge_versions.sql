@@ -0,0 +1,76 @@
+-- migration: catalog badge version history
+-- created: 2025-11-15 00:00:00 utc
+-- purpose: keep the wording of every superseded catalog badge version so that
+--          badge_applications.catalog_badge_version resolves to the exact text the
+--          applicant applied against, and admins can review a version timeline
+-- affected: catalog_badges (updated_at, updated_by), new table catalog_badge_versions
+-- special notes:
+--  - catalog_badges keeps holding the current version; catalog_badge_versions only stores
+--    earlier versions (one row per superseded version)
+--  - the snapshot is written by a trigger whenever catalog_badges.version changes, so the
+--    archive and the edit happen in the same transaction
+--  - authored_by/authored_at describe who wrote the archived version and when it became
+--    current; superseded_by/superseded_at describe the edit that replaced it
+--
+
+begin;
+
+-- track who last edited the current version and when
+alter table catalog_badges add column if not exists updated_at timestamptz;
+alter table catalog_badges add column if not exists updated_by uuid references users(id) on delete set null;
+
+create table if not exists catalog_badge_versions (
+  id uuid primary key default gen_random_uuid(),
+  catalog_badge_id uuid not null references catalog_badges(id) on delete cascade,
+  version int not null,
+  title text not null,
+  description text,
+  category text not null,
+  level text not null,
+  metadata jsonb default '{}'::jsonb,
+  authored_by uuid references users(id) on delete set null,
+  authored_at timestamptz not null,
+  superseded_by uuid references users(id) on delete set null,
+  superseded_at timestamptz not null default now(),
+  constraint catalog_badge_versions_badge_version_key unique (catalog_badge_id, version)
+);
+
+create index if not exists idx_catalog_badge_versions_badge on catalog_badge_versions (catalog_badge_id, version desc);
+
+alter table catalog_badge_versions enable row level security;
+
+-- history is readable by everyone who can read the catalog (applications reference old versions)
+create policy catalog_badge_versions_select_authenticated on catalog_badge_versions for select to authenticated using (true);
+
+-- only admins archive versions (via the trigger below, when editing a badge); history is never
+-- updated or deleted
+create policy catalog_badge_versions_insert_authenticated on catalog_badge_versions for insert to authenticated
+with check (is_admin());
+
+-- helper: archive the previous wording when a catalog badge moves to a new version
+create or replace function _10xbadger_archive_catalog_badge_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.version is distinct from new.version then
+    insert into catalog_badge_versions (
+      catalog_badge_id, version, title, description, category, level, metadata,
+      authored_by, authored_at, superseded_by, superseded_at
+    ) values (
+      old.id, old.version, old.title, old.description, old.category, old.level, old.metadata,
+      coalesce(old.updated_by, old.created_by), coalesce(old.updated_at, old.created_at),
+      new.updated_by, coalesce(new.updated_at, now())
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create trigger catalog_badges_archive_version
+after update on catalog_badges
+for each row execute function _10xbadger_archive_catalog_badge_version();
+
+commit;
+
+-- end migration
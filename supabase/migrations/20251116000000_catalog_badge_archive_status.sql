@@ -0,0 +1,21 @@
+-- migration: catalog badge archive status
+-- created: 2025-11-16 00:00:00 utc
+-- purpose: add a distinct, permanent 'archived' status to catalog badges next to the
+--          reversible 'inactive' status (see POST /api/catalog-badges/:id/reactivate)
+-- affected: catalog_badges (archived_at column, status check constraint)
+-- special notes:
+--  - active <-> inactive is reversible; archived is terminal (no edits, no reactivation)
+--  - existing rows only use 'active'/'inactive', so the check constraint applies cleanly
+--
+
+begin;
+
+alter table catalog_badges add column if not exists archived_at timestamptz;
+
+alter table catalog_badges drop constraint if exists catalog_badges_status_check;
+alter table catalog_badges add constraint catalog_badges_status_check
+check (status in ('active', 'inactive', 'archived'));
+
+commit;
+
+-- end migration
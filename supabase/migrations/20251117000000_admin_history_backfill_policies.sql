@@ -0,0 +1,20 @@
+-- Migration: Allow admins to backfill historical badges and promotions
+-- Created: 2025-11-17
+-- Purpose: The historical importer (POST /api/history-import) creates
+-- badge_applications and promotions on behalf of other users. The existing
+-- insert policies only allow users to insert rows for themselves, so admins
+-- get additional insert policies. The promotion_badges insert policy still
+-- checks the legacy app.is_admin setting, so it gets an is_admin() variant too.
+
+BEGIN;
+
+CREATE POLICY badge_applications_insert_admin ON badge_applications FOR INSERT TO authenticated
+WITH CHECK (is_admin());
+
+CREATE POLICY promotions_insert_admin ON promotions FOR INSERT TO authenticated
+WITH CHECK (is_admin());
+
+CREATE POLICY promotion_badges_insert_admin ON promotion_badges FOR INSERT TO authenticated
+WITH CHECK (is_admin());
+
+COMMIT;
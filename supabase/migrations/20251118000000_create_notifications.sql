@@ -0,0 +1,104 @@
+-- migration: notification outbox, in-app notifications and per-user preferences
+-- created: 2025-11-18 00:00:00 utc
+-- purpose: give the "events" rows written by badge application and promotion transitions
+--          a real home and let the notification worker (POST /api/notifications/process)
+--          fan them out to in-app notifications and email
+-- affected: events, notifications, notification_preferences (new tables)
+-- special notes:
+--  - events is an outbox: rows are written by the acting user's request and processed
+--    later by the worker, which runs with the service role key (bypasses rls)
+--  - notifications are unique per (event_id, user_id) so a retried event never
+--    produces a second in-app notification
+--  - preferences are opt-out: a missing row means the channel is enabled
+--
+
+begin;
+
+-- -------------------------------
+-- events (outbox)
+-- -------------------------------
+create table if not exists events (
+  id uuid primary key default gen_random_uuid(),
+  type text not null,
+  resource text not null,
+  resource_id uuid,
+  actor_id uuid references users (id) on delete set null,
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  processed_at timestamptz,
+  attempts integer not null default 0,
+  last_error text
+);
+
+-- worker picks up unprocessed events oldest first
+create index if not exists idx_events_pending on events (created_at) where processed_at is null;
+
+alter table events enable row level security;
+
+-- any signed-in user may enqueue events for the transitions they perform
+create policy events_insert_authenticated on events for insert to authenticated
+with check (actor_id is null or actor_id = auth.uid() or is_admin());
+
+create policy events_select_authenticated on events for select to authenticated
+using (is_admin());
+
+-- -------------------------------
+-- notifications (in-app channel)
+-- -------------------------------
+create table if not exists notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users (id) on delete cascade,
+  event_id uuid references events (id) on delete set null,
+  type text not null,
+  title text not null,
+  body text,
+  link text,
+  read_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (event_id, user_id)
+);
+
+create index if not exists idx_notifications_user_created_at on notifications (user_id, created_at desc);
+create index if not exists idx_notifications_user_unread on notifications (user_id) where read_at is null;
+
+alter table notifications enable row level security;
+
+-- users read and mark their own notifications; inserts come from the worker only
+create policy notifications_select_own on notifications for select to authenticated
+using (user_id = auth.uid());
+
+create policy notifications_update_own on notifications for update to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+-- -------------------------------
+-- notification_preferences (opt-out per event type and channel)
+-- -------------------------------
+create table if not exists notification_preferences (
+  user_id uuid not null references users (id) on delete cascade,
+  event_type text not null,
+  channel text not null check (channel in ('in_app', 'email')),
+  enabled boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, event_type, channel)
+);
+
+alter table notification_preferences enable row level security;
+
+create policy notification_preferences_select_own on notification_preferences for select to authenticated
+using (user_id = auth.uid());
+
+create policy notification_preferences_insert_own on notification_preferences for insert to authenticated
+with check (user_id = auth.uid());
+
+create policy notification_preferences_update_own on notification_preferences for update to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create trigger notification_preferences_set_updated_at
+before update on notification_preferences
+for each row execute function _10xbadger_set_updated_at();
+
+commit;
+
+-- end migration
@@ -0,0 +1,75 @@
+-- migration: structured error log and auth event storage
+-- created: 2025-11-19 00:00:00 utc
+-- purpose: persist server errors written by logError() and authentication outcomes written
+--          by logAuthSuccess()/logAuthFailure() (src/lib/error-logger.ts), correlated by the
+--          request id the middleware assigns to every request (X-Request-Id header and
+--          request_id in ApiError bodies); read by the admin error log browser
+-- affected: error_logs, auth_events (new tables)
+-- special notes:
+--  - writes normally go through the service role client; the authenticated insert policy
+--    on error_logs is a fallback for deployments without SUPABASE_SERVICE_ROLE_KEY
+--  - auth_events.user_id is not a foreign key: failed logins may reference auth users
+--    that have no public.users row
+--
+
+begin;
+
+-- -------------------------------
+-- error_logs
+-- -------------------------------
+create table if not exists error_logs (
+  id uuid primary key default gen_random_uuid(),
+  request_id text,
+  route text not null,
+  method text,
+  status integer,
+  error_code text not null,
+  message text not null,
+  payload jsonb,
+  requester_id uuid references users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_error_logs_created_at on error_logs (created_at desc);
+create index if not exists idx_error_logs_request_id on error_logs (request_id);
+create index if not exists idx_error_logs_error_code_created_at on error_logs (error_code, created_at desc);
+create index if not exists idx_error_logs_route_created_at on error_logs (route, created_at desc);
+
+alter table error_logs enable row level security;
+
+create policy error_logs_insert_authenticated on error_logs for insert to authenticated
+with check (requester_id is null or requester_id = auth.uid());
+
+create policy error_logs_select_authenticated on error_logs for select to authenticated
+using (is_admin());
+
+-- -------------------------------
+-- auth_events
+-- -------------------------------
+create table if not exists auth_events (
+  id uuid primary key default gen_random_uuid(),
+  outcome text not null check (outcome in ('success', 'failure')),
+  user_id uuid,
+  email text,
+  method text,
+  message text,
+  metadata jsonb,
+  request_id text,
+  ip text,
+  user_agent text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_auth_events_created_at on auth_events (created_at desc);
+create index if not exists idx_auth_events_user_id on auth_events (user_id, created_at desc);
+create index if not exists idx_auth_events_email on auth_events (lower(email), created_at desc);
+
+alter table auth_events enable row level security;
+
+-- no insert policy: only the service role writes auth events
+create policy auth_events_select_authenticated on auth_events for select to authenticated
+using (is_admin());
+
+commit;
+
+-- end migration
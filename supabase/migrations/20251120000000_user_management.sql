@@ -0,0 +1,100 @@
+-- migration: admin user management and account deactivation
+-- created: 2025-11-20 00:00:00 utc
+-- purpose: support the admin user management page (GET /api/users, PATCH /api/users/:id,
+--          POST /api/users/:id/deactivate and /reactivate) and replace the
+--          admin@badger.com convention with first-user bootstrap
+-- affected: users (new columns, update policy, bootstrap trigger), is_admin() function
+-- special notes:
+--  - deactivated users keep their data but are blocked at login and in requireAuth;
+--    a deactivated admin loses admin rights in rls (is_admin() returns false)
+--  - the users update policy previously only matched the caller's own row, so admins
+--    could not update other users despite its comment; admins now may
+--  - the first user inserted while no active admin exists becomes admin, so a fresh
+--    install no longer depends on a seeded email address; later admins are granted
+--    from the user management page
+--  - the seeded admin@badger.com row (20251111000001) is removed when it has no matching
+--    auth account, since it blocks registering that address and can never sign in
+--
+
+begin;
+
+-- -------------------------------
+-- users: deactivation columns
+-- -------------------------------
+alter table users add column if not exists deactivated_at timestamptz;
+alter table users add column if not exists deactivated_by uuid references users (id) on delete set null;
+
+-- -------------------------------
+-- is_admin(): deactivated admins lose their rights
+-- -------------------------------
+create or replace function is_admin()
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  admin_status boolean;
+begin
+  select u.is_admin and u.deactivated_at is null into admin_status
+  from users u
+  where u.id = auth.uid();
+
+  return coalesce(admin_status, false);
+end;
+$$;
+
+-- -------------------------------
+-- users: update policy
+-- -------------------------------
+drop policy if exists users_update_authenticated on users;
+
+-- users may update their own profile but not their admin flag or deactivation state;
+-- admins may update any user
+create policy users_update_authenticated on users for update to authenticated
+using (id = auth.uid() or is_admin())
+with check (
+  is_admin() or (
+    id = auth.uid()
+    and is_admin = (select u.is_admin from users u where u.id = auth.uid())
+    and deactivated_at is not distinct from (select u.deactivated_at from users u where u.id = auth.uid())
+  )
+);
+
+-- -------------------------------
+-- users: first-user admin bootstrap
+-- -------------------------------
+create or replace function users_bootstrap_first_admin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- serialize concurrent registrations so only one of them can become the first admin
+  perform pg_advisory_xact_lock(hashtext('users_bootstrap_first_admin'));
+
+  if not exists (select 1 from users where is_admin and deactivated_at is null) then
+    new.is_admin := true;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists users_bootstrap_first_admin on users;
+create trigger users_bootstrap_first_admin
+before insert on users
+for each row
+execute function users_bootstrap_first_admin();
+
+-- -------------------------------
+-- remove the orphaned seed admin
+-- -------------------------------
+delete from users u
+where u.email = 'admin@badger.com'
+  and not exists (select 1 from auth.users a where a.id = u.id);
+
+commit;
+
+-- end migration
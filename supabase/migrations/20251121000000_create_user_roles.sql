@@ -0,0 +1,211 @@
+-- migration: roles and permissions beside the admin flag
+-- created: 2025-11-21 00:00:00 utc
+-- purpose: let admins delegate badge review, catalog management and promotion approval
+--          without granting full admin rights; reviewers may be scoped to badge categories
+-- affected: user_roles (new table), has_permission() (new function), rls policies on users,
+--           badge_applications, catalog_badges, catalog_badge_versions, promotion_templates,
+--           promotions and promotion_badges
+-- special notes:
+--  - roles map to permissions in has_permission(); keep it in sync with ROLE_PERMISSIONS
+--    in src/lib/auth/permissions.ts
+--      reviewer           -> badge_applications.review (optionally limited to categories)
+--      catalog_manager    -> catalog.manage, promotion_templates.manage
+--      promotion_approver -> promotions.approve
+--  - admins (users.is_admin) hold every permission; deactivated users hold none
+--  - user management, audit/error logs and history import stay admin-only
+--
+
+begin;
+
+-- -------------------------------
+-- user_roles
+-- -------------------------------
+create table if not exists user_roles (
+  user_id uuid not null references users (id) on delete cascade,
+  role text not null check (role in ('reviewer', 'catalog_manager', 'promotion_approver')),
+  -- badge categories a reviewer may decide on; null means all categories
+  categories text[],
+  granted_by uuid references users (id) on delete set null,
+  granted_at timestamptz not null default now(),
+  primary key (user_id, role)
+);
+
+alter table user_roles enable row level security;
+
+create policy user_roles_select_authenticated on user_roles for select to authenticated
+using (user_id = auth.uid() or is_admin());
+
+create policy user_roles_insert_authenticated on user_roles for insert to authenticated
+with check (is_admin());
+
+create policy user_roles_update_authenticated on user_roles for update to authenticated
+using (is_admin())
+with check (is_admin());
+
+create policy user_roles_delete_authenticated on user_roles for delete to authenticated
+using (is_admin());
+
+-- -------------------------------
+-- has_permission(): admin, or an active user holding a role that grants the permission
+-- (and, for category-scoped reviewers, the given category)
+-- -------------------------------
+create or replace function has_permission(permission text, category text default null)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if is_admin() then
+    return true;
+  end if;
+
+  return exists (
+    select 1
+    from user_roles r
+    join users u on u.id = r.user_id
+    where r.user_id = auth.uid()
+      and u.deactivated_at is null
+      and (
+        (permission = 'badge_applications.review' and r.role = 'reviewer'
+          and (r.categories is null or category is null or category = any (r.categories)))
+        or (permission in ('catalog.manage', 'promotion_templates.manage') and r.role = 'catalog_manager')
+        or (permission = 'promotions.approve' and r.role = 'promotion_approver')
+      )
+  );
+end;
+$$;
+
+grant execute on function has_permission(text, text) to authenticated;
+
+-- -------------------------------
+-- users: reviewers and approvers see the people whose work they decide on
+-- -------------------------------
+drop policy if exists users_select_authenticated on users;
+
+create policy users_select_authenticated on users for select to authenticated
+using (
+  id = auth.uid()
+  or is_admin()
+  or has_permission('badge_applications.review')
+  or has_permission('promotions.approve')
+);
+
+-- -------------------------------
+-- badge_applications: reviewers read and decide on non-draft applications in their categories
+-- -------------------------------
+drop policy if exists badge_applications_select_authenticated on badge_applications;
+drop policy if exists badge_applications_update_authenticated on badge_applications;
+
+create policy badge_applications_select_authenticated on badge_applications for select to authenticated
+using (
+  applicant_id = auth.uid()
+  or is_admin()
+  or (
+    status <> 'draft'
+    and has_permission(
+      'badge_applications.review',
+      (select c.category from catalog_badges c where c.id = badge_applications.catalog_badge_id)
+    )
+  )
+);
+
+create policy badge_applications_update_authenticated on badge_applications for update to authenticated
+using (
+  (applicant_id = auth.uid() and status = 'draft')
+  or is_admin()
+  or (
+    status = 'submitted'
+    and has_permission(
+      'badge_applications.review',
+      (select c.category from catalog_badges c where c.id = badge_applications.catalog_badge_id)
+    )
+  )
+)
+with check (
+  is_admin()
+  or (reviewed_by is null and reviewed_at is null)
+  or (
+    reviewed_by = auth.uid()
+    and has_permission(
+      'badge_applications.review',
+      (select c.category from catalog_badges c where c.id = badge_applications.catalog_badge_id)
+    )
+  )
+);
+
+-- -------------------------------
+-- catalog: catalog managers
+-- -------------------------------
+drop policy if exists catalog_badges_insert_authenticated on catalog_badges;
+drop policy if exists catalog_badges_update_authenticated on catalog_badges;
+drop policy if exists catalog_badges_delete_authenticated on catalog_badges;
+
+create policy catalog_badges_insert_authenticated on catalog_badges for insert to authenticated
+with check (has_permission('catalog.manage'));
+
+create policy catalog_badges_update_authenticated on catalog_badges for update to authenticated
+using (has_permission('catalog.manage'))
+with check (has_permission('catalog.manage'));
+
+create policy catalog_badges_delete_authenticated on catalog_badges for delete to authenticated
+using (has_permission('catalog.manage'));
+
+drop policy if exists catalog_badge_versions_insert_authenticated on catalog_badge_versions;
+
+create policy catalog_badge_versions_insert_authenticated on catalog_badge_versions for insert to authenticated
+with check (has_permission('catalog.manage'));
+
+-- -------------------------------
+-- promotion_templates: catalog managers
+-- -------------------------------
+drop policy if exists promotion_templates_insert_authenticated on promotion_templates;
+drop policy if exists promotion_templates_update_authenticated on promotion_templates;
+drop policy if exists promotion_templates_delete_authenticated on promotion_templates;
+
+create policy promotion_templates_insert_authenticated on promotion_templates for insert to authenticated
+with check (has_permission('promotion_templates.manage'));
+
+create policy promotion_templates_update_authenticated on promotion_templates for update to authenticated
+using (has_permission('promotion_templates.manage'))
+with check (has_permission('promotion_templates.manage'));
+
+create policy promotion_templates_delete_authenticated on promotion_templates for delete to authenticated
+using (has_permission('promotion_templates.manage'));
+
+-- -------------------------------
+-- promotions: approvers read and decide on submitted promotions
+-- -------------------------------
+drop policy if exists promotions_select_authenticated on promotions;
+drop policy if exists promotions_update_authenticated on promotions;
+
+create policy promotions_select_authenticated on promotions for select to authenticated
+using (
+  created_by = auth.uid()
+  or is_admin()
+  or (status <> 'draft' and has_permission('promotions.approve'))
+);
+
+create policy promotions_update_authenticated on promotions for update to authenticated
+using (
+  (created_by = auth.uid() and status = 'draft')
+  or is_admin()
+  or (status = 'submitted' and has_permission('promotions.approve'))
+)
+with check (
+  is_admin()
+  or has_permission('promotions.approve')
+  or status <> 'approved'
+);
+
+create policy promotion_badges_select_approver on promotion_badges for select to authenticated
+using (has_permission('promotions.approve'));
+
+create policy promotion_badges_update_approver on promotion_badges for update to authenticated
+using (has_permission('promotions.approve'))
+with check (has_permission('promotions.approve'));
+
+commit;
+
+-- end migration
@@ -0,0 +1,134 @@
+-- migration: manager hierarchy and teams
+-- created: 2025-11-22 00:00:00 utc
+-- purpose: let team leads read their reports' badges and promotions without admin rights
+--          (my team dashboard, org chart import via POST /api/users/org-chart)
+-- affected: users (new columns, cycle trigger), is_manager_of() (new function), rls policies on
+--           users, badge_applications, promotions and promotion_badges
+-- special notes:
+--  - users.manager_id points at the direct manager; managers see direct and indirect reports
+--  - manager chains must not form cycles (enforced by users_prevent_manager_cycle)
+--  - managers get read access only; deciding on applications and promotions still requires
+--    the reviewer / promotion approver roles
+--  - deactivated managers lose access to their reports' data
+--
+
+begin;
+
+-- -------------------------------
+-- users: manager and team
+-- -------------------------------
+alter table users add column if not exists manager_id uuid references users (id) on delete set null;
+alter table users add column if not exists team text;
+
+alter table users drop constraint if exists users_manager_not_self;
+alter table users add constraint users_manager_not_self check (manager_id is null or manager_id <> id);
+
+create index if not exists idx_users_manager_id on users (manager_id);
+
+-- -------------------------------
+-- users_prevent_manager_cycle(): a user cannot (indirectly) report to themselves
+-- -------------------------------
+create or replace function users_prevent_manager_cycle()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.manager_id is null then
+    return new;
+  end if;
+
+  if exists (
+    with recursive chain (id, depth) as (
+      select new.manager_id, 1
+      union all
+      select u.manager_id, c.depth + 1
+      from users u
+      join chain c on u.id = c.id
+      where u.manager_id is not null and c.depth < 50
+    )
+    select 1 from chain where id = new.id
+  ) then
+    raise exception 'manager cycle: user % cannot report to %', new.id, new.manager_id
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists users_prevent_manager_cycle on users;
+create trigger users_prevent_manager_cycle
+before insert or update of manager_id on users
+for each row
+execute function users_prevent_manager_cycle();
+
+-- -------------------------------
+-- is_manager_of(): the caller is an active (direct or indirect) manager of the given user
+-- -------------------------------
+create or replace function is_manager_of(target uuid)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if target is null or target = auth.uid() then
+    return false;
+  end if;
+
+  if not exists (select 1 from users where id = auth.uid() and deactivated_at is null) then
+    return false;
+  end if;
+
+  return exists (
+    with recursive chain (id, depth) as (
+      select u.manager_id, 1 from users u where u.id = target and u.manager_id is not null
+      union all
+      select u.manager_id, c.depth + 1
+      from users u
+      join chain c on u.id = c.id
+      where u.manager_id is not null and c.depth < 50
+    )
+    select 1 from chain where id = auth.uid()
+  );
+end;
+$$;
+
+grant execute on function is_manager_of(uuid) to authenticated;
+
+-- -------------------------------
+-- users: managers see their reports
+-- -------------------------------
+drop policy if exists users_select_authenticated on users;
+
+create policy users_select_authenticated on users for select to authenticated
+using (
+  id = auth.uid()
+  or is_admin()
+  or has_permission('badge_applications.review')
+  or has_permission('promotions.approve')
+  or is_manager_of(id)
+);
+
+-- -------------------------------
+-- badge_applications and promotions: managers read their reports' records
+-- -------------------------------
+create policy badge_applications_select_manager on badge_applications for select to authenticated
+using (is_manager_of(applicant_id));
+
+create policy promotions_select_manager on promotions for select to authenticated
+using (is_manager_of(created_by));
+
+create policy promotion_badges_select_manager on promotion_badges for select to authenticated
+using (
+  exists (
+    select 1 from promotions p
+    where p.id = promotion_badges.promotion_id and is_manager_of(p.created_by)
+  )
+);
+
+commit;
+
+-- end migration
@@ -0,0 +1,333 @@
+-- migration: atomic promotion state transitions
+-- created: 2025-11-23 00:00:00 utc
+-- purpose: run every promotion transition (add/remove badges, submit, approve, reject) as one
+--          transaction instead of several separate api calls that could fail half-way
+-- affected: add_promotion_badges(), remove_promotion_badges(), submit_promotion(),
+--           approve_promotion(), reject_promotion() (new functions)
+-- special notes:
+--  - called via rpc from PromotionService; each function either applies every change or none
+--  - failures raise sqlstate P0001 with a machine-readable code as message and a json detail;
+--    keep the codes in sync with PromotionTransitionErrorCode in src/lib/promotion.service.ts
+--      promotion_not_found     -> promotion does not exist
+--      not_authorized          -> caller is not the actor, not the owner or not an approver
+--      invalid_status          -> detail: { current_status }
+--      badge_not_found         -> detail: { badge_application_id }
+--      badge_not_accepted      -> detail: { badge_application_id, current_status }
+--      badge_already_reserved  -> detail: { badge_application_id, owning_promotion_id }
+--      badge_not_in_promotion  -> detail: { badge_application_id }
+--  - functions are security definer because the table policies do not let owners update
+--    accepted badge applications or delete reservations; they check the caller themselves
+--    (p_actor_id must be auth.uid(); approve and reject need promotions.approve)
+--  - the promotion row is locked (for update) first, so concurrent transitions serialize
+--
+
+begin;
+
+-- -------------------------------
+-- _promotion_transition_error(): raises a coded transition error
+-- -------------------------------
+create or replace function _promotion_transition_error(code text, detail jsonb default '{}'::jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  raise exception using errcode = 'P0001', message = code, detail = detail::text;
+end;
+$$;
+
+-- -------------------------------
+-- _lock_promotion_for_transition(): locks a promotion and checks caller, owner and status
+-- -------------------------------
+create or replace function _lock_promotion_for_transition(
+  p_promotion_id uuid,
+  p_actor_id uuid,
+  p_expected_status text,
+  p_owner_only boolean
+)
+returns promotions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promotion promotions;
+begin
+  if p_actor_id is distinct from auth.uid() then
+    perform _promotion_transition_error('not_authorized');
+  end if;
+
+  select * into v_promotion from promotions where id = p_promotion_id for update;
+
+  if not found then
+    perform _promotion_transition_error('promotion_not_found');
+  end if;
+
+  if p_owner_only and v_promotion.created_by <> p_actor_id then
+    perform _promotion_transition_error('not_authorized');
+  end if;
+
+  if not p_owner_only and not has_permission('promotions.approve') then
+    perform _promotion_transition_error('not_authorized');
+  end if;
+
+  if v_promotion.status <> p_expected_status then
+    perform _promotion_transition_error('invalid_status', jsonb_build_object('current_status', v_promotion.status));
+  end if;
+
+  return v_promotion;
+end;
+$$;
+
+-- -------------------------------
+-- add_promotion_badges(): reserves accepted badge applications for a draft promotion
+-- -------------------------------
+create or replace function add_promotion_badges(
+  p_promotion_id uuid,
+  p_badge_application_ids uuid[],
+  p_actor_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_missing uuid;
+  v_application record;
+  v_reservation record;
+begin
+  perform _lock_promotion_for_transition(p_promotion_id, p_actor_id, 'draft', true);
+
+  select requested.id into v_missing
+  from unnest(p_badge_application_ids) as requested (id)
+  where not exists (
+    select 1 from badge_applications ba where ba.id = requested.id and ba.applicant_id = p_actor_id
+  )
+  limit 1;
+
+  if v_missing is not null then
+    perform _promotion_transition_error('badge_not_found', jsonb_build_object('badge_application_id', v_missing));
+  end if;
+
+  -- lock the applications so they cannot change status while being reserved
+  perform 1 from badge_applications where id = any (p_badge_application_ids) for update;
+
+  select id, status into v_application
+  from badge_applications
+  where id = any (p_badge_application_ids) and status <> 'accepted'
+  limit 1;
+
+  if found then
+    perform _promotion_transition_error(
+      'badge_not_accepted',
+      jsonb_build_object('badge_application_id', v_application.id, 'current_status', v_application.status)
+    );
+  end if;
+
+  select badge_application_id, promotion_id into v_reservation
+  from promotion_badges
+  where badge_application_id = any (p_badge_application_ids) and consumed = false
+  limit 1;
+
+  if found then
+    perform _promotion_transition_error(
+      'badge_already_reserved',
+      jsonb_build_object(
+        'badge_application_id', v_reservation.badge_application_id,
+        'owning_promotion_id', v_reservation.promotion_id
+      )
+    );
+  end if;
+
+  insert into promotion_badges (promotion_id, badge_application_id, assigned_by, consumed)
+  select p_promotion_id, requested.id, p_actor_id, false
+  from unnest(p_badge_application_ids) as requested (id);
+
+  return jsonb_build_object(
+    'promotion_id', p_promotion_id,
+    'added_count', cardinality(p_badge_application_ids),
+    'badge_application_ids', to_jsonb(p_badge_application_ids)
+  );
+exception
+  -- a concurrent reservation won the race for the unconsumed-reservation unique index
+  when unique_violation then
+    select badge_application_id, promotion_id into v_reservation
+    from promotion_badges
+    where badge_application_id = any (p_badge_application_ids) and consumed = false
+    limit 1;
+
+    perform _promotion_transition_error(
+      'badge_already_reserved',
+      jsonb_build_object(
+        'badge_application_id', v_reservation.badge_application_id,
+        'owning_promotion_id', v_reservation.promotion_id
+      )
+    );
+    return null;
+end;
+$$;
+
+-- -------------------------------
+-- remove_promotion_badges(): releases reservations of a draft promotion
+-- -------------------------------
+create or replace function remove_promotion_badges(
+  p_promotion_id uuid,
+  p_badge_application_ids uuid[],
+  p_actor_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_missing uuid;
+begin
+  perform _lock_promotion_for_transition(p_promotion_id, p_actor_id, 'draft', true);
+
+  select requested.id into v_missing
+  from unnest(p_badge_application_ids) as requested (id)
+  where not exists (
+    select 1 from promotion_badges pb where pb.promotion_id = p_promotion_id and pb.badge_application_id = requested.id
+  )
+  limit 1;
+
+  if v_missing is not null then
+    perform _promotion_transition_error('badge_not_in_promotion', jsonb_build_object('badge_application_id', v_missing));
+  end if;
+
+  delete from promotion_badges
+  where promotion_id = p_promotion_id and badge_application_id = any (p_badge_application_ids);
+
+  return jsonb_build_object('removed_count', cardinality(p_badge_application_ids));
+end;
+$$;
+
+-- -------------------------------
+-- submit_promotion(): draft -> submitted, reserved badges -> used_in_promotion
+-- -------------------------------
+create or replace function submit_promotion(p_promotion_id uuid, p_actor_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promotion promotions;
+  v_badge_ids uuid[];
+  v_application record;
+begin
+  perform _lock_promotion_for_transition(p_promotion_id, p_actor_id, 'draft', true);
+
+  select coalesce(array_agg(badge_application_id), '{}') into v_badge_ids
+  from promotion_badges
+  where promotion_id = p_promotion_id;
+
+  perform 1 from badge_applications where id = any (v_badge_ids) for update;
+
+  select id, status into v_application
+  from badge_applications
+  where id = any (v_badge_ids) and status <> 'accepted'
+  limit 1;
+
+  if found then
+    perform _promotion_transition_error(
+      'badge_not_accepted',
+      jsonb_build_object('badge_application_id', v_application.id, 'current_status', v_application.status)
+    );
+  end if;
+
+  update promotions
+  set status = 'submitted', submitted_at = now()
+  where id = p_promotion_id
+  returning * into v_promotion;
+
+  update badge_applications set status = 'used_in_promotion' where id = any (v_badge_ids);
+
+  return jsonb_build_object('promotion', to_jsonb(v_promotion), 'badge_application_ids', to_jsonb(v_badge_ids));
+end;
+$$;
+
+-- -------------------------------
+-- approve_promotion(): submitted -> approved, reservations consumed
+-- -------------------------------
+create or replace function approve_promotion(p_promotion_id uuid, p_actor_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promotion promotions;
+  v_badge_ids uuid[];
+begin
+  perform _lock_promotion_for_transition(p_promotion_id, p_actor_id, 'submitted', false);
+
+  update promotions
+  set status = 'approved', approved_by = p_actor_id, approved_at = now(), executed = true
+  where id = p_promotion_id
+  returning * into v_promotion;
+
+  -- promotions_set_consumed already does this; kept explicit so approval never depends on it
+  update promotion_badges set consumed = true where promotion_id = p_promotion_id;
+
+  select coalesce(array_agg(badge_application_id), '{}') into v_badge_ids
+  from promotion_badges
+  where promotion_id = p_promotion_id;
+
+  return jsonb_build_object('promotion', to_jsonb(v_promotion), 'badge_application_ids', to_jsonb(v_badge_ids));
+end;
+$$;
+
+-- -------------------------------
+-- reject_promotion(): submitted -> rejected, reservations released, badges accepted again
+-- -------------------------------
+create or replace function reject_promotion(p_promotion_id uuid, p_actor_id uuid, p_reject_reason text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promotion promotions;
+  v_badge_ids uuid[];
+begin
+  perform _lock_promotion_for_transition(p_promotion_id, p_actor_id, 'submitted', false);
+
+  update promotions
+  set status = 'rejected', rejected_by = p_actor_id, rejected_at = now(), reject_reason = p_reject_reason
+  where id = p_promotion_id
+  returning * into v_promotion;
+
+  with released as (
+    delete from promotion_badges
+    where promotion_id = p_promotion_id
+    returning badge_application_id
+  )
+  select coalesce(array_agg(badge_application_id), '{}') into v_badge_ids
+  from released;
+
+  update badge_applications
+  set status = 'accepted'
+  where id = any (v_badge_ids) and status = 'used_in_promotion';
+
+  return jsonb_build_object('promotion', to_jsonb(v_promotion), 'badge_application_ids', to_jsonb(v_badge_ids));
+end;
+$$;
+
+revoke all on function _lock_promotion_for_transition(uuid, uuid, text, boolean) from public;
+revoke all on function add_promotion_badges(uuid, uuid[], uuid) from public;
+revoke all on function remove_promotion_badges(uuid, uuid[], uuid) from public;
+revoke all on function submit_promotion(uuid, uuid) from public;
+revoke all on function approve_promotion(uuid, uuid) from public;
+revoke all on function reject_promotion(uuid, uuid, text) from public;
+
+grant execute on function add_promotion_badges(uuid, uuid[], uuid) to authenticated;
+grant execute on function remove_promotion_badges(uuid, uuid[], uuid) to authenticated;
+grant execute on function submit_promotion(uuid, uuid) to authenticated;
+grant execute on function approve_promotion(uuid, uuid) to authenticated;
+grant execute on function reject_promotion(uuid, uuid, text) to authenticated;
+
+commit;
+
+-- end migration
@@ -0,0 +1,155 @@
+-- migration: current career path and level per user
+-- created: 2025-11-24 00:00:00 utc
+-- purpose: record where each engineer stands on the career ladder, so promotions can only
+--          start from the user's current level
+-- affected: user_positions (new table), users (new columns current_path, current_level; update policy),
+--           users_sync_current_position(), promotions_record_position() (new trigger functions)
+-- special notes:
+--  - user_positions is an effective-dated history; users.current_path / current_level mirror the
+--    latest entry that is already effective and are maintained by trigger only
+--  - levels must exist in src/config/position-levels.json (checked by the api, not the database)
+--  - approving a promotion (or importing an approved one) adds a position entry for the
+--    promotion's target level
+--  - history is append-only for users and admins: corrections are made by adding a newer entry
+--  - existing approved promotions are backfilled as position entries
+--
+
+begin;
+
+-- -------------------------------
+-- user_positions
+-- -------------------------------
+create table if not exists user_positions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users (id) on delete cascade,
+  path text not null check (path in ('technical', 'financial', 'management')),
+  level text not null check (char_length(level) between 1 and 20),
+  effective_from timestamptz not null default now(),
+  -- 'promotion' (approved promotion), 'admin' (set by an admin) or 'import' (backfill)
+  source text not null check (source in ('promotion', 'admin', 'import')),
+  -- removed with the promotion (e.g. when a history import is rolled back)
+  promotion_id uuid references promotions (id) on delete cascade,
+  note text,
+  created_by uuid references users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_user_positions_user_effective on user_positions (user_id, effective_from desc);
+
+alter table user_positions enable row level security;
+
+create policy user_positions_select_authenticated on user_positions for select to authenticated
+using (
+  user_id = auth.uid()
+  or is_admin()
+  or is_manager_of(user_id)
+  or has_permission('promotions.approve')
+);
+
+create policy user_positions_insert_authenticated on user_positions for insert to authenticated
+with check (is_admin());
+
+-- -------------------------------
+-- users: current position (mirrors the latest effective user_positions entry)
+-- -------------------------------
+alter table users add column if not exists current_path text
+  check (current_path in ('technical', 'financial', 'management'));
+alter table users add column if not exists current_level text;
+
+drop policy if exists users_update_authenticated on users;
+
+-- users may update their own profile but not their admin flag, deactivation state or position;
+-- admins may update any user
+create policy users_update_authenticated on users for update to authenticated
+using (id = auth.uid() or is_admin())
+with check (
+  is_admin() or (
+    id = auth.uid()
+    and is_admin = (select u.is_admin from users u where u.id = auth.uid())
+    and deactivated_at is not distinct from (select u.deactivated_at from users u where u.id = auth.uid())
+    and current_path is not distinct from (select u.current_path from users u where u.id = auth.uid())
+    and current_level is not distinct from (select u.current_level from users u where u.id = auth.uid())
+  )
+);
+
+-- -------------------------------
+-- users_sync_current_position(): copies the latest effective position onto the user
+-- -------------------------------
+create or replace function users_sync_current_position()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := case when tg_op = 'DELETE' then old.user_id else new.user_id end;
+  v_position user_positions;
+begin
+  select * into v_position
+  from user_positions
+  where user_id = v_user_id and effective_from <= now()
+  order by effective_from desc, created_at desc
+  limit 1;
+
+  update users
+  set current_path = v_position.path, current_level = v_position.level
+  where id = v_user_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists user_positions_sync_current on user_positions;
+create trigger user_positions_sync_current
+after insert or delete on user_positions
+for each row
+execute function users_sync_current_position();
+
+-- -------------------------------
+-- promotions_record_position(): an approved promotion advances its creator to the target level
+-- (approvals through approve_promotion() and approved promotions from the history import)
+-- -------------------------------
+create or replace function promotions_record_position()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status <> 'approved' or (tg_op = 'UPDATE' and old.status = 'approved') then
+    return new;
+  end if;
+
+  insert into user_positions (user_id, path, level, effective_from, source, promotion_id, created_by)
+  values (
+    new.created_by,
+    new.path,
+    new.to_level,
+    coalesce(new.approved_at, now()),
+    case when tg_op = 'INSERT' then 'import' else 'promotion' end,
+    new.id,
+    new.approved_by
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists promotions_record_position on promotions;
+create trigger promotions_record_position
+after insert or update of status on promotions
+for each row
+execute function promotions_record_position();
+
+-- -------------------------------
+-- backfill: approved promotions become position entries
+-- -------------------------------
+insert into user_positions (user_id, path, level, effective_from, source, promotion_id, created_by)
+select p.created_by, p.path, p.to_level, coalesce(p.approved_at, p.created_at), 'import', p.id, p.approved_by
+from promotions p
+where p.status = 'approved'
+  and not exists (select 1 from user_positions up where up.promotion_id = p.id);
+
+commit;
+
+-- end migration
@@ -0,0 +1,41 @@
+-- migration: versioned promotion template rules
+-- created: 2025-11-25 00:00:00 utc
+-- purpose: record which schema the rules of a promotion template follow, so templates can use
+--          level-or-higher conditions, alternative conditions and per-badge limits
+-- affected: promotion_templates (new column rules_version)
+-- special notes:
+--  - version 1: [{ category, level, count }] with exact level matching
+--  - version 2: version 1 plus optional or_higher, alternatives ([{ category, level, count, or_higher }])
+--    and max_per_badge per rule (see src/lib/validation/promotion-template.validation.ts)
+--  - every version 1 rule is a valid version 2 rule with the same meaning, so existing templates
+--    are upgraded in place; the api also upgrades version 1 rules it reads
+--
+
+begin;
+
+alter table promotion_templates
+  add column if not exists rules_version smallint not null default 1;
+
+-- keep only the version 1 fields of each rule; their meaning is unchanged in version 2
+update promotion_templates
+set rules = (
+  select coalesce(
+    jsonb_agg(jsonb_build_object('category', rule -> 'category', 'level', rule -> 'level', 'count', rule -> 'count')),
+    '[]'::jsonb
+  )
+  from jsonb_array_elements(promotion_templates.rules) as rule
+),
+  rules_version = 2
+where rules_version = 1
+  and jsonb_typeof(rules) = 'array';
+
+alter table promotion_templates alter column rules_version set default 2;
+
+alter table promotion_templates
+  add constraint promotion_templates_rules_version_check check (rules_version in (1, 2));
+
+comment on column promotion_templates.rules_version is 'schema version of rules (1: exact category/level/count, 2: adds or_higher, alternatives and max_per_badge)';
+
+commit;
+
+-- end migration
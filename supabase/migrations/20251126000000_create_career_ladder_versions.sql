@@ -0,0 +1,43 @@
+-- migration: career ladder versions
+-- created: 2025-11-26 00:00:00 utc
+-- purpose: store the career ladder (position levels per path) in the database so admins can edit it
+--          without a deploy; every edit is a new version that takes effect at a given date
+-- affected: career_ladder_versions (new table)
+-- special notes:
+--  - positions has the shape of src/config/position-levels.json ({ path: { level: { next_level?, required_badges } } });
+--    the api validates it (see src/lib/validation/career-ladder.validation.ts) before inserting
+--  - the version in force at a date is the one with the latest effective_from not after that date
+--    (highest version number on ties); without versions the bundled position-levels.json applies
+--  - versions are append-only: corrections are recorded as a new version
+--
+
+begin;
+
+create table if not exists career_ladder_versions (
+  id uuid primary key default gen_random_uuid(),
+  version integer not null unique check (version > 0),
+  positions jsonb not null check (jsonb_typeof(positions) = 'object'),
+  effective_from timestamptz not null default now(),
+  note text,
+  created_by uuid references users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists career_ladder_versions_effective_from_idx
+  on career_ladder_versions (effective_from desc, version desc);
+
+comment on table career_ladder_versions is 'dated versions of the career ladder; the latest effective version is in force';
+
+alter table career_ladder_versions enable row level security;
+
+-- the ladder is reference data for every signed-in user
+create policy career_ladder_versions_select_authenticated on career_ladder_versions for select to authenticated
+using (true);
+
+-- only admins record new versions; there are no update or delete policies
+create policy career_ladder_versions_insert_admin on career_ladder_versions for insert to authenticated
+with check (is_admin());
+
+commit;
+
+-- end migration
@@ -0,0 +1,115 @@
+-- migration: promotion template version history
+-- created: 2025-11-27 00:00:00 utc
+-- purpose: make promotion template versions immutable so promotions keep the rules they were
+--          built against; promotions record the template version they were created from and
+--          validation and approval read that version's rules
+-- affected: promotion_templates (version, updated_by), promotions (template_version),
+--           new table promotion_template_versions
+-- special notes:
+--  - promotion_templates keeps holding the current version; promotion_template_versions only
+--    stores earlier versions (one row per superseded version), like catalog_badge_versions
+--  - the snapshot is written by a trigger whenever promotion_templates.version changes, so the
+--    archive and the edit happen in the same transaction; activating or deactivating a
+--    template does not create a version
+--  - promotions.template_version defaults to the template's current version on insert
+--
+
+begin;
+
+alter table promotion_templates add column if not exists version int not null default 1;
+alter table promotion_templates add column if not exists updated_by uuid references users(id) on delete set null;
+
+create table if not exists promotion_template_versions (
+  id uuid primary key default gen_random_uuid(),
+  template_id uuid not null references promotion_templates(id) on delete cascade,
+  version int not null,
+  name text not null,
+  path text not null,
+  from_level text not null,
+  to_level text not null,
+  rules jsonb not null,
+  rules_version smallint not null,
+  authored_by uuid references users(id) on delete set null,
+  authored_at timestamptz not null,
+  superseded_by uuid references users(id) on delete set null,
+  superseded_at timestamptz not null default now(),
+  constraint promotion_template_versions_template_version_key unique (template_id, version)
+);
+
+create index if not exists idx_promotion_template_versions_template
+  on promotion_template_versions (template_id, version desc);
+
+alter table promotion_template_versions enable row level security;
+
+-- history is readable by everyone who can read templates (promotions reference old versions)
+create policy promotion_template_versions_select_authenticated on promotion_template_versions for select
+to authenticated using (true);
+
+-- only template managers archive versions (via the trigger below, when editing a template);
+-- history is never updated or deleted
+create policy promotion_template_versions_insert_authenticated on promotion_template_versions for insert
+to authenticated with check (has_permission('promotion_templates.manage'));
+
+-- helper: archive the previous rules when a promotion template moves to a new version
+create or replace function _10xbadger_archive_promotion_template_version()
+returns trigger
+language plpgsql
+as $$
+declare
+  previous promotion_template_versions%rowtype;
+begin
+  if old.version is distinct from new.version then
+    -- the outgoing version was authored when its predecessor was superseded (updated_at/updated_by
+    -- also move on activation changes, so they do not identify the author)
+    select * into previous from promotion_template_versions
+    where template_id = old.id and version = old.version - 1;
+
+    insert into promotion_template_versions (
+      template_id, version, name, path, from_level, to_level, rules, rules_version,
+      authored_by, authored_at, superseded_by, superseded_at
+    ) values (
+      old.id, old.version, old.name, old.path, old.from_level, old.to_level, old.rules, old.rules_version,
+      coalesce(previous.superseded_by, old.created_by), coalesce(previous.superseded_at, old.created_at),
+      new.updated_by, coalesce(new.updated_at, now())
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create trigger promotion_templates_archive_version
+after update on promotion_templates
+for each row execute function _10xbadger_archive_promotion_template_version();
+
+-- -------------------------------
+-- promotions: template version the promotion was built against
+-- -------------------------------
+alter table promotions add column if not exists template_version int;
+
+update promotions p
+set template_version = t.version
+from promotion_templates t
+where t.id = p.template_id and p.template_version is null;
+
+alter table promotions alter column template_version set not null;
+
+-- helper: promotions created without an explicit version use the template's current one
+create or replace function _10xbadger_set_promotion_template_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.template_version is null then
+    select version into new.template_version from promotion_templates where id = new.template_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger promotions_set_template_version
+before insert on promotions
+for each row execute function _10xbadger_set_promotion_template_version();
+
+commit;
+
+-- end migration
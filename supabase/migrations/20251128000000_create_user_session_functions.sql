@@ -0,0 +1,85 @@
+-- migration: user session listing and revocation
+-- created: 2025-11-28 00:00:00 utc
+-- purpose: let users see where they are signed in and sign out their other devices, and let
+--          admins force a user to sign out everywhere (GET/DELETE /api/auth/sessions,
+--          DELETE /api/users/:id/sessions, account deactivation)
+-- affected: list_user_sessions(), revoke_user_sessions() (new functions)
+-- special notes:
+--  - auth.sessions is not exposed to the api; both functions are security definer and only act
+--    on the caller's own sessions, or on any user's sessions for admins
+--  - deleting a session deletes its refresh tokens, and supabase auth rejects access tokens
+--    whose session no longer exists, so revoked devices are signed out on their next request
+--
+
+begin;
+
+-- -------------------------------
+-- list_user_sessions(): active sessions of a user, most recently used first
+-- -------------------------------
+create or replace function list_user_sessions(target uuid)
+returns table (
+  id uuid,
+  created_at timestamptz,
+  last_seen_at timestamptz,
+  user_agent text,
+  ip text,
+  not_after timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or (target <> auth.uid() and not is_admin()) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    s.id,
+    s.created_at,
+    coalesce(s.refreshed_at at time zone 'utc', s.updated_at, s.created_at),
+    s.user_agent,
+    host(s.ip),
+    s.not_after
+  from auth.sessions s
+  where s.user_id = target
+    and (s.not_after is null or s.not_after > now())
+  order by 3 desc;
+end;
+$$;
+
+grant execute on function list_user_sessions(uuid) to authenticated;
+
+-- -------------------------------
+-- revoke_user_sessions(): signs a user out of every session except keep_session
+-- returns the number of sessions revoked
+-- -------------------------------
+create or replace function revoke_user_sessions(target uuid, keep_session uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  revoked integer;
+begin
+  if auth.uid() is null or (target <> auth.uid() and not is_admin()) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+
+  delete from auth.sessions s
+  where s.user_id = target
+    and (keep_session is null or s.id <> keep_session);
+
+  get diagnostics revoked = row_count;
+  return revoked;
+end;
+$$;
+
+grant execute on function revoke_user_sessions(uuid, uuid) to authenticated;
+
+commit;
+
+-- end migration
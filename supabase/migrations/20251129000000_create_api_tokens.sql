@@ -0,0 +1,90 @@
+-- migration: api tokens for integrations and scripts
+-- created: 2025-11-29 00:00:00 utc
+-- purpose: let scripts call the api with "Authorization: Bearer <token>" instead of a browser
+--          session; users create personal tokens, admins also issue service tokens for other
+--          accounts (e.g. a dedicated hris sync user)
+-- affected: new table api_tokens, authenticate_api_token() (new function)
+-- special notes:
+--  - only the sha-256 hash of a token is stored; the token itself is shown once on creation and
+--    token_prefix keeps its first characters so users can recognise it in the list
+--  - scope limits what a token may do on top of its owner's roles: read (GET only), review
+--    (GET plus badge review and promotion approval), admin (everything the owner may do);
+--    the route guard enforces it
+--  - tokens always expire; revoked tokens are kept for the audit trail
+--  - authenticate_api_token() is security definer and callable before sign-in: whoever holds the
+--    token may look it up, nobody can list or read other tokens through it
+--
+
+begin;
+
+create table if not exists api_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  kind text not null default 'personal' check (kind in ('personal', 'service')),
+  scope text not null check (scope in ('read', 'review', 'admin')),
+  token_hash text not null unique,
+  token_prefix text not null,
+  expires_at timestamptz not null,
+  created_by uuid references users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  revoked_by uuid references users(id) on delete set null
+);
+
+create index if not exists idx_api_tokens_user on api_tokens (user_id, created_at desc);
+
+alter table api_tokens enable row level security;
+
+-- users see their own tokens, admins every token
+create policy api_tokens_select_authenticated on api_tokens for select
+to authenticated using (user_id = auth.uid() or is_admin());
+
+-- users create personal tokens for themselves; admins may issue tokens for any account
+create policy api_tokens_insert_authenticated on api_tokens for insert
+to authenticated with check (
+  is_admin() or (user_id = auth.uid() and created_by = auth.uid() and kind = 'personal')
+);
+
+-- revoking sets revoked_at; tokens are never deleted
+create policy api_tokens_update_authenticated on api_tokens for update
+to authenticated using (user_id = auth.uid() or is_admin())
+with check (user_id = auth.uid() or is_admin());
+
+-- -------------------------------
+-- authenticate_api_token(): resolves a token hash to its owner and scope
+-- returns no row for unknown, revoked or expired tokens and for deactivated owners;
+-- records the time of use
+-- -------------------------------
+create or replace function authenticate_api_token(p_token_hash text)
+returns table (
+  id uuid,
+  user_id uuid,
+  email text,
+  scope text,
+  expires_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  update api_tokens t
+  set last_used_at = now()
+  from users u
+  where t.token_hash = p_token_hash
+    and u.id = t.user_id
+    and t.revoked_at is null
+    and t.expires_at > now()
+    and u.deactivated_at is null
+  returning t.id, t.user_id, u.email, t.scope, t.expires_at;
+end;
+$$;
+
+grant execute on function authenticate_api_token(text) to anon, authenticated;
+
+commit;
+
+-- end migration
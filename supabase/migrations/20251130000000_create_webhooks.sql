@@ -0,0 +1,125 @@
+-- migration: outbound webhooks for audit events
+-- created: 2025-11-30 00:00:00 utc
+-- purpose: let admins subscribe external systems (hr tools, chat bots) to audit event types
+--          such as badge_application.accepted or promotion.approved; matching events are
+--          queued as deliveries and sent by the webhook worker (POST /api/webhooks/process)
+-- affected: webhook_subscriptions, webhook_deliveries (new tables),
+--           _10xbadger_enqueue_webhook_deliveries() trigger on audit_logs
+-- special notes:
+--  - deliveries are queued by a trigger on audit_logs, so every audited change is covered and
+--    the queue entry is written in the same transaction as the audit entry
+--  - the trigger is security definer: audit entries are written by ordinary users, who cannot
+--    read subscriptions or write deliveries
+--  - the subscription secret signs every payload (hmac sha-256); it is stored in clear because
+--    the worker needs it, and only admins can read it
+--  - failed deliveries are retried with exponential backoff until the worker gives up; a
+--    redelivery is a new row pointing at the original (redelivery_of)
+--
+
+begin;
+
+-- -------------------------------
+-- webhook_subscriptions
+-- -------------------------------
+create table if not exists webhook_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  url text not null check (url ~ '^https?://'),
+  description text,
+  event_types text[] not null check (cardinality(event_types) > 0),
+  secret text not null,
+  is_active boolean not null default true,
+  created_by uuid references users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table webhook_subscriptions enable row level security;
+
+create policy webhook_subscriptions_select_admin on webhook_subscriptions for select
+to authenticated using (is_admin());
+
+create policy webhook_subscriptions_insert_admin on webhook_subscriptions for insert
+to authenticated with check (is_admin());
+
+create policy webhook_subscriptions_update_admin on webhook_subscriptions for update
+to authenticated using (is_admin()) with check (is_admin());
+
+create policy webhook_subscriptions_delete_admin on webhook_subscriptions for delete
+to authenticated using (is_admin());
+
+-- -------------------------------
+-- webhook_deliveries (queue and delivery log)
+-- -------------------------------
+create table if not exists webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  subscription_id uuid not null references webhook_subscriptions (id) on delete cascade,
+  event_type text not null,
+  audit_log_id uuid references audit_logs (id) on delete set null,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_attempt_at timestamptz,
+  response_status integer,
+  response_body text,
+  last_error text,
+  redelivery_of uuid references webhook_deliveries (id) on delete set null,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz
+);
+
+-- worker picks up due deliveries; the log lists a subscription's deliveries newest first
+create index if not exists idx_webhook_deliveries_due on webhook_deliveries (next_attempt_at) where status = 'pending';
+create index if not exists idx_webhook_deliveries_subscription on webhook_deliveries (subscription_id, created_at desc);
+
+alter table webhook_deliveries enable row level security;
+
+create policy webhook_deliveries_select_admin on webhook_deliveries for select
+to authenticated using (is_admin());
+
+-- admins queue redeliveries and test events and may send them right away
+create policy webhook_deliveries_insert_admin on webhook_deliveries for insert
+to authenticated with check (is_admin());
+
+create policy webhook_deliveries_update_admin on webhook_deliveries for update
+to authenticated using (is_admin()) with check (is_admin());
+
+-- -------------------------------
+-- helper: queue a delivery for every active subscription to a new audit entry's event type
+-- -------------------------------
+create or replace function _10xbadger_enqueue_webhook_deliveries()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into webhook_deliveries (subscription_id, event_type, audit_log_id, payload)
+  select
+    s.id,
+    new.event_type,
+    new.id,
+    jsonb_build_object(
+      'audit_log_id', new.id,
+      'resource_type', new.resource_type,
+      'resource_id', new.resource_id,
+      'actor_id', new.actor_id,
+      'occurred_at', new.created_at,
+      'details', coalesce(new.payload, '{}'::jsonb)
+    )
+  from webhook_subscriptions s
+  where s.is_active
+    and new.event_type = any (s.event_types);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists enqueue_webhook_deliveries on audit_logs;
+create trigger enqueue_webhook_deliveries
+after insert on audit_logs
+for each row execute function _10xbadger_enqueue_webhook_deliveries();
+
+commit;
+
+-- end migration
@@ -0,0 +1,109 @@
+-- migration: atomic historical import
+-- created: 2025-12-01 00:00:00 utc
+-- purpose: write an imported history (badge applications, approved promotions and their
+--          consumed badge links) in one transaction instead of three separate inserts with a
+--          best-effort delete as rollback
+-- affected: import_history() (new function)
+-- special notes:
+--  - called via rpc from HistoryImportService; either every row is written or none
+--  - rows are passed as json arrays shaped like the tables; ids are generated by the caller so
+--    the arrays can reference each other
+--  - security invoker: the admin insert policies from 20251117000000 still apply, and the
+--    function refuses non-admins itself (sqlstate 42501)
+--
+
+begin;
+
+-- -------------------------------
+-- import_history(): inserts applications, promotions and promotion_badges together
+-- -------------------------------
+create or replace function import_history(
+  p_applications jsonb,
+  p_promotions jsonb,
+  p_promotion_badges jsonb
+)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not is_admin() then
+    raise exception using errcode = '42501', message = 'not_authorized';
+  end if;
+
+  insert into badge_applications (
+    id,
+    applicant_id,
+    catalog_badge_id,
+    catalog_badge_version,
+    date_of_application,
+    date_of_fulfillment,
+    reason,
+    status,
+    created_at,
+    submitted_at,
+    reviewed_by,
+    reviewed_at
+  )
+  select
+    id,
+    applicant_id,
+    catalog_badge_id,
+    catalog_badge_version,
+    date_of_application,
+    date_of_fulfillment,
+    reason,
+    status,
+    created_at,
+    submitted_at,
+    reviewed_by,
+    reviewed_at
+  from jsonb_populate_recordset(null::badge_applications, p_applications);
+
+  insert into promotions (
+    id,
+    template_id,
+    created_by,
+    path,
+    from_level,
+    to_level,
+    status,
+    created_at,
+    submitted_at,
+    approved_at,
+    approved_by,
+    executed
+  )
+  select
+    id,
+    template_id,
+    created_by,
+    path,
+    from_level,
+    to_level,
+    status,
+    created_at,
+    submitted_at,
+    approved_at,
+    approved_by,
+    executed
+  from jsonb_populate_recordset(null::promotions, p_promotions);
+
+  insert into promotion_badges (promotion_id, badge_application_id, assigned_at, assigned_by, consumed)
+  select promotion_id, badge_application_id, assigned_at, assigned_by, consumed
+  from jsonb_populate_recordset(null::promotion_badges, p_promotion_badges);
+
+  return jsonb_build_object(
+    'application_count', jsonb_array_length(p_applications),
+    'promotion_count', jsonb_array_length(p_promotions),
+    'promotion_badge_count', jsonb_array_length(p_promotion_badges)
+  );
+end;
+$$;
+
+revoke all on function import_history(jsonb, jsonb, jsonb) from public;
+grant execute on function import_history(jsonb, jsonb, jsonb) to authenticated;
+
+commit;
+
+-- end migration
@@ -0,0 +1,22 @@
+-- migration: require the acting user on outbox events
+-- created: 2025-12-02 00:00:00 utc
+-- purpose: stop signed-in users from writing events in someone else's name or with no actor
+-- affected: events (insert policy)
+-- special notes:
+--  - events_insert_authenticated from 20251118000000 accepted a null actor_id, so any user
+--    could enqueue e.g. a badge_application.accepted event for any resource and reason text
+--  - every event written by the app carries the acting user; the worker additionally checks
+--    the event against the resource's current status and reviewer before notifying anyone
+--
+
+begin;
+
+drop policy if exists events_insert_authenticated on events;
+
+-- signed-in users may only enqueue events for the transitions they perform themselves
+create policy events_insert_authenticated on events for insert to authenticated
+with check (actor_id is not null and actor_id = auth.uid());
+
+commit;
+
+-- end migration
@@ -0,0 +1,424 @@
+-- migration: promotion approval checks in the database
+-- created: 2025-12-03 00:00:00 utc
+-- purpose: stop approvers from deciding on their own promotions and from approving promotions
+--          that do not meet their template requirements, whichever way they reach the table
+-- affected: _lock_promotion_for_transition(), approve_promotion() (replaced),
+--           _badge_level_rank(), _max_badge_allocation(), _promotion_requirements_met() (new),
+--           promotions (update policy)
+-- special notes:
+--  - new transition error codes; keep them in sync with PromotionTransitionErrorCode in
+--    src/lib/promotion.service.ts
+--      own_promotion         -> approver is the promotion's creator (approve and reject)
+--      requirements_not_met  -> the promotion's badges do not satisfy its template version
+--  - _promotion_requirements_met mirrors allocateBadges in src/lib/badge-requirements.ts: every
+--    combination of rule conditions (own or alternative) is tried, and badges are assigned by
+--    maximum flow, each badge to at most one rule, at most max_per_badge applications of one
+--    catalog badge per rule; the promotion is valid when some combination fills every rule
+--  - promotions can no longer be moved to approved with a direct update; approval only happens
+--    through approve_promotion() (security definer, so the policy does not apply to it)
+--
+
+begin;
+
+-- -------------------------------
+-- _lock_promotion_for_transition(): locks a promotion and checks caller, owner and status
+-- -------------------------------
+create or replace function _lock_promotion_for_transition(
+  p_promotion_id uuid,
+  p_actor_id uuid,
+  p_expected_status text,
+  p_owner_only boolean
+)
+returns promotions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promotion promotions;
+begin
+  if p_actor_id is distinct from auth.uid() then
+    perform _promotion_transition_error('not_authorized');
+  end if;
+
+  select * into v_promotion from promotions where id = p_promotion_id for update;
+
+  if not found then
+    perform _promotion_transition_error('promotion_not_found');
+  end if;
+
+  if p_owner_only and v_promotion.created_by <> p_actor_id then
+    perform _promotion_transition_error('not_authorized');
+  end if;
+
+  if not p_owner_only and not has_permission('promotions.approve') then
+    perform _promotion_transition_error('not_authorized');
+  end if;
+
+  -- reviewers never decide on their own promotion, admins included
+  if not p_owner_only and v_promotion.created_by = p_actor_id then
+    perform _promotion_transition_error('own_promotion');
+  end if;
+
+  if v_promotion.status <> p_expected_status then
+    perform _promotion_transition_error('invalid_status', jsonb_build_object('current_status', v_promotion.status));
+  end if;
+
+  return v_promotion;
+end;
+$$;
+
+-- -------------------------------
+-- _badge_level_rank(): order of badge levels (lowest first), as LEVEL_RANK in badge-requirements.ts
+-- -------------------------------
+create or replace function _badge_level_rank(p_level text)
+returns int
+language sql
+immutable
+as $$
+  select case p_level when 'bronze' then 0 when 'silver' then 1 when 'gold' then 2 end;
+$$;
+
+-- -------------------------------
+-- _max_badge_allocation(): number of rule slots the badges can fill for one condition per rule
+-- -------------------------------
+-- badges and rules are passed as parallel arrays; levels are ranks (see _badge_level_rank).
+-- maximum flow source -> badge (1) -> rule (1) -> sink (count); for rules with max_per_badge,
+-- badges of the same catalog badge pass through a shared node with that capacity.
+create or replace function _max_badge_allocation(
+  p_badge_categories text[],
+  p_badge_levels int[],
+  p_badge_catalog_ids uuid[],
+  p_rule_categories text[],
+  p_rule_levels int[],
+  p_rule_or_higher boolean[],
+  p_rule_counts int[],
+  p_rule_max_per_badge int[]
+)
+returns int
+language plpgsql
+immutable
+as $$
+declare
+  v_badge_count int := coalesce(array_length(p_badge_categories, 1), 0);
+  v_rule_count int := coalesce(array_length(p_rule_categories, 1), 0);
+  -- nodes: 1 source, 2 sink, then badges, then rules, then catalog badge groups
+  v_source constant int := 1;
+  v_sink constant int := 2;
+  v_node_count int := 2 + v_badge_count + v_rule_count;
+  v_groups jsonb := '{}'::jsonb;
+  v_group_key text;
+  v_group_node int;
+  v_rule_node int;
+  -- edge list, then adjacency (edge 2k-1 is edge k, edge 2k its reverse)
+  v_edge_from int[] := '{}';
+  v_edge_to int[] := '{}';
+  v_edge_capacity int[] := '{}';
+  v_head int[];
+  v_next int[] := '{}';
+  v_to int[] := '{}';
+  v_capacity int[] := '{}';
+  v_required int := 0;
+  v_flow int := 0;
+  v_queue int[];
+  v_position int;
+  v_visited boolean[];
+  v_parent_edge int[];
+  v_node int;
+  v_edge int;
+  v_reverse int;
+  i int;
+  j int;
+  k int;
+begin
+  for j in 1 .. v_rule_count loop
+    v_rule_node := 2 + v_badge_count + j;
+    v_edge_from := v_edge_from || v_rule_node;
+    v_edge_to := v_edge_to || v_sink;
+    v_edge_capacity := v_edge_capacity || greatest(p_rule_counts[j], 0);
+    v_required := v_required + greatest(p_rule_counts[j], 0);
+  end loop;
+
+  for i in 1 .. v_badge_count loop
+    v_edge_from := v_edge_from || v_source;
+    v_edge_to := v_edge_to || (2 + i);
+    v_edge_capacity := v_edge_capacity || 1;
+
+    for j in 1 .. v_rule_count loop
+      -- levels match exactly unless or_higher; "any" matches every category
+      continue when (
+        case
+          when p_rule_or_higher[j] then coalesce(p_badge_levels[i], -1) >= coalesce(p_rule_levels[j], 99)
+          else p_badge_levels[i] = p_rule_levels[j]
+        end
+        and (p_rule_categories[j] = 'any' or p_badge_categories[i] = p_rule_categories[j])
+      ) is not true;
+
+      v_rule_node := 2 + v_badge_count + j;
+
+      if p_rule_max_per_badge[j] is null or p_badge_catalog_ids[i] is null then
+        v_edge_from := v_edge_from || (2 + i);
+        v_edge_to := v_edge_to || v_rule_node;
+        v_edge_capacity := v_edge_capacity || 1;
+        continue;
+      end if;
+
+      v_group_key := j || ':' || p_badge_catalog_ids[i];
+      if v_groups ? v_group_key then
+        v_group_node := (v_groups ->> v_group_key)::int;
+      else
+        v_node_count := v_node_count + 1;
+        v_group_node := v_node_count;
+        v_groups := v_groups || jsonb_build_object(v_group_key, v_group_node);
+        v_edge_from := v_edge_from || v_group_node;
+        v_edge_to := v_edge_to || v_rule_node;
+        v_edge_capacity := v_edge_capacity || p_rule_max_per_badge[j];
+      end if;
+
+      v_edge_from := v_edge_from || (2 + i);
+      v_edge_to := v_edge_to || v_group_node;
+      v_edge_capacity := v_edge_capacity || 1;
+    end loop;
+  end loop;
+
+  v_head := array_fill(0, array[v_node_count]);
+  for k in 1 .. coalesce(array_length(v_edge_from, 1), 0) loop
+    v_to := v_to || v_edge_to[k] || v_edge_from[k];
+    v_capacity := v_capacity || v_edge_capacity[k] || 0;
+    v_next := v_next || v_head[v_edge_from[k]] || v_head[v_edge_to[k]];
+    v_head[v_edge_from[k]] := 2 * k - 1;
+    v_head[v_edge_to[k]] := 2 * k;
+  end loop;
+
+  -- every augmenting path starts with a source -> badge edge of capacity 1, so carries one unit
+  while v_flow < v_required loop
+    v_visited := array_fill(false, array[v_node_count]);
+    v_parent_edge := array_fill(0, array[v_node_count]);
+    v_queue := array[v_source];
+    v_visited[v_source] := true;
+    v_position := 1;
+
+    while v_position <= array_length(v_queue, 1) and not v_visited[v_sink] loop
+      v_node := v_queue[v_position];
+      v_position := v_position + 1;
+      v_edge := v_head[v_node];
+
+      while v_edge <> 0 loop
+        if v_capacity[v_edge] > 0 and not v_visited[v_to[v_edge]] then
+          v_visited[v_to[v_edge]] := true;
+          v_parent_edge[v_to[v_edge]] := v_edge;
+          v_queue := v_queue || v_to[v_edge];
+        end if;
+        v_edge := v_next[v_edge];
+      end loop;
+    end loop;
+
+    exit when not v_visited[v_sink];
+
+    v_node := v_sink;
+    while v_node <> v_source loop
+      v_edge := v_parent_edge[v_node];
+      v_reverse := case when v_edge % 2 = 1 then v_edge + 1 else v_edge - 1 end;
+      v_capacity[v_edge] := v_capacity[v_edge] - 1;
+      v_capacity[v_reverse] := v_capacity[v_reverse] + 1;
+      v_node := v_to[v_reverse];
+    end loop;
+
+    v_flow := v_flow + 1;
+  end loop;
+
+  return v_flow;
+end;
+$$;
+
+-- -------------------------------
+-- _promotion_requirements_met(): checks a promotion's badges against its template version
+-- -------------------------------
+create or replace function _promotion_requirements_met(p_promotion_id uuid)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_template record;
+  v_rules jsonb;
+  v_rules_version int;
+  v_badge_categories text[];
+  v_badge_levels int[];
+  v_badge_catalog_ids uuid[];
+  v_rule_count int;
+  v_combinations int := 1;
+  v_rest int;
+  v_options int;
+  v_condition jsonb;
+  v_categories text[];
+  v_levels int[];
+  v_or_higher boolean[];
+  v_counts int[];
+  v_max_per_badge int[];
+  v_required int;
+  c int;
+  i int;
+begin
+  -- rules of the template version the promotion was created against
+  select p.template_version, t.id as template_id, t.version as current_version, t.rules, t.rules_version
+  into v_template
+  from promotions p
+  join promotion_templates t on t.id = p.template_id
+  where p.id = p_promotion_id;
+
+  if not found then
+    perform _promotion_transition_error('promotion_not_found');
+  end if;
+
+  if v_template.template_version = v_template.current_version then
+    v_rules := v_template.rules;
+    v_rules_version := v_template.rules_version;
+  else
+    select rules, rules_version into v_rules, v_rules_version
+    from promotion_template_versions
+    where template_id = v_template.template_id and version = v_template.template_version;
+
+    if not found then
+      raise exception 'template version % of % not found', v_template.template_version, v_template.template_id;
+    end if;
+  end if;
+
+  -- as upgradeTemplateRules: anything that isn't an array yields no rules
+  if jsonb_typeof(v_rules) is distinct from 'array' then
+    v_rules := '[]'::jsonb;
+  end if;
+  v_rules_version := coalesce(v_rules_version, 1);
+  v_rule_count := jsonb_array_length(v_rules);
+
+  select
+    coalesce(array_agg(cb.category order by ba.id), '{}'),
+    coalesce(array_agg(_badge_level_rank(cb.level) order by ba.id), '{}'),
+    coalesce(array_agg(cb.id order by ba.id), '{}')
+  into v_badge_categories, v_badge_levels, v_badge_catalog_ids
+  from promotion_badges pb
+  join badge_applications ba on ba.id = pb.badge_application_id
+  join catalog_badges cb on cb.id = ba.catalog_badge_id
+  where pb.promotion_id = p_promotion_id;
+
+  -- alternatives, or_higher and max_per_badge exist from rules schema version 2
+  for i in 0 .. v_rule_count - 1 loop
+    if v_rules_version >= 2 and jsonb_typeof(v_rules -> i -> 'alternatives') = 'array' then
+      v_combinations := v_combinations * (1 + jsonb_array_length(v_rules -> i -> 'alternatives'));
+    end if;
+  end loop;
+
+  for c in 0 .. v_combinations - 1 loop
+    v_rest := c;
+    v_categories := '{}';
+    v_levels := '{}';
+    v_or_higher := '{}';
+    v_counts := '{}';
+    v_max_per_badge := '{}';
+    v_required := 0;
+
+    for i in 0 .. v_rule_count - 1 loop
+      v_options := 1;
+      if v_rules_version >= 2 and jsonb_typeof(v_rules -> i -> 'alternatives') = 'array' then
+        v_options := 1 + jsonb_array_length(v_rules -> i -> 'alternatives');
+      end if;
+
+      v_condition := case
+        when v_rest % v_options = 0 then v_rules -> i
+        else v_rules -> i -> 'alternatives' -> (v_rest % v_options - 1)
+      end;
+      v_rest := v_rest / v_options;
+
+      v_categories := array_append(v_categories, v_condition ->> 'category');
+      v_levels := array_append(v_levels, _badge_level_rank(v_condition ->> 'level'));
+      v_or_higher := array_append(
+        v_or_higher,
+        v_rules_version >= 2 and coalesce((v_condition ->> 'or_higher')::boolean, false)
+      );
+      v_counts := array_append(v_counts, (v_condition ->> 'count')::int);
+      v_max_per_badge := array_append(
+        v_max_per_badge,
+        case when v_rules_version >= 2 then (v_rules -> i ->> 'max_per_badge')::int end
+      );
+      v_required := v_required + greatest((v_condition ->> 'count')::int, 0);
+    end loop;
+
+    if _max_badge_allocation(
+      v_badge_categories,
+      v_badge_levels,
+      v_badge_catalog_ids,
+      v_categories,
+      v_levels,
+      v_or_higher,
+      v_counts,
+      v_max_per_badge
+    ) >= v_required then
+      return true;
+    end if;
+  end loop;
+
+  return false;
+end;
+$$;
+
+-- -------------------------------
+-- approve_promotion(): submitted -> approved, reservations consumed
+-- -------------------------------
+create or replace function approve_promotion(p_promotion_id uuid, p_actor_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promotion promotions;
+  v_badge_ids uuid[];
+begin
+  perform _lock_promotion_for_transition(p_promotion_id, p_actor_id, 'submitted', false);
+
+  -- the promotion row is locked, so its badges cannot change between this check and the update
+  if not _promotion_requirements_met(p_promotion_id) then
+    perform _promotion_transition_error('requirements_not_met');
+  end if;
+
+  update promotions
+  set status = 'approved', approved_by = p_actor_id, approved_at = now(), executed = true
+  where id = p_promotion_id
+  returning * into v_promotion;
+
+  -- promotions_set_consumed already does this; kept explicit so approval never depends on it
+  update promotion_badges set consumed = true where promotion_id = p_promotion_id;
+
+  select coalesce(array_agg(badge_application_id), '{}') into v_badge_ids
+  from promotion_badges
+  where promotion_id = p_promotion_id;
+
+  return jsonb_build_object('promotion', to_jsonb(v_promotion), 'badge_application_ids', to_jsonb(v_badge_ids));
+end;
+$$;
+
+revoke all on function _badge_level_rank(text) from public;
+revoke all on function _max_badge_allocation(text[], int[], uuid[], text[], int[], boolean[], int[], int[]) from public;
+revoke all on function _promotion_requirements_met(uuid) from public;
+
+-- -------------------------------
+-- promotions: approval only through approve_promotion(); nobody decides on their own promotion
+-- -------------------------------
+drop policy if exists promotions_update_authenticated on promotions;
+
+create policy promotions_update_authenticated on promotions for update to authenticated
+using (
+  (created_by = auth.uid() and status = 'draft')
+  or is_admin()
+  or (status = 'submitted' and has_permission('promotions.approve'))
+)
+with check (
+  status <> 'approved'
+  and (status <> 'rejected' or created_by is distinct from auth.uid())
+);
+
+commit;
+
+-- end migration
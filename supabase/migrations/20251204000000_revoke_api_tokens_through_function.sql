@@ -0,0 +1,82 @@
+-- migration: revoke api tokens only through a function
+-- created: 2025-12-04 00:00:00 utc
+-- purpose: stop token owners from undoing revocation, expiry or scoping with a plain update
+-- affected: api_tokens (update policy dropped, new trigger), revoke_api_token() (new),
+--           api_tokens_keep_revocation() (new)
+-- special notes:
+--  - api_tokens_update_authenticated from 20251129000000 let owners update any column of their
+--    own tokens, so they could clear revoked_at, push expires_at, widen scope or swap token_hash
+--  - signed-in users can no longer update api_tokens at all; revoke_api_token() (security
+--    definer) only sets revoked_at and revoked_by, and only on tokens that are not revoked yet
+--  - api_tokens_keep_revocation() refuses updates that clear or change a revocation, or that
+--    change what a token grants, whoever runs them (service role and definer functions too);
+--    authenticate_api_token() still updates last_used_at
+--
+
+begin;
+
+drop policy if exists api_tokens_update_authenticated on api_tokens;
+
+revoke update on api_tokens from anon, authenticated;
+
+-- -------------------------------
+-- api_tokens_keep_revocation(): revocation is final, and a token's grant never changes
+-- -------------------------------
+create or replace function api_tokens_keep_revocation()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if old.revoked_at is not null
+    and (new.revoked_at is distinct from old.revoked_at or new.revoked_by is distinct from old.revoked_by) then
+    raise exception 'api token % is revoked and cannot be changed back', old.id
+      using errcode = 'check_violation';
+  end if;
+
+  if new.user_id is distinct from old.user_id
+    or new.scope is distinct from old.scope
+    or new.kind is distinct from old.kind
+    or new.token_hash is distinct from old.token_hash
+    or new.expires_at is distinct from old.expires_at then
+    raise exception 'api token % cannot be changed, create a new one instead', old.id
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists api_tokens_keep_revocation on api_tokens;
+create trigger api_tokens_keep_revocation
+before update on api_tokens
+for each row
+execute function api_tokens_keep_revocation();
+
+-- -------------------------------
+-- revoke_api_token(): revokes a token of the caller, or any token for admins
+-- returns false when the token doesn't exist, isn't the caller's or is already revoked
+-- -------------------------------
+create or replace function revoke_api_token(p_token_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update api_tokens
+  set revoked_at = now(), revoked_by = auth.uid()
+  where id = p_token_id
+    and revoked_at is null
+    and (user_id = auth.uid() or is_admin());
+
+  return found;
+end;
+$$;
+
+revoke all on function revoke_api_token(uuid) from public;
+grant execute on function revoke_api_token(uuid) to authenticated;
+
+commit;
+
+-- end migration
@@ -0,0 +1,146 @@
+-- migration: only send webhooks for audit entries the database can confirm
+-- created: 2025-12-05 00:00:00 utc
+-- purpose: stop signed-in users from making the app send signed webhooks for changes that never
+--          happened (e.g. a promotion.approved entry for someone else's promotion)
+-- affected: _10xbadger_enqueue_webhook_deliveries() (replaced),
+--           _10xbadger_webhook_event_confirmed() (new)
+-- special notes:
+--  - audit_logs accepts any event_type from a user writing in their own name (policy from
+--    20251114000000), and every matching entry used to be queued for delivery
+--  - entries written by admins, or without a signed-in user (service role), are queued as before
+--  - entries of other users are queued only when the resource confirms them: a decision must be
+--    the resource's current status and be recorded with the entry's actor as reviewer or
+--    approver, creations and submissions must be the actor's own resources, catalog and
+--    template changes need the matching role
+--  - entries that cannot be confirmed stay in the audit log but are not sent; for non-admins
+--    this includes deletions (the resource is gone), reservation conflicts and sign-outs
+--
+
+begin;
+
+-- -------------------------------
+-- helper: checks a non-admin's audit entry against the resource it names
+-- -------------------------------
+create or replace function _10xbadger_webhook_event_confirmed(p_entry audit_logs)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or is_admin() then
+    return true;
+  end if;
+
+  if p_entry.actor_id is distinct from auth.uid() or p_entry.resource_id is null then
+    return false;
+  end if;
+
+  case p_entry.event_type
+    when 'badge_application.created' then
+      return exists (
+        select 1 from badge_applications
+        where id = p_entry.resource_id and applicant_id = p_entry.actor_id
+      );
+    when 'badge_application.submitted' then
+      return exists (
+        select 1 from badge_applications
+        where id = p_entry.resource_id and applicant_id = p_entry.actor_id and status <> 'draft'
+      );
+    when 'badge_application.accepted' then
+      return exists (
+        select 1 from badge_applications
+        where id = p_entry.resource_id
+          and status in ('accepted', 'used_in_promotion')
+          and reviewed_by = p_entry.actor_id
+      );
+    when 'badge_application.rejected' then
+      return exists (
+        select 1 from badge_applications
+        where id = p_entry.resource_id and status = 'rejected' and reviewed_by = p_entry.actor_id
+      );
+    when 'promotion.created' then
+      return exists (
+        select 1 from promotions
+        where id = p_entry.resource_id and created_by = p_entry.actor_id
+      );
+    when 'promotion.submitted' then
+      return exists (
+        select 1 from promotions
+        where id = p_entry.resource_id and created_by = p_entry.actor_id and status <> 'draft'
+      );
+    when 'promotion.approved' then
+      return exists (
+        select 1 from promotions
+        where id = p_entry.resource_id and status = 'approved' and approved_by = p_entry.actor_id
+      );
+    when 'promotion.rejected' then
+      return exists (
+        select 1 from promotions
+        where id = p_entry.resource_id and status = 'rejected' and rejected_by = p_entry.actor_id
+      );
+    when 'catalog_badge.created', 'catalog_badge.updated', 'catalog_badge.deactivated',
+      'catalog_badge.reactivated', 'catalog_badge.archived' then
+      return has_permission('catalog.manage')
+        and exists (select 1 from catalog_badges where id = p_entry.resource_id);
+    when 'promotion_template.created', 'promotion_template.updated',
+      'promotion_template.deactivated' then
+      return has_permission('promotion_templates.manage')
+        and exists (select 1 from promotion_templates where id = p_entry.resource_id);
+    when 'api_token.created', 'api_token.used' then
+      return exists (
+        select 1 from api_tokens
+        where id = p_entry.resource_id and user_id = p_entry.actor_id
+      );
+    when 'api_token.revoked' then
+      return exists (
+        select 1 from api_tokens
+        where id = p_entry.resource_id and revoked_by = p_entry.actor_id
+      );
+    else
+      return false;
+  end case;
+end;
+$$;
+
+revoke all on function _10xbadger_webhook_event_confirmed(audit_logs) from public;
+
+-- -------------------------------
+-- helper: queue a delivery for every active subscription to a new, confirmed audit entry
+-- -------------------------------
+create or replace function _10xbadger_enqueue_webhook_deliveries()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not _10xbadger_webhook_event_confirmed(new) then
+    return new;
+  end if;
+
+  insert into webhook_deliveries (subscription_id, event_type, audit_log_id, payload)
+  select
+    s.id,
+    new.event_type,
+    new.id,
+    jsonb_build_object(
+      'audit_log_id', new.id,
+      'resource_type', new.resource_type,
+      'resource_id', new.resource_id,
+      'actor_id', new.actor_id,
+      'occurred_at', new.created_at,
+      'details', coalesce(new.payload, '{}'::jsonb)
+    )
+  from webhook_subscriptions s
+  where s.is_active
+    and new.event_type = any (s.event_types);
+
+  return new;
+end;
+$$;
+
+commit;
+
+-- end migration
@@ -0,0 +1,60 @@
+-- migration: claim webhook deliveries before sending them
+-- created: 2025-12-06 00:00:00 utc
+-- purpose: stop overlapping worker runs, or a run and an admin's redelivery, from posting the
+--          same delivery twice
+-- affected: webhook_deliveries (status check, due index), claim_webhook_deliveries() (new)
+-- special notes:
+--  - new delivery status 'sending': the delivery is claimed by one sender; keep it in sync with
+--    WebhookDeliveryStatus in src/types.ts
+--  - claim_webhook_deliveries() locks due rows with "for update skip locked" and marks them in
+--    the same statement, so concurrent callers never get the same row
+--  - a claim is a lease: next_attempt_at is moved to the end of the lease, and a delivery still
+--    'sending' after that (its sender crashed before recording the attempt) is claimed again
+--  - redeliveries and test deliveries are inserted already claimed, because they are sent
+--    right away by the admin's request
+--  - security invoker: the worker calls it with the service role, admins through their own
+--    update policy
+--
+
+begin;
+
+alter table webhook_deliveries drop constraint if exists webhook_deliveries_status_check;
+alter table webhook_deliveries add constraint webhook_deliveries_status_check
+check (status in ('pending', 'sending', 'succeeded', 'failed'));
+
+drop index if exists idx_webhook_deliveries_due;
+create index if not exists idx_webhook_deliveries_due on webhook_deliveries (next_attempt_at)
+where status in ('pending', 'sending');
+
+-- -------------------------------
+-- claim_webhook_deliveries(): claims up to p_limit due deliveries, oldest first
+-- -------------------------------
+create or replace function claim_webhook_deliveries(p_limit integer, p_lease_seconds integer)
+returns setof webhook_deliveries
+language plpgsql
+set search_path = public
+as $$
+begin
+  return query
+  update webhook_deliveries d
+  set status = 'sending',
+      next_attempt_at = now() + make_interval(secs => p_lease_seconds)
+  where d.id in (
+    select due.id
+    from webhook_deliveries due
+    where due.status in ('pending', 'sending')
+      and due.next_attempt_at <= now()
+    order by due.next_attempt_at
+    limit p_limit
+    for update skip locked
+  )
+  returning d.*;
+end;
+$$;
+
+revoke all on function claim_webhook_deliveries(integer, integer) from public;
+grant execute on function claim_webhook_deliveries(integer, integer) to authenticated, service_role;
+
+commit;
+
+-- end migration
@@ -0,0 +1,70 @@
+-- migration: users may only create draft promotions
+-- created: 2025-12-07 00:00:00 utc
+-- purpose: stop signed-in users from inserting already approved (or rejected) promotions
+--          for themselves, which moved their position up through promotions_record_position
+-- affected: promotions (insert policy), promotions_record_position() (replaced)
+-- special notes:
+--  - promotions_insert_authenticated from 20251111000002 only checked created_by, so a plain
+--    insert could choose any status, to_level and approver
+--  - non-admins now insert drafts without any decision fields; they move on only through the
+--    transition functions. admins keep promotions_insert_admin (20251117000000) for the
+--    history import
+--  - promotions_record_position() additionally ignores inserts by signed-in non-admins, so a
+--    position is only recorded by approve_promotion() and by imports
+--
+
+begin;
+
+drop policy if exists promotions_insert_authenticated on promotions;
+
+create policy promotions_insert_authenticated on promotions for insert to authenticated
+with check (
+  created_by = auth.uid()
+  and status = 'draft'
+  and submitted_at is null
+  and approved_at is null
+  and approved_by is null
+  and rejected_at is null
+  and rejected_by is null
+  and reject_reason is null
+  and not executed
+);
+
+-- -------------------------------
+-- promotions_record_position(): an approved promotion advances its creator to the target level
+-- (approvals through approve_promotion() and approved promotions imported by admins)
+-- -------------------------------
+create or replace function promotions_record_position()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status <> 'approved' or (tg_op = 'UPDATE' and old.status = 'approved') then
+    return new;
+  end if;
+
+  -- only admins (history import) and the service role insert approved promotions
+  if tg_op = 'INSERT' and auth.uid() is not null and not is_admin() then
+    return new;
+  end if;
+
+  insert into user_positions (user_id, path, level, effective_from, source, promotion_id, created_by)
+  values (
+    new.created_by,
+    new.path,
+    new.to_level,
+    coalesce(new.approved_at, now()),
+    case when tg_op = 'INSERT' then 'import' else 'promotion' end,
+    new.id,
+    new.approved_by
+  );
+
+  return new;
+end;
+$$;
+
+commit;
+
+-- end migration
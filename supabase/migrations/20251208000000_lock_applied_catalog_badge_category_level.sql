@@ -0,0 +1,43 @@
+-- migration: category and level are fixed once a badge has applications
+-- created: 2025-12-08 00:00:00 utc
+-- purpose: enforce in the database what CatalogBadgeService checked with a count that row level
+--          security filtered (catalog managers only see their own applications, so the count
+--          could be 0 on a badge others had applied for)
+-- affected: catalog_badges_lock_counted_fields() (new), trigger on catalog_badges
+-- special notes:
+--  - category and level decide what an application counts for in promotions and the roadmap,
+--    so changing them would retroactively change past applications
+--  - the function is security definer so it sees every application; it raises
+--    'badge_has_applications' (sqlstate P0001), mapped to BADGE_HAS_APPLICATIONS by the service
+--
+
+begin;
+
+-- -------------------------------
+-- catalog_badges_lock_counted_fields(): refuses category/level changes on applied badges
+-- -------------------------------
+create or replace function catalog_badges_lock_counted_fields()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.category is distinct from old.category or new.level is distinct from old.level)
+    and exists (select 1 from badge_applications where catalog_badge_id = old.id) then
+    raise exception using errcode = 'P0001', message = 'badge_has_applications';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists catalog_badges_lock_counted_fields on catalog_badges;
+create trigger catalog_badges_lock_counted_fields
+before update of category, level on catalog_badges
+for each row
+execute function catalog_badges_lock_counted_fields();
+
+commit;
+
+-- end migration
@@ -0,0 +1,84 @@
+-- migration: catalog badge impact report in the database
+-- created: 2025-12-09 00:00:00 utc
+-- purpose: give catalog managers the complete impact of deactivating or archiving a badge;
+--          the report used to be read through their own client, where row level security only
+--          shows them their own applications and promotions
+-- affected: catalog_badge_impact() (new function)
+-- special notes:
+--  - security definer so it sees every application and promotion; callable by admins and
+--    catalog managers only (sqlstate 42501 otherwise), like GET /api/catalog-badges/:id/impact
+--  - returns null for unknown badges, otherwise the CatalogBadgeImpactDto shape
+--    (src/types.ts): open (draft or submitted) applications with their applicant, and draft
+--    promotions that include any application for the badge
+--
+
+begin;
+
+-- -------------------------------
+-- catalog_badge_impact(): open applications and draft promotions affected by a badge
+-- -------------------------------
+create or replace function catalog_badge_impact(p_catalog_badge_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not has_permission('catalog.manage') then
+    raise exception using errcode = '42501', message = 'not_authorized';
+  end if;
+
+  if not exists (select 1 from catalog_badges where id = p_catalog_badge_id) then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'badge_id', p_catalog_badge_id,
+    'open_applications', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', a.id,
+          'status', a.status,
+          'applicant', case when u.id is null then null
+            else jsonb_build_object('id', u.id, 'display_name', u.display_name, 'email', u.email) end
+        )
+        order by a.created_at, a.id
+      )
+      from badge_applications a
+      left join users u on u.id = a.applicant_id
+      where a.catalog_badge_id = p_catalog_badge_id
+        and a.status in ('draft', 'submitted')
+    ), '[]'::jsonb),
+    -- every application is checked: accepted ones are the ones reserved by promotions
+    'draft_promotions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', p.id,
+          'path', p.path,
+          'from_level', p.from_level,
+          'to_level', p.to_level,
+          'created_by', p.created_by
+        )
+        order by p.created_at, p.id
+      )
+      from promotions p
+      where p.status = 'draft'
+        and exists (
+          select 1
+          from promotion_badges pb
+          join badge_applications a on a.id = pb.badge_application_id
+          where pb.promotion_id = p.id
+            and a.catalog_badge_id = p_catalog_badge_id
+        )
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+revoke all on function catalog_badge_impact(uuid) from public;
+grant execute on function catalog_badge_impact(uuid) to authenticated;
+
+commit;
+
+-- end migration
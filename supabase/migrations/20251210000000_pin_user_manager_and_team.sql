@@ -0,0 +1,34 @@
+-- migration: users cannot change their own manager or team
+-- created: 2025-12-10 00:00:00 utc
+-- purpose: stop signed-in users from reporting themselves to any manager (and showing up on
+--          that manager's team dashboard) or from leaving their own manager
+-- affected: users (update policy)
+-- special notes:
+--  - users_update_authenticated from 20251124000000 pinned is_admin, deactivated_at and the
+--    current position, but not manager_id and team
+--  - manager_id and team are set by admins (PUT /api/users/:id, org chart import)
+--
+
+begin;
+
+drop policy if exists users_update_authenticated on users;
+
+-- users may update their own profile but not their admin flag, deactivation state, position,
+-- manager or team; admins may update any user
+create policy users_update_authenticated on users for update to authenticated
+using (id = auth.uid() or is_admin())
+with check (
+  is_admin() or (
+    id = auth.uid()
+    and is_admin = (select u.is_admin from users u where u.id = auth.uid())
+    and deactivated_at is not distinct from (select u.deactivated_at from users u where u.id = auth.uid())
+    and current_path is not distinct from (select u.current_path from users u where u.id = auth.uid())
+    and current_level is not distinct from (select u.current_level from users u where u.id = auth.uid())
+    and manager_id is not distinct from (select u.manager_id from users u where u.id = auth.uid())
+    and team is not distinct from (select u.team from users u where u.id = auth.uid())
+  )
+);
+
+commit;
+
+-- end migration
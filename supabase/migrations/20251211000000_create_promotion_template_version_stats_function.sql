@@ -0,0 +1,68 @@
+-- migration: promotion template version history details in the database
+-- created: 2025-12-11 00:00:00 utc
+-- purpose: give everyone viewing a template's version history the real promotion counts and
+--          authors; both used to be read through the caller's client, where row level security
+--          only shows non-admins their own promotions and their own users row
+-- affected: promotion_template_version_stats() (new function)
+-- special notes:
+--  - security definer so it counts every promotion and reads every author; it only returns
+--    counts per version and the id, name and email of the template's authors, which
+--    GET /api/promotion-templates/:id/versions shows to every signed-in user
+--  - returns null for unknown templates, otherwise
+--    { promotion_counts: [{ version, count }], people: [{ id, display_name, email }] }
+--    where people are the template's creator and the authors and superseders of its versions
+--
+
+begin;
+
+-- -------------------------------
+-- promotion_template_version_stats(): promotions per version and the people behind each version
+-- -------------------------------
+create or replace function promotion_template_version_stats(p_template_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception using errcode = '42501', message = 'not_authorized';
+  end if;
+
+  if not exists (select 1 from promotion_templates where id = p_template_id) then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'promotion_counts', coalesce((
+      select jsonb_agg(jsonb_build_object('version', c.template_version, 'count', c.promotion_count)
+        order by c.template_version)
+      from (
+        select template_version, count(*) as promotion_count
+        from promotions
+        where template_id = p_template_id
+        group by template_version
+      ) c
+    ), '[]'::jsonb),
+    'people', coalesce((
+      select jsonb_agg(jsonb_build_object('id', u.id, 'display_name', u.display_name, 'email', u.email))
+      from users u
+      where u.id in (
+        select created_by from promotion_templates where id = p_template_id
+        union
+        select authored_by from promotion_template_versions where template_id = p_template_id
+        union
+        select superseded_by from promotion_template_versions where template_id = p_template_id
+      )
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+revoke all on function promotion_template_version_stats(uuid) from public;
+grant execute on function promotion_template_version_stats(uuid) to authenticated;
+
+commit;
+
+-- end migration
@@ -0,0 +1,38 @@
+-- migration: only the very first account becomes admin
+-- created: 2025-12-12 00:00:00 utc
+-- purpose: stop the next registration from becoming admin once the last active admin is gone
+--          (deactivated, demoted by hand or by sso group mapping)
+-- affected: users_bootstrap_first_admin() (replaced)
+-- special notes:
+--  - 20251120000000 granted admin whenever no active admin existed, which any later sign-up,
+--    even one with an unconfirmed email, could use to take over the installation
+--  - admin is now only granted when the users table is empty; a lost admin is restored by
+--    hand (see README_ADMIN_SETUP.md)
+--
+
+begin;
+
+-- -------------------------------
+-- users_bootstrap_first_admin(): the first user of a fresh install becomes admin
+-- -------------------------------
+create or replace function users_bootstrap_first_admin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- serialize concurrent registrations so only one of them can become the first admin
+  perform pg_advisory_xact_lock(hashtext('users_bootstrap_first_admin'));
+
+  if not exists (select 1 from users) then
+    new.is_admin := true;
+  end if;
+
+  return new;
+end;
+$$;
+
+commit;
+
+-- end migration
@@ -0,0 +1,51 @@
+-- migration: change a promotion draft's badges in one transaction
+-- created: 2025-12-13 00:00:00 utc
+-- purpose: let auto-fill add the badges it selected and release the ones it no longer needs
+--          atomically; it used two rpc calls, so a failed removal left the draft half-filled
+-- affected: replace_promotion_badges() (new function)
+-- special notes:
+--  - runs add_promotion_badges() and then remove_promotion_badges() (20251123000000) within one
+--    call, so their checks, row locks and coded errors (sqlstate P0001) are unchanged and a
+--    failure in either rolls back both
+--  - empty arrays skip the matching step
+--
+
+begin;
+
+-- -------------------------------
+-- replace_promotion_badges(): reserves and releases badge applications of a draft promotion
+-- -------------------------------
+create or replace function replace_promotion_badges(
+  p_promotion_id uuid,
+  p_add_badge_application_ids uuid[],
+  p_remove_badge_application_ids uuid[],
+  p_actor_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if cardinality(p_add_badge_application_ids) > 0 then
+    perform add_promotion_badges(p_promotion_id, p_add_badge_application_ids, p_actor_id);
+  end if;
+
+  if cardinality(p_remove_badge_application_ids) > 0 then
+    perform remove_promotion_badges(p_promotion_id, p_remove_badge_application_ids, p_actor_id);
+  end if;
+
+  return jsonb_build_object(
+    'promotion_id', p_promotion_id,
+    'added_count', coalesce(cardinality(p_add_badge_application_ids), 0),
+    'removed_count', coalesce(cardinality(p_remove_badge_application_ids), 0)
+  );
+end;
+$$;
+
+revoke all on function replace_promotion_badges(uuid, uuid[], uuid[], uuid) from public;
+grant execute on function replace_promotion_badges(uuid, uuid[], uuid[], uuid) to authenticated;
+
+commit;
+
+-- end migration